@@ -30,6 +30,7 @@ const ERR_AMOUNT_MUST_BE_POSITIVE = Cl.uint(405);
 const ERR_INSUFFICIENT_LIQUIDITY = Cl.uint(406);
 const ERR_POLICY_REGISTRY_ONLY = Cl.uint(407);
 const ERR_INVALID_RISK_TIER = Cl.uint(408);
+const ERR_NO_PREMIUMS_TO_CLAIM = Cl.uint(429);
 const ERR_TRANSFER_FAILED = Cl.uint(500);
 
 // Constants for risk tiers
@@ -280,6 +281,82 @@ describe("liquidity-pool-vault contract", () => {
     });
   });
 
+  describe("premium reinvestment", () => {
+    beforeEach(async () => {
+      await initializeToken();
+      await simnet.callPublicFn(
+        "liquidity-pool-vault",
+        "deposit-capital",
+        [
+          Cl.uint(10000000000),
+          Cl.stringAscii("STX"),
+          Cl.stringAscii(RISK_TIER_CONSERVATIVE)
+        ],
+        provider1
+      );
+    });
+
+    it("lets a provider opt in to auto-reinvest", async () => {
+      const response = await simnet.callPublicFn(
+        "liquidity-pool-vault",
+        "set-auto-reinvest",
+        [Cl.stringAscii("STX"), Cl.bool(true)],
+        provider1
+      );
+      expect(response.result).toBeOk(Cl.bool(true));
+
+      const enabled = await simnet.callReadOnlyFn(
+        "liquidity-pool-vault",
+        "is-auto-reinvest-enabled",
+        [Cl.principal(provider1), Cl.stringAscii("STX")],
+        provider1
+      );
+      expect(enabled.result).toStrictEqual(Cl.bool(true));
+    });
+
+    it("prevents the owner from reinvesting for providers who have not opted in", async () => {
+      const response = await simnet.callPublicFn(
+        "liquidity-pool-vault",
+        "reinvest-earned-premiums",
+        [Cl.principal(provider1), Cl.stringAscii("STX"), Cl.uint(1000)],
+        deployer
+      );
+      expect(response.result).toBeErr(ERR_UNAUTHORIZED);
+    });
+
+    it("prevents other users from reinvesting a provider's premiums", async () => {
+      await simnet.callPublicFn(
+        "liquidity-pool-vault",
+        "set-auto-reinvest",
+        [Cl.stringAscii("STX"), Cl.bool(true)],
+        provider1
+      );
+      const response = await simnet.callPublicFn(
+        "liquidity-pool-vault",
+        "reinvest-earned-premiums",
+        [Cl.principal(provider1), Cl.stringAscii("STX"), Cl.uint(1000)],
+        unauthorizedUser
+      );
+      expect(response.result).toBeErr(ERR_UNAUTHORIZED);
+    });
+
+    it("rejects reinvesting more than the earned premiums", async () => {
+      await simnet.callPublicFn(
+        "liquidity-pool-vault",
+        "set-auto-reinvest",
+        [Cl.stringAscii("STX"), Cl.bool(true)],
+        provider1
+      );
+      const response = await simnet.callPublicFn(
+        "liquidity-pool-vault",
+        "reinvest-earned-premiums",
+        [Cl.principal(provider1), Cl.stringAscii("STX"), Cl.uint(1000)],
+        deployer
+      );
+      expect(response.result).toBeErr(ERR_NO_PREMIUMS_TO_CLAIM);
+    });
+  });
+
   describe("liquidity check", () => {
     beforeEach(async () => {
       // Initialize STX token and deposit funds before each test
@@ -220,6 +220,120 @@ describe("policy-registry contract", () => {
     });
   });
   
+  describe("paginated owner and expiration indexes", () => {
+    const PAGE_SIZE = 100;
+    const POLICY_COUNT = PAGE_SIZE + 5;
+    const TIER = "conservative";
+    const contractId = (name: string) => `${deployer}.${name}`;
+
+    // Wires policy-registry to the parameters, math, oracle and vault contracts and funds the vault
+    const setUpPolicyCreation = () => {
+      const call = (contract: string, fn: string, args: any[], sender = deployer) =>
+        expect(simnet.callPublicFn(contract, fn, args, sender).result).toBeOk(Cl.bool(true));
+
+      for (const [id, value] of [
+        ["config.oracle.max-price-age-blocks", 10_000],
+        ["config.policy.min-duration-blocks", 1],
+        ["config.policy.max-duration-blocks", 100_000],
+        ["config.policy.min-protection-value-usd", 1],
+        ["config.policy.max-protection-value-usd", 1e15],
+        ["config.policy.min-submitted-premium-usd", 1],
+        ["limits.user.max-policies", 1_000],
+      ] as const) {
+        call("bithedge-parameters", "set-system-parameter-uint", [Cl.stringAscii(id), Cl.uint(value), Cl.stringAscii("test")]);
+      }
+      call("bithedge-parameters", "set-risk-tier-parameters", [
+        Cl.stringAscii(TIER), Cl.stringAscii("BUYER"), Cl.uint(10_000), Cl.uint(0),
+        Cl.uint(10_000), Cl.uint(10_000), Cl.bool(true), Cl.stringAscii("test tier"),
+      ]);
+
+      call("oracle", "add-authorized-submitter", [Cl.principal(deployer)]);
+      call("oracle", "set-aggregated-price", [Cl.uint(60_000 * 1e8)]);
+
+      call("liquidity-pool-vault", "set-policy-registry-principal", [Cl.principal(contractId("policy-registry"))]);
+      call("liquidity-pool-vault", "set-parameters-contract-principal", [Cl.principal(contractId("bithedge-parameters"))]);
+      call("liquidity-pool-vault", "set-math-library-principal", [Cl.principal(contractId("math-library"))]);
+      call("liquidity-pool-vault", "initialize-token", [Cl.stringAscii("STX"), Cl.none()]);
+      call("liquidity-pool-vault", "deposit-capital", [Cl.uint(1_000_000_000_000), Cl.stringAscii("STX"), Cl.stringAscii(TIER)], counterparty);
+
+      call("policy-registry", "set-liquidity-pool-principal", [Cl.principal(contractId("liquidity-pool-vault"))]);
+      call("policy-registry", "set-math-library-principal", [Cl.principal(contractId("math-library"))]);
+      call("policy-registry", "set-price-oracle-principal", [Cl.principal(contractId("oracle"))]);
+      call("policy-registry", "set-parameters-contract-principal", [Cl.principal(contractId("bithedge-parameters"))]);
+    };
+
+    const createPolicy = (owner: string, expirationHeight: number) =>
+      simnet.callPublicFn(
+        "policy-registry",
+        "create-protection-policy",
+        [
+          Cl.principal(owner),
+          Cl.stringAscii(POLICY_TYPE_PUT),
+          Cl.stringAscii(TIER),
+          Cl.stringAscii("BTC"),
+          Cl.stringAscii("STX"),
+          Cl.uint(55_000 * 1e8),
+          Cl.uint(1_000_000),
+          Cl.uint(expirationHeight),
+          Cl.uint(1_000_000),
+        ],
+        owner
+      );
+
+    const readOnly = (fn: string, args: any[]) =>
+      simnet.callReadOnlyFn("policy-registry", fn, args, deployer).result;
+
+    const firstPolicyId = () => Number((readOnly("get-total-policies-created", []) as any).value.value);
+    const ids = (from: number, count: number) =>
+      Cl.list(Array.from({ length: count }, (_, i) => Cl.uint(from + i)));
+
+    it("keeps indexing an owner's policies past the first page", () => {
+      setUpPolicyCreation();
+      const firstId = firstPolicyId();
+      const expirationHeight = simnet.burnBlockHeight + 1_000;
+
+      for (let i = 0; i < POLICY_COUNT; i++) {
+        expect(createPolicy(policyBuyer, expirationHeight).result).toBeOk(Cl.uint(firstId + i));
+      }
+
+      expect(readOnly("get-owner-policy-index-size", [Cl.principal(policyBuyer)])).toBeOk(
+        Cl.tuple({ total: Cl.uint(POLICY_COUNT), pages: Cl.uint(2) })
+      );
+      expect(readOnly("get-policies-by-owner-page", [Cl.principal(policyBuyer), Cl.uint(0)])).toBeOk(ids(firstId, PAGE_SIZE));
+      expect(readOnly("get-policies-by-owner-page", [Cl.principal(policyBuyer), Cl.uint(1)])).toBeOk(
+        ids(firstId + PAGE_SIZE, POLICY_COUNT - PAGE_SIZE)
+      );
+      expect(readOnly("get-policies-by-owner-page", [Cl.principal(policyBuyer), Cl.uint(2)])).toBeOk(Cl.list([]));
+      // The unpaged getter still returns the first page
+      expect(readOnly("get-policies-by-owner", [Cl.principal(policyBuyer)])).toBeOk(ids(firstId, PAGE_SIZE));
+    });
+
+    it("keeps indexing policies expiring at one height past the first page", () => {
+      setUpPolicyCreation();
+      const firstId = firstPolicyId();
+      const expirationHeight = simnet.burnBlockHeight + 2_000;
+      const owners = [policyBuyer, anotherBuyer];
+
+      for (let i = 0; i < POLICY_COUNT; i++) {
+        expect(createPolicy(owners[i % 2], expirationHeight).result).toBeOk(Cl.uint(firstId + i));
+      }
+
+      expect(readOnly("get-expiration-policy-index-size", [Cl.uint(expirationHeight)])).toBeOk(
+        Cl.tuple({ total: Cl.uint(POLICY_COUNT), pages: Cl.uint(2) })
+      );
+      expect(readOnly("get-policies-by-expiration-height-page", [Cl.uint(expirationHeight), Cl.uint(0)])).toBeOk(
+        ids(firstId, PAGE_SIZE)
+      );
+      expect(readOnly("get-policies-by-expiration-height-page", [Cl.uint(expirationHeight), Cl.uint(1)])).toBeOk(
+        ids(firstId + PAGE_SIZE, POLICY_COUNT - PAGE_SIZE)
+      );
+      expect(readOnly("get-policies-by-expiration-height", [Cl.uint(expirationHeight)])).toBeOk(ids(firstId, PAGE_SIZE));
+      expect(readOnly("get-expiration-policy-index-size", [Cl.uint(expirationHeight + 1)])).toBeOk(
+        Cl.tuple({ total: Cl.uint(0), pages: Cl.uint(0) })
+      );
+    });
+  });
+
   // Note: The batch operations tests were removed due to typing issues
   // with the ListCV type. These tests should be implemented once the
   // contract functionalities are added and we have a clearer understanding
@@ -13,6 +13,7 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as adminAuth from "../adminAuth.js";
 import type * as blockchain_common_contracts from "../blockchain/common/contracts.js";
 import type * as blockchain_common_eventListener from "../blockchain/common/eventListener.js";
 import type * as blockchain_common_index from "../blockchain/common/index.js";
@@ -27,6 +28,7 @@ import type * as blockchain_liquidityPool_reader from "../blockchain/liquidityPo
 import type * as blockchain_liquidityPool_types from "../blockchain/liquidityPool/types.js";
 import type * as blockchain_liquidityPool_writer from "../blockchain/liquidityPool/writer.js";
 import type * as blockchain_oracle_adapter from "../blockchain/oracle/adapter.js";
+import type * as blockchain_oracle_events from "../blockchain/oracle/events.js";
 import type * as blockchain_oracle_index from "../blockchain/oracle/index.js";
 import type * as blockchain_oracle_priceReader from "../blockchain/oracle/priceReader.js";
 import type * as blockchain_oracle_priceWriter from "../blockchain/oracle/priceWriter.js";
@@ -41,11 +43,14 @@ import type * as blockchain_testing_dependencyAnalyzer from "../blockchain/testi
 import type * as blockchain_testing_mocks from "../blockchain/testing/mocks.js";
 import type * as blockchainIntegration from "../blockchainIntegration.js";
 import type * as blockchainPreparation from "../blockchainPreparation.js";
+import type * as chainEventIndexer from "../chainEventIndexer.js";
 import type * as crons from "../crons.js";
 import type * as dataIngestion from "../dataIngestion.js";
 import type * as http from "../http.js";
 import type * as liquidityPool_accountManagement from "../liquidityPool/accountManagement.js";
 import type * as liquidityPool_adminOperations from "../liquidityPool/adminOperations.js";
+import type * as liquidityPool_allocationConfig from "../liquidityPool/allocationConfig.js";
+import type * as liquidityPool_allocationStrategies from "../liquidityPool/allocationStrategies.js";
 import type * as liquidityPool_blockchainIntegration from "../liquidityPool/blockchainIntegration.js";
 import type * as liquidityPool_capitalManagement from "../liquidityPool/capitalManagement.js";
 import type * as liquidityPool_index from "../liquidityPool/index.js";
@@ -53,13 +58,24 @@ import type * as liquidityPool_policyLifecycle from "../liquidityPool/policyLife
 import type * as liquidityPool_poolState from "../liquidityPool/poolState.js";
 import type * as liquidityPool_premiumOperations from "../liquidityPool/premiumOperations.js";
 import type * as liquidityPool_providerState from "../liquidityPool/providerState.js";
+import type * as liquidityPool_riskTiers from "../liquidityPool/riskTiers.js";
 import type * as liquidityPool_settlementProcessing from "../liquidityPool/settlementProcessing.js";
 import type * as liquidityPool_transactionManager from "../liquidityPool/transactionManager.js";
 import type * as liquidityPool_transactionPreparation from "../liquidityPool/transactionPreparation.js";
 import type * as liquidityPool_types from "../liquidityPool/types.js";
+import type * as liquidityPool_yieldAccounting from "../liquidityPool/yieldAccounting.js";
+import type * as liquidityPool_yieldSnapshots from "../liquidityPool/yieldSnapshots.js";
 import type * as liquidityPool from "../liquidityPool.js";
 import type * as mocks from "../mocks.js";
+import type * as notifications_channels from "../notifications/channels.js";
+import type * as notifications_delivery from "../notifications/delivery.js";
+import type * as notifications_outbox from "../notifications/outbox.js";
+import type * as notifications_smtp from "../notifications/smtp.js";
+import type * as notifications_testing_localServers from "../notifications/testing/localServers.js";
+import type * as notifications_types from "../notifications/types.js";
 import type * as options from "../options.js";
+import type * as oracleSigners from "../oracleSigners.js";
+import type * as oracleSubmissionWatcher from "../oracleSubmissionWatcher.js";
 import type * as oracleSubmissions from "../oracleSubmissions.js";
 import type * as policyRegistry_blockchainIntegration from "../policyRegistry/blockchainIntegration.js";
 import type * as policyRegistry_counterpartyOperations from "../policyRegistry/counterpartyOperations.js";
@@ -77,17 +93,27 @@ import type * as policyRegistry_types from "../policyRegistry/types.js";
 import type * as policyRegistry from "../policyRegistry.js";
 import type * as poolTransactionWatcher from "../poolTransactionWatcher.js";
 import type * as premium from "../premium.js";
+import type * as premiumReinvestmentJobs from "../premiumReinvestmentJobs.js";
 import type * as prices from "../prices.js";
+import type * as quoteAudit from "../quoteAudit.js";
 import type * as quotes from "../quotes.js";
+import type * as riskParameterGovernance from "../riskParameterGovernance.js";
 import type * as reconciliationJobs from "../reconciliationJobs.js";
 import type * as router from "../router.js";
 import type * as services_index from "../services/index.js";
 import type * as services_oracle_historicalData from "../services/oracle/historicalData.js";
 import type * as services_oracle_index from "../services/oracle/index.js";
+import type * as services_oracle_oracleConfig from "../services/oracle/oracleConfig.js";
 import type * as services_oracle_premiumCalculation from "../services/oracle/premiumCalculation.js";
+import type * as services_oracle_priceAggregation from "../services/oracle/priceAggregation.js";
 import type * as services_oracle_priceService from "../services/oracle/priceService.js";
+import type * as services_oracle_priceSources from "../services/oracle/priceSources.js";
+import type * as services_oracle_pricingEngine from "../services/oracle/pricingEngine.js";
+import type * as services_oracle_scenarioEngine from "../services/oracle/scenarioEngine.js";
 import type * as services_oracle_volatilityService from "../services/oracle/volatilityService.js";
+import type * as services_oracle_volatilityTermStructure from "../services/oracle/volatilityTermStructure.js";
 import type * as settlementJobs from "../settlementJobs.js";
+import type * as signerNonces from "../signerNonces.js";
 import type * as stacksNode from "../stacksNode.js";
 import type * as systemSetup from "../systemSetup.js";
 import type * as testUtils from "../testUtils.js";
@@ -105,6 +131,7 @@ import type * as users from "../users.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  adminAuth: typeof adminAuth;
   "blockchain/common/contracts": typeof blockchain_common_contracts;
   "blockchain/common/eventListener": typeof blockchain_common_eventListener;
   "blockchain/common/index": typeof blockchain_common_index;
@@ -119,6 +146,7 @@ declare const fullApi: ApiFromModules<{
   "blockchain/liquidityPool/types": typeof blockchain_liquidityPool_types;
   "blockchain/liquidityPool/writer": typeof blockchain_liquidityPool_writer;
   "blockchain/oracle/adapter": typeof blockchain_oracle_adapter;
+  "blockchain/oracle/events": typeof blockchain_oracle_events;
   "blockchain/oracle/index": typeof blockchain_oracle_index;
   "blockchain/oracle/priceReader": typeof blockchain_oracle_priceReader;
   "blockchain/oracle/priceWriter": typeof blockchain_oracle_priceWriter;
@@ -133,11 +161,14 @@ declare const fullApi: ApiFromModules<{
   "blockchain/testing/mocks": typeof blockchain_testing_mocks;
   blockchainIntegration: typeof blockchainIntegration;
   blockchainPreparation: typeof blockchainPreparation;
+  chainEventIndexer: typeof chainEventIndexer;
   crons: typeof crons;
   dataIngestion: typeof dataIngestion;
   http: typeof http;
   "liquidityPool/accountManagement": typeof liquidityPool_accountManagement;
   "liquidityPool/adminOperations": typeof liquidityPool_adminOperations;
+  "liquidityPool/allocationConfig": typeof liquidityPool_allocationConfig;
+  "liquidityPool/allocationStrategies": typeof liquidityPool_allocationStrategies;
   "liquidityPool/blockchainIntegration": typeof liquidityPool_blockchainIntegration;
   "liquidityPool/capitalManagement": typeof liquidityPool_capitalManagement;
   "liquidityPool/index": typeof liquidityPool_index;
@@ -145,13 +176,24 @@ declare const fullApi: ApiFromModules<{
   "liquidityPool/poolState": typeof liquidityPool_poolState;
   "liquidityPool/premiumOperations": typeof liquidityPool_premiumOperations;
   "liquidityPool/providerState": typeof liquidityPool_providerState;
+  "liquidityPool/riskTiers": typeof liquidityPool_riskTiers;
   "liquidityPool/settlementProcessing": typeof liquidityPool_settlementProcessing;
   "liquidityPool/transactionManager": typeof liquidityPool_transactionManager;
   "liquidityPool/transactionPreparation": typeof liquidityPool_transactionPreparation;
   "liquidityPool/types": typeof liquidityPool_types;
+  "liquidityPool/yieldAccounting": typeof liquidityPool_yieldAccounting;
+  "liquidityPool/yieldSnapshots": typeof liquidityPool_yieldSnapshots;
   liquidityPool: typeof liquidityPool;
   mocks: typeof mocks;
+  "notifications/channels": typeof notifications_channels;
+  "notifications/delivery": typeof notifications_delivery;
+  "notifications/outbox": typeof notifications_outbox;
+  "notifications/smtp": typeof notifications_smtp;
+  "notifications/testing/localServers": typeof notifications_testing_localServers;
+  "notifications/types": typeof notifications_types;
   options: typeof options;
+  oracleSigners: typeof oracleSigners;
+  oracleSubmissionWatcher: typeof oracleSubmissionWatcher;
   oracleSubmissions: typeof oracleSubmissions;
   "policyRegistry/blockchainIntegration": typeof policyRegistry_blockchainIntegration;
   "policyRegistry/counterpartyOperations": typeof policyRegistry_counterpartyOperations;
@@ -169,17 +211,27 @@ declare const fullApi: ApiFromModules<{
   policyRegistry: typeof policyRegistry;
   poolTransactionWatcher: typeof poolTransactionWatcher;
   premium: typeof premium;
+  premiumReinvestmentJobs: typeof premiumReinvestmentJobs;
   prices: typeof prices;
+  quoteAudit: typeof quoteAudit;
   quotes: typeof quotes;
+  riskParameterGovernance: typeof riskParameterGovernance;
   reconciliationJobs: typeof reconciliationJobs;
   router: typeof router;
   "services/index": typeof services_index;
   "services/oracle/historicalData": typeof services_oracle_historicalData;
   "services/oracle/index": typeof services_oracle_index;
+  "services/oracle/oracleConfig": typeof services_oracle_oracleConfig;
   "services/oracle/premiumCalculation": typeof services_oracle_premiumCalculation;
+  "services/oracle/priceAggregation": typeof services_oracle_priceAggregation;
   "services/oracle/priceService": typeof services_oracle_priceService;
+  "services/oracle/priceSources": typeof services_oracle_priceSources;
+  "services/oracle/pricingEngine": typeof services_oracle_pricingEngine;
+  "services/oracle/scenarioEngine": typeof services_oracle_scenarioEngine;
   "services/oracle/volatilityService": typeof services_oracle_volatilityService;
+  "services/oracle/volatilityTermStructure": typeof services_oracle_volatilityTermStructure;
   settlementJobs: typeof settlementJobs;
+  signerNonces: typeof signerNonces;
   stacksNode: typeof stacksNode;
   systemSetup: typeof systemSetup;
   testUtils: typeof testUtils;
@@ -0,0 +1,15 @@
+import { QueryCtx } from "./_generated/server";
+
+/**
+ * Returns the admin principal for the current caller, or null if the caller is not an admin.
+ * Admins carry "admin" in the roles claim of their identity.
+ */
+export async function getAdminPrincipal(ctx: Pick<QueryCtx, "auth">): Promise<string | null> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity || !identity.tokenIdentifier) {
+    return null;
+  }
+  const roles = (identity as any).roles;
+  const isAdmin = Array.isArray(roles) && roles.includes("admin");
+  return isAdmin ? identity.tokenIdentifier : null;
+}
@@ -1,217 +1,193 @@
 /**
  * Event Listener Module
  *
- * This module handles all blockchain event listening functionality,
- * providing utilities for subscribing to contract events and processing them.
+ * Stateless helpers for reading contract events from the Stacks API. Nothing here polls or keeps
+ * state between calls: the durable, cursor-based indexer in convex/chainEventIndexer.ts drives
+ * these from a cron and stores its progress in the database.
  */
 
+import { hexToCV, cvToJSON } from '@stacks/transactions';
 import { NetworkEnvironment } from './types';
 import { getStacksNetwork } from './network';
+import { clarityJsonToPlain } from './utils';
 
 /**
- * Event subscription options
+ * Event fetch options
  */
-export interface EventSubscriptionOptions {
+export interface EventFetchOptions {
   contractAddress: string;
   contractName: string;
-  eventName?: string; // If not provided, listen to all events from the contract
-  startBlock?: number;
+  eventName?: string; // If provided, only print events whose `event` field matches are returned
+  startBlock?: number; // Only events at or above this block height
   networkEnv: NetworkEnvironment;
   includeUnanchored?: boolean;
   limit?: number; // Number of events to fetch per page
-  onEvent: (event: any) => Promise<void> | void;
-  onError?: (error: Error) => void;
+  offset?: number; // Number of events to skip (event count, not a block height)
 }
 
 /**
- * Subscription handle returned from subscribeToEvents
+ * Raw event as returned by /extended/v1/contract/{contract_id}/events
  */
-export interface EventSubscription {
-  id: string;
-  stop: () => void;
-  isActive: boolean;
+export interface RawContractEvent {
+  event_index: number;
+  event_type: string; // "smart_contract_log" for print events
+  tx_id: string;
+  contract_log?: {
+    contract_id: string;
+    topic: string;
+    value: { hex: string; repr: string };
+  };
+  // Present on some API versions; the indexer resolves these from the transaction otherwise
+  block_height?: number;
 }
 
-// Map to keep track of active subscriptions
-const activeSubscriptions = new Map<string, {
-  options: EventSubscriptionOptions;
-  interval: NodeJS.Timeout;
-  lastBlock: number;
-  isActive: boolean;
-}>();
+/**
+ * Block a transaction was anchored in, used for cursors and reorg detection
+ */
+export interface TransactionAnchor {
+  txId: string;
+  txStatus: string; // "success", "pending", "abort_by_response", ...
+  blockHeight?: number;
+  blockHash?: string;
+  burnBlockTime?: number;
+}
 
 /**
- * Subscribe to blockchain events from a contract
- * @param options Event subscription options
- * @returns Subscription handle with methods to manage the subscription
+ * Decoded print event payload
  */
-export function subscribeToEvents(options: EventSubscriptionOptions): EventSubscription {
-  // Generate a unique ID for this subscription
-  const subscriptionId = `sub_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-  
-  // Get API URL for the specified network
-  const network = getStacksNetwork(options.networkEnv);
-  const apiUrl = network.coreApiUrl;
-  
-  // Initialize with the starting block
-  let lastProcessedBlock = options.startBlock || 0;
-  
-  console.log(`Creating event subscription ${subscriptionId} for ${options.contractAddress}.${options.contractName} events starting from block ${lastProcessedBlock}`);
-  
-  // Set up polling interval (e.g., every 30 seconds)
-  // In a production system, this would be replaced with WebSocket connectivity if available
-  const pollingInterval = setInterval(async () => {
-    if (!activeSubscriptions.get(subscriptionId)?.isActive) {
-      return; // Skip if subscription is no longer active
-    }
-    
-    try {
-      // Build the API URL for fetching events
-      let url = `${apiUrl}/extended/v1/address/${options.contractAddress}.${options.contractName}/events`;
-      url += `?limit=${options.limit || 50}`;
-      url += `&offset=${lastProcessedBlock}`;
-      
-      if (options.eventName) {
-        url += `&event_name=${options.eventName}`;
-      }
-      
-      if (options.includeUnanchored) {
-        url += '&unanchored=true';
-      }
-      
-      // Fetch events from the API
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to fetch events: ${response.status} ${response.statusText} - ${errorText}`);
-      }
-      
-      const data = await response.json();
-      const events = data.results || [];
-      
-      // Process each event
-      for (const event of events) {
-        // Call the event handler
-        try {
-          await options.onEvent(event);
-        } catch (error: any) {
-          console.error(`Error processing event in subscription ${subscriptionId}:`, error);
-          if (options.onError) {
-            options.onError(error);
-          }
-        }
-        
-        // Update the last processed block
-        if (event.block_height > lastProcessedBlock) {
-          lastProcessedBlock = event.block_height;
-        }
-      }
-      
-      // Update the subscription's last block
-      const subscription = activeSubscriptions.get(subscriptionId);
-      if (subscription) {
-        subscription.lastBlock = lastProcessedBlock;
-      }
-      
-    } catch (error: any) {
-      console.error(`Error fetching events for subscription ${subscriptionId}:`, error);
-      if (options.onError) {
-        options.onError(error);
-      }
-    }
-  }, 30000); // 30 seconds
-  
-  // Store the subscription
-  activeSubscriptions.set(subscriptionId, {
-    options,
-    interval: pollingInterval,
-    lastBlock: lastProcessedBlock,
-    isActive: true,
-  });
-  
-  // Return the subscription handle
+export interface DecodedPrintEvent {
+  eventName: string;
+  data: Record<string, any>;
+}
+
+function getApiBaseUrl(networkEnv: NetworkEnvironment): string {
+  return getStacksNetwork(networkEnv).coreApiUrl;
+}
+
+async function fetchJson(url: string): Promise<any> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Request to ${url} failed: ${response.status} ${response.statusText} - ${errorText}`);
+  }
+  return await response.json();
+}
+
+/**
+ * Fetch one page of contract events. The API returns events newest first, so `offset` counts
+ * back from the most recent event. The response has no total, so callers page until they reach
+ * an event they already know or a short page (the contract's first event).
+ * @returns The page of raw events, newest first
+ */
+export async function fetchContractEventsPage(options: {
+  contractAddress: string;
+  contractName: string;
+  networkEnv: NetworkEnvironment;
+  limit: number;
+  offset: number;
+  includeUnanchored?: boolean;
+}): Promise<{ events: RawContractEvent[] }> {
+  const apiUrl = getApiBaseUrl(options.networkEnv);
+  let url = `${apiUrl}/extended/v1/contract/${options.contractAddress}.${options.contractName}/events`;
+  url += `?limit=${options.limit}&offset=${options.offset}`;
+  if (options.includeUnanchored) {
+    url += '&unanchored=true';
+  }
+
+  const data = await fetchJson(url);
+  return { events: data.results || [] };
+}
+
+/**
+ * Look up the block a transaction was anchored in
+ * @returns The anchor, or null if the API does not know the transaction
+ */
+export async function fetchTransactionAnchor(txId: string, networkEnv: NetworkEnvironment): Promise<TransactionAnchor | null> {
+  const apiUrl = getApiBaseUrl(networkEnv);
+  const response = await fetch(`${apiUrl}/extended/v1/tx/${txId}`);
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to fetch transaction ${txId}: ${response.status} ${response.statusText} - ${errorText}`);
+  }
+
+  const tx = await response.json();
   return {
-    id: subscriptionId,
-    stop: () => {
-      const subscription = activeSubscriptions.get(subscriptionId);
-      if (subscription) {
-        clearInterval(subscription.interval);
-        subscription.isActive = false;
-        console.log(`Stopped event subscription ${subscriptionId}`);
-      }
-    },
-    isActive: true,
+    txId,
+    txStatus: tx.tx_status,
+    blockHeight: tx.block_height,
+    blockHash: tx.block_hash,
+    burnBlockTime: tx.burn_block_time,
   };
 }
 
 /**
- * Fetch historical events from a contract (one-time fetch, not a subscription)
- * @param options Event fetch options
- * @returns Promise resolving to an array of events
+ * Fetch the canonical block hash at a height
+ * @returns The hash, or null if the node has no block at that height
  */
-export async function fetchEvents(options: Omit<EventSubscriptionOptions, 'onEvent' | 'onError'>): Promise<any[]> {
-  // Get API URL for the specified network
-  const network = getStacksNetwork(options.networkEnv);
-  const apiUrl = network.coreApiUrl;
-  
-  try {
-    // Build the API URL for fetching events
-    let url = `${apiUrl}/extended/v1/address/${options.contractAddress}.${options.contractName}/events`;
-    url += `?limit=${options.limit || 50}`;
-    
-    if (options.startBlock) {
-      url += `&offset=${options.startBlock}`;
-    }
-    
-    if (options.eventName) {
-      url += `&event_name=${options.eventName}`;
-    }
-    
-    if (options.includeUnanchored) {
-      url += '&unanchored=true';
-    }
-    
-    // Fetch events from the API
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Failed to fetch events: ${response.status} ${response.statusText} - ${errorText}`);
-    }
-    
-    const data = await response.json();
-    return data.results || [];
-  } catch (error: any) {
-    console.error('Error fetching events:', error);
-    throw error;
+export async function fetchBlockHashAtHeight(height: number, networkEnv: NetworkEnvironment): Promise<string | null> {
+  const apiUrl = getApiBaseUrl(networkEnv);
+  const response = await fetch(`${apiUrl}/extended/v1/block/by_height/${height}`);
+  if (response.status === 404) {
+    return null;
   }
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to fetch block ${height}: ${response.status} ${response.statusText} - ${errorText}`);
+  }
+  const block = await response.json();
+  return block.hash ?? null;
 }
 
 /**
- * Get details of all active event subscriptions
- * @returns Array of active subscription details
+ * Decode a print event emitted as `(print { event: "...", ... })`
+ * @returns The event name and payload, or null if the event is not a tuple print with an `event` field
  */
-export function getActiveSubscriptions(): { id: string; contract: string; eventName?: string; lastBlock: number }[] {
-  return Array.from(activeSubscriptions.entries())
-    .filter(([_, sub]) => sub.isActive)
-    .map(([id, sub]) => ({
-      id,
-      contract: `${sub.options.contractAddress}.${sub.options.contractName}`,
-      eventName: sub.options.eventName,
-      lastBlock: sub.lastBlock,
-    }));
+export function decodePrintEvent(event: RawContractEvent): DecodedPrintEvent | null {
+  if (event.event_type !== 'smart_contract_log' || event.contract_log?.topic !== 'print') {
+    return null;
+  }
+  try {
+    const data = clarityJsonToPlain(cvToJSON(hexToCV(event.contract_log.value.hex)));
+    if (!data || typeof data !== 'object' || typeof data.event !== 'string') {
+      return null;
+    }
+    return { eventName: data.event, data };
+  } catch (error: any) {
+    console.error(`Failed to decode print event ${event.tx_id}:${event.event_index}:`, error);
+    return null;
+  }
 }
 
 /**
- * Stop all active event subscriptions
+ * Fetch recent events from a contract (one-time fetch of a single page)
+ * @param options Event fetch options
+ * @returns Promise resolving to an array of raw events
  */
-export function stopAllSubscriptions(): void {
-  for (const [id, subscription] of activeSubscriptions.entries()) {
-    if (subscription.isActive) {
-      clearInterval(subscription.interval);
-      subscription.isActive = false;
-      console.log(`Stopped event subscription ${id}`);
-    }
+export async function fetchEvents(options: EventFetchOptions): Promise<any[]> {
+  try {
+    const { events } = await fetchContractEventsPage({
+      contractAddress: options.contractAddress,
+      contractName: options.contractName,
+      networkEnv: options.networkEnv,
+      limit: options.limit || 50,
+      offset: options.offset || 0,
+      includeUnanchored: options.includeUnanchored,
+    });
+
+    return events.filter((event) => {
+      if (options.startBlock !== undefined && event.block_height !== undefined && event.block_height < options.startBlock) {
+        return false;
+      }
+      if (options.eventName) {
+        return decodePrintEvent(event)?.eventName === options.eventName;
+      }
+      return true;
+    });
+  } catch (error: any) {
+    console.error('Error fetching events:', error);
+    throw error;
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,108 @@
+import { expect, test, describe, beforeAll, afterEach } from "vitest";
+import { AnchorMode, StacksTransaction, makeContractCall, uintCV } from "@stacks/transactions";
+import {
+  FEE_OPERATION,
+  FeeEstimator,
+  createLocalFeeEstimator,
+  estimateFee,
+  estimateReplacementFee,
+  getFeePolicy,
+} from "./fees";
+import { NetworkEnvironment } from "./types";
+import { bytesToHex } from "./utils";
+
+const SENDER_KEY = "753b7cc01a1a2e86221266a154af739463fce51219d97e4f856cd7200c3bd2a601";
+const network = NetworkEnvironment.DEVNET;
+
+const fixedEstimator = (fee: number): FeeEstimator => ({
+  name: "fixed",
+  estimate: async () => ({ low: fee, medium: fee, high: fee }),
+});
+
+const failingEstimator: FeeEstimator = {
+  name: "failing",
+  estimate: async () => {
+    throw new Error("node unavailable");
+  },
+};
+
+describe("fee estimation", () => {
+  let draft: StacksTransaction;
+  let rawTx: string;
+
+  beforeAll(async () => {
+    draft = await makeContractCall({
+      contractAddress: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+      contractName: "policy-registry",
+      functionName: "process-single-policy-at-expiration",
+      functionArgs: [uintCV(7)],
+      senderKey: SENDER_KEY,
+      network: "testnet",
+      nonce: 0,
+      fee: 0,
+      anchorMode: AnchorMode.Any,
+    });
+    rawTx = bytesToHex(draft.serialize());
+  });
+
+  afterEach(() => {
+    delete process.env.STACKS_MAX_TX_FEE;
+    delete process.env.STACKS_FEE_ESTIMATOR;
+  });
+
+  describe("estimateFee", () => {
+    test("local estimator prices the transaction's length at the policy's priority", async () => {
+      const estimates = await createLocalFeeEstimator({ low: 1, medium: 5, high: 400 }).estimate(draft, network);
+      expect(estimates.high).toBe(estimates.low * 400);
+
+      const fee = await estimateFee(draft, FEE_OPERATION.SETTLEMENT_PAYOUT, network, createLocalFeeEstimator({ low: 1, medium: 5, high: 400 }));
+      expect(fee).toBe(estimates.high);
+    });
+
+    test("raises low estimates to the policy floor", async () => {
+      expect(await estimateFee(draft, FEE_OPERATION.ORACLE_SUBMISSION, network, createLocalFeeEstimator()))
+        .toBe(getFeePolicy(FEE_OPERATION.ORACLE_SUBMISSION).minFee);
+    });
+
+    test("caps high estimates at the policy and global caps", async () => {
+      const policy = getFeePolicy(FEE_OPERATION.PREMIUM_DISTRIBUTION);
+      expect(await estimateFee(draft, FEE_OPERATION.PREMIUM_DISTRIBUTION, network, fixedEstimator(policy.maxFee * 10)))
+        .toBe(policy.maxFee);
+
+      process.env.STACKS_MAX_TX_FEE = "5000";
+      expect(await estimateFee(draft, FEE_OPERATION.PREMIUM_DISTRIBUTION, network, fixedEstimator(policy.maxFee * 10)))
+        .toBe(5000);
+    });
+
+    test("falls back to the floor when the estimator fails", async () => {
+      expect(await estimateFee(draft, FEE_OPERATION.SETTLEMENT_PAYOUT, network, failingEstimator))
+        .toBe(getFeePolicy(FEE_OPERATION.SETTLEMENT_PAYOUT).minFee);
+    });
+
+    test("unknown operations use the default policy", async () => {
+      expect(await estimateFee(draft, "unknown-operation", network, failingEstimator))
+        .toBe(getFeePolicy(FEE_OPERATION.DEFAULT).minFee);
+    });
+  });
+
+  describe("estimateReplacementFee", () => {
+    const operation = FEE_OPERATION.ORACLE_SUBMISSION;
+    const policy = getFeePolicy(operation);
+
+    test("bumps the current fee by the policy multiplier", async () => {
+      const fee = await estimateReplacementFee(rawTx, 100_000, operation, network);
+      expect(fee).toBe(100_000 * policy.bumpMultiplier);
+    });
+
+    test("is strictly higher than the current fee even below the fresh estimate's floor", async () => {
+      const fee = await estimateReplacementFee(rawTx, 1, operation, network);
+      expect(fee).toBe(policy.minFee);
+      expect(await estimateReplacementFee(rawTx, 0, FEE_OPERATION.DEFAULT, network)).toBeGreaterThan(0);
+    });
+
+    test("stops at the cap", async () => {
+      expect(await estimateReplacementFee(rawTx, policy.maxFee - 1, operation, network)).toBe(policy.maxFee);
+      expect(await estimateReplacementFee(rawTx, policy.maxFee, operation, network)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Fee Estimation Module
+ *
+ * Picks fees for backend-signed transactions from the node's fee-rate endpoint, shaped by
+ * per-operation policies (priority, floor, cap) and used to compute fee bumps for transactions
+ * that sit in the mempool past their operation's deadline.
+ */
+
+import {
+  StacksTransaction,
+  deserializeTransaction,
+  estimateTransactionByteLength,
+  serializePayload,
+} from '@stacks/transactions';
+import { fetchFeeEstimates, NodeFeeEstimates } from './network';
+import { NetworkEnvironment } from './types';
+import { bytesToHex } from './utils';
+
+/**
+ * Which of the node's three estimates an operation pays
+ */
+export enum FeePriority {
+  LOW = "low",
+  MEDIUM = "medium",
+  HIGH = "high",
+}
+
+/**
+ * Backend operations with their own fee policy. The names match the nonce lease purposes.
+ */
+export const FEE_OPERATION = {
+  ORACLE_SUBMISSION: "oracle-submission",
+  SETTLEMENT_PAYOUT: "settlement-payout",
+  EXPIRE_POLICIES_BATCH: "expire-policies-batch",
+  POLICY_STATUS_UPDATE: "policy-status-update",
+  PREMIUM_DISTRIBUTION: "premium-distribution",
+  PREMIUM_REINVEST: "premium-reinvest",
+  DEFAULT: "default",
+} as const;
+
+export interface FeePolicy {
+  priority: FeePriority;
+  minFee: number; // micro-STX floor, also the fee used when no estimate is available
+  maxFee: number; // micro-STX cap for the initial fee and every bump
+  bumpAfterMs: number; // Unconfirmed this long after (re)broadcast => replace-by-fee
+  bumpMultiplier: number; // Applied to the current fee on each bump
+}
+
+export const FEE_POLICIES: Record<string, FeePolicy> = {
+  // Stale oracle prices block quoting and settlement, so these pay to get in fast
+  [FEE_OPERATION.ORACLE_SUBMISSION]: {
+    priority: FeePriority.HIGH,
+    minFee: 50000,
+    maxFee: 500000,
+    bumpAfterMs: 5 * 60 * 1000,
+    bumpMultiplier: 1.5,
+  },
+  [FEE_OPERATION.SETTLEMENT_PAYOUT]: {
+    priority: FeePriority.HIGH,
+    minFee: 10000,
+    maxFee: 1000000,
+    bumpAfterMs: 10 * 60 * 1000,
+    bumpMultiplier: 1.5,
+  },
+  [FEE_OPERATION.EXPIRE_POLICIES_BATCH]: {
+    priority: FeePriority.MEDIUM,
+    minFee: 5000,
+    maxFee: 300000,
+    bumpAfterMs: 15 * 60 * 1000,
+    bumpMultiplier: 1.25,
+  },
+  [FEE_OPERATION.POLICY_STATUS_UPDATE]: {
+    priority: FeePriority.MEDIUM,
+    minFee: 2000,
+    maxFee: 200000,
+    bumpAfterMs: 20 * 60 * 1000,
+    bumpMultiplier: 1.25,
+  },
+  [FEE_OPERATION.PREMIUM_DISTRIBUTION]: {
+    priority: FeePriority.LOW,
+    minFee: 1000,
+    maxFee: 100000,
+    bumpAfterMs: 30 * 60 * 1000,
+    bumpMultiplier: 1.25,
+  },
+  [FEE_OPERATION.PREMIUM_REINVEST]: {
+    priority: FeePriority.LOW,
+    minFee: 1000,
+    maxFee: 100000,
+    bumpAfterMs: 30 * 60 * 1000,
+    bumpMultiplier: 1.25,
+  },
+  [FEE_OPERATION.DEFAULT]: {
+    priority: FeePriority.MEDIUM,
+    minFee: 1000,
+    maxFee: 100000,
+    bumpAfterMs: 10 * 60 * 1000,
+    bumpMultiplier: 1.5,
+  },
+};
+
+/**
+ * Get the fee policy for an operation, falling back to the default policy
+ * @param operation Operation name (see FEE_OPERATION)
+ * @returns The fee policy
+ */
+export function getFeePolicy(operation?: string): FeePolicy {
+  return (operation && FEE_POLICIES[operation]) || FEE_POLICIES[FEE_OPERATION.DEFAULT];
+}
+
+/**
+ * Absolute cap across all operations, from STACKS_MAX_TX_FEE (micro-STX) when set
+ */
+function getGlobalFeeCap(): number {
+  const cap = Number(process.env.STACKS_MAX_TX_FEE);
+  return Number.isFinite(cap) && cap > 0 ? cap : Infinity;
+}
+
+function getFeeCap(policy: FeePolicy): number {
+  return Math.min(policy.maxFee, getGlobalFeeCap());
+}
+
+/**
+ * Source of fee estimates for a signed or draft transaction
+ */
+export interface FeeEstimator {
+  name: string;
+  estimate(transaction: StacksTransaction, networkEnv: NetworkEnvironment): Promise<NodeFeeEstimates>;
+}
+
+/**
+ * Estimator backed by the node's POST /v2/fees/transaction endpoint
+ */
+export const nodeFeeEstimator: FeeEstimator = {
+  name: "node",
+  async estimate(transaction: StacksTransaction, networkEnv: NetworkEnvironment): Promise<NodeFeeEstimates> {
+    const payloadHex = bytesToHex(serializePayload(transaction.payload));
+    return await fetchFeeEstimates(payloadHex, estimateTransactionByteLength(transaction), networkEnv);
+  },
+};
+
+/**
+ * Stand-in estimator for devnet and tests: fixed micro-STX per byte rates, no network calls
+ * @param ratesPerByte Fee rate per byte for each priority
+ * @returns A FeeEstimator
+ */
+export function createLocalFeeEstimator(
+  ratesPerByte: NodeFeeEstimates = { low: 1, medium: 5, high: 20 }
+): FeeEstimator {
+  return {
+    name: "local",
+    async estimate(transaction: StacksTransaction): Promise<NodeFeeEstimates> {
+      const length = estimateTransactionByteLength(transaction);
+      return {
+        low: Math.ceil(length * ratesPerByte.low),
+        medium: Math.ceil(length * ratesPerByte.medium),
+        high: Math.ceil(length * ratesPerByte.high),
+      };
+    },
+  };
+}
+
+/**
+ * Pick the estimator for a network. Devnet nodes rarely have fee data, so they use the local
+ * stand-in unless STACKS_FEE_ESTIMATOR=node; STACKS_FEE_ESTIMATOR=local forces it everywhere.
+ * @param networkEnv Network environment
+ * @returns The FeeEstimator to use
+ */
+export function getFeeEstimator(networkEnv: NetworkEnvironment): FeeEstimator {
+  const configured = process.env.STACKS_FEE_ESTIMATOR;
+  if (configured === "local") {
+    return createLocalFeeEstimator();
+  }
+  if (configured === "node") {
+    return nodeFeeEstimator;
+  }
+  return networkEnv === NetworkEnvironment.DEVNET ? createLocalFeeEstimator() : nodeFeeEstimator;
+}
+
+/**
+ * Estimate the fee for a transaction under its operation's policy, clamped to the policy's
+ * floor and cap. Falls back to the floor when the estimator fails.
+ * @param transaction Draft transaction (any fee) to estimate
+ * @param operation Operation name (see FEE_OPERATION)
+ * @param networkEnv Network environment
+ * @param estimator Optional estimator override
+ * @returns Fee in micro-STX
+ */
+export async function estimateFee(
+  transaction: StacksTransaction,
+  operation: string | undefined,
+  networkEnv: NetworkEnvironment,
+  estimator: FeeEstimator = getFeeEstimator(networkEnv)
+): Promise<number> {
+  const policy = getFeePolicy(operation);
+  const cap = getFeeCap(policy);
+  let estimated = policy.minFee;
+  try {
+    const estimates = await estimator.estimate(transaction, networkEnv);
+    estimated = estimates[policy.priority];
+  } catch (error: any) {
+    console.warn(`Fee estimation (${estimator.name}) failed for ${operation || FEE_OPERATION.DEFAULT}, using floor ${policy.minFee}: ${error.message}`);
+  }
+
+  const fee = Math.min(Math.max(Math.ceil(estimated), policy.minFee), cap);
+  if (estimated > cap) {
+    console.warn(`Estimated fee ${estimated} for ${operation || FEE_OPERATION.DEFAULT} exceeds cap ${cap}; using the cap`);
+  }
+  return fee;
+}
+
+/**
+ * Compute the replacement fee for a stuck transaction: the larger of the policy multiplier over
+ * the current fee and a fresh estimate, capped. Replace-by-fee needs a strictly higher fee.
+ * @param rawTx Hex of the broadcast transaction
+ * @param currentFee Fee the transaction currently pays
+ * @param operation Operation name (see FEE_OPERATION)
+ * @param networkEnv Network environment
+ * @returns The new fee, or null when the current fee is already at the cap
+ */
+export async function estimateReplacementFee(
+  rawTx: string,
+  currentFee: number,
+  operation: string | undefined,
+  networkEnv: NetworkEnvironment
+): Promise<number | null> {
+  const policy = getFeePolicy(operation);
+  const cap = getFeeCap(policy);
+  const freshEstimate = await estimateFee(deserializeTransaction(rawTx), operation, networkEnv);
+  const fee = Math.min(Math.max(Math.ceil(currentFee * policy.bumpMultiplier), currentFee + 1, freshEstimate), cap);
+  return fee > currentFee ? fee : null;
+}
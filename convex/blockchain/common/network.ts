@@ -144,4 +144,98 @@ export async function fetchAccountNonce(address: string): Promise<number> {
     console.error(`Error fetching nonce for ${address}:`, error);
     throw new Error(`Failed to fetch nonce: ${error.message}`);
   }
-} 
\ No newline at end of file
+} 
+/**
+ * Nonce bookkeeping for an account as reported by the Stacks API
+ */
+export interface AccountNonceInfo {
+  lastExecutedNonce: number | null; // Highest nonce mined in an anchor block
+  lastMempoolNonce: number | null; // Highest nonce sitting in the mempool
+  possibleNextNonce: number;
+  missingNonces: number[]; // Nonces below lastMempoolNonce with no transaction; they block later ones
+}
+
+/**
+ * Fetch nonce bookkeeping for an address, including gaps that stall the mempool
+ * @param address The Stacks address
+ * @returns Nonce information for the address
+ * @throws {Error} If the request fails
+ */
+export async function fetchAccountNonceInfo(address: string): Promise<AccountNonceInfo> {
+  const { apiUrl } = getCurrentNetworkConfig();
+  const response = await fetch(`${apiUrl}/extended/v1/address/${address}/nonces`);
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to fetch nonces for ${address}: ${response.status} ${response.statusText} - ${errorText}`);
+  }
+
+  const data = await response.json();
+  return {
+    lastExecutedNonce: data.last_executed_tx_nonce ?? null,
+    lastMempoolNonce: data.last_mempool_tx_nonce ?? null,
+    possibleNextNonce: data.possible_next_nonce ?? 0,
+    missingNonces: data.detected_missing_nonces ?? [],
+  };
+}
+
+/**
+ * Fee estimates for one transaction at the node's three priority levels, in micro-STX
+ */
+export interface NodeFeeEstimates {
+  low: number;
+  medium: number;
+  high: number;
+}
+
+/**
+ * Ask the node's fee-rate endpoint what a transaction payload should pay
+ * @param payloadHex Hex-serialized transaction payload
+ * @param estimatedLength Estimated byte length of the full signed transaction
+ * @param networkEnv Network whose node to ask
+ * @returns Low, medium and high fee estimates
+ * @throws {Error} If the node has no estimate (common on quiet chains) or the request fails
+ */
+export async function fetchFeeEstimates(
+  payloadHex: string,
+  estimatedLength: number,
+  networkEnv: NetworkEnvironment
+): Promise<NodeFeeEstimates> {
+  const apiUrl = getApiUrl(networkEnv);
+  const response = await fetch(`${apiUrl}/v2/fees/transaction`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ transaction_payload: payloadHex, estimated_len: estimatedLength }),
+  });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to fetch fee estimates: ${response.status} ${response.statusText} - ${errorText}`);
+  }
+
+  const data = await response.json();
+  const estimations: Array<{ fee: number }> = data.estimations ?? [];
+  if (estimations.length < 3) {
+    throw new Error(`Unexpected fee estimate response: ${JSON.stringify(data)}`);
+  }
+  return {
+    low: Number(estimations[0].fee),
+    medium: Number(estimations[1].fee),
+    high: Number(estimations[2].fee),
+  };
+}
+
+/**
+ * Fetch the current burn (Bitcoin) block height from the node
+ * @returns The burn block height the node is at
+ * @throws {Error} If the request fails
+ */
+export async function fetchBurnBlockHeight(): Promise<number> {
+  const { apiUrl } = getCurrentNetworkConfig();
+  const response = await fetch(`${apiUrl}/v2/info`);
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to fetch node info: ${response.status} ${response.statusText} - ${errorText}`);
+  }
+
+  const data = await response.json();
+  return Number(data.burn_block_height);
+}
@@ -28,9 +28,14 @@ import {
   PostConditionMode,
   deserializeTransaction,
   broadcastTransaction,
+  createStacksPrivateKey,
+  StacksTransaction,
+  SignedContractCallOptions,
 } from '@stacks/transactions';
 import { fetchAccountNonce, getStacksNetwork } from './network';
 import { NetworkEnvironment, BlockchainWriteResponse, TransactionStatus } from './types';
+import { bytesToHex } from './utils';
+import { estimateFee } from './fees';
 
 /**
  * Get the backend's private key for signing transactions
@@ -58,6 +63,26 @@ export function getBackendAddress(networkEnv: NetworkEnvironment): string {
   return getAddressFromPrivateKey(privateKey, network.version);
 }
 
+/**
+ * A nonce handed out to one transaction. The lease is either marked broadcast or released.
+ */
+export interface NonceLease {
+  leaseId: string;
+  nonce: number;
+}
+
+/**
+ * Hands out nonces for a signer so concurrent writers never sign with the same one.
+ * convex/signerNonces.ts implements this over the database; without a manager the
+ * account nonce is fetched from the node for every transaction.
+ */
+export interface NonceManager {
+  acquire(senderAddress: string): Promise<NonceLease>;
+  markBroadcast(lease: NonceLease, broadcast: { txId: string; rawTx: string; fee: number }): Promise<void>;
+  release(lease: NonceLease, error: string): Promise<void>;
+  resync(senderAddress: string): Promise<void>;
+}
+
 /**
  * Basic transaction configuration
  */
@@ -73,6 +98,8 @@ interface TransactionConfig {
   anchorMode?: AnchorMode;
   postConditionMode?: PostConditionMode;
   postConditions?: any[];
+  nonceManager?: NonceManager; // When set, the nonce is leased from the manager instead of fetched
+  feeOperation?: string; // Fee policy to estimate under when no fee is given (see FEE_OPERATION)
 }
 
 /**
@@ -100,7 +127,7 @@ export async function buildTransaction(config: TransactionConfig): Promise<any>
   }
   
   // Build transaction options
-  const txOptions = {
+  const txOptions: SignedContractCallOptions = {
     contractAddress: config.contractAddress,
     contractName: config.contractName,
     functionName: config.functionName,
@@ -108,13 +135,19 @@ export async function buildTransaction(config: TransactionConfig): Promise<any>
     senderKey: senderKey,
     network: network,
     nonce: nonce,
-    fee: config.fee || 1000, // Default fee
+    fee: config.fee,
     anchorMode: config.anchorMode || AnchorMode.Any,
     postConditionMode: config.postConditionMode || PostConditionMode.Allow,
     postConditions: config.postConditions || [],
   };
+
+  // Estimate the fee from a zero-fee draft when the caller did not set one
+  if (txOptions.fee === undefined) {
+    const draft = await makeContractCall({ ...txOptions, fee: 0 });
+    txOptions.fee = await estimateFee(draft, config.feeOperation, config.networkEnv);
+  }
   
-  console.log(`Transaction built for ${config.contractName}.${config.functionName} with nonce ${nonce}`);
+  console.log(`Transaction built for ${config.contractName}.${config.functionName} with nonce ${nonce} and fee ${txOptions.fee}`);
   return txOptions;
 }
 
@@ -162,6 +195,15 @@ export async function signTransaction(txOptions: any): Promise<string> {
   }
 }
 
+/**
+ * Hex-encode a signed transaction without relying on Buffer
+ * @param transaction Signed transaction
+ * @returns Serialized transaction hex
+ */
+export function serializeTransactionHex(transaction: StacksTransaction): string {
+  return bytesToHex(transaction.serialize());
+}
+
 /**
  * Broadcast a signed transaction to the network
  * @param serializedTxHex Serialized transaction hex string from signTransaction or DIRECT_TX marker
@@ -256,6 +298,24 @@ export async function broadcastSignedTransaction(
   }
 }
 
+/**
+ * Address of a signing key on a network
+ * @param senderKey Private key
+ * @param networkEnv Network environment to derive the address for
+ * @returns The Stacks address for the key
+ */
+export function getSignerAddress(senderKey: string, networkEnv: NetworkEnvironment): string {
+  const network = getStacksNetwork(networkEnv);
+  return getAddressFromPrivateKey(senderKey, network.version);
+}
+
+/**
+ * Address that will sign a transaction built from this config
+ */
+function getSenderAddress(config: TransactionConfig): string {
+  return getSignerAddress(config.senderKey || getBackendSignerKey(), config.networkEnv);
+}
+
 /**
  * Build, sign, and broadcast a transaction in one operation
  * @param config Transaction configuration
@@ -267,19 +327,46 @@ export async function buildSignAndBroadcastTransaction(
   retryAttempt: number = 0 // Added for retry limiting
 ): Promise<BlockchainWriteResponse> {
   const MAX_RETRIES = 1; // Allow one retry for BadNonce
+  const nonceManager = config.nonceManager;
+  let lease: NonceLease | undefined;
 
   try {
+    // Lease a nonce when a manager is configured and the caller did not pin one
+    let nonce = config.nonce;
+    if (nonceManager && nonce === undefined) {
+      lease = await nonceManager.acquire(getSenderAddress(config));
+      nonce = lease.nonce;
+    }
+
     // Build and sign the transaction
-    const txOptions = await buildTransaction(config);
+    const txOptions = await buildTransaction({ ...config, nonce });
     const serializedTxOrMarker = await signTransaction(txOptions);
     
     // Broadcast the transaction
     const broadcastResult = await broadcastSignedTransaction(serializedTxOrMarker, config.networkEnv, txOptions);
 
+    if (lease) {
+      if (broadcastResult.success && broadcastResult.txId) {
+        await nonceManager!.markBroadcast(lease, {
+          txId: broadcastResult.txId,
+          rawTx: serializeTransactionHex(txOptions.__signedTransaction),
+          fee: txOptions.fee,
+        });
+      } else {
+        await nonceManager!.release(lease, broadcastResult.error || "Broadcast failed");
+      }
+      lease = undefined;
+    }
+
     // Check for BadNonce specific errorType from our updated broadcastSignedTransaction response
     if (!broadcastResult.success && broadcastResult.errorType === 'BadNonce' && broadcastResult.expectedNonce !== undefined) {
       if (retryAttempt < MAX_RETRIES) {
         console.log(`BadNonce detected (attempt ${retryAttempt + 1}/${MAX_RETRIES + 1}). Retrying with expected nonce: ${broadcastResult.expectedNonce}. Original TxID: ${broadcastResult.txId || 'N/A'}`);
+        if (nonceManager && config.nonce === undefined) {
+          // Let the manager catch up with the chain and lease again rather than pinning the node's nonce
+          await nonceManager.resync(getSenderAddress(config));
+          return buildSignAndBroadcastTransaction(config, retryAttempt + 1);
+        }
         const newConfig = { ...config, nonce: broadcastResult.expectedNonce };
         // Recursively call self, incrementing retryAttempt
         return buildSignAndBroadcastTransaction(newConfig, retryAttempt + 1);
@@ -300,6 +387,9 @@ export async function buildSignAndBroadcastTransaction(
 
   } catch (error: any) {
     console.error("Error in buildSignAndBroadcastTransaction:", error);
+    if (lease && nonceManager) {
+      await nonceManager.release(lease, error.message || String(error));
+    }
     return {
       success: false,
       error: `Transaction processing failed: ${error.message || error}`,
@@ -308,6 +398,40 @@ export async function buildSignAndBroadcastTransaction(
   }
 }
 
+/**
+ * Re-sign a broadcast transaction with a higher fee and broadcast it again (replace-by-fee).
+ * The nonce is unchanged, so whichever version is mined first wins.
+ * @param rawTx Hex of the previously broadcast signed transaction
+ * @param fee New fee in micro-STX; must exceed the previous fee
+ * @param networkEnv Network environment to broadcast on
+ * @param senderKey Signer key (defaults to the backend signer)
+ * @returns Broadcast result; `data.rawTx` carries the replacement transaction hex
+ */
+export async function rebroadcastWithFee(
+  rawTx: string,
+  fee: number,
+  networkEnv: NetworkEnvironment,
+  senderKey?: string
+): Promise<BlockchainWriteResponse> {
+  try {
+    const transaction = deserializeTransaction(rawTx);
+    transaction.setFee(fee);
+    const signer = new TransactionSigner(transaction);
+    signer.signOrigin(createStacksPrivateKey(senderKey || getBackendSignerKey()));
+
+    const replacementHex = serializeTransactionHex(transaction);
+    const result = await broadcastSignedTransaction('DIRECT_TX:replace-by-fee', networkEnv, { __signedTransaction: transaction });
+    return { ...result, data: { ...(typeof result.data === 'object' ? result.data : {}), rawTx: replacementHex } };
+  } catch (error: any) {
+    console.error("Error in rebroadcastWithFee:", error);
+    return {
+      success: false,
+      error: `Replace-by-fee failed: ${error.message || error}`,
+      data: error,
+    };
+  }
+}
+
 /**
  * Check the status of a transaction
  * @param txid Transaction ID to check
@@ -355,6 +479,11 @@ export async function checkTransactionStatus(
         status: TransactionStatus.FAILED, 
         error: data.tx_result || 'Transaction execution failed' 
       };
+    } else if (data.tx_status === 'abort_by_response') {
+      return { 
+        status: TransactionStatus.FAILED, 
+        error: `Transaction aborted by contract: ${data.tx_result?.repr ?? 'unknown result'}` 
+      };
     } else if (data.tx_status === 'abort_by_post_condition') {
       return { 
         status: TransactionStatus.FAILED, 
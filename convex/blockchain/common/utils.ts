@@ -44,6 +44,28 @@ export function btcToSatoshis(btc: number): number {
   return btc * 100_000_000;
 }
 
+/**
+ * Convert a pool token amount (STX or sBTC) to the base units the vault counts in, rounding down
+ * so the result never exceeds the amount
+ * @param token Token ID, e.g. "STX" or "sBTC"
+ * @param amount Amount in whole tokens
+ * @returns Amount in micro-STX or satoshis
+ */
+export function tokenToBaseUnits(token: string, amount: number): number {
+  const baseUnits = token.toUpperCase() === 'SBTC' ? btcToSatoshis(amount) : stxToMicroStx(amount);
+  return Math.floor(baseUnits + 1e-6); // Absorb binary rounding such as 0.29 BTC => 28999999.999999996 sats
+}
+
+/**
+ * Convert a vault base-unit amount back to whole tokens
+ * @param token Token ID, e.g. "STX" or "sBTC"
+ * @param baseUnits Amount in micro-STX or satoshis
+ * @returns Amount in whole tokens
+ */
+export function baseUnitsToToken(token: string, baseUnits: number): number {
+  return token.toUpperCase() === 'SBTC' ? satoshisToBtc(baseUnits) : microStxToStx(baseUnits);
+}
+
 /**
  * Check if a string is a valid Stacks address
  * @param address The address to check
@@ -121,6 +143,37 @@ export function parseClarityValue(cv: ClarityValue, expectType?: string): any {
   }
 }
 
+/**
+ * Convert cvToJSON output into plain JS values. Unsigned/signed ints become numbers,
+ * optionals become the inner value or null, responses become their inner value.
+ */
+export function clarityJsonToPlain(json: any): any {
+  if (json === null || json === undefined) {
+    return null;
+  }
+  const type: string = json.type ?? '';
+  if (type === 'uint' || type === 'int') {
+    return Number(json.value);
+  }
+  if (type === 'bool') {
+    return json.value === true || json.value === 'true';
+  }
+  if (type.startsWith('(tuple')) {
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(json.value)) {
+      result[key] = clarityJsonToPlain(value);
+    }
+    return result;
+  }
+  if (type.startsWith('(list')) {
+    return (json.value as any[]).map(clarityJsonToPlain);
+  }
+  if (type.startsWith('(optional') || type.startsWith('(response')) {
+    return clarityJsonToPlain(json.value);
+  }
+  return json.value;
+}
+
 /**
  * Format an error from a contract call into a standardized error
  * @param error The error from the contract call
@@ -274,4 +327,12 @@ export function usdToCents(usdAmount: number): number {
     return 0; 
   }
   return Math.round(usdAmount * 100);
-} 
\ No newline at end of file
+} 
+/**
+ * Hex-encode bytes without relying on Buffer, which Convex functions may not have.
+ * @param bytes Bytes to encode
+ * @returns Lowercase hex string without a 0x prefix
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -1,11 +1,12 @@
 /**
  * Liquidity Pool Blockchain Integration: Event Handling
  * 
- * This file contains functions for handling events from the Liquidity Pool contract.
+ * This file contains functions for fetching and decoding events from the Liquidity Pool contract.
+ * Continuous indexing is done by convex/chainEventIndexer.ts, which uses decodeLiquidityPoolPrintEvent.
  */
 
 import { getContractByName } from "../common/contracts";
-import { subscribeToEvents, fetchEvents } from "../common/eventListener";
+import { fetchEvents, DecodedPrintEvent } from "../common/eventListener";
 import { 
   LiquidityPoolEvent, 
   FundsDepositedEvent,
@@ -17,301 +18,100 @@ import {
   PremiumDistributedEvent,
   ProviderAllocationEvent,
   ProviderPremiumDistributedEvent,
+  LiquidityPoolVaultPrintEvent,
   TokenType
 } from "./types";
 
 /**
- * Subscribe to funds-deposited events from the Liquidity Pool contract
- * @param callback Callback function to handle the events
- * @param options Subscription options (from block, to block)
- * @returns Subscription ID
+ * Map a decoded liquidity-pool-vault print to its typed form
+ * @param decoded Output of decodePrintEvent
+ * @returns Typed event, or null for prints the indexer does not act on (debug, failures, config)
  */
-export async function subscribeToFundsDepositedEvents(
-  callback: (event: FundsDepositedEvent) => void,
-  options?: { fromBlock?: number; toBlock?: number }
-): Promise<string> {
-  const contract = getContractByName("liquidityPool");
-  
-  return subscribeToEvents({
-    contractAddress: contract.address,
-    contractName: contract.name,
-    eventName: "funds-deposited",
-    callback: (rawEvent) => {
-      // Map raw event data to typed event
-      const typedEvent: FundsDepositedEvent = {
-        eventType: "funds-deposited",
-        depositor: rawEvent.depositor,
-        amount: parseInt(rawEvent.amount),
-        token: rawEvent.token as TokenType,
-        txId: rawEvent.tx_id
+export function decodeLiquidityPoolPrintEvent(decoded: DecodedPrintEvent): LiquidityPoolVaultPrintEvent | null {
+  const d = decoded.data;
+  switch (decoded.eventName) {
+    case "capital-deposited":
+      return {
+        eventName: "capital-deposited",
+        blockHeight: d["block-height"],
+        provider: d["provider-principal"],
+        amount: d["amount"],
+        tokenId: d["token-id"],
+        riskTier: d["risk-tier"],
       };
-      
-      callback(typedEvent);
-    },
-    options
-  });
-}
-
-/**
- * Subscribe to funds-withdrawn events from the Liquidity Pool contract
- * @param callback Callback function to handle the events
- * @param options Subscription options (from block, to block)
- * @returns Subscription ID
- */
-export async function subscribeToFundsWithdrawnEvents(
-  callback: (event: FundsWithdrawnEvent) => void,
-  options?: { fromBlock?: number; toBlock?: number }
-): Promise<string> {
-  const contract = getContractByName("liquidityPool");
-  
-  return subscribeToEvents({
-    contractAddress: contract.address,
-    contractName: contract.name,
-    eventName: "funds-withdrawn",
-    callback: (rawEvent) => {
-      // Map raw event data to typed event
-      const typedEvent: FundsWithdrawnEvent = {
-        eventType: "funds-withdrawn",
-        withdrawer: rawEvent.withdrawer,
-        amount: parseInt(rawEvent.amount),
-        token: rawEvent.token as TokenType,
-        txId: rawEvent.tx_id
+    case "capital-withdrawn":
+      return {
+        eventName: "capital-withdrawn",
+        blockHeight: d["block-height"],
+        provider: d["provider-principal"],
+        amount: d["amount"],
+        tokenId: d["token-id"],
       };
-      
-      callback(typedEvent);
-    },
-    options
-  });
-}
-
-/**
- * Subscribe to collateral-locked events from the Liquidity Pool contract
- * @param callback Callback function to handle the events
- * @param options Subscription options (from block, to block)
- * @returns Subscription ID
- */
-export async function subscribeToCollateralLockedEvents(
-  callback: (event: CollateralLockedEvent) => void,
-  options?: { fromBlock?: number; toBlock?: number }
-): Promise<string> {
-  const contract = getContractByName("liquidityPool");
-  
-  return subscribeToEvents({
-    contractAddress: contract.address,
-    contractName: contract.name,
-    eventName: "collateral-locked",
-    callback: (rawEvent) => {
-      // Map raw event data to typed event
-      const typedEvent: CollateralLockedEvent = {
-        eventType: "collateral-locked",
-        policyId: rawEvent.policy_id.toString(),
-        amountLocked: parseInt(rawEvent.amount_locked),
-        token: rawEvent.token as TokenType,
-        txId: rawEvent.tx_id
-      };
-      
-      callback(typedEvent);
-    },
-    options
-  });
-}
-
-/**
- * Subscribe to collateral-released events from the Liquidity Pool contract
- * @param callback Callback function to handle the events
- * @param options Subscription options (from block, to block)
- * @returns Subscription ID
- */
-export async function subscribeToCollateralReleasedEvents(
-  callback: (event: CollateralReleasedEvent) => void,
-  options?: { fromBlock?: number; toBlock?: number }
-): Promise<string> {
-  const contract = getContractByName("liquidityPool");
-  
-  return subscribeToEvents({
-    contractAddress: contract.address,
-    contractName: contract.name,
-    eventName: "collateral-released",
-    callback: (rawEvent) => {
-      // Map raw event data to typed event
-      const typedEvent: CollateralReleasedEvent = {
-        eventType: "collateral-released",
-        policyId: rawEvent.policy_id.toString(),
-        amountReleased: parseInt(rawEvent.amount_released),
-        token: rawEvent.token as TokenType,
-        txId: rawEvent.tx_id
+    case "collateral-locked":
+      return {
+        eventName: "collateral-locked",
+        blockHeight: d["block-height"],
+        policyId: d["policy-id"],
+        totalCollateralAmount: d["total-collateral-amount"],
+        tokenId: d["token-id"],
+        riskTier: d["risk-tier"],
+        expirationHeight: d["expiration-height"],
+        policyOwner: d["policy-owner-principal"],
+        providerCount: d["provider-count"],
       };
-      
-      callback(typedEvent);
-    },
-    options
-  });
-}
-
-/**
- * Subscribe to settlement-paid events from the Liquidity Pool contract
- * @param callback Callback function to handle the events
- * @param options Subscription options (from block, to block)
- * @returns Subscription ID
- */
-export async function subscribeToSettlementPaidEvents(
-  callback: (event: SettlementPaidEvent) => void,
-  options?: { fromBlock?: number; toBlock?: number }
-): Promise<string> {
-  const contract = getContractByName("liquidityPool");
-  
-  return subscribeToEvents({
-    contractAddress: contract.address,
-    contractName: contract.name,
-    eventName: "settlement-paid",
-    callback: (rawEvent) => {
-      // Map raw event data to typed event
-      const typedEvent: SettlementPaidEvent = {
-        eventType: "settlement-paid",
-        policyId: rawEvent.policy_id.toString(),
-        buyer: rawEvent.buyer,
-        settlementAmount: parseInt(rawEvent.settlement_amount),
-        token: rawEvent.token as TokenType,
-        txId: rawEvent.tx_id
+    case "collateral-released":
+      return {
+        eventName: "collateral-released",
+        blockHeight: d["block-height"],
+        policyId: d["policy-id"],
+        tokenId: d["token-id"],
+        totalReleasedAmount: d["total-released-amount"],
+        expirationHeight: d["expiration-height"],
+        providerCount: d["provider-count"],
       };
-      
-      callback(typedEvent);
-    },
-    options
-  });
-}
-
-/**
- * Subscribe to premium-recorded events from the Liquidity Pool contract
- * @param callback Callback function to handle the events
- * @param options Subscription options (from block, to block)
- * @returns Subscription ID
- */
-export async function subscribeToPremiumRecordedEvents(
-  callback: (event: PremiumRecordedEvent) => void,
-  options?: { fromBlock?: number; toBlock?: number }
-): Promise<string> {
-  const contract = getContractByName("liquidityPool");
-  
-  return subscribeToEvents({
-    contractAddress: contract.address,
-    contractName: contract.name,
-    eventName: "premium-recorded",
-    callback: (rawEvent) => {
-      // Map raw event data to typed event
-      const typedEvent: PremiumRecordedEvent = {
-        eventType: "premium-recorded",
-        policyId: rawEvent.policy_id.toString(),
-        counterparty: rawEvent.counterparty,
-        premiumAmount: parseInt(rawEvent.premium_amount),
-        token: rawEvent.token as TokenType,
-        txId: rawEvent.tx_id
+    case "premium-recorded-for-policy":
+      return {
+        eventName: "premium-recorded-for-policy",
+        blockHeight: d["block-height"],
+        policyId: d["policy-id"],
+        policyOwner: d["policy-owner-principal"],
+        amount: d["amount"],
+        tokenId: d["token-id"],
+        expirationHeight: d["expiration-height"],
       };
-      
-      callback(typedEvent);
-    },
-    options
-  });
-}
-
-/**
- * Subscribe to premium-distributed events from the Liquidity Pool contract
- * @param callback Callback function to handle the events
- * @param options Subscription options (from block, to block)
- * @returns Subscription ID
- */
-export async function subscribeToPremiumDistributedEvents(
-  callback: (event: PremiumDistributedEvent) => void,
-  options?: { fromBlock?: number; toBlock?: number }
-): Promise<string> {
-  const contract = getContractByName("liquidityPool");
-  
-  return subscribeToEvents({
-    contractAddress: contract.address,
-    contractName: contract.name,
-    eventName: "premium-distributed",
-    callback: (rawEvent) => {
-      // Map raw event data to typed event
-      const typedEvent: PremiumDistributedEvent = {
-        eventType: "premium-distributed",
-        policyId: rawEvent.policy_id.toString(),
-        counterparty: rawEvent.counterparty,
-        premiumAmount: parseInt(rawEvent.premium_amount),
-        token: rawEvent.token as TokenType,
-        txId: rawEvent.tx_id
+    case "provider-allocation":
+      return {
+        eventName: "provider-allocation",
+        blockHeight: d["block-height"],
+        provider: d["provider"],
+        policyId: d["policy-id"],
+        allocationAmount: d["allocation-amount"],
+        riskTier: d["risk-tier"],
+        expirationHeight: d["expiration-height"],
       };
-      
-      callback(typedEvent);
-    },
-    options
-  });
-}
-
-/**
- * Subscribe to provider-allocation-recorded events from the Liquidity Pool contract
- * @param callback Callback function to handle the events
- * @param options Subscription options (from block, to block)
- * @returns Subscription ID
- */
-export async function subscribeToProviderAllocationEvents(
-  callback: (event: ProviderAllocationEvent) => void,
-  options?: { fromBlock?: number; toBlock?: number }
-): Promise<string> {
-  const contract = getContractByName("liquidityPool");
-  
-  return subscribeToEvents({
-    contractAddress: contract.address,
-    contractName: contract.name,
-    eventName: "provider-allocation-recorded",
-    callback: (rawEvent) => {
-      // Map raw event data to typed event
-      const typedEvent: ProviderAllocationEvent = {
-        eventType: "provider-allocation-recorded",
-        provider: rawEvent.provider,
-        policyId: rawEvent.policy_id.toString(),
-        allocatedAmount: parseInt(rawEvent.allocated_amount),
-        premiumShare: parseInt(rawEvent.premium_share),
-        token: rawEvent.token as TokenType,
-        txId: rawEvent.tx_id
+    case "premium-distributed-to-provider":
+      return {
+        eventName: "premium-distributed-to-provider",
+        blockHeight: d["block-height"],
+        provider: d["provider"],
+        policyId: d["policy-id"],
+        tokenId: d["token-id"],
+        premiumShare: d["premium-share"],
+        allocationAmount: d["allocation-amount"],
       };
-      
-      callback(typedEvent);
-    },
-    options
-  });
-}
-
-/**
- * Subscribe to provider-premium-distributed events from the Liquidity Pool contract
- * @param callback Callback function to handle the events
- * @param options Subscription options (from block, to block)
- * @returns Subscription ID
- */
-export async function subscribeToProviderPremiumDistributedEvents(
-  callback: (event: ProviderPremiumDistributedEvent) => void,
-  options?: { fromBlock?: number; toBlock?: number }
-): Promise<string> {
-  const contract = getContractByName("liquidityPool");
-  
-  return subscribeToEvents({
-    contractAddress: contract.address,
-    contractName: contract.name,
-    eventName: "provider-premium-distributed",
-    callback: (rawEvent) => {
-      // Map raw event data to typed event
-      const typedEvent: ProviderPremiumDistributedEvent = {
-        eventType: "provider-premium-distributed",
-        provider: rawEvent.provider,
-        policyId: rawEvent.policy_id.toString(),
-        premiumAmount: parseInt(rawEvent.premium_amount),
-        token: rawEvent.token as TokenType,
-        txId: rawEvent.tx_id
+    case "policy-settlement-processed":
+      return {
+        eventName: "policy-settlement-processed",
+        blockHeight: d["block-height"],
+        policyId: d["policy-id"],
+        tokenId: d["token-id"],
+        settlementAmount: d["settlement-amount"],
+        policyOwner: d["policy-owner"],
+        providerCount: d["provider-count"],
       };
-      
-      callback(typedEvent);
-    },
-    options
-  });
+    default:
+      return null;
+  }
 }
 
 /**
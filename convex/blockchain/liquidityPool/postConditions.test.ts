@@ -0,0 +1,171 @@
+import { expect, test, describe, vi } from "vitest";
+import {
+  addressToString,
+  FungibleConditionCode,
+  PostConditionMode,
+  PostConditionType,
+  PostConditionPrincipalID,
+} from "@stacks/transactions";
+import {
+  buildDepositPostConditions,
+  buildWithdrawalPostConditions,
+  buildSettlementPostConditions,
+  buildPremiumDistributionPostConditions,
+  buildProviderPremiumPostConditions,
+  buildNoTransferPostConditions,
+} from "./postConditions";
+import {
+  buildDepositSTXTransaction,
+  buildWithdrawSIP010Transaction,
+  buildPaySettlementTransaction,
+  buildLockCollateralTransaction,
+} from "./writer";
+import { TokenType } from "./types";
+import { NetworkEnvironment } from "../common/types";
+
+const VAULT_ADDRESS = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+const SBTC_ADDRESS = "ST1F7QA2MDF17S807EPA36TSS8AMEFY4KA9TVGWXT";
+const PROVIDER = "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG";
+const POLICY_OWNER = "ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC";
+const network = NetworkEnvironment.DEVNET;
+
+vi.mock("../common/contracts", () => ({
+  getContractByName: (name: string) =>
+    name === "sbtc"
+      ? { address: SBTC_ADDRESS, name: "sbtc-token" }
+      : { address: VAULT_ADDRESS, name: "liquidity-pool-vault", adminAddress: VAULT_ADDRESS },
+}));
+
+// Return the assembled options instead of building and signing a transaction
+vi.mock("../common/transaction", () => ({
+  buildTransaction: vi.fn(async (config: any) => config),
+}));
+
+function describeCondition(condition: any) {
+  return {
+    conditionType: condition.conditionType,
+    conditionCode: condition.conditionCode,
+    amount: condition.amount,
+    sender: addressToString(condition.principal.address),
+    senderContract: condition.principal.prefix === PostConditionPrincipalID.Contract
+      ? condition.principal.contractName.content
+      : undefined,
+    asset: condition.assetInfo
+      ? `${addressToString(condition.assetInfo.address)}.${condition.assetInfo.contractName.content}::${condition.assetInfo.assetName.content}`
+      : undefined,
+  };
+}
+
+describe("liquidity pool post-conditions", () => {
+  test("STX deposit: depositor sends exactly the amount", () => {
+    const result = buildDepositPostConditions({ token: TokenType.STX, amount: 5_000_000, depositor: PROVIDER, provider: PROVIDER, network });
+
+    expect(result.postConditionMode).toBe(PostConditionMode.Deny);
+    expect(result.postConditions.map(describeCondition)).toEqual([{
+      conditionType: PostConditionType.STX,
+      conditionCode: FungibleConditionCode.Equal,
+      amount: 5_000_000n,
+      sender: PROVIDER,
+      senderContract: undefined,
+      asset: undefined,
+    }]);
+  });
+
+  test("sBTC deposit: depositor sends exactly the amount of the sBTC token", () => {
+    const result = buildDepositPostConditions({ token: TokenType.SBTC, amount: 25_000, depositor: PROVIDER, provider: PROVIDER, network });
+
+    expect(result.postConditions.map(describeCondition)).toEqual([{
+      conditionType: PostConditionType.Fungible,
+      conditionCode: FungibleConditionCode.Equal,
+      amount: 25_000n,
+      sender: PROVIDER,
+      senderContract: undefined,
+      asset: `${SBTC_ADDRESS}.sbtc-token::sbtc-token`,
+    }]);
+  });
+
+  test("withdrawals, settlements and premium payouts are sent by the vault contract", () => {
+    const conditions = [
+      buildWithdrawalPostConditions({ token: TokenType.STX, amount: 1_000, recipient: PROVIDER, provider: PROVIDER, network }),
+      buildSettlementPostConditions({ token: TokenType.STX, amount: 2_000, recipient: POLICY_OWNER, policyId: "7", network }),
+      buildPremiumDistributionPostConditions({ token: TokenType.SBTC, amount: 3_000, recipient: PROVIDER, policyId: "7" }),
+      buildProviderPremiumPostConditions(TokenType.STX, 4_000),
+    ].map(result => {
+      expect(result.postConditionMode).toBe(PostConditionMode.Deny);
+      expect(result.postConditions).toHaveLength(1);
+      return describeCondition(result.postConditions[0]);
+    });
+
+    expect(conditions.map(c => [c.sender, c.senderContract, c.amount])).toEqual([
+      [VAULT_ADDRESS, "liquidity-pool-vault", 1_000n],
+      [VAULT_ADDRESS, "liquidity-pool-vault", 2_000n],
+      [VAULT_ADDRESS, "liquidity-pool-vault", 3_000n],
+      [VAULT_ADDRESS, "liquidity-pool-vault", 4_000n],
+    ]);
+    expect(conditions[2].asset).toBe(`${SBTC_ADDRESS}.sbtc-token::sbtc-token`);
+  });
+
+  test("rejects a sender that is not a Stacks principal", () => {
+    expect(() => buildDepositPostConditions({ token: TokenType.STX, amount: 1, depositor: "not-an-address", provider: PROVIDER, network }))
+      .toThrow("Invalid principal for post-conditions: not-an-address");
+  });
+
+  test("bookkeeping calls deny every transfer", () => {
+    expect(buildNoTransferPostConditions()).toEqual({
+      postConditionMode: PostConditionMode.Deny,
+      postConditions: [],
+    });
+  });
+});
+
+describe("liquidity pool writers use derived post-conditions", () => {
+  test("buildDepositSTXTransaction", async () => {
+    const result = await buildDepositSTXTransaction({ token: TokenType.STX, amount: 10, depositor: PROVIDER, provider: PROVIDER, network });
+    const options: any = result.data;
+
+    expect(options.postConditionMode).toBe(PostConditionMode.Deny);
+    expect(options.postConditions.map(describeCondition)[0]).toMatchObject({ sender: PROVIDER, amount: 10n });
+  });
+
+  test("buildWithdrawSIP010Transaction", async () => {
+    const result = await buildWithdrawSIP010Transaction({ token: TokenType.SBTC, amount: 99, recipient: PROVIDER, provider: PROVIDER, network });
+    const options: any = result.data;
+
+    expect(options.postConditionMode).toBe(PostConditionMode.Deny);
+    expect(options.postConditions.map(describeCondition)[0]).toMatchObject({
+      conditionType: PostConditionType.Fungible,
+      sender: VAULT_ADDRESS,
+      senderContract: "liquidity-pool-vault",
+      amount: 99n,
+    });
+  });
+
+  test("buildPaySettlementTransaction", async () => {
+    const result = await buildPaySettlementTransaction({
+      token: TokenType.STX,
+      amount: 123_456,
+      recipient: POLICY_OWNER,
+      policyId: "42",
+      network,
+    });
+    const options: any = result.data;
+
+    expect(options.postConditionMode).toBe(PostConditionMode.Deny);
+    expect(options.postConditions.map(describeCondition)).toEqual([{
+      conditionType: PostConditionType.STX,
+      conditionCode: FungibleConditionCode.Equal,
+      amount: 123_456n,
+      sender: VAULT_ADDRESS,
+      senderContract: "liquidity-pool-vault",
+      asset: undefined,
+    }]);
+  });
+
+  test("buildLockCollateralTransaction", async () => {
+    const result = await buildLockCollateralTransaction({ token: TokenType.STX, amount: 500, policyId: "1" });
+    const options: any = result.data;
+
+    expect(options.postConditionMode).toBe(PostConditionMode.Deny);
+    expect(options.postConditions).toEqual([]);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Liquidity Pool Blockchain Integration: Post-Conditions
+ *
+ * Derives the exact STX / SIP-010 transfers each liquidity pool writer is expected to cause, so its
+ * transaction can run in PostConditionMode.Deny: any transfer not listed here aborts the transaction.
+ */
+
+import {
+  Pc,
+  PostCondition,
+  PostConditionMode,
+  validateStacksAddress,
+} from "@stacks/transactions";
+import { getContractByName } from "../common/contracts";
+import {
+  DepositParams,
+  WithdrawalParams,
+  SettlementParams,
+  PremiumDistributionParams,
+  TokenType
+} from "./types";
+
+// Fungible token name declared by the sBTC contract (define-fungible-token sbtc-token)
+const SBTC_ASSET_NAME = process.env.SBTC_ASSET_NAME || "sbtc-token";
+
+/**
+ * Post-condition settings passed through to buildTransaction
+ */
+export interface WriterPostConditions {
+  postConditionMode: PostConditionMode;
+  postConditions: PostCondition[];
+}
+
+/**
+ * Fully qualified principal of the liquidity pool vault, which holds and pays out pool funds
+ */
+function getVaultPrincipal(): string {
+  const contract = getContractByName("liquidityPool");
+  return `${contract.address}.${contract.name}`;
+}
+
+/**
+ * Build a condition that `sender` sends exactly `amount` base units of `token`
+ * @param sender Standard (ST...) or contract (ST....name) principal
+ * @param token Token being moved
+ * @param amount Amount in base units (micro-STX or satoshis)
+ * @returns The post-condition
+ */
+export function makeExactTokenTransferCondition(
+  sender: string,
+  token: TokenType,
+  amount: number | bigint
+): PostCondition {
+  return makeTokenTransferCondition(sender, token, amount, "eq");
+}
+
+/**
+ * Build a condition that `sender` sends exactly (eq) or at least (gte) `amount` base units of `token`
+ */
+function makeTokenTransferCondition(
+  sender: string,
+  token: TokenType,
+  amount: number | bigint,
+  comparator: "eq" | "gte"
+): PostCondition {
+  const [address] = sender.split(".");
+  if (!validateStacksAddress(address)) {
+    throw new Error(`Invalid principal for post-conditions: ${sender}`);
+  }
+  const principal = Pc.principal(sender);
+  const condition = comparator === "eq" ? principal.willSendEq(amount) : principal.willSendGte(amount);
+  if (token === TokenType.STX) {
+    return condition.ustx();
+  }
+  if (token === TokenType.SBTC) {
+    const tokenContract = getContractByName("sbtc");
+    return condition.ft(`${tokenContract.address}.${tokenContract.name}`, SBTC_ASSET_NAME);
+  }
+  throw new Error(`Unsupported token for post-conditions: ${token}`);
+}
+
+/**
+ * Deny mode with an exact transfer from one principal
+ */
+function denyWithTransfer(sender: string, token: TokenType, amount: number | bigint): WriterPostConditions {
+  return {
+    postConditionMode: PostConditionMode.Deny,
+    postConditions: [makeExactTokenTransferCondition(sender, token, amount)],
+  };
+}
+
+/**
+ * Deposits: the depositor sends exactly the deposit amount into the vault
+ */
+export function buildDepositPostConditions(params: DepositParams): WriterPostConditions {
+  return denyWithTransfer(params.depositor, params.token, params.amount);
+}
+
+/**
+ * Withdrawals: the vault sends exactly the withdrawal amount to the recipient
+ */
+export function buildWithdrawalPostConditions(params: WithdrawalParams): WriterPostConditions {
+  return denyWithTransfer(getVaultPrincipal(), params.token, params.amount);
+}
+
+/**
+ * Settlement payouts: the vault sends exactly the settlement amount to the policy owner
+ */
+export function buildSettlementPostConditions(params: SettlementParams): WriterPostConditions {
+  return denyWithTransfer(getVaultPrincipal(), params.token, params.amount);
+}
+
+/**
+ * Expiration settlements through policy-registry: the registry computes the payout from the oracle
+ * price on-chain, so only the paying principal and token are pinned. The vault may send any amount
+ * of the collateral token; a transfer by anyone else (including the signer) aborts the transaction.
+ */
+export function buildExpirationSettlementPostConditions(token: TokenType): WriterPostConditions {
+  return {
+    postConditionMode: PostConditionMode.Deny,
+    postConditions: [makeTokenTransferCondition(getVaultPrincipal(), token, 0, "gte")],
+  };
+}
+
+/**
+ * Premium distributions: the vault sends exactly the premium amount to the recipient
+ */
+export function buildPremiumDistributionPostConditions(params: PremiumDistributionParams): WriterPostConditions {
+  return denyWithTransfer(getVaultPrincipal(), params.token, params.amount);
+}
+
+/**
+ * Provider premium payouts: the vault sends exactly the premium amount to the provider
+ */
+export function buildProviderPremiumPostConditions(token: TokenType, premiumAmount: number): WriterPostConditions {
+  return denyWithTransfer(getVaultPrincipal(), token, premiumAmount);
+}
+
+/**
+ * Bookkeeping calls (collateral locks/releases, allocation records): no tokens may move
+ */
+export function buildNoTransferPostConditions(): WriterPostConditions {
+  return {
+    postConditionMode: PostConditionMode.Deny,
+    postConditions: [],
+  };
+}
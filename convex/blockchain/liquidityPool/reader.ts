@@ -17,7 +17,7 @@ import {
   LiquidityPoolErrorCode
 } from "./types";
 
-import { callReadOnlyFunction, stringAsciiCV, ReadOnlyFunctionOptions } from "@stacks/transactions";
+import { callReadOnlyFunction, stringAsciiCV, principalCV, ClarityType, ReadOnlyFunctionOptions } from "@stacks/transactions";
 
 // Default network environment to use if not specified
 const DEFAULT_NETWORK_ENV = NetworkEnvironment.DEVNET;
@@ -303,4 +303,42 @@ export async function getUndistributedPremiums(
       error: formatContractError(error)
     };
   }
-} 
\ No newline at end of file
+} 
+/**
+ * Check whether a provider has allowed the backend to reinvest their earned premiums on-chain.
+ * @param provider The provider address
+ * @param token The token to check
+ * @param networkEnv Optional network environment to use
+ * @returns True when auto-reinvest is enabled in the vault
+ */
+export async function isAutoReinvestEnabled(
+  provider: string,
+  token: TokenType,
+  networkEnv: NetworkEnvironment = DEFAULT_NETWORK_ENV
+): Promise<BlockchainReadResponse<boolean>> {
+  try {
+    const network = getStacksNetwork(networkEnv);
+    const contract = getContractByName('liquidityPool');
+
+    const response = await retryWithBackoff(async () => {
+      return await callReadOnlyFunction({
+        contractAddress: contract.address,
+        contractName: contract.name,
+        functionName: 'is-auto-reinvest-enabled',
+        functionArgs: [principalCV(provider), stringAsciiCV(token)],
+        senderAddress: contract.address, // Any sender works for read-only calls
+        network
+      });
+    });
+
+    return {
+      success: true,
+      data: response.type === ClarityType.BoolTrue
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: formatContractError(error).message
+    };
+  }
+}
@@ -89,6 +89,18 @@ export interface SettlementParams extends TransactionParams {
   recipient: string;
 }
 
+/**
+ * Parameters for reinvesting a provider's earned premiums
+ */
+export interface ReinvestPremiumsParams extends TransactionParams {
+  // Token type (STX or sBTC)
+  token: TokenType;
+  // Earned premiums to move into deposited capital, in base units (micro-STX or satoshis)
+  amount: number;
+  // Provider whose premiums are reinvested
+  provider: string;
+}
+
 /**
  * Parameters for premium recording
  */
@@ -385,6 +397,81 @@ export type LiquidityPoolEvent =
   | ProviderAllocationEvent
   | ProviderPremiumDistributedEvent;
 
+// Print events emitted by liquidity-pool-vault.clar, as decoded by the chain event indexer
+// (amounts stay in the token's base units)
+export type LiquidityPoolVaultPrintEvent =
+  | {
+      eventName: 'capital-deposited';
+      blockHeight: number;
+      provider: string;
+      amount: number;
+      tokenId: string;
+      riskTier: string;
+    }
+  | {
+      eventName: 'capital-withdrawn';
+      blockHeight: number;
+      provider: string;
+      amount: number;
+      tokenId: string;
+    }
+  | {
+      eventName: 'collateral-locked';
+      blockHeight: number;
+      policyId: number;
+      totalCollateralAmount: number;
+      tokenId: string;
+      riskTier: string;
+      expirationHeight: number;
+      policyOwner: string;
+      providerCount: number;
+    }
+  | {
+      eventName: 'collateral-released';
+      blockHeight: number;
+      policyId: number;
+      tokenId: string;
+      totalReleasedAmount: number;
+      expirationHeight: number;
+      providerCount: number;
+    }
+  | {
+      eventName: 'premium-recorded-for-policy';
+      blockHeight: number;
+      policyId: number;
+      policyOwner: string;
+      amount: number;
+      tokenId: string;
+      expirationHeight: number;
+    }
+  | {
+      eventName: 'provider-allocation';
+      blockHeight: number;
+      provider: string;
+      policyId: number;
+      allocationAmount: number;
+      riskTier: string;
+      expirationHeight: number;
+    }
+  | {
+      eventName: 'premium-distributed-to-provider';
+      blockHeight: number;
+      provider: string;
+      policyId: number;
+      tokenId: string;
+      premiumShare: number;
+      allocationAmount: number;
+    }
+  | {
+      eventName: 'policy-settlement-processed';
+      blockHeight: number;
+      policyId: number;
+      tokenId: string;
+      settlementAmount: number;
+      policyOwner: string;
+      providerCount: number;
+    };
+
 // Transaction response interfaces
 export interface TransactionResponse {
   txId: string;
@@ -5,7 +5,8 @@
  */
 
 import { getContractByName } from "../common/contracts";
-import { buildTransaction } from "../common/transaction";
+import { buildTransaction, getBackendAddress } from "../common/transaction";
+import { FEE_OPERATION } from "../common/fees";
 import { BlockchainWriteResponse } from "../common/types";
 import {
   DepositParams,
@@ -14,19 +15,25 @@ import {
   SettlementParams,
   PremiumDistributionParams,
   ProviderAllocationParams,
+  ReinvestPremiumsParams,
   LiquidityPoolError,
   LiquidityPoolErrorCode,
   TokenType
 } from "./types";
 
+import {
+  buildDepositPostConditions,
+  buildWithdrawalPostConditions,
+  buildSettlementPostConditions,
+  buildPremiumDistributionPostConditions,
+  buildNoTransferPostConditions,
+  buildProviderPremiumPostConditions
+} from "./postConditions";
+
 import {
   stringAsciiCV,
   uintCV,
-  principalCV,
-  PostConditionMode,
-  FungibleConditionCode,
-  makeStandardSTXPostCondition,
-  createAssetInfo
+  principalCV
 } from "@stacks/transactions";
 
 /**
@@ -41,15 +48,6 @@ export async function buildDepositSTXTransaction(
     const { amount, depositor } = params;
     const contract = getContractByName("liquidityPool");
 
-    // Prepare post conditions to ensure token transfer
-    const postConditions = [
-      makeStandardSTXPostCondition(
-        depositor, // sender
-        FungibleConditionCode.Equal, // condition code
-        amount // amount
-      )
-    ];
-
     // Build the transaction
     const txOptions = {
       contractAddress: contract.address,
@@ -57,8 +55,7 @@ export async function buildDepositSTXTransaction(
       functionName: "deposit-stx",
       functionArgs: [uintCV(amount)],
       senderAddress: depositor,
-      postConditions,
-      postConditionMode: PostConditionMode.Deny
+      ...buildDepositPostConditions(params)
     };
 
     const transaction = await buildTransaction(txOptions);
@@ -115,7 +112,7 @@ export async function buildDepositSIP010Transaction(
         uintCV(amount)
       ],
       senderAddress: depositor,
-      postConditionMode: PostConditionMode.Deny
+      ...buildDepositPostConditions(params)
     };
 
     const transaction = await buildTransaction(txOptions);
@@ -158,7 +155,8 @@ export async function buildWithdrawSTXTransaction(
         uintCV(amount),
         principalCV(recipient)
       ],
-      senderAddress: backendAddress
+      senderAddress: backendAddress,
+      ...buildWithdrawalPostConditions(params)
     };
 
     const transaction = await buildTransaction(txOptions);
@@ -217,7 +215,8 @@ export async function buildWithdrawSIP010Transaction(
         // Recipient
         principalCV(recipient)
       ],
-      senderAddress: backendAddress
+      senderAddress: backendAddress,
+      ...buildWithdrawalPostConditions(params)
     };
 
     const transaction = await buildTransaction(txOptions);
@@ -261,7 +260,8 @@ export async function buildLockCollateralTransaction(
         uintCV(amount),
         uintCV(parseInt(policyId))
       ],
-      senderAddress: backendAddress
+      senderAddress: backendAddress,
+      ...buildNoTransferPostConditions()
     };
 
     const transaction = await buildTransaction(txOptions);
@@ -305,7 +305,8 @@ export async function buildReleaseCollateralTransaction(
         uintCV(amount),
         uintCV(parseInt(policyId))
       ],
-      senderAddress: backendAddress
+      senderAddress: backendAddress,
+      ...buildNoTransferPostConditions()
     };
 
     const transaction = await buildTransaction(txOptions);
@@ -328,6 +329,8 @@ export async function buildReleaseCollateralTransaction(
 
 /**
  * Build a transaction to pay settlement for an exercised policy
+ * @deprecated The vault has no pay-settlement function; settlements are paid by the policy registry's
+ * process-single-policy-at-expiration (see buildProcessPolicyExpirationTransaction in policyRegistry/writer.ts)
  * @param params The settlement parameters
  * @returns Transaction payload for settlement payment
  */
@@ -350,7 +353,11 @@ export async function buildPaySettlementTransaction(
         principalCV(recipient),
         uintCV(parseInt(policyId))
       ],
-      senderAddress: backendAddress
+      senderAddress: backendAddress,
+      ...buildSettlementPostConditions(params),
+      networkEnv: params.network,
+      nonce: params.options?.nonce,
+      feeOperation: FEE_OPERATION.SETTLEMENT_PAYOUT
     };
 
     const transaction = await buildTransaction(txOptions);
@@ -395,7 +402,8 @@ export async function buildDistributePremiumTransaction(
         principalCV(recipient),
         uintCV(parseInt(policyId))
       ],
-      senderAddress: backendAddress
+      senderAddress: backendAddress,
+      ...buildPremiumDistributionPostConditions(params)
     };
 
     const transaction = await buildTransaction(txOptions);
@@ -441,7 +449,8 @@ export async function buildProviderAllocationTransaction(
         uintCV(allocatedAmount),
         uintCV(premiumShare)
       ],
-      senderAddress: backendAddress
+      senderAddress: backendAddress,
+      ...buildNoTransferPostConditions()
     };
 
     const transaction = await buildTransaction(txOptions);
@@ -468,10 +477,10 @@ export async function buildProviderAllocationTransaction(
  * @returns Transaction payload for provider premium distribution
  */
 export async function buildDistributeProviderPremiumTransaction(
-  params: { provider: string; policyId: string; premiumAmount: number }
+  params: { provider: string; policyId: string; premiumAmount: number; token: TokenType }
 ): Promise<BlockchainWriteResponse<string>> {
   try {
-    const { provider, policyId, premiumAmount } = params;
+    const { provider, policyId, token, premiumAmount } = params;
     const contract = getContractByName("liquidityPool");
     const backendAddress = contract.adminAddress;
 
@@ -485,7 +494,8 @@ export async function buildDistributeProviderPremiumTransaction(
         uintCV(parseInt(policyId)),
         uintCV(premiumAmount)
       ],
-      senderAddress: backendAddress
+      senderAddress: backendAddress,
+      ...buildProviderPremiumPostConditions(token, premiumAmount)
     };
 
     const transaction = await buildTransaction(txOptions);
@@ -504,4 +514,47 @@ export async function buildDistributeProviderPremiumTransaction(
       )
     };
   }
-} 
\ No newline at end of file
+} 
+/**
+ * Build a transaction to reinvest a provider's earned premiums into their deposited capital
+ * @param params The reinvestment parameters
+ * @returns Transaction payload for the reinvestment
+ */
+export async function buildReinvestPremiumsTransaction(
+  params: ReinvestPremiumsParams
+): Promise<BlockchainWriteResponse> {
+  try {
+    const { token, amount, provider } = params;
+    const contract = getContractByName("liquidityPool");
+    const backendAddress = getBackendAddress(params.network);
+
+    // The vault only accepts this from the backend for providers who enabled auto-reinvest
+    const txOptions = {
+      contractAddress: contract.address,
+      contractName: contract.name,
+      functionName: "reinvest-earned-premiums",
+      functionArgs: [
+        principalCV(provider),
+        stringAsciiCV(token),
+        uintCV(amount)
+      ],
+      senderAddress: backendAddress,
+      ...buildNoTransferPostConditions(),
+      networkEnv: params.network,
+      nonce: params.options?.nonce,
+      feeOperation: FEE_OPERATION.PREMIUM_REINVEST
+    };
+
+    const transaction = await buildTransaction(txOptions);
+
+    return {
+      success: true,
+      data: transaction
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: `Error building reinvest premiums transaction: ${error.message}`
+    };
+  }
+}
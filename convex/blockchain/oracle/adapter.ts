@@ -20,6 +20,10 @@ import {
   submitAggregatedPrice as submitPrice, 
   checkAndSubmitOraclePrice 
 } from './priceWriter';
+import { createNonceManager } from '../../signerNonces';
+import { FEE_OPERATION } from '../common/fees';
+import { internal } from '../../_generated/api';
+import { toUpdateThresholds } from '../../services/oracle/oracleConfig';
 
 /**
  * Adapter for the original readLatestOraclePrice function.
@@ -67,11 +71,12 @@ export const prepareOracleSubmissionAdapter = internalAction({
       const { price, timestamp, sourceCount } = args;
       const priceInSatoshis = Math.round(price * 100000000);
       
+      const config = await ctx.runQuery(internal.services.oracle.oracleConfig.getOracleConfigInternal, {});
       const result = await prepareOracleSubmission({
         currentPriceUSD: price,
         currentTimestamp: timestamp,
         sourceCount: sourceCount || 0
-      });
+      }, toUpdateThresholds(config));
       
       return {
         shouldUpdate: result.shouldUpdate,
@@ -102,7 +107,7 @@ export const submitAggregatedPriceAdapter = action({
   handler: async (ctx, { priceInSatoshis }): Promise<{ txid: string }> => {
     console.log(`Oracle adapter: Executing submitAggregatedPrice with price: ${priceInSatoshis}`);
     try {
-      const result = await submitPrice({ priceInSatoshis });
+      const result = await submitPrice({ priceInSatoshis }, createNonceManager(ctx, FEE_OPERATION.ORACLE_SUBMISSION));
       return { txid: result.txid };
     } catch (error: any) {
       console.error("Error in submitAggregatedPriceAdapter:", error);
@@ -130,11 +135,12 @@ export const checkAndSubmitOraclePriceAdapter = internalAction({
     try {
       const { price, timestamp, sourceCount } = args;
       
+      const config = await ctx.runQuery(internal.services.oracle.oracleConfig.getOracleConfigInternal, {});
       const result = await checkAndSubmitOraclePrice({
         currentPriceUSD: price,
         currentTimestamp: timestamp,
         sourceCount: sourceCount || 0
-      }) as OracleSubmissionCheckResult;
+      }, createNonceManager(ctx, FEE_OPERATION.ORACLE_SUBMISSION), toUpdateThresholds(config)) as OracleSubmissionCheckResult;
       
       if (result && result.txid) {
         return {
@@ -0,0 +1,30 @@
+/**
+ * Oracle Blockchain Integration: Event Handling
+ *
+ * Decodes prints from the oracle contract. Continuous indexing is done by
+ * convex/chainEventIndexer.ts, which uses decodeOraclePrintEvent.
+ */
+
+import { DecodedPrintEvent } from "../common/eventListener";
+import { OraclePrintEvent } from "./types";
+
+/**
+ * Map a decoded oracle print to its typed form
+ * @param decoded Output of decodePrintEvent
+ * @returns Typed event, or null for prints the indexer does not act on (submitter and admin changes)
+ */
+export function decodeOraclePrintEvent(decoded: DecodedPrintEvent): OraclePrintEvent | null {
+  const d = decoded.data;
+  switch (decoded.eventName) {
+    case "price-updated":
+      return {
+        eventName: "price-updated",
+        blockHeight: d["block-height"],
+        price: d["price"],
+        timestamp: d["timestamp"],
+        submitter: d["submitter"],
+      };
+    default:
+      return null;
+  }
+}
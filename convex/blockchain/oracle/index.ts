@@ -44,8 +44,8 @@ export default {
     supportedNetworks: ['mainnet', 'testnet', 'devnet'],
     constants: {
       getUpdateThresholds: () => {
-        const { ORACLE_UPDATE_THRESHOLDS } = require('./priceWriter');
-        return ORACLE_UPDATE_THRESHOLDS;
+        const { DEFAULT_ORACLE_UPDATE_THRESHOLDS } = require('./priceWriter');
+        return DEFAULT_ORACLE_UPDATE_THRESHOLDS;
       }
     }
   }
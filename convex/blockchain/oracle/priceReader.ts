@@ -2,8 +2,16 @@ import {
   ClarityValue,
   cvToJSON,
   callReadOnlyFunction,
+  uintCV,
 } from '@stacks/transactions';
-import { OraclePriceData, OraclePriceReadResponse, OracleError, OracleErrorCode } from './types';
+import {
+  OraclePriceData,
+  OraclePriceReadResponse,
+  OracleError,
+  OracleErrorCode,
+  OraclePriceAtHeight,
+  RecordedOraclePrice,
+} from './types';
 import { getOracleContract } from '../common/contracts';
 import { getStacksNetwork } from '../common/network';
 
@@ -99,6 +107,143 @@ export async function readLatestOraclePrice(): Promise<OraclePriceReadResponse>
   }
 }
 
+/**
+ * Reads the oracle price recorded for a burn block height (used for settlements).
+ * The contract returns either a bare uint or a {price, timestamp} tuple depending on version.
+ *
+ * @param {number} height - Burn block height to read the price at
+ * @returns {Promise<OraclePriceReadResponse>} The oracle price data response
+ */
+export async function readOraclePriceAtHeight(height: number): Promise<OraclePriceReadResponse> {
+  const oracleContract = getOracleContract();
+  const network = getStacksNetwork();
+
+  try {
+    const resultCV: ClarityValue = await callReadOnlyFunction({
+      contractAddress: oracleContract.address,
+      contractName: oracleContract.name,
+      functionName: 'get-bitcoin-price-at-height',
+      functionArgs: [uintCV(height)],
+      network,
+      senderAddress: oracleContract.address,
+    });
+    const resultJson = cvToJSON(resultCV);
+
+    if (resultJson.success !== true) {
+      const errorCode = resultJson.value?.value;
+      return {
+        success: false,
+        error: `Oracle contract error code: ${errorCode}`,
+        data: { price: null, timestamp: null, error: OracleErrorCode.NO_PRICE_DATA },
+      };
+    }
+
+    const inner = resultJson.value;
+    const priceValue = inner?.type === 'uint' ? inner.value : inner?.value?.price?.value;
+    const timestampValue = inner?.type === 'uint' ? null : inner?.value?.timestamp?.value ?? null;
+    if (!priceValue) {
+      console.error(`Unexpected response structure from get-bitcoin-price-at-height(${height}):`, JSON.stringify(resultJson));
+      return {
+        success: false,
+        error: 'Unexpected response structure from oracle contract.',
+        data: { price: null, timestamp: null, error: OracleErrorCode.INVALID_RESPONSE },
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        price: priceValue,
+        timestamp: timestampValue,
+        priceInSatoshis: parseInt(priceValue, 10),
+        priceInUSD: convertSatoshisToUsd(priceValue),
+      },
+    };
+  } catch (error: any) {
+    console.error(`Error calling read-only function get-bitcoin-price-at-height(${height}):`, error);
+    return {
+      success: false,
+      error: error.message || 'Failed to read from oracle contract.',
+      data: { price: null, timestamp: null, error: OracleErrorCode.READ_FAILURE },
+    };
+  }
+}
+
+/**
+ * Default staleness bound for price-at-height lookups: 6 burn blocks, about the oracle's
+ * one hour maximum price age.
+ */
+export const DEFAULT_MAX_PRICE_STALENESS_BLOCKS = 6;
+
+/**
+ * Options for resolving the oracle price at a burn height
+ */
+export interface PriceAtHeightOptions {
+  // Oldest acceptable price, in burn blocks before the requested height
+  maxStalenessBlocks?: number;
+  // Looks up the latest confirmed price set at or before a height (Convex oracleSubmissions history)
+  lookupRecordedPrice?: (height: number) => Promise<RecordedOraclePrice | null>;
+}
+
+/**
+ * Answers "what was the oracle price at burn height H". Uses the indexed price history first;
+ * otherwise falls back to the contract, whose get-bitcoin-price-at-height still returns the latest
+ * price, which is only usable when it was set at or before H. Either way the price must have been
+ * set no more than maxStalenessBlocks before H.
+ *
+ * @param {number} height - Burn block height to resolve
+ * @param {PriceAtHeightOptions} options - Staleness bound and recorded-price lookup
+ * @returns {Promise<OraclePriceAtHeight>} The resolved price, or an error explaining why none qualifies
+ */
+export async function getOraclePriceAtHeight(
+  height: number,
+  options: PriceAtHeightOptions = {}
+): Promise<OraclePriceAtHeight> {
+  const maxStaleness = options.maxStalenessBlocks ?? DEFAULT_MAX_PRICE_STALENESS_BLOCKS;
+
+  if (options.lookupRecordedPrice) {
+    const recorded = await options.lookupRecordedPrice(height);
+    if (recorded && height - recorded.burnBlockHeight <= maxStaleness) {
+      return {
+        success: true,
+        priceInSatoshis: recorded.priceInSatoshis,
+        priceInUSD: convertSatoshisToUsd(String(recorded.priceInSatoshis)),
+        priceHeight: recorded.burnBlockHeight,
+        staleness: height - recorded.burnBlockHeight,
+        source: 'indexed',
+      };
+    }
+  }
+
+  const onChain = await readOraclePriceAtHeight(height);
+  if (!onChain.success || !onChain.data?.priceInSatoshis) {
+    return { success: false, error: onChain.error || `No oracle price available for height ${height}` };
+  }
+  const priceHeight = onChain.data.timestamp !== null ? parseInt(onChain.data.timestamp, 10) : NaN;
+  if (isNaN(priceHeight) || priceHeight > height) {
+    return {
+      success: false,
+      error: `No recorded oracle price at or before height ${height}; the contract only reports the price set at ${onChain.data.timestamp ?? 'an unknown height'}`,
+    };
+  }
+  if (height - priceHeight > maxStaleness) {
+    return {
+      success: false,
+      priceHeight,
+      staleness: height - priceHeight,
+      error: `Oracle price at height ${height} is stale: last set at ${priceHeight} (more than ${maxStaleness} blocks earlier)`,
+    };
+  }
+  return {
+    success: true,
+    priceInSatoshis: onChain.data.priceInSatoshis,
+    priceInUSD: onChain.data.priceInUSD,
+    priceHeight,
+    staleness: height - priceHeight,
+    source: 'on-chain',
+  };
+}
+
 /**
  * Converts the raw price value from satoshis to USD
  * 
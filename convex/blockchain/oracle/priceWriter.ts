@@ -22,15 +22,18 @@ import {
   getBackendAddress, 
   broadcastSignedTransaction, 
   buildSignAndBroadcastTransaction,
+  NonceManager,
 } from '../common/transaction';
+import { FEE_OPERATION } from '../common/fees';
 import { BlockchainWriteResponse, NetworkEnvironment } from '../common/types';
 import { readLatestOraclePrice } from './priceReader';
 
 /**
- * Oracle update thresholds configuration.
- * These thresholds determine when a price update should be performed.
+ * Default oracle update thresholds.
+ * These thresholds determine when a price update should be performed. Deployments override them
+ * through the oracleConfig table (see services/oracle/oracleConfig.ts).
  */
-export const ORACLE_UPDATE_THRESHOLDS: OracleUpdateThresholds = {
+export const DEFAULT_ORACLE_UPDATE_THRESHOLDS: OracleUpdateThresholds = {
   MIN_PRICE_CHANGE_PERCENT: 1.0, // Minimum price change percentage to trigger an update
   MAX_TIME_BETWEEN_UPDATES_MS: 24 * 60 * 60 * 1000, // Maximum time allowed between updates (24 hours)
   MIN_TIME_BETWEEN_UPDATES_MS: 15 * 60 * 1000, // Minimum time between updates (15 minutes)
@@ -42,19 +45,23 @@ export const ORACLE_UPDATE_THRESHOLDS: OracleUpdateThresholds = {
  * Implements the multi-factor threshold logic to determine if an update should be performed.
  * 
  * @param {OracleSubmissionParams} params - Price submission parameters
+ * @param {OracleUpdateThresholds} [thresholds] - Update thresholds, defaults to DEFAULT_ORACLE_UPDATE_THRESHOLDS
  * @returns {Promise<OracleSubmissionEvaluationResult>} - Evaluation result
  */
-export async function prepareOracleSubmission(params: OracleSubmissionParams): Promise<OracleSubmissionEvaluationResult> {
+export async function prepareOracleSubmission(
+  params: OracleSubmissionParams,
+  thresholds: OracleUpdateThresholds = DEFAULT_ORACLE_UPDATE_THRESHOLDS
+): Promise<OracleSubmissionEvaluationResult> {
   console.log("prepareOracleSubmission running with multi-factor threshold logic...");
   
   const { currentPriceUSD, currentTimestamp, sourceCount } = params;
   
   // Check minimum source count threshold
-  if (sourceCount !== undefined && sourceCount < ORACLE_UPDATE_THRESHOLDS.MIN_SOURCE_COUNT) {
-    console.warn(`Insufficient price sources (${sourceCount}) for confident update. Minimum required: ${ORACLE_UPDATE_THRESHOLDS.MIN_SOURCE_COUNT}`);
+  if (sourceCount !== undefined && sourceCount < thresholds.MIN_SOURCE_COUNT) {
+    console.warn(`Insufficient price sources (${sourceCount}) for confident update. Minimum required: ${thresholds.MIN_SOURCE_COUNT}`);
     return {
       shouldUpdate: false,
-      reason: `Insufficient price sources (${sourceCount}) for confident update. Minimum required: ${ORACLE_UPDATE_THRESHOLDS.MIN_SOURCE_COUNT}`
+      reason: `Insufficient price sources (${sourceCount}) for confident update. Minimum required: ${thresholds.MIN_SOURCE_COUNT}`
     };
   }
   
@@ -120,9 +127,9 @@ export async function prepareOracleSubmission(params: OracleSubmissionParams): P
   // Apply threshold checks
   
   // Check minimum time threshold (to prevent excessive updates)
-  if (timeElapsedMs < ORACLE_UPDATE_THRESHOLDS.MIN_TIME_BETWEEN_UPDATES_MS) {
+  if (timeElapsedMs < thresholds.MIN_TIME_BETWEEN_UPDATES_MS) {
     const minutesSinceLastUpdate = (timeElapsedMs / (60 * 1000)).toFixed(2);
-    const minimumMinutes = (ORACLE_UPDATE_THRESHOLDS.MIN_TIME_BETWEEN_UPDATES_MS / (60 * 1000)).toFixed(2);
+    const minimumMinutes = (thresholds.MIN_TIME_BETWEEN_UPDATES_MS / (60 * 1000)).toFixed(2);
     console.log(`Too soon since last update. Minutes elapsed: ${minutesSinceLastUpdate}, Minimum required: ${minimumMinutes}`);
     return {
       shouldUpdate: false,
@@ -135,17 +142,17 @@ export async function prepareOracleSubmission(params: OracleSubmissionParams): P
   }
   
   // Check price change threshold
-  const priceChangeExceedsThreshold = absPercentChange >= ORACLE_UPDATE_THRESHOLDS.MIN_PRICE_CHANGE_PERCENT;
+  const priceChangeExceedsThreshold = absPercentChange >= thresholds.MIN_PRICE_CHANGE_PERCENT;
   
   // Check maximum time threshold
-  const timeExceedsMaxThreshold = timeElapsedMs >= ORACLE_UPDATE_THRESHOLDS.MAX_TIME_BETWEEN_UPDATES_MS;
+  const timeExceedsMaxThreshold = timeElapsedMs >= thresholds.MAX_TIME_BETWEEN_UPDATES_MS;
   
   // Decision logic
   if (priceChangeExceedsThreshold) {
-    console.log(`Price change (${absPercentChange.toFixed(4)}%) exceeds threshold (${ORACLE_UPDATE_THRESHOLDS.MIN_PRICE_CHANGE_PERCENT}%). Update recommended.`);
+    console.log(`Price change (${absPercentChange.toFixed(4)}%) exceeds threshold (${thresholds.MIN_PRICE_CHANGE_PERCENT}%). Update recommended.`);
     return {
       shouldUpdate: true,
-      reason: `Price change (${absPercentChange.toFixed(4)}%) exceeds threshold (${ORACLE_UPDATE_THRESHOLDS.MIN_PRICE_CHANGE_PERCENT}%).`,
+      reason: `Price change (${absPercentChange.toFixed(4)}%) exceeds threshold (${thresholds.MIN_PRICE_CHANGE_PERCENT}%).`,
       priceInSatoshis,
       currentTimestamp,
       percentChange,
@@ -153,7 +160,7 @@ export async function prepareOracleSubmission(params: OracleSubmissionParams): P
     };
   } else if (timeExceedsMaxThreshold) {
     const hoursElapsed = (timeElapsedMs / (60 * 60 * 1000)).toFixed(2);
-    const maxHours = (ORACLE_UPDATE_THRESHOLDS.MAX_TIME_BETWEEN_UPDATES_MS / (60 * 60 * 1000)).toFixed(2);
+    const maxHours = (thresholds.MAX_TIME_BETWEEN_UPDATES_MS / (60 * 60 * 1000)).toFixed(2);
     console.log(`Maximum time threshold exceeded. Hours elapsed: ${hoursElapsed}, Maximum: ${maxHours}. Update recommended despite small price change.`);
     return {
       shouldUpdate: true,
@@ -222,7 +229,7 @@ export function buildSetPriceTransactionOptions(priceInSatoshis: number): Oracle
     functionArgs: [priceArg],
     postConditionMode: PostConditionMode.Deny,
     anchorMode: AnchorMode.Any,
-    fee: 50000, // Use a higher fee for faster confirmation
+    // No fixed fee: estimated under the oracle-submission fee policy when the transaction is built
   };
 }
 
@@ -231,15 +238,17 @@ export function buildSetPriceTransactionOptions(priceInSatoshis: number): Oracle
  */
 export interface OraclePriceSubmission {
   priceInSatoshis: number;
+  senderKey?: string; // Sign with this key instead of the backend key (multi-signer mode)
 }
 
 /**
  * Submits the aggregated price to the oracle contract.
  * 
  * @param {OraclePriceSubmission} params - The price submission parameters
+ * @param {NonceManager} [nonceManager] - Optional nonce allocator shared with other backend writers
  * @returns {Promise<OracleSubmissionResult>} The transaction result
  */
-export async function submitAggregatedPrice(params: OraclePriceSubmission): Promise<OracleSubmissionResult> {
+export async function submitAggregatedPrice(params: OraclePriceSubmission, nonceManager?: NonceManager): Promise<OracleSubmissionResult> {
   console.log(`submitAggregatedPrice initiated for price: ${params.priceInSatoshis}`);
   
   // Validate input price
@@ -260,7 +269,10 @@ export async function submitAggregatedPrice(params: OraclePriceSubmission): Prom
       networkEnv: getNetworkEnvironment(), // Ensure this gets the correct env
       anchorMode: txOptions.anchorMode,
       postConditionMode: txOptions.postConditionMode,
-      fee: txOptions.fee
+      fee: txOptions.fee,
+      senderKey: params.senderKey,
+      feeOperation: FEE_OPERATION.ORACLE_SUBMISSION,
+      nonceManager
     };
     
     // Sign and broadcast the transaction
@@ -298,14 +310,20 @@ export async function submitAggregatedPrice(params: OraclePriceSubmission): Prom
  * Checks if a price update is needed and submits if conditions are met.
  * 
  * @param {OracleSubmissionParams} params - The price data to evaluate
+ * @param {NonceManager} [nonceManager] - Optional nonce allocator shared with other backend writers
+ * @param {OracleUpdateThresholds} [thresholds] - Update thresholds, defaults to DEFAULT_ORACLE_UPDATE_THRESHOLDS
  * @returns {Promise<OracleSubmissionCheckResult>} The result of the check and submission
  */
-export async function checkAndSubmitOraclePrice(params: OracleSubmissionParams): Promise<OracleSubmissionCheckResult> {
+export async function checkAndSubmitOraclePrice(
+  params: OracleSubmissionParams,
+  nonceManager?: NonceManager,
+  thresholds: OracleUpdateThresholds = DEFAULT_ORACLE_UPDATE_THRESHOLDS
+): Promise<OracleSubmissionCheckResult> {
   console.log("checkAndSubmitOraclePrice running...");
   
   try {
     // Step 1: Check if we should update the price
-    const evaluationResult = await prepareOracleSubmission(params);
+    const evaluationResult = await prepareOracleSubmission(params, thresholds);
     
     // If no update needed, return early
     if (!evaluationResult.shouldUpdate) {
@@ -324,7 +342,7 @@ export async function checkAndSubmitOraclePrice(params: OracleSubmissionParams):
     // submitAggregatedPrice will now throw an error on failure
     const submissionResult = await submitAggregatedPrice({
       priceInSatoshis: evaluationResult.priceInSatoshis || 0
-    });
+    }, nonceManager);
     
     // If submitAggregatedPrice succeeded, submissionResult.txid will be valid
     console.log(`Price update submitted successfully. TxID: ${submissionResult.txid}`);
@@ -347,4 +365,49 @@ export async function checkAndSubmitOraclePrice(params: OracleSubmissionParams):
       reason: `Oracle update failed: ${error.message}` // error.message will be from the throw in submitAggregatedPrice or prepareOracleSubmission
     };
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Limits the oracle contract enforces on each set-aggregated-price call (validate-price-update),
+ * taken from the parameters contract's oracle-max-deviation-pct and oracle-max-age-blocks.
+ */
+export interface OnChainDeviationLimits {
+  maxDeviationPercent: number;
+  maxAgeBlocks: number;
+}
+
+/**
+ * Mirror of the contract's validate-price-update: a new price may move at most maxDeviationPercent
+ * from the last on-chain price, unless that price is older than maxAgeBlocks burn blocks.
+ * Checking this before signing avoids broadcasting submissions that would abort with ERR-PRICE-OUT-OF-BOUNDS.
+ *
+ * @param {number} priceInSatoshis - Price about to be submitted
+ * @param {number | null} lastPriceInSatoshis - Current on-chain price (null when none is set)
+ * @param {number | null} lastPriceHeight - Burn height the on-chain price was set at
+ * @param {number} currentBurnHeight - Current burn block height
+ * @param {OnChainDeviationLimits} limits - Contract limits
+ * @returns {{ allowed: boolean, deviationPercent: number | null, reason?: string }}
+ */
+export function checkOnChainDeviation(
+  priceInSatoshis: number,
+  lastPriceInSatoshis: number | null,
+  lastPriceHeight: number | null,
+  currentBurnHeight: number,
+  limits: OnChainDeviationLimits
+): { allowed: boolean; deviationPercent: number | null; reason?: string } {
+  if (!lastPriceInSatoshis || lastPriceHeight === null) {
+    return { allowed: true, deviationPercent: null };
+  }
+
+  const deviationPercent = Math.abs(priceInSatoshis - lastPriceInSatoshis) / lastPriceInSatoshis * 100;
+  const isLastPriceStale = currentBurnHeight >= limits.maxAgeBlocks
+    && lastPriceHeight < currentBurnHeight - limits.maxAgeBlocks;
+  if (isLastPriceStale || deviationPercent <= limits.maxDeviationPercent) {
+    return { allowed: true, deviationPercent };
+  }
+  return {
+    allowed: false,
+    deviationPercent,
+    reason: `Price deviates ${deviationPercent.toFixed(4)}% from the on-chain price (contract limit ${limits.maxDeviationPercent}%)`,
+  };
+}
@@ -147,4 +147,35 @@ export interface AuthorizedSubmitterResponse {
   isAuthorized: boolean;
   address: string;
   error?: string;
-} 
\ No newline at end of file
+} 
+// Print events emitted by oracle.clar, as decoded by the chain event indexer
+// (prices stay scaled by 1e8; blockHeight and timestamp are burn block heights)
+export type OraclePrintEvent = {
+  eventName: 'price-updated';
+  blockHeight: number;
+  price: number;
+  timestamp: number;
+  submitter: string;
+};
+
+/**
+ * A confirmed oracle price as tracked in Convex, keyed by the burn height it was set at
+ */
+export interface RecordedOraclePrice {
+  priceInSatoshis: number;
+  burnBlockHeight: number;
+  txid?: string;
+}
+
+/**
+ * Result of resolving the oracle price in effect at a burn block height
+ */
+export interface OraclePriceAtHeight {
+  success: boolean;
+  priceInUSD?: number;
+  priceInSatoshis?: number;
+  priceHeight?: number; // Burn height the price was set at (<= requested height)
+  staleness?: number; // Requested height minus priceHeight, in burn blocks
+  source?: 'indexed' | 'on-chain';
+  error?: string;
+}
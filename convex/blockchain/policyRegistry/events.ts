@@ -1,16 +1,12 @@
 /**
  * Policy Registry Blockchain Integration: Event Handling
  * 
- * This file contains functions for subscribing to and processing policy-related blockchain events.
+ * This file contains functions for fetching and decoding policy-related blockchain events.
+ * Continuous indexing is done by convex/chainEventIndexer.ts, which uses decodePolicyRegistryPrintEvent.
  */
 
 import { getContractByName } from "../common/contracts";
-import { 
-  fetchEvents, 
-  subscribeToEvents, 
-  EventSubscription,
-  EventSubscriptionOptions 
-} from "../common/eventListener";
+import { fetchEvents, DecodedPrintEvent } from "../common/eventListener";
 import { PolicyEventType, PolicyStatus } from "./types";
 import { NetworkEnvironment } from "../common/types";
 import { mapNumberToStatus, mapStatusToEventType } from "./utils";
@@ -68,116 +64,111 @@ interface PremiumDistributionEvent {
 }
 
 /**
- * Subscribe to policy created events
- * 
- * @param callback - Function to call when an event is received
- * @param options - Additional subscription options
- * @returns Subscription ID to use for unsubscribing
+ * Typed print events emitted by policy-registry.clar (amounts stay in their on-chain scaled units)
  */
-export function subscribeToPolicyCreatedEvents(
-  callback: (event: PolicyCreatedEvent) => void,
-  options: { 
-    fromBlock?: number; 
-    untilBlock?: number;
-    networkEnv?: NetworkEnvironment;
-  } = {}
-): EventSubscription {
-  const policyContract = getContractByName("policy-registry");
-  
-  const subscriptionOptions: EventSubscriptionOptions = {
-    contractAddress: policyContract.address,
-    contractName: policyContract.name,
-    eventName: POLICY_CREATED_EVENT,
-    networkEnv: options.networkEnv || DEFAULT_NETWORK_ENV,
-    startBlock: options.fromBlock,
-    onEvent: (event) => {
-      // Process the event data before passing to callback
-      const processedEvent = processPolicyCreatedEvent(event);
-      callback(processedEvent);
+export type PolicyRegistryPrintEvent =
+  | {
+      eventName: "policy-created";
+      blockHeight: number;
+      policyId: number;
+      owner: string;
+      policyType: string;
+      riskTier: string;
+      protectedAsset: string;
+      collateralToken: string;
+      protectedValueScaled: number;
+      protectionAmountScaled: number;
+      submittedPremiumScaled: number;
+      requiredCollateralScaled: number;
+      expirationHeight: number;
+      status: string;
     }
-  };
-  
-  return subscribeToEvents(subscriptionOptions);
-}
-
-/**
- * Subscribe to policy status update events
- * 
- * @param callback - Function to call when an event is received
- * @param options - Additional subscription options
- * @returns Subscription ID to use for unsubscribing
- */
-export function subscribeToPolicyStatusUpdatedEvents(
-  callback: (event: PolicyStatusUpdatedEvent) => void,
-  options: { 
-    fromBlock?: number; 
-    untilBlock?: number; 
-    policyId?: string;
-    networkEnv?: NetworkEnvironment;
-  } = {}
-): EventSubscription {
-  const policyContract = getContractByName("policy-registry");
-  
-  const subscriptionOptions: EventSubscriptionOptions = {
-    contractAddress: policyContract.address,
-    contractName: policyContract.name,
-    eventName: POLICY_STATUS_UPDATED_EVENT,
-    networkEnv: options.networkEnv || DEFAULT_NETWORK_ENV,
-    startBlock: options.fromBlock,
-    onEvent: (event) => {
-      // Process the event data before passing to callback
-      const processedEvent = processPolicyStatusUpdatedEvent(event);
-      
-      // Filter by policy ID if specified
-      if (options.policyId && processedEvent.policyId !== options.policyId) {
-        return; // Skip this event
-      }
-      
-      callback(processedEvent);
+  | {
+      eventName: "policy-status-updated";
+      blockHeight: number;
+      policyId: number;
+      oldStatus: string;
+      newStatus: string;
     }
-  };
-  
-  return subscribeToEvents(subscriptionOptions);
-}
+  | {
+      eventName: "policy-expiration-processed-itm";
+      blockHeight: number;
+      policyId: number;
+      status: string;
+      expirationPriceScaled: number;
+      settlementAmountScaled: number;
+    }
+  | {
+      eventName: "policy-expiration-processed-otm";
+      blockHeight: number;
+      policyId: number;
+      status: string;
+      expirationPriceScaled: number;
+      settlementAmountScaled: number; // 0 for out-of-the-money expirations
+    }
+  | {
+      eventName: "policy-premium-distributed";
+      blockHeight: number;
+      policyId: number;
+      premiumAmountDistributed: number;
+      tokenId: string;
+    };
 
 /**
- * Subscribe to premium distribution events
+ * Map a decoded policy-registry print to its typed form
  * 
- * @param callback - Function to call when an event is received
- * @param options - Additional subscription options
- * @returns Subscription ID to use for unsubscribing
+ * @param decoded - Output of decodePrintEvent
+ * @returns Typed event, or null for prints the indexer does not act on (config, debug, batch info)
  */
-export function subscribeToPremiumDistributionEvents(
-  callback: (event: PremiumDistributionEvent) => void,
-  options: { 
-    fromBlock?: number; 
-    untilBlock?: number; 
-    policyId?: string;
-    networkEnv?: NetworkEnvironment;
-  } = {}
-): EventSubscription {
-  const policyContract = getContractByName("policy-registry");
-  
-  const subscriptionOptions: EventSubscriptionOptions = {
-    contractAddress: policyContract.address,
-    contractName: policyContract.name,
-    eventName: PREMIUM_DISTRIBUTED_EVENT,
-    networkEnv: options.networkEnv || DEFAULT_NETWORK_ENV,
-    startBlock: options.fromBlock,
-    onEvent: (event) => {
-      // Process the event data before passing to callback
-      const processedEvent = processPremiumDistributionEvent(event);
-      
-      // Filter by policy ID if specified
-      if (options.policyId && processedEvent.policyId !== options.policyId) {
-        return; // Skip this event
-      }
-      
-      callback(processedEvent);
-    }
-  };
-  
-  return subscribeToEvents(subscriptionOptions);
+export function decodePolicyRegistryPrintEvent(decoded: DecodedPrintEvent): PolicyRegistryPrintEvent | null {
+  const d = decoded.data;
+  switch (decoded.eventName) {
+    case POLICY_CREATED_EVENT:
+      return {
+        eventName: POLICY_CREATED_EVENT,
+        blockHeight: d["block-height"],
+        policyId: d["policy-id"],
+        owner: d["owner-principal"],
+        policyType: d["policy-type"],
+        riskTier: d["risk-tier"],
+        protectedAsset: d["protected-asset"],
+        collateralToken: d["collateral-token"],
+        protectedValueScaled: d["protected-value-scaled"],
+        protectionAmountScaled: d["protection-amount-scaled"],
+        submittedPremiumScaled: d["submitted-premium-scaled"],
+        requiredCollateralScaled: d["required-collateral-scaled"],
+        expirationHeight: d["expiration-height"],
+        status: d["status"],
+      };
+    case POLICY_STATUS_UPDATED_EVENT:
+      return {
+        eventName: POLICY_STATUS_UPDATED_EVENT,
+        blockHeight: d["block-height"],
+        policyId: d["policy-id"],
+        oldStatus: d["old-status"],
+        newStatus: d["new-status"],
+      };
+    case "policy-expiration-processed-itm":
+    case "policy-expiration-processed-otm":
+      return {
+        eventName: decoded.eventName as "policy-expiration-processed-itm" | "policy-expiration-processed-otm",
+        blockHeight: d["block-height"],
+        policyId: d["policy-id"],
+        status: d["status"],
+        expirationPriceScaled: d["expiration-price-scaled"],
+        settlementAmountScaled: d["settlement-amount-scaled"] ?? 0,
+      };
+    case "policy-premium-distributed":
+      return {
+        eventName: "policy-premium-distributed",
+        blockHeight: d["block-height"],
+        policyId: d["policy-id"],
+        premiumAmountDistributed: d["premium-amount-distributed"],
+        tokenId: d["token-id"],
+      };
+    default:
+      return null;
+  }
 }
 
 /**
@@ -360,9 +351,7 @@ function processPremiumDistributionEvent(event: any): PremiumDistributionEvent {
  * Export the main functions
  */
 export default {
-  subscribeToPolicyCreatedEvents,
-  subscribeToPolicyStatusUpdatedEvents,
-  subscribeToPremiumDistributionEvents,
+  decodePolicyRegistryPrintEvent,
   fetchPolicyCreatedEvents,
   fetchPolicyStatusUpdatedEvents,
   fetchPremiumDistributionEvents
@@ -12,6 +12,13 @@ export {
   getPolicyById,
   getPolicyStatus,
   checkPolicyExercisability,
+  getOwnerPolicyIndexSize,
+  getPolicyIdsByOwnerPage,
+  getAllPolicyIdsByOwner,
+  getExpirationPolicyIndexSize,
+  getPolicyIdsByExpirationHeightPage,
+  getAllPolicyIdsByExpirationHeight,
+  POLICY_INDEX_PAGE_SIZE,
 } from "./reader";
 
 // Export write operations
@@ -24,13 +31,12 @@ export {
 
 // Export event handling
 export {
-  subscribeToPolicyCreatedEvents,
-  subscribeToPolicyStatusUpdatedEvents,
-  subscribeToPremiumDistributionEvents,
+  decodePolicyRegistryPrintEvent,
   fetchPolicyCreatedEvents,
   fetchPolicyStatusUpdatedEvents,
   fetchPremiumDistributionEvents,
 } from "./events";
+export type { PolicyRegistryPrintEvent } from "./events";
 
 // Export default with all functionality grouped
 import reader from "./reader";
@@ -6,15 +6,19 @@
 
 import { getContractByName } from "../common/contracts";
 import { getStacksNetwork, getCurrentNetworkConfig } from "../common/network";
-import { formatContractError, parseClarityValue, retryWithBackoff } from "../common/utils";
-import { PolicyData, PolicyExercisabilityResult, PolicyReadResponse, PolicyStatus, BlockchainErrorCode, BlockchainError, NetworkEnvironment } from "./types";
+import { clarityJsonToPlain, formatContractError, parseClarityValue, retryWithBackoff } from "../common/utils";
+import { PolicyData, PolicyExercisabilityResult, PolicyReadResponse, PolicyStatus, PolicyType, PositionType, BlockchainErrorCode, BlockchainError, NetworkEnvironment, PolicyIndexSize, PolicyIndexSizeResponse, PolicyIdsReadResponse } from "./types";
 
-import { cvToValue, callReadOnlyFunction, uintCV, ReadOnlyFunctionOptions } from "@stacks/transactions";
+import { cvToValue, cvToJSON, callReadOnlyFunction, uintCV, principalCV, ClarityType, ClarityValue, ReadOnlyFunctionOptions } from "@stacks/transactions";
+import { getOraclePriceAtHeight, PriceAtHeightOptions } from "../oracle/priceReader";
 import { StacksApiWebSocketClient } from '@stacks/blockchain-api-client';
 
 // Default network environment to use if not specified
 const DEFAULT_NETWORK_ENV = NetworkEnvironment.DEVNET;
 
+// Policy IDs per page of the owner and expiration indexes (MAX_POLICIES_PER_LISTING in policy-registry.clar)
+export const POLICY_INDEX_PAGE_SIZE = 100;
+
 /**
  * Retrieves a policy by its ID from the blockchain
  * 
@@ -37,14 +41,14 @@ export async function getPolicyById(
         contractName: policyContract.name,
         functionName: "get-policy",
         functionArgs: [uintCV(parseInt(policyId))],
-        senderAddress: networkConfig.adminAddress || "",
+        senderAddress: networkConfig.adminAddress || policyContract.address,
         network
       };
       
       return await callReadOnlyFunction(options);
     });
 
-    if (result.type === 'err') {
+    if (result.type !== ClarityType.ResponseOk) {
       return {
         success: false,
         error: new BlockchainError(
@@ -54,7 +58,7 @@ export async function getPolicyById(
       };
     }
 
-    const policyData = parsePolicyData(result.value);
+    const policyData = parsePolicyData(policyId, result.value);
     
     return {
       success: true,
@@ -73,11 +77,11 @@ export async function getPolicyById(
 }
 
 /**
- * Checks if a policy is active on the blockchain
+ * Reads a policy's status string from the blockchain
  * 
  * @param policyId - The on-chain policy ID to check
  * @param networkEnv - Optional network environment to use
- * @returns Promise<PolicyReadResponse> - Boolean indicating if policy is active
+ * @returns Promise<PolicyReadResponse> - Minimal policy data carrying the status
  */
 export async function getPolicyStatus(
   policyId: string, 
@@ -92,23 +96,33 @@ export async function getPolicyStatus(
       const options: ReadOnlyFunctionOptions = {
         contractAddress: policyContract.address,
         contractName: policyContract.name,
-        functionName: "is-policy-active",
+        functionName: "get-policy-status",
         functionArgs: [uintCV(parseInt(policyId))],
-        senderAddress: networkConfig.adminAddress || "",
+        senderAddress: networkConfig.adminAddress || policyContract.address,
         network
       };
       
       return await callReadOnlyFunction(options);
     });
 
-    const isActive = cvToValue(result);
+    if (result.type !== ClarityType.ResponseOk) {
+      return {
+        success: false,
+        error: new BlockchainError(
+          `Failed to get status for policy with ID ${policyId}`,
+          BlockchainErrorCode.CONTRACT_ERROR
+        )
+      };
+    }
+
+    const onChainStatus = clarityJsonToPlain(cvToJSON(result.value));
     
-    // If we know it's active, return simplified policy data
     return {
       success: true,
       data: {
         id: policyId,
-        status: isActive ? PolicyStatus.ACTIVE : PolicyStatus.EXPIRED,
+        status: mapContractStatusToEnum(onChainStatus),
+        onChainStatus,
       } as Partial<PolicyData> as PolicyData, // Using partial here as we only return minimal info
     };
   } catch (error) {
@@ -128,11 +142,15 @@ export async function getPolicyStatus(
  * 
  * @param policyId - The on-chain policy ID to check
  * @param networkEnv - Optional network environment to use
+ * @param options - Set atHeight to judge against the oracle price at that burn height (e.g. the
+ *   policy's expiration height) instead of the current price, with optional staleness bound and
+ *   recorded-price lookup
  * @returns Promise<PolicyExercisabilityResult> - Result with exercisability status and details
  */
 export async function checkPolicyExercisability(
   policyId: string,
-  networkEnv: NetworkEnvironment = DEFAULT_NETWORK_ENV
+  networkEnv: NetworkEnvironment = DEFAULT_NETWORK_ENV,
+  options: PriceAtHeightOptions & { atHeight?: number } = {}
 ): Promise<PolicyExercisabilityResult> {
   try {
     // First get the policy data to have strike price and other details
@@ -160,6 +178,29 @@ export async function checkPolicyExercisability(
         reason: `Policy is not active, current status: ${policyData.status}`,
       };
     }
+
+    if (options.atHeight !== undefined) {
+      const price = await getOraclePriceAtHeight(options.atHeight, options);
+      if (!price.success || price.priceInUSD === undefined) {
+        return {
+          isExercisable: false,
+          policyId,
+          strikePrice: policyData.strikePrice,
+          reason: price.error,
+        };
+      }
+      const isExercisable = policyData.policyType === PolicyType.PUT
+        ? price.priceInUSD < policyData.strikePrice
+        : price.priceInUSD > policyData.strikePrice;
+      return {
+        isExercisable,
+        policyId,
+        currentPrice: price.priceInUSD,
+        priceHeight: price.priceHeight,
+        strikePrice: policyData.strikePrice,
+        reason: isExercisable ? undefined : `Price at height ${options.atHeight} does not allow exercise`,
+      };
+    }
     
     // Call the on-chain exercisability check
     const network = getStacksNetwork(networkEnv);
@@ -172,7 +213,7 @@ export async function checkPolicyExercisability(
         contractName: policyContract.name,
         functionName: "is-policy-exercisable",
         functionArgs: [uintCV(parseInt(policyId))],
-        senderAddress: networkConfig.adminAddress || "",
+        senderAddress: networkConfig.adminAddress || policyContract.address,
         network
       };
       
@@ -187,7 +228,7 @@ export async function checkPolicyExercisability(
         contractName: oracleContract.name,
         functionName: "get-current-btc-price",
         functionArgs: [],
-        senderAddress: networkConfig.adminAddress || "",
+        senderAddress: networkConfig.adminAddress || policyContract.address,
         network
       };
       
@@ -214,36 +255,214 @@ export async function checkPolicyExercisability(
   }
 }
 
+/**
+ * Calls a policy-registry read-only function and returns its ok value as plain JS,
+ * throwing when the call returns an error response
+ */
+async function readPolicyRegistry(
+  functionName: string,
+  functionArgs: ClarityValue[],
+  networkEnv: NetworkEnvironment
+): Promise<any> {
+  const network = getStacksNetwork(networkEnv);
+  const policyContract = getContractByName("policy-registry");
+
+  const result: ClarityValue = await retryWithBackoff(async () => {
+    return await callReadOnlyFunction({
+      contractAddress: policyContract.address,
+      contractName: policyContract.name,
+      functionName,
+      functionArgs,
+      senderAddress: policyContract.address, // Any sender works for read-only calls
+      network
+    });
+  });
+
+  if (result.type !== ClarityType.ResponseOk) {
+    throw new BlockchainError(
+      `${functionName} returned an error`,
+      BlockchainErrorCode.CONTRACT_ERROR,
+      { details: cvToJSON(result) }
+    );
+  }
+  return clarityJsonToPlain(cvToJSON(result.value));
+}
+
+/**
+ * Reads the size of a paged index, one page, or every page, wrapping failures in a read response
+ */
+async function readPolicyIndex<T>(
+  description: string,
+  read: () => Promise<T>
+): Promise<{ success: boolean; data?: T; error?: any }> {
+  try {
+    return { success: true, data: await read() };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof BlockchainError ? error : new BlockchainError(
+        `Error reading ${description}`,
+        BlockchainErrorCode.NETWORK_ERROR,
+        { details: error instanceof Error ? error.message : String(error) }
+      )
+    };
+  }
+}
+
+/**
+ * Reads every page of an index, given its size and page reader
+ */
+async function readAllPolicyIndexPages(
+  sizeFunction: string,
+  pageFunction: string,
+  key: ClarityValue,
+  networkEnv: NetworkEnvironment
+): Promise<string[]> {
+  const size: PolicyIndexSize = await readPolicyRegistry(sizeFunction, [key], networkEnv);
+  const policyIds: string[] = [];
+  for (let page = 0; page < size.pages; page++) {
+    const ids: number[] = await readPolicyRegistry(pageFunction, [key, uintCV(page)], networkEnv);
+    policyIds.push(...ids.map(String));
+  }
+  return policyIds;
+}
+
+/**
+ * Retrieves how many policies an owner has and how many index pages they span
+ *
+ * @param owner - The policy owner's principal
+ * @param networkEnv - Optional network environment to use
+ * @returns Promise<PolicyIndexSizeResponse> - Total policy count and page count
+ */
+export async function getOwnerPolicyIndexSize(
+  owner: string,
+  networkEnv: NetworkEnvironment = DEFAULT_NETWORK_ENV
+): Promise<PolicyIndexSizeResponse> {
+  return await readPolicyIndex(`policy index size for owner ${owner}`, () =>
+    readPolicyRegistry("get-owner-policy-index-size", [principalCV(owner)], networkEnv)
+  );
+}
+
+/**
+ * Retrieves one page (up to POLICY_INDEX_PAGE_SIZE IDs) of an owner's policy IDs, in creation order
+ *
+ * @param owner - The policy owner's principal
+ * @param page - Zero-based page number
+ * @param networkEnv - Optional network environment to use
+ * @returns Promise<PolicyIdsReadResponse> - The policy IDs on that page (empty past the last page)
+ */
+export async function getPolicyIdsByOwnerPage(
+  owner: string,
+  page: number,
+  networkEnv: NetworkEnvironment = DEFAULT_NETWORK_ENV
+): Promise<PolicyIdsReadResponse> {
+  return await readPolicyIndex(`policy index page ${page} for owner ${owner}`, async () => {
+    const ids: number[] = await readPolicyRegistry("get-policies-by-owner-page", [principalCV(owner), uintCV(page)], networkEnv);
+    return ids.map(String);
+  });
+}
+
+/**
+ * Retrieves all of an owner's policy IDs by reading every index page
+ *
+ * @param owner - The policy owner's principal
+ * @param networkEnv - Optional network environment to use
+ * @returns Promise<PolicyIdsReadResponse> - All of the owner's policy IDs, in creation order
+ */
+export async function getAllPolicyIdsByOwner(
+  owner: string,
+  networkEnv: NetworkEnvironment = DEFAULT_NETWORK_ENV
+): Promise<PolicyIdsReadResponse> {
+  return await readPolicyIndex(`policy index for owner ${owner}`, () =>
+    readAllPolicyIndexPages("get-owner-policy-index-size", "get-policies-by-owner-page", principalCV(owner), networkEnv)
+  );
+}
+
+/**
+ * Retrieves how many policies expire at a burn height and how many index pages they span
+ *
+ * @param expirationHeight - The expiration burn block height
+ * @param networkEnv - Optional network environment to use
+ * @returns Promise<PolicyIndexSizeResponse> - Total policy count and page count
+ */
+export async function getExpirationPolicyIndexSize(
+  expirationHeight: number,
+  networkEnv: NetworkEnvironment = DEFAULT_NETWORK_ENV
+): Promise<PolicyIndexSizeResponse> {
+  return await readPolicyIndex(`policy index size for expiration height ${expirationHeight}`, () =>
+    readPolicyRegistry("get-expiration-policy-index-size", [uintCV(expirationHeight)], networkEnv)
+  );
+}
+
+/**
+ * Retrieves one page (up to POLICY_INDEX_PAGE_SIZE IDs) of the policy IDs expiring at a burn height
+ *
+ * @param expirationHeight - The expiration burn block height
+ * @param page - Zero-based page number
+ * @param networkEnv - Optional network environment to use
+ * @returns Promise<PolicyIdsReadResponse> - The policy IDs on that page (empty past the last page)
+ */
+export async function getPolicyIdsByExpirationHeightPage(
+  expirationHeight: number,
+  page: number,
+  networkEnv: NetworkEnvironment = DEFAULT_NETWORK_ENV
+): Promise<PolicyIdsReadResponse> {
+  return await readPolicyIndex(`policy index page ${page} for expiration height ${expirationHeight}`, async () => {
+    const ids: number[] = await readPolicyRegistry("get-policies-by-expiration-height-page", [uintCV(expirationHeight), uintCV(page)], networkEnv);
+    return ids.map(String);
+  });
+}
+
+/**
+ * Retrieves all policy IDs expiring at a burn height by reading every index page
+ *
+ * @param expirationHeight - The expiration burn block height
+ * @param networkEnv - Optional network environment to use
+ * @returns Promise<PolicyIdsReadResponse> - All policy IDs expiring at that height, in creation order
+ */
+export async function getAllPolicyIdsByExpirationHeight(
+  expirationHeight: number,
+  networkEnv: NetworkEnvironment = DEFAULT_NETWORK_ENV
+): Promise<PolicyIdsReadResponse> {
+  return await readPolicyIndex(`policy index for expiration height ${expirationHeight}`, () =>
+    readAllPolicyIndexPages("get-expiration-policy-index-size", "get-policies-by-expiration-height-page", uintCV(expirationHeight), networkEnv)
+  );
+}
+
 /**
  * Helper function to parse policy data from contract response
  * 
- * @param clarityCVValue - The Clarity value returned from the contract
+ * @param clarityCVValue - The policy tuple returned by get-policy
  * @returns PolicyData - Parsed policy data
  */
-function parsePolicyData(clarityCVValue: any): PolicyData {
-  const rawData = parseClarityValue(clarityCVValue);
+function parsePolicyData(policyId: string, clarityCVValue: ClarityValue): PolicyData {
+  const rawData = clarityJsonToPlain(cvToJSON(clarityCVValue));
+  const settlementAmount = rawData["settlement-amount-paid"];
   
-  // Transform contract data format to our TypeScript model
+  // Contract amounts and prices are scaled by ONE_8
   return {
-    id: rawData.id.toString(),
-    policyType: rawData.policy_type,
-    positionType: rawData.position_type,
-    owner: rawData.owner,
-    counterparty: rawData.counterparty,
-    strikePrice: rawData.strike_price / 100, // Convert from micro-units if needed
-    amount: rawData.amount / 100000000, // Convert from satoshis to BTC
-    premium: rawData.premium / 100, // Convert from micro-units if needed
+    id: policyId,
+    policyType: rawData["policy-type"] as PolicyType,
+    positionType: PositionType.LONG_PUT, // The registry only records the buyer side
+    owner: rawData["policy-owner"],
+    counterparty: "", // Counterparty is the liquidity pool, not stored per policy
+    strikePrice: rawData["protected-value"] / 100000000,
+    amount: rawData["protection-amount"] / 100000000,
+    premium: rawData["submitted-premium"] / 100000000,
     status: mapContractStatusToEnum(rawData.status),
-    creationHeight: rawData.creation_height,
-    expirationHeight: rawData.expiration_height,
-    settlement: rawData.settlement_details ? {
-      amount: rawData.settlement_details.amount / 100000000, // Convert from satoshis
-      price: rawData.settlement_details.price / 100, // Convert from micro-units
-      blockHeight: rawData.settlement_details.block_height,
+    onChainStatus: rawData.status,
+    riskTier: rawData["risk-tier"],
+    protectedAsset: rawData["protected-asset"],
+    creationHeight: rawData["creation-height"],
+    expirationHeight: rawData["expiration-height"],
+    settlement: settlementAmount !== null && settlementAmount !== undefined ? {
+      amount: settlementAmount / 100000000,
+      price: (rawData["price-at-expiration"] ?? 0) / 100000000,
+      blockHeight: rawData["settlement-height"] ?? 0,
     } : undefined,
-    premiumDistributed: rawData.premium_distributed,
-    collateralToken: rawData.collateral_token,
-    settlementToken: rawData.settlement_token
+    premiumDistributed: false, // Tracked off-chain via premium distribution events
+    collateralToken: rawData["collateral-token"],
+    settlementToken: rawData["collateral-token"], // Settlements are paid in the collateral token
   };
 }
 
@@ -257,6 +476,11 @@ function mapContractStatusToEnum(contractStatus: number | string): PolicyStatus
     '1': PolicyStatus.EXERCISED,
     '2': PolicyStatus.EXPIRED,
     '3': PolicyStatus.SETTLED,
+    'Active': PolicyStatus.ACTIVE,
+    'PendingSettlement': PolicyStatus.EXERCISED,
+    'Pending-Settlement': PolicyStatus.EXERCISED,
+    'Settled-ITM': PolicyStatus.SETTLED,
+    'Expired-OTM': PolicyStatus.EXPIRED,
     'active': PolicyStatus.ACTIVE,
     'exercised': PolicyStatus.EXERCISED,
     'expired': PolicyStatus.EXPIRED,
@@ -273,4 +497,10 @@ export default {
   getPolicyById,
   getPolicyStatus,
   checkPolicyExercisability,
+  getOwnerPolicyIndexSize,
+  getPolicyIdsByOwnerPage,
+  getAllPolicyIdsByOwner,
+  getExpirationPolicyIndexSize,
+  getPolicyIdsByExpirationHeightPage,
+  getAllPolicyIdsByExpirationHeight,
 }; 
\ No newline at end of file
@@ -109,6 +109,16 @@ export interface ExpirePoliciesBatchParams extends TransactionParams {
   currentBlockHeight: number;
 }
 
+/**
+ * Parameters for processing one policy's expiration (and, when in the money, its settlement)
+ */
+export interface ProcessPolicyExpirationParams extends TransactionParams {
+  // On-chain policy ID
+  policyId: string;
+  // Collateral token the vault pays the settlement in ("STX" or "sBTC")
+  collateralToken: string;
+}
+
 /**
  * Parameters for premium distribution
  */
@@ -145,6 +155,12 @@ export interface PolicyData {
   premium: number;
   // Current status
   status: PolicyStatus;
+  // Status string exactly as stored by the contract (e.g. "Settled-ITM", "Expired-OTM")
+  onChainStatus?: string;
+  // Risk tier selected by the buyer
+  riskTier?: string;
+  // Underlying asset being protected (e.g. "BTC")
+  protectedAsset?: string;
   // Creation block height
   creationHeight: number;
   // Expiration block height
@@ -168,6 +184,20 @@ export interface PolicyData {
  */
 export type PolicyReadResponse = BlockchainReadResponse<PolicyData>;
 
+/**
+ * Size of a paged policy index (by owner or by expiration height)
+ */
+export interface PolicyIndexSize {
+  total: number; // Policy IDs in the index
+  pages: number; // Pages of up to POLICY_INDEX_PAGE_SIZE IDs
+}
+
+/**
+ * Response from policy index reads: the size of an index, or policy IDs from one or all pages
+ */
+export type PolicyIndexSizeResponse = BlockchainReadResponse<PolicyIndexSize>;
+export type PolicyIdsReadResponse = BlockchainReadResponse<string[]>;
+
 /**
  * Response from policy write operations
  */
@@ -180,6 +210,7 @@ export interface PolicyExercisabilityResult {
   isExercisable: boolean;
   policyId: string;
   currentPrice?: number;
+  priceHeight?: number; // Burn height of the oracle price used, when judged at a height
   strikePrice: number;
   reason?: string;
 }
@@ -69,4 +69,39 @@ export function satoshisToBTC(satoshis: number): number {
  */
 export function microUSDToUSD(microUSD: number): number {
   return microUSD / 100;
-} 
\ No newline at end of file
+}
+
+/**
+ * Status strings stored by policy-registry.clar (STATUS-* constants)
+ */
+export const ON_CHAIN_POLICY_STATUS = {
+  ACTIVE: "Active",
+  PENDING_SETTLEMENT: "PendingSettlement",
+  SETTLED_ITM: "Settled-ITM",
+  EXPIRED_OTM: "Expired-OTM",
+  CANCELLED: "Cancelled",
+} as const;
+
+/**
+ * Map an on-chain status string to the status stored on Convex policies
+ * 
+ * @param onChainStatus - Status string from the contract
+ * @returns Convex policy status, or undefined for unknown strings
+ */
+export function mapOnChainStatusToPolicyStatus(onChainStatus: string): string | undefined {
+  switch (onChainStatus) {
+    case ON_CHAIN_POLICY_STATUS.ACTIVE:
+      return "ACTIVE";
+    case ON_CHAIN_POLICY_STATUS.PENDING_SETTLEMENT:
+    case "Pending-Settlement": // Spelling used in the contract's map comments
+      return "EXERCISED"; // Exercised in the money, payout not yet made
+    case ON_CHAIN_POLICY_STATUS.SETTLED_ITM:
+      return "SETTLED";
+    case ON_CHAIN_POLICY_STATUS.EXPIRED_OTM:
+      return "EXPIRED";
+    case ON_CHAIN_POLICY_STATUS.CANCELLED:
+      return "CANCELLED";
+    default:
+      return undefined;
+  }
+}
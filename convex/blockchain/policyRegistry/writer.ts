@@ -6,10 +6,12 @@
 
 import { getContractByName } from "../common/contracts";
 import { getStacksNetwork, getCurrentNetworkConfig } from "../common/network";
-import { buildSignAndBroadcastTransaction } from "../common/transaction";
+import { buildSignAndBroadcastTransaction, buildTransaction, NonceManager } from "../common/transaction";
+import { FEE_OPERATION } from "../common/fees";
 import { 
   UpdatePolicyStatusParams, 
   ExpirePoliciesBatchParams,
+  ProcessPolicyExpirationParams,
   PremiumDistributionParams,
   PolicyWriteResponse,
   PolicyStatus,
@@ -21,6 +23,8 @@ import {
   TransactionParams,
   BlockchainWriteResponse
 } from "../common/types";
+import { TokenType } from "../liquidityPool/types";
+import { buildExpirationSettlementPostConditions } from "../liquidityPool/postConditions";
 
 import {
   uintCV,
@@ -45,6 +49,7 @@ interface ExtendedTransactionParams extends TransactionParams {
   senderKey?: string;
   postConditions?: any[];
   nonce?: number;
+  nonceManager?: NonceManager;
   anchorMode?: AnchorMode;
   postConditionMode?: PostConditionMode;
 }
@@ -122,6 +127,7 @@ export async function buildPolicyCreationTransaction(
       senderKey: params.senderKey,
       postConditions: params.postConditions || [],
       nonce: params.nonce,
+      nonceManager: params.nonceManager,
       anchorMode: params.anchorMode,
       networkEnv: params.network || DEFAULT_NETWORK_ENV
     });
@@ -197,6 +203,8 @@ export async function buildUpdatePolicyStatusTransaction(
       senderKey: params.senderKey,
       postConditions: params.postConditions || [],
       nonce: params.nonce,
+      nonceManager: params.nonceManager,
+      feeOperation: FEE_OPERATION.POLICY_STATUS_UPDATE,
       anchorMode: params.anchorMode,
       networkEnv: params.network || DEFAULT_NETWORK_ENV
     });
@@ -240,6 +248,8 @@ export async function buildExpirePoliciesBatchTransaction(
       senderKey: params.senderKey,
       postConditions: params.postConditions || [],
       nonce: params.nonce,
+      nonceManager: params.nonceManager,
+      feeOperation: FEE_OPERATION.EXPIRE_POLICIES_BATCH,
       anchorMode: params.anchorMode,
       networkEnv: params.network || DEFAULT_NETWORK_ENV
     });
@@ -251,6 +261,41 @@ export async function buildExpirePoliciesBatchTransaction(
   }
 }
 
+/**
+ * Builds (without broadcasting) a process-single-policy-at-expiration call. The registry prices the
+ * policy from the oracle at its expiration height and, when it is in the money, has the liquidity
+ * pool vault pay the settlement to the owner (process-settlement-at-expiration, registry-only).
+ * The caller signs and broadcasts so the attempt can be tracked against a leased nonce.
+ *
+ * @param params - Policy expiration parameters
+ * @returns BlockchainWriteResponse whose data is the built transaction
+ */
+export async function buildProcessPolicyExpirationTransaction(
+  params: ProcessPolicyExpirationParams
+): Promise<BlockchainWriteResponse> {
+  try {
+    const policyContract = getContractByName("policy-registry");
+    const token = params.collateralToken.toUpperCase() === TokenType.SBTC ? TokenType.SBTC : TokenType.STX;
+
+    const transaction = await buildTransaction({
+      contractAddress: policyContract.address,
+      contractName: policyContract.name,
+      functionName: "process-single-policy-at-expiration",
+      functionArgs: [uintCV(parseInt(params.policyId))],
+      ...buildExpirationSettlementPostConditions(token),
+      nonce: params.options?.nonce,
+      feeOperation: FEE_OPERATION.SETTLEMENT_PAYOUT,
+      networkEnv: params.network || DEFAULT_NETWORK_ENV
+    });
+    return { success: true, data: transaction };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to build expiration processing for policy ${params.policyId}: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
+
 /**
  * Builds and sends a transaction to distribute premium for a policy
  * 
@@ -277,6 +322,8 @@ export async function buildPremiumDistributionTransaction(
       senderKey: params.senderKey,
       postConditions: params.postConditions || [],
       nonce: params.nonce,
+      nonceManager: params.nonceManager,
+      feeOperation: FEE_OPERATION.PREMIUM_DISTRIBUTION,
       anchorMode: params.anchorMode,
       networkEnv: params.network || DEFAULT_NETWORK_ENV
     });
@@ -295,5 +342,6 @@ export default {
   buildPolicyCreationTransaction,
   buildUpdatePolicyStatusTransaction,
   buildExpirePoliciesBatchTransaction,
+  buildProcessPolicyExpirationTransaction,
   buildPremiumDistributionTransaction,
 }; 
\ No newline at end of file
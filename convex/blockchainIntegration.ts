@@ -106,28 +106,7 @@ const getOracleContractInfo = (): { contractAddress: string; contractName: strin
   return { contractAddress, contractName };
 };
 
-// --- Oracle Threshold Configuration ---
-
-/**
- * Configuration for update thresholds. These could eventually be moved to environment variables or 
- * a configuration table in the database for easier tuning without code changes.
- */
-const ORACLE_UPDATE_THRESHOLDS = {
-  // Minimum percentage change in price to trigger an update (e.g., 0.5 = 0.5%)
-  MIN_PRICE_CHANGE_PERCENT: 0.5,
-  
-  // Maximum time (in milliseconds) to allow between updates regardless of price change
-  // Default: 6 hours (in milliseconds)
-  MAX_TIME_BETWEEN_UPDATES_MS: 6 * 60 * 60 * 1000,
-  
-  // Minimum time (in milliseconds) to enforce between updates regardless of price change
-  // to prevent excessive updates/fees in volatile markets
-  // Default: 30 minutes (in milliseconds)
-  MIN_TIME_BETWEEN_UPDATES_MS: 30 * 60 * 1000,
-  
-  // Minimum number of price sources required for confidence in the update
-  MIN_SOURCE_COUNT: 3,
-};
+// Oracle update thresholds are per-deployment config, see services/oracle/oracleConfig.ts
 
 // Use the helper functions
 const network = getStacksNetwork();
@@ -0,0 +1,159 @@
+import { convexTest, TestConvex } from "convex-test";
+import { expect, test, describe, beforeEach, afterEach, vi } from "vitest";
+import { cvToHex, principalCV, stringAsciiCV, tupleCV, uintCV } from "@stacks/transactions";
+import schema from "./schema";
+import { internal } from "./_generated/api";
+import { getContractByName } from "./blockchain/common/contracts";
+import { NetworkEnvironment } from "./blockchain/common/types";
+import { RawContractEvent } from "./blockchain/common/eventListener";
+import { PolicyStatus } from "./policyRegistry/types";
+import { CHAIN_EVENT_STATUS } from "./chainEventIndexer";
+import { finalizeSettlementFromChain } from "./settlementJobs";
+
+vi.mock("./settlementJobs", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./settlementJobs")>()),
+  finalizeSettlementFromChain: vi.fn(),
+}));
+
+// Only the API URL is needed; the network classes differ between installed @stacks/network versions
+vi.mock("./blockchain/common/network", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./blockchain/common/network")>()),
+  getStacksNetwork: () => ({ coreApiUrl: "http://stacks.test" }),
+}));
+
+const registry = getContractByName("policy-registry", NetworkEnvironment.DEVNET);
+const vault = getContractByName("liquidity-pool-vault", NetworkEnvironment.DEVNET);
+const BLOCK_HASH = "0xblock";
+
+// Oldest first, as they were mined; the mocked API serves them newest first
+let chainEvents: Record<string, RawContractEvent[]>;
+
+const assetEvent = (n: number): RawContractEvent => ({ event_index: 0, event_type: "stx_asset", tx_id: `0x${n}` });
+
+const printEvent = (txId: string, contractId: string, payload: Record<string, any>): RawContractEvent => ({
+  event_index: 1,
+  event_type: "smart_contract_log",
+  tx_id: txId,
+  contract_log: { contract_id: contractId, topic: "print", value: { hex: cvToHex(tupleCV(payload)), repr: "" } },
+});
+
+function mockStacksApi(url: string): Response {
+  const { pathname, searchParams } = new URL(url);
+  const events = pathname.match(/\/extended\/v1\/contract\/([^/]+)\/events$/);
+  if (events) {
+    const newestFirst = [...(chainEvents[events[1]] ?? [])].reverse();
+    const offset = Number(searchParams.get("offset"));
+    const limit = Number(searchParams.get("limit"));
+    return Response.json({ limit, offset, results: newestFirst.slice(offset, offset + limit) });
+  }
+  if (pathname.startsWith("/extended/v1/tx/")) {
+    return Response.json({ tx_status: "success", block_height: 100, block_hash: BLOCK_HASH });
+  }
+  if (pathname.startsWith("/extended/v1/block/by_height/")) {
+    return Response.json({ hash: BLOCK_HASH });
+  }
+  return new Response("Not found", { status: 404 });
+}
+
+describe("chain event indexer", () => {
+  let t: TestConvex<typeof schema>;
+  const registryId = `${registry.address}.${registry.name}`;
+  const vaultId = `${vault.address}.${vault.name}`;
+
+  const indexedEvents = (contractId: string) =>
+    t.run(async (ctx) =>
+      (await ctx.db.query("chainEvents").collect()).filter((event) => event.contractId === contractId)
+    );
+  const getCursor = (contractId: string) => t.query(internal.chainEventIndexer.getCursor, { contractId });
+
+  beforeEach(() => {
+    vi.stubEnv("STACKS_NETWORK", "devnet");
+    vi.stubGlobal("fetch", vi.fn(async (url: string) => mockStacksApi(url)));
+    chainEvents = {};
+    t = convexTest(schema);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.mocked(finalizeSettlementFromChain).mockReset();
+  });
+
+  test("pages back to the cursor and ingests new events oldest first", async () => {
+    chainEvents[registryId] = Array.from({ length: 120 }, (_, n) => assetEvent(n));
+
+    const [first] = await t.action(internal.chainEventIndexer.indexChainEvents, {});
+    expect(first).toEqual({ contractKey: "policy-registry", ingested: 120 });
+    expect((await indexedEvents(registryId)).map((event) => event.txId)).toEqual(chainEvents[registryId].map((event) => event.tx_id));
+    expect(await getCursor(registryId)).toMatchObject({ processedCount: 120, lastTxId: "0x119", lastEventIndex: 0 });
+
+    chainEvents[registryId].push(...Array.from({ length: 60 }, (_, n) => assetEvent(120 + n)));
+    const [second] = await t.action(internal.chainEventIndexer.indexChainEvents, {});
+    expect(second).toEqual({ contractKey: "policy-registry", ingested: 60 });
+    expect(await indexedEvents(registryId)).toHaveLength(180);
+    expect(await getCursor(registryId)).toMatchObject({ processedCount: 180, lastTxId: "0x179" });
+
+    const [idle] = await t.action(internal.chainEventIndexer.indexChainEvents, {});
+    expect(idle.ingested).toBe(0);
+  });
+
+  describe("handlers", () => {
+    const settlementEvent = () =>
+      printEvent("0xsettle", vaultId, {
+        event: stringAsciiCV("policy-settlement-processed"),
+        "block-height": uintCV(100),
+        "policy-id": uintCV(7),
+        "token-id": stringAsciiCV("STX"),
+        "settlement-amount": uintCV(5_000_000),
+        "policy-owner": principalCV("ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM"),
+        "provider-count": uintCV(1),
+      });
+
+    beforeEach(async () => {
+      await t.run(async (ctx) => {
+        await ctx.db.insert("policies", {
+          owner: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+          policyType: "PUT",
+          positionType: "LONG_PUT",
+          protectedValue: 95_000,
+          protectionAmount: 1,
+          premium: 100,
+          creationTimestamp: Date.now(),
+          expirationHeight: 1_000,
+          status: PolicyStatus.ACTIVE,
+          collateralToken: "STX",
+          settlementToken: "STX",
+          onChainPolicyId: "7",
+        });
+      });
+      chainEvents[vaultId] = [settlementEvent()];
+    });
+
+    const policyEvents = () => t.run(async (ctx) => await ctx.db.query("policyEvents").collect());
+
+    test("a failing handler's writes are rolled back and the event is marked failed", async () => {
+      vi.mocked(finalizeSettlementFromChain).mockRejectedValueOnce(new Error("ledger unavailable"));
+
+      const results = await t.action(internal.chainEventIndexer.indexChainEvents, {});
+      expect(results.find((result) => result.contractKey === "liquidity-pool-vault")).toEqual({ contractKey: "liquidity-pool-vault", ingested: 1 });
+      const [event] = await indexedEvents(vaultId);
+      expect(event).toMatchObject({ status: CHAIN_EVENT_STATUS.FAILED, error: "ledger unavailable" });
+      expect(await policyEvents()).toHaveLength(0);
+    });
+
+    test("re-ingesting an orphaned event does not record its policy event twice", async () => {
+      vi.mocked(finalizeSettlementFromChain).mockResolvedValue({ finalized: true, tokens: ["STX"] });
+      await t.action(internal.chainEventIndexer.indexChainEvents, {});
+      expect(await policyEvents()).toHaveLength(1);
+
+      await t.mutation(internal.chainEventIndexer.rewindForReorg, { contractId: vaultId, fromBlockHeight: 0 });
+      expect((await indexedEvents(vaultId))[0].status).toBe(CHAIN_EVENT_STATUS.ORPHANED);
+
+      await t.action(internal.chainEventIndexer.indexChainEvents, {});
+      const [event] = await indexedEvents(vaultId);
+      expect(event.status).toBe(CHAIN_EVENT_STATUS.PROCESSED);
+      expect(await policyEvents()).toHaveLength(1);
+      expect(finalizeSettlementFromChain).toHaveBeenCalledTimes(2);
+    });
+  });
+});
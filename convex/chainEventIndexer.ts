@@ -0,0 +1,629 @@
+/**
+ * Chain Event Indexer
+ *
+ * Cron-driven replacement for the old in-memory setInterval subscriptions. Each run walks every
+ * indexed contract's events newest-first back to the stored cursor event, resolves the block each
+ * new event was mined in, and ingests them oldest-first one page per mutation so dedupe, handler
+ * side effects and the cursor advance commit together. Each handler runs in its own
+ * sub-transaction, so a failing handler leaves no partial writes behind. Reorgs are detected by
+ * comparing the cursor's block hash against the canonical chain; events from reorged blocks are
+ * marked orphaned and re-ingested if they reappear.
+ */
+
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery, query, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { getNetworkEnvironment } from "./blockchain/common/network";
+import { getContractByName } from "./blockchain/common/contracts";
+import {
+  decodePrintEvent,
+  fetchBlockHashAtHeight,
+  fetchContractEventsPage,
+  fetchTransactionAnchor,
+  RawContractEvent,
+  TransactionAnchor,
+} from "./blockchain/common/eventListener";
+import { NetworkEnvironment } from "./blockchain/common/types";
+import { decodePolicyRegistryPrintEvent, PolicyRegistryPrintEvent } from "./blockchain/policyRegistry/events";
+import { decodeLiquidityPoolPrintEvent } from "./blockchain/liquidityPool/events";
+import { LiquidityPoolVaultPrintEvent } from "./blockchain/liquidityPool/types";
+import { mapOnChainStatusToPolicyStatus } from "./blockchain/policyRegistry/utils";
+import { decodeOraclePrintEvent } from "./blockchain/oracle/events";
+import { OraclePrintEvent } from "./blockchain/oracle/types";
+import { recordOraclePriceUpdated } from "./oracleSubmissions";
+import { recordSignerConfirmation } from "./oracleSigners";
+import { finalizeSettlementFromChain } from "./settlementJobs";
+
+export const INDEXED_CONTRACTS = ["policy-registry", "liquidity-pool-vault", "oracle"] as const;
+export type IndexedContractKey = (typeof INDEXED_CONTRACTS)[number];
+
+// Per-contract outcome of one indexChainEvents run
+export interface ChainEventIndexerRun {
+  contractKey: string;
+  ingested: number;
+  error?: string;
+}
+
+const EVENT_PAGE_SIZE = 50;
+const MAX_PAGES_PER_RUN = 10; // Bounds one cron run; the next run continues from the cursor
+const MAX_SCAN_PAGES = 100; // How far back a run looks for the cursor event before giving up
+const REORG_LOOKBACK_BLOCKS = 6; // How far back to re-index once a reorg is detected
+const ON_CHAIN_SCALE = 100000000; // Prices and settlement amounts are scaled by 1e8 on-chain
+
+export const CHAIN_EVENT_STATUS = {
+  PROCESSED: "processed",
+  IGNORED: "ignored", // Indexed but no typed handler (debug/config prints, non-print events)
+  FAILED: "failed",
+  ORPHANED: "orphaned", // Block was reorged out of the canonical chain
+} as const;
+
+// --- Typed handlers ---
+
+interface ChainEventMeta {
+  txId: string;
+  eventIndex: number;
+  blockHeight: number;
+}
+
+type ChainEventHandler<E> = (ctx: MutationCtx, event: E, meta: ChainEventMeta) => Promise<void>;
+
+type HandlerMap<E extends { eventName: string }> = {
+  [K in E["eventName"]]?: ChainEventHandler<Extract<E, { eventName: K }>>;
+};
+
+async function findPolicyByOnChainId(ctx: MutationCtx, policyId: number) {
+  return await ctx.db
+    .query("policies")
+    .withIndex("by_onChainPolicyId", (q) => q.eq("onChainPolicyId", String(policyId)))
+    .first();
+}
+
+async function recordPolicyEvent(
+  ctx: MutationCtx,
+  policyId: number,
+  eventType: string,
+  data: any,
+  meta: ChainEventMeta
+) {
+  const policy = await findPolicyByOnChainId(ctx, policyId);
+  if (!policy) {
+    console.warn(`Chain event ${eventType} for unknown on-chain policy ${policyId} (tx ${meta.txId})`);
+    return null;
+  }
+  // An orphaned event that is mined again re-runs its handler; its policy event is already recorded
+  const recorded = await ctx.db
+    .query("policyEvents")
+    .withIndex("by_transactionId_eventIndex", (q) => q.eq("transactionId", meta.txId).eq("eventIndex", meta.eventIndex))
+    .first();
+  if (!recorded) {
+    await ctx.db.insert("policyEvents", {
+      policyConvexId: policy._id,
+      eventType,
+      data,
+      timestamp: Date.now(),
+      blockHeight: meta.blockHeight,
+      transactionId: meta.txId,
+      eventIndex: meta.eventIndex,
+    });
+  }
+  return policy;
+}
+
+const policyRegistryHandlers: HandlerMap<PolicyRegistryPrintEvent> = {
+  "policy-created": async (ctx, event, meta) => {
+    const policy = await recordPolicyEvent(ctx, event.policyId, "OnChainConfirmed", event, meta);
+    if (policy && policy.status !== "ACTIVE" && !policy.activationTimestamp) {
+      await ctx.db.patch(policy._id, { status: "ACTIVE", activationTimestamp: Date.now(), updatedAt: Date.now() });
+    }
+  },
+  "policy-status-updated": async (ctx, event, meta) => {
+    const policy = await recordPolicyEvent(ctx, event.policyId, "OnChainStatusUpdated", event, meta);
+    const newStatus = mapOnChainStatusToPolicyStatus(event.newStatus);
+    if (policy && newStatus && policy.status !== newStatus) {
+      await ctx.db.patch(policy._id, { status: newStatus, updatedAt: Date.now() });
+    }
+  },
+  "policy-expiration-processed-itm": async (ctx, event, meta) => {
+    const policy = await recordPolicyEvent(ctx, event.policyId, "OnChainExpirationProcessed", event, meta);
+    if (policy) {
+      await ctx.db.patch(policy._id, {
+        settlementPrice: event.expirationPriceScaled / ON_CHAIN_SCALE,
+        settlementAmount: event.settlementAmountScaled / ON_CHAIN_SCALE,
+        updatedAt: Date.now(),
+      });
+    }
+  },
+  "policy-expiration-processed-otm": async (ctx, event, meta) => {
+    const policy = await recordPolicyEvent(ctx, event.policyId, "OnChainExpirationProcessed", event, meta);
+    if (policy) {
+      await ctx.db.patch(policy._id, {
+        settlementPrice: event.expirationPriceScaled / ON_CHAIN_SCALE,
+        settlementAmount: 0,
+        updatedAt: Date.now(),
+      });
+    }
+  },
+  "policy-premium-distributed": async (ctx, event, meta) => {
+    const policy = await recordPolicyEvent(ctx, event.policyId, "OnChainPremiumDistributed", event, meta);
+    if (policy && !policy.premiumDistributed) {
+      await ctx.db.patch(policy._id, { premiumDistributed: true, updatedAt: Date.now() });
+    }
+  },
+};
+
+const liquidityPoolHandlers: HandlerMap<LiquidityPoolVaultPrintEvent> = {
+  "collateral-locked": async (ctx, event, meta) => {
+    await recordPolicyEvent(ctx, event.policyId, "OnChainCollateralLocked", event, meta);
+  },
+  "collateral-released": async (ctx, event, meta) => {
+    await recordPolicyEvent(ctx, event.policyId, "OnChainCollateralReleased", event, meta);
+  },
+  "premium-recorded-for-policy": async (ctx, event, meta) => {
+    const policy = await recordPolicyEvent(ctx, event.policyId, "OnChainPremiumRecorded", event, meta);
+    if (policy && !policy.premiumPaid) {
+      await ctx.db.patch(policy._id, { premiumPaid: true, updatedAt: Date.now() });
+    }
+  },
+  "provider-allocation": async (ctx, event, meta) => {
+    await recordPolicyEvent(ctx, event.policyId, "OnChainProviderAllocation", event, meta);
+  },
+  "premium-distributed-to-provider": async (ctx, event, meta) => {
+    await recordPolicyEvent(ctx, event.policyId, "OnChainProviderPremiumDistributed", event, meta);
+  },
+  "policy-settlement-processed": async (ctx, event, meta) => {
+    const policy = await recordPolicyEvent(ctx, event.policyId, "OnChainSettlementPaid", event, meta);
+    if (policy) {
+      await finalizeSettlementFromChain(ctx, policy._id, {
+        transactionId: meta.txId,
+        blockHeight: meta.blockHeight,
+        token: event.tokenId,
+        amountPaid: event.settlementAmount,
+        recipient: event.policyOwner,
+      });
+    }
+  },
+  // capital-deposited / capital-withdrawn are indexed for audit only: pool balances are
+  // finalized by poolTransactionWatcher from the pending_pool_transactions they belong to.
+};
+
+const oracleHandlers: HandlerMap<OraclePrintEvent> = {
+  "price-updated": async (ctx, event, meta) => {
+    if (await recordOraclePriceUpdated(ctx, event, meta)) {
+      await recordSignerConfirmation(ctx, event.submitter, Date.now());
+    }
+  },
+};
+
+/**
+ * Run the handler registered for a decoded event's name.
+ * @returns false when the event did not decode or has no handler
+ */
+async function runTypedHandler<E extends { eventName: string }>(
+  handlers: HandlerMap<E>,
+  ctx: MutationCtx,
+  event: E | null,
+  meta: ChainEventMeta
+): Promise<boolean> {
+  if (!event) return false;
+  // The map only pairs each event name with the handler for that variant
+  const handler = handlers[event.eventName as E["eventName"]] as ChainEventHandler<E> | undefined;
+  if (!handler) return false;
+  await handler(ctx, event, meta);
+  return true;
+}
+
+/**
+ * Decode a print for a contract and run its typed handler.
+ * @returns false when the event has no typed handler
+ */
+async function dispatchChainEvent(
+  ctx: MutationCtx,
+  contractKey: string,
+  eventName: string,
+  data: any,
+  meta: ChainEventMeta
+): Promise<boolean> {
+  const decoded = { eventName, data };
+  if (contractKey === "policy-registry") {
+    return await runTypedHandler(policyRegistryHandlers, ctx, decodePolicyRegistryPrintEvent(decoded), meta);
+  }
+  if (contractKey === "liquidity-pool-vault") {
+    return await runTypedHandler(liquidityPoolHandlers, ctx, decodeLiquidityPoolPrintEvent(decoded), meta);
+  }
+  if (contractKey === "oracle") {
+    return await runTypedHandler(oracleHandlers, ctx, decodeOraclePrintEvent(decoded), meta);
+  }
+  return false;
+}
+
+/**
+ * Run one event's handler. Called from ingestChainEvents through ctx.runMutation so that a
+ * handler that throws has its writes rolled back while the rest of the page still commits.
+ * @returns false when the event has no typed handler
+ */
+export const handleChainEvent = internalMutation({
+  args: {
+    contractKey: v.string(),
+    eventName: v.string(),
+    data: v.any(),
+    txId: v.string(),
+    eventIndex: v.number(),
+    blockHeight: v.number(),
+  },
+  handler: async (ctx, args): Promise<boolean> => {
+    return await dispatchChainEvent(ctx, args.contractKey, args.eventName, args.data, {
+      txId: args.txId,
+      eventIndex: args.eventIndex,
+      blockHeight: args.blockHeight,
+    });
+  },
+});
+
+// --- Cursor storage ---
+
+export const getCursor = internalQuery({
+  args: { contractId: v.string() },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("chainEventCursors")
+      .withIndex("by_contractId", (q) => q.eq("contractId", args.contractId))
+      .first();
+  },
+});
+
+const chainEventValidator = v.object({
+  txId: v.string(),
+  eventIndex: v.number(),
+  blockHeight: v.number(),
+  blockHash: v.string(),
+  eventName: v.string(), // "unknown" for events that are not tuple prints
+  data: v.any(),
+});
+
+/**
+ * Ingest one page of events (oldest first) and advance the cursor in the same transaction.
+ * expectedProcessedCount guards against two overlapping runs ingesting the same page.
+ */
+export const ingestChainEvents = internalMutation({
+  args: {
+    contractId: v.string(),
+    contractKey: v.string(),
+    expectedProcessedCount: v.number(),
+    events: v.array(chainEventValidator),
+  },
+  handler: async (ctx, args): Promise<{ ingested: number; duplicates?: number; skipped: boolean; message?: string }> => {
+    const now = Date.now();
+    const cursor = await ctx.db
+      .query("chainEventCursors")
+      .withIndex("by_contractId", (q) => q.eq("contractId", args.contractId))
+      .first();
+    const processedCount = cursor?.processedCount ?? 0;
+    if (processedCount !== args.expectedProcessedCount) {
+      return { ingested: 0, skipped: true, message: `Cursor moved to ${processedCount} (expected ${args.expectedProcessedCount}).` };
+    }
+
+    let ingested = 0;
+    let duplicates = 0;
+    for (const event of args.events) {
+      const existing = await ctx.db
+        .query("chainEvents")
+        .withIndex("by_txId_eventIndex", (q) => q.eq("txId", event.txId).eq("eventIndex", event.eventIndex))
+        .first();
+      if (existing && existing.status !== CHAIN_EVENT_STATUS.ORPHANED) {
+        duplicates++;
+        continue;
+      }
+
+      let status: string = CHAIN_EVENT_STATUS.IGNORED;
+      let error: string | undefined;
+      try {
+        const handled = await ctx.runMutation(internal.chainEventIndexer.handleChainEvent, {
+          contractKey: args.contractKey,
+          eventName: event.eventName,
+          data: event.data,
+          txId: event.txId,
+          eventIndex: event.eventIndex,
+          blockHeight: event.blockHeight,
+        });
+        if (handled) status = CHAIN_EVENT_STATUS.PROCESSED;
+      } catch (e: any) {
+        status = CHAIN_EVENT_STATUS.FAILED;
+        error = e?.message ?? String(e);
+        console.error(`Chain event handler failed for ${event.eventName} ${event.txId}:${event.eventIndex}:`, e);
+      }
+
+      const record = {
+        contractId: args.contractId,
+        txId: event.txId,
+        eventIndex: event.eventIndex,
+        eventName: event.eventName,
+        blockHeight: event.blockHeight,
+        blockHash: event.blockHash,
+        data: event.data,
+        status,
+        error,
+        processedAt: now,
+      };
+      if (existing) {
+        await ctx.db.replace(existing._id, record); // Orphaned event mined again
+      } else {
+        await ctx.db.insert("chainEvents", record);
+      }
+      ingested++;
+    }
+
+    const last = args.events[args.events.length - 1];
+    const cursorUpdate = {
+      processedCount: processedCount + args.events.length,
+      lastTxId: last?.txId ?? cursor?.lastTxId,
+      lastEventIndex: last?.eventIndex ?? cursor?.lastEventIndex,
+      lastBlockHeight: last?.blockHeight ?? cursor?.lastBlockHeight,
+      lastBlockHash: last?.blockHash ?? cursor?.lastBlockHash,
+      lastIndexedAt: now,
+      lastError: undefined,
+      updatedAt: now,
+    };
+    if (cursor) {
+      await ctx.db.patch(cursor._id, cursorUpdate);
+    } else {
+      await ctx.db.insert("chainEventCursors", {
+        contractId: args.contractId,
+        contractKey: args.contractKey,
+        ...cursorUpdate,
+      });
+    }
+
+    return { ingested, duplicates, skipped: false };
+  },
+});
+
+/**
+ * Orphan everything indexed at or above fromBlockHeight and move the cursor back before it.
+ */
+export const rewindForReorg = internalMutation({
+  args: {
+    contractId: v.string(),
+    fromBlockHeight: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const cursor = await ctx.db
+      .query("chainEventCursors")
+      .withIndex("by_contractId", (q) => q.eq("contractId", args.contractId))
+      .first();
+    if (!cursor) {
+      return { orphaned: 0 };
+    }
+
+    const affected = await ctx.db
+      .query("chainEvents")
+      .withIndex("by_contractId_blockHeight", (q) =>
+        q.eq("contractId", args.contractId).gte("blockHeight", args.fromBlockHeight)
+      )
+      .collect();
+    const live = affected.filter((e) => e.status !== CHAIN_EVENT_STATUS.ORPHANED);
+    for (const event of live) {
+      await ctx.db.patch(event._id, { status: CHAIN_EVENT_STATUS.ORPHANED });
+    }
+
+    // New tip: the latest event still on the canonical side of the rewind
+    const earlier = await ctx.db
+      .query("chainEvents")
+      .withIndex("by_contractId_blockHeight", (q) =>
+        q.eq("contractId", args.contractId).lt("blockHeight", args.fromBlockHeight)
+      )
+      .order("desc")
+      .filter((q) => q.neq(q.field("status"), CHAIN_EVENT_STATUS.ORPHANED))
+      .first();
+
+    await ctx.db.patch(cursor._id, {
+      processedCount: Math.max(0, cursor.processedCount - live.length),
+      lastTxId: earlier?.txId,
+      lastEventIndex: earlier?.eventIndex,
+      lastBlockHeight: earlier?.blockHeight,
+      lastBlockHash: earlier?.blockHash,
+      reorgCount: (cursor.reorgCount ?? 0) + 1,
+      updatedAt: Date.now(),
+    });
+
+    console.warn(
+      `Reorg detected for ${args.contractId}: orphaned ${live.length} events from block ${args.fromBlockHeight}. ` +
+        `Handler side effects of orphaned events are not reverted; affected policies are listed in chainEvents.`
+    );
+    return { orphaned: live.length };
+  },
+});
+
+export const recordIndexerError = internalMutation({
+  args: {
+    contractId: v.string(),
+    contractKey: v.string(),
+    error: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const cursor = await ctx.db
+      .query("chainEventCursors")
+      .withIndex("by_contractId", (q) => q.eq("contractId", args.contractId))
+      .first();
+    if (cursor) {
+      await ctx.db.patch(cursor._id, { lastError: args.error, updatedAt: Date.now() });
+    } else {
+      await ctx.db.insert("chainEventCursors", {
+        contractId: args.contractId,
+        contractKey: args.contractKey,
+        processedCount: 0,
+        lastError: args.error,
+        updatedAt: Date.now(),
+      });
+    }
+  },
+});
+
+// --- Indexer run ---
+
+/**
+ * Walk a contract's events newest-first from offset 0 until reaching the cursor event (or the
+ * contract's first event). New events landing mid-walk shift later pages, so repeats are dropped.
+ * @returns The events after the cursor, oldest first
+ * @throws Error if the cursor event (or, without a cursor, the first event) is not among the newest MAX_SCAN_PAGES pages
+ */
+async function fetchEventsSinceCursor(
+  contract: { address: string; name: string },
+  networkEnv: NetworkEnvironment,
+  cursor: { txId: string; eventIndex: number } | null
+): Promise<RawContractEvent[]> {
+  const collected: RawContractEvent[] = [];
+  const seen = new Set<string>();
+  for (let page = 0; page < MAX_SCAN_PAGES; page++) {
+    const { events } = await fetchContractEventsPage({
+      contractAddress: contract.address,
+      contractName: contract.name,
+      networkEnv,
+      limit: EVENT_PAGE_SIZE,
+      offset: page * EVENT_PAGE_SIZE,
+    });
+    for (const event of events) {
+      if (cursor && event.tx_id === cursor.txId && event.event_index === cursor.eventIndex) {
+        return collected.reverse();
+      }
+      const key = `${event.tx_id}:${event.event_index}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        collected.push(event);
+      }
+    }
+    if (events.length < EVENT_PAGE_SIZE) {
+      return collected.reverse();
+    }
+  }
+  const target = cursor ? `Cursor event ${cursor.txId}:${cursor.eventIndex}` : "The contract's first event";
+  throw new Error(`${target} is not among the newest ${MAX_SCAN_PAGES * EVENT_PAGE_SIZE} events`);
+}
+
+/**
+ * Index new events for every contract in INDEXED_CONTRACTS. Scheduled by crons.ts.
+ */
+export const indexChainEvents = internalAction({
+  args: {},
+  handler: async (ctx): Promise<ChainEventIndexerRun[]> => {
+    const networkEnv = getNetworkEnvironment();
+    const results: ChainEventIndexerRun[] = [];
+
+    for (const contractKey of INDEXED_CONTRACTS) {
+      const contract = getContractByName(contractKey, networkEnv);
+      const contractId = `${contract.address}.${contract.name}`;
+      let ingested = 0;
+
+      try {
+        let cursor = await ctx.runQuery(internal.chainEventIndexer.getCursor, { contractId });
+
+        // Reorg check: the block holding our last event must still be canonical
+        if (cursor?.lastBlockHeight !== undefined && cursor.lastBlockHash) {
+          const canonicalHash = await fetchBlockHashAtHeight(cursor.lastBlockHeight, networkEnv);
+          if (canonicalHash && canonicalHash !== cursor.lastBlockHash) {
+            await ctx.runMutation(internal.chainEventIndexer.rewindForReorg, {
+              contractId,
+              fromBlockHeight: Math.max(0, cursor.lastBlockHeight - REORG_LOOKBACK_BLOCKS),
+            });
+            cursor = await ctx.runQuery(internal.chainEventIndexer.getCursor, { contractId });
+          }
+        }
+
+        let processedCount = cursor?.processedCount ?? 0;
+        const newEvents = await fetchEventsSinceCursor(
+          contract,
+          networkEnv,
+          cursor?.lastTxId !== undefined && cursor.lastEventIndex !== undefined
+            ? { txId: cursor.lastTxId, eventIndex: cursor.lastEventIndex }
+            : null
+        );
+
+        const anchors = new Map<string, TransactionAnchor | null>();
+        for (let page = 0; page < MAX_PAGES_PER_RUN && page * EVENT_PAGE_SIZE < newEvents.length; page++) {
+          const pageEvents = newEvents.slice(page * EVENT_PAGE_SIZE, (page + 1) * EVENT_PAGE_SIZE);
+          const batch: Array<{ txId: string; eventIndex: number; blockHeight: number; blockHash: string; eventName: string; data: any }> = [];
+          for (const rawEvent of pageEvents) {
+            if (!anchors.has(rawEvent.tx_id)) {
+              anchors.set(rawEvent.tx_id, await fetchTransactionAnchor(rawEvent.tx_id, networkEnv));
+            }
+            const anchor = anchors.get(rawEvent.tx_id);
+            if (!anchor || anchor.blockHeight === undefined || !anchor.blockHash) {
+              break; // Not anchored yet; stop here so the cursor never skips past it
+            }
+            const decoded = decodePrintEvent(rawEvent);
+            batch.push({
+              txId: rawEvent.tx_id,
+              eventIndex: rawEvent.event_index,
+              blockHeight: anchor.blockHeight,
+              blockHash: anchor.blockHash,
+              eventName: decoded?.eventName ?? "unknown",
+              data: decoded?.data ?? rawEvent.contract_log?.value?.repr ?? null,
+            });
+          }
+          if (batch.length === 0) {
+            break;
+          }
+
+          const result = await ctx.runMutation(internal.chainEventIndexer.ingestChainEvents, {
+            contractId,
+            contractKey,
+            expectedProcessedCount: processedCount,
+            events: batch,
+          });
+          if (result.skipped) {
+            console.warn(`Chain indexer for ${contractId} yielded: ${result.message}`);
+            break;
+          }
+          ingested += result.ingested;
+          processedCount += batch.length;
+          if (batch.length < pageEvents.length) {
+            break;
+          }
+        }
+
+        results.push({ contractKey, ingested });
+      } catch (error: any) {
+        const message = error?.message ?? String(error);
+        console.error(`Chain indexer failed for ${contractId}:`, error);
+        await ctx.runMutation(internal.chainEventIndexer.recordIndexerError, { contractId, contractKey, error: message });
+        results.push({ contractKey, ingested, error: message });
+      }
+    }
+
+    return results;
+  },
+});
+
+// --- Queries ---
+
+/**
+ * Cursor position, last error and recent failed events per indexed contract.
+ */
+export const getChainIndexerStatus = query({
+  args: {},
+  handler: async (ctx) => {
+    const cursors = await ctx.db.query("chainEventCursors").collect();
+    const failedEvents = await ctx.db
+      .query("chainEvents")
+      .withIndex("by_status", (q) => q.eq("status", CHAIN_EVENT_STATUS.FAILED))
+      .order("desc")
+      .take(50);
+    return {
+      cursors: cursors.map((cursor) => ({
+        contractId: cursor.contractId,
+        contractKey: cursor.contractKey,
+        processedCount: cursor.processedCount,
+        lastBlockHeight: cursor.lastBlockHeight ?? null,
+        lastIndexedAt: cursor.lastIndexedAt ?? null,
+        lastError: cursor.lastError ?? null,
+        reorgCount: cursor.reorgCount ?? 0,
+      })),
+      failedEvents: failedEvents.map((event) => ({
+        txId: event.txId,
+        eventIndex: event.eventIndex,
+        eventName: event.eventName,
+        blockHeight: event.blockHeight,
+        error: event.error ?? null,
+      })),
+    };
+  },
+});
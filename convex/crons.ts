@@ -86,4 +86,52 @@ crons.interval(
   {}
 );
 
+// Track submitted oracle price transactions to confirmation or failure, resubmitting aborted ones
+crons.interval(
+  "check-oracle-submissions",
+  { minutes: 2 },
+  internal.oracleSubmissionWatcher.checkOracleSubmissions as any,
+  {}
+);
+
+// Index policy-registry, liquidity-pool-vault and oracle events from their stored cursors
+crons.interval(
+  "index-chain-events",
+  { minutes: 1 },
+  internal.chainEventIndexer.indexChainEvents as any,
+  {}
+);
+
+// Sync backend signer nonces with the node and fee-bump stuck or dropped transactions
+crons.interval(
+  "monitor-signer-nonces",
+  { minutes: 2 },
+  internal.signerNonces.monitorSignerNonces as any,
+  {}
+);
+
+// Sweep newly distributed premiums into capital for providers with auto-reinvest enabled
+crons.interval(
+  "auto-reinvest-premiums",
+  { hours: 1 },
+  internal.premiumReinvestmentJobs.autoReinvestPremiumsJob as any,
+  {}
+);
+
+// Deliver queued provider notifications (email, webhook, in-app)
+crons.interval(
+  "deliver-provider-notifications",
+  { minutes: 1 },
+  internal.notifications.delivery.deliverPendingNotifications as any,
+  {}
+);
+
+// Snapshot each provider's daily returns for the dashboard at 00:30 UTC
+crons.daily(
+  "snapshot-provider-yields",
+  { hourUTC: 0, minuteUTC: 30 },
+  internal.liquidityPool.yieldSnapshots.snapshotProviderYieldsJob as any,
+  {}
+);
+
 export default crons;
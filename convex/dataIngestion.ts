@@ -6,7 +6,10 @@
 import { v } from "convex/values";
 import { internalAction, internalMutation, query } from "./_generated/server";
 import { internal, api } from "./_generated/api"; // Import api for calling public queries
+import { Doc } from "./_generated/dataModel";
 import axios from "axios";
+import { PRICE_SOURCE_PARSERS, PRICE_SOURCE_VOLUME_PARSERS } from "./services/oracle/priceSources";
+import { aggregateSourcePrices, median, PriceAggregationConfig, SourcePrice } from "./services/oracle/priceAggregation";
 
 // --- Action to Fetch and Aggregate Current Prices ---
 
@@ -14,119 +17,76 @@ export const fetchAndAggregateCurrentPrices = internalAction({
   args: {},
   handler: async (ctx) => {
     console.log("Starting fetchAndAggregateCurrentPrices action...");
-    const sources = [
-      {
-        name: "coingecko",
-        url: "https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=usd",
-        weight: 0.2,
-        parse: (data: any) => data.bitcoin.usd
-      },
-      {
-        name: "binance",
-        url: "https://api.binance.us/api/v3/ticker/24hr?symbol=BTCUSD",
-        weight: 0.15,
-        parse: (data: any) => parseFloat(data.lastPrice)
-      },
-      {
-        name: "kraken",
-        url: "https://api.kraken.com/0/public/Ticker?pair=XBTUSD",
-        weight: 0.15,
-        parse: (data: any) => parseFloat(data.result.XXBTZUSD.c[0])
-      },
-      {
-        name: "coinbase",
-        url: "https://api.coinbase.com/v2/prices/BTC-USD/spot",
-        weight: 0.15,
-        parse: (data: any) => parseFloat(data.data.amount)
-      },
-      {
-        name: "bitstamp",
-        url: "https://www.bitstamp.net/api/v2/ticker/btcusd",
-        weight: 0.1,
-        parse: (data: any) => parseFloat(data.last)
-      },
-      {
-        name: "gemini",
-        url: "https://api.gemini.com/v1/pubticker/btcusd",
-        weight: 0.05,
-        parse: (data: any) => parseFloat(data.last)
-      },
-      {
-        name: "huobi",
-        url: "https://api.huobi.pro/market/detail/merged?symbol=btcusdt",
-        weight: 0.05,
-        parse: (data: any) => data.tick.close
-      },
-      {
-        name: "bitfinex",
-        url: "https://api-pub.bitfinex.com/v2/ticker/tBTCUSD",
-        weight: 0.1,
-        parse: (data: any) => parseFloat(data[6])
-      }
-    ];
+
+    // Sources come from the persisted registry; seed it on first run.
+    const registeredSources: Doc<"priceSources">[] = await ctx.runQuery(internal.services.oracle.priceSources.getPriceSources, {});
+    if (registeredSources.length === 0) {
+      console.log("Price source registry is empty. Seeding default sources...");
+      await ctx.runMutation(internal.services.oracle.priceSources.seedDefaultPriceSources, {});
+    }
+    const sources: Doc<"priceSources">[] = await ctx.runQuery(internal.services.oracle.priceSources.getFetchablePriceSources, {});
 
     const timestamp = Date.now();
-    const fetchedPrices: { source: string; price: number; weight: number }[] = [];
+    const fetchedPrices: SourcePrice[] = [];
+    const sourceResults: { name: string; success: boolean; latencyMs: number; price?: number; error?: string }[] = [];
     let fetchedCount = 0;
 
     console.log(`Fetching from ${sources.length} current price sources...`);
     for (const source of sources) {
+      const parse = PRICE_SOURCE_PARSERS[source.parser];
+      if (!parse) {
+        console.error(`No parser "${source.parser}" registered for source ${source.name}. Skipping.`);
+        sourceResults.push({ name: source.name, success: false, latencyMs: 0, error: `Unknown parser ${source.parser}` });
+        continue;
+      }
+
+      const startedAt = Date.now();
       try {
         const response = await axios.get(source.url);
+        const latencyMs = Date.now() - startedAt;
         fetchedCount++;
-        const price = source.parse(response.data);
+        const price = parse(response.data);
+        const parseVolume = PRICE_SOURCE_VOLUME_PARSERS[source.parser];
+        const parsedVolume = parseVolume ? parseVolume(response.data) : undefined;
+        const volume = typeof parsedVolume === 'number' && !isNaN(parsedVolume) ? parsedVolume : undefined;
 
         if (typeof price === 'number' && !isNaN(price)) {
           await ctx.runMutation(internal.dataIngestion.storePriceFeed, { 
             source: source.name,
             price,
             weight: source.weight,
-            timestamp
+            timestamp,
+            volume
           });
-          fetchedPrices.push({ source: source.name, price, weight: source.weight });
+          fetchedPrices.push({ source: source.name, price, weight: source.weight, volume });
+          sourceResults.push({ name: source.name, success: true, latencyMs, price });
         } else {
            console.warn(`Parsed invalid price (Value: ${price}, Type: ${typeof price}) from ${source.name}. Skipping.`);
+           sourceResults.push({ name: source.name, success: false, latencyMs, error: `Invalid price: ${price}` });
         }
       } catch (error: any) {
         console.error(`Failed to fetch or parse from ${source.name}: ${error.message}`);
+        sourceResults.push({ name: source.name, success: false, latencyMs: Date.now() - startedAt, error: error.message });
       }
     }
     console.log(`Finished fetching current prices. Attempted: ${fetchedCount}, Valid & Stored: ${fetchedPrices.length}`);
 
-    // --- Outlier Filtering using IQR ---
-    let pricesToAggregate = [...fetchedPrices];
-    if (pricesToAggregate.length >= 4) {
-        pricesToAggregate.sort((a, b) => a.price - b.price);
-        const q1Index = Math.floor(pricesToAggregate.length / 4);
-        const q3Index = Math.floor(pricesToAggregate.length * 3 / 4);
-        const q1 = pricesToAggregate[q1Index].price;
-        const q3 = pricesToAggregate[q3Index].price;
-        const iqr = q3 - q1;
-        const lowerBound = q1 - 1.5 * iqr;
-        const upperBound = q3 + 1.5 * iqr;
-        console.log(`IQR Outlier Detection: Count=${pricesToAggregate.length}, Q1=${q1}, Q3=${q3}, IQR=${iqr}, LowerBound=${lowerBound}, UpperBound=${upperBound}`);
-        const originalCount = pricesToAggregate.length;
-        pricesToAggregate = pricesToAggregate.filter(p => p.price >= lowerBound && p.price <= upperBound);
-        const removedCount = originalCount - pricesToAggregate.length;
-        if (removedCount > 0) {
-            console.warn(`Removed ${removedCount} outliers based on IQR.`);
-        }
-    } else {
-        console.log(`Skipping IQR outlier detection: Not enough valid prices (${pricesToAggregate.length} < 4).`);
-    }
-    // --- End Outlier Filtering ---
-
-    // Calculate weighted average using filtered prices
-    let weightedSum = 0;
-    let totalWeight = 0;
-    for (const item of pricesToAggregate) {
-        weightedSum += item.price * item.weight;
-        totalWeight += item.weight;
-    }
+    // Update per-source health (latency, failure streak, deviation from the median)
+    await ctx.runMutation(internal.services.oracle.priceSources.recordPriceSourceResults, {
+      timestamp,
+      medianPrice: fetchedPrices.length > 0 ? median(fetchedPrices.map(p => p.price)) : undefined,
+      results: sourceResults,
+    });
 
-    if (totalWeight > 0 && pricesToAggregate.length > 0) {
-      const aggregatedPrice = weightedSum / totalWeight;
-      console.log(`Calculated aggregated price: ${aggregatedPrice} (Sources: ${pricesToAggregate.length}) after outlier filtering.`);
+    // --- Aggregation (strategy, outlier policy and quorum from priceAggregationConfig) ---
+    const aggregationConfig: PriceAggregationConfig = await ctx.runQuery(internal.services.oracle.priceAggregation.getPriceAggregationConfigInternal, {});
+    const aggregation = aggregateSourcePrices(fetchedPrices, aggregationConfig);
+
+    if (!aggregation.quorumMet) {
+      console.warn(`Quorum not met: ${aggregation.agreeingSourceCount} agreeing source(s), ${aggregationConfig.minQuorum} required (fetched ${fetchedPrices.length}). Not writing aggregated price.`);
+    } else if (aggregation.price !== null) {
+      const aggregatedPrice = aggregation.price;
+      console.log(`Calculated aggregated price: ${aggregatedPrice} (Strategy: ${aggregation.strategy}, Sources: ${aggregation.sourcesUsed.length}) after outlier filtering.`);
 
       // Calculate volatility from historical data - Path needs update after volatility migration
       // For now, assume it's still in prices.ts or moved to analytics
@@ -145,11 +105,13 @@ export const fetchAndAggregateCurrentPrices = internalAction({
         price: aggregatedPrice,
         timestamp,
         volatility: volatilityToStore,
-        sourceCount: pricesToAggregate.length,
-        range24h: range24hToStore 
+        sourceCount: aggregation.sourcesUsed.length,
+        range24h: range24hToStore,
+        aggregationStrategy: aggregation.strategy,
+        outlierPolicy: aggregation.outlierPolicy,
+        sourcesUsed: aggregation.sourcesUsed,
+        sourcesExcluded: aggregation.sourcesExcluded,
       });
-    } else {
-      console.warn(`No sources returned valid data after filtering. Could not aggregate price.`);
     }
     console.log("fetchAndAggregateCurrentPrices action finished.");
   }
@@ -163,7 +125,8 @@ export const storePriceFeed = internalMutation({
     source: v.string(),
     price: v.number(),
     weight: v.number(),
-    timestamp: v.number()
+    timestamp: v.number(),
+    volume: v.optional(v.number())
   },
   handler: async (ctx, args) => {
     await ctx.db.insert("priceFeed", args); 
@@ -178,6 +141,10 @@ export const storeAggregatedPrice = internalMutation({
     volatility: v.number(),
     sourceCount: v.optional(v.number()),
     range24h: v.optional(v.number()),
+    aggregationStrategy: v.optional(v.string()),
+    outlierPolicy: v.optional(v.string()),
+    sourcesUsed: v.optional(v.array(v.string())),
+    sourcesExcluded: v.optional(v.array(v.string())),
   },
   handler: async (ctx, args) => {
     await ctx.db.insert("aggregatedPrices", args);
@@ -192,23 +159,15 @@ export const getLatestSourcePrices = query({
   handler: async (ctx) => {
     console.log("getLatestSourcePrices query running...");
     
-    // REVIEW: Should source list/weights be centralized?
-    const sources = [
-      { name: "coingecko", weight: 0.2 },
-      { name: "binance", weight: 0.15 },
-      { name: "kraken", weight: 0.15 },
-      { name: "coinbase", weight: 0.15 },
-      { name: "bitstamp", weight: 0.1 },
-      { name: "gemini", weight: 0.05 },
-      { name: "huobi", weight: 0.05 },
-      { name: "bitfinex", weight: 0.1 },
-    ];
+    const sources = await ctx.db.query("priceSources").collect();
 
     const latestSourceData: { 
       name: string;
       price: number;
       timestamp: number;
       weight: number;
+      isEnabled: boolean;
+      status: string;
     }[] = [];
 
     for (const source of sources) {
@@ -224,7 +183,9 @@ export const getLatestSourcePrices = query({
           name: latestEntry.source,
           price: latestEntry.price,
           timestamp: latestEntry.timestamp,
-          weight: source.weight 
+          weight: source.weight,
+          isEnabled: source.isEnabled,
+          status: source.status,
         });
       }
     }
@@ -8,6 +8,7 @@ import * as Types from "./liquidityPool/types";
 
 // Import functions from new modules
 import { getProviderBalances, getProviderBalanceSummary, getProviderDashboard } from "./liquidityPool/providerState";
+import { getProviderReturnSeries } from "./liquidityPool/yieldSnapshots";
 import { 
     checkWithdrawalEligibility, getMaxWithdrawalAmounts, 
     requestCapitalCommitment, confirmCapitalCommitment, 
@@ -35,6 +36,9 @@ import {
 // From providerState.ts
 export { getProviderBalances, getProviderBalanceSummary, getProviderDashboard };
 
+// From yieldSnapshots.ts
+export { getProviderReturnSeries };
+
 // From capitalManagement.ts
 export { 
     checkWithdrawalEligibility, getMaxWithdrawalAmounts, 
@@ -3,6 +3,7 @@ import { v } from "convex/values";
 import { internal, api } from "../_generated/api";
 import { Doc } from "../_generated/dataModel";
 import { ActionCtx, MutationCtx, QueryCtx } from "../_generated/server";
+import { isPrivateNetworkHost } from "../notifications/types";
 
 // TODO: Define any specific types/interfaces related to account management here
 // e.g., ProviderPreferences, RegistrationResult etc.
@@ -74,7 +75,12 @@ export const providerPreferenceFields = {
   notificationSettings: v.optional(v.object({
     emailOnSettlement: v.optional(v.boolean()),
     emailOnNewPolicyAllocated: v.optional(v.boolean()),
-    // Add other notification flags as needed
+    emailOnPremiumDistribution: v.optional(v.boolean()),
+    emailOnWithdrawalConfirmed: v.optional(v.boolean()),
+    emailAddress: v.optional(v.string()),
+    webhookUrl: v.optional(v.string()),
+    webhookEvents: v.optional(v.array(v.string())),
+    inAppEnabled: v.optional(v.boolean()),
   })),
   autoReinvestPremiums: v.optional(v.boolean()),
   // Add other preference fields here
@@ -86,6 +92,7 @@ export const saveProviderPreferences = internalMutation({
   args: {
     provider: v.string(),
     preferencesToUpdate: v.object(providerPreferenceFields), // Pass only the fields to be updated
+    webhookSecret: v.optional(v.string()), // Stored only if the provider has no webhook secret yet
   },
   handler: async (ctx, args) => {
     const existingPreferences = await ctx.db
@@ -93,7 +100,11 @@ export const saveProviderPreferences = internalMutation({
       .withIndex("by_provider", q => q.eq("provider", args.provider))
       .unique();
 
-    const updates = { ...args.preferencesToUpdate, lastUpdated: Date.now() };
+    const updates = {
+      ...args.preferencesToUpdate,
+      webhookSecret: existingPreferences?.webhookSecret ?? args.webhookSecret,
+      lastUpdated: Date.now(),
+    };
 
     if (existingPreferences) {
       await ctx.db.patch(existingPreferences._id, updates);
@@ -116,6 +127,31 @@ export interface UpdateProviderPreferencesResult {
   updatedPreferences?: Doc<"provider_preferences"> | null;
 }
 
+/**
+ * @returns why the URL can't be used for webhooks, or null when it can
+ */
+function validateWebhookUrl(webhookUrl: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(webhookUrl);
+  } catch {
+    return "webhookUrl must be an http(s) URL.";
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return "webhookUrl must be an http(s) URL.";
+  }
+  if (isPrivateNetworkHost(url.hostname)) {
+    return "webhookUrl must not point to a private, loopback or link-local address.";
+  }
+  return null;
+}
+
+// 32 random bytes, hex encoded. Generated here because actions get real randomness.
+function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
 export const updateProviderPreferences = action({
   args: providerPreferenceFields, // Reuse the fields definition for action arguments
   handler: async (ctx, preferencesToUpdate): Promise<UpdateProviderPreferencesResult> => {
@@ -131,10 +167,22 @@ export const updateProviderPreferences = action({
         return { success: false, message: "No preferences provided to update." };
     }
 
+    const notificationSettings = preferencesToUpdate.notificationSettings;
+    if (notificationSettings?.webhookUrl) {
+      const webhookError = validateWebhookUrl(notificationSettings.webhookUrl);
+      if (webhookError) {
+        return { success: false, message: webhookError };
+      }
+    }
+    if (notificationSettings?.emailAddress && !/^[^\s@]+@[^\s@]+$/.test(notificationSettings.emailAddress)) {
+      return { success: false, message: "emailAddress is not a valid email address." };
+    }
+
     try {
       const updatedPreferencesDoc = await ctx.runMutation(internal.liquidityPool.accountManagement.saveProviderPreferences, {
         provider: providerPrincipal,
         preferencesToUpdate: preferencesToUpdate,
+        webhookSecret: notificationSettings?.webhookUrl ? generateWebhookSecret() : undefined,
       });
 
       if (!updatedPreferencesDoc) {
@@ -0,0 +1,128 @@
+/**
+ * Liquidity Pool: Allocation Config
+ *
+ * Per-pool (token) choice of allocation strategy and the hard caps on how much of one provider's
+ * capital may back a single policy, a single expiration height or a single strike bucket.
+ * Pools without a saved config use pro-rata allocation with no caps.
+ */
+
+import { v } from "convex/values";
+import { internalQuery, mutation, query, QueryCtx } from "../_generated/server";
+import { Doc } from "../_generated/dataModel";
+import { DEFAULT_ALLOCATION_STRATEGY, isAllocationStrategy } from "./allocationStrategies";
+import { getAdminPrincipal } from "../adminAuth";
+
+export interface AllocationConfig {
+  token: string;
+  strategy: string;
+  maxProviderAmountPerPolicy: number | null; // null when uncapped
+  maxProviderAmountPerExpiration: number | null;
+  maxProviderAmountPerStrikeBucket: number | null;
+  strikeBucketSize: number; // USD
+}
+
+export const DEFAULT_STRIKE_BUCKET_SIZE = 1000;
+
+function toConfig(token: string, doc: Doc<"allocation_config"> | null): AllocationConfig {
+  return {
+    token,
+    strategy: doc?.strategy ?? DEFAULT_ALLOCATION_STRATEGY,
+    maxProviderAmountPerPolicy: doc?.maxProviderAmountPerPolicy ?? null,
+    maxProviderAmountPerExpiration: doc?.maxProviderAmountPerExpiration ?? null,
+    maxProviderAmountPerStrikeBucket: doc?.maxProviderAmountPerStrikeBucket ?? null,
+    strikeBucketSize: doc?.strikeBucketSize ?? DEFAULT_STRIKE_BUCKET_SIZE,
+  };
+}
+
+function setConfigField<K extends keyof AllocationConfig>(config: AllocationConfig, key: K, value: AllocationConfig[K] | undefined): void {
+  if (value !== undefined) {
+    config[key] = value;
+  }
+}
+
+/**
+ * Reads a pool's allocation config (defaults if none has been saved yet).
+ */
+export async function loadAllocationConfig(ctx: Pick<QueryCtx, "db">, token: string): Promise<AllocationConfig> {
+  const doc = await ctx.db
+    .query("allocation_config")
+    .withIndex("by_token", (q) => q.eq("token", token))
+    .unique();
+  return toConfig(token, doc);
+}
+
+export const getAllocationConfigInternal = internalQuery({
+  args: { token: v.string() },
+  handler: async (ctx, args): Promise<AllocationConfig> => {
+    return await loadAllocationConfig(ctx, args.token);
+  },
+});
+
+export const getAllocationConfig = query({
+  args: { token: v.string() },
+  handler: async (ctx, args): Promise<AllocationConfig> => {
+    return await loadAllocationConfig(ctx, args.token);
+  },
+});
+
+/**
+ * Admin-only update of a pool's allocation config. Omitted fields keep their current value;
+ * a cap set to null is removed.
+ */
+export const updateAllocationConfig = mutation({
+  args: {
+    token: v.string(),
+    strategy: v.optional(v.string()),
+    maxProviderAmountPerPolicy: v.optional(v.union(v.number(), v.null())),
+    maxProviderAmountPerExpiration: v.optional(v.union(v.number(), v.null())),
+    maxProviderAmountPerStrikeBucket: v.optional(v.union(v.number(), v.null())),
+    strikeBucketSize: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean; message: string; config?: AllocationConfig }> => {
+    const adminPrincipal = await getAdminPrincipal(ctx);
+    if (!adminPrincipal) {
+      return { success: false, message: "Admin access required." };
+    }
+
+    if (args.strategy !== undefined && !isAllocationStrategy(args.strategy)) {
+      return { success: false, message: `Unknown allocation strategy "${args.strategy}".` };
+    }
+    for (const key of ["maxProviderAmountPerPolicy", "maxProviderAmountPerExpiration", "maxProviderAmountPerStrikeBucket"] as const) {
+      const cap = args[key];
+      if (cap !== undefined && cap !== null && !(cap > 0)) {
+        return { success: false, message: `${key} must be a positive number or null.` };
+      }
+    }
+    if (args.strikeBucketSize !== undefined && !(args.strikeBucketSize > 0)) {
+      return { success: false, message: "strikeBucketSize must be a positive number." };
+    }
+
+    const existing = await ctx.db
+      .query("allocation_config")
+      .withIndex("by_token", (q) => q.eq("token", args.token))
+      .unique();
+    const config: AllocationConfig = { ...toConfig(args.token, existing) };
+    const patch: Partial<AllocationConfig> = args;
+    for (const key of Object.keys(patch) as (keyof AllocationConfig)[]) {
+      setConfigField(config, key, patch[key]);
+    }
+
+    const record = {
+      token: config.token,
+      strategy: config.strategy,
+      maxProviderAmountPerPolicy: config.maxProviderAmountPerPolicy ?? undefined,
+      maxProviderAmountPerExpiration: config.maxProviderAmountPerExpiration ?? undefined,
+      maxProviderAmountPerStrikeBucket: config.maxProviderAmountPerStrikeBucket ?? undefined,
+      strikeBucketSize: config.strikeBucketSize,
+      lastUpdated: Date.now(),
+      updatedBy: adminPrincipal,
+    };
+    if (existing) {
+      await ctx.db.replace(existing._id, record);
+    } else {
+      await ctx.db.insert("allocation_config", record);
+    }
+    console.log(`Admin ${adminPrincipal} updated allocation config for ${args.token}:`, config);
+    return { success: true, message: `Allocation config for ${args.token} updated.`, config };
+  },
+});
@@ -0,0 +1,72 @@
+import { expect, test, describe } from "vitest";
+import {
+  ALLOCATION_STRATEGIES,
+  AllocationCandidate,
+  AllocationToMake,
+  getAllocationStrategy,
+  isAllocationStrategy,
+  getStrikeBucket,
+} from "./allocationStrategies";
+
+const candidates: AllocationCandidate[] = [
+  { provider: "SP_ALICE", tier: "balanced", availableBalance: 600, utilization: 0.5, depositedAt: 3 },
+  { provider: "SP_BOB", tier: "balanced", availableBalance: 300, utilization: 0.1, depositedAt: 1 },
+  { provider: "SP_BOB", tier: "conservative", availableBalance: 100, utilization: 0, depositedAt: 1 },
+];
+
+const total = (allocations: AllocationToMake[]) => allocations.reduce((sum, a) => sum + a.amount, 0);
+const amountFor = (allocations: AllocationToMake[], provider: string, tier: string) =>
+  allocations.find(a => a.provider === provider && a.tier === tier)?.amount ?? 0;
+
+describe("allocation strategies", () => {
+  test("pro-rata splits by available balance", () => {
+    const allocations = getAllocationStrategy(ALLOCATION_STRATEGIES.PRO_RATA).allocate(candidates, 500, {});
+    expect(total(allocations)).toBe(500);
+    expect(amountFor(allocations, "SP_ALICE", "balanced")).toBe(300);
+    expect(amountFor(allocations, "SP_BOB", "balanced")).toBe(150);
+    expect(amountFor(allocations, "SP_BOB", "conservative")).toBe(50);
+  });
+
+  test("fifo fills the earliest provider first", () => {
+    const allocations = getAllocationStrategy(ALLOCATION_STRATEGIES.FIFO).allocate(candidates, 500, {});
+    expect(amountFor(allocations, "SP_BOB", "balanced") + amountFor(allocations, "SP_BOB", "conservative")).toBe(400);
+    expect(amountFor(allocations, "SP_ALICE", "balanced")).toBe(100);
+  });
+
+  test("lowest-utilization fills the least utilized buckets first", () => {
+    const allocations = getAllocationStrategy(ALLOCATION_STRATEGIES.LOWEST_UTILIZATION).allocate(candidates, 150, {});
+    expect(allocations).toEqual([
+      { provider: "SP_BOB", tier: "conservative", amount: 100 },
+      { provider: "SP_BOB", tier: "balanced", amount: 50 },
+    ]);
+  });
+
+  test("risk-balanced spreads evenly across tiers", () => {
+    const allocations = getAllocationStrategy(ALLOCATION_STRATEGIES.RISK_BALANCED).allocate(candidates, 160, {});
+    expect(amountFor(allocations, "SP_BOB", "conservative")).toBe(80);
+    expect(total(allocations)).toBe(160);
+  });
+
+  test("risk-balanced moves a short tier's share to the other tiers", () => {
+    const allocations = getAllocationStrategy(ALLOCATION_STRATEGIES.RISK_BALANCED).allocate(candidates, 800, {});
+    expect(amountFor(allocations, "SP_BOB", "conservative")).toBe(100);
+    expect(total(allocations)).toBe(800);
+  });
+
+  test.each(Object.values(ALLOCATION_STRATEGIES))("%s respects provider caps across tiers", (name) => {
+    const allocations = getAllocationStrategy(name).allocate(candidates, 1000, { SP_BOB: 150 });
+    expect(amountFor(allocations, "SP_BOB", "balanced") + amountFor(allocations, "SP_BOB", "conservative")).toBe(150);
+    expect(total(allocations)).toBe(750);
+  });
+
+  test("rejects unknown strategies", () => {
+    expect(() => getAllocationStrategy("random")).toThrow(/Unknown allocation strategy/);
+    expect(() => getAllocationStrategy("constructor")).toThrow(/Unknown allocation strategy/);
+    expect(isAllocationStrategy("toString")).toBe(false);
+  });
+
+  test("buckets strikes by width", () => {
+    expect(getStrikeBucket(95_500, 1000)).toBe(95);
+    expect(getStrikeBucket(95_999, 1000)).toBe(getStrikeBucket(95_000, 1000));
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Liquidity Pool: Allocation Strategies
+ *
+ * How a policy's collateral is split across the provider tier buckets that may back it.
+ * The strategy is chosen per token (see allocationConfig.ts). Every strategy respects the
+ * per-provider caps passed in, which are shared across a provider's tier buckets.
+ */
+
+export const ALLOCATION_STRATEGIES = {
+  PRO_RATA: "pro_rata", // In proportion to available balance, topped up from the largest buckets
+  FIFO: "fifo", // Earliest providers first
+  LOWEST_UTILIZATION: "lowest_utilization", // Least utilized buckets first
+  RISK_BALANCED: "risk_balanced", // Spread evenly across the compatible risk tiers, pro-rata within each
+} as const;
+
+export const DEFAULT_ALLOCATION_STRATEGY = ALLOCATION_STRATEGIES.PRO_RATA;
+
+// One provider tier bucket that can back the policy
+export interface AllocationCandidate {
+  provider: string;
+  tier: string;
+  availableBalance: number;
+  utilization: number; // Locked / deposited for the bucket, 0-1
+  depositedAt: number; // When the provider first deposited this token
+}
+
+export interface AllocationToMake {
+  provider: string;
+  tier: string;
+  amount: number;
+}
+
+// Most each provider may still take on for this policy; providers not listed are uncapped
+export type ProviderCaps = Record<string, number>;
+
+export interface AllocationStrategy {
+  name: string;
+  allocate(candidates: AllocationCandidate[], amount: number, providerCaps: ProviderCaps): AllocationToMake[];
+}
+
+/**
+ * Running allocations for one policy, tracking what is left in each bucket and under each provider's cap
+ */
+function createAllocationBook(providerCaps: ProviderCaps) {
+  const allocations: AllocationToMake[] = [];
+  const byProvider = new Map<string, number>();
+
+  const find = (c: AllocationCandidate) => allocations.find(a => a.provider === c.provider && a.tier === c.tier);
+
+  const room = (c: AllocationCandidate): number => {
+    const bucketRoom = c.availableBalance - (find(c)?.amount ?? 0);
+    const cap = providerCaps[c.provider];
+    const capRoom = cap === undefined ? Infinity : cap - (byProvider.get(c.provider) ?? 0);
+    return Math.max(0, Math.min(bucketRoom, capRoom));
+  };
+
+  const add = (c: AllocationCandidate, amount: number): number => {
+    const added = Math.min(amount, room(c));
+    if (added <= 0) return 0;
+    const existing = find(c);
+    if (existing) {
+      existing.amount += added;
+    } else {
+      allocations.push({ provider: c.provider, tier: c.tier, amount: added });
+    }
+    byProvider.set(c.provider, (byProvider.get(c.provider) ?? 0) + added);
+    return added;
+  };
+
+  return { allocations, room, add };
+}
+
+type AllocationBook = ReturnType<typeof createAllocationBook>;
+
+/**
+ * Allocates up to amount by filling candidates in the given order
+ * @returns the amount allocated
+ */
+function fillInOrder(book: AllocationBook, ordered: AllocationCandidate[], amount: number): number {
+  let remaining = amount;
+  for (const candidate of ordered) {
+    if (remaining <= 0) break;
+    remaining -= book.add(candidate, remaining);
+  }
+  return amount - remaining;
+}
+
+/**
+ * Allocates up to amount in proportion to each candidate's room, then tops up from the largest
+ * @returns the amount allocated
+ */
+function fillProRata(book: AllocationBook, candidates: AllocationCandidate[], amount: number): number {
+  const sorted = [...candidates].sort((a, b) => book.room(b) - book.room(a));
+  const totalRoom = sorted.reduce((sum, c) => sum + book.room(c), 0);
+  if (totalRoom <= 0 || amount <= 0) return 0;
+
+  let remaining = amount;
+  const shares = sorted.map(c => ({ candidate: c, share: Math.floor(amount * (book.room(c) / totalRoom)) }));
+  for (const { candidate, share } of shares) {
+    if (remaining <= 0) break;
+    remaining -= book.add(candidate, Math.min(share, remaining));
+  }
+  remaining -= fillInOrder(book, sorted, remaining);
+  return amount - remaining;
+}
+
+const proRataStrategy: AllocationStrategy = {
+  name: ALLOCATION_STRATEGIES.PRO_RATA,
+  allocate(candidates, amount, providerCaps) {
+    const book = createAllocationBook(providerCaps);
+    fillProRata(book, candidates, amount);
+    return book.allocations;
+  },
+};
+
+const fifoStrategy: AllocationStrategy = {
+  name: ALLOCATION_STRATEGIES.FIFO,
+  allocate(candidates, amount, providerCaps) {
+    const book = createAllocationBook(providerCaps);
+    fillInOrder(book, [...candidates].sort((a, b) => a.depositedAt - b.depositedAt), amount);
+    return book.allocations;
+  },
+};
+
+const lowestUtilizationStrategy: AllocationStrategy = {
+  name: ALLOCATION_STRATEGIES.LOWEST_UTILIZATION,
+  allocate(candidates, amount, providerCaps) {
+    const book = createAllocationBook(providerCaps);
+    const ordered = [...candidates].sort((a, b) => a.utilization - b.utilization || b.availableBalance - a.availableBalance);
+    fillInOrder(book, ordered, amount);
+    return book.allocations;
+  },
+};
+
+const riskBalancedStrategy: AllocationStrategy = {
+  name: ALLOCATION_STRATEGIES.RISK_BALANCED,
+  allocate(candidates, amount, providerCaps) {
+    const book = createAllocationBook(providerCaps);
+    const tiers = Array.from(new Set(candidates.map(c => c.tier)));
+    let remaining = amount;
+    for (const [index, tier] of tiers.entries()) {
+      // Even share of what is left, so a short tier's remainder moves on to the next tiers
+      const target = Math.floor(remaining / (tiers.length - index));
+      remaining -= fillProRata(book, candidates.filter(c => c.tier === tier), target);
+    }
+    fillProRata(book, candidates, remaining);
+    return book.allocations;
+  },
+};
+
+const STRATEGIES: Record<string, AllocationStrategy> = {
+  [ALLOCATION_STRATEGIES.PRO_RATA]: proRataStrategy,
+  [ALLOCATION_STRATEGIES.FIFO]: fifoStrategy,
+  [ALLOCATION_STRATEGIES.LOWEST_UTILIZATION]: lowestUtilizationStrategy,
+  [ALLOCATION_STRATEGIES.RISK_BALANCED]: riskBalancedStrategy,
+};
+
+// Own keys only, so inherited names like "constructor" or "toString" are not strategies
+export function isAllocationStrategy(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(STRATEGIES, name);
+}
+
+/**
+ * @throws when the strategy name is unknown
+ */
+export function getAllocationStrategy(name: string): AllocationStrategy {
+  if (!isAllocationStrategy(name)) {
+    throw new Error(`Unknown allocation strategy "${name}"`);
+  }
+  return STRATEGIES[name];
+}
+
+/**
+ * Index of the strike bucket a strike price (USD) falls in, for the per-strike-bucket cap
+ */
+export function getStrikeBucket(strikePrice: number, strikeBucketSize: number): number {
+  return strikeBucketSize > 0 ? Math.floor(strikePrice / strikeBucketSize) : strikePrice;
+}
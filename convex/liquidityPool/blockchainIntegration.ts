@@ -24,12 +24,7 @@ import {
   getPremiumBalances,
   checkSufficientCollateral
 } from "../blockchain/liquidityPool/reader";
-import {
-  subscribeToPremiumDistributedEvents,
-  subscribeToPremiumRecordedEvents,
-  subscribeToProviderPremiumDistributedEvents,
-  fetchPolicyEvents
-} from "../blockchain/liquidityPool/events";
+import { fetchPolicyEvents } from "../blockchain/liquidityPool/events";
 import { 
   TokenType, 
   DepositParams, 
@@ -336,18 +331,21 @@ export async function recordProviderPolicyAllocation(
  * 
  * @param provider The provider address
  * @param policyId The on-chain policy ID
+ * @param token The token type the premium is paid in (STX or SBTC)
  * @param premiumAmount The premium amount to distribute
  * @returns Transaction ID if successful
  */
 export async function distributeProviderPremium(
   provider: string,
   policyId: string,
+  token: TokenType,
   premiumAmount: number
 ): Promise<string> {
   // Create the transaction
   const txResult = await buildDistributeProviderPremiumTransaction({
     provider,
     policyId,
+    token,
     premiumAmount
   });
   
@@ -393,91 +391,6 @@ export async function getLiquidityPoolPremiumBalances(token: TokenType) {
   return result.data;
 }
 
-/**
- * Process premium distribution events
- * 
- * This function is meant to be called by a scheduled job to process all premium distribution events
- * and update the Convex database with the latest information.
- * 
- * @param updatedAt Timestamp to use for updating records
- */
-export async function processPremiumDistributionEvents(updatedAt: number) {
-  // Set up an event handler for premium distributed events
-  const onPremiumDistributed = async (event: any) => {
-    try {
-      // Find the pending premium distribution in Convex
-      const pendingDistribution = await internal.query.premiumDistributions.findFirst({
-        where: { policyId: event.policyId, status: 'pending' }
-      });
-      
-      // Skip if not found
-      if (!pendingDistribution) {
-        console.log(`No pending premium distribution found for policy ${event.policyId}`);
-        return;
-      }
-      
-      // Update the distribution status
-      await internal.mutation.premiumDistributions.update({
-        id: pendingDistribution._id,
-        data: {
-          status: 'distributed',
-          transactionId: event.txId,
-          distributedAt: updatedAt,
-          amount: event.premiumAmount,
-          updatedAt
-        }
-      });
-      
-      // Notify providers if this was a policy with provider allocations
-      await notifyProvidersOfPremiumDistribution(event.policyId);
-      
-      console.log(`Updated premium distribution for policy ${event.policyId}`);
-    } catch (error) {
-      console.error(`Error processing premium distributed event for policy ${event.policyId}:`, error);
-    }
-  };
-  
-  // Set up subscription (this would normally be done at app startup)
-  subscribeToPremiumDistributedEvents(onPremiumDistributed);
-}
-
-/**
- * Notify providers that a premium has been distributed for a policy they have allocation in
- * 
- * @param policyId The on-chain policy ID
- */
-async function notifyProvidersOfPremiumDistribution(policyId: string) {
-  try {
-    // Find all provider allocations for this policy
-    const allocations = await internal.query.policyAllocations.get({
-      where: { policyId }
-    });
-    
-    // Process each allocation
-    for (const allocation of allocations) {
-      // Calculate the provider's share of the premium
-      const premiumShare = allocation.premiumShare;
-      const provider = allocation.provider;
-      
-      // Create a premium distribution record for this provider
-      await internal.mutation.providerPremiumDistributions.create({
-        data: {
-          provider,
-          policyId,
-          amount: premiumShare,
-          status: 'pending',
-          createdAt: Date.now(),
-          updatedAt: Date.now()
-        }
-      });
-      
-      console.log(`Created pending provider premium distribution for provider ${provider} on policy ${policyId}`);
-    }
-  } catch (error) {
-    console.error(`Error notifying providers of premium distribution for policy ${policyId}:`, error);
-  }
-}
-
 /**
  * Process pending provider premium distributions
  * 
@@ -500,6 +413,7 @@ export async function processProviderPremiumDistributions() {
         const txId = await distributeProviderPremium(
           distribution.provider,
           distribution.policyId,
+          distribution.token as TokenType,
           distribution.amount
         );
         
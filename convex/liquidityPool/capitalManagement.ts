@@ -4,7 +4,13 @@ import { Id, Doc } from "../_generated/dataModel";
 import { internal, api } from "../_generated/api";
 import { ActionCtx, MutationCtx, QueryCtx } from "../_generated/server";
 import { TransactionType, TransactionStatus } from "./types";
+import {
+  adjustTierBalance, applyTierDraws, drawFromTierBalances, getTierBalances, getWithdrawalTierDraws,
+  loadProviderDefaultTier, normalizeProviderRiskTier, DEFAULT_PROVIDER_RISK_TIER, PROVIDER_RISK_TIERS,
+} from "./riskTiers";
 import type { PreparedStxTransferResult } from "../blockchainPreparation";
+import { enqueueProviderNotification } from "../notifications/outbox";
+import { NOTIFICATION_EVENTS } from "../notifications/types";
 
 interface CheckWithdrawalEligibilityResult {
   eligible: boolean;
@@ -262,6 +268,16 @@ export const requestCapitalCommitment = action({
       throw new Error("Deposit amount must be greater than zero");
     }
     
+    // Capital goes into the requested tier bucket, else the provider's riskTierComfort
+    let tier = normalizeProviderRiskTier(args.tier);
+    if (args.tier && !tier) {
+      throw new Error(`Unknown risk tier: ${args.tier}. Must be one of: ${Object.values(PROVIDER_RISK_TIERS).join(", ")}`);
+    }
+    if (!tier) {
+      const preferences = await ctx.runQuery(internal.liquidityPool.accountManagement.fetchProviderPreferences, { provider });
+      tier = normalizeProviderRiskTier(preferences?.riskTierComfort) ?? DEFAULT_PROVIDER_RISK_TIER;
+    }
+    
     // Generate a unique transaction ID for tracking
     const txId = `deposit-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
     
@@ -301,7 +317,7 @@ export const requestCapitalCommitment = action({
           provider,
           amount: args.amount,
           token: args.token,
-          tier: args.tier || "balanced",
+          tier,
           transactionDetails: transaction
         },
         status: TransactionStatus.PENDING,
@@ -361,12 +377,18 @@ export const confirmCapitalCommitment = mutation({
           q.eq(q.field("token"), pendingTx.token)
         )
         .unique();
+      const defaultTier = await loadProviderDefaultTier(ctx, pendingTx.provider);
+      const tier = normalizeProviderRiskTier(pendingTx.payload?.tier) ?? defaultTier;
       
       if (balance) {
         // Update existing balance
         await ctx.db.patch(balance._id, {
           total_deposited: balance.total_deposited + pendingTx.amount,
           available_balance: balance.available_balance + pendingTx.amount,
+          tier_balances: adjustTierBalance(getTierBalances(balance, defaultTier), tier, {
+            total_deposited: pendingTx.amount,
+            available_balance: pendingTx.amount,
+          }),
           last_updated: Date.now(),
         });
       } else {
@@ -380,6 +402,10 @@ export const confirmCapitalCommitment = mutation({
           earned_premiums: 0,
           withdrawn_premiums: 0,
           pending_premiums: 0,
+          tier_balances: adjustTierBalance([], tier, {
+            total_deposited: pendingTx.amount,
+            available_balance: pendingTx.amount,
+          }),
           last_updated: Date.now(),
         });
       }
@@ -394,7 +420,8 @@ export const confirmCapitalCommitment = mutation({
         timestamp: Date.now(),
         status: args.status,
         chain_tx_id: args.chainTxId,
-        description: `Deposited ${pendingTx.amount} ${pendingTx.token}`,
+        description: `Deposited ${pendingTx.amount} ${pendingTx.token} (${tier})`,
+        metadata: { risk_tier: tier },
       });
       
       console.log("[DEBUG] confirmCapitalCommitment: pendingTx.token for updatePoolMetrics:", pendingTx.token);
@@ -555,12 +582,23 @@ export const reserveWithdrawalAmount = internalMutation({
       throw new Error(`Insufficient available balance: ${balance.available_balance} < ${args.amount}`);
     }
     
+    // Take the amount out of the tier buckets and remember the split so that a
+    // confirmation or failure settles the same buckets
+    const tierBalances = getTierBalances(balance, await loadProviderDefaultTier(ctx, args.provider));
+    const tierDraws = drawFromTierBalances(tierBalances, args.amount);
+    
     // Update the balance to reserve the withdrawal amount
     await ctx.db.patch(balance._id, {
       available_balance: balance.available_balance - args.amount,
+      tier_balances: applyTierDraws(tierBalances, tierDraws, "available_balance", -1),
       last_updated: Date.now(),
     });
     
+    const pendingTx = await ctx.db.get(args.pendingTxId);
+    if (pendingTx) {
+      await ctx.db.patch(args.pendingTxId, { payload: { ...pendingTx.payload, tierDraws } });
+    }
+    
     return {
       provider: args.provider,
       token: args.token,
@@ -614,8 +652,10 @@ export const confirmWithdrawal = mutation({
       
       if (balance) {
         // Update existing balance to remove the withdrawn amount
+        const tierBalances = getTierBalances(balance, await loadProviderDefaultTier(ctx, pendingTx.provider));
         await ctx.db.patch(balance._id, {
           total_deposited: Math.max(0, balance.total_deposited - pendingTx.amount),
+          tier_balances: applyTierDraws(tierBalances, getWithdrawalTierDraws(pendingTx, tierBalances), "total_deposited", -1),
           last_updated: Date.now(),
         });
       }
@@ -632,6 +672,14 @@ export const confirmWithdrawal = mutation({
         chain_tx_id: args.chainTxId,
         description: `Withdrew ${pendingTx.amount} ${pendingTx.token}`,
       });
+
+      await enqueueProviderNotification(ctx, {
+        provider: pendingTx.provider,
+        eventType: NOTIFICATION_EVENTS.WITHDRAWAL_CONFIRMED,
+        title: "Withdrawal confirmed",
+        body: `Your withdrawal of ${pendingTx.amount} ${pendingTx.token} was confirmed on-chain.`,
+        data: { kind: "capital", amount: pendingTx.amount, token: pendingTx.token, chainTxId: args.chainTxId },
+      });
       
       console.log("[DEBUG] confirmWithdrawal: pendingTx.token for updatePoolMetrics:", pendingTx.token);
       // Schedule pool metrics update instead of directly calling runAction
@@ -651,8 +699,10 @@ export const confirmWithdrawal = mutation({
       
       if (balance) {
         // Restore the available balance
+        const tierBalances = getTierBalances(balance, await loadProviderDefaultTier(ctx, pendingTx.provider));
         await ctx.db.patch(balance._id, {
           available_balance: balance.available_balance + pendingTx.amount,
+          tier_balances: applyTierDraws(tierBalances, getWithdrawalTierDraws(pendingTx, tierBalances), "available_balance", 1),
           last_updated: Date.now(),
         });
       }
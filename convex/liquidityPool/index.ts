@@ -14,6 +14,8 @@ export * from './policyLifecycle';
 export * from './providerState';
 export * from './transactionManager';
 export * from './poolState';
+export * from './allocationConfig';
+export * from './yieldSnapshots';
 
 // Export types
 export * from './types';
@@ -0,0 +1,101 @@
+import { convexTest, TestConvex } from "convex-test";
+import { expect, test, describe, beforeEach, afterEach, vi } from "vitest";
+import schema from "../schema";
+import { internal } from "../_generated/api";
+import { Id } from "../_generated/dataModel";
+import { PolicyStatus } from "../policyRegistry/types";
+import { AllocationStatus } from "./types";
+
+const PROVIDER = "ST1PROVIDER";
+
+describe("createPolicyAllocations", () => {
+  let t: TestConvex<typeof schema>;
+
+  const insertPolicy = (expirationHeight: number, protectedValue: number) =>
+    t.run(async (ctx) =>
+      await ctx.db.insert("policies", {
+        owner: "ST1BUYER",
+        policyType: "PUT",
+        positionType: "LONG_PUT",
+        protectedValue,
+        protectionAmount: 1,
+        premium: 100,
+        creationTimestamp: Date.now(),
+        expirationHeight,
+        status: PolicyStatus.ACTIVE,
+        collateralToken: "STX",
+        settlementToken: "STX",
+      })
+    );
+
+  const allocate = (policyId: Id<"policies">, amount: number) =>
+    t.mutation(internal.liquidityPool.policyLifecycle.createPolicyAllocations, {
+      policyId,
+      token: "STX",
+      allocations: [{ provider: PROVIDER, tier: "balanced", amount }],
+    });
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    t = convexTest(schema);
+    await t.run(async (ctx) => {
+      await ctx.db.insert("provider_balances", {
+        provider: PROVIDER,
+        token: "STX",
+        total_deposited: 10_000,
+        available_balance: 10_000,
+        locked_balance: 0,
+        earned_premiums: 0,
+        withdrawn_premiums: 0,
+        pending_premiums: 0,
+        last_updated: Date.now(),
+        tier_balances: [{ tier: "balanced", total_deposited: 10_000, available_balance: 10_000, locked_balance: 0 }],
+      });
+      await ctx.db.insert("allocation_config", {
+        token: "STX",
+        strategy: "pro_rata",
+        maxProviderAmountPerPolicy: 1_000,
+        maxProviderAmountPerExpiration: 1_500,
+        maxProviderAmountPerStrikeBucket: 1_800,
+        strikeBucketSize: 1_000,
+        lastUpdated: Date.now(),
+        updatedBy: "admin",
+      });
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("locks the provider's capital within the caps", async () => {
+    const policyId = await insertPolicy(1_000, 95_000);
+    expect(await allocate(policyId, 1_000)).toHaveLength(1);
+    const balance = await t.run(async (ctx) => await ctx.db.query("provider_balances").unique());
+    expect(balance).toMatchObject({ available_balance: 9_000, locked_balance: 1_000 });
+  });
+
+  test("rejects more than the per-policy cap", async () => {
+    const policyId = await insertPolicy(1_000, 95_000);
+    await expect(allocate(policyId, 1_001)).rejects.toThrow("exceeds the provider's remaining cap of 1000");
+  });
+
+  test("counts the provider's other active allocations at the same expiration and strike bucket", async () => {
+    await allocate(await insertPolicy(1_000, 95_000), 1_000);
+
+    const sameExpiration = await insertPolicy(1_000, 80_000);
+    await expect(allocate(sameExpiration, 600)).rejects.toThrow("remaining cap of 500");
+    expect(await allocate(sameExpiration, 500)).toHaveLength(1);
+
+    const sameStrikeBucket = await insertPolicy(2_000, 95_500);
+    await expect(allocate(sameStrikeBucket, 801)).rejects.toThrow("remaining cap of 800");
+
+    const allocations = await t.run(async (ctx) =>
+      await ctx.db
+        .query("policy_allocations")
+        .withIndex("by_provider_status", (q) => q.eq("provider", PROVIDER).eq("status", AllocationStatus.ACTIVE))
+        .collect()
+    );
+    expect(allocations.map((a) => a.allocated_amount)).toEqual([1_000, 500]);
+  });
+});
@@ -4,6 +4,17 @@ import { internal, api } from "../_generated/api";
 import { Id, Doc, DataModel } from "../_generated/dataModel";
 import { ActionCtx, MutationCtx, QueryCtx } from "../_generated/server";
 import { AllocationStatus, TransactionType, TransactionStatus } from "./types";
+import { adjustTierBalance, getCompatibleProviderTiers, getTierBalances, loadProviderDefaultTier } from "./riskTiers";
+import {
+  AllocationCandidate,
+  AllocationToMake,
+  ProviderCaps,
+  getAllocationStrategy,
+  getStrikeBucket,
+} from "./allocationStrategies";
+import { loadAllocationConfig } from "./allocationConfig";
+import { enqueueProviderNotification } from "../notifications/outbox";
+import { NOTIFICATION_EVENTS } from "../notifications/types";
 
 // Define expected return types for internal functions to help with type inference
 export interface PolicyAllocationResult {
@@ -17,16 +28,27 @@ export interface PolicyAllocationResult {
   allocation_percentage: number;
   premium_share: number;
   premium_distributed: boolean;
+  riskTier?: string; // Provider tier bucket the collateral came from
 }
 
-interface EligibleProvider {
-  provider: string;
-  availableBalance: number;
+export interface AllocationPlan {
+  strategy: string;
+  requiredAmount: number;
+  allocatedAmount: number;
+  shortfall: number; // Collateral the eligible buckets could not cover within the caps
+  allocations: (AllocationToMake & { percentage: number })[];
+  providerCaps: ProviderCaps;
 }
 
-interface AllocationToMake {
-  provider: string;
+// Terms of the (possibly hypothetical) policy being allocated
+interface AllocationRequest {
+  token: string;
   amount: number;
+  policyId?: string;
+  riskTier?: string;
+  expirationHeight?: number;
+  strikePrice?: number;
+  strategy?: string;
 }
 
 interface AllocateCapitalResult {
@@ -72,6 +94,7 @@ export const getPolicyAllocations = internalQuery({
       allocation_percentage: alloc.allocation_percentage,
       premium_share: alloc.premium_share,
       premium_distributed: alloc.premium_distributed,
+      riskTier: alloc.risk_tier,
     }));
   },
 });
@@ -84,6 +107,7 @@ export const getPolicyAllocations = internalQuery({
  * @param token Token type (e.g., "STX", "sBTC")
  * @param insuredAmount Amount insured by the policy
  * @param premiumAmount Premium amount paid for the policy
+ * @param riskTier Policy risk tier; defaults to the tier stored on the policy
  * @returns Result object with allocations and providers involved
  */
 export const allocateCapitalForPolicy = internalAction({
@@ -93,30 +117,25 @@ export const allocateCapitalForPolicy = internalAction({
     token: v.string(),
     insuredAmount: v.number(),
     premiumAmount: v.number(),
+    riskTier: v.optional(v.string()),
   },
   handler: async (ctx: ActionCtx, args): Promise<AllocateCapitalResult> => {
     if (args.amount <= 0) {
       throw new Error("Allocation amount must be greater than zero");
     }
     
-    const eligibleProviders: EligibleProvider[] = await ctx.runQuery(
-      internal.liquidityPool.policyLifecycle.getEligibleProvidersForAllocation,
-      { token: args.token, requiredAmount: args.amount }
+    const plan: AllocationPlan = await ctx.runQuery(
+      internal.liquidityPool.policyLifecycle.planPolicyAllocation,
+      { token: args.token, amount: args.amount, policyId: args.policyId, riskTier: args.riskTier }
     );
     
-    if (eligibleProviders.length === 0) {
-      throw new Error(`No eligible providers with sufficient available balance for ${args.token}`);
+    if (plan.allocations.length === 0) {
+      throw new Error(`No eligible providers with available balance for ${args.token} in tiers compatible with policy ${args.policyId}`);
     }
-    
-    const allocationsToMake = await determineAllocationStrategy(
-      eligibleProviders,
-      args.amount,
-      args.token
-    );
-    
-    if (!allocationsToMake || allocationsToMake.length === 0) {
-      throw new Error("Failed to determine allocation strategy or no allocations possible.");
+    if (plan.shortfall > 0) {
+      throw new Error(`Could only allocate ${plan.allocatedAmount} of ${args.amount} ${args.token} for policy ${args.policyId} with the ${plan.strategy} strategy and provider caps`);
     }
+    const allocationsToMake: AllocationToMake[] = plan.allocations.map(({ provider, tier, amount }) => ({ provider, tier, amount }));
     
     const allocationIds: Id<"policy_allocations">[] = await ctx.runMutation(
       internal.liquidityPool.policyLifecycle.createPolicyAllocations,
@@ -126,7 +145,7 @@ export const allocateCapitalForPolicy = internalAction({
     for (const allocation of allocationsToMake) {
       await ctx.runMutation(
         internal.liquidityPool.policyLifecycle.logAllocationTransaction,
-        { provider: allocation.provider, policyId: args.policyId, amount: allocation.amount, token: args.token }
+        { provider: allocation.provider, policyId: args.policyId, amount: allocation.amount, token: args.token, tier: allocation.tier }
       );
     }
     
@@ -141,98 +160,211 @@ export const allocateCapitalForPolicy = internalAction({
 });
 
 /**
- * Get providers eligible for capital allocation based on available balance
+ * Provider tier buckets that can back a policy: buckets in a tier compatible with the
+ * policy's risk tier that have available balance
  */
-export const getEligibleProvidersForAllocation = internalQuery({
-  args: {
-    token: v.string(),
-    requiredAmount: v.number(),
-  },
-  handler: async (ctx: QueryCtx, args): Promise<EligibleProvider[]> => {
-    const providers = await ctx.db
-      .query("provider_balances")
-      .filter(q => q.eq(q.field("token"), args.token) && q.gt(q.field("available_balance"), 0))
-      .collect();
-    
-    const totalAvailable = providers.reduce((sum, p) => sum + p.available_balance, 0);
-    if (totalAvailable < args.requiredAmount) return [];
-    
-    return providers.map(p => ({ provider: p.provider, availableBalance: p.available_balance }));
-  },
-});
+async function loadAllocationCandidates(
+  ctx: QueryCtx,
+  token: string,
+  policyRiskTier: string | undefined
+): Promise<AllocationCandidate[]> {
+  const compatibleTiers = getCompatibleProviderTiers(policyRiskTier);
+  const balances = await ctx.db
+    .query("provider_balances")
+    .withIndex("by_token", q => q.eq("token", token))
+    .filter(q => q.gt(q.field("available_balance"), 0))
+    .collect();
+
+  const candidates: AllocationCandidate[] = [];
+  for (const balance of balances) {
+    const fallbackTier = await loadProviderDefaultTier(ctx, balance.provider);
+    for (const bucket of getTierBalances(balance, fallbackTier)) {
+      if (bucket.available_balance > 0 && compatibleTiers.includes(bucket.tier)) {
+        candidates.push({
+          provider: balance.provider,
+          tier: bucket.tier,
+          availableBalance: bucket.available_balance,
+          utilization: bucket.total_deposited > 0 ? bucket.locked_balance / bucket.total_deposited : 0,
+          depositedAt: balance._creationTime,
+        });
+      }
+    }
+  }
+  return candidates;
+}
 
 /**
- * Determine allocation strategy for a policy
- * Helper function that implements policy allocation algorithm
+ * Most each provider may still commit to a policy with the given terms under the pool's caps.
+ * Expiration and strike bucket caps count the provider's active allocations in the same pool.
  */
-async function determineAllocationStrategy(
-  eligibleProviders: EligibleProvider[],
-  totalRequiredAmount: number,
-  token: string
-): Promise<AllocationToMake[]> {
-  const sortedProviders = [...eligibleProviders].sort((a, b) => b.availableBalance - a.availableBalance);
-  const allocations: AllocationToMake[] = [];
-  let remainingAmount = totalRequiredAmount;
-  const totalAvailableAmongEligible = sortedProviders.reduce((sum, p) => sum + p.availableBalance, 0);
+async function computeProviderCaps(
+  ctx: Pick<QueryCtx, "db">,
+  providers: string[],
+  token: string,
+  caps: { perPolicy: number | null; perExpiration: number | null; perStrikeBucket: number | null; strikeBucketSize: number },
+  expirationHeight: number | undefined,
+  strikePrice: number | undefined
+): Promise<ProviderCaps> {
+  const checkExpiration = caps.perExpiration !== null && expirationHeight !== undefined;
+  const checkStrike = caps.perStrikeBucket !== null && strikePrice !== undefined;
+  const strikeBucket = strikePrice !== undefined ? getStrikeBucket(strikePrice, caps.strikeBucketSize) : null;
+  const policyCache = new Map<string, Doc<"policies"> | null>();
 
-  if (totalAvailableAmongEligible === 0 && totalRequiredAmount > 0) {
-    if (totalRequiredAmount > 0) {
-        console.warn(`No available balance among eligible providers to allocate for token ${token} with required amount ${totalRequiredAmount}`);
-        return [];
+  const providerCaps: ProviderCaps = {};
+  for (const provider of providers) {
+    let cap = caps.perPolicy ?? Infinity;
+    if (checkExpiration || checkStrike) {
+      const active = await ctx.db
+        .query("policy_allocations")
+        .withIndex("by_provider_status", q => q.eq("provider", provider).eq("status", AllocationStatus.ACTIVE))
+        .filter(q => q.eq(q.field("token"), token))
+        .collect();
+      let atExpiration = 0;
+      let inStrikeBucket = 0;
+      for (const allocation of active) {
+        const key = allocation.policy_id.toString();
+        if (!policyCache.has(key)) policyCache.set(key, await ctx.db.get(allocation.policy_id));
+        const policy = policyCache.get(key);
+        if (!policy) continue;
+        if (policy.expirationHeight === expirationHeight) atExpiration += allocation.allocated_amount;
+        if (getStrikeBucket(policy.protectedValue, caps.strikeBucketSize) === strikeBucket) inStrikeBucket += allocation.allocated_amount;
+      }
+      if (checkExpiration) cap = Math.min(cap, caps.perExpiration! - atExpiration);
+      if (checkStrike) cap = Math.min(cap, caps.perStrikeBucket! - inStrikeBucket);
     }
-    return [];
+    if (cap !== Infinity) providerCaps[provider] = Math.max(0, cap);
   }
-  if (totalRequiredAmount === 0) return [];
-
-  for (const provider of sortedProviders) {
-    if (remainingAmount <= 0) break;
-    const proportion = totalAvailableAmongEligible > 0 ? provider.availableBalance / totalAvailableAmongEligible : 0;
-    let allocationAmount = Math.floor(totalRequiredAmount * proportion);
-    allocationAmount = Math.min(allocationAmount, provider.availableBalance);
-    allocationAmount = Math.min(allocationAmount, remainingAmount);
+  return providerCaps;
+}
 
-    if (allocationAmount > 0) {
-      allocations.push({ provider: provider.provider, amount: allocationAmount });
-      remainingAmount -= allocationAmount;
-    }
+/**
+ * Fills in the terms not given explicitly from the policy when a policyId is passed
+ */
+async function resolveAllocationTerms(ctx: Pick<QueryCtx, "db">, request: AllocationRequest): Promise<AllocationRequest> {
+  if (!request.policyId) {
+    return request;
   }
+  const policyDocId = ctx.db.normalizeId("policies", request.policyId);
+  const policy = policyDocId ? await ctx.db.get(policyDocId) : null;
+  return {
+    ...request,
+    riskTier: request.riskTier ?? policy?.riskTier,
+    expirationHeight: request.expirationHeight ?? policy?.expirationHeight,
+    strikePrice: request.strikePrice ?? policy?.protectedValue,
+  };
+}
 
-  if (remainingAmount > 0) {
-    for (const provider of sortedProviders) {
-      if (remainingAmount <= 0) break;
-      const existingAllocationEntry = allocations.find(a => a.provider === provider.provider);
-      const currentlyAllocatedToProvider = existingAllocationEntry ? existingAllocationEntry.amount : 0;
-      const canAllocateMore = provider.availableBalance - currentlyAllocatedToProvider;
+/**
+ * Caps for the given providers under the pool's allocation config and the request's terms
+ */
+async function loadProviderCaps(ctx: Pick<QueryCtx, "db">, request: AllocationRequest, providers: string[]): Promise<ProviderCaps> {
+  const config = await loadAllocationConfig(ctx, request.token);
+  return await computeProviderCaps(
+    ctx,
+    providers,
+    request.token,
+    {
+      perPolicy: config.maxProviderAmountPerPolicy,
+      perExpiration: config.maxProviderAmountPerExpiration,
+      perStrikeBucket: config.maxProviderAmountPerStrikeBucket,
+      strikeBucketSize: config.strikeBucketSize,
+    },
+    request.expirationHeight,
+    request.strikePrice
+  );
+}
 
-      if (canAllocateMore > 0) {
-        const additionalAmount = Math.min(remainingAmount, canAllocateMore);
-        if (existingAllocationEntry) {
-          existingAllocationEntry.amount += additionalAmount;
-        } else {
-          allocations.push({ provider: provider.provider, amount: additionalAmount });
-        }
-        remainingAmount -= additionalAmount;
-      }
-    }
-  }
+/**
+ * Split a policy's collateral across provider tier buckets with the pool's strategy and caps.
+ * Terms not given explicitly are read from the policy when a policyId is passed.
+ */
+async function buildAllocationPlan(ctx: QueryCtx, request: AllocationRequest): Promise<AllocationPlan> {
+  request = await resolveAllocationTerms(ctx, request);
+  const config = await loadAllocationConfig(ctx, request.token);
+  const strategy = getAllocationStrategy(request.strategy ?? config.strategy);
+  const candidates = await loadAllocationCandidates(ctx, request.token, request.riskTier);
+  const providerCaps = await loadProviderCaps(ctx, request, Array.from(new Set(candidates.map(c => c.provider))));
 
-  if (remainingAmount > 0) {
-    console.warn(`Failed to allocate full amount for token ${token}. Remaining: ${remainingAmount}`);
+  const allocations = request.amount > 0 ? strategy.allocate(candidates, request.amount, providerCaps) : [];
+  const allocatedAmount = allocations.reduce((sum, a) => sum + a.amount, 0);
+  if (allocatedAmount < request.amount) {
+    console.warn(`Failed to allocate full amount for token ${request.token}. Remaining: ${request.amount - allocatedAmount}`);
   }
-  return allocations;
+  return {
+    strategy: strategy.name,
+    requiredAmount: request.amount,
+    allocatedAmount,
+    shortfall: Math.max(0, request.amount - allocatedAmount),
+    allocations: allocations.map(a => ({ ...a, percentage: request.amount > 0 ? (a.amount / request.amount) * 100 : 0 })),
+    providerCaps,
+  };
 }
 
+export const planPolicyAllocation = internalQuery({
+  args: {
+    token: v.string(),
+    amount: v.number(),
+    policyId: v.optional(v.string()),
+    riskTier: v.optional(v.string()),
+  },
+  handler: async (ctx: QueryCtx, args): Promise<AllocationPlan> => {
+    return await buildAllocationPlan(ctx, args);
+  },
+});
+
+/**
+ * Preview how a hypothetical policy's collateral would be split across providers,
+ * using the pool's strategy (or the one given) and caps. Nothing is written.
+ *
+ * @param amount Collateral the policy would require
+ * @param expirationHeight, strikePrice Terms used for the per-expiration and per-strike-bucket caps
+ */
+export const simulatePolicyAllocation = query({
+  args: {
+    token: v.string(),
+    amount: v.number(),
+    riskTier: v.optional(v.string()),
+    expirationHeight: v.optional(v.number()),
+    strikePrice: v.optional(v.number()),
+    strategy: v.optional(v.string()),
+  },
+  handler: async (ctx: QueryCtx, args): Promise<AllocationPlan> => {
+    if (args.amount <= 0) {
+      throw new Error("Allocation amount must be greater than zero");
+    }
+    return await buildAllocationPlan(ctx, args);
+  },
+});
+
+// Tolerance for floating-point drift between a plan's amounts and the caps it was built against
+const CAP_TOLERANCE = 1e-9;
+
 /**
  * Create policy allocations in the database
- * Records allocation of provider capital to a policy
+ * Records allocation of provider capital to a policy. The plan was built in an earlier query, so the
+ * provider caps are checked again here against the current allocations; the allocation is rejected
+ * when another policy took the room in between.
  */
 export const createPolicyAllocations = internalMutation({
   args: {
     policyId: v.string(),
-    allocations: v.array(v.object({ provider: v.string(), amount: v.number() })),
+    allocations: v.array(v.object({ provider: v.string(), tier: v.string(), amount: v.number() })),
     token: v.string(),
   },
   handler: async (ctx: MutationCtx, args): Promise<Id<"policy_allocations">[]> => {
+    const perProvider = new Map<string, number>();
+    for (const allocToMake of args.allocations) {
+      perProvider.set(allocToMake.provider, (perProvider.get(allocToMake.provider) ?? 0) + allocToMake.amount);
+    }
+    const terms = await resolveAllocationTerms(ctx, { token: args.token, amount: 0, policyId: args.policyId });
+    const providerCaps = await loadProviderCaps(ctx, terms, Array.from(perProvider.keys()));
+    for (const [provider, amount] of perProvider) {
+      const cap = providerCaps[provider];
+      if (cap !== undefined && amount > cap + CAP_TOLERANCE) {
+        throw new Error(`Allocation of ${amount} ${args.token} from ${provider} to policy ${args.policyId} exceeds the provider's remaining cap of ${cap}`);
+      }
+    }
+
     const allocationIds: Id<"policy_allocations">[] = [];
     for (const allocToMake of args.allocations) {
       const allocationId = await ctx.db.insert("policy_allocations", {
@@ -245,6 +377,7 @@ export const createPolicyAllocations = internalMutation({
         allocation_percentage: 0, 
         premium_share: 0, 
         premium_distributed: false,
+        risk_tier: allocToMake.tier,
       });
       
       const balance = await ctx.db.query("provider_balances")
@@ -252,15 +385,29 @@ export const createPolicyAllocations = internalMutation({
         .unique();
       
       if (!balance) throw new Error(`Provider balance not found: ${allocToMake.provider}, ${args.token}`);
-      if (balance.available_balance < allocToMake.amount) {
-        throw new Error(`Insufficient balance for ${allocToMake.provider}: Has ${balance.available_balance}, Needs ${allocToMake.amount}`);
+      const tierBalances = getTierBalances(balance, await loadProviderDefaultTier(ctx, allocToMake.provider));
+      const tierAvailable = tierBalances.find(b => b.tier === allocToMake.tier)?.available_balance ?? 0;
+      if (balance.available_balance < allocToMake.amount || tierAvailable < allocToMake.amount) {
+        throw new Error(`Insufficient ${allocToMake.tier} balance for ${allocToMake.provider}: Has ${tierAvailable}, Needs ${allocToMake.amount}`);
       }
       
       await ctx.db.patch(balance._id, {
         available_balance: balance.available_balance - allocToMake.amount,
         locked_balance: balance.locked_balance + allocToMake.amount,
+        tier_balances: adjustTierBalance(tierBalances, allocToMake.tier, {
+          available_balance: -allocToMake.amount,
+          locked_balance: allocToMake.amount,
+        }),
       });
       allocationIds.push(allocationId);
+
+      await enqueueProviderNotification(ctx, {
+        provider: allocToMake.provider,
+        eventType: NOTIFICATION_EVENTS.POLICY_ALLOCATED,
+        title: "Capital allocated to a new policy",
+        body: `${allocToMake.amount} ${args.token} of your ${allocToMake.tier} capital now backs policy ${args.policyId}.`,
+        data: { policyId: args.policyId, allocationId, amount: allocToMake.amount, token: args.token, tier: allocToMake.tier },
+      });
     }
     return allocationIds;
   },
@@ -276,6 +423,7 @@ export const logAllocationTransaction = internalMutation({
     policyId: v.string(),
     amount: v.number(),
     token: v.string(),
+    tier: v.optional(v.string()),
   },
   handler: async (ctx: MutationCtx, args): Promise<Id<"pool_transactions">> => {
     const txId = `alloc-${args.policyId}-${Date.now()}`;
@@ -287,8 +435,8 @@ export const logAllocationTransaction = internalMutation({
       token: args.token,
       timestamp: Date.now(),
       status: TransactionStatus.CONFIRMED,
-      description: `Allocated ${args.amount} ${args.token} to policy ${args.policyId}`,
-      metadata: { policy_id: args.policyId },
+      description: `Allocated ${args.amount} ${args.token} to policy ${args.policyId}${args.tier ? ` from ${args.tier} capital` : ""}`,
+      metadata: { policy_id: args.policyId, risk_tier: args.tier },
     });
   },
 });
@@ -391,14 +539,22 @@ export const releaseAllocationCollateral = internalMutation({
       
     if (!balance) throw new Error(`Prov balance not found: ${allocationRecord.provider}, ${allocationRecord.token}`);
     
+    const fallbackTier = await loadProviderDefaultTier(ctx, allocationRecord.provider);
+    const allocationTier = allocationRecord.risk_tier ?? fallbackTier;
+    const tierBalances = getTierBalances(balance, fallbackTier);
     if (args.reason === "EXERCISED") {
       await ctx.db.patch(balance._id, {
         locked_balance: Math.max(0, balance.locked_balance - allocationRecord.allocated_amount),
+        tier_balances: adjustTierBalance(tierBalances, allocationTier, { locked_balance: -allocationRecord.allocated_amount }),
       });
     } else {
       await ctx.db.patch(balance._id, {
         locked_balance: Math.max(0, balance.locked_balance - allocationRecord.allocated_amount),
         available_balance: balance.available_balance + allocationRecord.allocated_amount,
+        tier_balances: adjustTierBalance(tierBalances, allocationTier, {
+          locked_balance: -allocationRecord.allocated_amount,
+          available_balance: allocationRecord.allocated_amount,
+        }),
       });
     }
     
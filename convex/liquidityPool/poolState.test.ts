@@ -0,0 +1,71 @@
+import { convexTest, TestConvex } from "convex-test";
+import { expect, test, describe } from "vitest";
+import schema from "../schema";
+import { api } from "../_generated/api";
+import { PolicyStatus } from "../policyRegistry/types";
+import { STANDARD_VOLATILITY_TIMEFRAMES, VOLATILITY_ESTIMATORS } from "../services/oracle/volatilityService";
+
+const CURRENT_BURN_HEIGHT = 100_000;
+
+async function seedMarket(t: TestConvex<typeof schema>) {
+  await t.run(async (ctx) => {
+    const now = Date.now();
+    await ctx.db.insert("aggregatedPrices", { price: 100_000, timestamp: now, volatility: 0.6 });
+    for (const timeframe of STANDARD_VOLATILITY_TIMEFRAMES) {
+      await ctx.db.insert("historicalVolatility", {
+        period: timeframe,
+        timeframe,
+        volatility: 0.6,
+        timestamp: now,
+        calculationMethod: VOLATILITY_ESTIMATORS.GARCH,
+      });
+    }
+  });
+}
+
+async function seedPolicy(t: TestConvex<typeof schema>, status: string) {
+  await t.run(async (ctx) => {
+    await ctx.db.insert("policies", {
+      owner: "ST1BUYER",
+      policyType: "PUT",
+      positionType: "LONG_PUT",
+      protectedValue: 95_000,
+      protectionAmount: 1,
+      premium: 2_000,
+      creationTimestamp: Date.now(),
+      expirationHeight: CURRENT_BURN_HEIGHT + 30 * 144,
+      status,
+      collateralToken: "STX",
+      settlementToken: "STX",
+    });
+  });
+}
+
+describe("getPoolGreeksExposure", () => {
+  test("includes active policies in the pool's exposure", async () => {
+    const t = convexTest(schema);
+    await seedMarket(t);
+    await seedPolicy(t, PolicyStatus.ACTIVE);
+    await seedPolicy(t, PolicyStatus.EXPIRED);
+
+    const exposures = await t.query(api.liquidityPool.poolState.getPoolGreeksExposure, {
+      currentBurnHeight: CURRENT_BURN_HEIGHT,
+    });
+    expect(exposures).toHaveLength(1);
+    expect(exposures[0].token).toBe("STX");
+    expect(exposures[0].policyCount).toBe(1);
+    // The pool is short the put, so its delta is positive
+    expect(exposures[0].delta).toBeGreaterThan(0);
+  });
+
+  test("reports no exposure without active policies", async () => {
+    const t = convexTest(schema);
+    await seedMarket(t);
+    await seedPolicy(t, PolicyStatus.EXPIRED);
+
+    const exposures = await t.query(api.liquidityPool.poolState.getPoolGreeksExposure, {
+      currentBurnHeight: CURRENT_BURN_HEIGHT,
+    });
+    expect(exposures).toEqual([]);
+  });
+});
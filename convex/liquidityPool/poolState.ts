@@ -1,8 +1,15 @@
 import { query, internalAction, internalQuery, internalMutation, MutationCtx, QueryCtx, ActionCtx } from "../_generated/server";
 import { v } from "convex/values";
 import { Doc, Id } from "../_generated/dataModel";
-import { internal } from "../_generated/api";
+import { api, internal } from "../_generated/api";
 import { AllocationStatus, PremiumDistributionStatus } from "./types";
+import { PolicyStatus } from "../policyRegistry/types";
+import { PremiumGreeks } from "../types";
+import { calculateOptionGreeks } from "../services/oracle/pricingEngine";
+import { getTenorMatchedVolatility } from "../services/oracle/volatilityTermStructure";
+import { getTierBalances, loadProviderDefaultTier, PROVIDER_RISK_TIERS } from "./riskTiers";
+
+const BLOCKS_PER_DAY = 144; // ~10 minute burn blocks
 
 // CV-LP-208: Get pool metrics for all tokens or a specific token.
 export const getPoolMetrics = query({
@@ -126,6 +133,53 @@ export const getProviderBalancesForToken = internalQuery({
   },
 });
 
+export interface TierMetrics {
+  tier: string;
+  total_liquidity: number;
+  available_liquidity: number;
+  locked_liquidity: number;
+  total_providers: number;
+  utilization_rate: number;
+}
+
+/**
+ * Liquidity per provider risk tier for one token. Balances without tier buckets
+ * count towards the provider's riskTierComfort tier.
+ */
+export const getTierMetricsForToken = internalQuery({
+  args: {
+    token: v.string(),
+  },
+  handler: async (ctx: QueryCtx, args): Promise<TierMetrics[]> => {
+    const balances = await ctx.db
+      .query("provider_balances")
+      .withIndex("by_token", q => q.eq("token", args.token))
+      .collect();
+
+    const byTier = new Map<string, TierMetrics & { providers: Set<string> }>();
+    for (const tier of Object.values(PROVIDER_RISK_TIERS)) {
+      byTier.set(tier, { tier, total_liquidity: 0, available_liquidity: 0, locked_liquidity: 0, total_providers: 0, utilization_rate: 0, providers: new Set() });
+    }
+    for (const balance of balances) {
+      const fallbackTier = balance.tier_balances?.length ? undefined : await loadProviderDefaultTier(ctx, balance.provider);
+      for (const bucket of getTierBalances(balance, fallbackTier)) {
+        const metrics = byTier.get(bucket.tier);
+        if (!metrics) continue;
+        metrics.total_liquidity += bucket.total_deposited;
+        metrics.available_liquidity += bucket.available_balance;
+        metrics.locked_liquidity += bucket.locked_balance;
+        if (bucket.total_deposited > 0) metrics.providers.add(balance.provider);
+      }
+    }
+
+    return Array.from(byTier.values()).map(({ providers, ...metrics }) => ({
+      ...metrics,
+      total_providers: providers.size,
+      utilization_rate: metrics.total_liquidity > 0 ? (metrics.locked_liquidity / metrics.total_liquidity) * 100 : 0,
+    }));
+  },
+});
+
 export const getActivePolicyCountForToken = internalQuery({
   args: {
     token: v.string(),
@@ -185,6 +239,120 @@ export const getPremiumStatsForToken = internalQuery({
   },
 });
 
+// Net Greeks of the option book written by a pool, from the pool's (short) perspective.
+interface PoolGreeksExposure extends PremiumGreeks {
+  token: string;
+  policyCount: number;
+  spotPrice: number;
+  currentBurnHeight: number;
+  timestamp: number;
+}
+
+/**
+ * Re-prices every Active policy collateralised in `token` at the latest aggregated price and the
+ * tenor-matched volatility for its remaining life, and sums the Greeks. Buyer positions are long,
+ * so the pool's exposure is the negated sum (e.g. a positive net delta for a short-put book).
+ */
+async function computePoolGreeksExposure(
+  ctx: QueryCtx,
+  token: string,
+  currentBurnHeight: number
+): Promise<PoolGreeksExposure | null> {
+  const latestPrice = await ctx.db.query("aggregatedPrices").order("desc").first();
+  if (!latestPrice) {
+    console.warn(`[computePoolGreeksExposure] No aggregated price available; cannot compute Greeks for ${token}.`);
+    return null;
+  }
+
+  const activePolicies = await ctx.db
+    .query("policies")
+    .withIndex("by_status", (q) => q.eq("status", PolicyStatus.ACTIVE))
+    .filter((q) => q.eq(q.field("collateralToken"), token))
+    .collect();
+
+  const exposure: PoolGreeksExposure = {
+    token,
+    policyCount: 0,
+    spotPrice: latestPrice.price,
+    currentBurnHeight,
+    timestamp: Date.now(),
+    delta: 0,
+    gamma: 0,
+    vega: 0,
+    theta: 0,
+    rho: 0,
+  };
+  const volatilityByTenor = new Map<number, number | null>();
+
+  for (const policy of activePolicies) {
+    const remainingDays = Math.max(0, (policy.expirationHeight - currentBurnHeight) / BLOCKS_PER_DAY);
+    const tenorKey = Math.max(1, Math.round(remainingDays));
+    if (!volatilityByTenor.has(tenorKey)) {
+      const matched = await getTenorMatchedVolatility(ctx, tenorKey);
+      volatilityByTenor.set(tenorKey, matched?.volatility ?? null);
+    }
+    const volatility = volatilityByTenor.get(tenorKey);
+    if (!volatility) continue;
+
+    const greeks = calculateOptionGreeks({
+      currentPrice: latestPrice.price,
+      strikePrice: policy.protectedValue,
+      volatility,
+      duration: remainingDays,
+      amount: policy.protectionAmount,
+      policyType: policy.policyType,
+    });
+    exposure.delta -= greeks.delta;
+    exposure.gamma -= greeks.gamma;
+    exposure.vega -= greeks.vega;
+    exposure.theta -= greeks.theta;
+    exposure.rho -= greeks.rho;
+    exposure.policyCount++;
+  }
+
+  return exposure;
+}
+
+export const getPoolGreeksExposureInternal = internalQuery({
+  args: {
+    token: v.string(),
+    currentBurnHeight: v.number(),
+  },
+  handler: async (ctx: QueryCtx, args) => {
+    return await computePoolGreeksExposure(ctx, args.token, args.currentBurnHeight);
+  },
+});
+
+/**
+ * Live net Greeks for one pool (token), or for every token with Active policies.
+ * The caller supplies the current burn height, which determines each policy's remaining tenor.
+ */
+export const getPoolGreeksExposure = query({
+  args: {
+    currentBurnHeight: v.number(),
+    token: v.optional(v.string()),
+  },
+  handler: async (ctx: QueryCtx, args) => {
+    let tokens: string[];
+    if (args.token) {
+      tokens = [args.token];
+    } else {
+      const activePolicies = await ctx.db
+        .query("policies")
+        .withIndex("by_status", (q) => q.eq("status", PolicyStatus.ACTIVE))
+        .collect();
+      tokens = Array.from(new Set(activePolicies.map((p) => p.collateralToken)));
+    }
+
+    const exposures: PoolGreeksExposure[] = [];
+    for (const token of tokens) {
+      const exposure = await computePoolGreeksExposure(ctx, token, args.currentBurnHeight);
+      if (exposure) exposures.push(exposure);
+    }
+    return exposures;
+  },
+});
+
 export const updatePoolMetricsRecord = internalMutation({
   args: {
     token: v.string(),
@@ -198,6 +366,19 @@ export const updatePoolMetricsRecord = internalMutation({
     annualized_yield: v.number(),
     avg_policy_duration: v.optional(v.number()),
     utilization_rate: v.number(),
+    net_delta: v.optional(v.number()),
+    net_gamma: v.optional(v.number()),
+    net_vega: v.optional(v.number()),
+    net_theta: v.optional(v.number()),
+    net_rho: v.optional(v.number()),
+    tier_metrics: v.optional(v.array(v.object({
+      tier: v.string(),
+      total_liquidity: v.number(),
+      available_liquidity: v.number(),
+      locked_liquidity: v.number(),
+      total_providers: v.number(),
+      utilization_rate: v.number(),
+    }))),
   },
   handler: async (ctx: MutationCtx, args) => { // Added MutationCtx
     return await ctx.db.insert("pool_metrics", {
@@ -213,6 +394,12 @@ export const updatePoolMetricsRecord = internalMutation({
       annualized_yield: args.annualized_yield,
       avg_policy_duration: args.avg_policy_duration,
       utilization_rate: args.utilization_rate,
+      net_delta: args.net_delta,
+      net_gamma: args.net_gamma,
+      net_vega: args.net_vega,
+      net_theta: args.net_theta,
+      net_rho: args.net_rho,
+      tier_metrics: args.tier_metrics,
     });
   },
 });
@@ -251,6 +438,22 @@ export const updatePoolMetrics = internalAction({
       premiumStats.avgDuration
     );
     
+    const tierMetrics: TierMetrics[] = await ctx.runQuery(internal.liquidityPool.poolState.getTierMetricsForToken, {
+      token: args.token,
+    });
+    
+    // Greeks need the current burn height; metrics are still recorded if the node is unreachable
+    let greeksExposure: PoolGreeksExposure | null = null;
+    try {
+      const currentBurnHeight: number = await ctx.runAction(api.stacksNode.getCurrentBurnBlockHeight, {});
+      greeksExposure = await ctx.runQuery(internal.liquidityPool.poolState.getPoolGreeksExposureInternal, {
+        token: args.token,
+        currentBurnHeight,
+      });
+    } catch (error: any) {
+      console.warn(`[updatePoolMetrics] Could not compute Greeks for ${args.token}: ${error.message}`);
+    }
+    
     await ctx.runMutation(internal.liquidityPool.poolState.updatePoolMetricsRecord, { // Adjusted path
       token: args.token,
       total_liquidity: totalLiquidity,
@@ -263,6 +466,12 @@ export const updatePoolMetrics = internalAction({
       annualized_yield: annualizedYield,
       avg_policy_duration: premiumStats.avgDuration,
       utilization_rate: utilizationRate,
+      net_delta: greeksExposure?.delta,
+      net_gamma: greeksExposure?.gamma,
+      net_vega: greeksExposure?.vega,
+      net_theta: greeksExposure?.theta,
+      net_rho: greeksExposure?.rho,
+      tier_metrics: tierMetrics,
     });
     
     return {
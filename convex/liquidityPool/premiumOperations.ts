@@ -5,6 +5,8 @@ import { Id, Doc } from "../_generated/dataModel";
 import { ActionCtx, MutationCtx, QueryCtx } from "../_generated/server";
 import { TransactionType, TransactionStatus, PremiumDistributionStatus } from "./types"; // Assuming these are in types.ts
 import type { PolicyAllocationResult } from "./policyLifecycle"; // Import the type
+import { enqueueProviderNotification } from "../notifications/outbox";
+import { NOTIFICATION_EVENTS } from "../notifications/types";
 
 // --- Interfaces ---
 
@@ -210,6 +212,14 @@ export const createPremiumDistributions = internalMutation({
       await ctx.db.patch(dist.allocationId, {
         premium_distributed: true
       });
+
+      await enqueueProviderNotification(ctx, {
+        provider: dist.provider,
+        eventType: NOTIFICATION_EVENTS.PREMIUM_DISTRIBUTED,
+        title: "Premium earned",
+        body: `${dist.premiumAmount} ${dist.token} of premium from policy ${args.policyId} was credited to you.`,
+        data: { policyId: args.policyId, distributionId, amount: dist.premiumAmount, token: dist.token },
+      });
       
       totalDistributed += dist.premiumAmount;
       results.push({ ...dist, distributionId });
@@ -388,7 +398,8 @@ export const checkPremiumWithdrawalEligibility = internalQuery({
     
     const availablePremiums = balance.earned_premiums -  // earned_premiums should exist
       (balance.withdrawn_premiums || 0) - // withdrawn_premiums might not exist initially
-      (balance.pending_premiums || 0); // pending_premiums might not exist initially
+      (balance.pending_premiums || 0) - // pending_premiums might not exist initially
+      (balance.reinvested_premiums || 0); // Swept into capital by auto-reinvest
     
     if (args.amount > availablePremiums) {
       return { eligible: false, reason: `Insufficient earned premiums: Available ${availablePremiums}, Requested ${args.amount}` };
@@ -440,7 +451,8 @@ export const reservePremiumWithdrawalAmount = internalMutation({
     
     const availablePremiums = (balance.earned_premiums || 0) - 
                               (balance.withdrawn_premiums || 0) - 
-                              (balance.pending_premiums || 0);
+                              (balance.pending_premiums || 0) -
+                              (balance.reinvested_premiums || 0);
     
     if (availablePremiums < args.amount) {
       // This check should ideally be caught by eligibility, but good to have defense here
@@ -506,6 +518,14 @@ export const confirmPremiumWithdrawal = mutation({
         pending_premiums: Math.max(0, (balance.pending_premiums || 0) - pendingTx.amount), // Ensure not negative
         last_updated: Date.now(),
       });
+
+      await enqueueProviderNotification(ctx, {
+        provider: pendingTx.provider,
+        eventType: NOTIFICATION_EVENTS.WITHDRAWAL_CONFIRMED,
+        title: "Premium withdrawal confirmed",
+        body: `Your withdrawal of ${pendingTx.amount} ${pendingTx.token} in premiums was confirmed on-chain.`,
+        data: { kind: "premium", amount: pendingTx.amount, token: pendingTx.token, chainTxId: args.chainTxId },
+      });
       
       // Log to generic pool_transactions
       await ctx.runMutation(internal.liquidityPool.transactionManager.logGenericPoolTransaction, {
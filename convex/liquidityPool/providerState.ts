@@ -3,6 +3,8 @@ import { v } from "convex/values";
 import { Id, Doc } from "../_generated/dataModel";
 import { internal, api } from "../_generated/api";
 import { TransactionType, AllocationStatus } from "./types";
+import { summarizeReturns } from "./yieldAccounting";
+import { loadYieldLedger } from "./yieldSnapshots";
 
 /**
  * Helper function to count rows in a query result
@@ -264,7 +266,8 @@ export const getProviderDashboard = query({
 });
 
 /**
- * Calculate yield statistics for a provider based on their balance and premium history.
+ * Calculate yield statistics for a provider from the timing of their deposits, withdrawals,
+ * premiums and settlement payouts (see yieldAccounting.ts).
  * Internal helper for dashboard data.
  * 
  * @param ctx Query context
@@ -284,43 +287,27 @@ export const calculateYieldStatistics = async (
       .filter(q => q.eq(q.field("provider"), provider))
       .collect();
   }
-  
-  // Get all transactions for this provider for duration calculations
-  const transactions = await ctx.db
-    .query("pool_transactions")
-    .filter(q => 
-      q.eq(q.field("provider"), provider) && 
-      q.eq(q.field("tx_type"), TransactionType.DEPOSIT)
-    )
-    .collect();
-  
+
   // Calculate yield stats per token
   const yieldStats: Record<string, {
     totalDeposited: number,
     currentTotal: number,
     totalEarned: number,
-    annualizedYield: number,
+    annualizedYield: number, // Annualized time-weighted return, as a percentage
+    totalReinvested: number,
+    compoundedAnnualYield: number, // Same as annualizedYield: the TWR already compounds every earned premium
+    timeWeightedReturn: number, // Cumulative TWR, as a fraction
+    annualizedTimeWeightedReturn: number | null,
+    moneyWeightedReturn: number | null, // Annualized IRR, as a fraction
+    netContributions: number,
     daysActive: number,
     startDate: number | null,
   }> = {};
   
+  const now = Date.now();
   for (const balance of balances) {
     const token = balance.token;
-    
-    // Find first deposit date for this token
-    const tokenDeposits = transactions.filter(tx => 
-      tx.token === token && 
-      tx.tx_type === TransactionType.DEPOSIT
-    );
-    
-    const firstDepositDate = tokenDeposits.length > 0
-      ? Math.min(...tokenDeposits.map(tx => tx.timestamp))
-      : null;
-    
-    // Calculate days elapsed if we have a first deposit
-    const daysElapsed = firstDepositDate
-      ? (Date.now() - firstDepositDate) / (1000 * 60 * 60 * 24)
-      : 0;
+    const returns = summarizeReturns(await loadYieldLedger(ctx, provider, token), now);
     
     // Calculate total earned (distributed + pending)
     const totalEarned = balance.earned_premiums + balance.pending_premiums;
@@ -328,22 +315,23 @@ export const calculateYieldStatistics = async (
     // Calculate current total (available + locked + pending premiums)
     const currentTotal = balance.available_balance + balance.locked_balance + balance.pending_premiums;
     
-    // Calculate annualized yield
-    let annualizedYield = 0;
-    if (balance.total_deposited > 0 && daysElapsed > 0) {
-      // Use a simple average balance approach: total deposited / 2
-      // A more accurate approach would weight by time each deposit amount was held
-      const averageBalance = balance.total_deposited / 2;
-      annualizedYield = (totalEarned / averageBalance) * (365 / daysElapsed) * 100;
-    }
+    // The ledger counts earned premiums in the position value whether or not they were swept back
+    // into capital, so reinvestments add no compounding on top of the TWR
+    const annualizedYield = (returns.annualizedTimeWeightedReturn ?? 0) * 100;
     
     yieldStats[token] = {
       totalDeposited: balance.total_deposited,
       currentTotal,
       totalEarned,
       annualizedYield,
-      daysActive: daysElapsed,
-      startDate: firstDepositDate,
+      totalReinvested: balance.reinvested_premiums || 0,
+      compoundedAnnualYield: annualizedYield,
+      timeWeightedReturn: returns.timeWeightedReturn,
+      annualizedTimeWeightedReturn: returns.annualizedTimeWeightedReturn,
+      moneyWeightedReturn: returns.moneyWeightedReturn,
+      netContributions: returns.netContributions,
+      daysActive: returns.daysActive,
+      startDate: returns.startDate,
     };
   }
   
@@ -0,0 +1,70 @@
+import { expect, test, describe } from "vitest";
+import {
+  adjustTierBalance,
+  applyTierDraws,
+  drawFromTierBalances,
+  getCompatibleProviderTiers,
+  getTierBalances,
+  getWithdrawalTierDraws,
+  normalizeProviderRiskTier,
+  POLICY_RISK_TIERS,
+  PROVIDER_RISK_TIERS,
+  TierBalance,
+} from "./riskTiers";
+
+const buckets: TierBalance[] = [
+  { tier: PROVIDER_RISK_TIERS.CONSERVATIVE, total_deposited: 100, available_balance: 80, locked_balance: 20 },
+  { tier: PROVIDER_RISK_TIERS.AGGRESSIVE, total_deposited: 50, available_balance: 50, locked_balance: 0 },
+];
+
+describe("getCompatibleProviderTiers", () => {
+  test("conservative capital never backs flexible policies", () => {
+    expect(getCompatibleProviderTiers(POLICY_RISK_TIERS.FLEXIBLE)).not.toContain(PROVIDER_RISK_TIERS.CONSERVATIVE);
+  });
+
+  test("conservative policies are only backed by conservative capital", () => {
+    expect(getCompatibleProviderTiers(POLICY_RISK_TIERS.CONSERVATIVE)).toEqual([PROVIDER_RISK_TIERS.CONSERVATIVE]);
+  });
+
+  test("unknown or missing policy tiers fall back to standard", () => {
+    expect(getCompatibleProviderTiers(undefined)).toEqual(getCompatibleProviderTiers(POLICY_RISK_TIERS.STANDARD));
+    expect(getCompatibleProviderTiers("exotic")).toEqual(getCompatibleProviderTiers(POLICY_RISK_TIERS.STANDARD));
+    expect(getCompatibleProviderTiers(POLICY_RISK_TIERS.STANDARD)).not.toContain(PROVIDER_RISK_TIERS.AGGRESSIVE);
+  });
+});
+
+describe("tier buckets", () => {
+  test("normalizes provider tier names", () => {
+    expect(normalizeProviderRiskTier(" Aggressive ")).toBe(PROVIDER_RISK_TIERS.AGGRESSIVE);
+    expect(normalizeProviderRiskTier("standard")).toBeNull();
+  });
+
+  test("legacy balances are held in the fallback tier", () => {
+    const legacy = { total_deposited: 10, available_balance: 7, locked_balance: 3, tier_balances: undefined };
+    expect(getTierBalances(legacy, PROVIDER_RISK_TIERS.AGGRESSIVE)).toEqual([
+      { tier: PROVIDER_RISK_TIERS.AGGRESSIVE, total_deposited: 10, available_balance: 7, locked_balance: 3 },
+    ]);
+  });
+
+  test("adjusts one bucket without mutating the input", () => {
+    const adjusted = adjustTierBalance(buckets, PROVIDER_RISK_TIERS.BALANCED, { total_deposited: 5, available_balance: 5 });
+    expect(adjusted).toHaveLength(3);
+    expect(buckets).toHaveLength(2);
+    expect(adjustTierBalance(buckets, PROVIDER_RISK_TIERS.AGGRESSIVE, { available_balance: -80 })[1].available_balance).toBe(0);
+  });
+
+  test("draws from the largest available bucket first", () => {
+    expect(drawFromTierBalances(buckets, 100)).toEqual([
+      { tier: PROVIDER_RISK_TIERS.CONSERVATIVE, amount: 80 },
+      { tier: PROVIDER_RISK_TIERS.AGGRESSIVE, amount: 20 },
+    ]);
+    const applied = applyTierDraws(buckets, drawFromTierBalances(buckets, 100), "available_balance", -1);
+    expect(applied.map(b => b.available_balance)).toEqual([0, 30]);
+  });
+
+  test("withdrawals use the tier split recorded at reservation", () => {
+    const recorded = [{ tier: PROVIDER_RISK_TIERS.AGGRESSIVE, amount: 10 }];
+    expect(getWithdrawalTierDraws({ amount: 10, payload: { tierDraws: recorded } }, buckets)).toEqual(recorded);
+    expect(getWithdrawalTierDraws({ amount: 10 }, buckets)).toEqual([{ tier: PROVIDER_RISK_TIERS.CONSERVATIVE, amount: 10 }]);
+  });
+});
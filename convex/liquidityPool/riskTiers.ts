@@ -0,0 +1,168 @@
+/**
+ * Liquidity Pool: Risk Tiers
+ *
+ * Provider capital is segmented into risk-tier buckets (provider_balances.tier_balances) and a
+ * policy only draws collateral from the provider tiers its own risk tier is compatible with.
+ * The matching rules mirror is-provider-tier-compatible in liquidity-pool-vault.clar.
+ */
+
+import { Doc } from "../_generated/dataModel";
+import { QueryCtx } from "../_generated/server";
+
+export const PROVIDER_RISK_TIERS = {
+  CONSERVATIVE: "conservative",
+  BALANCED: "balanced",
+  AGGRESSIVE: "aggressive",
+} as const;
+
+// Tier for deposits made without a tier and no riskTierComfort preference
+export const DEFAULT_PROVIDER_RISK_TIER = PROVIDER_RISK_TIERS.BALANCED;
+
+// Buyer risk tiers assigned to quotes (see quotes.ts)
+export const POLICY_RISK_TIERS = {
+  CONSERVATIVE: "conservative",
+  STANDARD: "standard",
+  FLEXIBLE: "flexible",
+  CRASH_INSURANCE: "crash_insurance",
+} as const;
+
+export const DEFAULT_POLICY_RISK_TIER = POLICY_RISK_TIERS.STANDARD;
+
+// Provider tiers allowed to back each policy tier, in order of preference
+const COMPATIBLE_PROVIDER_TIERS: Record<string, string[]> = {
+  [POLICY_RISK_TIERS.CONSERVATIVE]: [PROVIDER_RISK_TIERS.CONSERVATIVE],
+  [POLICY_RISK_TIERS.STANDARD]: [PROVIDER_RISK_TIERS.BALANCED, PROVIDER_RISK_TIERS.CONSERVATIVE],
+  [POLICY_RISK_TIERS.FLEXIBLE]: [PROVIDER_RISK_TIERS.AGGRESSIVE, PROVIDER_RISK_TIERS.BALANCED],
+  [POLICY_RISK_TIERS.CRASH_INSURANCE]: [PROVIDER_RISK_TIERS.AGGRESSIVE, PROVIDER_RISK_TIERS.BALANCED, PROVIDER_RISK_TIERS.CONSERVATIVE],
+};
+
+export interface TierBalance {
+  tier: string;
+  total_deposited: number;
+  available_balance: number;
+  locked_balance: number;
+}
+
+/**
+ * Normalizes a provider tier name ("Conservative" -> "conservative").
+ * @returns the tier, or null when it is not a provider tier
+ */
+export function normalizeProviderRiskTier(tier: string | undefined | null): string | null {
+  if (!tier) return null;
+  const normalized = tier.trim().toLowerCase();
+  return (Object.values(PROVIDER_RISK_TIERS) as string[]).includes(normalized) ? normalized : null;
+}
+
+/**
+ * Provider tiers that may back a policy of the given tier. Unknown policy tiers
+ * are treated as the default policy tier.
+ */
+export function getCompatibleProviderTiers(policyRiskTier: string | undefined | null): string[] {
+  const normalized = policyRiskTier?.trim().toLowerCase() ?? DEFAULT_POLICY_RISK_TIER;
+  return COMPATIBLE_PROVIDER_TIERS[normalized] ?? COMPATIBLE_PROVIDER_TIERS[DEFAULT_POLICY_RISK_TIER];
+}
+
+/**
+ * Tier for a provider's capital when none is given: their riskTierComfort preference,
+ * else the default tier.
+ */
+export async function loadProviderDefaultTier(ctx: Pick<QueryCtx, "db">, provider: string): Promise<string> {
+  const preferences = await ctx.db
+    .query("provider_preferences")
+    .withIndex("by_provider", (q) => q.eq("provider", provider))
+    .unique();
+  return normalizeProviderRiskTier(preferences?.riskTierComfort) ?? DEFAULT_PROVIDER_RISK_TIER;
+}
+
+/**
+ * The tier buckets of a balance row. Rows written before tier segmentation hold all of
+ * their capital in fallbackTier (the provider's riskTierComfort or the default tier).
+ */
+export function getTierBalances(
+  balance: Pick<Doc<"provider_balances">, "total_deposited" | "available_balance" | "locked_balance" | "tier_balances">,
+  fallbackTier: string = DEFAULT_PROVIDER_RISK_TIER
+): TierBalance[] {
+  if (balance.tier_balances && balance.tier_balances.length > 0) {
+    return balance.tier_balances.map(b => ({ ...b }));
+  }
+  return [{
+    tier: fallbackTier,
+    total_deposited: balance.total_deposited,
+    available_balance: balance.available_balance,
+    locked_balance: balance.locked_balance,
+  }];
+}
+
+/**
+ * Adds the given deltas to one tier's bucket, creating the bucket if needed.
+ * Balances are floored at zero like the row totals.
+ */
+export function adjustTierBalance(
+  tierBalances: TierBalance[],
+  tier: string,
+  delta: Partial<Omit<TierBalance, "tier">>
+): TierBalance[] {
+  const result = tierBalances.map(b => ({ ...b }));
+  let bucket = result.find(b => b.tier === tier);
+  if (!bucket) {
+    bucket = { tier, total_deposited: 0, available_balance: 0, locked_balance: 0 };
+    result.push(bucket);
+  }
+  bucket.total_deposited = Math.max(0, bucket.total_deposited + (delta.total_deposited ?? 0));
+  bucket.available_balance = Math.max(0, bucket.available_balance + (delta.available_balance ?? 0));
+  bucket.locked_balance = Math.max(0, bucket.locked_balance + (delta.locked_balance ?? 0));
+  return result;
+}
+
+/**
+ * Splits an amount of available capital to take out of the buckets, largest available first.
+ * @returns the amount drawn from each tier (sums to less than amount if the buckets run dry)
+ */
+export function drawFromTierBalances(
+  tierBalances: TierBalance[],
+  amount: number
+): { tier: string; amount: number }[] {
+  const draws: { tier: string; amount: number }[] = [];
+  let remaining = amount;
+  for (const bucket of [...tierBalances].sort((a, b) => b.available_balance - a.available_balance)) {
+    if (remaining <= 0) break;
+    const drawn = Math.min(remaining, bucket.available_balance);
+    if (drawn > 0) {
+      draws.push({ tier: bucket.tier, amount: drawn });
+      remaining -= drawn;
+    }
+  }
+  return draws;
+}
+
+/**
+ * Applies per-tier amounts to one field of the tier buckets (sign -1 subtracts, 1 adds)
+ */
+export function applyTierDraws(
+  tierBalances: TierBalance[],
+  tierDraws: { tier: string; amount: number }[],
+  field: "total_deposited" | "available_balance",
+  sign: 1 | -1
+): TierBalance[] {
+  return tierDraws.reduce(
+    (balances, draw) => adjustTierBalance(balances, draw.tier, { [field]: sign * draw.amount }),
+    tierBalances
+  );
+}
+
+/**
+ * The tier split recorded when a withdrawal was reserved. Withdrawals reserved before tier
+ * segmentation are taken from the largest buckets.
+ */
+export function getWithdrawalTierDraws(
+  pendingTx: { amount: number; payload?: any },
+  tierBalances: TierBalance[]
+): { tier: string; amount: number }[] {
+  if (Array.isArray(pendingTx.payload?.tierDraws)) {
+    return pendingTx.payload.tierDraws;
+  }
+  return drawFromTierBalances(
+    tierBalances.map(b => ({ ...b, available_balance: b.total_deposited })),
+    pendingTx.amount
+  );
+}
@@ -3,6 +3,9 @@ import { v } from "convex/values";
 import { internal } from "../_generated/api";
 import { Id } from "../_generated/dataModel";
 import { TransactionType, TransactionStatus, AllocationStatus, ProcessClaimSettlementResult } from "./types";
+import { adjustTierBalance, getTierBalances, loadProviderDefaultTier } from "./riskTiers";
+import { enqueueProviderNotification } from "../notifications/outbox";
+import { NOTIFICATION_EVENTS } from "../notifications/types";
 // import { logGenericPoolTransaction } from "./transactionManager"; // logGenericPoolTransaction is called via internal.liquidityPool.transactionManager
 
 // --- Helper internalMutation to adjust provider capital after settlement ---
@@ -11,6 +14,8 @@ export const adjustProviderCapitalForSettlement = internalMutation({
     provider: v.string(),
     token: v.string(),
     amountSettled: v.number(), // The amount of this provider's capital that was paid out
+    tier: v.optional(v.string()), // Provider risk tier bucket the allocation drew from
+    policyId: v.optional(v.id("policies")), // Used to look up the allocation's tier when none is given
   },
   handler: async (ctx: MutationCtx, args) => {
     const balance = await ctx.db
@@ -29,10 +34,47 @@ export const adjustProviderCapitalForSettlement = internalMutation({
     // The locked_balance reduction for the original allocation is handled by releaseCollateral action.
     const newTotalDeposited = Math.max(0, (balance.total_deposited || 0) - args.amountSettled);
 
+    let tier = args.tier;
+    if (!tier && args.policyId) {
+      const allocation = await ctx.db
+        .query("policy_allocations")
+        .withIndex("by_policy_provider", q => q.eq("policy_id", args.policyId!).eq("provider", args.provider))
+        .first();
+      tier = allocation?.risk_tier;
+    }
+    const defaultTier = await loadProviderDefaultTier(ctx, args.provider);
+
     await ctx.db.patch(balance._id, {
       total_deposited: newTotalDeposited,
+      tier_balances: adjustTierBalance(
+        getTierBalances(balance, defaultTier),
+        tier ?? defaultTier,
+        { total_deposited: -args.amountSettled }
+      ),
       last_updated: Date.now(),
     });
+
+    // The provider's share of the payout, so their return history reflects the loss
+    await ctx.db.insert("pool_transactions", {
+      provider: args.provider,
+      tx_id: `settlement-${args.policyId ?? "claim"}-${args.provider}-${Date.now()}`,
+      tx_type: TransactionType.SETTLEMENT,
+      amount: args.amountSettled,
+      token: args.token,
+      timestamp: Date.now(),
+      policy_id: args.policyId,
+      status: TransactionStatus.CONFIRMED,
+      description: `${args.amountSettled} ${args.token} of capital paid out in settlement`,
+      metadata: { risk_tier: tier ?? defaultTier },
+    });
+
+    await enqueueProviderNotification(ctx, {
+      provider: args.provider,
+      eventType: NOTIFICATION_EVENTS.SETTLEMENT,
+      title: "Policy settled against your capital",
+      body: `${args.amountSettled} ${args.token} of your capital was paid out${args.policyId ? ` to settle policy ${args.policyId}` : ""}.`,
+      data: { policyId: args.policyId, amount: args.amountSettled, token: args.token, tier: tier ?? defaultTier },
+    });
     console.log(`Adjusted capital for provider ${args.provider} (token: ${args.token}) due to settlement. Amount settled: ${args.amountSettled}. New total_deposited: ${newTotalDeposited}`);
   },
 });
@@ -86,6 +128,7 @@ export const processClaimSettlement = internalAction({
         provider: contribution.provider,
         token: args.settlementToken, // Assuming settlementToken is the same as collateral token here
         amountSettled: contribution.amountSettledFromProvider,
+        policyId: args.policyId,
       });
     }
 
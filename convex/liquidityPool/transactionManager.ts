@@ -3,6 +3,17 @@ import { v } from "convex/values";
 import { Id, Doc } from "../_generated/dataModel";
 import { internal, api } from "../_generated/api";
 import { TransactionType, TransactionStatus } from "./types";
+import {
+  adjustTierBalance,
+  applyTierDraws,
+  drawFromTierBalances,
+  getTierBalances,
+  getWithdrawalTierDraws,
+  loadProviderDefaultTier,
+  normalizeProviderRiskTier,
+} from "./riskTiers";
+import { enqueueProviderNotification } from "../notifications/outbox";
+import { NOTIFICATION_EVENTS } from "../notifications/types";
 
 export const createPendingPoolTransaction = internalMutation({
   args: {
@@ -287,8 +298,10 @@ export const revertFailedPendingPoolTransaction = internalMutation({
         .filter(q => q.eq(q.field("provider"), provider) && q.eq(q.field("token"), token))
         .unique();
       if (balance && typeof balance.available_balance === 'number' && typeof amount === 'number') {
+        const tierBalances = getTierBalances(balance, await loadProviderDefaultTier(ctx, provider));
         await ctx.db.patch(balance._id, {
           available_balance: balance.available_balance + amount,
+          tier_balances: applyTierDraws(tierBalances, getWithdrawalTierDraws(args.pendingTxData, tierBalances), "available_balance", 1),
           last_updated: Date.now(),
         });
         console.log(`Reverted available balance for ${provider}, token ${token}, amount ${amount}`);
@@ -435,6 +448,7 @@ export const finalizeConfirmedPoolTransaction = internalMutation({
           token: pendingPoolTxData.token,
           amount: pendingPoolTxData.amount,
           providerTxId: historicalTxId, 
+          tier: pendingPoolTxData.payload?.tier,
         };
         await ctx.runMutation(internal.liquidityPool.transactionManager.recordProviderDepositCompletion, specificArgs);
         break;
@@ -472,16 +486,21 @@ export const recordProviderDepositCompletion = internalMutation({
     token: v.string(),
     amount: v.number(),
     providerTxId: v.id("pool_transactions"), 
+    tier: v.optional(v.string()), // Provider risk tier bucket; defaults to the provider's riskTierComfort
   },
-  handler: async (ctx: MutationCtx, { provider, token, amount }) => {
+  handler: async (ctx: MutationCtx, { provider, token, amount, tier: requestedTier }) => {
     let balance = await ctx.db.query("provider_balances")
       .withIndex("by_provider_token", (q) => q.eq("provider", provider).eq("token", token))
       .unique();
+    const defaultTier = await loadProviderDefaultTier(ctx, provider);
+    const tier = normalizeProviderRiskTier(requestedTier) ?? defaultTier;
+    const tierDelta = { total_deposited: amount, available_balance: amount };
 
     if (balance) {
       await ctx.db.patch(balance._id, {
         total_deposited: (balance.total_deposited || 0) + amount,
         available_balance: (balance.available_balance || 0) + amount,
+        tier_balances: adjustTierBalance(getTierBalances(balance, defaultTier), tier, tierDelta),
         last_updated: Date.now(),
       });
     } else {
@@ -494,6 +513,7 @@ export const recordProviderDepositCompletion = internalMutation({
         earned_premiums: 0,
         withdrawn_premiums: 0,
         pending_premiums: 0,
+        tier_balances: adjustTierBalance([], tier, tierDelta),
         last_updated: Date.now(),
       } as any);
     }
@@ -518,10 +538,19 @@ export const recordProviderWithdrawalCompletion = internalMutation({
       return; 
     }
 
+    const tierBalances = getTierBalances(balance, await loadProviderDefaultTier(ctx, provider));
     await ctx.db.patch(balance._id, {
       available_balance: (balance.available_balance || 0) - amount,
+      tier_balances: applyTierDraws(tierBalances, drawFromTierBalances(tierBalances, amount), "available_balance", -1),
       last_updated: Date.now(),
     });
+    await enqueueProviderNotification(ctx, {
+      provider,
+      eventType: NOTIFICATION_EVENTS.WITHDRAWAL_CONFIRMED,
+      title: "Withdrawal confirmed",
+      body: `Your withdrawal of ${amount} ${token} was confirmed on-chain.`,
+      data: { kind: "capital", amount, token },
+    });
     console.log("Completed withdrawal for ", provider, " Token: ", token, " Amount: ", amount);
   }
 });
@@ -548,6 +577,13 @@ export const recordProviderPremiumWithdrawalCompletion = internalMutation({
       withdrawn_premiums: (balance.withdrawn_premiums || 0) + amount,
       last_updated: Date.now(),
     });
+    await enqueueProviderNotification(ctx, {
+      provider,
+      eventType: NOTIFICATION_EVENTS.WITHDRAWAL_CONFIRMED,
+      title: "Premium withdrawal confirmed",
+      body: `Your withdrawal of ${amount} ${token} in premiums was confirmed on-chain.`,
+      data: { kind: "premium", amount, token },
+    });
     console.log("Completed premium withdrawal for ", provider, " Token: ", token, " Amount: ", amount);
   }
 });
@@ -13,6 +13,8 @@ import {
   cvToHex,      // Example: if needed for any reason (usually not for package prep)
   StacksTransaction, // If we were to build full transactions (usually frontend)
   ChainID, // For network specification
+  PostCondition,
+  PostConditionMode,
 } from "@stacks/transactions";
 
 import {
@@ -37,6 +39,8 @@ import {
 
 // It's possible NetworkEnvironment is in types.ts
 import { NetworkEnvironment, BlockchainContract } from "../blockchain/common/types";
+import { makeExactTokenTransferCondition } from "../blockchain/liquidityPool/postConditions";
+import { TokenType } from "../blockchain/liquidityPool/types";
 
 /**
  * @file convex/liquidityPool/transactionPreparation.ts
@@ -168,6 +172,8 @@ export type CapitalCommitmentContractCallParams = {
   contractName: string;
   functionName: "deposit-stx" | "deposit-sip010";
   functionArgs: ClarityValue[]; // Changed from ClarityValueJSON to ClarityValue
+  postConditionMode: PostConditionMode; // Always Deny: only the deposit transfer below may happen
+  postConditions: PostCondition[];
 };
 
 // The full package returned to the frontend
@@ -360,6 +366,14 @@ export const prepareCapitalCommitmentTransaction = action({
         contractName: liquidityPoolContractDetails.name,
         functionName: functionName,
         functionArgs: functionArgs,
+        postConditionMode: PostConditionMode.Deny,
+        postConditions: [
+          makeExactTokenTransferCondition(
+            providerAddress,
+            actualTokenSymbol === "STX" ? TokenType.STX : TokenType.SBTC,
+            amountInBaseUnits
+          ),
+        ],
       },
       humanReadable: {
         commitmentAmount: humanReadableAmount,
@@ -11,6 +11,7 @@ export enum TransactionType {
   SETTLEMENT = "SETTLEMENT",
   PREMIUM_DISTRIBUTION = "PREMIUM_DISTRIBUTION",
   PREMIUM_WITHDRAWAL = "PREMIUM_WITHDRAWAL",
+  REINVEST = "REINVEST", // Earned premiums moved into deposited capital
 }
 
 export enum TransactionStatus {
@@ -0,0 +1,74 @@
+import { expect, test, describe } from "vitest";
+import { DAY_MS, buildDailyReturnSeries, calculateIrr, summarizeReturns } from "./yieldAccounting";
+
+const day = (n: number) => Date.UTC(2025, 0, 1) + n * DAY_MS;
+
+describe("buildDailyReturnSeries", () => {
+  test("deposits and withdrawals do not count as returns", () => {
+    const series = buildDailyReturnSeries([
+      { timestamp: day(0), flow: 1000, gain: 0 },
+      { timestamp: day(1), flow: 500, gain: 0 },
+      { timestamp: day(2), flow: -300, gain: 0 },
+    ], day(2));
+    expect(series).toHaveLength(3);
+    expect(series.map(p => p.value)).toEqual([1000, 1500, 1200]);
+    expect(series[2].twrIndex).toBe(1);
+  });
+
+  test("chains daily returns regardless of when capital arrived", () => {
+    const series = buildDailyReturnSeries([
+      { timestamp: day(0), flow: 1000, gain: 0 },
+      { timestamp: day(1) + 1, gain: 100, flow: 0 }, // +10%
+      { timestamp: day(2), flow: 9900, gain: 0 }, // Large deposit at the start of day 2
+      { timestamp: day(3) + 1, gain: -1100, flow: 0 }, // -10%
+    ], day(3));
+    expect(series[1].dailyReturn).toBeCloseTo(0.1);
+    expect(series[3].dailyReturn).toBeCloseTo(-0.1);
+    expect(series[3].twrIndex - 1).toBeCloseTo(1.1 * 0.9 - 1);
+  });
+
+  test("weights same-day deposits by how long they were held", () => {
+    const [point] = buildDailyReturnSeries([
+      { timestamp: day(0), flow: 1000, gain: 0 },
+      { timestamp: day(0) + DAY_MS / 2, flow: 1000, gain: 0 },
+      { timestamp: day(0) + DAY_MS - 1, flow: 0, gain: 15 },
+    ], day(0));
+    expect(point.dailyReturn).toBeCloseTo(15 / 1500, 4);
+  });
+});
+
+describe("calculateIrr", () => {
+  test("recovers a constant annual rate", () => {
+    const irr = calculateIrr([
+      { timestamp: day(0), amount: -1000 },
+      { timestamp: day(365), amount: 1100 },
+    ]);
+    expect(irr).toBeCloseTo(0.1, 6);
+  });
+
+  test("has no solution without flows in both directions", () => {
+    expect(calculateIrr([{ timestamp: day(0), amount: -1000 }])).toBeNull();
+  });
+});
+
+describe("summarizeReturns", () => {
+  test("money-weighted return reflects deposit timing, time-weighted does not", () => {
+    const entries = [
+      { timestamp: day(0), flow: 1000, gain: 0 },
+      { timestamp: day(100) - 1, flow: 0, gain: 100 }, // +10% on 1000
+      { timestamp: day(100), flow: 10_000, gain: 0 },
+      { timestamp: day(200), flow: 0, gain: -1110 }, // -10% on 11100
+    ];
+    const summary = summarizeReturns(entries, day(200));
+    expect(summary.timeWeightedReturn).toBeCloseTo(-0.01, 4);
+    expect(summary.totalGain).toBe(-1010);
+    expect(summary.moneyWeightedReturn!).toBeLessThan(summary.annualizedTimeWeightedReturn!);
+  });
+
+  test("does not annualize young positions", () => {
+    const summary = summarizeReturns([{ timestamp: day(0), flow: 1000, gain: 0 }], day(2));
+    expect(summary.annualizedTimeWeightedReturn).toBeNull();
+    expect(summary.moneyWeightedReturn).toBeNull();
+    expect(summary.currentValue).toBe(1000);
+  });
+});
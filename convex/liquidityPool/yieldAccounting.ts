@@ -0,0 +1,129 @@
+/**
+ * Liquidity Pool: Yield Accounting
+ *
+ * Time-weighted (TWR) and money-weighted (IRR) returns for one provider's position in one token.
+ * The position's value is rebuilt from its ledger: external flows (deposits in, capital and
+ * premium withdrawals out) and gains (premiums earned, capital paid out in settlements).
+ * Reinvesting premiums moves value within the position and is not a flow.
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface YieldLedgerEntry {
+  timestamp: number;
+  flow: number; // External cash flow into the position (negative for withdrawals)
+  gain: number; // Premium earned (positive) or settlement payout (negative)
+}
+
+export interface DailyReturnPoint {
+  day: number; // UTC day start (ms)
+  value: number; // Position value at the end of the day
+  netFlow: number;
+  gain: number;
+  dailyReturn: number; // Modified Dietz return for the day
+  twrIndex: number; // Growth of 1 since the first day
+}
+
+export interface ReturnSummary {
+  startDate: number | null;
+  daysActive: number;
+  currentValue: number;
+  netContributions: number;
+  totalGain: number;
+  timeWeightedReturn: number; // Cumulative, as a fraction
+  annualizedTimeWeightedReturn: number | null; // Null when the position is too young to annualize
+  moneyWeightedReturn: number | null; // Annualized IRR, null when it has no solution
+}
+
+// Positions younger than this report cumulative TWR only
+export const MIN_DAYS_TO_ANNUALIZE = 7;
+
+export function startOfUtcDay(timestamp: number): number {
+  return Math.floor(timestamp / DAY_MS) * DAY_MS;
+}
+
+/**
+ * One point per UTC day from the first ledger entry's day through asOf's day
+ */
+export function buildDailyReturnSeries(entries: YieldLedgerEntry[], asOf: number): DailyReturnPoint[] {
+  const sorted = [...entries].sort((a, b) => a.timestamp - b.timestamp);
+  if (sorted.length === 0) return [];
+
+  const points: DailyReturnPoint[] = [];
+  let value = 0;
+  let twrIndex = 1;
+  let next = 0;
+  for (let day = startOfUtcDay(sorted[0].timestamp); day <= startOfUtcDay(asOf); day += DAY_MS) {
+    const startValue = value;
+    let netFlow = 0;
+    let weightedFlow = 0;
+    let gain = 0;
+    while (next < sorted.length && sorted[next].timestamp < day + DAY_MS) {
+      const entry = sorted[next++];
+      netFlow += entry.flow;
+      weightedFlow += entry.flow * ((day + DAY_MS - entry.timestamp) / DAY_MS);
+      gain += entry.gain;
+    }
+
+    value = startValue + netFlow + gain;
+    const averageCapital = startValue + weightedFlow;
+    const dailyReturn = averageCapital > 0 ? gain / averageCapital : 0;
+    twrIndex *= 1 + dailyReturn;
+    points.push({ day, value, netFlow, gain, dailyReturn, twrIndex });
+  }
+  return points;
+}
+
+/**
+ * Annualized rate at which the net present value of the cash flows is zero, found by bisection.
+ * Flows are from the investor's side: contributions negative, withdrawals and the final value positive.
+ */
+export function calculateIrr(cashFlows: { timestamp: number; amount: number }[]): number | null {
+  if (!cashFlows.some(cf => cf.amount > 0) || !cashFlows.some(cf => cf.amount < 0)) return null;
+
+  const start = Math.min(...cashFlows.map(cf => cf.timestamp));
+  const npv = (rate: number) =>
+    cashFlows.reduce((sum, cf) => sum + cf.amount / Math.pow(1 + rate, (cf.timestamp - start) / (365 * DAY_MS)), 0);
+
+  let low = -0.9999;
+  let high = 1;
+  while (npv(low) * npv(high) > 0) {
+    if (high > 1e6) return null;
+    high *= 10;
+  }
+  for (let i = 0; i < 200 && high - low > 1e-10; i++) {
+    const mid = (low + high) / 2;
+    if (npv(low) * npv(mid) <= 0) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+export function summarizeReturns(entries: YieldLedgerEntry[], asOf: number): ReturnSummary {
+  const series = buildDailyReturnSeries(entries, asOf);
+  const startDate = entries.length > 0 ? Math.min(...entries.map(e => e.timestamp)) : null;
+  const daysActive = startDate !== null ? Math.max(0, (asOf - startDate) / DAY_MS) : 0;
+  const currentValue = series.length > 0 ? series[series.length - 1].value : 0;
+  const timeWeightedReturn = series.length > 0 ? series[series.length - 1].twrIndex - 1 : 0;
+
+  const cashFlows = entries.filter(e => e.flow !== 0).map(e => ({ timestamp: e.timestamp, amount: -e.flow }));
+  if (currentValue > 0) {
+    cashFlows.push({ timestamp: asOf, amount: currentValue });
+  }
+
+  return {
+    startDate,
+    daysActive,
+    currentValue,
+    netContributions: entries.reduce((sum, e) => sum + e.flow, 0),
+    totalGain: entries.reduce((sum, e) => sum + e.gain, 0),
+    timeWeightedReturn,
+    annualizedTimeWeightedReturn: daysActive >= MIN_DAYS_TO_ANNUALIZE
+      ? Math.pow(1 + timeWeightedReturn, 365 / daysActive) - 1
+      : null,
+    moneyWeightedReturn: daysActive >= MIN_DAYS_TO_ANNUALIZE ? calculateIrr(cashFlows) : null,
+  };
+}
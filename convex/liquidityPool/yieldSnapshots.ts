@@ -0,0 +1,178 @@
+/**
+ * Liquidity Pool: Yield Snapshots
+ *
+ * Builds each provider's yield ledger (see yieldAccounting.ts) from pool_transactions and
+ * provider_premium_distributions, and stores one provider_yield_snapshots row per completed UTC day
+ * so the dashboard can chart TWR and IRR without replaying the whole history.
+ */
+
+import { v } from "convex/values";
+import { internalMutation, query, QueryCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { TransactionType, TransactionStatus, PremiumDistributionStatus } from "./types";
+import {
+  DAY_MS,
+  DailyReturnPoint,
+  ReturnSummary,
+  YieldLedgerEntry,
+  buildDailyReturnSeries,
+  startOfUtcDay,
+  summarizeReturns,
+} from "./yieldAccounting";
+
+// Sign of each ledger-relevant pool transaction type: flows move capital in or out, gains change its value
+const LEDGER_TRANSACTION_TYPES: Record<string, { flow?: 1 | -1; gain?: 1 | -1 }> = {
+  [TransactionType.DEPOSIT]: { flow: 1 },
+  [TransactionType.WITHDRAWAL]: { flow: -1 },
+  [TransactionType.PREMIUM_WITHDRAWAL]: { flow: -1 },
+  [TransactionType.SETTLEMENT]: { gain: -1 },
+};
+
+/**
+ * A provider's confirmed ledger for one token, oldest first.
+ */
+export async function loadYieldLedger(ctx: Pick<QueryCtx, "db">, provider: string, token: string): Promise<YieldLedgerEntry[]> {
+  const entries: YieldLedgerEntry[] = [];
+  for (const [txType, sign] of Object.entries(LEDGER_TRANSACTION_TYPES)) {
+    const transactions = await ctx.db
+      .query("pool_transactions")
+      .withIndex("by_provider_tx_type", (q) => q.eq("provider", provider).eq("tx_type", txType))
+      .filter((q) => q.eq(q.field("status"), TransactionStatus.CONFIRMED))
+      .collect();
+    for (const tx of transactions) {
+      if (tx.token !== token) continue;
+      entries.push({
+        timestamp: tx.timestamp,
+        flow: (sign.flow ?? 0) * tx.amount,
+        gain: (sign.gain ?? 0) * tx.amount,
+      });
+    }
+  }
+
+  const distributions = await ctx.db
+    .query("provider_premium_distributions")
+    .withIndex("by_provider_status", (q) => q.eq("provider", provider).eq("status", PremiumDistributionStatus.COMPLETED))
+    .collect();
+  for (const distribution of distributions) {
+    if (distribution.token !== token) continue;
+    entries.push({ timestamp: distribution.distribution_timestamp, flow: 0, gain: distribution.premium_amount });
+  }
+
+  return entries.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Stores snapshots for every completed day since the provider's last one
+ */
+export const recordProviderYieldSnapshots = internalMutation({
+  args: { provider: v.string(), token: v.string() },
+  handler: async (ctx, args): Promise<{ recorded: number }> => {
+    const today = startOfUtcDay(Date.now());
+    const latest = await ctx.db
+      .query("provider_yield_snapshots")
+      .withIndex("by_provider_token_day", q => q.eq("provider", args.provider).eq("token", args.token))
+      .order("desc")
+      .first();
+
+    const ledger = await loadYieldLedger(ctx, args.provider, args.token);
+    const newPoints = buildDailyReturnSeries(ledger, today - 1).filter(point => !latest || point.day > latest.day);
+    for (const point of newPoints) {
+      const dayEnd = point.day + DAY_MS - 1;
+      const summary = summarizeReturns(ledger.filter(entry => entry.timestamp <= dayEnd), dayEnd);
+      await ctx.db.insert("provider_yield_snapshots", {
+        provider: args.provider,
+        token: args.token,
+        day: point.day,
+        value: point.value,
+        net_flow: point.netFlow,
+        gain: point.gain,
+        daily_return: point.dailyReturn,
+        twr_index: point.twrIndex,
+        money_weighted_return: summary.moneyWeightedReturn ?? undefined,
+        created_at: Date.now(),
+      });
+    }
+    return { recorded: newPoints.length };
+  },
+});
+
+/**
+ * Daily job: snapshots every provider position
+ */
+export const snapshotProviderYieldsJob = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const balances = await ctx.db.query("provider_balances").collect();
+    for (const balance of balances) {
+      await ctx.scheduler.runAfter(0, internal.liquidityPool.yieldSnapshots.recordProviderYieldSnapshots, {
+        provider: balance.provider,
+        token: balance.token,
+      });
+    }
+    console.log(`Scheduled yield snapshots for ${balances.length} provider positions`);
+  },
+});
+
+export interface ReturnSeriesPoint {
+  day: number;
+  value: number;
+  dailyReturn: number;
+  timeWeightedReturn: number; // Cumulative since the first day
+  moneyWeightedReturn: number | null; // Annualized IRR to the end of the day
+}
+
+/**
+ * The signed-in provider's daily return series for a token: stored snapshots plus a live point
+ * for today, with the return summary as of now.
+ */
+export const getProviderReturnSeries = query({
+  args: {
+    token: v.string(),
+    days: v.optional(v.number()), // Most recent days to return (default 90)
+  },
+  handler: async (ctx, args): Promise<{ token: string; summary: ReturnSummary; series: ReturnSeriesPoint[] } | null> => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Authentication required to access provider returns");
+    }
+    const provider = identity.tokenIdentifier;
+
+    const ledger = await loadYieldLedger(ctx, provider, args.token);
+    if (ledger.length === 0) {
+      return null;
+    }
+    const now = Date.now();
+    const days = args.days ?? 90;
+    const fromDay = startOfUtcDay(now) - (days - 1) * DAY_MS;
+    const summary = summarizeReturns(ledger, now);
+
+    const snapshots = await ctx.db
+      .query("provider_yield_snapshots")
+      .withIndex("by_provider_token_day", q => q.eq("provider", provider).eq("token", args.token).gte("day", fromDay))
+      .collect();
+    const series: ReturnSeriesPoint[] = snapshots.map(snapshot => ({
+      day: snapshot.day,
+      value: snapshot.value,
+      dailyReturn: snapshot.daily_return,
+      timeWeightedReturn: snapshot.twr_index - 1,
+      moneyWeightedReturn: snapshot.money_weighted_return ?? null,
+    }));
+
+    // Days the snapshot job has not reached yet (including today) come from the ledger
+    const lastSnapshotDay = series.length > 0 ? series[series.length - 1].day : -Infinity;
+    const livePoints = buildDailyReturnSeries(ledger, now)
+      .filter((point: DailyReturnPoint) => point.day >= fromDay && point.day > lastSnapshotDay);
+    for (const point of livePoints) {
+      const dayEnd = Math.min(now, point.day + DAY_MS - 1);
+      series.push({
+        day: point.day,
+        value: point.value,
+        dailyReturn: point.dailyReturn,
+        timeWeightedReturn: point.twrIndex - 1,
+        moneyWeightedReturn: summarizeReturns(ledger.filter(entry => entry.timestamp <= dayEnd), dayEnd).moneyWeightedReturn,
+      });
+    }
+
+    return { token: args.token, summary, series };
+  },
+});
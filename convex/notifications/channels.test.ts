@@ -0,0 +1,175 @@
+// @vitest-environment node
+import { expect, test, describe, afterEach, vi } from "vitest";
+import dns from "dns";
+import { getNotificationChannel, signWebhookBody, WEBHOOK_SIGNATURE_HEADER } from "./channels";
+import { NOTIFICATION_CHANNELS, NOTIFICATION_EVENTS, NotificationMessage, isPrivateNetworkHost, resolveNotificationRoutes } from "./types";
+import { startLocalSmtpServer, startLocalWebhookServer } from "./testing/localServers";
+
+const message = (target: string): NotificationMessage => ({
+  id: "n1",
+  provider: "SP_ALICE",
+  eventType: NOTIFICATION_EVENTS.SETTLEMENT,
+  title: "Settlement paid",
+  body: "1000 STX of your capital was paid out.\n.hidden line",
+  data: { amount: 1000 },
+  target,
+  createdAt: 1,
+});
+
+const servers: { close(): Promise<void> }[] = [];
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(s => s.close()));
+  vi.restoreAllMocks();
+});
+
+describe("resolveNotificationRoutes", () => {
+  test("defaults to the in-app feed only", () => {
+    expect(resolveNotificationRoutes(undefined, NOTIFICATION_EVENTS.SETTLEMENT)).toEqual([
+      { channel: NOTIFICATION_CHANNELS.IN_APP },
+    ]);
+  });
+
+  test("email follows the per-event flag and needs an address", () => {
+    const settings = { emailOnSettlement: true, emailAddress: "lp@example.com", inAppEnabled: false };
+    expect(resolveNotificationRoutes(settings, NOTIFICATION_EVENTS.SETTLEMENT)).toEqual([
+      { channel: NOTIFICATION_CHANNELS.EMAIL, target: "lp@example.com" },
+    ]);
+    expect(resolveNotificationRoutes(settings, NOTIFICATION_EVENTS.POLICY_ALLOCATED)).toEqual([]);
+    expect(resolveNotificationRoutes({ emailOnSettlement: true, inAppEnabled: false }, NOTIFICATION_EVENTS.SETTLEMENT)).toEqual([]);
+  });
+
+  test("webhooks get the listed events", () => {
+    const settings = { webhookUrl: "https://lp.example.com/hook", webhookEvents: [NOTIFICATION_EVENTS.PREMIUM_DISTRIBUTED] };
+    expect(resolveNotificationRoutes(settings, NOTIFICATION_EVENTS.PREMIUM_DISTRIBUTED).map(r => r.channel)).toContain(NOTIFICATION_CHANNELS.WEBHOOK);
+    expect(resolveNotificationRoutes(settings, NOTIFICATION_EVENTS.SETTLEMENT).map(r => r.channel)).not.toContain(NOTIFICATION_CHANNELS.WEBHOOK);
+  });
+});
+
+describe("isPrivateNetworkHost", () => {
+  const hostOf = (url: string) => new URL(url).hostname;
+
+  test("rejects loopback, private and link-local hosts", () => {
+    for (const url of [
+      "http://localhost:8080/hook",
+      "http://127.0.0.1/hook",
+      "http://0x7f.1/hook",
+      "http://10.1.2.3/hook",
+      "http://172.20.0.1/hook",
+      "http://192.168.1.10/hook",
+      "http://169.254.169.254/latest/meta-data",
+      "http://[::1]/hook",
+      "http://[fd12::1]/hook",
+      "http://[fe80::1]/hook",
+      "http://[::ffff:10.0.0.1]/hook",
+    ]) {
+      expect(isPrivateNetworkHost(hostOf(url)), url).toBe(true);
+    }
+    // As resolvers return them
+    expect(isPrivateNetworkHost("::ffff:192.168.0.1")).toBe(true);
+    expect(isPrivateNetworkHost("fe80::1")).toBe(true);
+  });
+
+  test("allows public hosts", () => {
+    for (const url of ["https://lp.example.com/hook", "https://8.8.8.8/hook", "https://172.32.0.1/hook", "https://[2001:db8::1]/hook"]) {
+      expect(isPrivateNetworkHost(hostOf(url)), url).toBe(false);
+    }
+  });
+});
+
+describe("email channel", () => {
+  test("delivers through SMTP", async () => {
+    const smtp = await startLocalSmtpServer();
+    servers.push(smtp);
+    const config = { smtp: { host: smtp.host, port: smtp.port, secure: false, user: "bot", password: "pw", from: "noreply@bithedge.test" } };
+
+    const result = await getNotificationChannel(NOTIFICATION_CHANNELS.EMAIL).deliver(message("lp@example.com"), config);
+
+    expect(result.success).toBe(true);
+    expect(smtp.messages).toHaveLength(1);
+    expect(smtp.messages[0].to).toEqual(["lp@example.com"]);
+    expect(smtp.messages[0].auth).toEqual({ user: "bot", password: "pw" });
+    expect(smtp.messages[0].data).toContain("Subject: Settlement paid");
+    expect(smtp.messages[0].data).toContain("\r\n.hidden line");
+  });
+
+  test("reports rejected recipients", async () => {
+    const smtp = await startLocalSmtpServer({ rejectRecipients: true });
+    servers.push(smtp);
+    const config = { smtp: { host: smtp.host, port: smtp.port, secure: false, from: "noreply@bithedge.test" } };
+
+    const result = await getNotificationChannel(NOTIFICATION_CHANNELS.EMAIL).deliver(message("lp@example.com"), config);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/550/);
+  });
+
+  test("fails without SMTP config", async () => {
+    const result = await getNotificationChannel(NOTIFICATION_CHANNELS.EMAIL).deliver(message("lp@example.com"), {});
+    expect(result).toEqual({ success: false, error: "SMTP is not configured" });
+  });
+});
+
+describe("webhook channel", () => {
+  // The local test server listens on a loopback address
+  const local = { allowPrivateWebhookHosts: true };
+
+  test("posts a signed JSON body", async () => {
+    const hook = await startLocalWebhookServer();
+    servers.push(hook);
+
+    const result = await getNotificationChannel(NOTIFICATION_CHANNELS.WEBHOOK).deliver({ ...message(hook.url), webhookSecret: "s3cret" }, local);
+
+    expect(result.success).toBe(true);
+    const [request] = hook.requests;
+    expect(JSON.parse(request.body)).toMatchObject({ id: "n1", event: NOTIFICATION_EVENTS.SETTLEMENT, data: { amount: 1000 } });
+    expect(request.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()]).toBe(signWebhookBody(request.body, "s3cret"));
+  });
+
+  test("treats non-2xx responses as failures", async () => {
+    const hook = await startLocalWebhookServer({ status: 503 });
+    servers.push(hook);
+
+    const result = await getNotificationChannel(NOTIFICATION_CHANNELS.WEBHOOK).deliver({ ...message(hook.url), webhookSecret: "s3cret" }, local);
+
+    expect(result.success).toBe(false);
+    expect(result.response).toBe("HTTP 503");
+  });
+
+  test("does not follow redirects", async () => {
+    const hook = await startLocalWebhookServer({ redirectTo: "http://169.254.169.254/latest/meta-data" });
+    servers.push(hook);
+
+    const result = await getNotificationChannel(NOTIFICATION_CHANNELS.WEBHOOK).deliver({ ...message(hook.url), webhookSecret: "s3cret" }, local);
+
+    expect(result).toMatchObject({ success: false, response: "HTTP 302" });
+    expect(hook.requests).toHaveLength(1);
+  });
+
+  test("refuses private hosts, including names that resolve to private addresses", async () => {
+    const hook = await startLocalWebhookServer();
+    servers.push(hook);
+    const webhook = getNotificationChannel(NOTIFICATION_CHANNELS.WEBHOOK);
+
+    expect(await webhook.deliver({ ...message(hook.url), webhookSecret: "s3cret" }, {})).toEqual({
+      success: false,
+      error: "Webhook host 127.0.0.1 is a private, loopback or link-local address",
+    });
+    expect(hook.requests).toHaveLength(0);
+
+    vi.spyOn(dns.promises, "lookup").mockResolvedValue([{ address: "10.0.0.5", family: 4 }] as any);
+    expect(await webhook.deliver({ ...message("https://hooks.example.com/bithedge"), webhookSecret: "s3cret" }, {})).toEqual({
+      success: false,
+      error: "Webhook host hooks.example.com resolves to private address 10.0.0.5",
+    });
+  });
+
+  test("does not post without the provider's webhook secret", async () => {
+    const hook = await startLocalWebhookServer();
+    servers.push(hook);
+
+    const result = await getNotificationChannel(NOTIFICATION_CHANNELS.WEBHOOK).deliver(message(hook.url), {});
+
+    expect(result).toEqual({ success: false, error: "No webhook secret" });
+    expect(hook.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,167 @@
+"use node";
+
+/**
+ * Notifications: Channels
+ *
+ * Delivery channels for outbox notifications. Each channel takes a message (with its target
+ * resolved at enqueue time) and reports success or failure; retries are left to the outbox.
+ */
+
+import crypto from "crypto";
+import dns from "dns";
+import { NOTIFICATION_CHANNELS, DeliveryResult, NotificationMessage, isPrivateNetworkHost } from "./types";
+import { SmtpConfig, sendMail } from "./smtp";
+
+export interface ChannelConfig {
+  smtp?: SmtpConfig; // Email is unavailable when unset
+  webhookTimeoutMs?: number;
+  allowPrivateWebhookHosts?: boolean; // Skips the private-address check, for local development only
+}
+
+export interface NotificationChannel {
+  name: string;
+  deliver(message: NotificationMessage, config: ChannelConfig): Promise<DeliveryResult>;
+}
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-BitHedge-Signature";
+
+/**
+ * HMAC-SHA256 of a webhook body under the provider's webhook secret, in the form sent in
+ * WEBHOOK_SIGNATURE_HEADER
+ */
+export function signWebhookBody(body: string, secret: string): string {
+  return `sha256=${crypto.createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+const emailChannel: NotificationChannel = {
+  name: NOTIFICATION_CHANNELS.EMAIL,
+  async deliver(message, config) {
+    if (!config.smtp) {
+      return { success: false, error: "SMTP is not configured" };
+    }
+    if (!message.target) {
+      return { success: false, error: "No email address" };
+    }
+    try {
+      const response = await sendMail(config.smtp, {
+        to: message.target,
+        subject: message.title,
+        text: `${message.body}\n\nYou are receiving this because of your BitHedge notification settings.`,
+      });
+      return { success: true, response };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  },
+};
+
+/**
+ * Checks where a webhook would connect at delivery time: URLs are validated when saved, but a
+ * public name can resolve to an internal address.
+ * @returns why the webhook must not be posted to, or null when every address it resolves to is public
+ */
+async function checkWebhookHost(target: string): Promise<string | null> {
+  const hostname = new URL(target).hostname;
+  if (isPrivateNetworkHost(hostname)) {
+    return `Webhook host ${hostname} is a private, loopback or link-local address`;
+  }
+  const addresses = await dns.promises.lookup(hostname.replace(/^\[|\]$/g, ""), { all: true });
+  const blocked = addresses.find(({ address }) => isPrivateNetworkHost(address));
+  return blocked ? `Webhook host ${hostname} resolves to private address ${blocked.address}` : null;
+}
+
+const webhookChannel: NotificationChannel = {
+  name: NOTIFICATION_CHANNELS.WEBHOOK,
+  async deliver(message, config) {
+    if (!message.target) {
+      return { success: false, error: "No webhook URL" };
+    }
+    if (!message.webhookSecret) {
+      return { success: false, error: "No webhook secret" };
+    }
+    const body = JSON.stringify({
+      id: message.id,
+      provider: message.provider,
+      event: message.eventType,
+      title: message.title,
+      body: message.body,
+      data: message.data ?? null,
+      createdAt: message.createdAt,
+    });
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "X-BitHedge-Event": message.eventType,
+      [WEBHOOK_SIGNATURE_HEADER]: signWebhookBody(body, message.webhookSecret),
+    };
+
+    try {
+      if (!config.allowPrivateWebhookHosts) {
+        const blocked = await checkWebhookHost(message.target);
+        if (blocked) {
+          return { success: false, error: blocked };
+        }
+      }
+      // Redirects are not followed, so a redirect cannot lead past the host check
+      const response = await fetch(message.target, {
+        method: "POST",
+        headers,
+        body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(config.webhookTimeoutMs ?? 10_000),
+      });
+      if (!response.ok) {
+        return { success: false, response: `HTTP ${response.status}`, error: `Webhook responded with ${response.status}` };
+      }
+      return { success: true, response: `HTTP ${response.status}` };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  },
+};
+
+// The outbox row is the feed entry, so there is nothing to send
+const inAppChannel: NotificationChannel = {
+  name: NOTIFICATION_CHANNELS.IN_APP,
+  async deliver() {
+    return { success: true };
+  },
+};
+
+const CHANNELS: Record<string, NotificationChannel> = {
+  [NOTIFICATION_CHANNELS.EMAIL]: emailChannel,
+  [NOTIFICATION_CHANNELS.WEBHOOK]: webhookChannel,
+  [NOTIFICATION_CHANNELS.IN_APP]: inAppChannel,
+};
+
+/**
+ * @throws when the channel name is unknown
+ */
+export function getNotificationChannel(name: string): NotificationChannel {
+  const channel = CHANNELS[name];
+  if (!channel) {
+    throw new Error(`Unknown notification channel "${name}"`);
+  }
+  return channel;
+}
+
+/**
+ * Channel config from the NOTIFICATION_* environment variables
+ */
+export function loadChannelConfigFromEnv(): ChannelConfig {
+  const host = process.env.NOTIFICATION_SMTP_HOST;
+  const from = process.env.NOTIFICATION_EMAIL_FROM;
+  const secure = process.env.NOTIFICATION_SMTP_SECURE === "true";
+  return {
+    smtp: host && from
+      ? {
+          host,
+          port: Number(process.env.NOTIFICATION_SMTP_PORT) || (secure ? 465 : 25),
+          secure,
+          user: process.env.NOTIFICATION_SMTP_USER,
+          password: process.env.NOTIFICATION_SMTP_PASSWORD,
+          from,
+        }
+      : undefined,
+    allowPrivateWebhookHosts: process.env.NOTIFICATION_ALLOW_PRIVATE_WEBHOOKS === "true",
+  };
+}
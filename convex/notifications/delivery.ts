@@ -0,0 +1,54 @@
+"use node";
+
+/**
+ * Notifications: Delivery
+ *
+ * Cron-driven delivery of due outbox notifications through their channels.
+ */
+
+import { v } from "convex/values";
+import { internalAction } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { Id } from "../_generated/dataModel";
+import { getNotificationChannel, loadChannelConfigFromEnv } from "./channels";
+import { DeliveryResult } from "./types";
+
+const DEFAULT_BATCH_SIZE = 50;
+
+export const deliverPendingNotifications = internalAction({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args): Promise<{ delivered: number; failed: number }> => {
+    const stats = { delivered: 0, failed: 0 };
+    const config = loadChannelConfigFromEnv();
+    const due = await ctx.runMutation(internal.notifications.outbox.claimDueNotifications, {
+      limit: args.limit ?? DEFAULT_BATCH_SIZE,
+    });
+
+    for (const message of due) {
+      let result: DeliveryResult;
+      try {
+        result = await getNotificationChannel(message.channel).deliver(message, config);
+      } catch (error: any) {
+        result = { success: false, error: error.message };
+      }
+
+      await ctx.runMutation(internal.notifications.outbox.recordDeliveryAttempt, {
+        notificationId: message.id as Id<"notification_outbox">,
+        success: result.success,
+        response: result.response,
+        error: result.error,
+      });
+      if (result.success) {
+        stats.delivered++;
+      } else {
+        stats.failed++;
+        console.warn(`Delivery of ${message.channel} notification ${message.id} to ${message.provider} failed: ${result.error}`);
+      }
+    }
+
+    if (due.length > 0) {
+      console.log(`Notification delivery: ${stats.delivered} delivered, ${stats.failed} failed`);
+    }
+    return stats;
+  },
+});
@@ -0,0 +1,253 @@
+/**
+ * Notifications: Outbox
+ *
+ * Provider events are written to notification_outbox (one row per channel the provider's
+ * notificationSettings route them to) inside the mutation that caused them, then delivered by
+ * notifications/delivery.ts. Every attempt is recorded in notification_delivery_logs.
+ */
+
+import { v } from "convex/values";
+import { internalMutation, mutation, query, MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_STATUS,
+  MAX_DELIVERY_ATTEMPTS,
+  NotificationMessage,
+  getRetryDelayMs,
+  resolveNotificationRoutes,
+} from "./types";
+
+// How long a delivery run holds a claim before the notification is due again
+const CLAIM_TIMEOUT_MS = 5 * 60_000;
+
+export interface ProviderNotification {
+  provider: string;
+  eventType: string; // NOTIFICATION_EVENTS
+  title: string;
+  body: string;
+  data?: any;
+}
+
+/**
+ * Queues a provider notification on every channel the provider's preferences route it to.
+ * @returns the outbox ids created (none when every channel is turned off)
+ */
+export async function enqueueProviderNotification(
+  ctx: Pick<MutationCtx, "db">,
+  notification: ProviderNotification
+): Promise<Id<"notification_outbox">[]> {
+  const preferences = await ctx.db
+    .query("provider_preferences")
+    .withIndex("by_provider", (q) => q.eq("provider", notification.provider))
+    .unique();
+
+  const now = Date.now();
+  const ids: Id<"notification_outbox">[] = [];
+  for (const route of resolveNotificationRoutes(preferences?.notificationSettings, notification.eventType)) {
+    ids.push(await ctx.db.insert("notification_outbox", {
+      provider: notification.provider,
+      event_type: notification.eventType,
+      channel: route.channel,
+      target: route.target,
+      title: notification.title,
+      body: notification.body,
+      data: notification.data,
+      status: NOTIFICATION_STATUS.PENDING,
+      attempts: 0,
+      next_attempt_at: now,
+      created_at: now,
+    }));
+  }
+  return ids;
+}
+
+function toMessage(doc: Doc<"notification_outbox">): NotificationMessage {
+  return {
+    id: doc._id,
+    provider: doc.provider,
+    eventType: doc.event_type,
+    title: doc.title,
+    body: doc.body,
+    data: doc.data,
+    target: doc.target,
+    createdAt: doc.created_at,
+  };
+}
+
+/**
+ * Claims due notifications for a delivery run. Claims that were never resolved (e.g. the run
+ * crashed) become due again after CLAIM_TIMEOUT_MS.
+ */
+export const claimDueNotifications = internalMutation({
+  args: { limit: v.number() },
+  handler: async (ctx, args): Promise<(NotificationMessage & { channel: string })[]> => {
+    const now = Date.now();
+    const due: Doc<"notification_outbox">[] = [];
+    for (const status of [NOTIFICATION_STATUS.PENDING, NOTIFICATION_STATUS.SENDING]) {
+      if (due.length >= args.limit) break;
+      due.push(...await ctx.db
+        .query("notification_outbox")
+        .withIndex("by_status_next_attempt", q => q.eq("status", status).lte("next_attempt_at", now))
+        .take(args.limit - due.length));
+    }
+
+    const messages: (NotificationMessage & { channel: string })[] = [];
+    for (const doc of due) {
+      await ctx.db.patch(doc._id, {
+        status: NOTIFICATION_STATUS.SENDING,
+        next_attempt_at: now + CLAIM_TIMEOUT_MS,
+      });
+      const message: NotificationMessage & { channel: string } = { ...toMessage(doc), channel: doc.channel };
+      if (doc.channel === NOTIFICATION_CHANNELS.WEBHOOK) {
+        // Signed with the provider's own secret, generated when they set the webhook URL
+        const preferences = await ctx.db
+          .query("provider_preferences")
+          .withIndex("by_provider", q => q.eq("provider", doc.provider))
+          .unique();
+        message.webhookSecret = preferences?.webhookSecret;
+      }
+      messages.push(message);
+    }
+    return messages;
+  },
+});
+
+/**
+ * Records one delivery attempt and schedules a retry (with backoff) or gives up
+ */
+export const recordDeliveryAttempt = internalMutation({
+  args: {
+    notificationId: v.id("notification_outbox"),
+    success: v.boolean(),
+    response: v.optional(v.string()),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const notification = await ctx.db.get(args.notificationId);
+    if (!notification) {
+      console.error(`Notification ${args.notificationId} not found when recording delivery.`);
+      return;
+    }
+
+    const now = Date.now();
+    const attempts = notification.attempts + 1;
+    await ctx.db.insert("notification_delivery_logs", {
+      notification_id: notification._id,
+      provider: notification.provider,
+      event_type: notification.event_type,
+      channel: notification.channel,
+      target: notification.target,
+      attempt: attempts,
+      success: args.success,
+      response: args.response,
+      error: args.error,
+      timestamp: now,
+    });
+
+    if (args.success) {
+      await ctx.db.patch(notification._id, {
+        status: NOTIFICATION_STATUS.DELIVERED,
+        attempts,
+        delivered_at: now,
+        last_error: undefined,
+      });
+      return;
+    }
+
+    const givingUp = attempts >= MAX_DELIVERY_ATTEMPTS;
+    await ctx.db.patch(notification._id, {
+      status: givingUp ? NOTIFICATION_STATUS.FAILED : NOTIFICATION_STATUS.PENDING,
+      attempts,
+      next_attempt_at: now + getRetryDelayMs(attempts),
+      last_error: args.error,
+    });
+    if (givingUp) {
+      console.warn(`Giving up on ${notification.channel} notification ${notification._id} for ${notification.provider}: ${args.error}`);
+    }
+  },
+});
+
+/**
+ * The signed-in provider's in-app notification feed, newest first
+ */
+export const getMyNotifications = query({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity || !identity.tokenIdentifier) {
+      return { notifications: [], unreadCount: 0 };
+    }
+
+    const notifications = await ctx.db
+      .query("notification_outbox")
+      .withIndex("by_provider_channel", q => q.eq("provider", identity.tokenIdentifier).eq("channel", NOTIFICATION_CHANNELS.IN_APP))
+      .order("desc")
+      .take(args.limit ?? 50);
+
+    return {
+      notifications: notifications.map(n => ({
+        id: n._id,
+        eventType: n.event_type,
+        title: n.title,
+        body: n.body,
+        data: n.data,
+        createdAt: n.created_at,
+        read: n.read_at !== undefined,
+      })),
+      unreadCount: notifications.filter(n => n.read_at === undefined).length,
+    };
+  },
+});
+
+/**
+ * Marks the given in-app notifications (or all unread ones) as read for the signed-in provider
+ */
+export const markNotificationsRead = mutation({
+  args: { notificationIds: v.optional(v.array(v.id("notification_outbox"))) },
+  handler: async (ctx, args): Promise<{ success: boolean; message: string }> => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity || !identity.tokenIdentifier) {
+      return { success: false, message: "Authentication required." };
+    }
+
+    const notifications = args.notificationIds
+      ? await Promise.all(args.notificationIds.map(id => ctx.db.get(id)))
+      : await ctx.db
+          .query("notification_outbox")
+          .withIndex("by_provider_channel", q => q.eq("provider", identity.tokenIdentifier).eq("channel", NOTIFICATION_CHANNELS.IN_APP))
+          .filter(q => q.eq(q.field("read_at"), undefined))
+          .collect();
+
+    const now = Date.now();
+    let marked = 0;
+    for (const notification of notifications) {
+      if (!notification || notification.provider !== identity.tokenIdentifier || notification.channel !== NOTIFICATION_CHANNELS.IN_APP) {
+        continue;
+      }
+      if (notification.read_at === undefined) {
+        await ctx.db.patch(notification._id, { read_at: now });
+        marked++;
+      }
+    }
+    return { success: true, message: `Marked ${marked} notification(s) as read.` };
+  },
+});
+
+/**
+ * The signed-in provider's delivery log across all channels, newest first
+ */
+export const getMyNotificationDeliveries = query({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args): Promise<Doc<"notification_delivery_logs">[]> => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity || !identity.tokenIdentifier) {
+      return [];
+    }
+    return await ctx.db
+      .query("notification_delivery_logs")
+      .withIndex("by_provider_timestamp", q => q.eq("provider", identity.tokenIdentifier))
+      .order("desc")
+      .take(args.limit ?? 50);
+  },
+});
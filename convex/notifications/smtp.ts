@@ -0,0 +1,154 @@
+"use node";
+
+/**
+ * Notifications: SMTP client
+ *
+ * Minimal SMTP submission (EHLO, optional AUTH PLAIN, MAIL/RCPT/DATA) for plain-text notification
+ * emails, over a plain or implicit-TLS connection.
+ */
+
+import net from "net";
+import tls from "tls";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS (usually port 465)
+  user?: string;
+  password?: string;
+  from: string;
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export class SmtpError extends Error {
+  constructor(message: string, public readonly code?: number) {
+    super(message);
+    this.name = "SmtpError";
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/**
+ * Reads SMTP replies off a socket, joining multi-line ("250-...") replies
+ */
+function createReplyReader(socket: net.Socket) {
+  let buffer = "";
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  const waiters: { resolve: (r: SmtpReply) => void; reject: (e: Error) => void }[] = [];
+  let closedError: Error | null = null;
+
+  const flush = () => {
+    while (replies.length > 0 && waiters.length > 0) {
+      waiters.shift()!.resolve(replies.shift()!);
+    }
+    if (closedError) {
+      while (waiters.length > 0) waiters.shift()!.reject(closedError);
+    }
+  };
+
+  socket.on("data", (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let newline: number;
+    while ((newline = buffer.indexOf("\r\n")) >= 0) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+      lines.push(line.slice(4));
+      if (line.length < 4 || line[3] === " ") {
+        replies.push({ code: parseInt(line.slice(0, 3), 10), text: lines.join("\n") });
+        lines = [];
+      }
+    }
+    flush();
+  });
+  socket.on("error", (error) => {
+    closedError = error;
+    flush();
+  });
+  socket.on("close", () => {
+    closedError = closedError ?? new SmtpError("Connection closed by server");
+    flush();
+  });
+
+  return (): Promise<SmtpReply> =>
+    new Promise((resolve, reject) => {
+      waiters.push({ resolve, reject });
+      flush();
+    });
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+/**
+ * Builds the DATA section, dot-stuffing lines that start with "."
+ */
+export function buildMailData(from: string, message: MailMessage): string {
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit",
+  ];
+  const body = message.text
+    .replace(/\r?\n/g, "\r\n")
+    .split("\r\n")
+    .map(line => (line.startsWith(".") ? `.${line}` : line))
+    .join("\r\n");
+  return `${headers.join("\r\n")}\r\n\r\n${body}\r\n.\r\n`;
+}
+
+/**
+ * Sends one message
+ * @returns the server's reply to the message data (usually a queue id)
+ * @throws SmtpError when the server rejects a command or the connection fails
+ */
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<string> {
+  const socket: net.Socket = config.secure
+    ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+    : net.connect({ host: config.host, port: config.port });
+  socket.setTimeout(config.timeoutMs ?? 15_000, () => socket.destroy(new SmtpError("SMTP connection timed out")));
+  const readReply = createReplyReader(socket);
+
+  const expect = async (command: string | null, okCodes: number[]): Promise<SmtpReply> => {
+    if (command !== null) socket.write(`${command}\r\n`);
+    const reply = await readReply();
+    if (!okCodes.includes(reply.code)) {
+      const shown = command?.startsWith("AUTH") ? "AUTH" : command ?? "greeting";
+      throw new SmtpError(`${shown} rejected: ${reply.code} ${reply.text}`, reply.code);
+    }
+    return reply;
+  };
+
+  try {
+    await expect(null, [220]);
+    await expect("EHLO bithedge.local", [250]);
+    if (config.user) {
+      const credentials = Buffer.from(`\0${config.user}\0${config.password ?? ""}`, "utf8").toString("base64");
+      await expect(`AUTH PLAIN ${credentials}`, [235]);
+    }
+    await expect(`MAIL FROM:<${config.from}>`, [250]);
+    await expect(`RCPT TO:<${message.to}>`, [250, 251]);
+    await expect("DATA", [354]);
+    socket.write(buildMailData(config.from, message));
+    const accepted = await expect(null, [250]);
+    socket.write("QUIT\r\n");
+    return `${accepted.code} ${accepted.text}`;
+  } finally {
+    socket.end();
+  }
+}
@@ -0,0 +1,157 @@
+"use node";
+
+/**
+ * Local SMTP and webhook stand-ins
+ *
+ * In-process servers that accept notification deliveries and keep what they receive, for tests
+ * and local development (point NOTIFICATION_SMTP_HOST / a provider's webhookUrl at them).
+ */
+
+import net from "net";
+import http from "http";
+import { AddressInfo } from "net";
+
+export interface ReceivedMail {
+  from: string;
+  to: string[];
+  data: string; // Headers and body, with dot-stuffing removed
+  auth?: { user: string; password: string };
+}
+
+export interface LocalSmtpServer {
+  host: string;
+  port: number;
+  messages: ReceivedMail[];
+  close(): Promise<void>;
+}
+
+export interface LocalSmtpOptions {
+  rejectRecipients?: boolean; // Answer RCPT TO with 550
+}
+
+/**
+ * Starts an SMTP server on a free local port
+ */
+export async function startLocalSmtpServer(options: LocalSmtpOptions = {}): Promise<LocalSmtpServer> {
+  const messages: ReceivedMail[] = [];
+
+  const server = net.createServer((socket) => {
+    let buffer = "";
+    let inData = false;
+    let current: ReceivedMail = { from: "", to: [], data: "" };
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    reply("220 localhost ESMTP stand-in");
+    socket.on("data", (chunk: Buffer) => {
+      buffer += chunk.toString("utf8");
+      if (inData) {
+        const end = buffer.indexOf("\r\n.\r\n");
+        if (end < 0) return;
+        current.data = buffer.slice(0, end).split("\r\n").map(l => (l.startsWith("..") ? l.slice(1) : l)).join("\r\n");
+        messages.push(current);
+        current = { from: "", to: [], data: "" };
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        reply("250 2.0.0 Ok: queued as STANDIN");
+      }
+
+      let newline: number;
+      while (!inData && (newline = buffer.indexOf("\r\n")) >= 0) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === "EHLO" || command === "HELO") {
+          reply("250-localhost");
+          reply("250 AUTH PLAIN");
+        } else if (command === "AUTH") {
+          const [, user, password] = Buffer.from(line.split(" ")[2] ?? "", "base64").toString("utf8").split("\0");
+          current.auth = { user, password };
+          reply("235 2.7.0 Authentication successful");
+        } else if (command === "MAIL") {
+          current.from = line.replace(/^MAIL FROM:<(.*)>.*$/i, "$1");
+          reply("250 2.1.0 Ok");
+        } else if (command === "RCPT") {
+          if (options.rejectRecipients) {
+            reply("550 5.1.1 Recipient rejected");
+          } else {
+            current.to.push(line.replace(/^RCPT TO:<(.*)>.*$/i, "$1"));
+            reply("250 2.1.5 Ok");
+          }
+        } else if (command === "DATA") {
+          inData = true;
+          reply("354 End data with <CR><LF>.<CR><LF>");
+        } else if (command === "QUIT") {
+          reply("221 2.0.0 Bye");
+          socket.end();
+        } else {
+          reply("502 5.5.2 Command not recognized");
+        }
+      }
+    });
+    socket.on("error", () => socket.destroy());
+  });
+
+  const port = await listen(server);
+  return {
+    host: "127.0.0.1",
+    port,
+    messages,
+    close: () => close(server),
+  };
+}
+
+export interface ReceivedWebhook {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+export interface LocalWebhookServer {
+  url: string;
+  requests: ReceivedWebhook[];
+  close(): Promise<void>;
+}
+
+/**
+ * Starts an HTTP server on a free local port that answers every request with the given status,
+ * or with a 302 to `redirectTo`
+ */
+export async function startLocalWebhookServer(options: { status?: number; redirectTo?: string } = {}): Promise<LocalWebhookServer> {
+  const requests: ReceivedWebhook[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      requests.push({ method: req.method ?? "", path: req.url ?? "", headers: req.headers, body });
+      if (options.redirectTo) {
+        res.writeHead(302, { Location: options.redirectTo });
+        res.end();
+        return;
+      }
+      res.writeHead(options.status ?? 200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ received: true }));
+    });
+  });
+
+  const port = await listen(server);
+  return {
+    url: `http://127.0.0.1:${port}/notifications`,
+    requests,
+    close: () => close(server),
+  };
+}
+
+function listen(server: net.Server): Promise<number> {
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => resolve((server.address() as AddressInfo).port));
+  });
+}
+
+function close(server: net.Server): Promise<void> {
+  return new Promise((resolve) => {
+    if ("closeAllConnections" in server) (server as http.Server).closeAllConnections();
+    server.close(() => resolve());
+  });
+}
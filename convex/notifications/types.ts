@@ -0,0 +1,154 @@
+/**
+ * Notifications: Types
+ *
+ * Event, channel and status constants for provider notifications, and the routing of an event
+ * to channels from a provider's notificationSettings preferences.
+ */
+
+export const NOTIFICATION_EVENTS = {
+  POLICY_ALLOCATED: "policy_allocated", // Provider capital was allocated to a new policy
+  SETTLEMENT: "settlement", // Provider capital paid out for a policy settlement
+  PREMIUM_DISTRIBUTED: "premium_distributed", // Premium credited to the provider
+  WITHDRAWAL_CONFIRMED: "withdrawal_confirmed", // Capital or premium withdrawal confirmed on-chain
+} as const;
+
+export const NOTIFICATION_CHANNELS = {
+  EMAIL: "email",
+  WEBHOOK: "webhook",
+  IN_APP: "in_app",
+} as const;
+
+export const NOTIFICATION_STATUS = {
+  PENDING: "PENDING", // Waiting for its next delivery attempt
+  SENDING: "SENDING", // Claimed by a delivery run
+  DELIVERED: "DELIVERED",
+  FAILED: "FAILED", // Gave up after MAX_DELIVERY_ATTEMPTS
+} as const;
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+// Mirrors provider_preferences.notificationSettings
+export interface NotificationSettings {
+  emailOnSettlement?: boolean;
+  emailOnNewPolicyAllocated?: boolean;
+  emailOnPremiumDistribution?: boolean;
+  emailOnWithdrawalConfirmed?: boolean;
+  emailAddress?: string;
+  webhookUrl?: string;
+  webhookEvents?: string[];
+  inAppEnabled?: boolean;
+}
+
+// The notification a channel delivers
+export interface NotificationMessage {
+  id: string;
+  provider: string;
+  eventType: string;
+  title: string;
+  body: string;
+  data?: any;
+  target?: string;
+  webhookSecret?: string; // The provider's signing secret, webhooks only
+  createdAt: number;
+}
+
+export interface DeliveryResult {
+  success: boolean;
+  response?: string;
+  error?: string;
+}
+
+export interface NotificationRoute {
+  channel: string;
+  target?: string;
+}
+
+const EMAIL_FLAGS: Record<string, keyof NotificationSettings> = {
+  [NOTIFICATION_EVENTS.POLICY_ALLOCATED]: "emailOnNewPolicyAllocated",
+  [NOTIFICATION_EVENTS.SETTLEMENT]: "emailOnSettlement",
+  [NOTIFICATION_EVENTS.PREMIUM_DISTRIBUTED]: "emailOnPremiumDistribution",
+  [NOTIFICATION_EVENTS.WITHDRAWAL_CONFIRMED]: "emailOnWithdrawalConfirmed",
+};
+
+/**
+ * Channels (and their targets) an event goes to for a provider. Email is opt-in per event,
+ * webhooks get the listed events (all when none are listed), and the in-app feed is on by default.
+ */
+export function resolveNotificationRoutes(
+  settings: NotificationSettings | undefined,
+  eventType: string
+): NotificationRoute[] {
+  const routes: NotificationRoute[] = [];
+  const emailFlag = EMAIL_FLAGS[eventType];
+  if (settings?.emailAddress && emailFlag && settings[emailFlag] === true) {
+    routes.push({ channel: NOTIFICATION_CHANNELS.EMAIL, target: settings.emailAddress });
+  }
+  if (settings?.webhookUrl && (!settings.webhookEvents || settings.webhookEvents.includes(eventType))) {
+    routes.push({ channel: NOTIFICATION_CHANNELS.WEBHOOK, target: settings.webhookUrl });
+  }
+  if (settings?.inAppEnabled !== false) {
+    routes.push({ channel: NOTIFICATION_CHANNELS.IN_APP });
+  }
+  return routes;
+}
+
+function parseIpv4(host: string): number[] | null {
+  const parts = host.split(".");
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part))) {
+    return null;
+  }
+  const octets = parts.map(Number);
+  return octets.every(octet => octet <= 255) ? octets : null;
+}
+
+function isPrivateIpv4([a, b]: number[]): boolean {
+  return a === 0 || a === 10 || a === 127 // "This" network, private, loopback
+    || (a === 169 && b === 254) // Link-local, including cloud metadata endpoints
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || (a === 100 && b >= 64 && b <= 127); // Carrier-grade NAT
+}
+
+/**
+ * Whether a URL hostname names a loopback, private or link-local address (or localhost), which
+ * webhooks must not target. Expects a hostname as normalized by the URL parser, or a resolved address.
+ */
+export function isPrivateNetworkHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  if (host === "localhost" || host.endsWith(".localhost")) {
+    return true;
+  }
+  const ipv4 = parseIpv4(host);
+  if (ipv4) {
+    return isPrivateIpv4(ipv4);
+  }
+  if (!host.includes(":")) {
+    return false;
+  }
+
+  if (host === "::" || host === "::1") {
+    return true;
+  }
+  // IPv4-mapped addresses, dotted as resolvers return them or as two hex groups as the URL parser writes them
+  const dotted = host.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  const dottedIpv4 = dotted && parseIpv4(dotted[1]);
+  if (dottedIpv4) {
+    return isPrivateIpv4(dottedIpv4);
+  }
+  const mapped = host.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mapped) {
+    const high = parseInt(mapped[1], 16);
+    const low = parseInt(mapped[2], 16);
+    return isPrivateIpv4([high >> 8, high & 0xff, low >> 8, low & 0xff]);
+  }
+  const firstGroup = parseInt(host.split(":")[0] || "0", 16);
+  return (firstGroup & 0xfe00) === 0xfc00 // Unique local fc00::/7
+    || (firstGroup & 0xffc0) === 0xfe80; // Link-local fe80::/10
+}
+
+/**
+ * Delay before the next attempt after a failed one: 1, 2, 4, 8... minutes
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return 60_000 * Math.pow(2, Math.max(0, attempts - 1));
+}
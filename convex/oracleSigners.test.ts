@@ -0,0 +1,39 @@
+import { expect, test, describe } from "vitest";
+import { evaluateSignerQuorum } from "./oracleSigners";
+
+const prices = (...satoshis: (number | null)[]) =>
+  satoshis.map((priceSatoshis, i) => ({ signerAddress: `ST${i}`, priceSatoshis }));
+
+describe("evaluateSignerQuorum", () => {
+  test("medians the priced signers and measures each one's distance from it", () => {
+    const result = evaluateSignerQuorum(prices(100_000, 100_200, 100_400), 2, 0.5);
+    expect(result.medianPriceSatoshis).toBe(100_200);
+    expect(result.deviationPercent.get("ST0")).toBeCloseTo(200 / 100_200 * 100);
+    expect(result.agreeing).toEqual(new Set(["ST0", "ST1", "ST2"]));
+    expect(result.quorumMet).toBe(true);
+  });
+
+  test("averages the middle pair for an even signer count, rounded to whole satoshis", () => {
+    expect(evaluateSignerQuorum(prices(100_000, 100_001), 1, 1).medianPriceSatoshis).toBe(100_001);
+  });
+
+  test("divergent signers do not count toward the quorum", () => {
+    const result = evaluateSignerQuorum(prices(100_000, 100_100, 110_000), 3, 0.5);
+    expect(result.agreeing).toEqual(new Set(["ST0", "ST1"]));
+    expect(result.deviationPercent.get("ST2")).toBeGreaterThan(0.5);
+    expect(result.quorumMet).toBe(false);
+  });
+
+  test("signers without a price are left out of the median", () => {
+    const result = evaluateSignerQuorum(prices(null, 100_000, 100_000), 2, 0.5);
+    expect(result.medianPriceSatoshis).toBe(100_000);
+    expect(result.deviationPercent.has("ST0")).toBe(false);
+    expect(result.quorumMet).toBe(true);
+  });
+
+  test("no priced signer means no median and no quorum", () => {
+    const result = evaluateSignerQuorum(prices(null, null), 1, 0.5);
+    expect(result).toMatchObject({ medianPriceSatoshis: null, quorumMet: false });
+    expect(result.agreeing.size).toBe(0);
+  });
+});
@@ -0,0 +1,594 @@
+/**
+ * Multi-Signer Oracle Submission
+ *
+ * In multi-signer mode (oracleConfig.submissionMode = "multi_signer") every active signer registered
+ * here aggregates its own price from its configured sources and posts it to the oracle contract from
+ * its own key. A round only submits once a quorum of signers agree with the round median; signers
+ * that diverge from it are skipped and alerted, and each submission is checked against the contract's
+ * deviation limit before it is signed. Per-signer liveness stats are kept on the oracleSigners rows.
+ */
+
+import { internalAction, internalMutation, internalQuery, mutation, query, ActionCtx, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { getNetworkEnvironment, fetchBurnBlockHeight } from "./blockchain/common/network";
+import { getSignerAddress } from "./blockchain/common/transaction";
+import { FEE_OPERATION } from "./blockchain/common/fees";
+import { NetworkEnvironment } from "./blockchain/common/types";
+import { readLatestOraclePrice } from "./blockchain/oracle/priceReader";
+import { prepareOracleSubmission, submitAggregatedPrice, checkOnChainDeviation } from "./blockchain/oracle/priceWriter";
+import { aggregateSourcePrices, loadLatestSourcePrices, loadPriceAggregationConfig, median } from "./services/oracle/priceAggregation";
+import { loadOracleConfig, OracleConfig, toOnChainDeviationLimits, toUpdateThresholds } from "./services/oracle/oracleConfig";
+import { createNonceManager } from "./signerNonces";
+import { ORACLE_SUBMISSION_STATUS } from "./oracleSubmissions";
+import { getAdminPrincipal } from "./adminAuth";
+
+export const ORACLE_ROUND_STATUS = {
+  SUBMITTED: "submitted", // At least one signer broadcast a price
+  SKIPPED: "skipped", // Quorum met but the update thresholds did not call for an update
+  NO_QUORUM: "no_quorum",
+  FAILED: "failed", // Quorum met and an update was due, but no signer got a transaction out
+} as const;
+
+export const SIGNER_OUTCOME = {
+  SUBMITTED: "submitted",
+  DIVERGENT: "divergent",
+  NO_PRICE: "no_price",
+  ONCHAIN_DEVIATION: "onchain_deviation",
+  FAILED: "failed",
+  NOT_NEEDED: "not_needed",
+} as const;
+
+export const ORACLE_ALERT_TYPE = {
+  DIVERGENCE: "divergence",
+  LIVENESS: "liveness",
+  ONCHAIN_DEVIATION: "onchain_deviation",
+  SUBMISSION_FAILED: "submission_failed",
+} as const;
+
+// --- Quorum ---
+
+export interface SignerPrice {
+  signerAddress: string;
+  priceSatoshis: number | null; // null when the signer's sources could not produce a price
+}
+
+export interface SignerQuorumResult {
+  medianPriceSatoshis: number | null;
+  deviationPercent: Map<string, number>; // Distance of each priced signer from the median
+  agreeing: Set<string>; // Signers within the divergence bound
+  quorumMet: boolean;
+}
+
+/**
+ * Median of the signers' prices and which signers sit within `divergencePercent` of it.
+ * @param prices One entry per signer
+ * @param quorum Agreeing signers required
+ * @param divergencePercent Max distance from the median for a signer to agree
+ */
+export function evaluateSignerQuorum(prices: SignerPrice[], quorum: number, divergencePercent: number): SignerQuorumResult {
+  const priced = prices.filter((p): p is { signerAddress: string; priceSatoshis: number } => p.priceSatoshis !== null);
+  const deviationPercent = new Map<string, number>();
+  const agreeing = new Set<string>();
+  if (priced.length === 0) {
+    return { medianPriceSatoshis: null, deviationPercent, agreeing, quorumMet: false };
+  }
+
+  const mid = Math.round(median(priced.map(p => p.priceSatoshis)));
+  for (const p of priced) {
+    const deviation = Math.abs(p.priceSatoshis - mid) / mid * 100;
+    deviationPercent.set(p.signerAddress, deviation);
+    if (deviation <= divergencePercent) {
+      agreeing.add(p.signerAddress);
+    }
+  }
+  return { medianPriceSatoshis: mid, deviationPercent, agreeing, quorumMet: agreeing.size >= quorum };
+}
+
+// --- Signer Registry ---
+
+/**
+ * Admin-only: register a signer. The principal must also be added on-chain with add-authorized-submitter,
+ * and its private key set in the named environment variable.
+ */
+export const addOracleSigner = mutation({
+  args: {
+    label: v.string(),
+    address: v.string(),
+    keyEnvVar: v.string(),
+    sources: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean; message: string; signerId?: Id<"oracleSigners"> }> => {
+    const adminPrincipal = await getAdminPrincipal(ctx);
+    if (!adminPrincipal) {
+      return { success: false, message: "Admin access required." };
+    }
+    if (!/^[A-Z_][A-Z0-9_]*$/.test(args.keyEnvVar)) {
+      return { success: false, message: `"${args.keyEnvVar}" is not a valid environment variable name.` };
+    }
+    const existing = await ctx.db
+      .query("oracleSigners")
+      .withIndex("by_address", q => q.eq("address", args.address))
+      .first();
+    if (existing) {
+      return { success: false, message: `Oracle signer ${args.address} is already registered.` };
+    }
+
+    const now = Date.now();
+    const signerId = await ctx.db.insert("oracleSigners", {
+      label: args.label,
+      address: args.address,
+      keyEnvVar: args.keyEnvVar,
+      sources: args.sources && args.sources.length > 0 ? args.sources : undefined,
+      isActive: true,
+      roundCount: 0,
+      submissionCount: 0,
+      confirmedCount: 0,
+      failureCount: 0,
+      divergenceCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+    console.log(`Admin ${adminPrincipal} registered oracle signer ${args.label} (${args.address}).`);
+    return { success: true, message: `Oracle signer ${args.label} registered.`, signerId };
+  },
+});
+
+/**
+ * Admin-only: enable or disable a signer for future rounds.
+ */
+export const setOracleSignerActive = mutation({
+  args: {
+    signerId: v.id("oracleSigners"),
+    isActive: v.boolean(),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean; message: string }> => {
+    const adminPrincipal = await getAdminPrincipal(ctx);
+    if (!adminPrincipal) {
+      return { success: false, message: "Admin access required." };
+    }
+    const signer = await ctx.db.get(args.signerId);
+    if (!signer) {
+      return { success: false, message: "Oracle signer not found." };
+    }
+    await ctx.db.patch(args.signerId, { isActive: args.isActive, updatedAt: Date.now() });
+    console.log(`Admin ${adminPrincipal} ${args.isActive ? "enabled" : "disabled"} oracle signer ${signer.address}.`);
+    return { success: true, message: `Oracle signer ${signer.label} ${args.isActive ? "enabled" : "disabled"}.` };
+  },
+});
+
+/**
+ * Admin-only: acknowledge a signer alert.
+ */
+export const acknowledgeOracleSignerAlert = mutation({
+  args: { alertId: v.id("oracleSignerAlerts") },
+  handler: async (ctx, args): Promise<{ success: boolean; message: string }> => {
+    const adminPrincipal = await getAdminPrincipal(ctx);
+    if (!adminPrincipal) {
+      return { success: false, message: "Admin access required." };
+    }
+    const alert = await ctx.db.get(args.alertId);
+    if (!alert) {
+      return { success: false, message: "Alert not found." };
+    }
+    if (!alert.acknowledgedAt) {
+      await ctx.db.patch(args.alertId, { acknowledgedAt: Date.now(), acknowledgedBy: adminPrincipal });
+    }
+    return { success: true, message: "Alert acknowledged." };
+  },
+});
+
+// --- Round Inputs & Recording ---
+
+export interface SignerRoundInput {
+  signerAddress: string;
+  label: string;
+  keyEnvVar: string;
+  priceUSD: number | null;
+  sourceCount: number;
+}
+
+type PricedSigner = SignerRoundInput & SignerPrice;
+
+/**
+ * Each active signer's price, aggregated from its own sources with the shared aggregation config.
+ */
+export const getSignerRoundInputs = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<{ config: OracleConfig; signers: SignerRoundInput[] }> => {
+    const config = await loadOracleConfig(ctx);
+    const aggregationConfig = await loadPriceAggregationConfig(ctx);
+    const sourcePrices = await loadLatestSourcePrices(ctx);
+    const signers = await ctx.db
+      .query("oracleSigners")
+      .withIndex("by_isActive", q => q.eq("isActive", true))
+      .collect();
+
+    return {
+      config,
+      signers: signers.map(signer => {
+        const allowed = signer.sources ? new Set(signer.sources) : null;
+        const prices = allowed ? sourcePrices.filter(p => allowed.has(p.source)) : sourcePrices;
+        const aggregation = aggregateSourcePrices(prices, aggregationConfig);
+        return {
+          signerAddress: signer.address,
+          label: signer.label,
+          keyEnvVar: signer.keyEnvVar,
+          priceUSD: aggregation.price,
+          sourceCount: aggregation.sourcesUsed.length,
+        };
+      }),
+    };
+  },
+});
+
+/**
+ * Signer registered for an address, if any.
+ */
+export const getOracleSignerByAddress = internalQuery({
+  args: { address: v.string() },
+  handler: async (ctx, { address }): Promise<Doc<"oracleSigners"> | null> => {
+    return await ctx.db
+      .query("oracleSigners")
+      .withIndex("by_address", q => q.eq("address", address))
+      .first();
+  },
+});
+
+const signerResultValidator = v.object({
+  signerAddress: v.string(),
+  priceSatoshis: v.optional(v.number()),
+  sourceCount: v.number(),
+  deviationPercent: v.optional(v.number()),
+  outcome: v.string(),
+  txid: v.optional(v.string()),
+  error: v.optional(v.string()),
+});
+
+/**
+ * Store a finished round: the round row, one oracleSubmissions row per broadcast, signer stats,
+ * and alerts for divergent, rejected, failed or silent signers.
+ */
+export const recordSignerRound = internalMutation({
+  args: {
+    startedAt: v.number(),
+    status: v.string(),
+    reason: v.string(),
+    medianPriceSatoshis: v.optional(v.number()),
+    quorumRequired: v.number(),
+    agreeingSignerCount: v.number(),
+    quorumMet: v.boolean(),
+    percentChange: v.optional(v.number()),
+    signers: v.array(signerResultValidator),
+    livenessTimeoutMs: v.number(),
+  },
+  handler: async (ctx, args): Promise<Id<"oracleSubmissionRounds">> => {
+    const now = Date.now();
+    const roundId = await ctx.db.insert("oracleSubmissionRounds", {
+      startedAt: args.startedAt,
+      status: args.status,
+      reason: args.reason,
+      medianPriceSatoshis: args.medianPriceSatoshis,
+      quorumRequired: args.quorumRequired,
+      agreeingSignerCount: args.agreeingSignerCount,
+      quorumMet: args.quorumMet,
+      signers: args.signers,
+    });
+
+    for (const result of args.signers) {
+      const signer = await ctx.db
+        .query("oracleSigners")
+        .withIndex("by_address", q => q.eq("address", result.signerAddress))
+        .first();
+      if (!signer) {
+        continue;
+      }
+
+      const patch: Partial<Doc<"oracleSigners">> = { updatedAt: now };
+      if (result.priceSatoshis !== undefined) {
+        patch.roundCount = signer.roundCount + 1;
+        patch.lastRoundAt = now;
+        patch.lastPriceSatoshis = result.priceSatoshis;
+        patch.lastDeviationPercent = result.deviationPercent;
+      }
+
+      let alert: { alertType: string; message: string } | null = null;
+      switch (result.outcome) {
+        case SIGNER_OUTCOME.SUBMITTED:
+          patch.submissionCount = signer.submissionCount + 1;
+          patch.lastSubmittedAt = now;
+          await ctx.db.insert("oracleSubmissions", {
+            txid: result.txid!,
+            submittedPriceSatoshis: result.priceSatoshis!,
+            submissionTimestamp: now,
+            status: ORACLE_SUBMISSION_STATUS.SUBMITTED,
+            reason: args.reason,
+            percentChange: args.percentChange,
+            sourceCount: result.sourceCount,
+            submitter: signer.address,
+            roundId,
+          });
+          break;
+        case SIGNER_OUTCOME.DIVERGENT:
+          patch.divergenceCount = signer.divergenceCount + 1;
+          alert = {
+            alertType: ORACLE_ALERT_TYPE.DIVERGENCE,
+            message: `${signer.label} priced ${result.priceSatoshis} sats, ${result.deviationPercent?.toFixed(4)}% from the round median ${args.medianPriceSatoshis}`,
+          };
+          break;
+        case SIGNER_OUTCOME.ONCHAIN_DEVIATION:
+          alert = { alertType: ORACLE_ALERT_TYPE.ONCHAIN_DEVIATION, message: `${signer.label}: ${result.error}` };
+          break;
+        case SIGNER_OUTCOME.FAILED:
+          patch.failureCount = signer.failureCount + 1;
+          alert = { alertType: ORACLE_ALERT_TYPE.SUBMISSION_FAILED, message: `${signer.label}: ${result.error}` };
+          break;
+      }
+      await ctx.db.patch(signer._id, patch);
+
+      if (alert) {
+        console.warn(`Oracle signer alert (${alert.alertType}): ${alert.message}`);
+        await ctx.db.insert("oracleSignerAlerts", { signerAddress: signer.address, ...alert, roundId, createdAt: now });
+      }
+    }
+
+    // Liveness: an active signer with no confirmed price for too long, alerted at most once per timeout window
+    const activeSigners = await ctx.db
+      .query("oracleSigners")
+      .withIndex("by_isActive", q => q.eq("isActive", true))
+      .collect();
+    for (const signer of activeSigners) {
+      const lastSeen = signer.lastConfirmedAt ?? signer.createdAt;
+      if (now - lastSeen < args.livenessTimeoutMs) {
+        continue;
+      }
+      const lastAlert = await ctx.db
+        .query("oracleSignerAlerts")
+        .withIndex("by_signer_type", q => q.eq("signerAddress", signer.address).eq("alertType", ORACLE_ALERT_TYPE.LIVENESS))
+        .order("desc")
+        .first();
+      if (lastAlert && now - lastAlert.createdAt < args.livenessTimeoutMs) {
+        continue;
+      }
+      const hours = ((now - lastSeen) / (60 * 60 * 1000)).toFixed(1);
+      const message = `${signer.label} has had no confirmed price for ${hours} hours`;
+      console.warn(`Oracle signer alert (${ORACLE_ALERT_TYPE.LIVENESS}): ${message}`);
+      await ctx.db.insert("oracleSignerAlerts", {
+        signerAddress: signer.address,
+        alertType: ORACLE_ALERT_TYPE.LIVENESS,
+        message,
+        roundId,
+        createdAt: now,
+      });
+    }
+
+    return roundId;
+  },
+});
+
+/**
+ * Count a confirmed price-updated event toward its signer's liveness stats.
+ * Called from recordOraclePriceUpdated inside the chain event indexer's mutation.
+ */
+export async function recordSignerConfirmation(ctx: MutationCtx, submitter: string, confirmedAt: number) {
+  const signer = await ctx.db
+    .query("oracleSigners")
+    .withIndex("by_address", q => q.eq("address", submitter))
+    .first();
+  if (!signer) {
+    return;
+  }
+  await ctx.db.patch(signer._id, {
+    confirmedCount: signer.confirmedCount + 1,
+    lastConfirmedAt: confirmedAt,
+    updatedAt: confirmedAt,
+  });
+}
+
+// --- Round Execution ---
+
+/**
+ * Read a signer's private key from its environment variable and check it signs as the registered address.
+ * @throws Error if the variable is unset or holds another account's key
+ */
+export function resolveSignerKey(keyEnvVar: string, address: string, networkEnv: NetworkEnvironment): string {
+  const senderKey = process.env[keyEnvVar];
+  if (!senderKey) {
+    throw new Error(`Environment variable ${keyEnvVar} is not set`);
+  }
+  const keyAddress = getSignerAddress(senderKey, networkEnv);
+  if (keyAddress !== address) {
+    throw new Error(`Key in ${keyEnvVar} belongs to ${keyAddress}, not ${address}`);
+  }
+  return senderKey;
+}
+
+export interface MultiSignerRoundResult {
+  updated: boolean;
+  reason: string;
+  roundId?: Id<"oracleSubmissionRounds">;
+  txids: string[];
+}
+
+/**
+ * Run one multi-signer round: price every active signer, check quorum and the update thresholds
+ * against the median, then have each agreeing signer post its own price.
+ * @param ctx - Action context of the caller
+ */
+export async function runMultiSignerRound(ctx: ActionCtx): Promise<MultiSignerRoundResult> {
+  const startedAt = Date.now();
+  const { config, signers } = await ctx.runQuery(internal.oracleSigners.getSignerRoundInputs, {});
+  if (signers.length === 0) {
+    const reason = "Multi-signer mode is enabled but no oracle signers are active";
+    console.warn(reason);
+    return { updated: false, reason, txids: [] };
+  }
+
+  const priced: PricedSigner[] = signers.map((s: SignerRoundInput) => ({
+    ...s,
+    priceSatoshis: s.priceUSD === null ? null : Math.round(s.priceUSD * 100000000),
+  }));
+  const quorum = evaluateSignerQuorum(priced, config.signerQuorum, config.signerDivergencePercent);
+  const results = new Map<string, { signerAddress: string; priceSatoshis?: number; sourceCount: number; deviationPercent?: number; outcome: string; txid?: string; error?: string }>();
+  for (const s of priced) {
+    results.set(s.signerAddress, {
+      signerAddress: s.signerAddress,
+      priceSatoshis: s.priceSatoshis ?? undefined,
+      sourceCount: s.sourceCount,
+      deviationPercent: quorum.deviationPercent.get(s.signerAddress),
+      outcome: s.priceSatoshis === null
+        ? SIGNER_OUTCOME.NO_PRICE
+        : quorum.agreeing.has(s.signerAddress) ? SIGNER_OUTCOME.NOT_NEEDED : SIGNER_OUTCOME.DIVERGENT,
+    });
+  }
+
+  const finish = async (status: string, reason: string, percentChange?: number | null) => {
+    const roundId = await ctx.runMutation(internal.oracleSigners.recordSignerRound, {
+      startedAt,
+      status,
+      reason,
+      medianPriceSatoshis: quorum.medianPriceSatoshis ?? undefined,
+      quorumRequired: config.signerQuorum,
+      agreeingSignerCount: quorum.agreeing.size,
+      quorumMet: quorum.quorumMet,
+      percentChange: percentChange ?? undefined,
+      signers: Array.from(results.values()),
+      livenessTimeoutMs: config.signerLivenessTimeoutMs,
+    });
+    const txids = Array.from(results.values()).filter(r => r.txid).map(r => r.txid!);
+    console.log(`Oracle round ${roundId}: ${status}. ${reason}`);
+    return { updated: txids.length > 0, reason, roundId, txids };
+  };
+
+  if (!quorum.quorumMet || quorum.medianPriceSatoshis === null) {
+    return await finish(
+      ORACLE_ROUND_STATUS.NO_QUORUM,
+      `${quorum.agreeing.size} of ${signers.length} signers agree within ${config.signerDivergencePercent}% of the median; ${config.signerQuorum} required`
+    );
+  }
+
+  // Thresholds are evaluated once, against the round median
+  const agreeing = priced.filter((s: PricedSigner) => quorum.agreeing.has(s.signerAddress));
+  const evaluation = await prepareOracleSubmission({
+    currentPriceUSD: quorum.medianPriceSatoshis / 100000000,
+    currentTimestamp: startedAt,
+    sourceCount: Math.min(...agreeing.map((s: PricedSigner) => s.sourceCount)),
+  }, toUpdateThresholds(config));
+  if (!evaluation.shouldUpdate) {
+    return await finish(ORACLE_ROUND_STATUS.SKIPPED, evaluation.reason, evaluation.percentChange);
+  }
+
+  // Contract-side deviation check, mirrored here so rejected prices are never broadcast
+  const onChain = await readLatestOraclePrice();
+  const lastPrice = onChain.data?.price ? parseInt(onChain.data.price, 10) : null;
+  const lastPriceHeight = onChain.data?.timestamp ? parseInt(onChain.data.timestamp, 10) : null;
+  let currentBurnHeight = lastPriceHeight ?? 0;
+  try {
+    currentBurnHeight = await fetchBurnBlockHeight();
+  } catch (error: any) {
+    // Without the current height, treat the on-chain price as fresh (the stricter check)
+    console.warn(`Could not fetch burn block height for the deviation check: ${error.message}`);
+  }
+  const limits = toOnChainDeviationLimits(config);
+
+  const networkEnv = getNetworkEnvironment();
+  const nonceManager = createNonceManager(ctx, FEE_OPERATION.ORACLE_SUBMISSION);
+  for (const signer of agreeing) {
+    const result = results.get(signer.signerAddress)!;
+    const deviation = checkOnChainDeviation(signer.priceSatoshis!, lastPrice, lastPriceHeight, currentBurnHeight, limits);
+    if (!deviation.allowed) {
+      result.outcome = SIGNER_OUTCOME.ONCHAIN_DEVIATION;
+      result.error = deviation.reason;
+      continue;
+    }
+
+    try {
+      const senderKey = resolveSignerKey(signer.keyEnvVar, signer.signerAddress, networkEnv);
+      const submission = await submitAggregatedPrice({ priceInSatoshis: signer.priceSatoshis!, senderKey }, nonceManager);
+      result.outcome = SIGNER_OUTCOME.SUBMITTED;
+      result.txid = submission.txid;
+    } catch (error: any) {
+      result.outcome = SIGNER_OUTCOME.FAILED;
+      result.error = error.message;
+    }
+  }
+
+  const submittedCount = Array.from(results.values()).filter(r => r.outcome === SIGNER_OUTCOME.SUBMITTED).length;
+  return await finish(
+    submittedCount > 0 ? ORACLE_ROUND_STATUS.SUBMITTED : ORACLE_ROUND_STATUS.FAILED,
+    `${evaluation.reason} ${submittedCount} of ${agreeing.length} agreeing signers submitted.`,
+    evaluation.percentChange
+  );
+}
+
+/**
+ * Manually trigger a multi-signer round (the cron goes through checkAndSubmitPrice).
+ */
+export const runMultiSignerRoundAction = internalAction({
+  args: {},
+  handler: async (ctx): Promise<MultiSignerRoundResult> => {
+    return await runMultiSignerRound(ctx);
+  },
+});
+
+// --- Status Queries ---
+
+/**
+ * Signers with their liveness stats and unacknowledged alert counts.
+ */
+export const getOracleSignerStatus = query({
+  args: {},
+  handler: async (ctx) => {
+    const config = await loadOracleConfig(ctx);
+    const signers = await ctx.db.query("oracleSigners").collect();
+    const now = Date.now();
+    return await Promise.all(signers.map(async signer => {
+      const alerts = await ctx.db
+        .query("oracleSignerAlerts")
+        .withIndex("by_signer_type", q => q.eq("signerAddress", signer.address))
+        .filter(q => q.eq(q.field("acknowledgedAt"), undefined))
+        .collect();
+      const { keyEnvVar, ...publicFields } = signer;
+      return {
+        ...publicFields,
+        isLive: now - (signer.lastConfirmedAt ?? signer.createdAt) < config.signerLivenessTimeoutMs,
+        openAlertCount: alerts.length,
+      };
+    }));
+  },
+});
+
+/**
+ * Most recent multi-signer rounds, newest first.
+ */
+export const getRecentOracleRounds = query({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args): Promise<Doc<"oracleSubmissionRounds">[]> => {
+    return await ctx.db
+      .query("oracleSubmissionRounds")
+      .withIndex("by_startedAt")
+      .order("desc")
+      .take(Math.min(args.limit ?? 20, 100));
+  },
+});
+
+/**
+ * Most recent signer alerts, newest first. Acknowledged alerts are left out unless requested.
+ */
+export const getOracleSignerAlerts = query({
+  args: {
+    includeAcknowledged: v.optional(v.boolean()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<Doc<"oracleSignerAlerts">[]> => {
+    let alertsQuery = ctx.db
+      .query("oracleSignerAlerts")
+      .withIndex("by_createdAt")
+      .order("desc");
+    if (!args.includeAcknowledged) {
+      alertsQuery = alertsQuery.filter(q => q.eq(q.field("acknowledgedAt"), undefined));
+    }
+    return await alertsQuery.take(Math.min(args.limit ?? 50, 200));
+  },
+});
@@ -0,0 +1,180 @@
+/**
+ * Oracle Submission Watcher
+ *
+ * Moves oracleSubmissions rows through their lifecycle: polls the transaction of every "submitted"
+ * row, marks it confirmed (with block height and confirmation time) or failed, and resubmits aborted
+ * submissions with a fresh price from the same signer. Replace-by-fee rebroadcasts are followed by the
+ * nonce monitor (signerNonces.ts), which points the row at the replacement transaction.
+ */
+
+import { internalAction, ActionCtx } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getNetworkEnvironment, fetchBurnBlockHeight } from "./blockchain/common/network";
+import { checkTransactionStatus } from "./blockchain/common/transaction";
+import { FEE_OPERATION } from "./blockchain/common/fees";
+import { NetworkEnvironment, TransactionStatus } from "./blockchain/common/types";
+import { readLatestOraclePrice } from "./blockchain/oracle/priceReader";
+import { submitAggregatedPrice, checkOnChainDeviation } from "./blockchain/oracle/priceWriter";
+import { toOnChainDeviationLimits } from "./services/oracle/oracleConfig";
+import { createNonceManager } from "./signerNonces";
+import { resolveSignerKey, SignerRoundInput } from "./oracleSigners";
+import { ORACLE_SUBMISSION_STATUS } from "./oracleSubmissions";
+
+// Original submission plus two resubmissions
+const MAX_ORACLE_SUBMISSION_ATTEMPTS = 3;
+
+// Aborts a retry cannot fix: ERR-NOT-AUTHORIZED (the signer is not an authorized submitter)
+const NON_RETRYABLE_ABORTS = ["(err u100)"];
+
+/**
+ * Fresh price for a resubmission: the signer's own aggregate for multi-signer rows, the shared
+ * aggregate otherwise. Returns null when no current price is available.
+ */
+async function getResubmissionPrice(
+  ctx: ActionCtx,
+  submission: Doc<"oracleSubmissions">
+): Promise<{ priceInSatoshis: number; sourceCount: number } | null> {
+  if (submission.roundId && submission.submitter) {
+    const { signers } = await ctx.runQuery(internal.oracleSigners.getSignerRoundInputs, {});
+    const signer = signers.find((s: SignerRoundInput) => s.signerAddress === submission.submitter);
+    return signer?.priceUSD != null
+      ? { priceInSatoshis: Math.round(signer.priceUSD * 100000000), sourceCount: signer.sourceCount }
+      : null;
+  }
+  const aggregated = await ctx.runQuery(internal.services.oracle.priceService.aggregateCurrentPrices, {});
+  return aggregated
+    ? { priceInSatoshis: Math.round(aggregated.price * 100000000), sourceCount: aggregated.sourceCount }
+    : null;
+}
+
+/**
+ * Resubmit a failed submission, or record why it is not being retried.
+ * @returns true when a new transaction was broadcast
+ */
+async function resubmitFailedSubmission(
+  ctx: ActionCtx,
+  submission: Doc<"oracleSubmissions">,
+  networkEnv: NetworkEnvironment
+): Promise<boolean> {
+  const notRetried = async (reason: string) => {
+    console.log(`Oracle submission ${submission.txid} not resubmitted: ${reason}`);
+    await ctx.runMutation(internal.oracleSubmissions.markOracleSubmissionNotRetried, {
+      submissionId: submission._id,
+      reason,
+    });
+    return false;
+  };
+
+  if ((submission.attempt ?? 1) >= MAX_ORACLE_SUBMISSION_ATTEMPTS) {
+    return await notRetried(`reached ${MAX_ORACLE_SUBMISSION_ATTEMPTS} attempts`);
+  }
+  if (NON_RETRYABLE_ABORTS.some(code => submission.error?.includes(code))) {
+    return await notRetried("abort is not retryable");
+  }
+  if (await ctx.runQuery(internal.oracleSubmissions.hasNewerOracleSubmission, { submissionId: submission._id })) {
+    return await notRetried("superseded by a newer submission");
+  }
+
+  const price = await getResubmissionPrice(ctx, submission);
+  if (!price) {
+    return await notRetried("no current aggregated price");
+  }
+
+  // Same contract-side deviation check the multi-signer rounds apply
+  const config = await ctx.runQuery(internal.services.oracle.oracleConfig.getOracleConfigInternal, {});
+  const onChain = await readLatestOraclePrice();
+  const lastPrice = onChain.data?.price ? parseInt(onChain.data.price, 10) : null;
+  const lastPriceHeight = onChain.data?.timestamp ? parseInt(onChain.data.timestamp, 10) : null;
+  let currentBurnHeight = lastPriceHeight ?? 0;
+  try {
+    currentBurnHeight = await fetchBurnBlockHeight();
+  } catch (error: any) {
+    console.warn(`Could not fetch burn block height for the deviation check: ${error.message}`);
+  }
+  const deviation = checkOnChainDeviation(price.priceInSatoshis, lastPrice, lastPriceHeight, currentBurnHeight, toOnChainDeviationLimits(config));
+  if (!deviation.allowed) {
+    return await notRetried(deviation.reason!);
+  }
+
+  try {
+    let senderKey: string | undefined;
+    if (submission.roundId && submission.submitter) {
+      const signer = await ctx.runQuery(internal.oracleSigners.getOracleSignerByAddress, { address: submission.submitter });
+      if (!signer || !signer.isActive) {
+        return await notRetried(`signer ${submission.submitter} is no longer active`);
+      }
+      senderKey = resolveSignerKey(signer.keyEnvVar, signer.address, networkEnv);
+    }
+    const result = await submitAggregatedPrice(
+      { priceInSatoshis: price.priceInSatoshis, senderKey },
+      createNonceManager(ctx, FEE_OPERATION.ORACLE_SUBMISSION)
+    );
+    await ctx.runMutation(internal.oracleSubmissions.recordOracleResubmission, {
+      failedSubmissionId: submission._id,
+      txid: result.txid,
+      submittedPriceSatoshis: price.priceInSatoshis,
+      sourceCount: price.sourceCount,
+    });
+    console.log(`Resubmitted failed oracle submission ${submission.txid} as ${result.txid} (${price.priceInSatoshis} sats)`);
+    return true;
+  } catch (error: any) {
+    // Left unmarked so the next run tries again
+    console.error(`Error resubmitting oracle submission ${submission.txid}: ${error.message}`);
+    return false;
+  }
+}
+
+/**
+ * Scheduled job: poll submitted oracle transactions, record confirmations and failures,
+ * and resubmit failed ones.
+ */
+export const checkOracleSubmissions = internalAction({
+  args: {},
+  handler: async (ctx): Promise<{ checked: number; confirmed: number; failed: number; resubmitted: number }> => {
+    const stats = { checked: 0, confirmed: 0, failed: 0, resubmitted: 0 };
+    const networkEnv = getNetworkEnvironment();
+
+    const pending = await ctx.runQuery(internal.oracleSubmissions.getPendingOracleSubmissions, {});
+    for (const submission of pending) {
+      try {
+        const txStatus = await checkTransactionStatus(submission.txid, networkEnv);
+        stats.checked++;
+        if (txStatus.status === TransactionStatus.CONFIRMED) {
+          await ctx.runMutation(internal.oracleSubmissions.recordOracleSubmissionStatus, {
+            submissionId: submission._id,
+            status: ORACLE_SUBMISSION_STATUS.CONFIRMED,
+            blockHeight: txStatus.blockHeight,
+          });
+          stats.confirmed++;
+        } else if (txStatus.status === TransactionStatus.FAILED) {
+          console.warn(`Oracle submission ${submission.txid} failed: ${txStatus.error}`);
+          await ctx.runMutation(internal.oracleSubmissions.recordOracleSubmissionStatus, {
+            submissionId: submission._id,
+            status: ORACLE_SUBMISSION_STATUS.FAILED,
+            error: typeof txStatus.error === "string" ? txStatus.error : JSON.stringify(txStatus.error),
+          });
+          stats.failed++;
+        } else {
+          // Pending or replaced: the nonce monitor handles fee bumps and follows replacements
+          await ctx.runMutation(internal.oracleSubmissions.recordOracleSubmissionStatus, {
+            submissionId: submission._id,
+            status: ORACLE_SUBMISSION_STATUS.SUBMITTED,
+          });
+        }
+      } catch (error: any) {
+        console.error(`Error checking oracle submission ${submission.txid}:`, error);
+      }
+    }
+
+    const failed = await ctx.runQuery(internal.oracleSubmissions.getUnretriedFailedOracleSubmissions, {});
+    for (const submission of failed) {
+      if (await resubmitFailedSubmission(ctx, submission, networkEnv)) {
+        stats.resubmitted++;
+      }
+    }
+
+    console.log(`Oracle submission watcher: ${JSON.stringify(stats)}`);
+    return stats;
+  },
+});
@@ -1,6 +1,23 @@
-import { internalMutation } from './_generated/server';
+import { internalMutation, internalQuery, query, ActionCtx, MutationCtx } from './_generated/server';
+import { Doc, Id } from './_generated/dataModel';
 import { v } from "convex/values";
 import { api, internal } from './_generated/api'; // Ensure API imports are correct
+import { OraclePrintEvent, RecordedOraclePrice } from './blockchain/oracle/types';
+import { getAdminPrincipal } from './adminAuth';
+
+export const ORACLE_SUBMISSION_STATUS = {
+  SUBMITTED: "submitted",
+  CONFIRMED: "confirmed",
+  FAILED: "failed",
+} as const;
+
+export const ORACLE_RETRY_OUTCOME = {
+  RESUBMITTED: "resubmitted",
+  NOT_RETRIED: "not_retried",
+} as const;
+
+// Reason stored on rows created by the chain event indexer for prices this backend did not submit
+const INDEXED_FROM_CHAIN_REASON = "Indexed from chain";
 
 // --- Oracle Submission Recording (CVX-303) ---
 
@@ -43,5 +60,307 @@ export const recordOracleSubmission = internalMutation({
   },
 });
 
-// Optional: Consider adding functions here to update the status later
-// e.g., markAsConfirmed, markAsFailed 
\ No newline at end of file
+// --- Price History by Burn Height ---
+
+/**
+ * Record a price-updated event from the oracle contract against its submission, so every
+ * confirmed price is kept by the burn height it took effect at. Prices set by other submitters
+ * (or before this table existed) get a row of their own.
+ * Called by the chain event indexer inside its ingest mutation.
+ * @returns true the first time this transaction's event is indexed (false when re-indexed)
+ */
+export async function recordOraclePriceUpdated(
+  ctx: MutationCtx,
+  event: OraclePrintEvent,
+  meta: { txId: string; blockHeight: number }
+): Promise<boolean> {
+  const now = Date.now();
+  const existing = await ctx.db
+    .query("oracleSubmissions")
+    .withIndex("by_txid", (q) => q.eq("txid", meta.txId))
+    .first();
+
+  const confirmed = {
+    status: ORACLE_SUBMISSION_STATUS.CONFIRMED,
+    submittedPriceSatoshis: event.price,
+    blockHeight: meta.blockHeight,
+    burnBlockHeight: event.blockHeight,
+    submitter: event.submitter,
+    confirmationTimestamp: existing?.confirmationTimestamp ?? now,
+  };
+  const isFirstIndexed = existing?.burnBlockHeight === undefined;
+  if (existing) {
+    await ctx.db.patch(existing._id, confirmed);
+  } else {
+    await ctx.db.insert("oracleSubmissions", {
+      txid: meta.txId,
+      submissionTimestamp: now,
+      reason: INDEXED_FROM_CHAIN_REASON,
+      sourceCount: 0,
+      ...confirmed,
+    });
+  }
+  return isFirstIndexed;
+}
+
+/**
+ * Latest confirmed oracle price set at or before a burn height.
+ *
+ * @param {number} args.height - Burn block height to resolve
+ * @returns {RecordedOraclePrice | null} The price in effect at that height, if any was recorded
+ */
+export const getRecordedOraclePriceAtHeight = internalQuery({
+  args: { height: v.number() },
+  handler: async (ctx, { height }): Promise<RecordedOraclePrice | null> => {
+    const latest = await ctx.db
+      .query("oracleSubmissions")
+      .withIndex("by_status_burnBlockHeight", (q) =>
+        q.eq("status", ORACLE_SUBMISSION_STATUS.CONFIRMED).lte("burnBlockHeight", height)
+      )
+      .order("desc")
+      .first();
+    if (!latest || latest.burnBlockHeight === undefined) {
+      return null;
+    }
+    return {
+      priceInSatoshis: latest.submittedPriceSatoshis,
+      burnBlockHeight: latest.burnBlockHeight,
+      txid: latest.txid,
+    };
+  },
+});
+
+/**
+ * Recorded-price lookup for getOraclePriceAtHeight, backed by getRecordedOraclePriceAtHeight.
+ * @param ctx - Action context of the caller
+ */
+export function recordedOraclePriceLookup(ctx: ActionCtx) {
+  return (height: number): Promise<RecordedOraclePrice | null> =>
+    ctx.runQuery(internal.oracleSubmissions.getRecordedOraclePriceAtHeight, { height });
+}
+
+// --- Submission Lifecycle (oracleSubmissionWatcher.ts) ---
+
+/**
+ * Submissions still waiting on their transaction.
+ */
+export const getPendingOracleSubmissions = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<Doc<"oracleSubmissions">[]> => {
+    return await ctx.db
+      .query("oracleSubmissions")
+      .withIndex("by_status", (q) => q.eq("status", ORACLE_SUBMISSION_STATUS.SUBMITTED))
+      .collect();
+  },
+});
+
+/**
+ * Record the outcome of a status poll. Rows the indexer already confirmed are left alone.
+ */
+export const recordOracleSubmissionStatus = internalMutation({
+  args: {
+    submissionId: v.id("oracleSubmissions"),
+    status: v.string(), // "submitted" (still pending), "confirmed" or "failed"
+    blockHeight: v.optional(v.number()),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const submission = await ctx.db.get(args.submissionId);
+    if (!submission || submission.status !== ORACLE_SUBMISSION_STATUS.SUBMITTED) {
+      return;
+    }
+    const now = Date.now();
+    if (args.status === ORACLE_SUBMISSION_STATUS.CONFIRMED) {
+      await ctx.db.patch(args.submissionId, {
+        status: ORACLE_SUBMISSION_STATUS.CONFIRMED,
+        blockHeight: args.blockHeight,
+        confirmationTimestamp: now,
+        lastCheckedAt: now,
+        error: undefined,
+      });
+    } else if (args.status === ORACLE_SUBMISSION_STATUS.FAILED) {
+      await ctx.db.patch(args.submissionId, {
+        status: ORACLE_SUBMISSION_STATUS.FAILED,
+        error: args.error,
+        lastCheckedAt: now,
+      });
+    } else {
+      await ctx.db.patch(args.submissionId, { lastCheckedAt: now });
+    }
+  },
+});
+
+/**
+ * Failed submissions that have not been resubmitted yet.
+ */
+export const getUnretriedFailedOracleSubmissions = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<Doc<"oracleSubmissions">[]> => {
+    const failed = await ctx.db
+      .query("oracleSubmissions")
+      .withIndex("by_status", (q) => q.eq("status", ORACLE_SUBMISSION_STATUS.FAILED))
+      .collect();
+    return failed.filter((submission) => submission.retryOutcome === undefined);
+  },
+});
+
+/**
+ * Whether a later submission (pending or confirmed) has superseded this one, making a retry pointless.
+ */
+export const hasNewerOracleSubmission = internalQuery({
+  args: { submissionId: v.id("oracleSubmissions") },
+  handler: async (ctx, { submissionId }): Promise<boolean> => {
+    const submission = await ctx.db.get(submissionId);
+    if (!submission) {
+      return false;
+    }
+    const newer = await ctx.db
+      .query("oracleSubmissions")
+      .withIndex("by_submission_timestamp", (q) => q.gt("submissionTimestamp", submission.submissionTimestamp))
+      .filter((q) => q.neq(q.field("status"), ORACLE_SUBMISSION_STATUS.FAILED))
+      .first();
+    return newer !== null;
+  },
+});
+
+/**
+ * Record a resubmission: a new submitted row linked to the failed one, which is marked as resubmitted.
+ */
+export const recordOracleResubmission = internalMutation({
+  args: {
+    failedSubmissionId: v.id("oracleSubmissions"),
+    txid: v.string(),
+    submittedPriceSatoshis: v.number(),
+    sourceCount: v.number(),
+  },
+  handler: async (ctx, args): Promise<Id<"oracleSubmissions"> | null> => {
+    const failed = await ctx.db.get(args.failedSubmissionId);
+    if (!failed) {
+      return null;
+    }
+    await ctx.db.patch(args.failedSubmissionId, { retryOutcome: ORACLE_RETRY_OUTCOME.RESUBMITTED, resubmittedTxid: args.txid });
+    return await ctx.db.insert("oracleSubmissions", {
+      txid: args.txid,
+      submittedPriceSatoshis: args.submittedPriceSatoshis,
+      submissionTimestamp: Date.now(),
+      status: ORACLE_SUBMISSION_STATUS.SUBMITTED,
+      reason: `Resubmission after failed tx ${failed.txid}: ${failed.error ?? "unknown error"}`,
+      sourceCount: args.sourceCount,
+      submitter: failed.submitter,
+      roundId: failed.roundId,
+      attempt: (failed.attempt ?? 1) + 1,
+      retryOf: failed._id,
+    });
+  },
+});
+
+/**
+ * Close out a failed submission without retrying it (superseded, out of attempts or not retryable).
+ */
+export const markOracleSubmissionNotRetried = internalMutation({
+  args: {
+    submissionId: v.id("oracleSubmissions"),
+    reason: v.string(),
+  },
+  handler: async (ctx, { submissionId, reason }) => {
+    const submission = await ctx.db.get(submissionId);
+    if (!submission) {
+      return;
+    }
+    await ctx.db.patch(submissionId, {
+      retryOutcome: ORACLE_RETRY_OUTCOME.NOT_RETRIED,
+      error: `${submission.error ?? "Failed"} (not resubmitted: ${reason})`,
+    });
+  },
+});
+
+/**
+ * Follow a replace-by-fee rebroadcast so the watcher polls the transaction that can still confirm.
+ * Called from the nonce monitor's recordNonceRebroadcast mutation.
+ */
+export async function recordOracleSubmissionReplaced(ctx: MutationCtx, previousTxid: string, txid: string) {
+  const submission = await ctx.db
+    .query("oracleSubmissions")
+    .withIndex("by_txid", (q) => q.eq("txid", previousTxid))
+    .first();
+  if (submission && submission.status === ORACLE_SUBMISSION_STATUS.SUBMITTED) {
+    await ctx.db.patch(submission._id, { txid });
+  }
+}
+
+// --- Oracle Health ---
+
+export interface OracleHealth {
+  lastConfirmedPriceSatoshis: number | null;
+  lastConfirmedAt: number | null;
+  lastConfirmedPriceAgeMs: number | null;
+  windowMs: number;
+  submittedCount: number; // Submissions in the window, including retries
+  confirmedCount: number;
+  failedCount: number;
+  pendingCount: number;
+  retryCount: number;
+  failureRate: number | null; // failed / (confirmed + failed) in the window
+  averageConfirmationLatencyMs: number | null; // From submission to confirmation, backend submissions only
+}
+
+/**
+ * Oracle health for the admin UI: how old the last confirmed price is, how often submissions fail,
+ * and how long they take to confirm. Null for callers who are not admins.
+ *
+ * @param {number} [args.windowMs] - Look-back window for the rates (default 24 hours)
+ */
+export const getOracleHealth = query({
+  args: { windowMs: v.optional(v.number()) },
+  handler: async (ctx, args): Promise<OracleHealth | null> => {
+    if (!(await getAdminPrincipal(ctx))) {
+      return null;
+    }
+
+    const now = Date.now();
+    const windowMs = args.windowMs ?? 24 * 60 * 60 * 1000;
+
+    const recent = await ctx.db
+      .query("oracleSubmissions")
+      .withIndex("by_submission_timestamp", (q) => q.gte("submissionTimestamp", now - windowMs))
+      .collect();
+
+    // Newest confirmation: the highest indexed burn height, or a watcher-confirmed row the indexer has not reached yet
+    let lastConfirmed: Doc<"oracleSubmissions"> | null = await ctx.db
+      .query("oracleSubmissions")
+      .withIndex("by_status_burnBlockHeight", (q) => q.eq("status", ORACLE_SUBMISSION_STATUS.CONFIRMED))
+      .order("desc")
+      .first();
+    for (const s of recent) {
+      if (s.status === ORACLE_SUBMISSION_STATUS.CONFIRMED
+        && (s.confirmationTimestamp ?? 0) > (lastConfirmed?.confirmationTimestamp ?? 0)) {
+        lastConfirmed = s;
+      }
+    }
+    const lastConfirmedAt = lastConfirmed?.confirmationTimestamp ?? null;
+
+    const submitted = recent.filter((s) => s.reason !== INDEXED_FROM_CHAIN_REASON);
+    const confirmed = submitted.filter((s) => s.status === ORACLE_SUBMISSION_STATUS.CONFIRMED);
+    const failedCount = submitted.filter((s) => s.status === ORACLE_SUBMISSION_STATUS.FAILED).length;
+    const latencies = confirmed
+      .filter((s) => s.confirmationTimestamp !== undefined)
+      .map((s) => s.confirmationTimestamp! - s.submissionTimestamp);
+    const settledCount = confirmed.length + failedCount;
+
+    return {
+      lastConfirmedPriceSatoshis: lastConfirmed?.submittedPriceSatoshis ?? null,
+      lastConfirmedAt,
+      lastConfirmedPriceAgeMs: lastConfirmedAt === null ? null : now - lastConfirmedAt,
+      windowMs,
+      submittedCount: submitted.length,
+      confirmedCount: confirmed.length,
+      failedCount,
+      pendingCount: submitted.filter((s) => s.status === ORACLE_SUBMISSION_STATUS.SUBMITTED).length,
+      retryCount: submitted.filter((s) => s.retryOf !== undefined).length,
+      failureRate: settledCount === 0 ? null : failedCount / settledCount,
+      averageConfirmationLatencyMs: latencies.length === 0
+        ? null
+        : latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length,
+    };
+  },
+});
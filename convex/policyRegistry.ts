@@ -4,7 +4,7 @@ import { Id, Doc } from "./_generated/dataModel"; // Data model types
 import { internal, api } from "./_generated/api"; // API and internal functions access
 
 // Utilities that might have been used by original top-level functions or are general
-import { calculateBlackScholesPremium } from "./premium"; 
+import { calculateBlackScholesPremium } from "./services/oracle/pricingEngine";
 import { ActionCtx, MutationCtx, QueryCtx } from "./_generated/server";
 
 // Re-export public-facing functions from their new modules
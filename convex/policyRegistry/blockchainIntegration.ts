@@ -17,11 +17,11 @@ import {
   buildExpirePoliciesBatchTransaction,
   buildPremiumDistributionTransaction
 } from "../blockchain/policyRegistry/writer";
+import { createNonceManager } from "../signerNonces";
+import { FEE_OPERATION } from "../blockchain/common/fees";
+import { ChainEventIndexerRun } from "../chainEventIndexer";
 
 import {
-  subscribeToPolicyCreatedEvents,
-  subscribeToPolicyStatusUpdatedEvents,
-  subscribeToPremiumDistributionEvents,
   fetchPolicyCreatedEvents,
   fetchPolicyStatusUpdatedEvents,
   fetchPremiumDistributionEvents
@@ -123,7 +123,8 @@ export const createPolicyStatusUpdateTransaction = internalAction({
       newStatus: args.newStatus as PolicyStatus,
       settlementAmount: args.settlementAmount,
       settlementPrice: args.settlementPrice,
-      network: "devnet" as NetworkEnvironment // Cast to NetworkEnvironment
+      network: "devnet" as NetworkEnvironment, // Cast to NetworkEnvironment
+      nonceManager: createNonceManager(ctx, FEE_OPERATION.POLICY_STATUS_UPDATE)
     });
 
     // Return the transaction details
@@ -148,7 +149,8 @@ export const createExpirePoliciesBatchTransaction = internalAction({
     const txResponse = await buildExpirePoliciesBatchTransaction({
       policyIds: args.policyIds,
       currentBlockHeight: args.currentBlockHeight,
-      network: "devnet" as NetworkEnvironment // Cast to NetworkEnvironment
+      network: "devnet" as NetworkEnvironment, // Cast to NetworkEnvironment
+      nonceManager: createNonceManager(ctx, FEE_OPERATION.EXPIRE_POLICIES_BATCH)
     });
 
     // Return the transaction details
@@ -176,7 +178,8 @@ export const createPremiumDistributionTransaction = internalAction({
       amount: args.amount,
       token: args.token,
       recipient: args.recipient,
-      network: "devnet" as NetworkEnvironment // Cast to NetworkEnvironment
+      network: "devnet" as NetworkEnvironment, // Cast to NetworkEnvironment
+      nonceManager: createNonceManager(ctx, FEE_OPERATION.PREMIUM_DISTRIBUTION)
     });
 
     // Return the transaction details
@@ -207,38 +210,16 @@ export const verifyPolicyOnChain = internalAction({
 });
 
 /**
- * Setup event listeners for policy events
- * This would typically be done on service initialization
+ * Run the chain event indexer once, e.g. right after deployment instead of waiting for the cron.
+ * Policy events are indexed continuously by chainEventIndexer.indexChainEvents.
  */
 export const setupPolicyEventListeners = action({
   args: {},
-  handler: async (ctx) => {
-    // This is just a placeholder for how this would work
-    // In a real implementation, we would likely use a different pattern
-    // since subscriptions need to persist beyond the action's execution
-    
-    console.log("Setting up policy event listeners...");
-    
-    // Example of how we would handle events:
-    const policyCreatedSubscription = subscribeToPolicyCreatedEvents(
-      async (event) => {
-        // Process the event
-        console.log("Policy created event:", event);
-        
-        // Create a policy record in our database
-        await ctx.runMutation(internal.policyRegistry.transactionManager.handlePolicyCreatedEvent, {
-          policyId: event.policyId,
-          owner: event.owner,
-          counterparty: event.counterparty,
-          // ... other event data
-        });
-      }
-    );
-    
-    // Similarly for other event types...
-    
+  handler: async (ctx): Promise<{ message: string; summary: ChainEventIndexerRun[] }> => {
+    const summary = await ctx.runAction(internal.chainEventIndexer.indexChainEvents, {});
     return {
-      message: "Event listeners set up successfully"
+      message: "Chain event indexer run completed",
+      summary,
     };
   }
 });
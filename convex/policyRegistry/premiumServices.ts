@@ -3,7 +3,7 @@ import { v } from "convex/values";
 import { QueryCtx } from "../_generated/server";
 import { internal } from "../_generated/api";
 import { CalculatePremiumForCreationParams, PolicyType } from "./types";
-import { calculateBlackScholesPremium } from "../services/oracle/premiumCalculation"; // Updated import path
+import { calculateBlackScholesPremium } from "../services/oracle/pricingEngine";
 
 /**
  * Calculates the premium for a new policy at the time of creation.
@@ -50,6 +50,7 @@ export const calculatePremiumForPolicyCreation = internalQuery({
       duration: args.durationDays,
       amount: args.protectionAmount,
       riskParams: riskParams,
+      policyType: args.policyType,
     });
 
     return premiumComponents.premium;
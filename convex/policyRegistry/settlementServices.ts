@@ -4,6 +4,7 @@ import { Id, Doc } from "../_generated/dataModel";
 import { internal } from "../_generated/api"; // For internal.policyRegistry.transactionManager.createPendingPolicyTransaction
 import { PolicyStatus, PolicyType, PolicyEventType, TransactionStatus } from "./types";
 import { mockGetLatestBlockHeight } from "./eligibilityChecks"; // Import from eligibilityChecks
+import { calculateIntrinsicValuePerUnit } from "../services/oracle/pricingEngine";
 
 // --- Helper Functions (specific to settlement or mocked here for now) ---
 
@@ -19,27 +20,19 @@ async function mockGetLatestBlockHeight(): Promise<number> {
 
 /**
  * Helper function to calculate the settlement amount for a policy.
+ * PUT pays (strike - price) per unit and CALL pays (price - strike) per unit, mirroring
+ * calculate-settlement-amount in math-library.clar so off-chain and on-chain payouts agree.
  */
-function calculateSettlementAmount(
+export function calculateSettlementAmount(
   policyType: PolicyType,
   protectedValue: number,
   protectionAmount: number,
   currentPrice: number
 ): number {
-  if (policyType === PolicyType.PUT) {
-    const priceDifference = protectedValue - currentPrice;
-    if (priceDifference > 0) {
-      const proportionLost = priceDifference / protectedValue;
-      return Math.min(proportionLost * protectionAmount, protectionAmount);
-    }
-  } else if (policyType === PolicyType.CALL) {
-    const priceDifference = currentPrice - protectedValue;
-    if (priceDifference > 0) {
-      const proportionGained = priceDifference / protectedValue;
-      return Math.min(proportionGained * protectionAmount, protectionAmount);
-    }
+  if (policyType !== PolicyType.PUT && policyType !== PolicyType.CALL) {
+    return 0;
   }
-  return 0;
+  return calculateIntrinsicValuePerUnit(policyType, currentPrice, protectedValue) * protectionAmount;
 }
 
 /**
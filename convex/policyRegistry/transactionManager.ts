@@ -54,6 +54,7 @@ async function handleConfirmedPolicyCreation(ctx: MutationCtx, pendingTx: Doc<"p
       onChainPolicyId: args.data?.onChainPolicyId || "mock-policy-id-" + Math.floor(Math.random() * 1000000),
       collateralToken: params.collateralToken,
       settlementToken: params.settlementToken,
+      riskTier: params.riskTier,
       displayName: params.displayName || `${params.policyType} Option - ${params.protectedValueUSD} USD`,
       description: params.description,
       tags: params.tags,
@@ -359,6 +360,7 @@ export const handlePolicyCreatedEvent = internalMutation({
       updatedAt: Date.now(),
       collateralToken: args.collateralToken || "STX",
       settlementToken: args.settlementToken || "STX",
+      riskTier: pendingTx?.payload?.params?.riskTier,
       // If there was a pending transaction, include its metadata
       description: pendingTx?.payload?.params?.description,
       displayName: pendingTx?.payload?.params?.displayName,
@@ -1,23 +1,19 @@
 import { v } from "convex/values";
 import { mutation, query, internalMutation, internalQuery } from "./_generated/server";
-import { internal } from "./_generated/api";
-import * as math from 'mathjs'; // Import math.js
+import { api, internal } from "./_generated/api";
 import { 
   MarketData, 
   RiskParameters, 
-  PremiumComponents,
-  PriceScenario,
   BuyerPremiumQuoteResult,
   ProviderYieldQuoteResult,
-  ProviderYieldComponents
 } from './types';
+import { toRiskParameters } from './riskParameterGovernance';
 
 /**
  * PremiumCalculationService
  * 
- * A conceptual service class that encapsulates premium calculation logic.
- * This is implemented as a collection of individual functions that follow 
- * the service pattern in a functional programming style.
+ * Market data and risk parameter lookups used by premium calculation, plus deprecated quote
+ * entry points. Pricing itself lives in services/oracle/pricingEngine.ts.
  */
 
 // --- MARKET DATA HELPERS ---
@@ -68,7 +64,8 @@ export const getActiveRiskParameters = internalQuery({
       .first();
     
     if (riskParams) {
-      return riskParams as RiskParameters;
+      // Without system fields, so the result can be stored as a quote's riskParamsSnapshot
+      return toRiskParameters(riskParams);
     }
     
     // If no risk parameters are found, return default values
@@ -96,304 +93,6 @@ export const getActiveRiskParameters = internalQuery({
   },
 });
 
-// --- PREMIUM CALCULATION CORE LOGIC ---
-
-/**
- * Calculates premium using Black-Scholes for a PUT option
- * This is adapted from the existing model in options.ts
- */
-export function calculateBlackScholesPremium({
-  currentPrice,  // S
-  strikePrice,   // K
-  volatility,    // σ
-  duration,      // T (in days)
-  amount,        // Multiplier for final premium
-  riskFreeRate = 0.02,  // r
-  riskParams = null,    // Risk parameters for adjustments
-}: {
-  currentPrice: number;
-  strikePrice: number;
-  volatility: number;
-  duration: number;
-  amount: number;
-  riskFreeRate?: number;
-  riskParams?: RiskParameters | null;
-}): PremiumComponents {
-  // Validate inputs
-  if (currentPrice <= 0 || strikePrice <= 0 || volatility <= 0 || duration <= 0 || amount <= 0) {
-    console.warn(`Invalid input for Black-Scholes: S=${currentPrice}, K=${strikePrice}, σ=${volatility}, T(days)=${duration}, Amount=${amount}, r=${riskFreeRate}. Returning 0 premium.`);
-    return {
-      premium: 0,
-      intrinsicValue: 0,
-      timeValue: 0,
-      volatilityImpact: 0,
-    };
-  }
-
-  // --- Black-Scholes Implementation --- 
-  const S = currentPrice;
-  const K = strikePrice;
-  const sigma = volatility;
-  const T = duration / 365; // Time to expiration in years
-  const r = riskFreeRate;
-
-  const sqrtT = Number(math.sqrt(T)); // Cast result to number
-
-  // Check for zero volatility or time - edge case leading to division by zero
-  if (sigma * sqrtT === 0) {
-    // If vol or time is zero, the PUT premium is the intrinsic value discounted
-    const intrinsicValue = Number(math.max(0, K - S)); // Cast result to number
-    const discountedExp = Number(math.exp(-r * T)); // Cast result to number
-    const discountedValue = intrinsicValue * discountedExp; 
-    console.warn(`Edge case: sigma*sqrt(T) is zero. Returning discounted intrinsic value: ${discountedValue}`);
-    const finalPremium = discountedValue * amount;
-    
-    return {
-      premium: Number(math.max(0, Number(math.round(finalPremium * 100)) / 100)),
-      intrinsicValue: intrinsicValue,
-      timeValue: 0,
-      volatilityImpact: 0,
-    };
-  }
-  
-  // Calculate d1 and d2
-  // Explicitly cast intermediate math.js results
-  const logSK = Number(math.log(S / K));
-  const powSigma = Number(math.pow(sigma, 2));
-  const d1_numerator = logSK + (r + 0.5 * powSigma) * T;
-  const d1_denominator = sigma * sqrtT;
-  const d1 = d1_numerator / d1_denominator;
-
-  const d2 = d1 - sigma * sqrtT;
-
-  // Calculate PUT premium using N(-d2) and N(-d1)
-  // N(x) is the cumulative distribution function (CDF) for a standard normal distribution
-  const erf_neg_d1 = Number(math.erf((-d1) / Number(math.sqrt(2)))); // Cast erf & inner sqrt result
-  const erf_neg_d2 = Number(math.erf((-d2) / Number(math.sqrt(2)))); // Cast erf & inner sqrt result
-  const N_neg_d1: number = erf_neg_d1 / 2 + 0.5; // Explicitly type N_neg_d1
-  const N_neg_d2: number = erf_neg_d2 / 2 + 0.5; // Explicitly type N_neg_d2
-
-  const expRT = Number(math.exp(-r * T)); // Cast exp result
-  // Ensure all components are explicitly numbers before arithmetic
-  const term1: number = K * expRT * N_neg_d2;
-  const term2: number = S * N_neg_d1;
-  const putPremiumPerUnit: number = term1 - term2; 
-  
-  // Calculate intrinsic and time value components
-  const intrinsicValue = Number(math.max(0, K - S));
-  const timeValueWithVol = putPremiumPerUnit - intrinsicValue;
-  
-  // Estimate the time value vs volatility impact (simplified)
-  const timeValue = timeValueWithVol * 0.3; // Arbitrary split, can be refined
-  const volatilityImpact = timeValueWithVol * 0.7;
-  
-  // Apply risk parameter adjustments if provided
-  let adjustedPremium = putPremiumPerUnit;
-  if (riskParams) {
-    // Apply some basic adjustment using risk parameters
-    adjustedPremium = putPremiumPerUnit * 
-      (1 + riskParams.baseRate) * 
-      riskParams.volatilityMultiplier * 
-      (1 + (duration / 365) * riskParams.durationFactor);
-  }
-  
-  // Scale premium by the amount (e.g., number of BTC)
-  const totalPremium: number = adjustedPremium * amount;
-
-  // Final checks and rounding
-  if (isNaN(totalPremium) || !isFinite(totalPremium)) {
-    console.error(`Black-Scholes calculation resulted in NaN or Infinity. Inputs: S=${S}, K=${K}, sigma=${sigma}, T=${T}, r=${r}. Returning 0.`);
-    return {
-      premium: 0,
-      intrinsicValue: 0,
-      timeValue: 0,
-      volatilityImpact: 0,
-    };
-  }
-
-  // Return rounded, non-negative premium with component breakdown
-  const roundedPremium = Number(math.round(totalPremium * 100)) / 100;
-  return {
-    premium: Number(math.max(0, roundedPremium)),
-    intrinsicValue: Number(math.round(intrinsicValue * amount * 100)) / 100,
-    timeValue: Number(math.round(timeValue * amount * 100)) / 100,
-    volatilityImpact: Number(math.round(volatilityImpact * amount * 100)) / 100,
-  };
-}
-
-/**
- * Calculate provider yield based on tier, period, and volatility
- */
-function calculateProviderYield({
-  commitmentAmountUSD,
-  selectedTier,
-  selectedPeriod,
-  volatility,
-  riskParams,
-  marketConditions,
-}: {
-  commitmentAmountUSD: number;
-  selectedTier: string;
-  selectedPeriod: number; // in days
-  volatility: number;
-  riskParams: RiskParameters;
-  marketConditions: {
-    btcPrice: number;
-    volatility: number;
-    liquidity: number;
-  };
-}): ProviderYieldComponents {
-  // Validate inputs
-  if (commitmentAmountUSD <= 0 || selectedPeriod <= 0 || volatility <= 0) {
-    console.warn(`Invalid input for Yield Calculation: Amount=${commitmentAmountUSD}, Period=${selectedPeriod}, σ=${volatility}. Returning 0 yield.`);
-    return {
-      estimatedYield: 0,
-      annualizedYieldPercentage: 0,
-      baseYield: 0,
-      tierAdjustment: 0,
-      durationAdjustment: 0,
-      marketConditionAdjustment: 0,
-      riskLevel: 0,
-    };
-  }
-
-  // Get tier multiplier from risk params or use defaults
-  const tierMultiplier = selectedTier === "conservative" 
-    ? riskParams?.tierMultipliers?.conservative 
-    : selectedTier === "balanced" 
-    ? riskParams?.tierMultipliers?.balanced
-    : selectedTier === "aggressive" 
-    ? riskParams?.tierMultipliers?.aggressive
-    : 1.0;
-
-  // Base yield calculation depends on volatility
-  const baseAnnualYieldRate = volatility * 0.8; // 80% of volatility as base yield
-  
-  // Adjust for duration - shorter periods have relatively lower annualized yields
-  const durationFactor = 1 - Math.exp(-selectedPeriod / 90); // Exponential curve that approaches 1
-  
-  // Market condition adjustment - use market data for a multiplier
-  const marketFactor = 1 + (marketConditions.volatility - 0.2) * 0.5; // Adjust based on how far volatility is from 20%
-  
-  // Calculate components
-  const baseYield = baseAnnualYieldRate * (selectedPeriod / 365) * commitmentAmountUSD;
-  const tierAdjustment = baseYield * (tierMultiplier - 1); // How much the tier impacts the base
-  const durationAdjustment = baseYield * (durationFactor - 0.8); // Adjust if duration factor is not medium-term
-  const marketConditionAdjustment = baseYield * (marketFactor - 1); // How much market conditions affect yield
-  
-  // Total annualized yield rate
-  const annualizedYieldRate = baseAnnualYieldRate * tierMultiplier * durationFactor * marketFactor;
-  
-  // Estimated actual yield for the period
-  const estimatedYield = annualizedYieldRate * (selectedPeriod / 365) * commitmentAmountUSD;
-  
-  // Risk level assessment (1-10 scale)
-  const riskLevel = Math.min(10, Math.round(
-    1 + // Base risk
-    (selectedTier === "conservative" ? 1 : selectedTier === "balanced" ? 3 : 5) + // Tier risk
-    (Math.min(3, selectedPeriod / 120)) + // Duration risk
-    (Math.min(2, volatility * 10)) // Volatility risk
-  ));
-  
-  // Estimated BTC acquisition price (for liquidity providers)
-  // This is a simplified model - assumes acquisition at worse than current price
-  const estimatedBTCAcquisitionPrice = marketConditions.btcPrice * (1 - volatility * tierMultiplier * 0.5);
-  
-  // Return the calculation results
-  return {
-    estimatedYield: Number(math.round(estimatedYield * 100)) / 100,
-    annualizedYieldPercentage: Number(math.round(annualizedYieldRate * 10000)) / 100, // Convert to percentage with 2 decimals
-    estimatedBTCAcquisitionPrice: Number(math.round(estimatedBTCAcquisitionPrice * 100)) / 100,
-    riskLevel,
-    baseYield: Number(math.round(baseYield * 100)) / 100,
-    tierAdjustment: Number(math.round(tierAdjustment * 100)) / 100,
-    durationAdjustment: Number(math.round(durationAdjustment * 100)) / 100,
-    marketConditionAdjustment: Number(math.round(marketConditionAdjustment * 100)) / 100,
-    capitalEfficiency: tierMultiplier * 0.8, // Simple efficiency model
-  };
-}
-
-/**
- * Generate price scenarios for visualization
- */
-function generatePriceScenarios({
-  currentPrice,
-  strikePrice,
-  premium,
-  amount,
-}: {
-  currentPrice: number;
-  strikePrice: number;
-  premium: number;
-  amount: number;
-}): PriceScenario[] {
-  const scenarios: PriceScenario[] = [];
-  const priceRange = 0.5; // Show prices from -50% to +50% of current
-  
-  for (let i = -10; i <= 10; i++) {
-    const priceChange = i * (priceRange / 10);
-    const scenarioPrice = currentPrice * (1 + priceChange);
-    
-    // Protection value (intrinsic value of the option)
-    const protectionValue = Math.max(0, (strikePrice - scenarioPrice) * amount);
-    
-    // Net value (protection minus premium)
-    const netValue = protectionValue - premium;
-    
-    scenarios.push({
-      price: Number(math.round(scenarioPrice * 100)) / 100,
-      protectionValue: Number(math.round(protectionValue * 100)) / 100,
-      netValue: Number(math.round(netValue * 100)) / 100,
-    });
-  }
-  
-  return scenarios;
-}
-
-/**
- * Calculate break-even price for a PUT option (where protection value equals premium)
- */
-function calculateBreakEvenPrice({
-  strikePrice,
-  premium,
-  amount,
-}: {
-  strikePrice: number;
-  premium: number;
-  amount: number;
-}): number {
-  // Break-even for PUT: Strike Price - Premium/Amount
-  return Number(math.round((strikePrice - (premium / amount)) * 100)) / 100;
-}
-
-/**
- * Calculate the approximate BTC price below which the provider's position becomes unprofitable,
- * considering the yield earned as a buffer against price drops.
- * This is a simplified estimation.
- */
-function calculateProviderBreakEvenPrice({
-  commitmentAmountUSD,
-  estimatedYieldUSD,
-  currentBtcPrice,
-}: {
-  commitmentAmountUSD: number;
-  estimatedYieldUSD: number;
-  currentBtcPrice: number;
-}): number | undefined {
-  if (currentBtcPrice <= 0 || commitmentAmountUSD <= 0) {
-    return undefined; // Cannot calculate if price or commitment is non-positive
-  }
-
-  // Calculate the maximum percentage drop the provider can withstand before loss
-  // This assumes the yield cushions the initial USD investment.
-  const bufferPercentage = estimatedYieldUSD / commitmentAmountUSD;
-  
-  // The break-even price is the current price reduced by this buffer percentage.
-  const breakEvenPrice = currentBtcPrice * (1 - bufferPercentage);
-
-  return Math.max(0, breakEvenPrice); // Price cannot be negative
-}
-
 // --- PUBLIC FACING QUERIES ---
 
 /**
@@ -405,90 +104,13 @@ export const getBuyerPremiumQuote = query({
     protectedValuePercentage: v.number(),
     protectionAmount: v.number(),
     expirationDays: v.number(),
-    policyType: v.string(), // Typically "PUT"
+    policyType: v.string(), // "PUT" or "CALL"
     currentPriceOverride: v.optional(v.number()),
     includeScenarios: v.optional(v.boolean()),
   },
   handler: async (ctx, args): Promise<BuyerPremiumQuoteResult> => {
-    // 1. Get current market data (price, volatility)
-    const marketData: MarketData = await ctx.runQuery(
-      internal.premium.getCurrentMarketData,
-      { asset: "BTC" }
-    );
-    const currentPrice: number = args.currentPriceOverride ?? marketData.price;
-    const volatility: number = marketData.volatility; // Or fetch specific duration volatility
-
-    // 2. Calculate protected value in USD
-    const protectedValueUSD: number =
-      (currentPrice * args.protectedValuePercentage) / 100;
-
-    // 3. Get active risk parameters
-    const riskParams: RiskParameters = await ctx.runQuery(
-      internal.premium.getActiveRiskParameters,
-      {
-        assetType: "BTC",
-        policyType: args.policyType,
-      }
-    );
-
-    // 4. Calculate premium using Black-Scholes
-    const premiumResult = calculateBlackScholesPremium({
-      currentPrice: currentPrice,
-      strikePrice: protectedValueUSD,
-      volatility: volatility,
-      duration: args.expirationDays,
-      amount: args.protectionAmount,
-      riskParams: riskParams,
-    });
-
-    // 5. Calculate break-even price
-    const breakEvenPrice = calculateBreakEvenPrice({
-      strikePrice: protectedValueUSD,
-      premium: premiumResult.premium,
-      amount: args.protectionAmount,
-    });
-
-    // 6. Calculate premium percentage of protected value and annualized
-    const premiumPercentage = (premiumResult.premium / (protectedValueUSD * args.protectionAmount)) * 100;
-    const annualizedPremium = premiumPercentage * (365 / args.expirationDays);
-
-    // 7. Generate price scenarios if requested
-    let scenarios: PriceScenario[] = [];
-    if (args.includeScenarios) {
-      scenarios = generatePriceScenarios({
-        currentPrice: currentPrice,
-        strikePrice: protectedValueUSD,
-        premium: premiumResult.premium,
-        amount: args.protectionAmount,
-      });
-    }
-
-    // 8. Return the comprehensive quote result
-    return {
-      inputs: {
-        protectedValuePercentage: args.protectedValuePercentage,
-        protectionAmount: args.protectionAmount,
-        expirationDays: args.expirationDays,
-        policyType: args.policyType,
-        protectedValueUSD: protectedValueUSD,
-      },
-      premium: premiumResult.premium,
-      premiumPercentage: Number(math.round(premiumPercentage * 100)) / 100,
-      annualizedPremium: Number(math.round(annualizedPremium * 100)) / 100,
-      breakEvenPrice,
-      factorsBreakdown: {
-        intrinsicValue: premiumResult.intrinsicValue,
-        timeValue: premiumResult.timeValue,
-        volatilityImpact: premiumResult.volatilityImpact,
-      },
-      scenarios,
-      marketDataSnapshot: {
-        btcPrice: currentPrice,
-        volatility: volatility,
-        timestamp: new Date().toISOString(),
-      },
-      riskParamsSnapshot: riskParams,
-    };
+    // Priced by the shared engine so both entry points always return the same premium
+    return await ctx.runQuery(api.services.oracle.premiumCalculation.getBuyerPremiumQuote, args);
   },
 });
 
@@ -503,61 +125,8 @@ export const getProviderYieldQuote = query({
     selectedPeriodDays: v.number(),
   },
   handler: async (ctx, args): Promise<ProviderYieldQuoteResult> => {
-    const quoteId = `prov-${new Date().toISOString()}-${Math.random().toString(16).slice(2)}`;
-    const timestamp = Date.now();
-
-    // Fetch necessary data
-    const marketData = await ctx.runQuery(internal.premium.getCurrentMarketData, { asset: "BTC" });
-    const riskParams = await ctx.runQuery(internal.premium.getActiveRiskParameters, {
-      assetType: "BTC",
-      policyType: "ProviderYield", // Assuming a specific policy type for providers
-    });
-
-    // Calculate yield components
-    const yieldComponents = calculateProviderYield({
-      commitmentAmountUSD: args.commitmentAmountUSD,
-      selectedTier: args.selectedTier,
-      selectedPeriod: args.selectedPeriodDays,
-      volatility: marketData.volatility,
-      riskParams: riskParams,
-      marketConditions: {
-        btcPrice: marketData.price,
-        volatility: marketData.volatility, // Pass fetched volatility
-        liquidity: riskParams.liquidityAdjustment, // Use risk param liquidity factor
-      },
-    });
-
-    // Calculate annualized percentage
-    const annualizedYieldPercentage = (yieldComponents.estimatedYield / args.commitmentAmountUSD) * (365 / args.selectedPeriodDays);
-
-    // Calculate provider break-even price
-    const breakEvenPrice = calculateProviderBreakEvenPrice({
-      commitmentAmountUSD: args.commitmentAmountUSD,
-      estimatedYieldUSD: yieldComponents.estimatedYield,
-      currentBtcPrice: marketData.price,
-    });
-
-    // Return the comprehensive quote result
-    return {
-      quoteId,
-      timestamp,
-      parameters: {
-        commitmentAmountUSD: args.commitmentAmountUSD,
-        selectedTier: args.selectedTier,
-        selectedPeriodDays: args.selectedPeriodDays,
-      },
-      calculated: {
-        estimatedYieldPercentage: annualizedYieldPercentage,
-        estimatedYieldUSD: yieldComponents.estimatedYield,
-        yieldComponents: yieldComponents,
-        breakEvenPriceUSD: breakEvenPrice, // Include the calculated break-even price
-      },
-      marketData,
-      riskParametersUsed: riskParams,
-      visualizationData: {
-        // Placeholder for potential future provider-specific scenarios
-      },
-    };
+    // Priced by the shared engine so both entry points always return the same yield
+    return await ctx.runQuery(api.services.oracle.premiumCalculation.getProviderYieldQuote, args);
   },
 });
 
@@ -584,6 +153,7 @@ export const logPremiumCalculation = internalMutation({
     timeValue: v.number(),
     volatilityImpact: v.number(),
     calculationModel: v.string(),
+    pricingEngineVersion: v.optional(v.string()),
     scenarios: v.array(
       v.object({
         price: v.number(),
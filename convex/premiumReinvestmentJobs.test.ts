@@ -0,0 +1,130 @@
+import { convexTest, TestConvex } from "convex-test";
+import { expect, test, describe, beforeEach } from "vitest";
+import schema from "./schema";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { PremiumDistributionStatus, TransactionStatus } from "./liquidityPool/types";
+import { PolicyStatus } from "./policyRegistry/types";
+import { REINVEST_STATUS } from "./premiumReinvestmentJobs";
+import { tokenToBaseUnits } from "./blockchain/common/utils";
+import { FEE_OPERATION } from "./blockchain/common/fees";
+
+const PROVIDER = "ST1PROVIDER";
+
+describe("premium reinvestment", () => {
+  let t: TestConvex<typeof schema>;
+  let distributionId: Id<"provider_premium_distributions">;
+
+  beforeEach(async () => {
+    t = convexTest(schema);
+    distributionId = await t.run(async (ctx) => {
+      const policyId = await ctx.db.insert("policies", {
+        owner: "ST1BUYER",
+        policyType: "PUT",
+        positionType: "LONG_PUT",
+        protectedValue: 95_000,
+        protectionAmount: 1,
+        premium: 1,
+        creationTimestamp: Date.now(),
+        expirationHeight: 1_000,
+        status: PolicyStatus.EXPIRED,
+        collateralToken: "sBTC",
+        settlementToken: "sBTC",
+      });
+      await ctx.db.insert("provider_balances", {
+        provider: PROVIDER,
+        token: "sBTC",
+        total_deposited: 1,
+        available_balance: 1,
+        locked_balance: 0,
+        earned_premiums: 0.29,
+        withdrawn_premiums: 0,
+        pending_premiums: 0,
+        last_updated: Date.now(),
+      });
+      return await ctx.db.insert("provider_premium_distributions", {
+        policy_id: policyId,
+        provider: PROVIDER,
+        premium_amount: 0.29,
+        token: "sBTC",
+        distribution_timestamp: Date.now(),
+        status: PremiumDistributionStatus.COMPLETED,
+      });
+    });
+  });
+
+  const getBalance = () => t.run(async (ctx) => (await ctx.db.query("provider_balances").unique())!);
+
+  test("converts token amounts to base units without exceeding them", () => {
+    expect(tokenToBaseUnits("sBTC", 0.29)).toBe(29_000_000);
+    expect(tokenToBaseUnits("STX", 1.2345678)).toBe(1_234_567);
+  });
+
+  test("credits the amount the vault moved and releases the reservation", async () => {
+    const attempt = await t.mutation(internal.premiumReinvestmentJobs.beginPremiumReinvestment, {
+      provider: PROVIDER,
+      token: "sBTC",
+      distributionIds: [distributionId],
+    });
+    if (!attempt.started) throw new Error(attempt.reason);
+    expect((await getBalance()).pending_premiums).toBe(0.29);
+
+    // One satoshi short of the reserved premiums, as if the amount had been rounded down
+    await t.mutation(internal.premiumReinvestmentJobs.recordReinvestmentBroadcast, {
+      pendingTxId: attempt.pendingTxId,
+      chainTxId: "0xreinvest",
+      amountBaseUnits: 28_999_999,
+    });
+    const result = await t.mutation(internal.premiumReinvestmentJobs.finalizePremiumReinvestment, {
+      pendingTxId: attempt.pendingTxId,
+      blockHeight: 100,
+    });
+    expect(result).toEqual({ finalized: true, token: "sBTC" });
+
+    const balance = await getBalance();
+    expect(balance.pending_premiums).toBe(0);
+    expect(balance.reinvested_premiums).toBe(0.28999999);
+    expect(balance.total_deposited).toBeCloseTo(1.28999999, 10);
+    expect(balance.available_balance).toBeCloseTo(1.28999999, 10);
+
+    const { distribution, logged } = await t.run(async (ctx) => ({
+      distribution: (await ctx.db.get(distributionId))!,
+      logged: await ctx.db.query("pool_transactions").unique(),
+    }));
+    expect(distribution.reinvest_status).toBe(REINVEST_STATUS.REINVESTED);
+    expect(logged?.amount).toBe(0.28999999);
+  });
+
+  test("follows a fee-bumped replacement of the broadcast transaction", async () => {
+    const attempt = await t.mutation(internal.premiumReinvestmentJobs.beginPremiumReinvestment, {
+      provider: PROVIDER,
+      token: "sBTC",
+      distributionIds: [distributionId],
+    });
+    if (!attempt.started) throw new Error(attempt.reason);
+    const lease = await t.mutation(internal.signerNonces.leaseNonce, {
+      signerAddress: "ST1BACKEND",
+      purpose: FEE_OPERATION.PREMIUM_REINVEST,
+      chainNonce: 0,
+    });
+    if (!lease) throw new Error("No lease");
+    await t.mutation(internal.signerNonces.markNonceBroadcast, { leaseId: lease.leaseId, txId: "0xreinvest", rawTx: "00", fee: 10_000 });
+    await t.mutation(internal.premiumReinvestmentJobs.recordReinvestmentBroadcast, {
+      pendingTxId: attempt.pendingTxId,
+      chainTxId: "0xreinvest",
+      amountBaseUnits: 29_000_000,
+    });
+
+    await t.mutation(internal.signerNonces.recordNonceRebroadcast, {
+      leaseId: lease.leaseId,
+      outcome: "replaced",
+      txId: "0xreinvest2",
+      rawTx: "01",
+      fee: 15_000,
+    });
+
+    const pendingTx = await t.run(async (ctx) => (await ctx.db.get(attempt.pendingTxId))!);
+    expect(pendingTx).toMatchObject({ chain_tx_id: "0xreinvest2", status: TransactionStatus.SUBMITTED });
+    expect((await getBalance()).pending_premiums).toBe(0.29);
+  });
+});
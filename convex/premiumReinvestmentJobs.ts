@@ -0,0 +1,478 @@
+/**
+ * Premium Reinvestment Jobs
+ *
+ * For providers with provider_preferences.autoReinvestPremiums set, sweeps newly distributed
+ * premiums (provider_premium_distributions) into their deposited capital. Each sweep calls the
+ * vault's reinvest-earned-premiums, which only accepts backend calls for providers who also
+ * enabled auto-reinvest on-chain, and is tracked as a REINVEST pending pool transaction until it
+ * confirms or fails.
+ */
+
+import { internalAction, internalMutation, internalQuery, ActionCtx, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { TransactionType, TransactionStatus, PremiumDistributionStatus } from "./liquidityPool/types";
+import { adjustTierBalance, getTierBalances, loadProviderDefaultTier } from "./liquidityPool/riskTiers";
+import { buildReinvestPremiumsTransaction } from "./blockchain/liquidityPool/writer";
+import { isAutoReinvestEnabled } from "./blockchain/liquidityPool/reader";
+import { TokenType } from "./blockchain/liquidityPool/types";
+import {
+  signTransaction,
+  broadcastSignedTransaction,
+  checkTransactionStatus,
+  getBackendAddress,
+  serializeTransactionHex,
+} from "./blockchain/common/transaction";
+import { createNonceManager } from "./signerNonces";
+import { FEE_OPERATION } from "./blockchain/common/fees";
+import { NetworkEnvironment, TransactionStatus as ChainTransactionStatus } from "./blockchain/common/types";
+import { getNetworkEnvironment } from "./blockchain/common/network";
+import { baseUnitsToToken, tokenToBaseUnits } from "./blockchain/common/utils";
+
+// provider_premium_distributions.reinvest_status
+export const REINVEST_STATUS = {
+  PENDING: "PENDING", // Included in a reinvestment that has not confirmed yet
+  REINVESTED: "REINVESTED",
+} as const;
+
+interface ReinvestmentCandidate {
+  provider: string;
+  token: string;
+  amount: number;
+  distributionIds: Id<"provider_premium_distributions">[];
+}
+
+/**
+ * Premiums a provider can still withdraw or reinvest
+ */
+function getUnclaimedPremiums(balance: Doc<"provider_balances">): number {
+  return (balance.earned_premiums || 0) -
+    (balance.withdrawn_premiums || 0) -
+    (balance.pending_premiums || 0) -
+    (balance.reinvested_premiums || 0);
+}
+
+/**
+ * Completed, not yet reinvested distributions of opted-in providers, grouped per provider and token.
+ * Distributions are taken oldest first up to the premiums the provider has not already withdrawn.
+ */
+export const getAutoReinvestCandidates = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<ReinvestmentCandidate[]> => {
+    const preferences = await ctx.db
+      .query("provider_preferences")
+      .filter(q => q.eq(q.field("autoReinvestPremiums"), true))
+      .collect();
+
+    const candidates: ReinvestmentCandidate[] = [];
+    for (const { provider } of preferences) {
+      const distributions = await ctx.db
+        .query("provider_premium_distributions")
+        .withIndex("by_provider_status", q => q.eq("provider", provider).eq("status", PremiumDistributionStatus.COMPLETED))
+        .filter(q => q.eq(q.field("reinvest_status"), undefined))
+        .collect();
+
+      const byToken = new Map<string, Doc<"provider_premium_distributions">[]>();
+      for (const distribution of distributions) {
+        byToken.set(distribution.token, [...(byToken.get(distribution.token) ?? []), distribution]);
+      }
+
+      for (const [token, tokenDistributions] of byToken) {
+        const balance = await ctx.db
+          .query("provider_balances")
+          .withIndex("by_provider_token", q => q.eq("provider", provider).eq("token", token))
+          .unique();
+        if (!balance) continue;
+
+        let unclaimed = getUnclaimedPremiums(balance);
+        const candidate: ReinvestmentCandidate = { provider, token, amount: 0, distributionIds: [] };
+        for (const distribution of tokenDistributions.sort((a, b) => a.distribution_timestamp - b.distribution_timestamp)) {
+          if (distribution.premium_amount > unclaimed) break;
+          candidate.amount += distribution.premium_amount;
+          candidate.distributionIds.push(distribution._id);
+          unclaimed -= distribution.premium_amount;
+        }
+        if (candidate.amount > 0) candidates.push(candidate);
+      }
+    }
+    return candidates;
+  },
+});
+
+export const getSubmittedReinvestments = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<Doc<"pending_pool_transactions">[]> => {
+    return await ctx.db
+      .query("pending_pool_transactions")
+      .withIndex("by_tx_type_status", q => q.eq("tx_type", TransactionType.REINVEST).eq("status", TransactionStatus.SUBMITTED))
+      .take(100);
+  },
+});
+
+/**
+ * Reserves the distributions' premiums for a reinvestment and records it as a pending pool transaction.
+ * Nothing is started if any distribution was swept meanwhile or the premiums were withdrawn.
+ */
+export const beginPremiumReinvestment = internalMutation({
+  args: {
+    provider: v.string(),
+    token: v.string(),
+    distributionIds: v.array(v.id("provider_premium_distributions")),
+  },
+  handler: async (ctx, args): Promise<
+    { started: true; pendingTxId: Id<"pending_pool_transactions">; amount: number } | { started: false; reason: string }
+  > => {
+    let amount = 0;
+    for (const id of args.distributionIds) {
+      const distribution = await ctx.db.get(id);
+      if (!distribution || distribution.status !== PremiumDistributionStatus.COMPLETED || distribution.reinvest_status) {
+        return { started: false, reason: `Distribution ${id} is no longer available for reinvestment` };
+      }
+      amount += distribution.premium_amount;
+    }
+
+    const balance = await ctx.db
+      .query("provider_balances")
+      .withIndex("by_provider_token", q => q.eq("provider", args.provider).eq("token", args.token))
+      .unique();
+    if (!balance || getUnclaimedPremiums(balance) < amount) {
+      return { started: false, reason: `Unclaimed premiums are below ${amount} ${args.token}` };
+    }
+
+    const now = Date.now();
+    const pendingTxId = await ctx.db.insert("pending_pool_transactions", {
+      provider: args.provider,
+      tx_id: `reinvest-${args.provider}-${args.token}-${now}`,
+      tx_type: TransactionType.REINVEST,
+      amount,
+      token: args.token,
+      timestamp: now,
+      payload: {
+        distributionIds: args.distributionIds,
+        tier: await loadProviderDefaultTier(ctx, args.provider),
+      },
+      status: TransactionStatus.PENDING,
+      retry_count: 0,
+    });
+    for (const id of args.distributionIds) {
+      await ctx.db.patch(id, { reinvest_status: REINVEST_STATUS.PENDING, reinvest_tx_id: pendingTxId });
+    }
+    await ctx.db.patch(balance._id, {
+      pending_premiums: (balance.pending_premiums || 0) + amount,
+      last_updated: now,
+    });
+    return { started: true, pendingTxId, amount };
+  },
+});
+
+export const recordReinvestmentBroadcast = internalMutation({
+  args: {
+    pendingTxId: v.id("pending_pool_transactions"),
+    chainTxId: v.string(),
+    amountBaseUnits: v.number(), // Amount the vault call moves, in micro-STX or satoshis
+  },
+  handler: async (ctx, args) => {
+    const pendingTx = await ctx.db.get(args.pendingTxId);
+    if (!pendingTx) {
+      throw new Error(`Reinvestment not found with ID: ${args.pendingTxId}`);
+    }
+    await ctx.db.patch(args.pendingTxId, {
+      status: TransactionStatus.SUBMITTED,
+      chain_tx_id: args.chainTxId,
+      payload: { ...pendingTx.payload, amountBaseUnits: args.amountBaseUnits },
+      last_attempted_at: Date.now(),
+    });
+  },
+});
+
+/**
+ * Points a submitted reinvestment at the fee-bumped transaction that replaced its broadcast one,
+ * so the replacement's confirmation finalizes it. Exported for signerNonces' replace-by-fee.
+ */
+export async function recordReinvestmentReplaced(ctx: MutationCtx, previousTxId: string, txId: string) {
+  const pendingTx = await ctx.db
+    .query("pending_pool_transactions")
+    .withIndex("by_chain_tx_id", q => q.eq("chain_tx_id", previousTxId))
+    .first();
+  if (pendingTx && pendingTx.tx_type === TransactionType.REINVEST && pendingTx.status === TransactionStatus.SUBMITTED) {
+    await ctx.db.patch(pendingTx._id, { chain_tx_id: txId, last_checked: Date.now() });
+  }
+}
+
+/**
+ * Logs a REINVEST entry in the provider's transaction history
+ */
+async function logReinvestTransaction(
+  ctx: MutationCtx,
+  pendingTx: Doc<"pending_pool_transactions">,
+  status: string,
+  description: string,
+  amount: number = pendingTx.amount
+) {
+  await ctx.db.insert("pool_transactions", {
+    provider: pendingTx.provider,
+    tx_id: pendingTx.tx_id,
+    tx_type: TransactionType.REINVEST,
+    amount,
+    token: pendingTx.token,
+    timestamp: Date.now(),
+    status,
+    chain_tx_id: pendingTx.chain_tx_id,
+    description,
+    metadata: {
+      pendingTxId: pendingTx._id,
+      distributionCount: pendingTx.payload?.distributionIds?.length ?? 0,
+      error: pendingTx.error,
+    },
+  });
+}
+
+/**
+ * Releases the reserved premiums and distributions of a reinvestment that was not confirmed,
+ * so the next run can sweep them again.
+ */
+export const recordReinvestmentFailed = internalMutation({
+  args: {
+    pendingTxId: v.id("pending_pool_transactions"),
+    error: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const pendingTx = await ctx.db.get(args.pendingTxId);
+    if (!pendingTx || pendingTx.status === TransactionStatus.CONFIRMED || pendingTx.status === TransactionStatus.FAILED) {
+      return;
+    }
+    await ctx.db.patch(args.pendingTxId, {
+      status: TransactionStatus.FAILED,
+      error: args.error,
+      last_checked: Date.now(),
+    });
+
+    const balance = await ctx.db
+      .query("provider_balances")
+      .withIndex("by_provider_token", q => q.eq("provider", pendingTx.provider).eq("token", pendingTx.token))
+      .unique();
+    if (balance) {
+      await ctx.db.patch(balance._id, {
+        pending_premiums: Math.max(0, (balance.pending_premiums || 0) - pendingTx.amount),
+        last_updated: Date.now(),
+      });
+    }
+    for (const id of (pendingTx.payload?.distributionIds ?? []) as Id<"provider_premium_distributions">[]) {
+      const distribution = await ctx.db.get(id);
+      if (distribution?.reinvest_tx_id === args.pendingTxId) {
+        await ctx.db.patch(id, { reinvest_status: undefined, reinvest_tx_id: undefined });
+      }
+    }
+    await logReinvestTransaction(
+      ctx,
+      { ...pendingTx, error: args.error },
+      TransactionStatus.FAILED,
+      `Failed to reinvest ${pendingTx.amount} ${pendingTx.token} of earned premiums: ${args.error}`
+    );
+  },
+});
+
+/**
+ * Moves a confirmed reinvestment's premiums into the provider's deposited and available capital.
+ * The amount credited is what the vault moved on-chain; any rounding remainder of the reserved
+ * premiums stays unclaimed.
+ */
+export const finalizePremiumReinvestment = internalMutation({
+  args: {
+    pendingTxId: v.id("pending_pool_transactions"),
+    blockHeight: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<{ finalized: boolean; token?: string }> => {
+    const pendingTx = await ctx.db.get(args.pendingTxId);
+    if (!pendingTx || pendingTx.status !== TransactionStatus.SUBMITTED) {
+      return { finalized: false };
+    }
+    const now = Date.now();
+    await ctx.db.patch(args.pendingTxId, {
+      status: TransactionStatus.CONFIRMED,
+      block_height: args.blockHeight,
+      last_checked: now,
+    });
+
+    const balance = await ctx.db
+      .query("provider_balances")
+      .withIndex("by_provider_token", q => q.eq("provider", pendingTx.provider).eq("token", pendingTx.token))
+      .unique();
+    if (!balance) {
+      console.error(`CRITICAL: Provider balance not found for confirmed reinvestment ${args.pendingTxId}`);
+      return { finalized: false };
+    }
+    const reinvested = pendingTx.payload?.amountBaseUnits !== undefined
+      ? baseUnitsToToken(pendingTx.token, pendingTx.payload.amountBaseUnits)
+      : pendingTx.amount;
+    const defaultTier = await loadProviderDefaultTier(ctx, pendingTx.provider);
+    await ctx.db.patch(balance._id, {
+      pending_premiums: Math.max(0, (balance.pending_premiums || 0) - pendingTx.amount),
+      reinvested_premiums: (balance.reinvested_premiums || 0) + reinvested,
+      total_deposited: balance.total_deposited + reinvested,
+      available_balance: balance.available_balance + reinvested,
+      tier_balances: adjustTierBalance(getTierBalances(balance, defaultTier), pendingTx.payload?.tier ?? defaultTier, {
+        total_deposited: reinvested,
+        available_balance: reinvested,
+      }),
+      last_updated: now,
+    });
+
+    for (const id of (pendingTx.payload?.distributionIds ?? []) as Id<"provider_premium_distributions">[]) {
+      await ctx.db.patch(id, { reinvest_status: REINVEST_STATUS.REINVESTED });
+    }
+    await logReinvestTransaction(
+      ctx,
+      pendingTx,
+      TransactionStatus.CONFIRMED,
+      `Reinvested ${reinvested} ${pendingTx.token} of earned premiums into capital`,
+      reinvested
+    );
+    return { finalized: true, token: pendingTx.token };
+  },
+});
+
+/**
+ * Signs and broadcasts the vault call for a started reinvestment
+ * @returns "submitted", or "failed" after the reservation has been released
+ */
+async function submitReinvestment(
+  ctx: ActionCtx,
+  pendingTxId: Id<"pending_pool_transactions">,
+  provider: string,
+  token: TokenType,
+  amount: number,
+  networkEnv: NetworkEnvironment
+): Promise<"submitted" | "failed"> {
+  const fail = async (error: string) => {
+    await ctx.runMutation(internal.premiumReinvestmentJobs.recordReinvestmentFailed, { pendingTxId, error });
+    return "failed" as const;
+  };
+
+  const amountBaseUnits = tokenToBaseUnits(token, amount);
+  if (amountBaseUnits <= 0) {
+    return await fail(`${amount} ${token} is less than one base unit`);
+  }
+
+  const nonceManager = createNonceManager(ctx, FEE_OPERATION.PREMIUM_REINVEST);
+  let lease;
+  try {
+    lease = await nonceManager.acquire(getBackendAddress(networkEnv));
+  } catch (error: any) {
+    return await fail(`Failed to lease signer nonce: ${error.message}`);
+  }
+
+  const txResult = await buildReinvestPremiumsTransaction({
+    token,
+    amount: amountBaseUnits,
+    provider,
+    network: networkEnv,
+    options: { nonce: lease.nonce },
+  });
+  if (!txResult.success || !txResult.data) {
+    await nonceManager.release(lease, "Failed to build reinvest-earned-premiums transaction");
+    return await fail(`Failed to build reinvest-earned-premiums transaction: ${String(txResult.error)}`);
+  }
+
+  let broadcastResult;
+  try {
+    const serializedTx = await signTransaction(txResult.data);
+    broadcastResult = await broadcastSignedTransaction(serializedTx, networkEnv, txResult.data);
+  } catch (error: any) {
+    broadcastResult = { success: false, error: error.message };
+  }
+  if (!broadcastResult.success || !broadcastResult.txId) {
+    await nonceManager.release(lease, broadcastResult.error || "Broadcast returned no transaction ID");
+    return await fail(broadcastResult.error || "Broadcast returned no transaction ID");
+  }
+
+  await nonceManager.markBroadcast(lease, {
+    txId: broadcastResult.txId,
+    rawTx: serializeTransactionHex(txResult.data.__signedTransaction),
+    fee: Number(txResult.data.fee),
+  });
+  await ctx.runMutation(internal.premiumReinvestmentJobs.recordReinvestmentBroadcast, {
+    pendingTxId,
+    chainTxId: broadcastResult.txId,
+    amountBaseUnits,
+  });
+  return "submitted";
+}
+
+/**
+ * Scheduled job: finalize broadcast reinvestments, then sweep newly distributed premiums
+ * of opted-in providers into their capital.
+ */
+export const autoReinvestPremiumsJob = internalAction({
+  args: {},
+  handler: async (ctx): Promise<{ confirmed: number; failed: number; submitted: number; skipped: number }> => {
+    const stats = { confirmed: 0, failed: 0, submitted: 0, skipped: 0 };
+    const networkEnv = getNetworkEnvironment();
+
+    // 1. Follow up on reinvestments that were already broadcast
+    const submitted = await ctx.runQuery(internal.premiumReinvestmentJobs.getSubmittedReinvestments, {});
+    for (const pendingTx of submitted) {
+      try {
+        const txStatus = await checkTransactionStatus(pendingTx.chain_tx_id!, networkEnv);
+        if (txStatus.status === ChainTransactionStatus.CONFIRMED) {
+          const result = await ctx.runMutation(internal.premiumReinvestmentJobs.finalizePremiumReinvestment, {
+            pendingTxId: pendingTx._id,
+            blockHeight: txStatus.blockHeight,
+          });
+          if (result.finalized && result.token) {
+            stats.confirmed++;
+            await ctx.scheduler.runAfter(0, internal.liquidityPool.poolState.updatePoolMetrics, { token: result.token });
+          }
+        } else if (txStatus.status === ChainTransactionStatus.FAILED) {
+          // REPLACED stays pending: the nonce monitor repoints the row at the fee-bumped replacement
+          await ctx.runMutation(internal.premiumReinvestmentJobs.recordReinvestmentFailed, {
+            pendingTxId: pendingTx._id,
+            error: txStatus.error || `Reinvest transaction ${txStatus.status}`,
+          });
+          stats.failed++;
+        }
+      } catch (error: any) {
+        console.error(`Error checking reinvestment ${pendingTx._id}:`, error);
+      }
+    }
+
+    // 2. Sweep new premiums
+    const candidates = await ctx.runQuery(internal.premiumReinvestmentJobs.getAutoReinvestCandidates, {});
+    for (const candidate of candidates) {
+      try {
+        const token = candidate.token.toUpperCase() === TokenType.SBTC ? TokenType.SBTC : TokenType.STX;
+        const onChain = await isAutoReinvestEnabled(candidate.provider, token, networkEnv);
+        if (!onChain.success || !onChain.data) {
+          console.log(`Skipping reinvestment for ${candidate.provider} (${candidate.token}): auto-reinvest is not enabled in the vault`);
+          stats.skipped++;
+          continue;
+        }
+
+        const attempt = await ctx.runMutation(internal.premiumReinvestmentJobs.beginPremiumReinvestment, {
+          provider: candidate.provider,
+          token: candidate.token,
+          distributionIds: candidate.distributionIds,
+        });
+        if (!attempt.started) {
+          console.log(`Skipping reinvestment for ${candidate.provider} (${candidate.token}): ${attempt.reason}`);
+          stats.skipped++;
+          continue;
+        }
+
+        const outcome = await submitReinvestment(ctx, attempt.pendingTxId, candidate.provider, token, attempt.amount, networkEnv);
+        if (outcome === "submitted") {
+          stats.submitted++;
+        } else {
+          stats.failed++;
+        }
+      } catch (error: any) {
+        console.error(`Error reinvesting premiums for ${candidate.provider} (${candidate.token}):`, error);
+        stats.failed++;
+      }
+    }
+
+    console.log(`Premium reinvestment job: ${JSON.stringify(stats)}`);
+    return stats;
+  },
+});
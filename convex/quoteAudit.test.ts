@@ -0,0 +1,122 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { WithoutSystemFields } from "convex/server";
+import schema from "./schema";
+import { api } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { RiskParameters } from "./types";
+import { PRICING_ENGINE_VERSION, priceBuyerProtection } from "./services/oracle/pricingEngine";
+import { QUOTE_AUDIT_STATUS, replayQuote } from "./quoteAudit";
+
+const riskParams: RiskParameters = {
+  assetType: "BTC",
+  policyType: "PUT",
+  baseRate: 0.01,
+  volatilityMultiplier: 1.5,
+  durationFactor: 0.5,
+  coverageFactor: 1,
+  tierMultipliers: { conservative: 0.8, balanced: 1, aggressive: 1.2 },
+  liquidityAdjustment: 1,
+  marketTrendAdjustment: 1,
+  version: 3,
+  lastUpdated: "2025-01-01T00:00:00.000Z",
+  updatedBy: "seed",
+  isActive: true,
+};
+
+const buyerParams = {
+  protectedValuePercentage: 90,
+  protectionAmount: 0.5,
+  expirationDays: 30,
+  policyType: "PUT",
+  riskTier: "balanced",
+  protectedAssetName: "BTC",
+  collateralTokenName: "STX",
+};
+
+const market = { btcPrice: 100_000, volatility: 0.6, timestamp: "2025-01-01T00:00:00.000Z" };
+
+function buyerQuote(overrides: Partial<WithoutSystemFields<Doc<"quotes">>> = {}): WithoutSystemFields<Doc<"quotes">> {
+  const priced = priceBuyerProtection({
+    currentPrice: market.btcPrice,
+    protectedValuePercentage: buyerParams.protectedValuePercentage,
+    protectionAmount: buyerParams.protectionAmount,
+    expirationDays: buyerParams.expirationDays,
+    policyType: buyerParams.policyType,
+    volatility: market.volatility,
+    riskParams,
+  });
+  return {
+    userId: "ST1BUYER",
+    quoteType: "buyer",
+    asset: "BTC",
+    createdAt: "2025-01-01T00:00:00.000Z",
+    expiresAt: "2025-01-01T00:10:00.000Z",
+    status: "active",
+    buyerParamsSnapshot: buyerParams,
+    quoteResult: {
+      premium: priced.premium,
+      premiumPercentage: priced.premiumPercentage,
+      annualizedPremium: priced.annualizedPremium,
+      breakEvenPrice: priced.breakEvenPrice,
+    },
+    riskParamsSnapshot: riskParams,
+    marketDataSnapshot: market,
+    pricingEngineVersion: PRICING_ENGINE_VERSION,
+    ...overrides,
+  };
+}
+
+const asDoc = (quote: WithoutSystemFields<Doc<"quotes">>): Doc<"quotes"> =>
+  ({ ...quote, _id: "quote" as Id<"quotes">, _creationTime: 0 });
+
+describe("replayQuote", () => {
+  test("matches a quote priced from the same snapshots", () => {
+    const replay = replayQuote(asDoc(buyerQuote()));
+    expect(replay.status).toBe(QUOTE_AUDIT_STATUS.MATCH);
+    expect(replay.drift).toEqual([]);
+  });
+
+  test("reports drift in the stored result", () => {
+    const quote = buyerQuote();
+    quote.quoteResult.premium = quote.quoteResult.premium! + 5;
+    const replay = replayQuote(asDoc(quote));
+    expect(replay.status).toBe(QUOTE_AUDIT_STATUS.DRIFT);
+    expect(replay.drift.map((d) => d.field)).toContain("premium");
+    expect(replay.drift.find((d) => d.field === "premium")!.absoluteDiff).toBeCloseTo(5);
+  });
+
+  test("cannot replay a buyer quote without its params", () => {
+    const replay = replayQuote(asDoc(buyerQuote({ buyerParamsSnapshot: undefined })));
+    expect(replay.status).toBe(QUOTE_AUDIT_STATUS.NOT_REPLAYABLE);
+  });
+});
+
+describe("auditQuote", () => {
+  async function audit(quote: WithoutSystemFields<Doc<"quotes">>, versionOverrides: Partial<RiskParameters> = {}) {
+    const t = convexTest(schema);
+    const quoteId = await t.run(async (ctx) => {
+      await ctx.db.insert("riskParameters", { ...riskParams, ...versionOverrides });
+      return await ctx.db.insert("quotes", quote);
+    });
+    return await t.query(api.quoteAudit.auditQuote, { quoteId });
+  }
+
+  test("confirms the snapshot against its governed version", async () => {
+    const report = await audit(buyerQuote());
+    expect(report!.status).toBe(QUOTE_AUDIT_STATUS.MATCH);
+    expect(report!.engineVersionMatches).toBe(true);
+    expect(report!.riskParamsVersion).toBe(3);
+    expect(report!.riskParamsSnapshotMatchesVersion).toBe(true);
+  });
+
+  test("flags a snapshot that differs from its version in any field", async () => {
+    const report = await audit(buyerQuote(), { marketTrendAdjustment: 1.1 });
+    expect(report!.riskParamsSnapshotMatchesVersion).toBe(false);
+  });
+
+  test("flags quotes priced by another engine version", async () => {
+    const report = await audit(buyerQuote({ pricingEngineVersion: "0.9.0" }));
+    expect(report!.engineVersionMatches).toBe(false);
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * Quote Audit
+ *
+ * Replays a stored quote from its own snapshots (buyer/provider params, marketDataSnapshot,
+ * riskParamsSnapshot) through the pricing engine and reports any drift from the stored
+ * quoteResult. Replays use the snapshot volatility as a flat sigma, which is the tenor-matched
+ * value the quote was priced with, so a replay never depends on today's market data.
+ */
+
+import { v } from "convex/values";
+import { action, query, QueryCtx } from "./_generated/server";
+import { paginationOptsValidator } from "convex/server";
+import { api } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { RiskParameters } from "./types";
+import { PRICING_ENGINE_VERSION, priceBuyerProtection, priceProviderYield } from "./services/oracle/pricingEngine";
+import { toRiskParameters } from "./riskParameterGovernance";
+
+// Stored results are rounded to cents/basis points; anything beyond this counts as drift
+export const QUOTE_AUDIT_TOLERANCE = 0.01;
+
+export const QUOTE_AUDIT_STATUS = {
+  MATCH: "match",
+  DRIFT: "drift",
+  NOT_REPLAYABLE: "not_replayable", // Snapshot missing the inputs needed to reprice
+} as const;
+
+type QuoteResult = Doc<"quotes">["quoteResult"];
+type RiskParamsSnapshot = Doc<"quotes">["riskParamsSnapshot"];
+
+// quoteResult fields a replay recomputes
+export type ReplayedQuoteFields = Partial<Pick<QuoteResult,
+  | "premium"
+  | "premiumPercentage"
+  | "annualizedPremium"
+  | "breakEvenPrice"
+  | "estimatedYield"
+  | "annualizedYieldPercentage"
+  | "estimatedBTCAcquisitionPrice"
+  | "capitalEfficiency"
+>>;
+
+export interface QuoteFieldDrift {
+  field: string;
+  stored: number;
+  recomputed: number;
+  absoluteDiff: number;
+  relativeDiffPercent: number | null;
+}
+
+export interface QuoteAuditReport {
+  quoteId: Id<"quotes">;
+  quoteType: string;
+  createdAt: string;
+  status: string;
+  message?: string;
+  quotedEngineVersion: string | null; // null for quotes saved before engine versioning
+  replayEngineVersion: string;
+  engineVersionMatches: boolean;
+  riskParamsVersion: number | null;
+  // Whether the snapshot still equals the stored riskParameters row of that version (null if unknown)
+  riskParamsSnapshotMatchesVersion: boolean | null;
+  recomputed: ReplayedQuoteFields;
+  drift: QuoteFieldDrift[];
+}
+
+// --- Replay ---
+
+function compareFields(stored: QuoteResult, recomputed: ReplayedQuoteFields): QuoteFieldDrift[] {
+  const drift: QuoteFieldDrift[] = [];
+  for (const field of Object.keys(recomputed) as (keyof ReplayedQuoteFields)[]) {
+    const storedValue = stored[field];
+    const recomputedValue = recomputed[field];
+    // Only compare what the quote actually stored
+    if (typeof storedValue !== "number" || typeof recomputedValue !== "number") continue;
+    const absoluteDiff = Math.abs(recomputedValue - storedValue);
+    if (absoluteDiff > QUOTE_AUDIT_TOLERANCE) {
+      drift.push({
+        field,
+        stored: storedValue,
+        recomputed: recomputedValue,
+        absoluteDiff,
+        relativeDiffPercent: storedValue !== 0 ? (absoluteDiff / Math.abs(storedValue)) * 100 : null,
+      });
+    }
+  }
+  return drift;
+}
+
+/**
+ * Deterministically reprices a quote from its snapshots.
+ */
+export function replayQuote(quote: Doc<"quotes">): Pick<QuoteAuditReport, "status" | "message" | "recomputed" | "drift"> {
+  const riskParams = quote.riskParamsSnapshot as RiskParameters;
+  const market = quote.marketDataSnapshot;
+
+  if (quote.quoteType === "buyer") {
+    const params = quote.buyerParamsSnapshot;
+    if (!params) {
+      return { status: QUOTE_AUDIT_STATUS.NOT_REPLAYABLE, message: "Buyer quote has no buyerParamsSnapshot.", recomputed: {}, drift: [] };
+    }
+    const priced = priceBuyerProtection({
+      currentPrice: market.btcPrice,
+      protectedValuePercentage: params.protectedValuePercentage,
+      protectionAmount: params.protectionAmount,
+      expirationDays: params.expirationDays,
+      policyType: params.policyType,
+      volatility: market.volatility,
+      riskParams,
+    });
+    const recomputed = {
+      premium: priced.premium,
+      premiumPercentage: priced.premiumPercentage,
+      annualizedPremium: priced.annualizedPremium,
+      breakEvenPrice: priced.breakEvenPrice,
+    };
+    const drift = compareFields(quote.quoteResult, recomputed);
+    return { status: drift.length > 0 ? QUOTE_AUDIT_STATUS.DRIFT : QUOTE_AUDIT_STATUS.MATCH, recomputed, drift };
+  }
+
+  if (quote.quoteType === "provider") {
+    const params = quote.providerParamsSnapshot;
+    if (!params) {
+      return { status: QUOTE_AUDIT_STATUS.NOT_REPLAYABLE, message: "Provider quote has no providerParamsSnapshot.", recomputed: {}, drift: [] };
+    }
+    const { yieldComponents } = priceProviderYield({
+      commitmentAmountUSD: params.commitmentAmountUSD,
+      selectedTier: params.selectedTier,
+      selectedPeriodDays: params.selectedPeriod,
+      marketData: { price: market.btcPrice, volatility: market.volatility },
+      riskParams,
+    });
+    const recomputed = {
+      estimatedYield: yieldComponents.estimatedYield,
+      annualizedYieldPercentage: yieldComponents.annualizedYieldPercentage,
+      estimatedBTCAcquisitionPrice: yieldComponents.estimatedBTCAcquisitionPrice,
+      capitalEfficiency: yieldComponents.capitalEfficiency,
+    };
+    const drift = compareFields(quote.quoteResult, recomputed);
+    return { status: drift.length > 0 ? QUOTE_AUDIT_STATUS.DRIFT : QUOTE_AUDIT_STATUS.MATCH, recomputed, drift };
+  }
+
+  return { status: QUOTE_AUDIT_STATUS.NOT_REPLAYABLE, message: `Unknown quote type ${quote.quoteType}.`, recomputed: {}, drift: [] };
+}
+
+const RISK_PARAMS_VALUE_FIELDS = [
+  "baseRate",
+  "volatilityMultiplier",
+  "durationFactor",
+  "coverageFactor",
+  "liquidityAdjustment",
+  "marketTrendAdjustment",
+] as const;
+const TIER_MULTIPLIER_FIELDS = ["conservative", "balanced", "aggressive"] as const;
+
+/**
+ * Whether a quote's riskParamsSnapshot holds exactly the values of the governed version it names.
+ */
+export function riskParamsSnapshotMatches(stored: RiskParameters, snapshot: RiskParamsSnapshot): boolean {
+  return (
+    RISK_PARAMS_VALUE_FIELDS.every((field) => stored[field] === snapshot[field]) &&
+    TIER_MULTIPLIER_FIELDS.every((tier) => stored.tierMultipliers[tier] === snapshot.tierMultipliers?.[tier])
+  );
+}
+
+async function buildAuditReport(ctx: Pick<QueryCtx, "db">, quote: Doc<"quotes">): Promise<QuoteAuditReport> {
+  const replay = replayQuote(quote);
+
+  // Check the snapshot against the governed riskParameters row of the same version
+  const snapshot = quote.riskParamsSnapshot;
+  let riskParamsSnapshotMatchesVersion: boolean | null = null;
+  const { assetType, policyType, version } = snapshot;
+  if (version !== undefined && assetType && policyType) {
+    const versionRow = await ctx.db
+      .query("riskParameters")
+      .withIndex("by_asset_policy_version", (q) =>
+        q.eq("assetType", assetType).eq("policyType", policyType).eq("version", version)
+      )
+      .first();
+    if (versionRow) {
+      riskParamsSnapshotMatchesVersion = riskParamsSnapshotMatches(toRiskParameters(versionRow), snapshot);
+    }
+  }
+
+  const quotedEngineVersion = quote.pricingEngineVersion ?? null;
+  return {
+    quoteId: quote._id,
+    quoteType: quote.quoteType,
+    createdAt: quote.createdAt,
+    ...replay,
+    quotedEngineVersion,
+    replayEngineVersion: PRICING_ENGINE_VERSION,
+    engineVersionMatches: quotedEngineVersion === PRICING_ENGINE_VERSION,
+    riskParamsVersion: snapshot.version ?? null,
+    riskParamsSnapshotMatchesVersion,
+  };
+}
+
+// --- Queries & Actions ---
+
+/**
+ * Replays one stored quote and reports drift from its stored result.
+ */
+export const auditQuote = query({
+  args: {
+    quoteId: v.id("quotes"),
+  },
+  handler: async (ctx, args): Promise<QuoteAuditReport | null> => {
+    const quote = await ctx.db.get(args.quoteId);
+    if (!quote) {
+      return null;
+    }
+    return await buildAuditReport(ctx, quote);
+  },
+});
+
+/**
+ * One page of audit reports for quotes created in [from, to] (ISO date strings).
+ */
+export const auditQuotesInRange = query({
+  args: {
+    from: v.string(),
+    to: v.string(),
+    quoteType: v.optional(v.string()),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("quotes")
+      .withIndex("by_createdAt", (q) => q.gte("createdAt", args.from).lte("createdAt", args.to))
+      .paginate(args.paginationOpts);
+
+    const quotes = args.quoteType
+      ? page.page.filter((quote) => quote.quoteType === args.quoteType)
+      : page.page;
+    const reports: QuoteAuditReport[] = [];
+    for (const quote of quotes) {
+      reports.push(await buildAuditReport(ctx, quote));
+    }
+    return { ...page, page: reports };
+  },
+});
+
+/**
+ * Audits every quote in a date range and summarises the drift, for auditor reports.
+ * Walks auditQuotesInRange page by page so no single query reads the whole range.
+ */
+export const auditQuotesInRangeSummary = action({
+  args: {
+    from: v.string(),
+    to: v.string(),
+    quoteType: v.optional(v.string()),
+    pageSize: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const summary = {
+      from: args.from,
+      to: args.to,
+      replayEngineVersion: PRICING_ENGINE_VERSION,
+      total: 0,
+      matched: 0,
+      drifted: 0,
+      notReplayable: 0,
+      engineVersionMismatches: 0,
+      riskParamsSnapshotMismatches: 0,
+      maxAbsoluteDrift: 0,
+      driftedQuotes: [] as QuoteAuditReport[],
+    };
+
+    let cursor: string | null = null;
+    let isDone = false;
+    while (!isDone) {
+      const result: { page: QuoteAuditReport[]; isDone: boolean; continueCursor: string } = await ctx.runQuery(
+        api.quoteAudit.auditQuotesInRange,
+        {
+          from: args.from,
+          to: args.to,
+          quoteType: args.quoteType,
+          paginationOpts: { numItems: args.pageSize ?? 100, cursor },
+        }
+      );
+      for (const report of result.page) {
+        summary.total++;
+        if (report.status === QUOTE_AUDIT_STATUS.MATCH) summary.matched++;
+        if (report.status === QUOTE_AUDIT_STATUS.NOT_REPLAYABLE) summary.notReplayable++;
+        if (!report.engineVersionMatches) summary.engineVersionMismatches++;
+        if (report.riskParamsSnapshotMatchesVersion === false) summary.riskParamsSnapshotMismatches++;
+        if (report.status === QUOTE_AUDIT_STATUS.DRIFT) {
+          summary.drifted++;
+          summary.driftedQuotes.push(report);
+          for (const d of report.drift) {
+            summary.maxAbsoluteDrift = Math.max(summary.maxAbsoluteDrift, d.absoluteDiff);
+          }
+        }
+      }
+      isDone = result.isDone;
+      cursor = result.continueCursor;
+    }
+
+    return summary;
+  },
+});
@@ -1,7 +1,8 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
 import { internal } from "./_generated/api"; // Added for risk params
-import * as math from 'mathjs'; // For Black-Scholes and rounding
+import { getTenorMatchedVolatility } from "./services/oracle/volatilityTermStructure";
+import { PRICING_ENGINE_VERSION, priceBuyerProtection, priceProviderYield } from "./services/oracle/pricingEngine";
 
 /**
  * Save a quote for either buyer or provider
@@ -53,6 +54,7 @@ export const saveQuote = mutation({
         premium: result.premium,
         premiumPercentage: result.premiumPercentage,
         breakEvenPrice: result.breakEvenPrice,
+        greeks: result.greeks,
       };
 
       // PCIA-203: Calculate and store riskTier in buyerParamsSnapshot
@@ -104,6 +106,7 @@ export const saveQuote = mutation({
       quoteResult,
       riskParamsSnapshot: args.calculationResult.riskParamsSnapshot,
       marketDataSnapshot: args.calculationResult.marketDataSnapshot,
+      pricingEngineVersion: args.calculationResult.pricingEngineVersion,
       metadata: args.metadata,
     });
 
@@ -251,155 +254,29 @@ export const expireQuotes = mutation({
   },
 });
 
-// --- Start: Copied from convex/services/oracle/premiumCalculation.ts (with adaptations) ---
-// TODO: Centralize these calculation helpers or make them importable if they are pure.
-
-// Standard normal cumulative distribution function
-function normDist(x: number): number {
-  return (1 + Number(math.erf(x / Number(math.sqrt(2))))) / 2;
-}
-
-interface PremiumComponents {
-  premium: number;
-  intrinsicValue: number;
-  timeValue: number;
-  volatilityImpact: number; // Or some other breakdown if BS model implies differently
-}
-
-// Adapted Black-Scholes calculation logic
-// Based on convex/services/oracle/premiumCalculation.ts version
-function calculateBlackScholesPremiumInternal({
-  currentPrice,  // S
-  strikePrice,   // K
-  volatility,    // σ
-  durationDays,  // T (in days)
-  amount,        // Multiplier for final premium
-  riskFreeRate = 0.02,  // r (annual)
-  // riskParams might be used for adjustments if the model is extended
-  // riskParams = null,
-}: {
-  currentPrice: number;
-  strikePrice: number;
-  volatility: number;
-  durationDays: number;
-  amount: number;
-  riskFreeRate?: number;
-  // riskParams?: any; // Define RiskParameters type if used here
-}): PremiumComponents {
-  if (durationDays <= 0) {
-    // For expired options, premium is intrinsic value only
-    const intrinsic = Math.max(0, strikePrice - currentPrice) * amount; // For a PUT
-    return {
-      premium: intrinsic,
-      intrinsicValue: intrinsic,
-      timeValue: 0,
-      volatilityImpact: 0, // No volatility impact if no time value
-    };
-  }
-
-  const T = durationDays / 365; // Time to maturity in years
-
-  const d1 = (Number(math.log(currentPrice / strikePrice)) + (riskFreeRate + (volatility ** 2) / 2) * T) / (volatility * Number(math.sqrt(T)));
-  const d2 = d1 - volatility * Number(math.sqrt(T));
-
-  let premiumValue;
-  // Assuming policyType is PUT as per typical buyer scenario
-  // For CALL: currentPrice * normDist(d1) - strikePrice * math.exp(-riskFreeRate * T) * normDist(d2);
-  // For PUT: strikePrice * math.exp(-riskFreeRate * T) * normDist(-d2) - currentPrice * normDist(-d1);
-  premiumValue = strikePrice * math.exp(-riskFreeRate * T) * normDist(-d2) - currentPrice * normDist(-d1);
-  premiumValue = premiumValue * amount; // Scale by amount
-
-  // Ensure premium is not negative (can happen with deep OTM options and model nuances)
-  premiumValue = Math.max(0, premiumValue);
-
-  const intrinsicValue = Math.max(0, strikePrice - currentPrice) * amount; // For a PUT
-  const timeValue = Math.max(0, premiumValue - intrinsicValue);
-
-  // Note: Volatility impact isn't a direct output of BS, but often time value is highly correlated.
-  // Here, assigning a part of time value or relating it to vega could be an approach if needed.
-  // For simplicity, we can say timeValue itself represents this, or set volatilityImpact to a portion.
-  return {
-    premium: premiumValue,
-    intrinsicValue: intrinsicValue,
-    timeValue: timeValue,
-    volatilityImpact: timeValue, // Simplified: time value is the primary impact from vol & time decay
-  };
-}
-
-function calculateBreakEvenPriceInternal({
-  strikePrice,
-  premium,
-  amount,
-  // policyType = "PUT" // Add if call option break-even is different
-}: {
-  strikePrice: number;
-  premium: number;
-  amount: number;
-  // policyType?: string;
-}): number {
-  if (amount === 0) return strikePrice; // Avoid division by zero
-  // For a PUT option, breakeven is Strike - Premium per unit
-  return strikePrice - (premium / amount);
-}
-
-// --- End: Copied helpers ---
-
 // --- Start: Recalculation Helper for Buyer Quotes ---
-async function _recalculateBuyerQuoteResult( 
-  ctx: any, // Use proper Convex context type QueryCtx or MutationCtx
+function _recalculateBuyerQuoteResult( 
   buyerParamsSnapshot: any, // Define this type based on schema
-  newMarketData: { btcPrice: number; volatility: number; timestamp: string },
+  newMarketData: { btcPrice: number; volatility: number; timestamp: string; volatilityEstimator?: string },
   activeRiskParams: any // Define RiskParameters type from schema/types.ts
 ) {
-  const { 
-    protectedValuePercentage,
-    protectionAmount,
-    expirationDays,
-    // policyType, // Assuming PUT for now based on BlackScholes adaptation
-  } = buyerParamsSnapshot;
-
-  const currentPrice = newMarketData.btcPrice;
-  const volatility = newMarketData.volatility;
-
-  const protectedValueUSD = (currentPrice * protectedValuePercentage) / 100;
-
-  const premiumComponents = calculateBlackScholesPremiumInternal({
-    currentPrice: currentPrice,
-    strikePrice: protectedValueUSD,
-    volatility: volatility,
-    durationDays: expirationDays,
-    amount: protectionAmount,
-    // riskParams: activeRiskParams, // Pass if BS internal model uses it for adjustments
-  });
-
-  const breakEvenPrice = calculateBreakEvenPriceInternal({
-    strikePrice: protectedValueUSD,
-    premium: premiumComponents.premium,
-    amount: protectionAmount,
+  const priced = priceBuyerProtection({
+    currentPrice: newMarketData.btcPrice,
+    protectedValuePercentage: buyerParamsSnapshot.protectedValuePercentage,
+    protectionAmount: buyerParamsSnapshot.protectionAmount,
+    expirationDays: buyerParamsSnapshot.expirationDays,
+    policyType: buyerParamsSnapshot.policyType ?? "PUT",
+    volatility: newMarketData.volatility,
+    riskParams: activeRiskParams,
   });
 
-  const premium = premiumComponents.premium;
-  let premiumPercentage = 0;
-  if (protectedValueUSD > 0 && protectionAmount > 0) {
-    premiumPercentage = (premium / (protectedValueUSD * protectionAmount)) * 100;
-  }
-  
-  let annualizedPremium = 0;
-  if (expirationDays > 0) {
-    annualizedPremium = premiumPercentage * (365 / expirationDays);
-  }
-
   return {
-    premium: Number(math.round(premium, 2)), // Round to 2 decimal places
-    premiumPercentage: Number(math.round(premiumPercentage, 2)),
-    annualizedPremium: Number(math.round(annualizedPremium, 2)),
-    breakEvenPrice: Number(math.round(breakEvenPrice, 2)),
-    // Include factorsBreakdown similar to BuyerPremiumQuoteResult
-    factorsBreakdown: {
-        intrinsicValue: Number(math.round(premiumComponents.intrinsicValue, 2)),
-        timeValue: Number(math.round(premiumComponents.timeValue, 2)),
-        volatilityImpact: Number(math.round(premiumComponents.volatilityImpact, 2)), // Or however it's defined
-    },
+    premium: priced.premium,
+    premiumPercentage: priced.premiumPercentage,
+    annualizedPremium: priced.annualizedPremium,
+    breakEvenPrice: priced.breakEvenPrice,
+    factorsBreakdown: priced.factorsBreakdown,
+    greeks: priced.greeks,
   };
 }
 // --- End: Recalculation Helper for Buyer Quotes ---
@@ -439,159 +316,25 @@ async function _lockQuoteInternal(ctx: any, quoteId: any, durationMs: number) {
   return lockedQuote;
 }
 
-// --- Start: Copied Provider Calculation Helpers ---
-// TODO: Centralize these calculation helpers or make them importable.
-// Based on convex/services/oracle/premiumCalculation.ts
-
-interface ProviderYieldComponents {
-  estimatedYield: number;
-  annualizedYieldPercentage: number;
-  baseYield?: number; // Made optional to match what calculateProviderYield might return directly if simplified
-  tierAdjustment?: number;
-  durationAdjustment?: number;
-  marketConditionAdjustment?: number;
-  riskLevel?: number;
-  estimatedBTCAcquisitionPrice?: number;
-  capitalEfficiency?: number;
-}
-
-// Copied and adapted from convex/services/oracle/premiumCalculation.ts
-function calculateProviderYieldInternal({
-  commitmentAmountUSD,
-  selectedTier,
-  selectedPeriod, // in days
-  volatility,
-  riskParams,    // RiskParameters type
-  marketConditions, // { btcPrice: number; volatility: number; liquidity: number; }
-}: {
-  commitmentAmountUSD: number;
-  selectedTier: string;
-  selectedPeriod: number;
-  volatility: number;
-  riskParams: any; // TODO: Replace with actual RiskParameters type
-  marketConditions: { btcPrice: number; volatility: number; liquidity: number; };
-}): ProviderYieldComponents {
-  if (commitmentAmountUSD <= 0 || selectedPeriod <= 0 || volatility < 0) {
-    console.warn(`Invalid input for Yield Calculation: Amount=${commitmentAmountUSD}, Period=${selectedPeriod}, σ=${volatility}. Returning 0 yield.`);
-    return {
-      estimatedYield: 0,
-      annualizedYieldPercentage: 0,
-      riskLevel: 0,
-    };
-  }
-
-  const tierMultConserv: number = typeof riskParams?.tierMultipliers?.conservative === 'number' ? riskParams.tierMultipliers.conservative : 0.7;
-  const tierMultBalanced: number = typeof riskParams?.tierMultipliers?.balanced === 'number' ? riskParams.tierMultipliers.balanced : 1.0;
-  const tierMultAggressive: number = typeof riskParams?.tierMultipliers?.aggressive === 'number' ? riskParams.tierMultipliers.aggressive : 1.3;
-
-  const tierMultiplier: number = selectedTier === "conservative" 
-    ? tierMultConserv
-    : selectedTier === "balanced" 
-    ? tierMultBalanced
-    : selectedTier === "aggressive" 
-    ? tierMultAggressive
-    : 1.0;
-
-  const rpVolatilityMultiplier: number = typeof riskParams?.volatilityMultiplier === 'number' ? riskParams.volatilityMultiplier : 0.8;
-  const rpDurationFactor: number = typeof riskParams?.durationFactor === 'number' ? riskParams.durationFactor : 90;
-  const rpBaseRate: number = typeof riskParams?.baseRate === 'number' ? riskParams.baseRate : 0.2;
-  const rpCoverageFactor: number = typeof riskParams?.coverageFactor === 'number' ? riskParams.coverageFactor : 0.5;
-  const rpCustomProviderFactor: number = typeof riskParams?.customProviderFactor === 'number' ? riskParams.customProviderFactor : 0.5;
-
-  const baseAnnualYieldRate: number = volatility * rpVolatilityMultiplier;
-  const safeDurationFactor = rpDurationFactor === 0 ? 90 : rpDurationFactor; // Default to 90 if 0 to avoid division by zero or exp issues
-  const durationFactor: number = 1 - math.exp(-selectedPeriod / safeDurationFactor); 
-  const marketFactor: number = 1 + (marketConditions.volatility - rpBaseRate) * rpCoverageFactor;
-  
-  const annualizedYieldRate: number = baseAnnualYieldRate * tierMultiplier * durationFactor * marketFactor;
-  const estimatedYield: number = annualizedYieldRate * (selectedPeriod / 365) * commitmentAmountUSD;
-  
-  const riskLevel: number = Math.min(10, Math.round(
-    1 +
-    (selectedTier === "conservative" ? 1 : selectedTier === "balanced" ? 3 : 5) +
-    (Math.min(3, selectedPeriod / 120)) +
-    (Math.min(2, volatility * 10))
-  ));
-  
-  const estimatedBTCAcquisitionPrice: number = marketConditions.btcPrice * (1 - volatility * tierMultiplier * rpCustomProviderFactor);
-  const capitalEfficiencyValue: number = tierMultiplier * rpVolatilityMultiplier;
-
-  return {
-    estimatedYield: Number(math.round(estimatedYield, 2)),
-    annualizedYieldPercentage: Number(math.round(annualizedYieldRate * 100, 2)), 
-    estimatedBTCAcquisitionPrice: Number(math.round(estimatedBTCAcquisitionPrice, 2)),
-    riskLevel,
-    baseYield: Number(math.round(baseAnnualYieldRate * (selectedPeriod / 365) * commitmentAmountUSD, 2)),
-    tierAdjustment: Number(math.round(baseAnnualYieldRate * (selectedPeriod / 365) * commitmentAmountUSD * (tierMultiplier -1), 2)),
-    capitalEfficiency: Number(math.round(capitalEfficiencyValue, 2)),
-  };
-}
-
-// Copied and adapted from convex/services/oracle/premiumCalculation.ts
-function calculateProviderBreakEvenPriceInternal({
-  commitmentAmountUSD,
-  estimatedYieldUSD,
-  currentBtcPrice,
-}: {
-  commitmentAmountUSD: number;
-  estimatedYieldUSD: number;
-  currentBtcPrice: number;
-}): number | undefined {
-  if (currentBtcPrice <= 0 || commitmentAmountUSD <= 0) {
-    return undefined;
-  }
-  const bufferPercentage = estimatedYieldUSD / commitmentAmountUSD;
-  const breakEvenPrice = currentBtcPrice * (1 - bufferPercentage);
-  return Math.max(0, Number(math.round(breakEvenPrice, 2)));
-}
-// --- End: Copied Provider Calculation Helpers ---
-
 // --- Start: Recalculation Helper for Provider Quotes ---
-async function _recalculateProviderQuoteResult(
-  ctx: any, // QueryCtx or MutationCtx
+function _recalculateProviderQuoteResult(
   providerParamsSnapshot: any, // Define type
   newMarketData: { btcPrice: number; volatility: number; timestamp: string },
   activeRiskParams: any // Define RiskParameters type
 ) {
-  const {
-    commitmentAmountUSD,
-    selectedTier,
-    selectedPeriod, // This is selectedPeriod in providerParamsSnapshot in schema
-  } = providerParamsSnapshot;
-
-  // Construct marketConditions for calculateProviderYieldInternal
-  const marketConditions = {
-    btcPrice: newMarketData.btcPrice,
-    volatility: newMarketData.volatility,
-    // Liquidity might come from activeRiskParams or a global setting
-    liquidity: activeRiskParams?.liquidityAdjustment ?? 0, 
-  };
-
-  const yieldComponents = calculateProviderYieldInternal({
-    commitmentAmountUSD,
-    selectedTier,
-    selectedPeriod,
-    volatility: newMarketData.volatility, // Pass overall market volatility
+  const { yieldComponents } = priceProviderYield({
+    commitmentAmountUSD: providerParamsSnapshot.commitmentAmountUSD,
+    selectedTier: providerParamsSnapshot.selectedTier,
+    selectedPeriodDays: providerParamsSnapshot.selectedPeriod, // selectedPeriod in providerParamsSnapshot
+    marketData: { price: newMarketData.btcPrice, volatility: newMarketData.volatility },
     riskParams: activeRiskParams,
-    marketConditions,
-  });
-
-  const breakEvenPriceUSD = calculateProviderBreakEvenPriceInternal({
-    commitmentAmountUSD,
-    estimatedYieldUSD: yieldComponents.estimatedYield,
-    currentBtcPrice: newMarketData.btcPrice,
   });
 
   return {
     estimatedYield: yieldComponents.estimatedYield, // This is for the specific period
     annualizedYieldPercentage: yieldComponents.annualizedYieldPercentage,
-    // Re-map from yieldComponents to match schema's quoteResult structure for providers
     estimatedBTCAcquisitionPrice: yieldComponents.estimatedBTCAcquisitionPrice,
     capitalEfficiency: yieldComponents.capitalEfficiency,
-    // Optional: if you want to store the full breakdown from yieldComponents
-    // yieldComponentsBreakdown: yieldComponents, 
-    // Optional: if breakEvenPriceUSD is part of quoteResult for provider
-    // breakEvenPriceUSD: breakEvenPriceUSD,
   };
 }
 // --- End: Recalculation Helper for Provider Quotes ---
@@ -619,10 +362,11 @@ export const finalizeQuote = mutation({
       .query("aggregatedPrices")
       .order("desc")
       .first();
-    const latestVolatilityData = await ctx.db
-      .query("historicalVolatility")
-      .order("desc")
-      .first();
+    // Re-price with the volatility matched to this quote's tenor
+    const tenorDays = existingQuote.buyerParamsSnapshot?.expirationDays
+      ?? existingQuote.providerParamsSnapshot?.selectedPeriod
+      ?? 30;
+    const latestVolatilityData = await getTenorMatchedVolatility(ctx, tenorDays);
 
     if (!latestPriceData || !latestVolatilityData) {
       throw new Error("Could not fetch latest market data.");
@@ -632,6 +376,8 @@ export const finalizeQuote = mutation({
       btcPrice: latestPriceData.price,
       volatility: latestVolatilityData.volatility,
       timestamp: new Date(now).toISOString(),
+      volatilityEstimator: latestVolatilityData.estimator,
+      volatilityTenorDays: tenorDays,
     };
 
     let updatedQuoteResult = existingQuote.quoteResult; 
@@ -646,8 +392,7 @@ export const finalizeQuote = mutation({
         throw new Error(`Active risk parameters not found for ${existingQuote.asset}/${existingQuote.buyerParamsSnapshot.policyType}`);
       }
       activeRiskParamsSnapshot = activeRiskParams;
-      updatedQuoteResult = await _recalculateBuyerQuoteResult(
-        ctx,
+      updatedQuoteResult = _recalculateBuyerQuoteResult(
         existingQuote.buyerParamsSnapshot,
         newMarketDataSnapshot,
         activeRiskParams
@@ -672,8 +417,7 @@ export const finalizeQuote = mutation({
       const riskParamsForCalc = activeRiskParams || existingQuote.riskParamsSnapshot || {}; // Basic fallback
       activeRiskParamsSnapshot = riskParamsForCalc; // Update to what was actually used.
 
-      updatedQuoteResult = await _recalculateProviderQuoteResult(
-        ctx,
+      updatedQuoteResult = _recalculateProviderQuoteResult(
         existingQuote.providerParamsSnapshot,
         newMarketDataSnapshot,
         riskParamsForCalc // Use the fetched or fallbacked risk params
@@ -685,6 +429,7 @@ export const finalizeQuote = mutation({
       marketDataSnapshot: newMarketDataSnapshot,
       quoteResult: updatedQuoteResult,
       riskParamsSnapshot: activeRiskParamsSnapshot, 
+      pricingEngineVersion: PRICING_ENGINE_VERSION,
       status: "active",
       expiresAt: new Date(now + (24 * 60 * 60 * 1000)).toISOString(),
       isLocked: false,
@@ -0,0 +1,156 @@
+import { convexTest, TestConvex } from "convex-test";
+import { expect, test, describe, beforeEach, afterEach, vi } from "vitest";
+import schema from "./schema";
+import { api, internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { PolicyStatus } from "./policyRegistry/types";
+import {
+  RECONCILED_FIELD,
+  RECONCILIATION_DISCREPANCY_STATUS,
+  RECONCILIATION_RESOLUTION,
+} from "./reconciliationJobs";
+import { getPolicyById, getPolicyStatus } from "./blockchain/policyRegistry/reader";
+
+vi.mock("./blockchain/policyRegistry/reader", () => ({
+  getPolicyById: vi.fn(),
+  getPolicyStatus: vi.fn(),
+}));
+
+describe("policy reconciliation", () => {
+  let t: TestConvex<typeof schema>;
+  let policyId: Id<"policies">;
+
+  beforeEach(async () => {
+    t = convexTest(schema);
+    policyId = await t.run(async (ctx) =>
+      await ctx.db.insert("policies", {
+        owner: "ST1BUYER",
+        policyType: "PUT",
+        positionType: "LONG_PUT",
+        protectedValue: 95_000,
+        protectionAmount: 1,
+        premium: 2_000,
+        creationTimestamp: Date.now(),
+        expirationHeight: 1_000,
+        status: PolicyStatus.SETTLED,
+        collateralToken: "STX",
+        settlementToken: "STX",
+        onChainPolicyId: "7",
+        settlementAmount: 1234.123456789,
+      })
+    );
+  });
+
+  const reconcile = (onChainState: { status?: string; expirationHeight?: number; settlementAmount?: number }) =>
+    t.mutation(internal.reconciliationJobs.reconcilePolicyState, {
+      policyId,
+      onChainState: { found: true, ...onChainState },
+      reconciliationId: "run",
+    });
+
+  const openDiscrepancies = () =>
+    t.run(async (ctx) =>
+      await ctx.db
+        .query("reconciliationDiscrepancies")
+        .withIndex("by_status", (q) => q.eq("status", RECONCILIATION_DISCREPANCY_STATUS.OPEN))
+        .collect()
+    );
+
+  test("settlement amounts match at the contract's 8-decimal precision", async () => {
+    const result = await reconcile({ status: PolicyStatus.SETTLED, expirationHeight: 1_000, settlementAmount: 1234.12345678 });
+    expect(result.discrepanciesOpened).toBe(0);
+  });
+
+  test("opens a discrepancy for each disagreeing field and auto-resolves it once the sides agree", async () => {
+    const result = await reconcile({ status: PolicyStatus.EXPIRED, expirationHeight: 1_000, settlementAmount: 1234.12 });
+    expect(result.discrepanciesOpened).toBe(2);
+    expect((await openDiscrepancies()).map((d) => d.field).sort()).toEqual([RECONCILED_FIELD.SETTLEMENT_AMOUNT, RECONCILED_FIELD.STATUS]);
+
+    const rerun = await reconcile({ status: PolicyStatus.SETTLED, expirationHeight: 1_000, settlementAmount: 1234.12345678 });
+    expect(rerun.autoResolved).toBe(2);
+    expect(await openDiscrepancies()).toHaveLength(0);
+  });
+
+  describe("autoReconciliationJob", () => {
+    beforeEach(() => {
+      vi.stubEnv("STACKS_NETWORK", "devnet");
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      vi.mocked(getPolicyById).mockReset();
+      vi.mocked(getPolicyStatus).mockReset();
+    });
+
+    test("stamps a failed read so the policy moves to the back of the queue", async () => {
+      vi.mocked(getPolicyById).mockResolvedValue({ success: false, error: "timeout" });
+      vi.mocked(getPolicyStatus).mockResolvedValue({ success: false, error: "timeout" });
+
+      const stats = await t.action(internal.reconciliationJobs.autoReconciliationJob, {});
+      expect(stats).toMatchObject({ policiesChecked: 1, policiesFailed: 1, policiesReconciled: 0 });
+      const failed = await t.run(async (ctx) => await ctx.db.get(policyId));
+      expect(failed!.lastReconciled).toBeDefined();
+      expect(failed!.lastReconciliationError).toBe("Failed to read the policy's on-chain state.");
+
+      vi.mocked(getPolicyById).mockResolvedValue({
+        success: true,
+        data: { onChainStatus: "Settled-ITM", expirationHeight: 1_000, settlement: { amount: 1234.12345678 } } as any,
+      });
+      await t.action(internal.reconciliationJobs.autoReconciliationJob, {});
+      const reconciled = await t.run(async (ctx) => await ctx.db.get(policyId));
+      expect(reconciled!.lastReconciled).toBeGreaterThanOrEqual(failed!.lastReconciled!);
+      expect(reconciled!.lastReconciliationError).toBeUndefined();
+    });
+  });
+
+  describe("resolveReconciliationDiscrepancy", () => {
+    const asAdmin = () => t.withIdentity({ tokenIdentifier: "admin|alice", roles: ["admin"] });
+
+    async function openStatusDiscrepancy() {
+      await reconcile({ status: PolicyStatus.EXPIRED });
+      const [discrepancy] = await openDiscrepancies();
+      return discrepancy._id;
+    }
+
+    test("applies the on-chain value to the policy and records the previous one", async () => {
+      const discrepancyId = await openStatusDiscrepancy();
+      const result = await asAdmin().mutation(api.reconciliationJobs.resolveReconciliationDiscrepancy, {
+        discrepancyId,
+        resolution: RECONCILIATION_RESOLUTION.APPLY_ON_CHAIN,
+      });
+      expect(result.success).toBe(true);
+
+      const { policy, events } = await t.run(async (ctx) => ({
+        policy: await ctx.db.get(policyId),
+        events: await ctx.db.query("policyEvents").collect(),
+      }));
+      expect(policy!.status).toBe(PolicyStatus.EXPIRED);
+      const update = events.find((event) => event.eventType === "ReconciliationUpdate");
+      expect(update!.data.previousValue).toBe(PolicyStatus.SETTLED);
+    });
+
+    test("a kept disagreement is not raised again", async () => {
+      const discrepancyId = await openStatusDiscrepancy();
+      await asAdmin().mutation(api.reconciliationJobs.resolveReconciliationDiscrepancy, {
+        discrepancyId,
+        resolution: RECONCILIATION_RESOLUTION.KEEP_CONVEX,
+      });
+      const rerun = await reconcile({ status: PolicyStatus.EXPIRED });
+      expect(rerun.discrepanciesOpened).toBe(0);
+    });
+
+    test("rejects unknown resolutions and non-admin callers", async () => {
+      const discrepancyId = await openStatusDiscrepancy();
+      const unknown = await asAdmin().mutation(api.reconciliationJobs.resolveReconciliationDiscrepancy, {
+        discrepancyId,
+        resolution: "overwrite",
+      });
+      expect(unknown.success).toBe(false);
+      const anonymous = await t.mutation(api.reconciliationJobs.resolveReconciliationDiscrepancy, {
+        discrepancyId,
+        resolution: RECONCILIATION_RESOLUTION.DISMISS,
+      });
+      expect(anonymous.success).toBe(false);
+    });
+  });
+});
@@ -1,7 +1,13 @@
-import { internalAction, internalQuery, internalMutation } from "./_generated/server";
+import { internalAction, internalQuery, internalMutation, mutation, query, MutationCtx, QueryCtx } from "./_generated/server";
 import { Doc, Id } from "./_generated/dataModel";
 import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
 import { internal } from "./_generated/api";
+import { getPolicyById, getPolicyStatus } from "./blockchain/policyRegistry/reader";
+import { mapOnChainStatusToPolicyStatus } from "./blockchain/policyRegistry/utils";
+import { getNetworkEnvironment } from "./blockchain/common/network";
+import { BlockchainError, BlockchainErrorCode, NetworkEnvironment } from "./blockchain/common/types";
+import { getAdminPrincipal } from "./adminAuth";
 
 /**
  * Enum for reconciliation status values
@@ -24,181 +30,446 @@ export enum ReconciliationEventType {
 }
 
 /**
- * Interface for on-chain policy state
+ * Status values for reconciliationDiscrepancies records
+ */
+export const RECONCILIATION_DISCREPANCY_STATUS = {
+  OPEN: "open",
+  RESOLVED: "resolved",
+  DISMISSED: "dismissed",
+  AUTO_RESOLVED: "auto_resolved", // The two sides agreed again on a later run
+} as const;
+
+/**
+ * How an admin resolved a discrepancy
+ */
+export const RECONCILIATION_RESOLUTION = {
+  APPLY_ON_CHAIN: "apply_on_chain", // Overwrite the Convex field with the on-chain value
+  KEEP_CONVEX: "keep_convex", // Convex is right; the chain needs fixing out of band
+  DISMISS: "dismiss",
+} as const;
+
+export type ReconciliationResolution = (typeof RECONCILIATION_RESOLUTION)[keyof typeof RECONCILIATION_RESOLUTION];
+
+function isReconciliationResolution(value: string): value is ReconciliationResolution {
+  return (Object.values(RECONCILIATION_RESOLUTION) as string[]).includes(value);
+}
+
+/**
+ * Fields compared between a Convex policy and its policy-registry record
+ */
+export const RECONCILED_FIELD = {
+  STATUS: "status",
+  EXPIRATION_HEIGHT: "expirationHeight",
+  SETTLEMENT_AMOUNT: "settlementAmount",
+  MISSING_ON_CHAIN: "missingOnChain",
+} as const;
+
+const ON_CHAIN_SCALE = 100000000; // policy-registry stores settlement amounts scaled by 1e8
+
+/**
+ * Whether a Convex settlement amount equals the on-chain one at the contract's precision.
+ * The contract keeps 8 decimals and truncates the rest; the epsilon absorbs float error in the scaling.
+ */
+function settlementAmountsMatch(convexAmount: number | undefined, onChainAmount: number): boolean {
+  if (convexAmount === undefined) {
+    return false;
+  }
+  const convexScaled = Math.trunc(convexAmount * ON_CHAIN_SCALE + Math.sign(convexAmount) * 1e-6);
+  return convexScaled === Math.round(onChainAmount * ON_CHAIN_SCALE);
+}
+
+/**
+ * On-chain policy state as read from the policy-registry contract
  */
 interface OnChainPolicyState {
-  policyId: string;
-  owner: string;
-  status: string;
-  expirationHeight: number;
+  found: boolean; // false when get-policy returned ERR-POLICY-NOT-FOUND
+  onChainStatus?: string; // Raw contract status, e.g. "Settled-ITM"
+  status?: string; // onChainStatus mapped to the Convex policies.status vocabulary
+  expirationHeight?: number;
   settlementAmount?: number;
-  isActive: boolean;
-  isSettled: boolean;
-  isExpired: boolean;
 }
 
+const onChainStateValidator = v.object({
+  found: v.boolean(),
+  onChainStatus: v.optional(v.string()),
+  status: v.optional(v.string()),
+  expirationHeight: v.optional(v.number()),
+  settlementAmount: v.optional(v.number()),
+});
+
 /**
- * Mock function to get on-chain policy state.
- * This is a placeholder until actual blockchain integration is implemented.
+ * Reads a policy from the policy-registry contract. Falls back to the status-only reader when the
+ * full record cannot be read, so status drift is still caught.
  * 
  * @param onChainPolicyId The on-chain ID of the policy
- * @returns Promise with the on-chain policy state
+ * @returns The on-chain state, or null if neither reader could reach the contract
  */
-export const mockGetOnChainPolicyState = async (
-  onChainPolicyId: string
+export const getOnChainPolicyState = async (
+  onChainPolicyId: string,
+  networkEnv: NetworkEnvironment
 ): Promise<OnChainPolicyState | null> => {
-  console.log(`Fetching on-chain state for policy: ${onChainPolicyId}`);
-  
-  // Simulate API call delay
-  await new Promise(resolve => setTimeout(resolve, 600));
-  
-  // 5% chance of failing to retrieve data
-  if (Math.random() < 0.05) {
-    console.warn(`Failed to retrieve on-chain state for policy: ${onChainPolicyId}`);
-    return null;
+  const policyResponse = await getPolicyById(onChainPolicyId, networkEnv);
+  if (policyResponse.success && policyResponse.data) {
+    const policy = policyResponse.data;
+    return {
+      found: true,
+      onChainStatus: policy.onChainStatus,
+      status: policy.onChainStatus ? mapOnChainStatusToPolicyStatus(policy.onChainStatus) : undefined,
+      expirationHeight: policy.expirationHeight,
+      settlementAmount: policy.settlement?.amount,
+    };
   }
-  
-  // Simulate varied on-chain state
-  const randomScenario = Math.random();
-  
-  // Build a mock policy state based on the random scenario
-  return {
-    policyId: onChainPolicyId,
-    owner: `ST1${Math.random().toString(36).substring(2, 12)}`,
-    status: randomScenario < 0.6 ? "active" : (randomScenario < 0.8 ? "exercised" : "expired"),
-    expirationHeight: Math.floor(700000 + Math.random() * 5000),
-    settlementAmount: randomScenario < 0.3 ? Math.floor(Math.random() * 1000000) : undefined,
-    isActive: randomScenario < 0.6,
-    isSettled: randomScenario >= 0.6 && randomScenario < 0.8,
-    isExpired: randomScenario >= 0.8,
-  };
+
+  const statusResponse = await getPolicyStatus(onChainPolicyId, networkEnv);
+  if (statusResponse.success && statusResponse.data) {
+    const onChainStatus = statusResponse.data.onChainStatus;
+    return {
+      found: true,
+      onChainStatus,
+      status: onChainStatus ? mapOnChainStatusToPolicyStatus(onChainStatus) : undefined,
+    };
+  }
+
+  // Both read-only calls reached the contract and got an error response: the policy does not exist
+  const policyError = policyResponse.error as unknown as BlockchainError | undefined;
+  const statusError = statusResponse.error as unknown as BlockchainError | undefined;
+  if (policyError?.code === BlockchainErrorCode.CONTRACT_ERROR && statusError?.code === BlockchainErrorCode.CONTRACT_ERROR) {
+    return { found: false };
+  }
+
+  console.warn(`Failed to read on-chain state for policy ${onChainPolicyId}:`, policyError?.message, statusError?.message);
+  return null;
 };
 
 /**
- * Helper query to get all policies that need reconciliation.
- * This typically includes:
- * 1. Policies that have on-chain IDs but haven't been checked recently
- * 2. Policies with inconsistencies flagged by other processes
+ * Helper query to get the policies that need reconciliation: those with on-chain IDs,
+ * least recently reconciled first.
  */
 export const getPoliciesForReconciliation = internalQuery({
   handler: async (ctx): Promise<Doc<"policies">[]> => {
-    // Get all policies with onChainPolicyId that haven't been reconciled recently
-    // In a real implementation, this would be limited by a "lastReconciled" timestamp
-    // Example: .filter(q => q.eq(q.field("lastReconciled"), undefined))
-    // or .filter(q => q.lt(q.field("lastReconciled"), someTimestamp))
     return await ctx.db
       .query("policies")
+      .withIndex("by_lastReconciled")
       .filter(q => q.neq(q.field("onChainPolicyId"), undefined))
       .take(50); // Limit the number of policies to reconcile in one job run
   }
 });
 
+interface FieldComparison {
+  field: string;
+  convexValue: any;
+  onChainValue: any;
+  matches: boolean;
+}
+
+function compareWithOnChain(policy: Doc<"policies">, onChainState: OnChainPolicyState): FieldComparison[] {
+  if (!onChainState.found) {
+    return [{ field: RECONCILED_FIELD.MISSING_ON_CHAIN, convexValue: policy.onChainPolicyId, onChainValue: null, matches: false }];
+  }
+
+  const comparisons: FieldComparison[] = [
+    { field: RECONCILED_FIELD.MISSING_ON_CHAIN, convexValue: policy.onChainPolicyId, onChainValue: policy.onChainPolicyId, matches: true },
+  ];
+  if (onChainState.status !== undefined) {
+    comparisons.push({
+      field: RECONCILED_FIELD.STATUS,
+      convexValue: policy.status,
+      onChainValue: onChainState.status,
+      matches: policy.status.toUpperCase() === onChainState.status,
+    });
+  }
+  if (onChainState.expirationHeight !== undefined) {
+    comparisons.push({
+      field: RECONCILED_FIELD.EXPIRATION_HEIGHT,
+      convexValue: policy.expirationHeight,
+      onChainValue: onChainState.expirationHeight,
+      matches: policy.expirationHeight === onChainState.expirationHeight,
+    });
+  }
+  if (onChainState.settlementAmount !== undefined) {
+    comparisons.push({
+      field: RECONCILED_FIELD.SETTLEMENT_AMOUNT,
+      convexValue: policy.settlementAmount ?? null,
+      onChainValue: onChainState.settlementAmount,
+      matches: settlementAmountsMatch(policy.settlementAmount, onChainState.settlementAmount),
+    });
+  }
+  return comparisons;
+}
+
+/**
+ * True if an admin already kept the Convex value (or dismissed) for exactly this disagreement,
+ * so the same drift is not raised again every run.
+ */
+async function isAcknowledged(ctx: Pick<QueryCtx, "db">, policyId: Id<"policies">, comparison: FieldComparison): Promise<boolean> {
+  for (const status of [RECONCILIATION_DISCREPANCY_STATUS.RESOLVED, RECONCILIATION_DISCREPANCY_STATUS.DISMISSED]) {
+    const previous = await ctx.db
+      .query("reconciliationDiscrepancies")
+      .withIndex("by_policy_field_status", (q) =>
+        q.eq("policyConvexId", policyId).eq("field", comparison.field).eq("status", status))
+      .collect();
+    const acknowledged = previous.some(record =>
+      record.resolution !== RECONCILIATION_RESOLUTION.APPLY_ON_CHAIN &&
+      record.convexValue === comparison.convexValue &&
+      record.onChainValue === comparison.onChainValue);
+    if (acknowledged) {
+      return true;
+    }
+  }
+  return false;
+}
+
 /**
- * Updates a policy's state based on on-chain data.
+ * Compares a policy with its on-chain state. Every disagreeing field gets one open discrepancy
+ * record (refreshed on later runs); open records whose fields agree again are closed as auto_resolved.
+ * Convex data is never overwritten here; that happens through resolveReconciliationDiscrepancy.
  */
 export const reconcilePolicyState = internalMutation({
   args: {
     policyId: v.id("policies"),
-    onChainState: v.object({
-      status: v.string(),
-      expirationHeight: v.number(),
-      settlementAmount: v.optional(v.number()),
-      isActive: v.boolean(),
-      isSettled: v.boolean(),
-      isExpired: v.boolean(),
-    }),
-    reconciliationId: v.optional(v.string()),
+    onChainState: onChainStateValidator,
+    reconciliationId: v.string(),
   },
-  handler: async (ctx, args) => {
+  handler: async (ctx, args): Promise<{ discrepanciesOpened: number; discrepanciesOpen: number; autoResolved: number }> => {
     const policy = await ctx.db.get(args.policyId);
     if (!policy) {
       throw new Error(`Policy not found with ID: ${args.policyId}`);
     }
-    
-    // Map on-chain status to our policy status enum
-    let newStatus = policy.status; // Default to current status
-    
-    if (args.onChainState.isExpired) {
-      newStatus = "Expired";
-    } else if (args.onChainState.isSettled) {
-      newStatus = "Exercised";
-    } else if (args.onChainState.isActive) {
-      newStatus = "Active";
-    }
-    
-    // Only update if there's a change
-    if (newStatus !== policy.status) {
-      // Update policy status
-      await ctx.db.patch(args.policyId, {
-        status: newStatus,
-        updatedAt: Date.now(),
+
+    const now = Date.now();
+    const result = { discrepanciesOpened: 0, discrepanciesOpen: 0, autoResolved: 0 };
+
+    for (const comparison of compareWithOnChain(policy, args.onChainState)) {
+      const open = await ctx.db
+        .query("reconciliationDiscrepancies")
+        .withIndex("by_policy_field_status", q =>
+          q.eq("policyConvexId", args.policyId).eq("field", comparison.field).eq("status", RECONCILIATION_DISCREPANCY_STATUS.OPEN))
+        .first();
+
+      if (comparison.matches) {
+        if (open) {
+          await ctx.db.patch(open._id, {
+            status: RECONCILIATION_DISCREPANCY_STATUS.AUTO_RESOLVED,
+            resolvedAt: now,
+            lastSeenAt: now,
+            reconciliationId: args.reconciliationId,
+          });
+          result.autoResolved++;
+        }
+        continue;
+      }
+
+      if (open) {
+        await ctx.db.patch(open._id, {
+          convexValue: comparison.convexValue,
+          onChainValue: comparison.onChainValue,
+          onChainStatus: args.onChainState.onChainStatus,
+          lastSeenAt: now,
+          reconciliationId: args.reconciliationId,
+        });
+        result.discrepanciesOpen++;
+        continue;
+      }
+      if (await isAcknowledged(ctx, args.policyId, comparison)) {
+        continue;
+      }
+
+      const discrepancyId = await ctx.db.insert("reconciliationDiscrepancies", {
+        policyConvexId: args.policyId,
+        onChainPolicyId: policy.onChainPolicyId ?? "",
+        field: comparison.field,
+        convexValue: comparison.convexValue,
+        onChainValue: comparison.onChainValue,
+        onChainStatus: args.onChainState.onChainStatus,
+        status: RECONCILIATION_DISCREPANCY_STATUS.OPEN,
+        reconciliationId: args.reconciliationId,
+        detectedAt: now,
+        lastSeenAt: now,
       });
-      
-      // Create policy event for state update
       await ctx.db.insert("policyEvents", {
         policyConvexId: args.policyId,
-        eventType: "ReconciliationUpdate",
+        eventType: "ReconciliationDiscrepancy",
         data: {
-          previousStatus: policy.status,
-          newStatus: newStatus,
-          onChainState: args.onChainState,
+          discrepancyId,
+          field: comparison.field,
+          convexValue: comparison.convexValue,
+          onChainValue: comparison.onChainValue,
+          onChainStatus: args.onChainState.onChainStatus,
           reconciliationId: args.reconciliationId,
-          reconciliationTimestamp: Date.now()
         },
-        timestamp: Date.now(),
-      });
-      
-      console.log(`Reconciled policy ${args.policyId}: Status updated from ${policy.status} to ${newStatus}`);
-    } else {
-      console.log(`Reconciled policy ${args.policyId}: No status change needed`);
-    }
-    
-    // Update settlement amount if provided and different
-    if (args.onChainState.settlementAmount !== undefined && 
-        (policy as any).settlementAmount !== args.onChainState.settlementAmount) {
-      await ctx.db.patch(args.policyId, {
-        settlementAmount: args.onChainState.settlementAmount,
+        timestamp: now,
       });
+      result.discrepanciesOpened++;
+      result.discrepanciesOpen++;
+      console.log(`Reconciliation discrepancy on policy ${args.policyId} (${comparison.field}): Convex=${comparison.convexValue} on-chain=${comparison.onChainValue}`);
     }
-    
-    // Update expiration height if different
-    if (policy.expirationHeight !== args.onChainState.expirationHeight) {
-      await ctx.db.patch(args.policyId, {
-        expirationHeight: args.onChainState.expirationHeight,
-      });
+
+    await ctx.db.patch(args.policyId, { lastReconciled: now, lastReconciliationError: undefined });
+    return result;
+  }
+});
+
+/**
+ * Stamps a failed reconciliation attempt on the policy, so it moves to the back of the
+ * by_lastReconciled queue instead of being retried ahead of every other policy each run.
+ */
+export const recordReconciliationFailure = internalMutation({
+  args: {
+    policyId: v.id("policies"),
+    error: v.string(),
+  },
+  handler: async (ctx, args) => {
+    if (!(await ctx.db.get(args.policyId))) {
+      return;
     }
-    
-    return await ctx.db.get(args.policyId);
+    await ctx.db.patch(args.policyId, { lastReconciled: Date.now(), lastReconciliationError: args.error });
   }
 });
 
+/**
+ * Writes the on-chain value of a discrepancy onto the policy
+ * @returns An error message, or null on success
+ */
+async function applyOnChainValue(ctx: MutationCtx, discrepancy: Doc<"reconciliationDiscrepancies">, adminPrincipal: string): Promise<string | null> {
+  const policy = await ctx.db.get(discrepancy.policyConvexId);
+  if (!policy) {
+    return "Policy not found.";
+  }
+
+  const now = Date.now();
+  let previousValue: string | number | null;
+  switch (discrepancy.field) {
+    case RECONCILED_FIELD.STATUS:
+      previousValue = policy.status;
+      await ctx.db.patch(policy._id, { status: discrepancy.onChainValue, updatedAt: now });
+      break;
+    case RECONCILED_FIELD.EXPIRATION_HEIGHT:
+      previousValue = policy.expirationHeight;
+      await ctx.db.patch(policy._id, { expirationHeight: discrepancy.onChainValue, updatedAt: now });
+      break;
+    case RECONCILED_FIELD.SETTLEMENT_AMOUNT:
+      previousValue = policy.settlementAmount ?? null;
+      await ctx.db.patch(policy._id, { settlementAmount: discrepancy.onChainValue, updatedAt: now });
+      break;
+    default:
+      return `The on-chain value of "${discrepancy.field}" cannot be applied to the policy.`;
+  }
+
+  await ctx.db.insert("policyEvents", {
+    policyConvexId: policy._id,
+    eventType: "ReconciliationUpdate",
+    data: {
+      discrepancyId: discrepancy._id,
+      field: discrepancy.field,
+      previousValue,
+      newValue: discrepancy.onChainValue,
+      onChainStatus: discrepancy.onChainStatus,
+      resolvedBy: adminPrincipal,
+    },
+    timestamp: now,
+  });
+  return null;
+}
+
+/**
+ * Resolves an open discrepancy: apply the on-chain value to the policy, keep the Convex value,
+ * or dismiss it. Kept and dismissed disagreements are not raised again unless either value changes.
+ */
+export const resolveReconciliationDiscrepancy = mutation({
+  args: {
+    discrepancyId: v.id("reconciliationDiscrepancies"),
+    resolution: v.string(), // One of RECONCILIATION_RESOLUTION
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean; message: string }> => {
+    const adminPrincipal = await getAdminPrincipal(ctx);
+    if (!adminPrincipal) {
+      return { success: false, message: "Admin access required." };
+    }
+    const discrepancy = await ctx.db.get(args.discrepancyId);
+    if (!discrepancy) {
+      return { success: false, message: "Discrepancy not found." };
+    }
+    if (discrepancy.status !== RECONCILIATION_DISCREPANCY_STATUS.OPEN) {
+      return { success: false, message: `Discrepancy is already ${discrepancy.status}.` };
+    }
+    if (!isReconciliationResolution(args.resolution)) {
+      return { success: false, message: `Unknown resolution "${args.resolution}".` };
+    }
+
+    if (args.resolution === RECONCILIATION_RESOLUTION.APPLY_ON_CHAIN) {
+      const error = await applyOnChainValue(ctx, discrepancy, adminPrincipal);
+      if (error) {
+        return { success: false, message: error };
+      }
+    }
+
+    const dismissed = args.resolution === RECONCILIATION_RESOLUTION.DISMISS;
+    await ctx.db.patch(args.discrepancyId, {
+      status: dismissed ? RECONCILIATION_DISCREPANCY_STATUS.DISMISSED : RECONCILIATION_DISCREPANCY_STATUS.RESOLVED,
+      resolution: dismissed ? undefined : args.resolution,
+      resolvedBy: adminPrincipal,
+      resolvedAt: Date.now(),
+      note: args.note,
+    });
+    return { success: true, message: dismissed ? "Discrepancy dismissed." : "Discrepancy resolved." };
+  },
+});
+
+/**
+ * Lists reconciliation discrepancies by status (open by default), newest first.
+ */
+export const listReconciliationDiscrepancies = query({
+  args: {
+    status: v.optional(v.string()),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("reconciliationDiscrepancies")
+      .withIndex("by_status", q => q.eq("status", args.status ?? RECONCILIATION_DISCREPANCY_STATUS.OPEN))
+      .order("desc")
+      .paginate(args.paginationOpts);
+  },
+});
+
 /**
  * Scheduled job to auto-reconcile on-chain vs off-chain policy states.
  * Implements CV-PR-215 from the implementation roadmap.
  * 
  * This job:
- * 1. Queries policies that need reconciliation
- * 2. Fetches their on-chain state
- * 3. Updates policy records in Convex based on on-chain state
+ * 1. Queries the least recently reconciled policies
+ * 2. Reads their state from the policy-registry contract
+ * 3. Records a discrepancy for every field where Convex and the chain disagree
+ *
+ * Every attempt stamps lastReconciled, failed ones with lastReconciliationError, so policies
+ * whose reads keep failing do not hold the front of the queue.
  * 
  * @returns Summary of reconciled policies
  */
 export const autoReconciliationJob = internalAction({
   handler: async (ctx): Promise<{
     policiesChecked: number;
-    policiesUpdated: number;
+    policiesReconciled: number;
     policiesFailed: number;
+    discrepanciesOpened: number;
+    discrepanciesOpen: number;
+    autoResolved: number;
   }> => {
     console.log("Running scheduled job: autoReconciliationJob");
     
     // Create a unique reconciliation ID for this job run
     const reconciliationId = `recon-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
+    const networkEnv = getNetworkEnvironment();
     
     // Track stats for reporting
     const stats = {
       policiesChecked: 0,
-      policiesUpdated: 0,
+      policiesReconciled: 0,
       policiesFailed: 0,
+      discrepanciesOpened: 0,
+      discrepanciesOpen: 0,
+      autoResolved: 0,
     };
     
     try {
@@ -218,33 +489,41 @@ export const autoReconciliationJob = internalAction({
           }
           
           // Get on-chain state
-          const onChainState = await mockGetOnChainPolicyState(policy.onChainPolicyId);
+          const onChainState = await getOnChainPolicyState(policy.onChainPolicyId, networkEnv);
           
           if (!onChainState) {
             console.warn(`Failed to get on-chain state for policy ${policy._id} (${policy.onChainPolicyId})`);
+            await ctx.runMutation(internal.reconciliationJobs.recordReconciliationFailure, {
+              policyId: policy._id,
+              error: "Failed to read the policy's on-chain state.",
+            });
             stats.policiesFailed++;
             continue;
           }
           
           // Reconcile policy state
-          await ctx.runMutation(internal.reconciliationJobs.reconcilePolicyState, {
+          const result = await ctx.runMutation(internal.reconciliationJobs.reconcilePolicyState, {
             policyId: policy._id,
-            onChainState: {
-              status: onChainState.status,
-              expirationHeight: onChainState.expirationHeight,
-              settlementAmount: onChainState.settlementAmount,
-              isActive: onChainState.isActive,
-              isSettled: onChainState.isSettled,
-              isExpired: onChainState.isExpired,
-            },
+            onChainState,
             reconciliationId,
           });
           
-          stats.policiesUpdated++;
+          stats.policiesReconciled++;
+          stats.discrepanciesOpened += result.discrepanciesOpened;
+          stats.discrepanciesOpen += result.discrepanciesOpen;
+          stats.autoResolved += result.autoResolved;
           
         } catch (error: any) {
           console.error(`Error reconciling policy ${policy._id}:`, error);
           stats.policiesFailed++;
+          try {
+            await ctx.runMutation(internal.reconciliationJobs.recordReconciliationFailure, {
+              policyId: policy._id,
+              error: error?.message ?? String(error),
+            });
+          } catch (recordError) {
+            console.error(`Failed to record the reconciliation failure of policy ${policy._id}:`, recordError);
+          }
         }
       }
       
@@ -256,4 +535,4 @@ export const autoReconciliationJob = internalAction({
       return stats;
     }
   }
-}); 
\ No newline at end of file
+});
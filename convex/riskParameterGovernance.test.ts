@@ -0,0 +1,112 @@
+import { convexTest, TestConvex } from "convex-test";
+import { expect, test, describe, beforeEach } from "vitest";
+import schema from "./schema";
+import { api } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { RISK_PARAMETER_PROPOSAL_STATUS, RiskParameterValues } from "./riskParameterGovernance";
+
+const initialValues: RiskParameterValues = {
+  baseRate: 0.01,
+  volatilityMultiplier: 1.5,
+  durationFactor: 0.5,
+  coverageFactor: 1,
+  tierMultipliers: { conservative: 0.8, balanced: 1, aggressive: 1.2 },
+  liquidityAdjustment: 1,
+  marketTrendAdjustment: 1,
+};
+
+const asAdmin = (t: TestConvex<typeof schema>, name: string) =>
+  t.withIdentity({ tokenIdentifier: `admin|${name}`, roles: ["admin"] });
+
+describe("risk parameter governance", () => {
+  let t: TestConvex<typeof schema>;
+
+  beforeEach(async () => {
+    t = convexTest(schema);
+    await t.run(async (ctx) => {
+      await ctx.db.insert("riskParameters", {
+        assetType: "BTC",
+        policyType: "PUT",
+        ...initialValues,
+        version: 1,
+        lastUpdated: new Date().toISOString(),
+        updatedBy: "seed",
+        isActive: true,
+      });
+    });
+  });
+
+  async function propose(proposer: string, baseRate: number): Promise<Id<"riskParameterProposals">> {
+    const result = await asAdmin(t, proposer).mutation(api.riskParameterGovernance.proposeRiskParameterChange, {
+      assetType: "BTC",
+      policyType: "PUT",
+      params: { ...initialValues, baseRate },
+      rationale: "test",
+    });
+    expect(result.success).toBe(true);
+    return result.proposalId!;
+  }
+
+  async function approveAndActivate(proposalId: Id<"riskParameterProposals">) {
+    await asAdmin(t, "bob").mutation(api.riskParameterGovernance.approveRiskParameterProposal, { proposalId });
+    await asAdmin(t, "carol").mutation(api.riskParameterGovernance.approveRiskParameterProposal, { proposalId });
+    return await asAdmin(t, "bob").mutation(api.riskParameterGovernance.activateRiskParameterProposal, { proposalId });
+  }
+
+  const activeVersion = () =>
+    t.run(async (ctx) =>
+      await ctx.db
+        .query("riskParameters")
+        .withIndex("by_asset_policy_active", (q) => q.eq("assetType", "BTC").eq("policyType", "PUT").eq("isActive", true))
+        .first()
+    );
+
+  test("the proposer cannot approve their own proposal", async () => {
+    const proposalId = await propose("alice", 0.02);
+    const result = await asAdmin(t, "alice").mutation(api.riskParameterGovernance.approveRiskParameterProposal, { proposalId });
+    expect(result.success).toBe(false);
+    const proposal = await t.run(async (ctx) => await ctx.db.get(proposalId));
+    expect(proposal!.approvals).toHaveLength(0);
+  });
+
+  test("a proposal cannot be activated before it has enough approvals", async () => {
+    const proposalId = await propose("alice", 0.02);
+    await asAdmin(t, "bob").mutation(api.riskParameterGovernance.approveRiskParameterProposal, { proposalId });
+    const result = await asAdmin(t, "bob").mutation(api.riskParameterGovernance.activateRiskParameterProposal, { proposalId });
+    expect(result.success).toBe(false);
+    expect((await activeVersion())!.version).toBe(1);
+  });
+
+  test("a proposal based on a superseded version is rejected", async () => {
+    const stale = await propose("alice", 0.02);
+    const newer = await propose("dave", 0.03);
+    expect((await approveAndActivate(newer)).version).toBe(2);
+
+    const result = await approveAndActivate(stale);
+    expect(result.success).toBe(false);
+    const active = await activeVersion();
+    expect(active!.version).toBe(2);
+    expect(active!.baseRate).toBe(0.03);
+  });
+
+  test("rollback restores the previous version's values as a new version", async () => {
+    await approveAndActivate(await propose("alice", 0.02));
+
+    const rollback = await asAdmin(t, "alice").mutation(api.riskParameterGovernance.proposeRiskParameterRollback, {
+      assetType: "BTC",
+      policyType: "PUT",
+      targetVersion: 1,
+      rationale: "undo",
+    });
+    expect(rollback.success).toBe(true);
+    const rollbackId: Id<"riskParameterProposals"> = rollback.proposalId!;
+    const result = await approveAndActivate(rollbackId);
+    expect(result.version).toBe(3);
+
+    const active = await activeVersion();
+    expect(active!.baseRate).toBe(initialValues.baseRate);
+    const proposal = await t.run(async (ctx) => await ctx.db.get(rollbackId));
+    expect(proposal!.status).toBe(RISK_PARAMETER_PROPOSAL_STATUS.ACTIVATED);
+    expect(proposal!.rollbackToVersion).toBe(1);
+  });
+});
@@ -0,0 +1,498 @@
+/**
+ * Risk Parameter Governance
+ *
+ * Changes to riskParameters go through proposal -> review -> activate. A proposal needs
+ * RISK_PARAMETER_REQUIRED_APPROVALS sign-offs from admins other than the proposer before it
+ * can be activated. Activation never edits a row in place: it deactivates the current version
+ * and inserts the next version, so every version a quote was priced with stays readable.
+ * Rollbacks are proposals too; they re-activate an old version's values as a new version.
+ */
+
+import { v } from "convex/values";
+import { internalQuery, mutation, query, MutationCtx, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { RiskParameters } from "./types";
+import { getAdminPrincipal } from "./adminAuth";
+
+// --- Constants & Types ---
+
+export const RISK_PARAMETER_REQUIRED_APPROVALS = 2;
+
+export const RISK_PARAMETER_PROPOSAL_STATUS = {
+  PENDING: "pending", // Awaiting approvals
+  APPROVED: "approved", // Enough approvals, ready to activate
+  REJECTED: "rejected",
+  ACTIVATED: "activated",
+} as const;
+
+export const RISK_PARAMETER_PROPOSAL_KIND = {
+  CHANGE: "change",
+  ROLLBACK: "rollback",
+} as const;
+
+export const riskParameterValuesValidator = v.object({
+  baseRate: v.number(),
+  volatilityMultiplier: v.number(),
+  durationFactor: v.number(),
+  coverageFactor: v.number(),
+  tierMultipliers: v.object({
+    conservative: v.number(),
+    balanced: v.number(),
+    aggressive: v.number(),
+  }),
+  liquidityAdjustment: v.number(),
+  marketTrendAdjustment: v.number(),
+});
+
+export type RiskParameterValues = {
+  baseRate: number;
+  volatilityMultiplier: number;
+  durationFactor: number;
+  coverageFactor: number;
+  tierMultipliers: { conservative: number; balanced: number; aggressive: number };
+  liquidityAdjustment: number;
+  marketTrendAdjustment: number;
+};
+
+export interface RiskParameterChange {
+  field: string; // e.g. "baseRate" or "tierMultipliers.balanced"
+  from: number | null; // null when there was no previous version
+  to: number;
+}
+
+type GovernanceResult = {
+  success: boolean;
+  message: string;
+  proposalId?: Id<"riskParameterProposals">;
+  version?: number;
+};
+
+// --- Helpers ---
+
+/**
+ * Strips system fields from a riskParameters row so it can be stored as a quote snapshot.
+ */
+export function toRiskParameters(doc: Doc<"riskParameters">): RiskParameters {
+  const { _id, _creationTime, proposalId, activatedAt, deactivatedAt, ...params } = doc;
+  return params;
+}
+
+function extractValues(params: RiskParameterValues): RiskParameterValues {
+  return {
+    baseRate: params.baseRate,
+    volatilityMultiplier: params.volatilityMultiplier,
+    durationFactor: params.durationFactor,
+    coverageFactor: params.coverageFactor,
+    tierMultipliers: {
+      conservative: params.tierMultipliers.conservative,
+      balanced: params.tierMultipliers.balanced,
+      aggressive: params.tierMultipliers.aggressive,
+    },
+    liquidityAdjustment: params.liquidityAdjustment,
+    marketTrendAdjustment: params.marketTrendAdjustment,
+  };
+}
+
+function flattenValues(values: RiskParameterValues): Record<string, number> {
+  return {
+    baseRate: values.baseRate,
+    volatilityMultiplier: values.volatilityMultiplier,
+    durationFactor: values.durationFactor,
+    coverageFactor: values.coverageFactor,
+    "tierMultipliers.conservative": values.tierMultipliers.conservative,
+    "tierMultipliers.balanced": values.tierMultipliers.balanced,
+    "tierMultipliers.aggressive": values.tierMultipliers.aggressive,
+    liquidityAdjustment: values.liquidityAdjustment,
+    marketTrendAdjustment: values.marketTrendAdjustment,
+  };
+}
+
+/**
+ * Field-level diff between two parameter sets. Unchanged fields are omitted.
+ */
+export function diffRiskParameterValues(
+  from: RiskParameterValues | null,
+  to: RiskParameterValues
+): RiskParameterChange[] {
+  const fromFlat = from ? flattenValues(from) : null;
+  const toFlat = flattenValues(to);
+  return Object.keys(toFlat)
+    .filter((field) => !fromFlat || fromFlat[field] !== toFlat[field])
+    .map((field) => ({ field, from: fromFlat ? fromFlat[field] : null, to: toFlat[field] }));
+}
+
+/**
+ * Returns a validation error for out-of-range values, or null if the values are usable.
+ */
+function validateValues(values: RiskParameterValues): string | null {
+  const flat = flattenValues(values);
+  for (const [field, value] of Object.entries(flat)) {
+    if (!Number.isFinite(value)) {
+      return `${field} must be a finite number.`;
+    }
+  }
+  if (values.baseRate < 0) return "baseRate must not be negative.";
+  if (values.volatilityMultiplier <= 0) return "volatilityMultiplier must be greater than 0.";
+  if (values.durationFactor < 0) return "durationFactor must not be negative.";
+  if (values.coverageFactor <= 0) return "coverageFactor must be greater than 0.";
+  if (values.tierMultipliers.conservative <= 0 || values.tierMultipliers.balanced <= 0 || values.tierMultipliers.aggressive <= 0) {
+    return "Tier multipliers must be greater than 0.";
+  }
+  return null;
+}
+
+async function getActiveVersion(ctx: Pick<QueryCtx, "db">, assetType: string, policyType: string): Promise<Doc<"riskParameters"> | null> {
+  return await ctx.db
+    .query("riskParameters")
+    .withIndex("by_asset_policy_active", (q) =>
+      q.eq("assetType", assetType).eq("policyType", policyType).eq("isActive", true)
+    )
+    .first();
+}
+
+async function getVersion(ctx: Pick<QueryCtx, "db">, assetType: string, policyType: string, version: number): Promise<Doc<"riskParameters"> | null> {
+  return await ctx.db
+    .query("riskParameters")
+    .withIndex("by_asset_policy_version", (q) =>
+      q.eq("assetType", assetType).eq("policyType", policyType).eq("version", version)
+    )
+    .first();
+}
+
+async function getLatestVersionNumber(ctx: Pick<QueryCtx, "db">, assetType: string, policyType: string): Promise<number> {
+  const latest = await ctx.db
+    .query("riskParameters")
+    .withIndex("by_asset_policy_version", (q) => q.eq("assetType", assetType).eq("policyType", policyType))
+    .order("desc")
+    .first();
+  return latest?.version ?? 0;
+}
+
+async function insertProposal(
+  ctx: MutationCtx,
+  adminPrincipal: string,
+  args: {
+    assetType: string;
+    policyType: string;
+    kind: string;
+    params: RiskParameterValues;
+    rationale: string;
+    rollbackToVersion?: number;
+  }
+): Promise<GovernanceResult> {
+  const validationError = validateValues(args.params);
+  if (validationError) {
+    return { success: false, message: validationError };
+  }
+  const active = await getActiveVersion(ctx, args.assetType, args.policyType);
+  if (active && diffRiskParameterValues(extractValues(active), args.params).length === 0) {
+    return { success: false, message: `Proposed parameters are identical to active version ${active.version}.` };
+  }
+
+  const proposalId = await ctx.db.insert("riskParameterProposals", {
+    assetType: args.assetType,
+    policyType: args.policyType,
+    kind: args.kind,
+    params: extractValues(args.params),
+    baseVersion: active?.version,
+    rollbackToVersion: args.rollbackToVersion,
+    rationale: args.rationale,
+    status: RISK_PARAMETER_PROPOSAL_STATUS.PENDING,
+    requiredApprovals: RISK_PARAMETER_REQUIRED_APPROVALS,
+    approvals: [],
+    proposedBy: adminPrincipal,
+    proposedAt: Date.now(),
+  });
+  console.log(`Admin ${adminPrincipal} proposed a ${args.kind} for ${args.assetType}/${args.policyType} risk parameters (proposal ${proposalId}).`);
+  return { success: true, message: "Proposal created and awaiting approval.", proposalId };
+}
+
+// --- Proposal Mutations ---
+
+/**
+ * Proposes a new parameter set for an asset/policy type. The proposal is based on the
+ * version active at proposal time and can only be activated while that version is still active.
+ */
+export const proposeRiskParameterChange = mutation({
+  args: {
+    assetType: v.string(),
+    policyType: v.string(),
+    params: riskParameterValuesValidator,
+    rationale: v.string(),
+  },
+  handler: async (ctx, args): Promise<GovernanceResult> => {
+    const adminPrincipal = await getAdminPrincipal(ctx);
+    if (!adminPrincipal) {
+      return { success: false, message: "Admin access required." };
+    }
+    return await insertProposal(ctx, adminPrincipal, { ...args, kind: RISK_PARAMETER_PROPOSAL_KIND.CHANGE });
+  },
+});
+
+/**
+ * Proposes restoring the values of an earlier version. Goes through the same approvals as a change.
+ */
+export const proposeRiskParameterRollback = mutation({
+  args: {
+    assetType: v.string(),
+    policyType: v.string(),
+    targetVersion: v.number(),
+    rationale: v.string(),
+  },
+  handler: async (ctx, args): Promise<GovernanceResult> => {
+    const adminPrincipal = await getAdminPrincipal(ctx);
+    if (!adminPrincipal) {
+      return { success: false, message: "Admin access required." };
+    }
+    const target = await getVersion(ctx, args.assetType, args.policyType, args.targetVersion);
+    if (!target) {
+      return { success: false, message: `Version ${args.targetVersion} of ${args.assetType}/${args.policyType} risk parameters not found.` };
+    }
+    return await insertProposal(ctx, adminPrincipal, {
+      assetType: args.assetType,
+      policyType: args.policyType,
+      kind: RISK_PARAMETER_PROPOSAL_KIND.ROLLBACK,
+      params: extractValues(target),
+      rationale: args.rationale,
+      rollbackToVersion: args.targetVersion,
+    });
+  },
+});
+
+/**
+ * Records an approval. The proposer cannot approve their own proposal and each admin counts once.
+ */
+export const approveRiskParameterProposal = mutation({
+  args: {
+    proposalId: v.id("riskParameterProposals"),
+    comment: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<GovernanceResult> => {
+    const adminPrincipal = await getAdminPrincipal(ctx);
+    if (!adminPrincipal) {
+      return { success: false, message: "Admin access required." };
+    }
+    const proposal = await ctx.db.get(args.proposalId);
+    if (!proposal) {
+      return { success: false, message: "Proposal not found." };
+    }
+    if (proposal.status !== RISK_PARAMETER_PROPOSAL_STATUS.PENDING) {
+      return { success: false, message: `Proposal is ${proposal.status} and can no longer be approved.` };
+    }
+    if (proposal.proposedBy === adminPrincipal) {
+      return { success: false, message: "Proposers cannot approve their own proposal." };
+    }
+    if (proposal.approvals.some((a) => a.approver === adminPrincipal)) {
+      return { success: false, message: "You have already approved this proposal." };
+    }
+
+    const approvals = [...proposal.approvals, { approver: adminPrincipal, approvedAt: Date.now(), comment: args.comment }];
+    const isApproved = approvals.length >= proposal.requiredApprovals;
+    await ctx.db.patch(args.proposalId, {
+      approvals,
+      status: isApproved ? RISK_PARAMETER_PROPOSAL_STATUS.APPROVED : RISK_PARAMETER_PROPOSAL_STATUS.PENDING,
+    });
+    console.log(`Admin ${adminPrincipal} approved risk parameter proposal ${args.proposalId} (${approvals.length}/${proposal.requiredApprovals}).`);
+    return {
+      success: true,
+      message: isApproved
+        ? "Proposal approved and ready to activate."
+        : `Approval recorded (${approvals.length}/${proposal.requiredApprovals}).`,
+      proposalId: args.proposalId,
+    };
+  },
+});
+
+/**
+ * Rejects a proposal that has not been activated yet.
+ */
+export const rejectRiskParameterProposal = mutation({
+  args: {
+    proposalId: v.id("riskParameterProposals"),
+    reason: v.string(),
+  },
+  handler: async (ctx, args): Promise<GovernanceResult> => {
+    const adminPrincipal = await getAdminPrincipal(ctx);
+    if (!adminPrincipal) {
+      return { success: false, message: "Admin access required." };
+    }
+    const proposal = await ctx.db.get(args.proposalId);
+    if (!proposal) {
+      return { success: false, message: "Proposal not found." };
+    }
+    if (proposal.status !== RISK_PARAMETER_PROPOSAL_STATUS.PENDING && proposal.status !== RISK_PARAMETER_PROPOSAL_STATUS.APPROVED) {
+      return { success: false, message: `Proposal is ${proposal.status} and can no longer be rejected.` };
+    }
+
+    await ctx.db.patch(args.proposalId, {
+      status: RISK_PARAMETER_PROPOSAL_STATUS.REJECTED,
+      rejectedBy: adminPrincipal,
+      rejectedAt: Date.now(),
+      rejectionReason: args.reason,
+    });
+    console.log(`Admin ${adminPrincipal} rejected risk parameter proposal ${args.proposalId}: ${args.reason}`);
+    return { success: true, message: "Proposal rejected.", proposalId: args.proposalId };
+  },
+});
+
+/**
+ * Activates an approved proposal as the next version. Fails if another version was activated
+ * after the proposal was made, so a stale proposal can never silently overwrite a newer change.
+ */
+export const activateRiskParameterProposal = mutation({
+  args: {
+    proposalId: v.id("riskParameterProposals"),
+  },
+  handler: async (ctx, args): Promise<GovernanceResult> => {
+    const adminPrincipal = await getAdminPrincipal(ctx);
+    if (!adminPrincipal) {
+      return { success: false, message: "Admin access required." };
+    }
+    const proposal = await ctx.db.get(args.proposalId);
+    if (!proposal) {
+      return { success: false, message: "Proposal not found." };
+    }
+    if (proposal.status !== RISK_PARAMETER_PROPOSAL_STATUS.APPROVED) {
+      return { success: false, message: `Proposal is ${proposal.status}; only approved proposals can be activated.` };
+    }
+
+    const active = await getActiveVersion(ctx, proposal.assetType, proposal.policyType);
+    if (active?.version !== proposal.baseVersion) {
+      return {
+        success: false,
+        message: `Proposal was based on version ${proposal.baseVersion ?? "none"} but version ${active?.version ?? "none"} is now active. Submit a new proposal.`,
+      };
+    }
+
+    const now = Date.now();
+    const nextVersion = (await getLatestVersionNumber(ctx, proposal.assetType, proposal.policyType)) + 1;
+    if (active) {
+      await ctx.db.patch(active._id, { isActive: false, deactivatedAt: now });
+    }
+    await ctx.db.insert("riskParameters", {
+      assetType: proposal.assetType,
+      policyType: proposal.policyType,
+      ...proposal.params,
+      version: nextVersion,
+      lastUpdated: new Date(now).toISOString(),
+      updatedBy: proposal.proposedBy,
+      isActive: true,
+      proposalId: proposal._id,
+      activatedAt: now,
+    });
+    await ctx.db.patch(args.proposalId, {
+      status: RISK_PARAMETER_PROPOSAL_STATUS.ACTIVATED,
+      activatedBy: adminPrincipal,
+      activatedAt: now,
+      activatedVersion: nextVersion,
+    });
+    console.log(`Admin ${adminPrincipal} activated ${proposal.assetType}/${proposal.policyType} risk parameters version ${nextVersion} from proposal ${args.proposalId}.`);
+    return { success: true, message: `Version ${nextVersion} is now active.`, proposalId: args.proposalId, version: nextVersion };
+  },
+});
+
+// --- Queries ---
+
+/**
+ * Every version of an asset/policy type's parameters, newest first, with the diff against
+ * the version before it and the proposal that produced it.
+ */
+export const getRiskParameterHistory = query({
+  args: {
+    assetType: v.string(),
+    policyType: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const versions = await ctx.db
+      .query("riskParameters")
+      .withIndex("by_asset_policy_version", (q) => q.eq("assetType", args.assetType).eq("policyType", args.policyType))
+      .order("asc")
+      .collect();
+
+    const history = await Promise.all(versions.map(async (current, i) => {
+      const previous = i > 0 ? versions[i - 1] : null;
+      const proposal = current.proposalId ? await ctx.db.get(current.proposalId) : null;
+      return {
+        version: current.version,
+        isActive: current.isActive,
+        params: extractValues(current),
+        updatedBy: current.updatedBy,
+        lastUpdated: current.lastUpdated,
+        activatedAt: current.activatedAt,
+        deactivatedAt: current.deactivatedAt,
+        changes: diffRiskParameterValues(previous ? extractValues(previous) : null, extractValues(current)),
+        proposal: proposal
+          ? {
+              proposalId: proposal._id,
+              kind: proposal.kind,
+              rationale: proposal.rationale,
+              proposedBy: proposal.proposedBy,
+              approvals: proposal.approvals,
+              activatedBy: proposal.activatedBy,
+              rollbackToVersion: proposal.rollbackToVersion,
+            }
+          : null,
+      };
+    }));
+    return history.reverse();
+  },
+});
+
+/**
+ * Proposals for review, newest first, each with its diff against the currently active version.
+ */
+export const getRiskParameterProposals = query({
+  args: {
+    status: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const limit = args.limit ?? 50;
+    const proposals = args.status
+      ? await ctx.db
+          .query("riskParameterProposals")
+          .withIndex("by_status", (q) => q.eq("status", args.status!))
+          .order("desc")
+          .take(limit)
+      : await ctx.db.query("riskParameterProposals").order("desc").take(limit);
+
+    return await Promise.all(proposals.map(async (proposal) => {
+      const active = await getActiveVersion(ctx, proposal.assetType, proposal.policyType);
+      return {
+        ...proposal,
+        activeVersion: active?.version ?? null,
+        // Open proposals whose base version has been replaced can no longer be activated
+        isStale: (proposal.status === RISK_PARAMETER_PROPOSAL_STATUS.PENDING || proposal.status === RISK_PARAMETER_PROPOSAL_STATUS.APPROVED)
+          && active?.version !== proposal.baseVersion,
+        changesFromActive: diffRiskParameterValues(active ? extractValues(active) : null, proposal.params),
+      };
+    }));
+  },
+});
+
+/**
+ * The exact parameters of one version, e.g. the version recorded in a quote's riskParamsSnapshot.
+ */
+export const getRiskParametersVersionInternal = internalQuery({
+  args: {
+    assetType: v.string(),
+    policyType: v.string(),
+    version: v.number(),
+  },
+  handler: async (ctx, args): Promise<RiskParameters | null> => {
+    const doc = await getVersion(ctx, args.assetType, args.policyType, args.version);
+    return doc ? toRiskParameters(doc) : null;
+  },
+});
+
+export const getRiskParametersVersion = query({
+  args: {
+    assetType: v.string(),
+    policyType: v.string(),
+    version: v.number(),
+  },
+  handler: async (ctx, args): Promise<RiskParameters | null> => {
+    const doc = await getVersion(ctx, args.assetType, args.policyType, args.version);
+    return doc ? toRiskParameters(doc) : null;
+  },
+});
@@ -8,8 +8,40 @@ export default defineSchema({
     price: v.number(),
     weight: v.number(),
     timestamp: v.number(),
+    volume: v.optional(v.number()), // 24h volume, for sources that report it (used by VWAP)
   }).index("by_timestamp", ["timestamp"]),
-  
+
+  // Registry of exchange endpoints used for current price aggregation
+  priceSources: defineTable({
+    name: v.string(), // Unique source name, also used as priceFeed.source
+    url: v.string(), // Endpoint to fetch the current BTC/USD price from
+    parser: v.string(), // Key into PRICE_SOURCE_PARSERS
+    weight: v.number(), // Weight in the aggregated price
+    isEnabled: v.boolean(), // Admin switch; disabled sources are never fetched
+    status: v.string(), // "active" or "quarantined"
+
+    // Health stats
+    consecutiveFailures: v.number(), // Current failure streak
+    totalRequests: v.number(),
+    totalFailures: v.number(),
+    lastLatencyMs: v.optional(v.number()),
+    avgLatencyMs: v.optional(v.number()), // Exponentially weighted average latency
+    lastPrice: v.optional(v.number()),
+    lastDeviationPercent: v.optional(v.number()), // Deviation of lastPrice from the round's median
+    lastSuccessAt: v.optional(v.number()),
+    lastFailureAt: v.optional(v.number()),
+    lastError: v.optional(v.string()),
+    quarantinedUntil: v.optional(v.number()), // Source is skipped until this timestamp
+    quarantineCount: v.number(), // Number of times the source has been quarantined
+
+    // Metadata
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    updatedBy: v.string(), // Admin principal or "system"
+  })
+    .index("by_name", ["name"])
+    .index("by_enabled", ["isEnabled"]),
+
   historicalPrices: defineTable({
     timestamp: v.number(),
     price: v.number(),
@@ -34,9 +66,17 @@ export default defineSchema({
     dataPoints: v.optional(v.number()),
     startTimestamp: v.optional(v.number()),
     endTimestamp: v.optional(v.number()),
+    // Fitted parameters for model-based estimators (EWMA decay, GARCH(1,1) coefficients)
+    modelParams: v.optional(v.object({
+      lambda: v.optional(v.number()),
+      omega: v.optional(v.number()),
+      alpha: v.optional(v.number()),
+      beta: v.optional(v.number()),
+    })),
   })
   .index("by_timestamp", ["timestamp"])
-  .index("by_timeframe_and_timestamp", ["timeframe", "timestamp"]),
+  .index("by_timeframe_and_timestamp", ["timeframe", "timestamp"])
+  .index("by_method_timeframe_and_timestamp", ["calculationMethod", "timeframe", "timestamp"]),
   
   aggregatedPrices: defineTable({
     price: v.number(),
@@ -44,7 +84,42 @@ export default defineSchema({
     volatility: v.number(),
     sourceCount: v.optional(v.number()),
     range24h: v.optional(v.number()),
+    aggregationStrategy: v.optional(v.string()), // e.g., "weighted_median", "vwap"
+    outlierPolicy: v.optional(v.string()), // e.g., "iqr", "median_deviation", "none"
+    sourcesUsed: v.optional(v.array(v.string())), // Sources that contributed to the price
+    sourcesExcluded: v.optional(v.array(v.string())), // Sources fetched but filtered out
   }).index("by_timestamp", ["timestamp"]),
+
+  // Singleton holding the active price aggregation strategy and quorum rule
+  priceAggregationConfig: defineTable({
+    singletonId: v.literal("global"),
+    strategy: v.string(), // "iqr_weighted_mean", "weighted_median", "trimmed_mean", "vwap"
+    outlierPolicy: v.string(), // "iqr", "median_deviation", "none"
+    iqrMultiplier: v.number(),
+    maxDeviationPercent: v.number(),
+    trimPercent: v.number(), // Fraction trimmed from each end (0 - 0.5)
+    minQuorum: v.number(), // Minimum agreeing sources required to write an aggregated price
+    quorumTolerancePercent: v.number(), // Max distance from the median for a source to count as agreeing
+    lastUpdated: v.number(),
+    updatedBy: v.string(),
+  }).index("by_singleton_id", ["singletonId"]),
+
+  // Oracle submission settings for this deployment (services/oracle/oracleConfig.ts)
+  oracleConfig: defineTable({
+    singletonId: v.literal("global"),
+    minPriceChangePercent: v.number(),
+    maxTimeBetweenUpdatesMs: v.number(),
+    minTimeBetweenUpdatesMs: v.number(),
+    minSourceCount: v.number(),
+    submissionMode: v.string(), // "single", "multi_signer"
+    signerQuorum: v.number(), // Agreeing signers required before any signer submits
+    signerDivergencePercent: v.number(), // Max distance from the round median before a signer is divergent
+    onChainMaxDeviationPercent: v.number(), // Mirrors oracle-max-deviation-pct in the parameters contract
+    onChainMaxAgeBlocks: v.number(), // Mirrors oracle-max-age-blocks in the parameters contract
+    signerLivenessTimeoutMs: v.number(),
+    lastUpdated: v.number(),
+    updatedBy: v.string(),
+  }).index("by_singleton_id", ["singletonId"]),
   
   // Options tables
   contracts: defineTable({
@@ -77,13 +152,81 @@ export default defineSchema({
     status: v.string(), // e.g., "submitted", "confirmed", "failed"
     confirmationTimestamp: v.optional(v.number()), // Timestamp when confirmed on-chain (if tracked)
     blockHeight: v.optional(v.number()), // Block height of confirmation (if tracked)
+    burnBlockHeight: v.optional(v.number()), // Burn height the contract stamped on the price (from the price-updated event)
+    submitter: v.optional(v.string()), // Submitting principal (multi-signer submissions, or set when indexed from chain)
     reason: v.string(), // Reason for the submission (e.g., "Price threshold exceeded", "Max time elapsed")
     percentChange: v.optional(v.float64()), // Percent change triggering the update (if applicable)
     sourceCount: v.number(), // Number of sources used for the submitted price
+    roundId: v.optional(v.id("oracleSubmissionRounds")), // Multi-signer round this submission belongs to
+    error: v.optional(v.string()), // Why the transaction failed
+    lastCheckedAt: v.optional(v.number()), // Last status poll by the oracle submission watcher
+    attempt: v.optional(v.number()), // 1 for the original submission, +1 per resubmission after an abort
+    retryOf: v.optional(v.id("oracleSubmissions")), // Failed submission this one resubmits
+    retryOutcome: v.optional(v.string()), // On failed submissions: "resubmitted" or "not_retried"
+    resubmittedTxid: v.optional(v.string()), // Transaction that resubmitted this failed submission
   })
     .index("by_txid", ["txid"])
     .index("by_status", ["status"])
-    .index("by_submission_timestamp", ["submissionTimestamp"]),
+    .index("by_submission_timestamp", ["submissionTimestamp"])
+    .index("by_status_burnBlockHeight", ["status", "burnBlockHeight"]),
+
+  // Independent signers authorized on the oracle contract (multi-signer mode)
+  oracleSigners: defineTable({
+    label: v.string(),
+    address: v.string(), // Principal registered with add-authorized-submitter
+    keyEnvVar: v.string(), // Name of the environment variable holding the signer's private key
+    sources: v.optional(v.array(v.string())), // Price sources this signer aggregates; all sources when unset
+    isActive: v.boolean(),
+    // Liveness stats
+    roundCount: v.number(), // Rounds the signer produced a price for
+    submissionCount: v.number(),
+    confirmedCount: v.number(),
+    failureCount: v.number(),
+    divergenceCount: v.number(),
+    lastRoundAt: v.optional(v.number()),
+    lastSubmittedAt: v.optional(v.number()),
+    lastConfirmedAt: v.optional(v.number()),
+    lastPriceSatoshis: v.optional(v.number()),
+    lastDeviationPercent: v.optional(v.number()), // Distance from the round median in the signer's last round
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_address", ["address"])
+    .index("by_isActive", ["isActive"]),
+
+  // One multi-signer submission round: each signer's price, the median and the quorum outcome
+  oracleSubmissionRounds: defineTable({
+    startedAt: v.number(),
+    status: v.string(), // "submitted", "skipped", "no_quorum", "failed"
+    reason: v.string(),
+    medianPriceSatoshis: v.optional(v.number()),
+    quorumRequired: v.number(),
+    agreeingSignerCount: v.number(),
+    quorumMet: v.boolean(),
+    signers: v.array(v.object({
+      signerAddress: v.string(),
+      priceSatoshis: v.optional(v.number()),
+      sourceCount: v.number(),
+      deviationPercent: v.optional(v.number()), // From the round median
+      outcome: v.string(), // "submitted", "divergent", "no_price", "onchain_deviation", "failed", "not_needed"
+      txid: v.optional(v.string()),
+      error: v.optional(v.string()),
+    })),
+  })
+    .index("by_startedAt", ["startedAt"]),
+
+  // Divergence, liveness and submission alerts raised for oracle signers
+  oracleSignerAlerts: defineTable({
+    signerAddress: v.string(),
+    alertType: v.string(), // "divergence", "liveness", "onchain_deviation", "submission_failed"
+    message: v.string(),
+    roundId: v.optional(v.id("oracleSubmissionRounds")),
+    createdAt: v.number(),
+    acknowledgedAt: v.optional(v.number()),
+    acknowledgedBy: v.optional(v.string()),
+  })
+    .index("by_createdAt", ["createdAt"])
+    .index("by_signer_type", ["signerAddress", "alertType"]),
 
   // --- Premium Calculation Tables (New) ---
   premiumCalculations: defineTable({
@@ -98,6 +241,7 @@ export default defineSchema({
     expirationDays: v.number(), // Days until expiration
     policyType: v.string(), // "PUT" or "CALL"
     volatilityUsed: v.number(), // Volatility value used in calculation
+    volatilityEstimator: v.optional(v.string()), // historicalVolatility.calculationMethod behind volatilityUsed
 
     // Calculation results
     premium: v.number(), // Cost in USD
@@ -110,8 +254,18 @@ export default defineSchema({
     timeValue: v.number(),
     volatilityImpact: v.number(),
 
+    // Position Greeks of the long option (vega/rho per 1 vol/rate point, theta per day)
+    greeks: v.optional(v.object({
+      delta: v.number(),
+      gamma: v.number(),
+      vega: v.number(),
+      theta: v.number(),
+      rho: v.number(),
+    })),
+
     // Metadata
     calculationModel: v.string(), // e.g., "BlackScholes"
+    pricingEngineVersion: v.optional(v.string()), // PRICING_ENGINE_VERSION that produced this calculation
     timestamp: v.string(), // ISO date string
 
     // Additional data
@@ -214,6 +368,13 @@ export default defineSchema({
         timeValue: v.optional(v.number()),
         volatilityImpact: v.optional(v.number()),
       })),
+      greeks: v.optional(v.object({
+        delta: v.number(),
+        gamma: v.number(),
+        vega: v.number(),
+        theta: v.number(),
+        rho: v.number(),
+      })),
       // Provider result fields
       estimatedYield: v.optional(v.number()),
       annualizedYieldPercentage: v.optional(v.number()),
@@ -249,8 +410,13 @@ export default defineSchema({
       btcPrice: v.number(),
       volatility: v.number(),
       timestamp: v.string(), // ISO date string
+      volatilityEstimator: v.optional(v.string()), // e.g. "garch_1_1", "ewma", "log_returns_std_dev_annualized"
+      volatilityTenorDays: v.optional(v.number()), // Tenor the volatility was matched to
     }),
 
+    // PRICING_ENGINE_VERSION that produced quoteResult (updated when finalizeQuote re-prices)
+    pricingEngineVersion: v.optional(v.string()),
+
     // Fields for quote locking mechanism
     isLocked: v.optional(v.boolean()),
     lockedAt: v.optional(v.number()), // Timestamp when the quote was locked
@@ -277,7 +443,8 @@ export default defineSchema({
   })
     .index("by_userId_status", ["userId", "status"])
     .index("by_userId_expiresAt", ["userId", "expiresAt"])
-    .index("by_userId_quoteType", ["userId", "quoteType"]),
+    .index("by_userId_quoteType", ["userId", "quoteType"])
+    .index("by_createdAt", ["createdAt"]),
 
   riskParameters: defineTable({
     assetType: v.string(), // e.g., "BTC", "ETH"
@@ -305,10 +472,54 @@ export default defineSchema({
     lastUpdated: v.string(), // ISO date string
     updatedBy: v.string(), // User ID who last updated
     isActive: v.boolean(), // Whether these parameters are active
+    proposalId: v.optional(v.id("riskParameterProposals")), // Governance proposal that activated this version
+    activatedAt: v.optional(v.number()),
+    deactivatedAt: v.optional(v.number()), // Set when a newer version replaced this one
   })
     .index("by_asset_policy_active", ["assetType", "policyType", "isActive"])
+    .index("by_asset_policy_version", ["assetType", "policyType", "version"])
     .index("by_version", ["version"]),
 
+  // Proposed riskParameters versions awaiting multi-approver sign-off (see riskParameterGovernance.ts)
+  riskParameterProposals: defineTable({
+    assetType: v.string(),
+    policyType: v.string(),
+    kind: v.string(), // "change" or "rollback"
+    params: v.object({
+      baseRate: v.number(),
+      volatilityMultiplier: v.number(),
+      durationFactor: v.number(),
+      coverageFactor: v.number(),
+      tierMultipliers: v.object({
+        conservative: v.number(),
+        balanced: v.number(),
+        aggressive: v.number(),
+      }),
+      liquidityAdjustment: v.number(),
+      marketTrendAdjustment: v.number(),
+    }),
+    baseVersion: v.optional(v.number()), // Version active when proposed; activation requires it still be active
+    rollbackToVersion: v.optional(v.number()), // For rollbacks, the version whose values are restored
+    rationale: v.string(),
+    status: v.string(), // "pending", "approved", "rejected", "activated"
+    requiredApprovals: v.number(),
+    approvals: v.array(v.object({
+      approver: v.string(),
+      approvedAt: v.number(),
+      comment: v.optional(v.string()),
+    })),
+    proposedBy: v.string(),
+    proposedAt: v.number(),
+    rejectedBy: v.optional(v.string()),
+    rejectedAt: v.optional(v.number()),
+    rejectionReason: v.optional(v.string()),
+    activatedBy: v.optional(v.string()),
+    activatedAt: v.optional(v.number()),
+    activatedVersion: v.optional(v.number()),
+  })
+    .index("by_status", ["status"])
+    .index("by_asset_policy_status", ["assetType", "policyType", "status"]),
+
   // Policy Registry Tables
   policies: defineTable({
     owner: v.string(), // Stacks Principal of the policyholder
@@ -327,7 +538,8 @@ export default defineSchema({
     expirationHeight: v.number(), // Stacks block height at which policy expires
     exercisedAt: v.optional(v.number()), // Timestamp when policy was exercised
     updatedAt: v.optional(v.number()), // Timestamp of last update to this record
-    lastReconciled: v.optional(v.number()), // Timestamp of last on-chain reconciliation
+    lastReconciled: v.optional(v.number()), // Timestamp of last on-chain reconciliation attempt
+    lastReconciliationError: v.optional(v.string()), // Why the last attempt failed; cleared once a run succeeds
     
     // Status & Lifecycle
     status: v.string(), // e.g., "Pending", "Active", "Exercised", "Expired", "Cancelled"
@@ -338,6 +550,7 @@ export default defineSchema({
     // Token Information
     collateralToken: v.string(), // Token used for collateral (e.g., "STX", "sBTC")
     settlementToken: v.string(), // Token used for settlement (e.g., "STX", "sBTC")
+    riskTier: v.optional(v.string()), // Buyer risk tier from the quote (e.g., "conservative", "standard")
     
     // Financials & Payout
     settlementAmount: v.optional(v.number()), // Amount paid out upon exercise
@@ -370,7 +583,9 @@ export default defineSchema({
     .index("by_expirationHeight", ["expirationHeight"])
     .index("by_policyType", ["policyType"])
     .index("by_positionType", ["positionType"])
-    .index("by_counterparty", ["counterparty"]),
+    .index("by_counterparty", ["counterparty"])
+    .index("by_onChainPolicyId", ["onChainPolicyId"])
+    .index("by_lastReconciled", ["lastReconciled"]),
 
   policyEvents: defineTable({
     policyConvexId: v.id("policies"), // Link to the policy in Convex
@@ -378,9 +593,95 @@ export default defineSchema({
     timestamp: v.number(), // Convex server timestamp of the event
     data: v.any(), // Flexible field for event-specific data
     transactionId: v.optional(v.string()), // On-chain transaction ID if applicable
+    eventIndex: v.optional(v.number()), // Index of the indexed chain event within its transaction
     blockHeight: v.optional(v.number()), // Block height if applicable
   })
-    .index("by_policyConvexId_and_timestamp", ["policyConvexId", "timestamp"]),
+    .index("by_policyConvexId_and_timestamp", ["policyConvexId", "timestamp"])
+    .index("by_transactionId_eventIndex", ["transactionId", "eventIndex"]),
+
+  // Chain event indexer (chainEventIndexer.ts): one cursor per indexed contract
+  chainEventCursors: defineTable({
+    contractId: v.string(), // "<address>.<name>"
+    contractKey: v.string(), // "policy-registry" or "liquidity-pool-vault"
+    processedCount: v.number(), // Events consumed, counted from the contract's oldest event
+    lastTxId: v.optional(v.string()), // The last consumed event; new events are those newer than it
+    lastEventIndex: v.optional(v.number()),
+    lastBlockHeight: v.optional(v.number()), // Block of the last consumed event
+    lastBlockHash: v.optional(v.string()), // Its hash, compared against the canonical chain to detect reorgs
+    lastIndexedAt: v.optional(v.number()),
+    lastError: v.optional(v.string()),
+    reorgCount: v.optional(v.number()),
+    updatedAt: v.number(),
+  })
+    .index("by_contractId", ["contractId"]),
+
+  // Every print event the indexer has consumed; (txId, eventIndex) is the dedupe key
+  chainEvents: defineTable({
+    contractId: v.string(),
+    txId: v.string(),
+    eventIndex: v.number(),
+    eventName: v.string(), // The print's `event` field, e.g. "policy-created"
+    blockHeight: v.number(),
+    blockHash: v.string(),
+    data: v.any(), // Decoded print payload
+    status: v.string(), // "processed", "ignored" (no handler), "failed", "orphaned" (block reorged out)
+    error: v.optional(v.string()),
+    processedAt: v.number(),
+  })
+    .index("by_txId_eventIndex", ["txId", "eventIndex"])
+    .index("by_contractId_blockHeight", ["contractId", "blockHeight"])
+    .index("by_eventName", ["eventName"])
+    .index("by_status", ["status"]),
+
+  // Disagreements between Convex policies and the policy-registry contract found by reconciliation
+  reconciliationDiscrepancies: defineTable({
+    policyConvexId: v.id("policies"),
+    onChainPolicyId: v.string(),
+    field: v.string(), // "status", "expirationHeight", "settlementAmount", or "missingOnChain"
+    convexValue: v.any(),
+    onChainValue: v.any(),
+    onChainStatus: v.optional(v.string()), // Raw contract status, e.g. "Settled-ITM"
+    status: v.string(), // "open", "resolved", "dismissed", "auto_resolved" (sides agreed again)
+    reconciliationId: v.string(), // Run that last observed the disagreement
+    detectedAt: v.number(),
+    lastSeenAt: v.number(),
+    resolution: v.optional(v.string()), // "apply_on_chain" or "keep_convex"
+    resolvedBy: v.optional(v.string()),
+    resolvedAt: v.optional(v.number()),
+    note: v.optional(v.string()),
+  })
+    .index("by_status", ["status"])
+    .index("by_policy_field_status", ["policyConvexId", "field", "status"]),
+
+  // Nonce allocator state for backend signer keys (see signerNonces.ts)
+  signerNonceState: defineTable({
+    signerAddress: v.string(),
+    nextNonce: v.number(), // Next never-leased nonce
+    lastExecutedNonce: v.optional(v.number()), // From the last sync with the node
+    lastSyncedAt: v.optional(v.number()),
+    updatedAt: v.number(),
+  })
+    .index("by_signerAddress", ["signerAddress"]),
+
+  nonceLeases: defineTable({
+    signerAddress: v.string(),
+    nonce: v.number(),
+    status: v.string(), // "leased", "broadcast", "confirmed", "released" (free to reuse), "abandoned" (gave up rebroadcasting)
+    purpose: v.string(), // What leased it, e.g. "oracle-submission", "settlement-payout", "gap"
+    leasedAt: v.number(),
+    leaseExpiresAt: v.number(),
+    txId: v.optional(v.string()),
+    previousTxIds: v.optional(v.array(v.string())), // Transactions replaced by fee bumps
+    rawTx: v.optional(v.string()), // Signed transaction hex, re-signed with a higher fee on rebroadcast
+    fee: v.optional(v.number()),
+    broadcastAt: v.optional(v.number()),
+    rebroadcastCount: v.number(), // Rebroadcast attempts, including failed ones
+    lastRebroadcastAt: v.optional(v.number()),
+    settledAt: v.optional(v.number()),
+    error: v.optional(v.string()),
+  })
+    .index("by_signer_nonce", ["signerAddress", "nonce"])
+    .index("by_signer_status", ["signerAddress", "status"]),
 
   pendingPolicyTransactions: defineTable({
     actionType: v.string(), // e.g., "CreatePolicy", "ActivatePolicy", "UpdatePolicyStatus"
@@ -411,7 +712,8 @@ export default defineSchema({
   })
     .index("by_status_and_actionType", ["status", "actionType"])
     .index("by_policyConvexId", ["policyConvexId"])
-    .index("by_userId", ["userId"]),
+    .index("by_userId", ["userId"])
+    .index("by_transactionId", ["transactionId"]),
 
   // --- Liquidity Pool Tables ---
   
@@ -425,7 +727,16 @@ export default defineSchema({
     earned_premiums: v.number(), // Total premiums earned
     withdrawn_premiums: v.number(), // Premiums withdrawn
     pending_premiums: v.number(), // Premiums pending distribution
+    reinvested_premiums: v.optional(v.number()), // Premiums moved into deposited capital by auto-reinvest
     last_updated: v.number(), // Timestamp of last update
+    // Capital split by provider risk tier (see liquidityPool/riskTiers.ts); sums to the totals above.
+    // Absent on rows written before tier segmentation, whose capital sits in the provider's default tier.
+    tier_balances: v.optional(v.array(v.object({
+      tier: v.string(), // "conservative", "balanced" or "aggressive"
+      total_deposited: v.number(),
+      available_balance: v.number(),
+      locked_balance: v.number(),
+    }))),
   })
     .index("by_provider_token", ["provider", "token"])
     .index("by_provider", ["provider"])
@@ -445,6 +756,21 @@ export default defineSchema({
     annualized_yield: v.number(), // Current annualized yield for this token
     avg_policy_duration: v.optional(v.number()), // Average duration of active policies
     utilization_rate: v.number(), // Percentage of pool funds utilized (locked/total)
+    // Net Greeks of the pool's short option book across Active policies (pool's perspective)
+    net_delta: v.optional(v.number()), // BTC-equivalent delta
+    net_gamma: v.optional(v.number()),
+    net_vega: v.optional(v.number()), // USD per 1 vol point
+    net_theta: v.optional(v.number()), // USD per day
+    net_rho: v.optional(v.number()), // USD per 1 rate point
+    // Liquidity per provider risk tier
+    tier_metrics: v.optional(v.array(v.object({
+      tier: v.string(),
+      total_liquidity: v.number(),
+      available_liquidity: v.number(),
+      locked_liquidity: v.number(),
+      total_providers: v.number(),
+      utilization_rate: v.number(),
+    }))),
   })
     .index("by_timestamp", ["timestamp"])
     .index("by_token_timestamp", ["token", "timestamp"]),
@@ -460,6 +786,7 @@ export default defineSchema({
     premium_distributed: v.boolean(), // Whether premium has been distributed
     allocation_timestamp: v.number(), // When allocation was made
     status: v.string(), // ACTIVE, EXPIRED, EXERCISED, etc.
+    risk_tier: v.optional(v.string()), // Provider tier bucket the collateral was drawn from
   })
     .index("by_policy_provider", ["policy_id", "provider"])
     .index("by_provider", ["provider"])
@@ -467,6 +794,18 @@ export default defineSchema({
     .index("by_provider_status", ["provider", "status"])
     .index("by_policy_status", ["policy_id", "status"]),
 
+  // Allocation strategy and per-provider exposure caps for one pool (liquidityPool/allocationConfig.ts)
+  allocation_config: defineTable({
+    token: v.string(), // Pool token (STX, sBTC, etc.)
+    strategy: v.string(), // "pro_rata", "fifo", "lowest_utilization", "risk_balanced"
+    maxProviderAmountPerPolicy: v.optional(v.number()), // Cap on one provider's share of a single policy
+    maxProviderAmountPerExpiration: v.optional(v.number()), // Cap on one provider's active exposure per expiration height
+    maxProviderAmountPerStrikeBucket: v.optional(v.number()), // Cap on one provider's active exposure per strike bucket
+    strikeBucketSize: v.number(), // Width of a strike bucket in USD
+    lastUpdated: v.number(),
+    updatedBy: v.string(),
+  }).index("by_token", ["token"]),
+
   // CV-LP-204: Pool Transactions Table 
   pool_transactions: defineTable({
     provider: v.string(), // Provider principal (Stacks address)
@@ -509,7 +848,8 @@ export default defineSchema({
     .index("by_provider", ["provider"])
     .index("by_status", ["status"])
     .index("by_tx_type_status", ["tx_type", "status"])
-    .index("by_policy_id", ["policy_id"]),
+    .index("by_policy_id", ["policy_id"])
+    .index("by_chain_tx_id", ["chain_tx_id"]),
 
   // CV-LP-221: Premium Balances Table
   premium_balances: defineTable({
@@ -534,6 +874,8 @@ export default defineSchema({
     allocation_percentage: v.optional(v.number()), // Provider's percentage of total premium
     source: v.optional(v.string()), // Source of distribution (e.g., "policy_expiration", "manual")
     batch_id: v.optional(v.string()), // ID for batch distributions
+    reinvest_status: v.optional(v.string()), // PENDING or REINVESTED once swept by auto-reinvest
+    reinvest_tx_id: v.optional(v.id("pending_pool_transactions")), // Reinvestment that swept this distribution
   })
     .index("by_policy_provider", ["policy_id", "provider"])
     .index("by_provider", ["provider"])
@@ -542,20 +884,77 @@ export default defineSchema({
     .index("by_status", ["status"])
     .index("by_batch_id", ["batch_id"]),
 
+  // Daily provider return snapshots per token (see liquidityPool/yieldSnapshots.ts)
+  provider_yield_snapshots: defineTable({
+    provider: v.string(),
+    token: v.string(),
+    day: v.number(), // UTC day start (ms)
+    value: v.number(), // Position value at the end of the day
+    net_flow: v.number(), // Deposits less withdrawals during the day
+    gain: v.number(), // Premiums earned less settlement payouts during the day
+    daily_return: v.number(),
+    twr_index: v.number(), // Growth of 1 since the first day (cumulative TWR + 1)
+    money_weighted_return: v.optional(v.number()), // Annualized IRR to the end of the day
+    created_at: v.number(),
+  })
+    .index("by_provider_token_day", ["provider", "token", "day"]),
+
   provider_preferences: defineTable({
     provider: v.string(), // Provider principal
     riskTierComfort: v.optional(v.string()), // e.g., "conservative", "balanced", "aggressive"
     notificationSettings: v.optional(v.object({
       emailOnSettlement: v.optional(v.boolean()),
       emailOnNewPolicyAllocated: v.optional(v.boolean()),
-      // Add other notification flags as needed
+      emailOnPremiumDistribution: v.optional(v.boolean()),
+      emailOnWithdrawalConfirmed: v.optional(v.boolean()),
+      emailAddress: v.optional(v.string()), // Required for any email notification
+      webhookUrl: v.optional(v.string()),
+      webhookEvents: v.optional(v.array(v.string())), // NOTIFICATION_EVENTS sent to the webhook; all when omitted
+      inAppEnabled: v.optional(v.boolean()), // In-app feed, on unless set to false
     })),
+    webhookSecret: v.optional(v.string()), // Signs this provider's webhook bodies; generated with the first webhookUrl
     autoReinvestPremiums: v.optional(v.boolean()),
     // Add other preference fields here
     lastUpdated: v.number(), // Timestamp of the last update
   })
     .index("by_provider", ["provider"]),
 
+  // Provider notifications waiting for (or done with) delivery, one row per channel
+  notification_outbox: defineTable({
+    provider: v.string(),
+    event_type: v.string(), // NOTIFICATION_EVENTS
+    channel: v.string(), // NOTIFICATION_CHANNELS
+    target: v.optional(v.string()), // Email address or webhook URL at the time of the event
+    title: v.string(),
+    body: v.string(),
+    data: v.optional(v.any()), // Event details, sent as-is to webhooks
+    status: v.string(), // NOTIFICATION_STATUS
+    attempts: v.number(),
+    next_attempt_at: v.number(),
+    created_at: v.number(),
+    delivered_at: v.optional(v.number()),
+    last_error: v.optional(v.string()),
+    read_at: v.optional(v.number()), // In-app notifications only
+  })
+    .index("by_status_next_attempt", ["status", "next_attempt_at"])
+    .index("by_provider_channel", ["provider", "channel", "created_at"]),
+
+  // Every delivery attempt of an outbox notification
+  notification_delivery_logs: defineTable({
+    notification_id: v.id("notification_outbox"),
+    provider: v.string(),
+    event_type: v.string(),
+    channel: v.string(),
+    target: v.optional(v.string()),
+    attempt: v.number(),
+    success: v.boolean(),
+    response: v.optional(v.string()), // SMTP reply or HTTP status
+    error: v.optional(v.string()),
+    timestamp: v.number(),
+  })
+    .index("by_provider_timestamp", ["provider", "timestamp"])
+    .index("by_notification", ["notification_id"]),
+
   pool_status: defineTable({
     singletonId: v.literal("global"), // Ensures only one document
     isDepositsPaused: v.boolean(),
@@ -0,0 +1,188 @@
+/**
+ * Oracle Submission Config
+ *
+ * Per-deployment settings for writing prices to the oracle contract: the update thresholds
+ * (previously the ORACLE_UPDATE_THRESHOLDS constant), the submission mode, and the quorum and
+ * deviation rules used when several signers post prices. Stored in the oracleConfig singleton.
+ */
+
+import { v } from "convex/values";
+import { internalQuery, mutation, query, QueryCtx } from "../../_generated/server";
+import { Doc } from "../../_generated/dataModel";
+import { OracleUpdateThresholds } from "../../blockchain/oracle/types";
+import { DEFAULT_ORACLE_UPDATE_THRESHOLDS, OnChainDeviationLimits } from "../../blockchain/oracle/priceWriter";
+import { getAdminPrincipal } from "../../adminAuth";
+
+// --- Types & Defaults ---
+
+export const ORACLE_SUBMISSION_MODES = {
+  SINGLE: "single", // The backend key submits the aggregated price
+  MULTI_SIGNER: "multi_signer", // Every active oracle signer submits its own price (see oracleSigners.ts)
+} as const;
+
+export interface OracleConfig {
+  minPriceChangePercent: number; // Minimum price change percentage to trigger an update
+  maxTimeBetweenUpdatesMs: number; // Update regardless of price change after this long
+  minTimeBetweenUpdatesMs: number; // Never update more often than this
+  minSourceCount: number; // Minimum number of price sources behind a submitted price
+  submissionMode: string;
+  signerQuorum: number; // Agreeing signers required before any signer submits
+  signerDivergencePercent: number; // A signer further than this from the round median is divergent
+  onChainMaxDeviationPercent: number; // Should match the parameters contract's oracle-max-deviation-pct
+  onChainMaxAgeBlocks: number; // Should match the parameters contract's oracle-max-age-blocks
+  signerLivenessTimeoutMs: number; // An active signer with no confirmed price for this long is alerted
+}
+
+export const DEFAULT_ORACLE_CONFIG: OracleConfig = {
+  minPriceChangePercent: DEFAULT_ORACLE_UPDATE_THRESHOLDS.MIN_PRICE_CHANGE_PERCENT,
+  maxTimeBetweenUpdatesMs: DEFAULT_ORACLE_UPDATE_THRESHOLDS.MAX_TIME_BETWEEN_UPDATES_MS,
+  minTimeBetweenUpdatesMs: DEFAULT_ORACLE_UPDATE_THRESHOLDS.MIN_TIME_BETWEEN_UPDATES_MS,
+  minSourceCount: DEFAULT_ORACLE_UPDATE_THRESHOLDS.MIN_SOURCE_COUNT,
+  submissionMode: ORACLE_SUBMISSION_MODES.SINGLE,
+  signerQuorum: 2,
+  signerDivergencePercent: 0.5,
+  onChainMaxDeviationPercent: 5,
+  onChainMaxAgeBlocks: 144,
+  signerLivenessTimeoutMs: 36 * 60 * 60 * 1000,
+};
+
+/**
+ * Thresholds in the shape prepareOracleSubmission expects
+ */
+export function toUpdateThresholds(config: OracleConfig): OracleUpdateThresholds {
+  return {
+    MIN_PRICE_CHANGE_PERCENT: config.minPriceChangePercent,
+    MAX_TIME_BETWEEN_UPDATES_MS: config.maxTimeBetweenUpdatesMs,
+    MIN_TIME_BETWEEN_UPDATES_MS: config.minTimeBetweenUpdatesMs,
+    MIN_SOURCE_COUNT: config.minSourceCount,
+  };
+}
+
+/**
+ * Contract limits in the shape checkOnChainDeviation expects
+ */
+export function toOnChainDeviationLimits(config: OracleConfig): OnChainDeviationLimits {
+  return {
+    maxDeviationPercent: config.onChainMaxDeviationPercent,
+    maxAgeBlocks: config.onChainMaxAgeBlocks,
+  };
+}
+
+// --- Config Storage ---
+
+const ORACLE_CONFIG_SINGLETON_ID = "global" as const;
+
+function toConfig(doc: Doc<"oracleConfig"> | null): OracleConfig {
+  if (!doc) {
+    return DEFAULT_ORACLE_CONFIG;
+  }
+  return {
+    minPriceChangePercent: doc.minPriceChangePercent,
+    maxTimeBetweenUpdatesMs: doc.maxTimeBetweenUpdatesMs,
+    minTimeBetweenUpdatesMs: doc.minTimeBetweenUpdatesMs,
+    minSourceCount: doc.minSourceCount,
+    submissionMode: doc.submissionMode,
+    signerQuorum: doc.signerQuorum,
+    signerDivergencePercent: doc.signerDivergencePercent,
+    onChainMaxDeviationPercent: doc.onChainMaxDeviationPercent,
+    onChainMaxAgeBlocks: doc.onChainMaxAgeBlocks,
+    signerLivenessTimeoutMs: doc.signerLivenessTimeoutMs,
+  };
+}
+
+function setConfigField<K extends keyof OracleConfig>(config: OracleConfig, key: K, value: OracleConfig[K] | undefined): void {
+  if (value !== undefined) {
+    config[key] = value;
+  }
+}
+
+/**
+ * Reads the deployment's oracle config (defaults if none has been saved yet).
+ */
+export async function loadOracleConfig(ctx: Pick<QueryCtx, "db">): Promise<OracleConfig> {
+  const doc = await ctx.db
+    .query("oracleConfig")
+    .withIndex("by_singleton_id", (q) => q.eq("singletonId", ORACLE_CONFIG_SINGLETON_ID))
+    .unique();
+  return toConfig(doc);
+}
+
+export const getOracleConfigInternal = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<OracleConfig> => {
+    return await loadOracleConfig(ctx);
+  },
+});
+
+export const getOracleConfig = query({
+  args: {},
+  handler: async (ctx): Promise<OracleConfig> => {
+    return await loadOracleConfig(ctx);
+  },
+});
+
+/**
+ * Admin-only update of the oracle config. Omitted fields keep their current value.
+ */
+export const updateOracleConfig = mutation({
+  args: {
+    minPriceChangePercent: v.optional(v.number()),
+    maxTimeBetweenUpdatesMs: v.optional(v.number()),
+    minTimeBetweenUpdatesMs: v.optional(v.number()),
+    minSourceCount: v.optional(v.number()),
+    submissionMode: v.optional(v.string()),
+    signerQuorum: v.optional(v.number()),
+    signerDivergencePercent: v.optional(v.number()),
+    onChainMaxDeviationPercent: v.optional(v.number()),
+    onChainMaxAgeBlocks: v.optional(v.number()),
+    signerLivenessTimeoutMs: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean; message: string; config?: OracleConfig }> => {
+    const adminPrincipal = await getAdminPrincipal(ctx);
+    if (!adminPrincipal) {
+      return { success: false, message: "Admin access required." };
+    }
+
+    if (args.submissionMode !== undefined && !(Object.values(ORACLE_SUBMISSION_MODES) as string[]).includes(args.submissionMode)) {
+      return { success: false, message: `Unknown submission mode "${args.submissionMode}".` };
+    }
+    if (args.signerQuorum !== undefined && (!Number.isInteger(args.signerQuorum) || args.signerQuorum < 1)) {
+      return { success: false, message: "signerQuorum must be a positive integer." };
+    }
+    if (args.minSourceCount !== undefined && (!Number.isInteger(args.minSourceCount) || args.minSourceCount < 1)) {
+      return { success: false, message: "minSourceCount must be a positive integer." };
+    }
+
+    const existing = await ctx.db
+      .query("oracleConfig")
+      .withIndex("by_singleton_id", (q) => q.eq("singletonId", ORACLE_CONFIG_SINGLETON_ID))
+      .unique();
+    const config: OracleConfig = { ...toConfig(existing) };
+    const patch: Partial<OracleConfig> = args;
+    for (const key of Object.keys(patch) as (keyof OracleConfig)[]) {
+      setConfigField(config, key, patch[key]);
+    }
+
+    if (config.minTimeBetweenUpdatesMs > config.maxTimeBetweenUpdatesMs) {
+      return { success: false, message: "minTimeBetweenUpdatesMs cannot exceed maxTimeBetweenUpdatesMs." };
+    }
+    for (const key of ["minPriceChangePercent", "signerDivergencePercent", "onChainMaxDeviationPercent", "onChainMaxAgeBlocks", "signerLivenessTimeoutMs"] as const) {
+      if (!(config[key] >= 0)) {
+        return { success: false, message: `${key} must be a non-negative number.` };
+      }
+    }
+
+    const record = {
+      ...config,
+      lastUpdated: Date.now(),
+      updatedBy: adminPrincipal,
+    };
+    if (existing) {
+      await ctx.db.patch(existing._id, record);
+    } else {
+      await ctx.db.insert("oracleConfig", { singletonId: ORACLE_CONFIG_SINGLETON_ID, ...record });
+    }
+    console.log(`Admin ${adminPrincipal} updated oracle config:`, config);
+    return { success: true, message: "Oracle config updated.", config };
+  },
+});
@@ -11,15 +11,16 @@ import { Id } from "../../_generated/dataModel";
 import { api, internal } from "../../_generated/api";
 import { getFormattedOraclePrice } from '../../blockchain/oracle/priceReader';
 import { OraclePriceData } from '../../blockchain/oracle/types';
-import * as math from 'mathjs';
 import { 
   MarketData, 
   RiskParameters, 
   PriceScenario,
+  PremiumGreeks,
   BuyerPremiumQuoteResult,
   ProviderYieldQuoteResult,
-  ProviderYieldComponents
 } from '../../types'; // Corrected path
+import { getTenorMatchedVolatility } from './volatilityTermStructure';
+import { priceBuyerProtection, priceProviderYield } from './pricingEngine';
 
 /**
  * Premium calculation parameters
@@ -30,7 +31,7 @@ export interface PremiumCalculationParams {
   protectedValue: number;      // Value being protected (e.g., USD value)
   durationDays: number;        // Duration of protection in days
   volatility: number;          // Market volatility as a decimal
-  policyType: string;          // Type of policy (e.g., "PUT")
+  policyType: string;          // Type of policy ("PUT" or "CALL")
 }
 
 /**
@@ -45,18 +46,13 @@ export interface PremiumCalculationResult {
   intrinsicValue: number;      // Intrinsic value component of premium
   volatilityImpact: number;    // Volatility impact on premium
   volatilityUsed: number;
+  volatilityEstimator?: string; // Estimator behind volatilityUsed ("override" / "default" when none applied)
+  greeks?: PremiumGreeks;
   calculationModel: string;
+  pricingEngineVersion: string;
   scenarios: PriceScenario[];
 }
 
-// Interface for premium components from the existing calculations
-interface PremiumComponents {
-  premium: number;
-  intrinsicValue: number;
-  timeValue: number;
-  volatilityImpact: number;
-}
-
 /**
  * Calculate premium for a policy using Black-Scholes model and risk parameters
  * 
@@ -82,14 +78,12 @@ export const calculatePremium = internalQuery({
       currentPrice = aggregatedPrice.price;
     }
     
-    const protectedValue = currentPrice !== undefined 
-      ? (currentPrice * args.protectedValuePercentage) / 100
-      : 0;
-    
-    const volatility = args.volatility ?? 
-      (await ctx.runQuery(api.services.oracle.priceService.getVolatilityForDuration, { 
-        durationSeconds: args.expirationDays * 24 * 60 * 60,
-      })) ?? 0.3;
+    // An explicit override wins; otherwise use the tenor-matched point of the volatility term structure
+    const tenorMatched = args.volatility === undefined
+      ? await getTenorMatchedVolatility(ctx, args.expirationDays)
+      : null;
+    const volatility = args.volatility ?? tenorMatched?.volatility ?? 0.3;
+    const volatilityEstimator = args.volatility !== undefined ? "override" : tenorMatched?.estimator ?? "default";
     
     const riskParams = await ctx.runQuery(api.premium.getActiveRiskParameters, { 
       assetType: "BTC",
@@ -99,43 +93,31 @@ export const calculatePremium = internalQuery({
        throw new Error("Risk parameters not found for BTC/" + args.policyType);
     }
     
-    const baseRate = riskParams.baseRate || 0.01;
-    const volatilityMultiplier = riskParams.volatilityMultiplier || 1.5;
-    const durationFactor = riskParams.durationFactor || 0.5;
-    const coverageFactor = riskParams.coverageFactor || 1.0;
-    
-    const timeComponent = Math.pow(args.expirationDays / 365, durationFactor);
-    const volatilityComponent = volatility * volatilityMultiplier;
-    const coverageComponentValue = protectedValue > 0 ? Math.sqrt(protectedValue) * coverageFactor / 10000 : 0;
-    
-    const premium = baseRate * timeComponent * volatilityComponent * coverageComponentValue * args.protectionAmount;
-    
-    const intrinsicValue = currentPrice !== undefined
-      ? Math.max(0, protectedValue - currentPrice) * args.protectionAmount
-      : 0;
-    const timeValue = premium * 0.3; 
-    const volatilityImpact = premium * 0.7;
-    
-    const premiumPercentage = (protectedValue * args.protectionAmount) > 0 ? 
-      (premium / (protectedValue * args.protectionAmount)) 
-      : 0;
-    const annualizedPremium = args.expirationDays > 0 ? 
-      premiumPercentage * (365 / args.expirationDays) 
-      : 0;
-    
-    const breakEvenPrice = protectedValue - (premium / args.protectionAmount);
+    const priced = priceBuyerProtection({
+      currentPrice: currentPrice ?? 0,
+      protectedValuePercentage: args.protectedValuePercentage,
+      protectionAmount: args.protectionAmount,
+      expirationDays: args.expirationDays,
+      policyType: args.policyType,
+      volatility,
+      riskParams,
+      includeScenarios: true,
+    });
     
     return {
-      premium: Number(premium.toFixed(2)),
-      premiumPercentage: premiumPercentage,
-      annualizedPremium: annualizedPremium,
-      breakEvenPrice: Number(breakEvenPrice.toFixed(2)),
-      timeValue: Number(timeValue.toFixed(2)),
-      intrinsicValue: Number(intrinsicValue.toFixed(2)),
-      volatilityImpact: Number(volatilityImpact.toFixed(2)),
-      volatilityUsed: riskParams.volatilityUsed,
-      calculationModel: riskParams.calculationModel,
-      scenarios: riskParams.scenarios,
+      premium: priced.premium,
+      premiumPercentage: priced.premiumPercentage / 100, // Stored as a decimal
+      annualizedPremium: priced.annualizedPremium / 100,
+      breakEvenPrice: priced.breakEvenPrice,
+      timeValue: priced.factorsBreakdown.timeValue,
+      intrinsicValue: priced.factorsBreakdown.intrinsicValue,
+      volatilityImpact: priced.factorsBreakdown.volatilityImpact,
+      volatilityUsed: volatility,
+      volatilityEstimator,
+      greeks: priced.greeks,
+      calculationModel: "BlackScholes",
+      pricingEngineVersion: priced.pricingEngineVersion,
+      scenarios: priced.scenarios,
     };
   },
 });
@@ -276,6 +258,7 @@ export const calculateAndStorePremium = action({
         expirationDays,
         policyType,
         volatilityUsed: calculationResult.volatilityUsed,
+        volatilityEstimator: calculationResult.volatilityEstimator,
         premium: calculationResult.premium,
         premiumPercentage: calculationResult.premiumPercentage,
         annualizedPremium: calculationResult.annualizedPremium,
@@ -283,7 +266,9 @@ export const calculateAndStorePremium = action({
         intrinsicValue: calculationResult.intrinsicValue,
         timeValue: calculationResult.timeValue,
         volatilityImpact: calculationResult.volatilityImpact,
+        greeks: calculationResult.greeks,
         calculationModel: calculationResult.calculationModel,
+        pricingEngineVersion: calculationResult.pricingEngineVersion,
         timestamp: new Date().toISOString(),
         scenarios: calculationResult.scenarios,
     };
@@ -312,268 +297,7 @@ export const getStoredPremiumCalculation = query({
   },
 });
 
-// --- Moved Calculation Logic from premium.ts --- 
-
-/**
- * Calculates premium using Black-Scholes for a PUT option
- */
-export function calculateBlackScholesPremium({
-  currentPrice,  // S
-  strikePrice,   // K
-  volatility,    // σ
-  duration,      // T (in days)
-  amount,        // Multiplier for final premium
-  riskFreeRate = 0.02,  // r
-  riskParams = null,    // Risk parameters for adjustments
-}: {
-  currentPrice: number;
-  strikePrice: number;
-  volatility: number;
-  duration: number;
-  amount: number;
-  riskFreeRate?: number;
-  riskParams?: RiskParameters | null;
-}): PremiumComponents {
-  // ... (Full Black-Scholes implementation copied from premium.ts) ...
-  // Validate inputs
-  if (currentPrice <= 0 || strikePrice <= 0 || volatility <= 0 || duration <= 0 || amount <= 0) {
-    console.warn(`Invalid input for Black-Scholes: S=${currentPrice}, K=${strikePrice}, σ=${volatility}, T(days)=${duration}, Amount=${amount}, r=${riskFreeRate}. Returning 0 premium.`);
-    return {
-      premium: 0,
-      intrinsicValue: 0,
-      timeValue: 0,
-      volatilityImpact: 0,
-    };
-  }
-
-  // --- Black-Scholes Implementation --- 
-  const S = currentPrice;
-  const K = strikePrice;
-  const sigma = volatility;
-  const T = duration / 365; // Time to expiration in years
-  const r = riskFreeRate;
-
-  const sqrtT = Number(math.sqrt(T)); // Cast result to number
-
-  // Check for zero volatility or time - edge case leading to division by zero
-  if (sigma * sqrtT === 0) {
-    const intrinsicValue = Number(math.max(0, K - S)); 
-    const discountedExp = Number(math.exp(-r * T));
-    const discountedValue = intrinsicValue * discountedExp; 
-    console.warn(`Edge case: sigma*sqrt(T) is zero. Returning discounted intrinsic value: ${discountedValue}`);
-    const finalPremium = discountedValue * amount;
-    
-    return {
-      premium: Number(math.max(0, Number(math.round(finalPremium * 100)) / 100)),
-      intrinsicValue: intrinsicValue * amount, // Scale intrinsic value by amount here
-      timeValue: 0,
-      volatilityImpact: 0,
-    };
-  }
-  
-  const logSK = Number(math.log(S / K));
-  const powSigma = Number(math.pow(sigma, 2));
-  const d1_numerator = logSK + (r + 0.5 * powSigma) * T;
-  const d1_denominator = sigma * sqrtT;
-  const d1 = d1_numerator / d1_denominator;
-  const d2 = d1 - sigma * sqrtT;
-
-  const erf_neg_d1 = Number(math.erf((-d1) / Number(math.sqrt(2))));
-  const erf_neg_d2 = Number(math.erf((-d2) / Number(math.sqrt(2))));
-  const N_neg_d1: number = erf_neg_d1 / 2 + 0.5;
-  const N_neg_d2: number = erf_neg_d2 / 2 + 0.5;
-
-  const expRT = Number(math.exp(-r * T));
-  const term1: number = K * expRT * N_neg_d2;
-  const term2: number = S * N_neg_d1;
-  const putPremiumPerUnit: number = term1 - term2; 
-  
-  const intrinsicValuePerUnit = Number(math.max(0, K - S));
-  const timeValueWithVol = putPremiumPerUnit - intrinsicValuePerUnit;
-  
-  const timeValuePerUnit = timeValueWithVol * 0.3; // Simplified split
-  const volatilityImpactPerUnit = timeValueWithVol * 0.7;
-  
-  let adjustedPremiumPerUnit = putPremiumPerUnit;
-  if (riskParams) {
-    adjustedPremiumPerUnit = putPremiumPerUnit * 
-      (1 + riskParams.baseRate) * 
-      riskParams.volatilityMultiplier * 
-      (1 + (duration / 365) * riskParams.durationFactor);
-  }
-  
-  const totalPremium: number = adjustedPremiumPerUnit * amount;
-
-  if (isNaN(totalPremium) || !isFinite(totalPremium)) {
-    console.error(`Black-Scholes calculation resulted in NaN or Infinity. Inputs: S=${S}, K=${K}, sigma=${sigma}, T=${T}, r=${r}. Returning 0.`);
-    return {
-      premium: 0,
-      intrinsicValue: 0,
-      timeValue: 0,
-      volatilityImpact: 0,
-    };
-  }
-
-  const roundedPremium = Number(math.round(totalPremium * 100)) / 100;
-  return {
-    premium: Number(math.max(0, roundedPremium)),
-    // Ensure components are also scaled by amount
-    intrinsicValue: Number(math.round(intrinsicValuePerUnit * amount * 100)) / 100,
-    timeValue: Number(math.round(timeValuePerUnit * amount * 100)) / 100,
-    volatilityImpact: Number(math.round(volatilityImpactPerUnit * amount * 100)) / 100,
-  };
-}
-
-/**
- * Calculate provider yield based on tier, period, and volatility
- */
-function calculateProviderYield({
-  commitmentAmountUSD,
-  selectedTier,
-  selectedPeriod,
-  volatility,
-  riskParams,
-  marketConditions,
-}: {
-  commitmentAmountUSD: number;
-  selectedTier: string;
-  selectedPeriod: number; // in days
-  volatility: number;
-  riskParams: RiskParameters;
-  marketConditions: {
-    btcPrice: number;
-    volatility: number;
-    liquidity: number;
-  };
-}): ProviderYieldComponents {
-  // ... (Full implementation copied from premium.ts) ...
-  // Validate inputs
-  if (commitmentAmountUSD <= 0 || selectedPeriod <= 0 || volatility <= 0) {
-    console.warn(`Invalid input for Yield Calculation: Amount=${commitmentAmountUSD}, Period=${selectedPeriod}, σ=${volatility}. Returning 0 yield.`);
-    return {
-      estimatedYield: 0,
-      annualizedYieldPercentage: 0,
-      baseYield: 0,
-      tierAdjustment: 0,
-      durationAdjustment: 0,
-      marketConditionAdjustment: 0,
-      riskLevel: 0,
-    };
-  }
-
-  const tierMultiplier = selectedTier === "conservative" 
-    ? riskParams?.tierMultipliers?.conservative ?? 0.7
-    : selectedTier === "balanced" 
-    ? riskParams?.tierMultipliers?.balanced ?? 1.0
-    : selectedTier === "aggressive" 
-    ? riskParams?.tierMultipliers?.aggressive ?? 1.3
-    : 1.0;
-
-  const baseAnnualYieldRate = volatility * 0.8; 
-  const durationFactor = 1 - Math.exp(-selectedPeriod / 90); 
-  const marketFactor = 1 + (marketConditions.volatility - 0.2) * 0.5;
-  
-  const baseYield = baseAnnualYieldRate * (selectedPeriod / 365) * commitmentAmountUSD;
-  const tierAdjustment = baseYield * (tierMultiplier - 1);
-  const durationAdjustment = baseYield * (durationFactor - 0.8);
-  const marketConditionAdjustment = baseYield * (marketFactor - 1);
-  
-  const annualizedYieldRate = baseAnnualYieldRate * tierMultiplier * durationFactor * marketFactor;
-  const estimatedYield = annualizedYieldRate * (selectedPeriod / 365) * commitmentAmountUSD;
-  
-  const riskLevel = Math.min(10, Math.round(
-    1 + 
-    (selectedTier === "conservative" ? 1 : selectedTier === "balanced" ? 3 : 5) + 
-    (Math.min(3, selectedPeriod / 120)) + 
-    (Math.min(2, volatility * 10))
-  ));
-  
-  const estimatedBTCAcquisitionPrice = marketConditions.btcPrice * (1 - volatility * tierMultiplier * 0.5);
-  
-  return {
-    estimatedYield: Number(math.round(estimatedYield * 100)) / 100,
-    annualizedYieldPercentage: Number(math.round(annualizedYieldRate * 10000)) / 100, 
-    estimatedBTCAcquisitionPrice: Number(math.round(estimatedBTCAcquisitionPrice * 100)) / 100,
-    riskLevel,
-    baseYield: Number(math.round(baseYield * 100)) / 100,
-    tierAdjustment: Number(math.round(tierAdjustment * 100)) / 100,
-    durationAdjustment: Number(math.round(durationAdjustment * 100)) / 100,
-    marketConditionAdjustment: Number(math.round(marketConditionAdjustment * 100)) / 100,
-    capitalEfficiency: tierMultiplier * 0.8, 
-  };
-}
-
-/**
- * Generate price scenarios for visualization
- */
-function generatePriceScenarios({
-  currentPrice,
-  strikePrice,
-  premium,
-  amount,
-}: {
-  currentPrice: number;
-  strikePrice: number;
-  premium: number;
-  amount: number;
-}): PriceScenario[] {
-  // ... (Full implementation copied from premium.ts) ...
-  const scenarios: PriceScenario[] = [];
-  const priceRange = 0.5;
-  
-  for (let i = -10; i <= 10; i++) {
-    const priceChange = i * (priceRange / 10);
-    const scenarioPrice = currentPrice * (1 + priceChange);
-    const protectionValue = Math.max(0, (strikePrice - scenarioPrice) * amount);
-    const netValue = protectionValue - premium;
-    
-    scenarios.push({
-      price: Number(math.round(scenarioPrice * 100)) / 100,
-      protectionValue: Number(math.round(protectionValue * 100)) / 100,
-      netValue: Number(math.round(netValue * 100)) / 100,
-    });
-  }
-  return scenarios;
-}
-
-/**
- * Calculate break-even price for a PUT option
- */
-function calculateBreakEvenPrice({
-  strikePrice,
-  premium,
-  amount,
-}: {
-  strikePrice: number;
-  premium: number;
-  amount: number;
-}): number {
-  // ... (Full implementation copied from premium.ts) ...
-  return Number(math.round((strikePrice - (premium / amount)) * 100)) / 100;
-}
-
-/**
- * Calculate provider's approximate break-even BTC price
- */
-function calculateProviderBreakEvenPrice({
-  commitmentAmountUSD,
-  estimatedYieldUSD,
-  currentBtcPrice,
-}: {
-  commitmentAmountUSD: number;
-  estimatedYieldUSD: number;
-  currentBtcPrice: number;
-}): number | undefined {
-  // ... (Full implementation copied from premium.ts) ...
-  if (currentBtcPrice <= 0 || commitmentAmountUSD <= 0) {
-    return undefined;
-  }
-  const bufferPercentage = estimatedYieldUSD / commitmentAmountUSD;
-  const breakEvenPrice = currentBtcPrice * (1 - bufferPercentage);
-  return Math.max(0, breakEvenPrice);
-}
-
-// --- NEW PUBLIC FACING QUERIES --- 
+// --- PUBLIC FACING QUERIES --- 
 
 /**
  * Get buyer premium quote with all details, using new services.
@@ -583,7 +307,7 @@ export const getBuyerPremiumQuote = query({
     protectedValuePercentage: v.number(),
     protectionAmount: v.number(),
     expirationDays: v.number(),
-    policyType: v.string(), // Typically "PUT"
+    policyType: v.string(), // "PUT" or "CALL"
     currentPriceOverride: v.optional(v.number()),
     includeScenarios: v.optional(v.boolean()),
   },
@@ -595,90 +319,63 @@ export const getBuyerPremiumQuote = query({
     }
     const currentPrice: number = args.currentPriceOverride ?? aggregatedPriceResult.price;
     
-    // 2. Get relevant volatility using new priceService
-    const volatilityResult = await ctx.runQuery(internal.services.oracle.priceService.getVolatilityForDuration, {
-        durationSeconds: args.expirationDays * 24 * 60 * 60,
-    });
-    const volatility: number = volatilityResult ?? 0.3; // Default to 30% if null
-    if (volatilityResult === null) {
-        console.warn(`Could not find specific volatility for ${args.expirationDays} days. Using default: ${volatility}`);
+    // 2. Get the volatility term structure; the premium calculation picks the tenor-matched sigma
+    const volatilityTermStructure = await ctx.runQuery(
+      internal.services.oracle.volatilityTermStructure.getVolatilityTermStructureInternal,
+      {}
+    );
+    const defaultVolatility = 0.3; // Used only when no volatility has been calculated yet
+    if (!volatilityTermStructure) {
+        console.warn(`No volatility term structure available for ${args.expirationDays} days. Using default: ${defaultVolatility}`);
     }
 
-    // 3. Calculate protected value in USD
-    const protectedValueUSD: number =
-      (currentPrice * args.protectedValuePercentage) / 100;
-
-    // 4. Get active risk parameters (using existing path for now)
-    // TODO: Update this if risk parameters are moved to the oracle service
+    // 3. Get active risk parameters
     const riskParams: RiskParameters = await ctx.runQuery(
-      internal.premium.getActiveRiskParameters, // OLD PATH - NEEDS CHECKING/UPDATING LATER
+      internal.premium.getActiveRiskParameters,
       {
         assetType: "BTC",
         policyType: args.policyType,
       }
     );
 
-    // 5. Calculate premium using Black-Scholes (now local to this file)
-    const premiumResult = calculateBlackScholesPremium({
-      currentPrice: currentPrice,
-      strikePrice: protectedValueUSD,
-      volatility: volatility, // Use volatility from priceService
-      duration: args.expirationDays,
-      amount: args.protectionAmount,
-      riskParams: riskParams,
-    });
-
-    // 6. Calculate break-even price (now local to this file)
-    const breakEvenPrice = calculateBreakEvenPrice({
-      strikePrice: protectedValueUSD,
-      premium: premiumResult.premium,
-      amount: args.protectionAmount,
+    // 4. Price through the shared engine (premium, break-even, percentages, scenarios)
+    const priced = priceBuyerProtection({
+      currentPrice,
+      protectedValuePercentage: args.protectedValuePercentage,
+      protectionAmount: args.protectionAmount,
+      expirationDays: args.expirationDays,
+      policyType: args.policyType,
+      volatility: defaultVolatility,
+      volatilityTermStructure,
+      riskParams,
+      includeScenarios: args.includeScenarios,
     });
 
-    // 7. Calculate premium percentage and annualized
-    const premiumPercentage = (protectedValueUSD * args.protectionAmount) > 0 
-        ? (premiumResult.premium / (protectedValueUSD * args.protectionAmount)) * 100 
-        : 0;
-    const annualizedPremium = args.expirationDays > 0 
-        ? premiumPercentage * (365 / args.expirationDays) 
-        : 0;
-
-    // 8. Generate price scenarios if requested (now local to this file)
-    let scenarios: PriceScenario[] = [];
-    if (args.includeScenarios) {
-      scenarios = generatePriceScenarios({
-        currentPrice: currentPrice,
-        strikePrice: protectedValueUSD,
-        premium: premiumResult.premium,
-        amount: args.protectionAmount,
-      });
-    }
-
-    // 9. Construct and return the comprehensive quote result
+    // 5. Construct and return the comprehensive quote result
     return {
       inputs: {
         protectedValuePercentage: args.protectedValuePercentage,
         protectionAmount: args.protectionAmount,
         expirationDays: args.expirationDays,
         policyType: args.policyType,
-        protectedValueUSD: protectedValueUSD,
-      },
-      premium: premiumResult.premium,
-      premiumPercentage: Number(math.round(premiumPercentage * 100)) / 100,
-      annualizedPremium: Number(math.round(annualizedPremium * 100)) / 100,
-      breakEvenPrice,
-      factorsBreakdown: {
-        intrinsicValue: premiumResult.intrinsicValue,
-        timeValue: premiumResult.timeValue,
-        volatilityImpact: premiumResult.volatilityImpact,
+        protectedValueUSD: priced.protectedValueUSD,
       },
-      scenarios,
+      premium: priced.premium,
+      premiumPercentage: priced.premiumPercentage,
+      annualizedPremium: priced.annualizedPremium,
+      breakEvenPrice: priced.breakEvenPrice,
+      factorsBreakdown: priced.factorsBreakdown,
+      greeks: priced.greeks,
+      scenarios: priced.scenarios,
       marketDataSnapshot: {
         btcPrice: currentPrice,
-        volatility: volatility, // The volatility used in calculation
+        volatility: priced.volatilityUsed, // The volatility used in calculation
         timestamp: new Date(aggregatedPriceResult.timestamp).toISOString(), // Use timestamp from aggregation
+        volatilityEstimator: priced.volatilityEstimator ?? "default",
+        volatilityTenorDays: args.expirationDays,
       },
       riskParamsSnapshot: riskParams,
+      pricingEngineVersion: priced.pricingEngineVersion,
     };
   },
 });
@@ -731,31 +428,17 @@ export const getProviderYieldQuote = query({
         };
     }
 
-    // 3. Calculate yield components 
-    const yieldComponents = calculateProviderYield({
+    // 3. Price through the shared engine
+    const priced = priceProviderYield({
       commitmentAmountUSD: args.commitmentAmountUSD,
       selectedTier: args.selectedTier,
-      selectedPeriod: args.selectedPeriodDays,
-      volatility: marketData.volatility,
-      riskParams: riskParams,
-      marketConditions: {
-        btcPrice: marketData.price,
-        volatility: marketData.volatility, 
-        liquidity: riskParams.liquidityAdjustment ?? 0, // Use nullish coalescing for safety
-      },
+      selectedPeriodDays: args.selectedPeriodDays,
+      marketData,
+      riskParams,
     });
+    const yieldComponents = priced.yieldComponents;
 
-    // 4. Calculate annualized percentage (adjust calculation)
-    const annualizedYieldPercentage = yieldComponents.annualizedYieldPercentage; // Use value from calculateProviderYield
-
-    // 5. Calculate provider break-even price (now local to this file)
-    const breakEvenPrice = calculateProviderBreakEvenPrice({
-      commitmentAmountUSD: args.commitmentAmountUSD,
-      estimatedYieldUSD: yieldComponents.estimatedYield,
-      currentBtcPrice: marketData.price,
-    });
-
-    // 6. Return the comprehensive quote result
+    // 4. Return the comprehensive quote result
     return {
       quoteId,
       timestamp,
@@ -766,20 +449,29 @@ export const getProviderYieldQuote = query({
       },
       calculated: {
         // Use the annualized percentage calculated within yieldComponents
-        estimatedYieldPercentage: annualizedYieldPercentage, 
+        estimatedYieldPercentage: yieldComponents.annualizedYieldPercentage, 
         estimatedYieldUSD: yieldComponents.estimatedYield, // Yield for the specific period
         yieldComponents: yieldComponents,
-        breakEvenPriceUSD: breakEvenPrice, 
+        breakEvenPriceUSD: priced.breakEvenPrice, 
       },
       marketData, // Snapshot of market data used
       riskParametersUsed: riskParams, // Snapshot of risk parameters used
       visualizationData: {
         // Placeholder
       },
+      pricingEngineVersion: priced.pricingEngineVersion,
     };
   },
 });
 
+const greeksValidator = v.object({
+  delta: v.number(),
+  gamma: v.number(),
+  vega: v.number(),
+  theta: v.number(),
+  rho: v.number(),
+});
+
 // New internal mutation for storing premium calculations
 export const insertPremiumCalculationEntry = internalMutation({
   args: {
@@ -791,6 +483,7 @@ export const insertPremiumCalculationEntry = internalMutation({
     expirationDays: v.number(),
     policyType: v.string(),
     volatilityUsed: v.number(),
+    volatilityEstimator: v.optional(v.string()),
     premium: v.number(),
     premiumPercentage: v.number(), // As decimal
     annualizedPremium: v.number(), // As decimal
@@ -798,7 +491,9 @@ export const insertPremiumCalculationEntry = internalMutation({
     intrinsicValue: v.number(),
     timeValue: v.number(),
     volatilityImpact: v.number(),
+    greeks: v.optional(greeksValidator),
     calculationModel: v.string(),
+    pricingEngineVersion: v.optional(v.string()),
     timestamp: v.string(), // ISOString
     scenarios: v.array(v.object({ // Define PriceScenario structure
         price: v.number(),
@@ -0,0 +1,73 @@
+import { expect, test, describe } from "vitest";
+import {
+  AGGREGATION_STRATEGIES,
+  DEFAULT_PRICE_AGGREGATION_CONFIG,
+  OUTLIER_POLICIES,
+  PriceAggregationConfig,
+  SourcePrice,
+  aggregateSourcePrices,
+} from "./priceAggregation";
+
+const config = (overrides: Partial<PriceAggregationConfig>): PriceAggregationConfig => ({
+  ...DEFAULT_PRICE_AGGREGATION_CONFIG,
+  outlierPolicy: OUTLIER_POLICIES.NONE,
+  minQuorum: 1,
+  ...overrides,
+});
+
+const prices: SourcePrice[] = [
+  { source: "a", price: 100, weight: 1, volume: 10 },
+  { source: "b", price: 100.5, weight: 1, volume: 30 },
+  { source: "c", price: 101, weight: 2 },
+];
+
+describe("aggregateSourcePrices", () => {
+  test("iqr weighted mean weights by source weight", () => {
+    const result = aggregateSourcePrices(prices, config({ strategy: AGGREGATION_STRATEGIES.IQR_WEIGHTED_MEAN }));
+    expect(result.price).toBeCloseTo((100 + 100.5 + 2 * 101) / 4);
+    expect(result.sourcesUsed).toEqual(["a", "b", "c"]);
+  });
+
+  test("weighted median picks the price at half the total weight", () => {
+    const result = aggregateSourcePrices(prices, config({ strategy: AGGREGATION_STRATEGIES.WEIGHTED_MEDIAN }));
+    expect(result.price).toBeCloseTo(100.75);
+  });
+
+  test("trimmed mean drops the extremes", () => {
+    const wide = [...prices, { source: "d", price: 90, weight: 1 }, { source: "e", price: 110, weight: 1 }];
+    const result = aggregateSourcePrices(wide, config({ strategy: AGGREGATION_STRATEGIES.TRIMMED_MEAN, trimPercent: 0.2 }));
+    expect(result.price).toBeCloseTo((100 + 100.5 + 2 * 101) / 4);
+  });
+
+  test("vwap only uses sources that report volume", () => {
+    const result = aggregateSourcePrices(prices, config({ strategy: AGGREGATION_STRATEGIES.VWAP }));
+    expect(result.price).toBeCloseTo((100 * 10 + 100.5 * 30) / 40);
+    expect(result.sourcesUsed).toEqual(["a", "b"]);
+    expect(result.sourcesExcluded).toEqual(["c"]);
+  });
+
+  test("vwap quorum counts only sources that carry volume", () => {
+    const result = aggregateSourcePrices(prices, config({ strategy: AGGREGATION_STRATEGIES.VWAP, minQuorum: 3 }));
+    expect(result.agreeingSourceCount).toBe(2);
+    expect(result.quorumMet).toBe(false);
+    expect(result.price).toBeNull();
+  });
+
+  test("vwap falls back to the weighted median without volume", () => {
+    const noVolume = prices.map(p => ({ ...p, volume: undefined }));
+    const result = aggregateSourcePrices(noVolume, config({ strategy: AGGREGATION_STRATEGIES.VWAP }));
+    expect(result.strategy).toBe(AGGREGATION_STRATEGIES.WEIGHTED_MEDIAN);
+    expect(result.agreeingSourceCount).toBe(3);
+  });
+
+  test("median-deviation policy removes far-off sources before pricing", () => {
+    const withOutlier = [...prices, { source: "x", price: 150, weight: 5 }];
+    const result = aggregateSourcePrices(withOutlier, config({
+      strategy: AGGREGATION_STRATEGIES.WEIGHTED_MEDIAN,
+      outlierPolicy: OUTLIER_POLICIES.MEDIAN_DEVIATION,
+      maxDeviationPercent: 2,
+    }));
+    expect(result.sourcesExcluded).toEqual(["x"]);
+    expect(result.price).toBeCloseTo(100.75);
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * Price Aggregation Strategies
+ *
+ * Turns the per-source prices collected from the price-source registry into a single
+ * aggregated price. The strategy, outlier policy and quorum rule are configured through
+ * the priceAggregationConfig singleton so they can be changed without a redeploy.
+ */
+
+import { v } from "convex/values";
+import { internalQuery, mutation, query, QueryCtx } from "../../_generated/server";
+import { Doc } from "../../_generated/dataModel";
+import { getAdminPrincipal } from "../../adminAuth";
+
+// --- Types & Defaults ---
+
+export const AGGREGATION_STRATEGIES = {
+  IQR_WEIGHTED_MEAN: "iqr_weighted_mean", // Original behaviour: weighted mean after outlier filtering
+  WEIGHTED_MEDIAN: "weighted_median",
+  TRIMMED_MEAN: "trimmed_mean",
+  VWAP: "vwap", // Volume-weighted, only sources that report volume participate
+} as const;
+
+export const OUTLIER_POLICIES = {
+  IQR: "iqr",
+  MEDIAN_DEVIATION: "median_deviation",
+  NONE: "none",
+} as const;
+
+export interface SourcePrice {
+  source: string;
+  price: number;
+  weight: number;
+  volume?: number;
+}
+
+export interface PriceAggregationConfig {
+  strategy: string;
+  outlierPolicy: string;
+  iqrMultiplier: number; // Fence width for the IQR policy
+  maxDeviationPercent: number; // Max distance from the median for the median_deviation policy
+  trimPercent: number; // Fraction trimmed from each end for trimmed_mean (0 - 0.5)
+  minQuorum: number; // Minimum number of agreeing sources required to publish a price
+  quorumTolerancePercent: number; // A source "agrees" if it is within this % of the median
+}
+
+export interface PriceAggregationResult {
+  price: number | null; // null when the quorum was not met
+  strategy: string; // Strategy actually applied (may differ from the configured one on fallback)
+  outlierPolicy: string;
+  sourcesUsed: string[];
+  sourcesExcluded: string[];
+  agreeingSourceCount: number;
+  quorumMet: boolean;
+}
+
+export const DEFAULT_PRICE_AGGREGATION_CONFIG: PriceAggregationConfig = {
+  strategy: AGGREGATION_STRATEGIES.IQR_WEIGHTED_MEAN,
+  outlierPolicy: OUTLIER_POLICIES.IQR,
+  iqrMultiplier: 1.5,
+  maxDeviationPercent: 2,
+  trimPercent: 0.2,
+  minQuorum: 3,
+  quorumTolerancePercent: 1,
+};
+
+// IQR filtering needs enough points for quartiles to mean anything
+const MIN_POINTS_FOR_IQR = 4;
+
+// --- Pure Helpers ---
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Removes outliers according to the configured policy.
+ */
+export function filterOutliers(
+  prices: SourcePrice[],
+  config: PriceAggregationConfig
+): { kept: SourcePrice[]; removed: SourcePrice[] } {
+  if (config.outlierPolicy === OUTLIER_POLICIES.IQR) {
+    if (prices.length < MIN_POINTS_FOR_IQR) {
+      console.log(`Skipping IQR outlier detection: Not enough valid prices (${prices.length} < ${MIN_POINTS_FOR_IQR}).`);
+      return { kept: [...prices], removed: [] };
+    }
+    const sorted = [...prices].sort((a, b) => a.price - b.price);
+    const q1 = sorted[Math.floor(sorted.length / 4)].price;
+    const q3 = sorted[Math.floor(sorted.length * 3 / 4)].price;
+    const iqr = q3 - q1;
+    const lowerBound = q1 - config.iqrMultiplier * iqr;
+    const upperBound = q3 + config.iqrMultiplier * iqr;
+    console.log(`IQR Outlier Detection: Count=${sorted.length}, Q1=${q1}, Q3=${q3}, IQR=${iqr}, LowerBound=${lowerBound}, UpperBound=${upperBound}`);
+    return {
+      kept: prices.filter(p => p.price >= lowerBound && p.price <= upperBound),
+      removed: prices.filter(p => p.price < lowerBound || p.price > upperBound),
+    };
+  }
+
+  if (config.outlierPolicy === OUTLIER_POLICIES.MEDIAN_DEVIATION) {
+    if (prices.length === 0) {
+      return { kept: [], removed: [] };
+    }
+    const mid = median(prices.map(p => p.price));
+    const isWithin = (p: SourcePrice) => Math.abs(p.price - mid) / mid * 100 <= config.maxDeviationPercent;
+    return {
+      kept: prices.filter(isWithin),
+      removed: prices.filter(p => !isWithin(p)),
+    };
+  }
+
+  return { kept: [...prices], removed: [] };
+}
+
+/**
+ * Weighted median: the price at which cumulative source weight first reaches half the total.
+ */
+export function weightedMedian(prices: SourcePrice[]): number | null {
+  const totalWeight = prices.reduce((sum, p) => sum + p.weight, 0);
+  if (prices.length === 0 || totalWeight <= 0) return null;
+  const sorted = [...prices].sort((a, b) => a.price - b.price);
+  const half = totalWeight / 2;
+  let cumulative = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    cumulative += sorted[i].weight;
+    if (cumulative > half) return sorted[i].price;
+    if (cumulative === half && i + 1 < sorted.length) {
+      return (sorted[i].price + sorted[i + 1].price) / 2;
+    }
+  }
+  return sorted[sorted.length - 1].price;
+}
+
+/**
+ * Weighted mean of the prices left after dropping trimPercent of the sources from each end.
+ */
+export function trimmedMean(prices: SourcePrice[], trimPercent: number): number | null {
+  if (prices.length === 0) return null;
+  const sorted = [...prices].sort((a, b) => a.price - b.price);
+  const trimCount = Math.floor(sorted.length * Math.min(Math.max(trimPercent, 0), 0.49));
+  return weightedMean(sorted.slice(trimCount, sorted.length - trimCount));
+}
+
+export function weightedMean(prices: SourcePrice[]): number | null {
+  let weightedSum = 0;
+  let totalWeight = 0;
+  for (const item of prices) {
+    weightedSum += item.price * item.weight;
+    totalWeight += item.weight;
+  }
+  return totalWeight > 0 ? weightedSum / totalWeight : null;
+}
+
+/**
+ * Volume-weighted average price over the sources that reported a positive volume.
+ */
+export function volumeWeightedPrice(prices: SourcePrice[]): number | null {
+  let weightedSum = 0;
+  let totalVolume = 0;
+  for (const item of prices) {
+    if (item.volume !== undefined && item.volume > 0) {
+      weightedSum += item.price * item.volume;
+      totalVolume += item.volume;
+    }
+  }
+  return totalVolume > 0 ? weightedSum / totalVolume : null;
+}
+
+/**
+ * Applies the outlier policy, the configured strategy and the quorum rule.
+ * VWAP falls back to the weighted median when no source reported volume.
+ */
+export function aggregateSourcePrices(
+  prices: SourcePrice[],
+  config: PriceAggregationConfig
+): PriceAggregationResult {
+  const { kept, removed } = filterOutliers(prices, config);
+  if (removed.length > 0) {
+    console.warn(`Removed ${removed.length} outliers (${config.outlierPolicy}): ${removed.map(p => p.source).join(", ")}`);
+  }
+
+  let strategy = config.strategy;
+  let contributing = kept;
+  let price: number | null;
+  switch (config.strategy) {
+    case AGGREGATION_STRATEGIES.WEIGHTED_MEDIAN:
+      price = weightedMedian(kept);
+      break;
+    case AGGREGATION_STRATEGIES.TRIMMED_MEAN:
+      price = trimmedMean(kept, config.trimPercent);
+      break;
+    case AGGREGATION_STRATEGIES.VWAP:
+      contributing = kept.filter(p => p.volume !== undefined && p.volume > 0);
+      price = volumeWeightedPrice(contributing);
+      if (price === null) {
+        console.warn("VWAP: no source reported volume. Falling back to weighted median.");
+        strategy = AGGREGATION_STRATEGIES.WEIGHTED_MEDIAN;
+        contributing = kept;
+        price = weightedMedian(kept);
+      }
+      break;
+    case AGGREGATION_STRATEGIES.IQR_WEIGHTED_MEAN:
+    default:
+      strategy = AGGREGATION_STRATEGIES.IQR_WEIGHTED_MEAN;
+      price = weightedMean(kept);
+      break;
+  }
+
+  // Quorum: enough of the sources that carry weight in the price must sit close to their median
+  const agreeingSourceCount = contributing.length === 0
+    ? 0
+    : (() => {
+        const mid = median(contributing.map(p => p.price));
+        return contributing.filter(p => Math.abs(p.price - mid) / mid * 100 <= config.quorumTolerancePercent).length;
+      })();
+  const quorumMet = price !== null && agreeingSourceCount >= config.minQuorum;
+
+  const usedNames = new Set(contributing.map(p => p.source));
+  return {
+    price: quorumMet ? price : null,
+    strategy,
+    outlierPolicy: config.outlierPolicy,
+    sourcesUsed: contributing.map(p => p.source),
+    sourcesExcluded: prices.filter(p => !usedNames.has(p.source)).map(p => p.source),
+    agreeingSourceCount,
+    quorumMet,
+  };
+}
+
+// --- Config Storage ---
+
+const AGGREGATION_CONFIG_SINGLETON_ID = "global" as const;
+
+function toConfig(doc: Doc<"priceAggregationConfig"> | null): PriceAggregationConfig {
+  if (!doc) {
+    return DEFAULT_PRICE_AGGREGATION_CONFIG;
+  }
+  return {
+    strategy: doc.strategy,
+    outlierPolicy: doc.outlierPolicy,
+    iqrMultiplier: doc.iqrMultiplier,
+    maxDeviationPercent: doc.maxDeviationPercent,
+    trimPercent: doc.trimPercent,
+    minQuorum: doc.minQuorum,
+    quorumTolerancePercent: doc.quorumTolerancePercent,
+  };
+}
+
+function setConfigField<K extends keyof PriceAggregationConfig>(config: PriceAggregationConfig, key: K, value: PriceAggregationConfig[K] | undefined): void {
+  if (value !== undefined) {
+    config[key] = value;
+  }
+}
+
+/**
+ * Reads the active aggregation config (defaults if none has been saved yet).
+ */
+export async function loadPriceAggregationConfig(ctx: Pick<QueryCtx, "db">): Promise<PriceAggregationConfig> {
+  const doc = await ctx.db
+    .query("priceAggregationConfig")
+    .withIndex("by_singleton_id", (q) => q.eq("singletonId", AGGREGATION_CONFIG_SINGLETON_ID))
+    .unique();
+  return toConfig(doc);
+}
+
+/**
+ * Latest price per source from priceFeed within the last ~15 minutes.
+ * Shared by the aggregated price query and the per-signer prices in oracleSigners.ts.
+ */
+export async function loadLatestSourcePrices(ctx: Pick<QueryCtx, "db">): Promise<SourcePrice[]> {
+  // (Adjust timeframe as needed, maybe 5-10 mins is better for live data)
+  const relevantTime = Date.now() - 15 * 60 * 1000;
+  const recentPrices = await ctx.db
+    .query("priceFeed")
+    .withIndex("by_timestamp")
+    .filter((q) => q.gt(q.field("timestamp"), relevantTime))
+    .collect();
+
+  // Get the single most recent price for each unique source
+  const sourceMap = new Map<string, { price: number; timestamp: number; weight: number; volume?: number }>();
+  for (const entry of recentPrices) {
+    const current = sourceMap.get(entry.source);
+    if (!current || entry.timestamp > current.timestamp) {
+      sourceMap.set(entry.source, { 
+        price: entry.price, 
+        timestamp: entry.timestamp, 
+        weight: entry.weight,
+        volume: entry.volume
+      });
+    }
+  }
+
+  return Array.from(sourceMap.entries()).map(([source, entry]) => ({ ...entry, source }));
+}
+
+export const getPriceAggregationConfigInternal = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<PriceAggregationConfig> => {
+    return await loadPriceAggregationConfig(ctx);
+  },
+});
+
+export const getPriceAggregationConfig = query({
+  args: {},
+  handler: async (ctx): Promise<PriceAggregationConfig> => {
+    return await loadPriceAggregationConfig(ctx);
+  },
+});
+
+/**
+ * Admin-only update of the aggregation config. Omitted fields keep their current value.
+ */
+export const updatePriceAggregationConfig = mutation({
+  args: {
+    strategy: v.optional(v.string()),
+    outlierPolicy: v.optional(v.string()),
+    iqrMultiplier: v.optional(v.number()),
+    maxDeviationPercent: v.optional(v.number()),
+    trimPercent: v.optional(v.number()),
+    minQuorum: v.optional(v.number()),
+    quorumTolerancePercent: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean; message: string; config?: PriceAggregationConfig }> => {
+    const adminPrincipal = await getAdminPrincipal(ctx);
+    if (!adminPrincipal) {
+      return { success: false, message: "Admin access required." };
+    }
+
+    if (args.strategy !== undefined && !(Object.values(AGGREGATION_STRATEGIES) as string[]).includes(args.strategy)) {
+      return { success: false, message: `Unknown strategy "${args.strategy}".` };
+    }
+    if (args.outlierPolicy !== undefined && !(Object.values(OUTLIER_POLICIES) as string[]).includes(args.outlierPolicy)) {
+      return { success: false, message: `Unknown outlier policy "${args.outlierPolicy}".` };
+    }
+    if (args.trimPercent !== undefined && (args.trimPercent < 0 || args.trimPercent >= 0.5)) {
+      return { success: false, message: "trimPercent must be in [0, 0.5)." };
+    }
+    if (args.minQuorum !== undefined && (!Number.isInteger(args.minQuorum) || args.minQuorum < 1)) {
+      return { success: false, message: "minQuorum must be a positive integer." };
+    }
+
+    const existing = await ctx.db
+      .query("priceAggregationConfig")
+      .withIndex("by_singleton_id", (q) => q.eq("singletonId", AGGREGATION_CONFIG_SINGLETON_ID))
+      .unique();
+    const config: PriceAggregationConfig = { ...toConfig(existing) };
+    const patch: Partial<PriceAggregationConfig> = args;
+    for (const key of Object.keys(patch) as (keyof PriceAggregationConfig)[]) {
+      setConfigField(config, key, patch[key]);
+    }
+
+    const record = {
+      ...config,
+      lastUpdated: Date.now(),
+      updatedBy: adminPrincipal,
+    };
+    if (existing) {
+      await ctx.db.patch(existing._id, record);
+    } else {
+      await ctx.db.insert("priceAggregationConfig", { singletonId: AGGREGATION_CONFIG_SINGLETON_ID, ...record });
+    }
+    console.log(`Admin ${adminPrincipal} updated price aggregation config:`, config);
+    return { success: true, message: "Price aggregation config updated.", config };
+  },
+});
@@ -11,10 +11,14 @@ import { Id } from "../../_generated/dataModel";
 import { internal, api } from "../../_generated/api";
 import { OraclePriceData } from '../../blockchain/oracle/types';
 import { getFormattedOraclePrice } from '../../blockchain/oracle/priceReader';
-import { 
-  checkAndSubmitOraclePrice as submitToBlockchain, 
-  ORACLE_UPDATE_THRESHOLDS 
-} from '../../blockchain/oracle/priceWriter';
+import { checkAndSubmitOraclePrice as submitToBlockchain } from '../../blockchain/oracle/priceWriter';
+import { aggregateSourcePrices, loadLatestSourcePrices, loadPriceAggregationConfig } from './priceAggregation';
+import { VOLATILITY_ESTIMATORS } from './volatilityService';
+import { createNonceManager } from '../../signerNonces';
+import { runMultiSignerRound } from '../../oracleSigners';
+import { ORACLE_SUBMISSION_MODES, toUpdateThresholds } from './oracleConfig';
+import { FEE_OPERATION } from '../../blockchain/common/fees';
+import { DEFAULT_ESTIMATOR_PREFERENCE, getTenorMatchedVolatility } from './volatilityTermStructure';
 
 /**
  * Price Aggregation Result
@@ -27,12 +31,14 @@ interface AggregatedPriceResult {
   range24h?: number;
   weightedSum?: number;
   totalWeight?: number;
+  aggregationStrategy?: string;
   sourcesUsed?: string[];
 }
 
 /**
- * Fetches current prices from priceFeed, filters outliers using IQR,
- * calculates weighted average, and gets associated volatility and range.
+ * Fetches current prices from priceFeed, aggregates them with the configured
+ * strategy and outlier policy, and gets associated volatility and range.
+ * Returns null when the configured quorum is not met.
  */
 export const aggregateCurrentPrices = internalQuery({
   args: {},
@@ -40,86 +46,33 @@ export const aggregateCurrentPrices = internalQuery({
     console.log("aggregateCurrentPrices query running...");
 
     // 1. Get the latest price for each source from priceFeed within the last ~15 minutes
-    // (Adjust timeframe as needed, maybe 5-10 mins is better for live data)
-    const relevantTime = Date.now() - 15 * 60 * 1000;
-    const recentPrices = await ctx.db
-      .query("priceFeed")
-      .withIndex("by_timestamp")
-      .filter(q => q.gt(q.field("timestamp"), relevantTime))
-      .collect();
-
-    if (recentPrices.length === 0) {
-      console.warn("No recent price feed data found for aggregation.");
-      return null;
-    }
-
-    // Get the single most recent price for each unique source
-    const sourceMap = new Map<string, { price: number; timestamp: number; weight: number }>();
-    for (const entry of recentPrices) {
-      const current = sourceMap.get(entry.source);
-      if (!current || entry.timestamp > current.timestamp) {
-        sourceMap.set(entry.source, { 
-          price: entry.price, 
-          timestamp: entry.timestamp, 
-          weight: entry.weight 
-        });
-      }
-    }
-    
-    const fetchedPrices: { source: string; price: number; weight: number }[] = Array.from(sourceMap.values()).map((v, i) => ({ ...v, source: Array.from(sourceMap.keys())[i] }));
+    const fetchedPrices = await loadLatestSourcePrices(ctx);
     console.log(`Found latest prices for ${fetchedPrices.length} unique sources.`);
 
     if (fetchedPrices.length === 0) {
-      console.warn("No valid fetched prices to aggregate.");
+      console.warn("No recent price feed data found for aggregation.");
       return null;
     }
 
-    // 2. Outlier Filtering using IQR
-    let pricesToAggregate = [...fetchedPrices];
-    if (pricesToAggregate.length >= 4) {
-      pricesToAggregate.sort((a, b) => a.price - b.price);
-      const q1Index = Math.floor(pricesToAggregate.length / 4);
-      const q3Index = Math.floor(pricesToAggregate.length * 3 / 4);
-      const q1 = pricesToAggregate[q1Index].price;
-      const q3 = pricesToAggregate[q3Index].price;
-      const iqr = q3 - q1;
-      const lowerBound = q1 - 1.5 * iqr;
-      const upperBound = q3 + 1.5 * iqr;
-      
-      console.log(`IQR Outlier Detection: Count=${pricesToAggregate.length}, Q1=${q1}, Q3=${q3}, IQR=${iqr}, LowerBound=${lowerBound}, UpperBound=${upperBound}`);
-      
-      const originalCount = pricesToAggregate.length;
-      pricesToAggregate = pricesToAggregate.filter(p => p.price >= lowerBound && p.price <= upperBound);
-      const removedCount = originalCount - pricesToAggregate.length;
-      if (removedCount > 0) {
-        console.warn(`Removed ${removedCount} outliers based on IQR.`);
-      }
-    } else {
-      console.log(`Skipping IQR outlier detection: Not enough valid prices (${pricesToAggregate.length} < 4).`);
-    }
-
-    // 3. Calculate Weighted Average
-    let weightedSum = 0;
-    let totalWeight = 0;
-    const sourcesUsed = pricesToAggregate.map(p => p.source);
-    for (const item of pricesToAggregate) {
-      weightedSum += item.price * item.weight;
-      totalWeight += item.weight;
-    }
+    // 2. Outlier filtering, aggregation strategy and quorum (see priceAggregation.ts)
+    const aggregationConfig = await loadPriceAggregationConfig(ctx);
+    const aggregation = aggregateSourcePrices(fetchedPrices, aggregationConfig);
 
-    if (totalWeight === 0 || pricesToAggregate.length === 0) {
-      console.warn("Could not aggregate price: Zero total weight or no sources after filtering.");
+    if (!aggregation.quorumMet || aggregation.price === null) {
+      console.warn(`Could not aggregate price: quorum not met (${aggregation.agreeingSourceCount} agreeing, ${aggregationConfig.minQuorum} required).`);
       return null;
     }
 
-    const aggregatedPrice = weightedSum / totalWeight;
+    const aggregatedPrice = aggregation.price;
     const aggregationTimestamp = Date.now(); // Timestamp of this calculation
-    console.log(`Calculated aggregated price: ${aggregatedPrice} (Sources: ${pricesToAggregate.length})`);
+    console.log(`Calculated aggregated price: ${aggregatedPrice} (Strategy: ${aggregation.strategy}, Sources: ${aggregation.sourcesUsed.length})`);
 
-    // 4. Fetch latest stored Volatility (assuming 30-day standard)
+    // 3. Fetch latest stored Volatility (assuming 30-day standard)
     // We rely on the scheduled job `calculateAndStoreAllVolatilities` to keep this fresh.
     const latestVolatility = await ctx.db.query("historicalVolatility")
-        .withIndex("by_timeframe_and_timestamp", (q) => q.eq("timeframe", 30))
+        .withIndex("by_method_timeframe_and_timestamp", (q) =>
+            q.eq("calculationMethod", VOLATILITY_ESTIMATORS.CLOSE_TO_CLOSE).eq("timeframe", 30)
+        )
         .order("desc")
         .first();
         
@@ -128,24 +81,22 @@ export const aggregateCurrentPrices = internalQuery({
       console.warn("No stored 30-day volatility found. Using 0.");
     }
 
-    // 5. Fetch latest 24h Range
+    // 4. Fetch latest 24h Range
     const rangeData = await ctx.runQuery(api.services.oracle.priceService.calculate24hRange, {});
     const range24hToUse = rangeData?.range;
     if (!rangeData) {
       console.warn("Could not calculate 24h range.");
     }
 
-    // 6. Return combined result
+    // 5. Return combined result
     return {
       price: aggregatedPrice,
       timestamp: aggregationTimestamp,
       volatility: volatilityToUse,
-      sourceCount: pricesToAggregate.length,
+      sourceCount: aggregation.sourcesUsed.length,
       range24h: range24hToUse,
-      // Optional debug info
-      // weightedSum,
-      // totalWeight,
-      // sourcesUsed,
+      aggregationStrategy: aggregation.strategy,
+      sourcesUsed: aggregation.sourcesUsed,
     };
   }
 });
@@ -292,9 +243,16 @@ export const getLatestOnChainPrice = internalAction({
 
 /**
  * Checks if oracle price update criteria are met and submits if necessary.
+ * In multi-signer mode the submission is delegated to a signer round (see oracleSigners.ts).
  */
 export const checkAndSubmitPrice = internalAction({
-  handler: async (ctx) => {
+  handler: async (ctx): Promise<{ updated: boolean; reason: string; txid?: string }> => {
+    const oracleConfig = await ctx.runQuery(internal.services.oracle.oracleConfig.getOracleConfigInternal, {});
+    if (oracleConfig.submissionMode === ORACLE_SUBMISSION_MODES.MULTI_SIGNER) {
+      const round = await runMultiSignerRound(ctx);
+      return { updated: round.updated, reason: round.reason, txid: round.txids[0] };
+    }
+
     // Directly call aggregateCurrentPrices, as getLatestPrice is essentially a wrapper for it.
     // This avoids a layer of api.runQuery that might be causing TS inference issues.
     const latestPriceResult = await ctx.runQuery(internal.services.oracle.priceService.aggregateCurrentPrices, {});
@@ -314,7 +272,7 @@ export const checkAndSubmitPrice = internalAction({
       currentPriceUSD: latestPriceResult.price, 
       currentTimestamp: latestPriceResult.timestamp,
       sourceCount: latestPriceResult.sourceCount
-    });
+    }, createNonceManager(ctx, FEE_OPERATION.ORACLE_SUBMISSION), toUpdateThresholds(oracleConfig));
 
     // Log the submission attempt
     console.log(`Oracle price submission attempt: ${result.updated ? 'Updated' : 'Skipped'}, Reason: ${result.reason}`);
@@ -390,65 +348,26 @@ export const updateAggregatedPrice = internalMutation({
 
 /**
  * Get the most relevant volatility based on option duration
- * Finds the closest available pre-calculated timeframe volatility.
+ * Interpolates the volatility term structure at the option tenor (see volatilityTermStructure.ts).
  */
 export const getVolatilityForDuration = internalQuery({
   args: {
     durationSeconds: v.number(),
+    estimator: v.optional(v.string()), // Restrict to one estimator instead of the default preference
   },
   handler: async (ctx, args): Promise<number | null> => {
     const { durationSeconds } = args;
-    const durationDays = Math.round(durationSeconds / (60 * 60 * 24));
+    const durationDays = durationSeconds / (60 * 60 * 24);
     console.log(`getVolatilityForDuration called for duration: ${durationDays} days (${durationSeconds} seconds)`);
 
-    const standardTimeframes = [30, 60, 90, 180, 360]; // Available calculated timeframes (in days)
-
-    // Find the ideal timeframe (closest match)
-    let idealTimeframe = standardTimeframes[0];
-    let minDiff = Math.abs(durationDays - idealTimeframe);
-
-    for (let i = 1; i < standardTimeframes.length; i++) {
-      const diff = Math.abs(durationDays - standardTimeframes[i]);
-      if (diff < minDiff) {
-        minDiff = diff;
-        idealTimeframe = standardTimeframes[i];
-      }
-    }
-    console.log(`Ideal volatility timeframe determined: ${idealTimeframe} days`);
-
-    // Attempt to fetch the latest volatility for the ideal timeframe
-    // Assuming "standard" calculation method for now
-    let latestVolatilityRecord = await ctx.db
-      .query("historicalVolatility")
-      .withIndex("by_timeframe_and_timestamp", (q) => q.eq("timeframe", idealTimeframe))
-      .order("desc")
-      .first();
-
-    if (latestVolatilityRecord) {
-      console.log(`Found volatility for ideal timeframe ${idealTimeframe}: ${latestVolatilityRecord.volatility}`);
-      return latestVolatilityRecord.volatility;
-    }
-
-    // Fallback: If ideal timeframe data is missing, find the next closest available
-    console.warn(`Volatility data not found for ideal timeframe ${idealTimeframe}. Searching for fallbacks...`);
-
-    const fallbackTimeframes = standardTimeframes
-      .filter(tf => tf !== idealTimeframe) // Exclude the ideal one
-      .map(tf => ({ timeframe: tf, diff: Math.abs(durationDays - tf) }))
-      .sort((a, b) => a.diff - b.diff); // Sort by closeness
-
-    for (const fallback of fallbackTimeframes) {
-      console.log(`Attempting fallback timeframe: ${fallback.timeframe} days (Difference: ${fallback.diff})`);
-      latestVolatilityRecord = await ctx.db
-        .query("historicalVolatility")
-        .withIndex("by_timeframe_and_timestamp", (q) => q.eq("timeframe", fallback.timeframe))
-        .order("desc")
-        .first();
-
-      if (latestVolatilityRecord) {
-        console.warn(`Using fallback volatility from timeframe ${fallback.timeframe}: ${latestVolatilityRecord.volatility}`);
-        return latestVolatilityRecord.volatility;
-      }
+    const matched = await getTenorMatchedVolatility(
+      ctx,
+      durationDays,
+      args.estimator ? [args.estimator] : DEFAULT_ESTIMATOR_PREFERENCE
+    );
+    if (matched) {
+      console.log(`Tenor-matched volatility for ${durationDays} days (${matched.estimator}${matched.interpolated ? ", interpolated" : ""}): ${matched.volatility}`);
+      return matched.volatility;
     }
 
     // If no data found for any timeframe
@@ -0,0 +1,451 @@
+/**
+ * Price Source Registry
+ *
+ * Persisted registry of the exchange endpoints used by fetchAndAggregateCurrentPrices,
+ * together with per-source health tracking (latency, failure streak, deviation from
+ * the median) and automatic quarantine of sources that keep failing.
+ *
+ * Response parsers cannot be stored in the database, so each registry entry references
+ * one of the parsers in PRICE_SOURCE_PARSERS by key.
+ */
+
+import { v } from "convex/values";
+import { internalMutation, internalQuery, mutation, query } from "../../_generated/server";
+import { Doc } from "../../_generated/dataModel";
+import { getAdminPrincipal } from "../../adminAuth";
+
+// --- Parsers & Defaults ---
+
+/**
+ * Known response formats, keyed by the parser id stored on each registry entry.
+ */
+export const PRICE_SOURCE_PARSERS: Record<string, (data: any) => number> = {
+  coingecko_simple_price: (data: any) => data.bitcoin.usd,
+  binance_ticker_24hr: (data: any) => parseFloat(data.lastPrice),
+  kraken_ticker: (data: any) => parseFloat(data.result.XXBTZUSD.c[0]),
+  coinbase_spot: (data: any) => parseFloat(data.data.amount),
+  bitstamp_ticker: (data: any) => parseFloat(data.last),
+  gemini_pubticker: (data: any) => parseFloat(data.last),
+  huobi_merged_detail: (data: any) => data.tick.close,
+  bitfinex_ticker: (data: any) => parseFloat(data[6]),
+};
+
+/**
+ * Parsers for the 24h volume field, for the response formats that carry one.
+ * Used by the VWAP aggregation strategy.
+ */
+export const PRICE_SOURCE_VOLUME_PARSERS: Record<string, (data: any) => number> = {
+  binance_ticker_24hr: (data: any) => parseFloat(data.volume),
+  kraken_ticker: (data: any) => parseFloat(data.result.XXBTZUSD.v[1]),
+};
+
+/**
+ * Sources seeded into an empty registry. Mirrors the list that used to be hardcoded
+ * in fetchAndAggregateCurrentPrices.
+ */
+export const DEFAULT_PRICE_SOURCES: { name: string; url: string; weight: number; parser: string }[] = [
+  {
+    name: "coingecko",
+    url: "https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=usd",
+    weight: 0.2,
+    parser: "coingecko_simple_price",
+  },
+  {
+    name: "binance",
+    url: "https://api.binance.us/api/v3/ticker/24hr?symbol=BTCUSD",
+    weight: 0.15,
+    parser: "binance_ticker_24hr",
+  },
+  {
+    name: "kraken",
+    url: "https://api.kraken.com/0/public/Ticker?pair=XBTUSD",
+    weight: 0.15,
+    parser: "kraken_ticker",
+  },
+  {
+    name: "coinbase",
+    url: "https://api.coinbase.com/v2/prices/BTC-USD/spot",
+    weight: 0.15,
+    parser: "coinbase_spot",
+  },
+  {
+    name: "bitstamp",
+    url: "https://www.bitstamp.net/api/v2/ticker/btcusd",
+    weight: 0.1,
+    parser: "bitstamp_ticker",
+  },
+  {
+    name: "gemini",
+    url: "https://api.gemini.com/v1/pubticker/btcusd",
+    weight: 0.05,
+    parser: "gemini_pubticker",
+  },
+  {
+    name: "huobi",
+    url: "https://api.huobi.pro/market/detail/merged?symbol=btcusdt",
+    weight: 0.05,
+    parser: "huobi_merged_detail",
+  },
+  {
+    name: "bitfinex",
+    url: "https://api-pub.bitfinex.com/v2/ticker/tBTCUSD",
+    weight: 0.1,
+    parser: "bitfinex_ticker",
+  },
+];
+
+export const PRICE_SOURCE_STATUS = {
+  ACTIVE: "active",
+  QUARANTINED: "quarantined",
+} as const;
+
+// Consecutive failures after which a source is quarantined
+export const QUARANTINE_FAILURE_THRESHOLD = 5;
+// How long a quarantined source is skipped before it gets another attempt
+export const QUARANTINE_DURATION_MS = 60 * 60 * 1000;
+// Smoothing factor for the rolling average latency
+const LATENCY_EWMA_ALPHA = 0.2;
+
+// --- Helpers ---
+
+/**
+ * Whether a registry entry should be fetched at the given time.
+ * Quarantined sources become eligible again once their quarantine window has passed.
+ */
+export function isPriceSourceFetchable(source: Doc<"priceSources">, now: number): boolean {
+  if (!source.isEnabled) {
+    return false;
+  }
+  if (source.status === PRICE_SOURCE_STATUS.QUARANTINED) {
+    return (source.quarantinedUntil ?? 0) <= now;
+  }
+  return true;
+}
+
+// --- Registry Queries ---
+
+/**
+ * All registered sources, including disabled and quarantined ones.
+ */
+export const getPriceSources = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<Doc<"priceSources">[]> => {
+    return await ctx.db.query("priceSources").collect();
+  },
+});
+
+/**
+ * Sources that should be fetched in the current aggregation run.
+ */
+export const getFetchablePriceSources = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<Doc<"priceSources">[]> => {
+    const now = Date.now();
+    const sources = await ctx.db
+      .query("priceSources")
+      .withIndex("by_enabled", (q) => q.eq("isEnabled", true))
+      .collect();
+    return sources.filter((source) => isPriceSourceFetchable(source, now));
+  },
+});
+
+/**
+ * Public health view of the registry for ops dashboards.
+ */
+export const getPriceSourceHealth = query({
+  args: {},
+  handler: async (ctx) => {
+    const sources = await ctx.db.query("priceSources").collect();
+    return sources
+      .map((source) => ({
+        name: source.name,
+        url: source.url,
+        weight: source.weight,
+        isEnabled: source.isEnabled,
+        status: source.status,
+        consecutiveFailures: source.consecutiveFailures,
+        totalRequests: source.totalRequests,
+        totalFailures: source.totalFailures,
+        failureRate: source.totalRequests > 0 ? source.totalFailures / source.totalRequests : 0,
+        lastLatencyMs: source.lastLatencyMs,
+        avgLatencyMs: source.avgLatencyMs,
+        lastPrice: source.lastPrice,
+        lastDeviationPercent: source.lastDeviationPercent,
+        lastSuccessAt: source.lastSuccessAt,
+        lastFailureAt: source.lastFailureAt,
+        lastError: source.lastError,
+        quarantinedUntil: source.quarantinedUntil,
+        quarantineCount: source.quarantineCount,
+      }))
+      .sort((a, b) => b.weight - a.weight);
+  },
+});
+
+// --- Registry Mutations (internal) ---
+
+/**
+ * Inserts any DEFAULT_PRICE_SOURCES that are not yet registered.
+ * Safe to call repeatedly; existing entries are never modified.
+ */
+export const seedDefaultPriceSources = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    let inserted = 0;
+    for (const source of DEFAULT_PRICE_SOURCES) {
+      const existing = await ctx.db
+        .query("priceSources")
+        .withIndex("by_name", (q) => q.eq("name", source.name))
+        .first();
+      if (existing) {
+        continue;
+      }
+      await ctx.db.insert("priceSources", {
+        ...source,
+        isEnabled: true,
+        status: PRICE_SOURCE_STATUS.ACTIVE,
+        consecutiveFailures: 0,
+        totalRequests: 0,
+        totalFailures: 0,
+        quarantineCount: 0,
+        createdAt: now,
+        updatedAt: now,
+        updatedBy: "system",
+      });
+      inserted++;
+    }
+    if (inserted > 0) {
+      console.log(`Seeded ${inserted} default price sources into the registry.`);
+    }
+    return { inserted };
+  },
+});
+
+/**
+ * Records the outcome of one fetch round and updates per-source health.
+ * Sources reaching QUARANTINE_FAILURE_THRESHOLD consecutive failures are quarantined;
+ * a single success lifts the quarantine and resets the failure streak.
+ */
+export const recordPriceSourceResults = internalMutation({
+  args: {
+    timestamp: v.number(),
+    medianPrice: v.optional(v.number()),
+    results: v.array(
+      v.object({
+        name: v.string(),
+        success: v.boolean(),
+        latencyMs: v.number(),
+        price: v.optional(v.number()),
+        error: v.optional(v.string()),
+      })
+    ),
+  },
+  handler: async (ctx, { timestamp, medianPrice, results }) => {
+    for (const result of results) {
+      const source = await ctx.db
+        .query("priceSources")
+        .withIndex("by_name", (q) => q.eq("name", result.name))
+        .first();
+      if (!source) {
+        console.warn(`recordPriceSourceResults: source ${result.name} is not registered. Skipping.`);
+        continue;
+      }
+
+      const avgLatencyMs = source.avgLatencyMs === undefined
+        ? result.latencyMs
+        : source.avgLatencyMs + LATENCY_EWMA_ALPHA * (result.latencyMs - source.avgLatencyMs);
+
+      const updates: Partial<Doc<"priceSources">> = {
+        totalRequests: source.totalRequests + 1,
+        lastLatencyMs: result.latencyMs,
+        avgLatencyMs,
+        updatedAt: timestamp,
+      };
+
+      if (result.success && result.price !== undefined) {
+        updates.consecutiveFailures = 0;
+        updates.lastPrice = result.price;
+        updates.lastSuccessAt = timestamp;
+        updates.lastDeviationPercent = medianPrice
+          ? ((result.price - medianPrice) / medianPrice) * 100
+          : undefined;
+        if (source.status === PRICE_SOURCE_STATUS.QUARANTINED) {
+          console.log(`Price source ${source.name} recovered. Lifting quarantine.`);
+          updates.status = PRICE_SOURCE_STATUS.ACTIVE;
+          updates.quarantinedUntil = undefined;
+        }
+      } else {
+        const consecutiveFailures = source.consecutiveFailures + 1;
+        updates.consecutiveFailures = consecutiveFailures;
+        updates.totalFailures = source.totalFailures + 1;
+        updates.lastFailureAt = timestamp;
+        updates.lastError = result.error;
+        if (consecutiveFailures >= QUARANTINE_FAILURE_THRESHOLD) {
+          if (source.status !== PRICE_SOURCE_STATUS.QUARANTINED) {
+            updates.quarantineCount = source.quarantineCount + 1;
+          }
+          updates.status = PRICE_SOURCE_STATUS.QUARANTINED;
+          updates.quarantinedUntil = timestamp + QUARANTINE_DURATION_MS;
+          console.warn(`Price source ${source.name} quarantined after ${consecutiveFailures} consecutive failures until ${new Date(updates.quarantinedUntil).toISOString()}.`);
+        }
+      }
+
+      await ctx.db.patch(source._id, updates);
+    }
+  },
+});
+
+// --- Admin Mutations ---
+
+interface PriceSourceAdminResult {
+  success: boolean;
+  message: string;
+}
+
+/**
+ * Registers a new price source. The parser must be one of PRICE_SOURCE_PARSERS.
+ */
+export const addPriceSource = mutation({
+  args: {
+    name: v.string(),
+    url: v.string(),
+    weight: v.number(),
+    parser: v.string(),
+  },
+  handler: async (ctx, args): Promise<PriceSourceAdminResult> => {
+    const adminPrincipal = await getAdminPrincipal(ctx);
+    if (!adminPrincipal) {
+      return { success: false, message: "Admin access required." };
+    }
+    if (!PRICE_SOURCE_PARSERS[args.parser]) {
+      return { success: false, message: `Unknown parser "${args.parser}". Known parsers: ${Object.keys(PRICE_SOURCE_PARSERS).join(", ")}` };
+    }
+    if (!(args.weight > 0)) {
+      return { success: false, message: "Weight must be greater than 0." };
+    }
+    const existing = await ctx.db
+      .query("priceSources")
+      .withIndex("by_name", (q) => q.eq("name", args.name))
+      .first();
+    if (existing) {
+      return { success: false, message: `Price source ${args.name} is already registered.` };
+    }
+
+    const now = Date.now();
+    await ctx.db.insert("priceSources", {
+      ...args,
+      isEnabled: true,
+      status: PRICE_SOURCE_STATUS.ACTIVE,
+      consecutiveFailures: 0,
+      totalRequests: 0,
+      totalFailures: 0,
+      quarantineCount: 0,
+      createdAt: now,
+      updatedAt: now,
+      updatedBy: adminPrincipal,
+    });
+    console.log(`Admin ${adminPrincipal} added price source ${args.name} (weight ${args.weight}).`);
+    return { success: true, message: `Price source ${args.name} added.` };
+  },
+});
+
+/**
+ * Enables or disables a registered source. Disabled sources are never fetched.
+ */
+export const setPriceSourceEnabled = mutation({
+  args: {
+    name: v.string(),
+    isEnabled: v.boolean(),
+  },
+  handler: async (ctx, args): Promise<PriceSourceAdminResult> => {
+    const adminPrincipal = await getAdminPrincipal(ctx);
+    if (!adminPrincipal) {
+      return { success: false, message: "Admin access required." };
+    }
+    const source = await ctx.db
+      .query("priceSources")
+      .withIndex("by_name", (q) => q.eq("name", args.name))
+      .first();
+    if (!source) {
+      return { success: false, message: `Price source ${args.name} not found.` };
+    }
+
+    await ctx.db.patch(source._id, {
+      isEnabled: args.isEnabled,
+      updatedAt: Date.now(),
+      updatedBy: adminPrincipal,
+    });
+    console.log(`Admin ${adminPrincipal} ${args.isEnabled ? "enabled" : "disabled"} price source ${args.name}.`);
+    return { success: true, message: `Price source ${args.name} ${args.isEnabled ? "enabled" : "disabled"}.` };
+  },
+});
+
+/**
+ * Changes the aggregation weight of a registered source.
+ */
+export const updatePriceSourceWeight = mutation({
+  args: {
+    name: v.string(),
+    weight: v.number(),
+  },
+  handler: async (ctx, args): Promise<PriceSourceAdminResult> => {
+    const adminPrincipal = await getAdminPrincipal(ctx);
+    if (!adminPrincipal) {
+      return { success: false, message: "Admin access required." };
+    }
+    if (!(args.weight > 0)) {
+      return { success: false, message: "Weight must be greater than 0. Use setPriceSourceEnabled to stop using a source." };
+    }
+    const source = await ctx.db
+      .query("priceSources")
+      .withIndex("by_name", (q) => q.eq("name", args.name))
+      .first();
+    if (!source) {
+      return { success: false, message: `Price source ${args.name} not found.` };
+    }
+
+    await ctx.db.patch(source._id, {
+      weight: args.weight,
+      updatedAt: Date.now(),
+      updatedBy: adminPrincipal,
+    });
+    console.log(`Admin ${adminPrincipal} reweighted price source ${args.name}: ${source.weight} -> ${args.weight}.`);
+    return { success: true, message: `Price source ${args.name} weight set to ${args.weight}.` };
+  },
+});
+
+/**
+ * Lifts a quarantine immediately and resets the failure streak,
+ * e.g. after an exchange has confirmed its outage is resolved.
+ */
+export const releasePriceSourceFromQuarantine = mutation({
+  args: {
+    name: v.string(),
+  },
+  handler: async (ctx, args): Promise<PriceSourceAdminResult> => {
+    const adminPrincipal = await getAdminPrincipal(ctx);
+    if (!adminPrincipal) {
+      return { success: false, message: "Admin access required." };
+    }
+    const source = await ctx.db
+      .query("priceSources")
+      .withIndex("by_name", (q) => q.eq("name", args.name))
+      .first();
+    if (!source) {
+      return { success: false, message: `Price source ${args.name} not found.` };
+    }
+    if (source.status !== PRICE_SOURCE_STATUS.QUARANTINED) {
+      return { success: false, message: `Price source ${args.name} is not quarantined.` };
+    }
+
+    await ctx.db.patch(source._id, {
+      status: PRICE_SOURCE_STATUS.ACTIVE,
+      quarantinedUntil: undefined,
+      consecutiveFailures: 0,
+      updatedAt: Date.now(),
+      updatedBy: adminPrincipal,
+    });
+    console.log(`Admin ${adminPrincipal} released price source ${args.name} from quarantine.`);
+    return { success: true, message: `Price source ${args.name} released from quarantine.` };
+  },
+});
@@ -0,0 +1,136 @@
+import { expect, test, describe } from "vitest";
+import { PRICING_ENGINE_VERSION, priceBuyerProtection, priceProviderYield } from "./pricingEngine";
+import { RiskParameters } from "../../types";
+
+// Golden values for PRICING_ENGINE_VERSION 1.0.0.
+// If a change to the engine moves any of these numbers, bump PRICING_ENGINE_VERSION and
+// regenerate the table in the same commit so stored quotes stay attributable.
+
+const riskParams: RiskParameters = {
+  assetType: "BTC",
+  policyType: "PUT",
+  baseRate: 0.01,
+  volatilityMultiplier: 1.5,
+  durationFactor: 0.5,
+  coverageFactor: 1.0,
+  tierMultipliers: { conservative: 0.7, balanced: 1.0, aggressive: 1.3 },
+  liquidityAdjustment: 1.0,
+  marketTrendAdjustment: 1.0,
+  version: 1,
+  lastUpdated: "2025-01-01T00:00:00.000Z",
+  updatedBy: "system",
+  isActive: true,
+};
+
+const CURRENT_PRICE = 100000;
+const VOLATILITY = 0.6;
+const PROTECTION_AMOUNT = 0.5;
+
+// [policyType, protectedValuePercentage, expirationDays, premium, breakEvenPrice, intrinsicValue]
+const BUYER_GOLDEN: Array<[string, number, number, number, number, number]> = [
+  ["PUT", 80, 30, 542.64, 78914.72, 0],
+  ["PUT", 80, 90, 2869.6, 74260.8, 0],
+  ["PUT", 80, 360, 13312.87, 53374.26, 0],
+  ["PUT", 100, 30, 5336.27, 89327.46, 0],
+  ["PUT", 100, 90, 9843.7, 80312.6, 0],
+  ["PUT", 100, 360, 25145.63, 49708.74, 0],
+  ["PUT", 120, 30, 16737.41, 86525.18, 10000],
+  ["PUT", 120, 90, 21195.31, 77609.38, 10000],
+  ["PUT", 120, 360, 39851.92, 40296.16, 10000],
+  ["CALL", 80, 30, 16418.87, 112837.74, 10000],
+  ["CALL", 80, 90, 20222.28, 120444.56, 10000],
+  ["CALL", 80, 360, 37701.53, 155403.06, 10000],
+  ["CALL", 100, 30, 5465.8, 110931.6, 0],
+  ["CALL", 100, 90, 10262.28, 120524.56, 0],
+  ["CALL", 100, 360, 27354.9, 154709.8, 0],
+  ["CALL", 120, 30, 1120.24, 122240.48, 0],
+  ["CALL", 120, 90, 4679.81, 129359.62, 0],
+  ["CALL", 120, 360, 19881.82, 159763.64, 0],
+];
+
+// [selectedTier, selectedPeriodDays, estimatedYield, annualizedYieldPercentage, breakEvenPrice]
+const PROVIDER_GOLDEN: Array<[string, number, number, number, number]> = [
+  ["conservative", 30, 469.7, 11.43, 99060.6],
+  ["conservative", 90, 3142.25, 25.49, 93715.5],
+  ["conservative", 180, 8596.43, 34.86, 82807.14],
+  ["balanced", 30, 671.01, 16.33, 98657.98],
+  ["balanced", 90, 4488.92, 36.41, 91022.16],
+  ["balanced", 180, 12280.61, 49.8, 75438.78],
+  ["aggressive", 30, 872.31, 21.23, 98255.38],
+  ["aggressive", 90, 5835.6, 47.33, 88328.8],
+  ["aggressive", 180, 15964.79, 64.75, 68070.42],
+];
+
+describe("pricingEngine golden values", () => {
+  test("golden table matches the current engine version", () => {
+    expect(PRICING_ENGINE_VERSION).toBe("1.0.0");
+  });
+
+  test.each(BUYER_GOLDEN)(
+    "%s at %i%% strike for %i days",
+    (policyType, protectedValuePercentage, expirationDays, premium, breakEvenPrice, intrinsicValue) => {
+      const result = priceBuyerProtection({
+        currentPrice: CURRENT_PRICE,
+        protectedValuePercentage,
+        protectionAmount: PROTECTION_AMOUNT,
+        expirationDays,
+        policyType,
+        volatility: VOLATILITY,
+        riskParams,
+      });
+
+      expect(result.premium).toBeCloseTo(premium, 2);
+      expect(result.breakEvenPrice).toBeCloseTo(breakEvenPrice, 2);
+      expect(result.factorsBreakdown.intrinsicValue).toBeCloseTo(intrinsicValue, 2);
+      expect(result.pricingEngineVersion).toBe(PRICING_ENGINE_VERSION);
+    }
+  );
+
+  test.each(PROVIDER_GOLDEN)(
+    "%s provider commitment for %i days",
+    (selectedTier, selectedPeriodDays, estimatedYield, annualizedYieldPercentage, breakEvenPrice) => {
+      const result = priceProviderYield({
+        commitmentAmountUSD: 50000,
+        selectedTier,
+        selectedPeriodDays,
+        marketData: { price: CURRENT_PRICE, volatility: VOLATILITY },
+        riskParams,
+      });
+
+      expect(result.yieldComponents.estimatedYield).toBeCloseTo(estimatedYield, 2);
+      expect(result.yieldComponents.annualizedYieldPercentage).toBeCloseTo(annualizedYieldPercentage, 2);
+      expect(result.breakEvenPrice).toBeCloseTo(breakEvenPrice, 2);
+      expect(result.pricingEngineVersion).toBe(PRICING_ENGINE_VERSION);
+    }
+  );
+
+  test("scenarios pay out on the protected side only", () => {
+    const put = priceBuyerProtection({
+      currentPrice: CURRENT_PRICE,
+      protectedValuePercentage: 100,
+      protectionAmount: 1,
+      expirationDays: 30,
+      policyType: "PUT",
+      volatility: VOLATILITY,
+      riskParams,
+      includeScenarios: true,
+    });
+    const call = priceBuyerProtection({
+      currentPrice: CURRENT_PRICE,
+      protectedValuePercentage: 100,
+      protectionAmount: 1,
+      expirationDays: 30,
+      policyType: "CALL",
+      volatility: VOLATILITY,
+      riskParams,
+      includeScenarios: true,
+    });
+
+    const lowest = (s: typeof put.scenarios) => s[0];
+    const highest = (s: typeof put.scenarios) => s[s.length - 1];
+    expect(lowest(put.scenarios).protectionValue).toBeCloseTo(50000, 2);
+    expect(highest(put.scenarios).protectionValue).toBe(0);
+    expect(lowest(call.scenarios).protectionValue).toBe(0);
+    expect(highest(call.scenarios).protectionValue).toBeCloseTo(50000, 2);
+  });
+});
@@ -0,0 +1,531 @@
+/**
+ * Pricing Engine
+ *
+ * The single implementation of buyer premium and provider yield pricing. Every quote path
+ * (premiumCalculation queries, quote finalization, policy creation, the deprecated premium.ts
+ * entry points) prices through this module and records PRICING_ENGINE_VERSION alongside its
+ * result, so a stored quote can always be traced to the formulas that produced it.
+ *
+ * Bump PRICING_ENGINE_VERSION whenever the same inputs would produce a different output, and
+ * update the golden values in pricingEngine.test.ts in the same change.
+ */
+
+import * as math from 'mathjs';
+import {
+  RiskParameters,
+  PremiumComponents,
+  PriceScenario,
+  PremiumGreeks,
+  ProviderYieldComponents,
+  MarketData,
+} from '../../types';
+import { interpolateVolatility, VolatilityTermStructure } from './volatilityTermStructure';
+
+export const PRICING_ENGINE_VERSION = "1.0.0";
+
+// --- Buyer Pricing ---
+
+/**
+ * Calculates premium using Black-Scholes for a PUT or CALL option.
+ * When a volatility term structure is supplied, sigma is interpolated at the policy duration
+ * and the flat `volatility` argument is only used if the structure has no points.
+ */
+export function calculateBlackScholesPremium({
+  currentPrice,  // S
+  strikePrice,   // K
+  volatility: flatVolatility,    // σ
+  duration,      // T (in days)
+  amount,        // Multiplier for final premium
+  riskFreeRate = 0.02,  // r
+  riskParams = null,    // Risk parameters for adjustments
+  volatilityTermStructure = null,
+  policyType = "PUT",
+}: {
+  currentPrice: number;
+  strikePrice: number;
+  volatility: number;
+  duration: number;
+  amount: number;
+  riskFreeRate?: number;
+  riskParams?: RiskParameters | null;
+  volatilityTermStructure?: VolatilityTermStructure | null;
+  policyType?: string;
+}): PremiumComponents {
+  const tenorMatched = volatilityTermStructure ? interpolateVolatility(volatilityTermStructure, duration) : null;
+  const volatility = tenorMatched ? tenorMatched.volatility : flatVolatility;
+  const volatilityEstimator = tenorMatched?.estimator;
+
+  // Validate inputs
+  if (currentPrice <= 0 || strikePrice <= 0 || volatility <= 0 || duration <= 0 || amount <= 0) {
+    console.warn(`Invalid input for Black-Scholes: S=${currentPrice}, K=${strikePrice}, σ=${volatility}, T(days)=${duration}, Amount=${amount}, r=${riskFreeRate}. Returning 0 premium.`);
+    return {
+      premium: 0,
+      intrinsicValue: 0,
+      timeValue: 0,
+      volatilityImpact: 0,
+      volatilityUsed: volatility,
+      volatilityEstimator,
+    };
+  }
+
+  // --- Black-Scholes Implementation --- 
+  const S = currentPrice;
+  const K = strikePrice;
+  const sigma = volatility;
+  const T = duration / 365; // Time to expiration in years
+  const r = riskFreeRate;
+
+  const sqrtT = Number(math.sqrt(T)); // Cast result to number
+
+  // Check for zero volatility or time - edge case leading to division by zero
+  if (sigma * sqrtT === 0) {
+    const intrinsicValue = calculateIntrinsicValuePerUnit(policyType, S, K);
+    const discountedExp = Number(math.exp(-r * T));
+    const discountedValue = intrinsicValue * discountedExp; 
+    console.warn(`Edge case: sigma*sqrt(T) is zero. Returning discounted intrinsic value: ${discountedValue}`);
+    const finalPremium = discountedValue * amount;
+    
+    return {
+      premium: Number(math.max(0, Number(math.round(finalPremium * 100)) / 100)),
+      intrinsicValue: intrinsicValue * amount, // Scale intrinsic value by amount here
+      timeValue: 0,
+      volatilityImpact: 0,
+      volatilityUsed: volatility,
+      volatilityEstimator,
+    };
+  }
+  
+  const logSK = Number(math.log(S / K));
+  const powSigma = Number(math.pow(sigma, 2));
+  const d1_numerator = logSK + (r + 0.5 * powSigma) * T;
+  const d1_denominator = sigma * sqrtT;
+  const d1 = d1_numerator / d1_denominator;
+  const d2 = d1 - sigma * sqrtT;
+
+  const expRT = Number(math.exp(-r * T));
+  let optionPremiumPerUnit: number;
+  if (policyType === "CALL") {
+    // CALL: S * N(d1) - K * e^(-rT) * N(d2)
+    const N_d1: number = Number(math.erf(d1 / Number(math.sqrt(2)))) / 2 + 0.5;
+    const N_d2: number = Number(math.erf(d2 / Number(math.sqrt(2)))) / 2 + 0.5;
+    optionPremiumPerUnit = S * N_d1 - K * expRT * N_d2;
+  } else {
+    // PUT: K * e^(-rT) * N(-d2) - S * N(-d1)
+    const erf_neg_d1 = Number(math.erf((-d1) / Number(math.sqrt(2))));
+    const erf_neg_d2 = Number(math.erf((-d2) / Number(math.sqrt(2))));
+    const N_neg_d1: number = erf_neg_d1 / 2 + 0.5;
+    const N_neg_d2: number = erf_neg_d2 / 2 + 0.5;
+    optionPremiumPerUnit = K * expRT * N_neg_d2 - S * N_neg_d1;
+  }
+  
+  const intrinsicValuePerUnit = calculateIntrinsicValuePerUnit(policyType, S, K);
+  const timeValueWithVol = optionPremiumPerUnit - intrinsicValuePerUnit;
+  
+  const timeValuePerUnit = timeValueWithVol * 0.3; // Simplified split
+  const volatilityImpactPerUnit = timeValueWithVol * 0.7;
+  
+  let adjustedPremiumPerUnit = optionPremiumPerUnit;
+  if (riskParams) {
+    adjustedPremiumPerUnit = optionPremiumPerUnit * 
+      (1 + riskParams.baseRate) * 
+      riskParams.volatilityMultiplier * 
+      (1 + (duration / 365) * riskParams.durationFactor);
+  }
+  
+  const totalPremium: number = adjustedPremiumPerUnit * amount;
+
+  if (isNaN(totalPremium) || !isFinite(totalPremium)) {
+    console.error(`Black-Scholes calculation resulted in NaN or Infinity. Inputs: S=${S}, K=${K}, sigma=${sigma}, T=${T}, r=${r}. Returning 0.`);
+    return {
+      premium: 0,
+      intrinsicValue: 0,
+      timeValue: 0,
+      volatilityImpact: 0,
+      volatilityUsed: volatility,
+      volatilityEstimator,
+    };
+  }
+
+  const roundedPremium = Number(math.round(totalPremium * 100)) / 100;
+  return {
+    premium: Number(math.max(0, roundedPremium)),
+    // Ensure components are also scaled by amount
+    intrinsicValue: Number(math.round(intrinsicValuePerUnit * amount * 100)) / 100,
+    timeValue: Number(math.round(timeValuePerUnit * amount * 100)) / 100,
+    volatilityImpact: Number(math.round(volatilityImpactPerUnit * amount * 100)) / 100,
+    volatilityUsed: volatility,
+    volatilityEstimator,
+    greeks: calculateOptionGreeks({ currentPrice, strikePrice, volatility, duration, amount, riskFreeRate, policyType }),
+  };
+}
+
+/**
+ * Exercise value of one unit: max(0, K - S) for a PUT, max(0, S - K) for a CALL.
+ * Matches calculate-settlement-amount in math-library.clar.
+ */
+export function calculateIntrinsicValuePerUnit(policyType: string, price: number, strikePrice: number): number {
+  return policyType === "CALL"
+    ? Math.max(0, price - strikePrice)
+    : Math.max(0, strikePrice - price);
+}
+
+const ZERO_GREEKS: PremiumGreeks = { delta: 0, gamma: 0, vega: 0, theta: 0, rho: 0 };
+
+/**
+ * Black-Scholes Greeks of a long PUT or CALL position of `amount` units.
+ * These are model sensitivities of the option itself, before the risk-parameter premium loading.
+ */
+export function calculateOptionGreeks({
+  currentPrice,  // S
+  strikePrice,   // K
+  volatility,    // σ
+  duration,      // T (in days)
+  amount,
+  riskFreeRate = 0.02,
+  policyType = "PUT",
+}: {
+  currentPrice: number;
+  strikePrice: number;
+  volatility: number;
+  duration: number;
+  amount: number;
+  riskFreeRate?: number;
+  policyType?: string;
+}): PremiumGreeks {
+  if (currentPrice <= 0 || strikePrice <= 0 || volatility <= 0 || duration <= 0 || amount <= 0) {
+    return { ...ZERO_GREEKS };
+  }
+
+  const S = currentPrice;
+  const K = strikePrice;
+  const sigma = volatility;
+  const T = duration / 365;
+  const r = riskFreeRate;
+  const sqrtT = Math.sqrt(T);
+
+  const d1 = (Math.log(S / K) + (r + 0.5 * sigma * sigma) * T) / (sigma * sqrtT);
+  const d2 = d1 - sigma * sqrtT;
+  const pdfD1 = Math.exp(-0.5 * d1 * d1) / Math.sqrt(2 * Math.PI);
+  const cdf = (x: number) => (1 + Number(math.erf(x / Math.SQRT2))) / 2;
+  const discountedStrike = K * Math.exp(-r * T);
+
+  const isCall = policyType === "CALL";
+
+  // Gamma and vega are the same for both sides
+  const delta = isCall ? cdf(d1) : cdf(d1) - 1;
+  const gamma = pdfD1 / (S * sigma * sqrtT);
+  const vega = (S * pdfD1 * sqrtT) / 100;
+  const theta = isCall
+    ? (-(S * pdfD1 * sigma) / (2 * sqrtT) - r * discountedStrike * cdf(d2)) / 365
+    : (-(S * pdfD1 * sigma) / (2 * sqrtT) + r * discountedStrike * cdf(-d2)) / 365;
+  const rho = isCall
+    ? (T * discountedStrike * cdf(d2)) / 100
+    : (-T * discountedStrike * cdf(-d2)) / 100;
+
+  const greeks = {
+    delta: delta * amount,
+    gamma: gamma * amount,
+    vega: vega * amount,
+    theta: theta * amount,
+    rho: rho * amount,
+  };
+  if (Object.values(greeks).some((g) => !isFinite(g))) {
+    console.error(`Greeks calculation produced a non-finite value. Inputs: S=${S}, K=${K}, sigma=${sigma}, T=${T}, r=${r}.`);
+    return { ...ZERO_GREEKS };
+  }
+  return greeks;
+}
+
+// --- Provider Pricing ---
+
+/**
+ * Calculate provider yield based on tier, period, and volatility
+ */
+export function calculateProviderYield({
+  commitmentAmountUSD,
+  selectedTier,
+  selectedPeriod,
+  volatility,
+  riskParams,
+  marketConditions,
+}: {
+  commitmentAmountUSD: number;
+  selectedTier: string;
+  selectedPeriod: number; // in days
+  volatility: number;
+  riskParams: RiskParameters;
+  marketConditions: {
+    btcPrice: number;
+    volatility: number;
+    liquidity: number;
+  };
+}): ProviderYieldComponents {
+  // Validate inputs
+  if (commitmentAmountUSD <= 0 || selectedPeriod <= 0 || volatility <= 0) {
+    console.warn(`Invalid input for Yield Calculation: Amount=${commitmentAmountUSD}, Period=${selectedPeriod}, σ=${volatility}. Returning 0 yield.`);
+    return {
+      estimatedYield: 0,
+      annualizedYieldPercentage: 0,
+      baseYield: 0,
+      tierAdjustment: 0,
+      durationAdjustment: 0,
+      marketConditionAdjustment: 0,
+      riskLevel: 0,
+    };
+  }
+
+  const tierMultiplier = selectedTier === "conservative" 
+    ? riskParams?.tierMultipliers?.conservative ?? 0.7
+    : selectedTier === "balanced" 
+    ? riskParams?.tierMultipliers?.balanced ?? 1.0
+    : selectedTier === "aggressive" 
+    ? riskParams?.tierMultipliers?.aggressive ?? 1.3
+    : 1.0;
+
+  const baseAnnualYieldRate = volatility * 0.8; 
+  const durationFactor = 1 - Math.exp(-selectedPeriod / 90); 
+  const marketFactor = 1 + (marketConditions.volatility - 0.2) * 0.5;
+  
+  const baseYield = baseAnnualYieldRate * (selectedPeriod / 365) * commitmentAmountUSD;
+  const tierAdjustment = baseYield * (tierMultiplier - 1);
+  const durationAdjustment = baseYield * (durationFactor - 0.8);
+  const marketConditionAdjustment = baseYield * (marketFactor - 1);
+  
+  const annualizedYieldRate = baseAnnualYieldRate * tierMultiplier * durationFactor * marketFactor;
+  const estimatedYield = annualizedYieldRate * (selectedPeriod / 365) * commitmentAmountUSD;
+  
+  const riskLevel = Math.min(10, Math.round(
+    1 + 
+    (selectedTier === "conservative" ? 1 : selectedTier === "balanced" ? 3 : 5) + 
+    (Math.min(3, selectedPeriod / 120)) + 
+    (Math.min(2, volatility * 10))
+  ));
+  
+  const estimatedBTCAcquisitionPrice = marketConditions.btcPrice * (1 - volatility * tierMultiplier * 0.5);
+  
+  return {
+    estimatedYield: Number(math.round(estimatedYield * 100)) / 100,
+    annualizedYieldPercentage: Number(math.round(annualizedYieldRate * 10000)) / 100, 
+    estimatedBTCAcquisitionPrice: Number(math.round(estimatedBTCAcquisitionPrice * 100)) / 100,
+    riskLevel,
+    baseYield: Number(math.round(baseYield * 100)) / 100,
+    tierAdjustment: Number(math.round(tierAdjustment * 100)) / 100,
+    durationAdjustment: Number(math.round(durationAdjustment * 100)) / 100,
+    marketConditionAdjustment: Number(math.round(marketConditionAdjustment * 100)) / 100,
+    capitalEfficiency: tierMultiplier * 0.8, 
+  };
+}
+
+// --- Scenarios and Break-even ---
+
+/**
+ * Generate price scenarios for visualization
+ */
+export function generatePriceScenarios({
+  currentPrice,
+  strikePrice,
+  premium,
+  amount,
+  policyType = "PUT",
+}: {
+  currentPrice: number;
+  strikePrice: number;
+  premium: number;
+  amount: number;
+  policyType?: string;
+}): PriceScenario[] {
+  const scenarios: PriceScenario[] = [];
+  const priceRange = 0.5;
+  
+  for (let i = -10; i <= 10; i++) {
+    const priceChange = i * (priceRange / 10);
+    const scenarioPrice = currentPrice * (1 + priceChange);
+    const protectionValue = calculateIntrinsicValuePerUnit(policyType, scenarioPrice, strikePrice) * amount;
+    const netValue = protectionValue - premium;
+    
+    scenarios.push({
+      price: Number(math.round(scenarioPrice * 100)) / 100,
+      protectionValue: Number(math.round(protectionValue * 100)) / 100,
+      netValue: Number(math.round(netValue * 100)) / 100,
+    });
+  }
+  return scenarios;
+}
+
+/**
+ * Calculate break-even price: strike minus premium per unit for a PUT, plus for a CALL
+ */
+export function calculateBreakEvenPrice({
+  strikePrice,
+  premium,
+  amount,
+  policyType = "PUT",
+}: {
+  strikePrice: number;
+  premium: number;
+  amount: number;
+  policyType?: string;
+}): number {
+  const premiumPerUnit = premium / amount;
+  const breakEven = policyType === "CALL" ? strikePrice + premiumPerUnit : strikePrice - premiumPerUnit;
+  return Number(math.round(breakEven * 100)) / 100;
+}
+
+/**
+ * Calculate provider's approximate break-even BTC price
+ */
+export function calculateProviderBreakEvenPrice({
+  commitmentAmountUSD,
+  estimatedYieldUSD,
+  currentBtcPrice,
+}: {
+  commitmentAmountUSD: number;
+  estimatedYieldUSD: number;
+  currentBtcPrice: number;
+}): number | undefined {
+  if (currentBtcPrice <= 0 || commitmentAmountUSD <= 0) {
+    return undefined;
+  }
+  const bufferPercentage = estimatedYieldUSD / commitmentAmountUSD;
+  const breakEvenPrice = currentBtcPrice * (1 - bufferPercentage);
+  return Math.max(0, breakEvenPrice);
+}
+
+
+// --- Quote Composition ---
+
+export interface BuyerPricingInputs {
+  currentPrice: number;
+  protectedValuePercentage: number;
+  protectionAmount: number;
+  expirationDays: number;
+  policyType: string;
+  volatility: number; // Flat sigma, used when no term structure is given or it has no points
+  volatilityTermStructure?: VolatilityTermStructure | null;
+  riskParams?: RiskParameters | null;
+  includeScenarios?: boolean;
+}
+
+export interface BuyerPricingResult {
+  protectedValueUSD: number;
+  premium: number;
+  premiumPercentage: number; // Percent of protected value
+  annualizedPremium: number; // Percent
+  breakEvenPrice: number;
+  factorsBreakdown: {
+    intrinsicValue: number;
+    timeValue: number;
+    volatilityImpact: number;
+  };
+  greeks?: PremiumGreeks;
+  scenarios: PriceScenario[];
+  volatilityUsed: number;
+  volatilityEstimator?: string;
+  pricingEngineVersion: string;
+}
+
+/**
+ * Prices a buyer protection policy end to end: premium, break-even, percentages and scenarios.
+ */
+export function priceBuyerProtection(inputs: BuyerPricingInputs): BuyerPricingResult {
+  const protectedValueUSD = (inputs.currentPrice * inputs.protectedValuePercentage) / 100;
+
+  const premiumResult = calculateBlackScholesPremium({
+    currentPrice: inputs.currentPrice,
+    strikePrice: protectedValueUSD,
+    volatility: inputs.volatility,
+    volatilityTermStructure: inputs.volatilityTermStructure ?? null,
+    duration: inputs.expirationDays,
+    amount: inputs.protectionAmount,
+    riskParams: inputs.riskParams ?? null,
+    policyType: inputs.policyType,
+  });
+
+  const breakEvenPrice = inputs.protectionAmount > 0
+    ? calculateBreakEvenPrice({
+        strikePrice: protectedValueUSD,
+        premium: premiumResult.premium,
+        amount: inputs.protectionAmount,
+        policyType: inputs.policyType,
+      })
+    : protectedValueUSD;
+
+  const premiumPercentage = (protectedValueUSD * inputs.protectionAmount) > 0
+    ? (premiumResult.premium / (protectedValueUSD * inputs.protectionAmount)) * 100
+    : 0;
+  const annualizedPremium = inputs.expirationDays > 0
+    ? premiumPercentage * (365 / inputs.expirationDays)
+    : 0;
+
+  return {
+    protectedValueUSD,
+    premium: premiumResult.premium,
+    premiumPercentage: Number(math.round(premiumPercentage * 100)) / 100,
+    annualizedPremium: Number(math.round(annualizedPremium * 100)) / 100,
+    breakEvenPrice,
+    factorsBreakdown: {
+      intrinsicValue: premiumResult.intrinsicValue,
+      timeValue: premiumResult.timeValue,
+      volatilityImpact: premiumResult.volatilityImpact,
+    },
+    greeks: premiumResult.greeks,
+    scenarios: inputs.includeScenarios
+      ? generatePriceScenarios({
+          currentPrice: inputs.currentPrice,
+          strikePrice: protectedValueUSD,
+          premium: premiumResult.premium,
+          amount: inputs.protectionAmount,
+          policyType: inputs.policyType,
+        })
+      : [],
+    volatilityUsed: premiumResult.volatilityUsed ?? inputs.volatility,
+    volatilityEstimator: premiumResult.volatilityEstimator,
+    pricingEngineVersion: PRICING_ENGINE_VERSION,
+  };
+}
+
+export interface ProviderPricingResult {
+  yieldComponents: ProviderYieldComponents;
+  breakEvenPrice: number | undefined;
+  pricingEngineVersion: string;
+}
+
+/**
+ * Prices a provider commitment: yield components and the provider's break-even BTC price.
+ */
+export function priceProviderYield({
+  commitmentAmountUSD,
+  selectedTier,
+  selectedPeriodDays,
+  marketData,
+  riskParams,
+}: {
+  commitmentAmountUSD: number;
+  selectedTier: string;
+  selectedPeriodDays: number;
+  marketData: Pick<MarketData, "price" | "volatility">;
+  riskParams: RiskParameters;
+}): ProviderPricingResult {
+  const yieldComponents = calculateProviderYield({
+    commitmentAmountUSD,
+    selectedTier,
+    selectedPeriod: selectedPeriodDays,
+    volatility: marketData.volatility,
+    riskParams,
+    marketConditions: {
+      btcPrice: marketData.price,
+      volatility: marketData.volatility,
+      liquidity: riskParams.liquidityAdjustment ?? 0,
+    },
+  });
+
+  return {
+    yieldComponents,
+    breakEvenPrice: calculateProviderBreakEvenPrice({
+      commitmentAmountUSD,
+      estimatedYieldUSD: yieldComponents.estimatedYield,
+      currentBtcPrice: marketData.price,
+    }),
+    pricingEngineVersion: PRICING_ENGINE_VERSION,
+  };
+}
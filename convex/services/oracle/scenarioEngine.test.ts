@@ -0,0 +1,119 @@
+import { expect, test, describe } from "vitest";
+import {
+  MONTE_CARLO_DEFAULT_PATHS,
+  MONTE_CARLO_MAX_PATHS,
+  MONTE_CARLO_MAX_PATH_DAYS,
+  MONTE_CARLO_MAX_PERCENTILES,
+  SCENARIO_MAX_HORIZON_DAYS,
+  ScenarioPolicyTerms,
+  buildHistoricalReplayPath,
+  buildShockPath,
+  clampHorizonDays,
+  clampMonteCarloPaths,
+  normalizeMonteCarloPercentiles,
+  simulateMonteCarloPercentiles,
+} from "./scenarioEngine";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const putTerms: ScenarioPolicyTerms = { strikePrice: 90, protectionAmount: 1, premium: 2, policyType: "PUT" };
+
+describe("buildShockPath", () => {
+  test("compounds each leg evenly and holds the last price to the horizon", () => {
+    const path = buildShockPath(100, [{ percentChange: -19, days: 2 }, { percentChange: 10, days: 1 }], 5);
+    expect(path).toHaveLength(6);
+    expect(path[1]).toBeCloseTo(90);
+    expect(path[2]).toBeCloseTo(81);
+    expect(path[3]).toBeCloseTo(89.1);
+    expect(path[5]).toBeCloseTo(89.1);
+  });
+
+  test("stops at the horizon when the legs run longer", () => {
+    const path = buildShockPath(100, [{ percentChange: -50, days: 10 }], 3);
+    expect(path).toHaveLength(4);
+    expect(path[3]).toBeGreaterThan(50);
+  });
+});
+
+describe("buildHistoricalReplayPath", () => {
+  const start = Date.UTC(2020, 2, 1);
+
+  test("replays relative moves from today's price and carries gaps forward", () => {
+    const path = buildHistoricalReplayPath(
+      200,
+      [
+        { timestamp: start, price: 10 },
+        { timestamp: start + 1 * DAY_MS, price: 5 },
+        { timestamp: start + 3 * DAY_MS, price: 8 },
+      ],
+      start,
+      4
+    );
+    expect(path).toEqual([200, 100, 100, 160, 160]);
+  });
+
+  test("returns no path without records", () => {
+    expect(buildHistoricalReplayPath(200, [], start, 4)).toEqual([]);
+  });
+});
+
+describe("simulateMonteCarloPercentiles", () => {
+  const run = (seed: number) =>
+    simulateMonteCarloPercentiles({
+      currentPrice: 100,
+      volatility: 0.8,
+      horizonDays: 30,
+      paths: 500,
+      percentiles: [5, 50, 95],
+      seed,
+      terms: putTerms,
+    });
+
+  test("is deterministic for a seed", () => {
+    expect(run(7)).toEqual(run(7));
+    expect(run(7).bands[1].path).not.toEqual(run(8).bands[1].path);
+  });
+
+  test("orders the percentile bands and reports a payout probability", () => {
+    const { bands, payoutProbability } = run(42);
+    expect(bands.map((band) => band.percentile)).toEqual([5, 50, 95]);
+    for (const band of bands) {
+      expect(band.path).toHaveLength(31);
+      expect(band.path[0]).toBe(100);
+    }
+    expect(bands[0].path[30]).toBeLessThan(bands[1].path[30]);
+    expect(bands[1].path[30]).toBeLessThan(bands[2].path[30]);
+    expect(payoutProbability).toBeGreaterThan(0);
+    expect(payoutProbability).toBeLessThan(0.5);
+  });
+});
+
+describe("scenario limits", () => {
+  test("clamps the horizon to whole days within the supported range", () => {
+    expect(clampHorizonDays(0.2)).toBe(1);
+    expect(clampHorizonDays(29.6)).toBe(30);
+    expect(clampHorizonDays(10_000)).toBe(SCENARIO_MAX_HORIZON_DAYS);
+    expect(() => clampHorizonDays(Number.NaN)).toThrow();
+  });
+
+  test("clamps the Monte Carlo path count", () => {
+    expect(clampMonteCarloPaths(0, 30)).toBe(1);
+    expect(clampMonteCarloPaths(1_000_000, 30)).toBe(MONTE_CARLO_MAX_PATHS);
+    expect(clampMonteCarloPaths(Number.POSITIVE_INFINITY, 30)).toBe(MONTE_CARLO_DEFAULT_PATHS);
+  });
+
+  test("caps paths so long horizons stay within the simulated step budget", () => {
+    const paths = clampMonteCarloPaths(MONTE_CARLO_MAX_PATHS, SCENARIO_MAX_HORIZON_DAYS);
+    expect(paths).toBe(Math.floor(MONTE_CARLO_MAX_PATH_DAYS / SCENARIO_MAX_HORIZON_DAYS));
+    expect(paths * SCENARIO_MAX_HORIZON_DAYS).toBeLessThanOrEqual(MONTE_CARLO_MAX_PATH_DAYS);
+  });
+
+  test("sorts percentiles, adds the median and rejects values outside 0-100", () => {
+    expect(normalizeMonteCarloPercentiles([95, 5, 5])).toEqual([5, 50, 95]);
+    expect(normalizeMonteCarloPercentiles([0, 100])).toEqual([0, 50, 100]);
+    expect(() => normalizeMonteCarloPercentiles([-1])).toThrow();
+    expect(() => normalizeMonteCarloPercentiles([101])).toThrow();
+    expect(() => normalizeMonteCarloPercentiles([Number.NaN])).toThrow();
+    expect(() => normalizeMonteCarloPercentiles(Array.from({ length: MONTE_CARLO_MAX_PERCENTILES + 1 }, (_, i) => i))).toThrow();
+  });
+});
@@ -0,0 +1,418 @@
+/**
+ * Scenario Engine
+ *
+ * Projects a protection policy along price paths instead of a single expiry price:
+ *   - shock: user-defined legs, e.g. -30% over 7 days then +10% over 14 days
+ *   - historical: the daily returns of a past window from historicalPrices, replayed from today's price
+ *   - monte_carlo: seeded GBM paths summarised into percentile bands, run in an action because a
+ *     simulation can take longer than a query should
+ *
+ * Path math is pure and deterministic (Monte Carlo uses a seeded PRNG) so the same request always
+ * renders the same chart.
+ */
+
+import { v } from "convex/values";
+import { action, query } from "../../_generated/server";
+import { calculateIntrinsicValuePerUnit } from "./pricingEngine";
+import { ScenarioOutcome, ScenarioPathPoint, ScenarioPercentileBand } from "../../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SCENARIO_KIND = {
+  SHOCK: "shock",
+  HISTORICAL: "historical",
+  MONTE_CARLO: "monte_carlo",
+} as const;
+
+// Longest horizon a scenario projects, in days; longer expirations are charted to this day
+export const SCENARIO_MAX_HORIZON_DAYS = 365;
+
+export const MONTE_CARLO_DEFAULT_PATHS = 1000;
+export const MONTE_CARLO_MAX_PATHS = 5000;
+// Simulated price steps per run (paths × horizon days); long horizons get fewer paths
+export const MONTE_CARLO_MAX_PATH_DAYS = 500_000;
+export const MONTE_CARLO_MAX_PERCENTILES = 20;
+export const MONTE_CARLO_DEFAULT_PERCENTILES = [5, 25, 50, 75, 95];
+export const MONTE_CARLO_DEFAULT_SEED = 42;
+
+// Most historicalPrices records one replay reads; a full horizon of hourly records fits
+export const HISTORICAL_REPLAY_MAX_RECORDS = 10_000;
+
+/**
+ * Named replay windows offered in the UI. Any other window can be replayed by timestamps.
+ */
+export const HISTORICAL_REPLAY_WINDOWS = [
+  { id: "covid_crash_2020", label: "March 2020 COVID crash", start: "2020-03-01", end: "2020-03-31" },
+  { id: "china_mining_ban_2021", label: "May 2021 China mining ban", start: "2021-05-08", end: "2021-06-22" },
+  { id: "ftx_collapse_2022", label: "November 2022 FTX collapse", start: "2022-11-01", end: "2022-11-30" },
+  { id: "q4_rally_2020", label: "Q4 2020 rally", start: "2020-10-01", end: "2020-12-31" },
+  { id: "etf_rally_2024", label: "Q1 2024 ETF rally", start: "2024-01-10", end: "2024-03-14" },
+];
+
+export interface ScenarioPolicyTerms {
+  strikePrice: number;
+  protectionAmount: number;
+  premium: number;
+  policyType: string;
+}
+
+export interface PriceShock {
+  percentChange: number; // -30 for a 30% drop
+  days: number; // Days the move takes
+}
+
+// --- Path construction ---
+
+/**
+ * Whole-day horizon for an expiration, between 1 and SCENARIO_MAX_HORIZON_DAYS.
+ */
+export function clampHorizonDays(expirationDays: number): number {
+  if (!Number.isFinite(expirationDays)) {
+    throw new Error("expirationDays must be a finite number.");
+  }
+  return Math.min(Math.max(1, Math.round(expirationDays)), SCENARIO_MAX_HORIZON_DAYS);
+}
+
+/**
+ * Monte Carlo path count between 1 and MONTE_CARLO_MAX_PATHS, further capped so paths × horizon
+ * stays within MONTE_CARLO_MAX_PATH_DAYS; the default when unset or not finite.
+ */
+export function clampMonteCarloPaths(paths: number | undefined, horizonDays: number): number {
+  const maxPaths = Math.max(1, Math.min(MONTE_CARLO_MAX_PATHS, Math.floor(MONTE_CARLO_MAX_PATH_DAYS / horizonDays)));
+  const requested = paths === undefined || !Number.isFinite(paths) ? MONTE_CARLO_DEFAULT_PATHS : Math.round(paths);
+  return Math.min(Math.max(1, requested), maxPaths);
+}
+
+/**
+ * Sorted, de-duplicated percentiles including the median, which drives the headline path.
+ * @throws {Error} If a percentile is outside 0-100 or there are more than MONTE_CARLO_MAX_PERCENTILES
+ */
+export function normalizeMonteCarloPercentiles(percentiles: number[] = MONTE_CARLO_DEFAULT_PERCENTILES): number[] {
+  for (const percentile of percentiles) {
+    if (!Number.isFinite(percentile) || percentile < 0 || percentile > 100) {
+      throw new Error(`Percentiles must be between 0 and 100, got ${percentile}.`);
+    }
+  }
+  const normalized = [...new Set([...percentiles, 50])].sort((a, b) => a - b);
+  if (normalized.length > MONTE_CARLO_MAX_PERCENTILES) {
+    throw new Error(`At most ${MONTE_CARLO_MAX_PERCENTILES} percentiles can be requested.`);
+  }
+  return normalized;
+}
+
+/**
+ * Daily price path for sequential shock legs. Each leg compounds evenly over its days and the
+ * price holds flat after the last leg until the horizon.
+ */
+export function buildShockPath(currentPrice: number, shocks: PriceShock[], horizonDays: number): number[] {
+  const path = [currentPrice];
+  let price = currentPrice;
+  for (const shock of shocks) {
+    const legDays = Math.max(1, Math.round(shock.days));
+    const dailyFactor = Math.pow(Math.max(0, 1 + shock.percentChange / 100), 1 / legDays);
+    for (let d = 0; d < legDays && path.length <= horizonDays; d++) {
+      price *= dailyFactor;
+      path.push(price);
+    }
+  }
+  while (path.length <= horizonDays) {
+    path.push(price);
+  }
+  return path;
+}
+
+/**
+ * Replays a historical window's daily moves from today's price. Days without a record carry the
+ * previous close forward; a window shorter than the horizon holds its last price.
+ */
+export function buildHistoricalReplayPath(
+  currentPrice: number,
+  records: Array<{ timestamp: number; price: number }>,
+  startTimestamp: number,
+  horizonDays: number
+): number[] {
+  if (records.length === 0) {
+    return [];
+  }
+  const closes: Array<number | undefined> = [];
+  for (const record of records) {
+    const day = Math.floor((record.timestamp - startTimestamp) / DAY_MS);
+    if (day >= 0) {
+      closes[day] = record.price; // Records are ascending, so the last one per day wins
+    }
+  }
+
+  const basePrice = closes.find((c) => c !== undefined) ?? records[0].price;
+  const path: number[] = [];
+  let lastClose = basePrice;
+  for (let day = 0; day <= horizonDays; day++) {
+    const close = closes[day];
+    if (close !== undefined) {
+      lastClose = close;
+    }
+    path.push(currentPrice * (lastClose / basePrice));
+  }
+  return path;
+}
+
+// Mulberry32, small and good enough for chart-level Monte Carlo
+function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function percentileOf(sorted: number[], percentile: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (percentile / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Simulates driftless GBM paths and returns, per requested percentile, the price at that
+ * percentile on every day, plus the share of paths whose final price is in the money.
+ */
+export function simulateMonteCarloPercentiles({
+  currentPrice,
+  volatility,
+  horizonDays,
+  paths = MONTE_CARLO_DEFAULT_PATHS,
+  percentiles = MONTE_CARLO_DEFAULT_PERCENTILES,
+  seed = MONTE_CARLO_DEFAULT_SEED,
+  terms,
+}: {
+  currentPrice: number;
+  volatility: number;
+  horizonDays: number;
+  paths?: number;
+  percentiles?: number[];
+  seed?: number;
+  terms: ScenarioPolicyTerms;
+}): { bands: Array<{ percentile: number; path: number[] }>; payoutProbability: number } {
+  const pathCount = clampMonteCarloPaths(paths, horizonDays);
+  const random = createSeededRandom(seed);
+  const dt = 1 / 365;
+  const drift = -0.5 * volatility * volatility * dt;
+  const diffusion = volatility * Math.sqrt(dt);
+
+  const prices = new Array<number>(pathCount).fill(currentPrice);
+  const bands = percentiles.map((percentile) => ({ percentile, path: [currentPrice] }));
+
+  for (let day = 1; day <= horizonDays; day++) {
+    for (let i = 0; i < pathCount; i++) {
+      // Box-Muller; 1 - random() keeps the log argument away from zero
+      const z = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+      prices[i] *= Math.exp(drift + diffusion * z);
+    }
+    const sorted = [...prices].sort((a, b) => a - b);
+    for (const band of bands) {
+      band.path.push(percentileOf(sorted, band.percentile));
+    }
+  }
+
+  const inTheMoney = prices.filter(
+    (price) => calculateIntrinsicValuePerUnit(terms.policyType, price, terms.strikePrice) > 0
+  ).length;
+  return { bands, payoutProbability: inTheMoney / pathCount };
+}
+
+// --- Valuation ---
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function valueScenarioPoint(day: number, price: number, terms: ScenarioPolicyTerms): ScenarioPathPoint {
+  const protectionValue =
+    calculateIntrinsicValuePerUnit(terms.policyType, price, terms.strikePrice) * terms.protectionAmount;
+  return {
+    day,
+    price: round2(price),
+    protectionValue: round2(protectionValue),
+    netValue: round2(protectionValue - terms.premium),
+  };
+}
+
+export function valueScenarioPath(path: number[], terms: ScenarioPolicyTerms): ScenarioPathPoint[] {
+  return path.map((price, day) => valueScenarioPoint(day, price, terms));
+}
+
+// --- Queries and actions ---
+
+const policyTermsArgs = {
+  currentPrice: v.number(),
+  strikePrice: v.number(),
+  protectionAmount: v.number(),
+  premium: v.number(),
+  policyType: v.string(),
+  expirationDays: v.number(),
+};
+
+/**
+ * Lists the named historical replay windows and whether historicalPrices covers them.
+ */
+export const getHistoricalReplayWindows = query({
+  args: {},
+  handler: async (ctx) => {
+    return await Promise.all(
+      HISTORICAL_REPLAY_WINDOWS.map(async (window) => {
+        const startTimestamp = Date.parse(window.start);
+        const endTimestamp = Date.parse(window.end) + DAY_MS - 1;
+        const firstRecord = await ctx.db
+          .query("historicalPrices")
+          .withIndex("by_timestamp", (q) => q.gte("timestamp", startTimestamp).lte("timestamp", endTimestamp))
+          .first();
+        return {
+          id: window.id,
+          label: window.label,
+          startTimestamp,
+          endTimestamp,
+          days: Math.round((endTimestamp - startTimestamp) / DAY_MS),
+          hasData: firstRecord !== null,
+        };
+      })
+    );
+  },
+});
+
+/**
+ * Projects a policy through a shock or historical scenario. Returns null when a historical window
+ * has no data. Monte Carlo scenarios run through runMonteCarloScenario.
+ */
+export const getProtectionScenario = query({
+  args: {
+    ...policyTermsArgs,
+    scenario: v.object({
+      kind: v.string(), // SCENARIO_KIND value
+      // shock
+      shocks: v.optional(v.array(v.object({ percentChange: v.number(), days: v.number() }))),
+      // historical: a named window, or explicit timestamps
+      windowId: v.optional(v.string()),
+      startTimestamp: v.optional(v.number()),
+      endTimestamp: v.optional(v.number()),
+    }),
+  },
+  handler: async (ctx, args): Promise<ScenarioOutcome | null> => {
+    const terms: ScenarioPolicyTerms = {
+      strikePrice: args.strikePrice,
+      protectionAmount: args.protectionAmount,
+      premium: args.premium,
+      policyType: args.policyType,
+    };
+    const horizonDays = clampHorizonDays(args.expirationDays);
+    const { scenario } = args;
+
+    if (scenario.kind === SCENARIO_KIND.SHOCK) {
+      const shocks = scenario.shocks ?? [];
+      if (shocks.length === 0) {
+        throw new Error("A shock scenario needs at least one shock.");
+      }
+      const path = valueScenarioPath(buildShockPath(args.currentPrice, shocks, horizonDays), terms);
+      return {
+        kind: scenario.kind,
+        label: shocks.map((s) => `${s.percentChange > 0 ? "+" : ""}${s.percentChange}% in ${s.days}d`).join(", then "),
+        horizonDays,
+        path,
+        terminal: path[path.length - 1],
+      };
+    }
+
+    if (scenario.kind === SCENARIO_KIND.HISTORICAL) {
+      const named = HISTORICAL_REPLAY_WINDOWS.find((w) => w.id === scenario.windowId);
+      const startTimestamp = named ? Date.parse(named.start) : scenario.startTimestamp;
+      const endTimestamp = named ? Date.parse(named.end) + DAY_MS - 1 : scenario.endTimestamp;
+      if (startTimestamp === undefined || endTimestamp === undefined || endTimestamp <= startTimestamp) {
+        throw new Error("A historical scenario needs a known windowId or a valid start/end timestamp range.");
+      }
+
+      // Days past the horizon are never charted, so the read stops there
+      const readEndTimestamp = Math.min(endTimestamp, startTimestamp + (horizonDays + 1) * DAY_MS - 1);
+      const records = await ctx.db
+        .query("historicalPrices")
+        .withIndex("by_timestamp", (q) => q.gte("timestamp", startTimestamp).lte("timestamp", readEndTimestamp))
+        .take(HISTORICAL_REPLAY_MAX_RECORDS);
+      const daily = records.filter((r) => r.isDaily);
+      const window = daily.length > 0 ? daily : records;
+      if (window.length === 0) {
+        return null;
+      }
+
+      const path = valueScenarioPath(
+        buildHistoricalReplayPath(args.currentPrice, window, startTimestamp, horizonDays),
+        terms
+      );
+      return {
+        kind: scenario.kind,
+        label: named?.label ?? `Replay ${new Date(startTimestamp).toISOString().slice(0, 10)} to ${new Date(endTimestamp).toISOString().slice(0, 10)}`,
+        horizonDays,
+        path,
+        terminal: path[path.length - 1],
+        window: { id: named?.id, startTimestamp, endTimestamp, dataPoints: window.length },
+      };
+    }
+
+    if (scenario.kind === SCENARIO_KIND.MONTE_CARLO) {
+      throw new Error("Monte Carlo scenarios run through runMonteCarloScenario.");
+    }
+
+    throw new Error(`Unknown scenario kind: ${scenario.kind}`);
+  },
+});
+
+/**
+ * Projects a policy through seeded Monte Carlo paths, summarised into percentile bands with the
+ * median as the headline path.
+ */
+export const runMonteCarloScenario = action({
+  args: {
+    ...policyTermsArgs,
+    volatility: v.number(),
+    paths: v.optional(v.number()),
+    percentiles: v.optional(v.array(v.number())),
+    seed: v.optional(v.number()),
+  },
+  handler: async (_ctx, args): Promise<ScenarioOutcome> => {
+    const terms: ScenarioPolicyTerms = {
+      strikePrice: args.strikePrice,
+      protectionAmount: args.protectionAmount,
+      premium: args.premium,
+      policyType: args.policyType,
+    };
+    const horizonDays = clampHorizonDays(args.expirationDays);
+    const percentiles = normalizeMonteCarloPercentiles(args.percentiles);
+    const pathCount = clampMonteCarloPaths(args.paths, horizonDays);
+
+    const { bands, payoutProbability } = simulateMonteCarloPercentiles({
+      currentPrice: args.currentPrice,
+      volatility: args.volatility,
+      horizonDays,
+      paths: pathCount,
+      percentiles,
+      seed: args.seed,
+      terms,
+    });
+    const percentileBands: ScenarioPercentileBand[] = bands.map((band) => ({
+      percentile: band.percentile,
+      terminal: valueScenarioPoint(horizonDays, band.path[band.path.length - 1], terms),
+      path: band.path.map(round2),
+    }));
+    const median = bands.find((band) => band.percentile === 50)!;
+    const path = valueScenarioPath(median.path, terms);
+    return {
+      kind: SCENARIO_KIND.MONTE_CARLO,
+      label: `Monte Carlo (${pathCount} paths, ${(args.volatility * 100).toFixed(0)}% vol)`,
+      horizonDays,
+      path,
+      terminal: path[path.length - 1],
+      percentiles: percentileBands,
+      payoutProbability,
+    };
+  },
+});
@@ -0,0 +1,95 @@
+import { expect, test, describe } from "vitest";
+import {
+  OhlcBar,
+  calculateEwmaVolatility,
+  calculateGarmanKlassVolatility,
+  calculateParkinsonVolatility,
+  calculateRogersSatchellVolatility,
+  calculateYangZhangVolatility,
+  fitGarch11,
+  garchTermVolatility,
+} from "./volatilityService";
+
+const ANNUALIZE = Math.sqrt(365);
+
+describe("calculateEwmaVolatility", () => {
+  test("stays at the sample variance when every squared return equals it", () => {
+    expect(calculateEwmaVolatility([0.01, -0.01, 0.01, -0.01])).toBeCloseTo(0.01 * ANNUALIZE, 10);
+  });
+
+  test("decays the seed variance towards the latest squared returns", () => {
+    // Seed 2.6667e-4, then 0.5 * v + 0.5 * r^2: 3.3333e-4, 1.6667e-4, 2.8333e-4
+    expect(calculateEwmaVolatility([0.02, 0, -0.02], 0.5)).toBeCloseTo(Math.sqrt(2.8333333e-4) * ANNUALIZE, 6);
+  });
+
+  test("needs at least two returns", () => {
+    expect(calculateEwmaVolatility([0.01])).toBeNull();
+  });
+});
+
+describe("GARCH(1,1)", () => {
+  const alternating = Array.from({ length: 20 }, (_, i) => (i % 2 === 0 ? 0.01 : -0.01));
+
+  test("targets the sample variance", () => {
+    // Every squared residual equals the long-run variance, so whichever grid point wins, the variance never moves
+    const params = fitGarch11(alternating)!;
+    expect(params.longRunVariance).toBeCloseTo(1e-4, 12);
+    expect(params.nextVariance).toBeCloseTo(1e-4, 12);
+    expect(params.omega).toBeCloseTo(1e-4 * (1 - params.alpha - params.beta), 12);
+    expect(params.alpha + params.beta).toBeLessThan(0.999);
+    expect(garchTermVolatility(params, 30)).toBeCloseTo(0.01 * ANNUALIZE, 10);
+  });
+
+  test("averages the forecast variance as it reverts to the long-run level", () => {
+    const params = { omega: 1e-5, alpha: 0.1, beta: 0.8, longRunVariance: 1e-4, nextVariance: 2e-4 };
+    expect(garchTermVolatility(params, 1)).toBeCloseTo(Math.sqrt(2e-4) * ANNUALIZE, 10);
+    // Day 2 forecast: 1e-4 + 0.9 * 1e-4
+    expect(garchTermVolatility(params, 2)).toBeCloseTo(Math.sqrt(1.95e-4) * ANNUALIZE, 10);
+    expect(garchTermVolatility(params, 10_000)).toBeCloseTo(Math.sqrt(1e-4) * ANNUALIZE, 3);
+  });
+
+  test("does not fit short or flat samples", () => {
+    expect(fitGarch11(alternating.slice(0, 19))).toBeNull();
+    expect(fitGarch11(new Array(30).fill(0))).toBeNull();
+  });
+});
+
+describe("range-based estimators", () => {
+  // Flat days that trade 1% either side of 100: log(high / low) = 0.02, open = close
+  const flatBars: OhlcBar[] = Array.from({ length: 3 }, () => ({
+    open: 100,
+    high: 100 * Math.exp(0.01),
+    low: 100 * Math.exp(-0.01),
+    close: 100,
+  }));
+
+  test("Parkinson scales the squared range by 1 / (4 ln 2)", () => {
+    expect(calculateParkinsonVolatility(flatBars)).toBeCloseTo(Math.sqrt(0.0004 / (4 * Math.LN2)) * ANNUALIZE, 10);
+  });
+
+  test("Garman-Klass is half the squared range when the day closes where it opened", () => {
+    expect(calculateGarmanKlassVolatility(flatBars)).toBeCloseTo(Math.sqrt(0.5 * 0.0004) * ANNUALIZE, 10);
+  });
+
+  test("Rogers-Satchell reads 2a^2 from a symmetric range and nothing from a straight trend day", () => {
+    expect(calculateRogersSatchellVolatility(flatBars)).toBeCloseTo(Math.sqrt(2 * 0.0001) * ANNUALIZE, 10);
+    const trendDays: OhlcBar[] = [
+      { open: 100, high: 102, low: 100, close: 102 },
+      { open: 102, high: 105, low: 102, close: 105 },
+    ];
+    expect(calculateRogersSatchellVolatility(trendDays)).toBe(0);
+  });
+
+  test("Yang-Zhang weights the Rogers-Satchell term by 1 - k without overnight or open-to-close moves", () => {
+    // n = 2 bars after the first, so k = 0.34 / (1.34 + 3 / 1)
+    const k = 0.34 / 4.34;
+    expect(calculateYangZhangVolatility(flatBars)).toBeCloseTo(Math.sqrt((1 - k) * 2 * 0.0001) * ANNUALIZE, 10);
+  });
+
+  test("need enough bars", () => {
+    expect(calculateParkinsonVolatility(flatBars.slice(0, 1))).toBeNull();
+    expect(calculateGarmanKlassVolatility(flatBars.slice(0, 1))).toBeNull();
+    expect(calculateRogersSatchellVolatility(flatBars.slice(0, 1))).toBeNull();
+    expect(calculateYangZhangVolatility(flatBars.slice(0, 2))).toBeNull();
+  });
+});
@@ -9,10 +9,16 @@ export const storeVolatility = internalMutation({
     period: v.number(), // e.g., 30 for 30-day volatility
     volatility: v.number(),
     timeframe: v.optional(v.number()), // Redundant with period, but kept for original schema compatibility
-    calculationMethod: v.optional(v.string()),
+    calculationMethod: v.optional(v.string()), // One of VOLATILITY_ESTIMATORS
     dataPoints: v.optional(v.number()),
     startTimestamp: v.optional(v.number()),
     endTimestamp: v.optional(v.number()),
+    modelParams: v.optional(v.object({
+      lambda: v.optional(v.number()),
+      omega: v.optional(v.number()),
+      alpha: v.optional(v.number()),
+      beta: v.optional(v.number()),
+    })),
   },
   handler: async (ctx, args) => {
     // console.log(`Storing volatility for period ${args.period} day(s) at ${new Date(args.timestamp).toISOString()}: ${args.volatility}`);
@@ -41,16 +47,201 @@ function annualizedVolatility(dailyStdDev: number, daysInYear: number = 365): nu
   return dailyStdDev * Math.sqrt(daysInYear);
 }
 
+// --- Volatility Estimators ---
+
+// Values written to historicalVolatility.calculationMethod
+export const VOLATILITY_ESTIMATORS = {
+  CLOSE_TO_CLOSE: "log_returns_std_dev_annualized",
+  EWMA: "ewma",
+  GARCH: "garch_1_1",
+  // Range-based estimators, computed from the daily open/high/low/close in historicalPrices
+  PARKINSON: "parkinson",
+  GARMAN_KLASS: "garman_klass",
+  ROGERS_SATCHELL: "rogers_satchell",
+  YANG_ZHANG: "yang_zhang",
+} as const;
+
+const RANGE_BASED_ESTIMATORS: string[] = [
+  VOLATILITY_ESTIMATORS.PARKINSON,
+  VOLATILITY_ESTIMATORS.GARMAN_KLASS,
+  VOLATILITY_ESTIMATORS.ROGERS_SATCHELL,
+  VOLATILITY_ESTIMATORS.YANG_ZHANG,
+];
+
+export const EWMA_DEFAULT_LAMBDA = 0.94; // RiskMetrics daily decay factor
+
+// GARCH(1,1) needs a reasonable sample before the likelihood surface is meaningful
+const GARCH_MIN_RETURNS = 20;
+
+export interface GarchParams {
+  omega: number;
+  alpha: number;
+  beta: number;
+  longRunVariance: number; // Daily variance the process reverts to
+  nextVariance: number; // One-step-ahead daily variance forecast
+}
+
+/**
+ * Exponentially weighted moving average volatility (annualized).
+ * Seeds the recursion with the sample variance so short windows are not dominated by the first return.
+ */
+export function calculateEwmaVolatility(logReturns: number[], lambda: number = EWMA_DEFAULT_LAMBDA): number | null {
+  if (logReturns.length < 2) return null;
+  let variance = Math.pow(calculateStandardDeviation(logReturns), 2);
+  for (const r of logReturns) {
+    variance = lambda * variance + (1 - lambda) * r * r;
+  }
+  return annualizedVolatility(Math.sqrt(variance));
+}
+
+/**
+ * Fits GARCH(1,1) by maximum likelihood over a coarse (alpha, beta) grid.
+ * Uses variance targeting (omega = V_L * (1 - alpha - beta)) so only two parameters are searched.
+ */
+export function fitGarch11(logReturns: number[]): GarchParams | null {
+  if (logReturns.length < GARCH_MIN_RETURNS) return null;
+  const mean = logReturns.reduce((a, b) => a + b, 0) / logReturns.length;
+  const residuals = logReturns.map(r => r - mean);
+  const sampleVariance = residuals.reduce((a, b) => a + b * b, 0) / residuals.length;
+  if (sampleVariance <= 0) return null;
+
+  let best: GarchParams | null = null;
+  let bestLogLikelihood = -Infinity;
+  for (let alpha = 0.01; alpha <= 0.3; alpha += 0.01) {
+    for (let beta = 0.5; beta <= 0.98; beta += 0.01) {
+      if (alpha + beta >= 0.999) continue;
+      const omega = sampleVariance * (1 - alpha - beta);
+      let variance = sampleVariance;
+      let logLikelihood = 0;
+      for (const e of residuals) {
+        logLikelihood -= Math.log(variance) + (e * e) / variance;
+        variance = omega + alpha * e * e + beta * variance;
+      }
+      if (logLikelihood > bestLogLikelihood) {
+        bestLogLikelihood = logLikelihood;
+        best = { omega, alpha, beta, longRunVariance: sampleVariance, nextVariance: variance };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Annualized volatility implied by a fitted GARCH(1,1) over the next horizonDays,
+ * i.e. the square root of the average forecast daily variance across the horizon.
+ */
+export function garchTermVolatility(params: GarchParams, horizonDays: number): number {
+  const persistence = params.alpha + params.beta;
+  const days = Math.max(1, Math.round(horizonDays));
+  let totalVariance = 0;
+  for (let k = 0; k < days; k++) {
+    totalVariance += params.longRunVariance + Math.pow(persistence, k) * (params.nextVariance - params.longRunVariance);
+  }
+  return annualizedVolatility(Math.sqrt(totalVariance / days));
+}
+
+// --- Range-Based Estimators (OHLC) ---
+
+export interface OhlcBar {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+/**
+ * Parkinson (1980): uses only the high/low range.
+ */
+export function calculateParkinsonVolatility(bars: OhlcBar[]): number | null {
+  if (bars.length < 2) return null;
+  const sum = bars.reduce((acc, b) => acc + Math.pow(Math.log(b.high / b.low), 2), 0);
+  const dailyVariance = sum / (4 * Math.LN2 * bars.length);
+  return annualizedVolatility(Math.sqrt(dailyVariance));
+}
+
+/**
+ * Garman-Klass (1980): high/low range plus the open-to-close move.
+ */
+export function calculateGarmanKlassVolatility(bars: OhlcBar[]): number | null {
+  if (bars.length < 2) return null;
+  const sum = bars.reduce((acc, b) => {
+    const hl = Math.log(b.high / b.low);
+    const co = Math.log(b.close / b.open);
+    return acc + 0.5 * hl * hl - (2 * Math.LN2 - 1) * co * co;
+  }, 0);
+  const dailyVariance = Math.max(0, sum / bars.length);
+  return annualizedVolatility(Math.sqrt(dailyVariance));
+}
+
+// Per-bar Rogers-Satchell variance term, shared with Yang-Zhang
+function rogersSatchellTerm(b: OhlcBar): number {
+  return Math.log(b.high / b.close) * Math.log(b.high / b.open) +
+    Math.log(b.low / b.close) * Math.log(b.low / b.open);
+}
+
+/**
+ * Rogers-Satchell (1991): unbiased in the presence of drift.
+ */
+export function calculateRogersSatchellVolatility(bars: OhlcBar[]): number | null {
+  if (bars.length < 2) return null;
+  const dailyVariance = Math.max(0, bars.reduce((acc, b) => acc + rogersSatchellTerm(b), 0) / bars.length);
+  return annualizedVolatility(Math.sqrt(dailyVariance));
+}
+
+/**
+ * Yang-Zhang (2000): overnight (previous close to open) variance, open-to-close variance and
+ * the Rogers-Satchell term combined with the weight k that minimises estimator variance.
+ * The first bar is only used for its close.
+ */
+export function calculateYangZhangVolatility(bars: OhlcBar[]): number | null {
+  const n = bars.length - 1;
+  if (n < 2) return null;
+  const overnight: number[] = [];
+  const openToClose: number[] = [];
+  let rsSum = 0;
+  for (let i = 1; i < bars.length; i++) {
+    overnight.push(Math.log(bars[i].open / bars[i - 1].close));
+    openToClose.push(Math.log(bars[i].close / bars[i].open));
+    rsSum += rogersSatchellTerm(bars[i]);
+  }
+  const sampleVariance = (values: number[]) => {
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    return values.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / (values.length - 1);
+  };
+  const k = 0.34 / (1.34 + (n + 1) / (n - 1));
+  const dailyVariance = Math.max(0, sampleVariance(overnight) + k * sampleVariance(openToClose) + (1 - k) * (rsSum / n));
+  return annualizedVolatility(Math.sqrt(dailyVariance));
+}
+
+function calculateRangeBasedVolatility(method: string, bars: OhlcBar[]): number | null {
+  switch (method) {
+    case VOLATILITY_ESTIMATORS.PARKINSON:
+      return calculateParkinsonVolatility(bars);
+    case VOLATILITY_ESTIMATORS.GARMAN_KLASS:
+      return calculateGarmanKlassVolatility(bars);
+    case VOLATILITY_ESTIMATORS.ROGERS_SATCHELL:
+      return calculateRogersSatchellVolatility(bars);
+    case VOLATILITY_ESTIMATORS.YANG_ZHANG:
+      return calculateYangZhangVolatility(bars);
+    default:
+      return null;
+  }
+}
+
 // --- Core Volatility Calculation Logic (from historical prices) ---
 
+// Lookback windows (days) calculated for every estimator; these are the term-structure tenors
+export const STANDARD_VOLATILITY_TIMEFRAMES = [30, 60, 90, 180, 360];
+
 // This is the primary query for calculating volatility for a specific lookback period (timeframe).
 // It's used by calculateAndStoreAllVolatilities and can be called directly.
 export const calculateVolatilityForTimeframe = internalQuery({
   args: {
     timeframeDays: v.number(), // e.g., 30, 60, 90 days
     endDate: v.optional(v.number()), // Timestamp for the end of the period (defaults to now)
+    calculationMethod: v.optional(v.string()), // One of VOLATILITY_ESTIMATORS, defaults to close-to-close
   },
-  handler: async (ctx, { timeframeDays, endDate }) => {
+  handler: async (ctx, { timeframeDays, endDate, calculationMethod = VOLATILITY_ESTIMATORS.CLOSE_TO_CLOSE }) => {
     // console.log(`calculateVolatilityForTimeframe query: ${timeframeDays}-day volatility ending around ${endDate ? new Date(endDate).toISOString() : 'now'}`);
     const endTimestamp = endDate || Date.now();
     // Start timestamp is X days before the end timestamp
@@ -88,12 +279,50 @@ export const calculateVolatilityForTimeframe = internalQuery({
     }
 
     const dailyStdDev = calculateStandardDeviation(logReturns);
-    const calculatedVolatility = annualizedVolatility(dailyStdDev);
+    let calculatedVolatility: number;
+    let modelParams: { lambda?: number; omega?: number; alpha?: number; beta?: number } | undefined;
+    let dataPoints = prices.length;
+
+    if (RANGE_BASED_ESTIMATORS.includes(calculationMethod)) {
+      // Only days with a complete, positive OHLC record can contribute
+      const bars: OhlcBar[] = prices
+        .filter(p => p.open !== undefined && p.high !== undefined && p.low !== undefined &&
+          p.open > 0 && p.high > 0 && p.low > 0 && p.price > 0 && p.high >= p.low)
+        .map(p => ({ open: p.open!, high: p.high!, low: p.low!, close: p.price }));
+      const rangeVolatility = calculateRangeBasedVolatility(calculationMethod, bars);
+      if (rangeVolatility === null) {
+        console.warn(`Not enough OHLC bars (${bars.length}) for ${calculationMethod} volatility.`);
+        return null;
+      }
+      calculatedVolatility = rangeVolatility;
+      dataPoints = bars.length;
+    } else if (calculationMethod === VOLATILITY_ESTIMATORS.EWMA) {
+      const ewma = calculateEwmaVolatility(logReturns);
+      if (ewma === null) {
+        console.warn(`Not enough log returns (${logReturns.length}) for EWMA volatility.`);
+        return null;
+      }
+      calculatedVolatility = ewma;
+      modelParams = { lambda: EWMA_DEFAULT_LAMBDA };
+    } else if (calculationMethod === VOLATILITY_ESTIMATORS.GARCH) {
+      const garch = fitGarch11(logReturns);
+      if (!garch) {
+        console.warn(`Not enough log returns (${logReturns.length}) to fit GARCH(1,1).`);
+        return null;
+      }
+      // Forecast over the tenor itself so each timeframe row is a term-structure point
+      calculatedVolatility = garchTermVolatility(garch, timeframeDays);
+      modelParams = { omega: garch.omega, alpha: garch.alpha, beta: garch.beta };
+    } else {
+      calculatedVolatility = annualizedVolatility(dailyStdDev);
+    }
 
     // console.log(`Calculated ${timeframeDays}-day annualized volatility: ${calculatedVolatility} (Daily StdDev: ${dailyStdDev}, Data points: ${prices.length}, LogReturns: ${logReturns.length})`);
     return {
       volatility: calculatedVolatility,
-      dataPoints: prices.length,
+      calculationMethod,
+      modelParams,
+      dataPoints,
       logReturnsCount: logReturns.length,
       dailyStdDev,
       timeframe: timeframeDays,
@@ -108,38 +337,44 @@ export const calculateAndStoreAllVolatilities = internalAction({
   args: {},
   handler: async (ctx) => {
     console.log("Starting calculateAndStoreAllVolatilities action...");
-    const standardTimeframes = [30, 60, 90, 180, 360]; // Days
+    const standardTimeframes = STANDARD_VOLATILITY_TIMEFRAMES;
+    const estimators = Object.values(VOLATILITY_ESTIMATORS);
     let successfulCalculations = 0;
     const timestamp = Date.now();
 
     for (const timeframe of standardTimeframes) {
-      try {
-        const result = await ctx.runQuery(internal.services.oracle.volatilityService.calculateVolatilityForTimeframe, { 
-            timeframeDays: timeframe 
-        });
-
-        if (result && typeof result.volatility === 'number') {
-          await ctx.runMutation(internal.services.oracle.volatilityService.storeVolatility, {
-            timestamp: timestamp, // Use consistent timestamp for this batch
-            period: timeframe,
-            volatility: result.volatility,
-            timeframe: timeframe, // Store original timeframe for clarity
-            calculationMethod: "log_returns_std_dev_annualized",
-            dataPoints: result.dataPoints,
-            startTimestamp: result.startTimestamp,
-            endTimestamp: result.endTimestamp,
+      for (const calculationMethod of estimators) {
+        try {
+          const result = await ctx.runQuery(internal.services.oracle.volatilityService.calculateVolatilityForTimeframe, { 
+              timeframeDays: timeframe,
+              calculationMethod,
           });
-          successfulCalculations++;
-          console.log(`Successfully calculated and stored ${timeframe}-day volatility: ${result.volatility}`);
-        } else {
-          console.warn(`Failed to calculate ${timeframe}-day volatility or result was invalid. Result:`, result);
+
+          if (result && typeof result.volatility === 'number') {
+            await ctx.runMutation(internal.services.oracle.volatilityService.storeVolatility, {
+              timestamp: timestamp, // Use consistent timestamp for this batch
+              period: timeframe,
+              volatility: result.volatility,
+              timeframe: timeframe, // Store original timeframe for clarity
+              calculationMethod,
+              dataPoints: result.dataPoints,
+              startTimestamp: result.startTimestamp,
+              endTimestamp: result.endTimestamp,
+              modelParams: result.modelParams,
+            });
+            successfulCalculations++;
+            console.log(`Successfully calculated and stored ${timeframe}-day ${calculationMethod} volatility: ${result.volatility}`);
+          } else {
+            console.warn(`Failed to calculate ${timeframe}-day ${calculationMethod} volatility or result was invalid. Result:`, result);
+          }
+        } catch (error: any) {
+          console.error(`Error calculating or storing ${timeframe}-day ${calculationMethod} volatility: ${error.message}`);
         }
-      } catch (error: any) {
-        console.error(`Error calculating or storing ${timeframe}-day volatility: ${error.message}`);
       }
     }
-    console.log(`calculateAndStoreAllVolatilities action finished. Successful calculations: ${successfulCalculations}/${standardTimeframes.length}.`);
-    return { successfulCalculations, totalTimeframes: standardTimeframes.length };
+    const totalCalculations = standardTimeframes.length * estimators.length;
+    console.log(`calculateAndStoreAllVolatilities action finished. Successful calculations: ${successfulCalculations}/${totalCalculations}.`);
+    return { successfulCalculations, totalTimeframes: standardTimeframes.length, totalCalculations };
   },
 });
 
@@ -148,12 +383,17 @@ export const calculateAndStoreAllVolatilities = internalAction({
 // This is the query that fetchAndAggregateCurrentPrices in dataIngestion.ts will call.
 // It aims to get the most recent, relevant (e.g., 30-day) stored volatility.
 export const getStandardVolatility = internalQuery({
-    args: { periodDays: v.optional(v.number()) },
-    handler: async (ctx, { periodDays = 30 }) => { // Default to 30-day volatility
+    args: {
+        periodDays: v.optional(v.number()),
+        calculationMethod: v.optional(v.string()),
+    },
+    handler: async (ctx, { periodDays = 30, calculationMethod = VOLATILITY_ESTIMATORS.CLOSE_TO_CLOSE }) => { // Default to 30-day volatility
         // console.log(`Querying for latest stored ${periodDays}-day volatility...`);
         const latestVolatilityRecord = await ctx.db
             .query("historicalVolatility")
-            .withIndex("by_timeframe_and_timestamp", (q) => q.eq("timeframe", periodDays))
+            .withIndex("by_method_timeframe_and_timestamp", (q) =>
+                q.eq("calculationMethod", calculationMethod).eq("timeframe", periodDays)
+            )
             .order("desc")
             .first();
 
@@ -0,0 +1,32 @@
+import { expect, test, describe } from "vitest";
+import { VolatilityTermStructure, interpolateVolatility } from "./volatilityTermStructure";
+
+const structure: VolatilityTermStructure = {
+  estimator: "garch_1_1",
+  points: [
+    { tenorDays: 30, volatility: 0.5, timestamp: 1 },
+    { tenorDays: 90, volatility: 0.6, timestamp: 1 },
+  ],
+};
+
+describe("interpolateVolatility", () => {
+  test("interpolates linearly in total variance", () => {
+    // 0.25 * 30 = 7.5 and 0.36 * 90 = 32.4 total variance; halfway is 19.95 over 60 days
+    expect(interpolateVolatility(structure, 60)).toEqual({
+      volatility: expect.closeTo(Math.sqrt(19.95 / 60), 10),
+      estimator: "garch_1_1",
+      tenorDays: 60,
+      interpolated: true,
+    });
+  });
+
+  test("returns stored points as they are and extrapolates flat", () => {
+    expect(interpolateVolatility(structure, 90)).toMatchObject({ volatility: 0.6, interpolated: false });
+    expect(interpolateVolatility(structure, 7)).toMatchObject({ volatility: 0.5, tenorDays: 7, interpolated: false });
+    expect(interpolateVolatility(structure, 365)).toMatchObject({ volatility: 0.6, tenorDays: 365, interpolated: false });
+  });
+
+  test("has nothing to interpolate without points", () => {
+    expect(interpolateVolatility({ estimator: "ewma", points: [] }, 30)).toBeNull();
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Volatility Term Structure
+ *
+ * Builds a per-estimator term structure from the latest historicalVolatility rows (one point
+ * per standard timeframe) and interpolates it to the tenor of the policy being priced, so a
+ * 7-day and a 365-day policy are no longer priced with the same sigma.
+ */
+
+import { v } from "convex/values";
+import { internalQuery, query, QueryCtx } from "../../_generated/server";
+import { STANDARD_VOLATILITY_TIMEFRAMES, VOLATILITY_ESTIMATORS } from "./volatilityService";
+
+// --- Types ---
+
+export interface VolatilityTermPoint {
+  tenorDays: number;
+  volatility: number;
+  timestamp: number;
+}
+
+export interface VolatilityTermStructure {
+  estimator: string; // historicalVolatility.calculationMethod the points came from
+  points: VolatilityTermPoint[]; // Sorted by tenorDays ascending
+}
+
+export interface TenorMatchedVolatility {
+  volatility: number;
+  estimator: string;
+  tenorDays: number;
+  interpolated: boolean; // False when the tenor hit a stored point or was extrapolated flat
+}
+
+// Estimators tried in order when the caller does not ask for a specific one.
+// GARCH reflects mean reversion across tenors; close-to-close is the last resort.
+export const DEFAULT_ESTIMATOR_PREFERENCE: string[] = [
+  VOLATILITY_ESTIMATORS.GARCH,
+  VOLATILITY_ESTIMATORS.EWMA,
+  VOLATILITY_ESTIMATORS.CLOSE_TO_CLOSE,
+];
+
+// --- Pure Helpers ---
+
+/**
+ * Interpolates the term structure at tenorDays.
+ * Interpolation is linear in total variance (sigma^2 * T), which keeps forward variance
+ * non-negative for sensible curves; tenors outside the curve use the nearest point.
+ */
+export function interpolateVolatility(
+  structure: VolatilityTermStructure,
+  tenorDays: number
+): TenorMatchedVolatility | null {
+  const points = structure.points;
+  if (points.length === 0) return null;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (tenorDays <= first.tenorDays || tenorDays >= last.tenorDays) {
+    const nearest = tenorDays <= first.tenorDays ? first : last;
+    return { volatility: nearest.volatility, estimator: structure.estimator, tenorDays, interpolated: false };
+  }
+
+  for (let i = 1; i < points.length; i++) {
+    const lower = points[i - 1];
+    const upper = points[i];
+    if (tenorDays > upper.tenorDays) continue;
+    if (tenorDays === upper.tenorDays) {
+      return { volatility: upper.volatility, estimator: structure.estimator, tenorDays, interpolated: false };
+    }
+    const lowerVariance = lower.volatility * lower.volatility * lower.tenorDays;
+    const upperVariance = upper.volatility * upper.volatility * upper.tenorDays;
+    const weight = (tenorDays - lower.tenorDays) / (upper.tenorDays - lower.tenorDays);
+    const totalVariance = lowerVariance + weight * (upperVariance - lowerVariance);
+    return {
+      volatility: Math.sqrt(Math.max(0, totalVariance) / tenorDays),
+      estimator: structure.estimator,
+      tenorDays,
+      interpolated: true,
+    };
+  }
+  return null;
+}
+
+// --- Loaders ---
+
+/**
+ * Loads the latest stored point for each standard timeframe for one estimator.
+ */
+export async function loadVolatilityTermStructure(
+  ctx: Pick<QueryCtx, "db">,
+  estimator: string
+): Promise<VolatilityTermStructure> {
+  const points: VolatilityTermPoint[] = [];
+  for (const timeframe of STANDARD_VOLATILITY_TIMEFRAMES) {
+    const latest = await ctx.db
+      .query("historicalVolatility")
+      .withIndex("by_method_timeframe_and_timestamp", (q) =>
+        q.eq("calculationMethod", estimator).eq("timeframe", timeframe)
+      )
+      .order("desc")
+      .first();
+    if (latest && latest.volatility > 0) {
+      points.push({ tenorDays: timeframe, volatility: latest.volatility, timestamp: latest.timestamp });
+    }
+  }
+  return { estimator, points };
+}
+
+/**
+ * Returns the term structure of the first estimator in the preference list that has any
+ * stored points, or null if no volatility has been calculated yet.
+ */
+export async function loadPreferredTermStructure(
+  ctx: Pick<QueryCtx, "db">,
+  estimators: string[] = DEFAULT_ESTIMATOR_PREFERENCE
+): Promise<VolatilityTermStructure | null> {
+  for (const estimator of estimators) {
+    const structure = await loadVolatilityTermStructure(ctx, estimator);
+    if (structure.points.length > 0) return structure;
+  }
+  return null;
+}
+
+export async function getTenorMatchedVolatility(
+  ctx: Pick<QueryCtx, "db">,
+  tenorDays: number,
+  estimators: string[] = DEFAULT_ESTIMATOR_PREFERENCE
+): Promise<TenorMatchedVolatility | null> {
+  const structure = await loadPreferredTermStructure(ctx, estimators);
+  return structure ? interpolateVolatility(structure, tenorDays) : null;
+}
+
+// --- Queries ---
+
+/**
+ * Preferred term structure for actions and queries that price through calculateBlackScholesPremium.
+ */
+export const getVolatilityTermStructureInternal = internalQuery({
+  args: {
+    estimator: v.optional(v.string()), // Restrict to one estimator instead of the preference list
+  },
+  handler: async (ctx, args): Promise<VolatilityTermStructure | null> => {
+    return await loadPreferredTermStructure(
+      ctx,
+      args.estimator ? [args.estimator] : DEFAULT_ESTIMATOR_PREFERENCE
+    );
+  },
+});
+
+/**
+ * Term structure for every estimator, for charts and admin inspection.
+ */
+export const getVolatilityTermStructures = query({
+  args: {},
+  handler: async (ctx): Promise<VolatilityTermStructure[]> => {
+    const structures: VolatilityTermStructure[] = [];
+    for (const estimator of Object.values(VOLATILITY_ESTIMATORS)) {
+      structures.push(await loadVolatilityTermStructure(ctx, estimator));
+    }
+    return structures;
+  },
+});
+
+/**
+ * Side-by-side comparison of every estimator at each standard tenor, so risk can see how far
+ * the estimators diverge before switching pricing to one of them. Divergence is measured
+ * relative to close-to-close volatility, the estimator pricing has historically used.
+ */
+export const compareVolatilityEstimators = query({
+  args: {},
+  handler: async (ctx) => {
+    const estimators: string[] = Object.values(VOLATILITY_ESTIMATORS);
+    const structures = new Map<string, VolatilityTermStructure>();
+    for (const estimator of estimators) {
+      structures.set(estimator, await loadVolatilityTermStructure(ctx, estimator));
+    }
+
+    const tenors = STANDARD_VOLATILITY_TIMEFRAMES.map((tenorDays) => {
+      const estimates = estimators
+        .map((estimator) => {
+          const point = structures.get(estimator)!.points.find((p) => p.tenorDays === tenorDays);
+          return point ? { estimator, volatility: point.volatility, timestamp: point.timestamp } : null;
+        })
+        .filter((e): e is { estimator: string; volatility: number; timestamp: number } => e !== null);
+
+      const values = estimates.map((e) => e.volatility);
+      const baseline = estimates.find((e) => e.estimator === VOLATILITY_ESTIMATORS.CLOSE_TO_CLOSE)?.volatility;
+      return {
+        tenorDays,
+        estimates: estimates.map((e) => ({
+          ...e,
+          deviationFromCloseToClosePercent: baseline ? ((e.volatility - baseline) / baseline) * 100 : null,
+        })),
+        min: values.length > 0 ? Math.min(...values) : null,
+        max: values.length > 0 ? Math.max(...values) : null,
+        spread: values.length > 0 ? Math.max(...values) - Math.min(...values) : null,
+      };
+    });
+
+    // Mean absolute deviation from close-to-close per estimator, across tenors where both exist
+    const summary = estimators.map((estimator) => {
+      const deviations = tenors
+        .map((t) => t.estimates.find((e) => e.estimator === estimator)?.deviationFromCloseToClosePercent)
+        .filter((d): d is number => d !== null && d !== undefined);
+      return {
+        estimator,
+        tenorsAvailable: structures.get(estimator)!.points.length,
+        meanAbsDeviationFromCloseToClosePercent: deviations.length > 0
+          ? deviations.reduce((acc, d) => acc + Math.abs(d), 0) / deviations.length
+          : null,
+      };
+    });
+
+    return { tenors, summary, pricingPreference: DEFAULT_ESTIMATOR_PREFERENCE };
+  },
+});
@@ -0,0 +1,201 @@
+import { convexTest, TestConvex } from "convex-test";
+import { expect, test, describe, beforeEach, afterEach, vi } from "vitest";
+import schema from "./schema";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { PolicyStatus, TransactionStatus } from "./policyRegistry/types";
+import { AllocationStatus } from "./liquidityPool/types";
+import { MAX_SETTLEMENT_ATTEMPTS, SettlementStatus } from "./settlementJobs";
+import { FEE_OPERATION } from "./blockchain/common/fees";
+
+describe("settlement payouts", () => {
+  let t: TestConvex<typeof schema>;
+  let policyId: Id<"policies">;
+
+  beforeEach(async () => {
+    // Keeps the collateral release and pool metric jobs scheduled instead of running them
+    vi.useFakeTimers();
+    t = convexTest(schema);
+    policyId = await t.run(async (ctx) => {
+      const id = await ctx.db.insert("policies", {
+        owner: "ST1BUYER",
+        policyType: "PUT",
+        positionType: "LONG_PUT",
+        protectedValue: 95_000,
+        protectionAmount: 1,
+        premium: 2_000,
+        creationTimestamp: Date.now(),
+        expirationHeight: 1_000,
+        status: PolicyStatus.EXERCISED,
+        collateralToken: "STX",
+        settlementToken: "STX",
+        onChainPolicyId: "7",
+      });
+      for (const [provider, allocated] of [["ST1ALICE", 300], ["ST1BOB", 100]] as const) {
+        await ctx.db.insert("provider_balances", {
+          provider,
+          token: "STX",
+          total_deposited: 1_000,
+          available_balance: 1_000 - allocated,
+          locked_balance: allocated,
+          earned_premiums: 0,
+          withdrawn_premiums: 0,
+          pending_premiums: 0,
+          last_updated: Date.now(),
+        });
+        await ctx.db.insert("policy_allocations", {
+          policy_id: id,
+          provider,
+          token: "STX",
+          allocated_amount: allocated,
+          allocation_percentage: allocated / 4,
+          premium_share: 0,
+          premium_distributed: false,
+          allocation_timestamp: Date.now(),
+          status: AllocationStatus.ACTIVE,
+          risk_tier: "balanced",
+        });
+      }
+      return id;
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const beginAttempt = () => t.mutation(internal.settlementJobs.beginSettlementAttempt, { policyId });
+
+  async function broadcastAttempt(transactionId: string): Promise<Id<"pendingPolicyTransactions">> {
+    const attempt = await beginAttempt();
+    if (!attempt.started) throw new Error(attempt.reason);
+    await t.mutation(internal.settlementJobs.recordSettlementBroadcast, {
+      pendingTxId: attempt.pendingTxId,
+      transactionId,
+      settlementPrice: 80_000,
+      settlementAmount: 15_000,
+      token: "STX",
+      recipient: "ST1BUYER",
+    });
+    return attempt.pendingTxId;
+  }
+
+  const getPolicy = () => t.run(async (ctx) => (await ctx.db.get(policyId))!);
+
+  test("starts one attempt at a time and refuses while a payout is in flight", async () => {
+    const first = await beginAttempt();
+    expect(first).toMatchObject({ started: true, attempt: 1 });
+    expect(await beginAttempt()).toMatchObject({ started: false, reason: "Another settlement attempt is in progress" });
+    expect((await getPolicy()).settlementStatus).toBe(SettlementStatus.PROCESSING);
+
+    if (!first.started) throw new Error(first.reason);
+    await t.mutation(internal.settlementJobs.recordSettlementAttemptFailed, { pendingTxId: first.pendingTxId, error: "broadcast rejected" });
+    await broadcastAttempt("0xsecond");
+    expect(await beginAttempt()).toMatchObject({ started: false, reason: `Payout 0xsecond is already ${TransactionStatus.SUBMITTED}` });
+  });
+
+  test("escalates once the attempt budget is spent", async () => {
+    for (let i = 0; i < MAX_SETTLEMENT_ATTEMPTS; i++) {
+      const attempt = await beginAttempt();
+      if (!attempt.started) throw new Error(attempt.reason);
+      await t.mutation(internal.settlementJobs.recordSettlementAttemptFailed, { pendingTxId: attempt.pendingTxId, error: "tx aborted" });
+    }
+    expect((await getPolicy()).settlementStatus).toBe(SettlementStatus.ESCALATED);
+    expect(await beginAttempt()).toMatchObject({ started: false, reason: `Settlement failed ${MAX_SETTLEMENT_ATTEMPTS} times` });
+  });
+
+  test("escalates an attempt that stopped before its broadcast was recorded", async () => {
+    await beginAttempt();
+    vi.advanceTimersByTime(16 * 60 * 1000);
+    const stale = await beginAttempt();
+    expect(stale.started).toBe(false);
+    expect((await getPolicy()).settlementStatus).toBe(SettlementStatus.ESCALATED);
+  });
+
+  test("finalizes from the vault's base-unit payout and charges providers pro rata", async () => {
+    const pendingTxId = await broadcastAttempt("0xpayout");
+    const result = await t.mutation(internal.settlementJobs.finalizeSettlementPayout, {
+      policyId,
+      transactionId: "0xpayout",
+      blockHeight: 1_010,
+      token: "stx",
+      amountPaid: 200_000_000, // 200 STX in micro-STX
+      recipient: "ST1BUYER",
+    });
+    expect(result).toEqual({ finalized: true, tokens: ["STX"] });
+
+    const policy = await getPolicy();
+    expect(policy.status).toBe(PolicyStatus.SETTLED);
+    expect(policy.settlementProcessed).toBe(true);
+    expect(policy.settlementTransactionId).toBe("0xpayout");
+
+    const { attempt, balances, payout, scheduled } = await t.run(async (ctx) => ({
+      attempt: (await ctx.db.get(pendingTxId))!,
+      balances: await ctx.db.query("provider_balances").collect(),
+      payout: await ctx.db
+        .query("pool_transactions")
+        .filter((q) => q.eq(q.field("provider"), "SYSTEM_SETTLEMENT"))
+        .unique(),
+      scheduled: await ctx.db.system.query("_scheduled_functions").collect(),
+    }));
+    expect(attempt.status).toBe(TransactionStatus.CONFIRMED);
+    expect(attempt.blockHeight).toBe(1_010);
+    expect(balances.map((b) => [b.provider, b.total_deposited])).toEqual([["ST1ALICE", 850], ["ST1BOB", 950]]);
+    expect(payout?.amount).toBe(200);
+    expect(scheduled.map((job) => job.name).sort()).toEqual([
+      "liquidityPool/policyLifecycle:releaseCollateral",
+      "liquidityPool/poolState:updatePoolMetrics",
+    ]);
+
+    const repeat = await t.mutation(internal.settlementJobs.finalizeSettlementPayout, {
+      policyId,
+      transactionId: "0xpayout",
+      token: "STX",
+      amountPaid: 200_000_000,
+      recipient: "ST1BUYER",
+    });
+    expect(repeat.finalized).toBe(false);
+  });
+
+  test("follows a fee-bumped replacement to the vault's settlement event", async () => {
+    const pendingTxId = await broadcastAttempt("0xpayout");
+    const lease = await t.mutation(internal.signerNonces.leaseNonce, {
+      signerAddress: "ST1BACKEND",
+      purpose: FEE_OPERATION.SETTLEMENT_PAYOUT,
+      chainNonce: 0,
+    });
+    if (!lease) throw new Error("No lease");
+    await t.mutation(internal.signerNonces.markNonceBroadcast, { leaseId: lease.leaseId, txId: "0xpayout", rawTx: "00", fee: 10_000 });
+    await t.mutation(internal.signerNonces.recordNonceRebroadcast, {
+      leaseId: lease.leaseId,
+      outcome: "replaced",
+      txId: "0xpayout2",
+      rawTx: "01",
+      fee: 15_000,
+    });
+    expect((await getPolicy()).settlementTransactionId).toBe("0xpayout2");
+
+    await t.mutation(internal.settlementJobs.finalizeSettlementPayout, {
+      policyId,
+      transactionId: "0xpayout2",
+      token: "STX",
+      amountPaid: 200_000_000,
+      recipient: "ST1BUYER",
+    });
+    const attempt = await t.run(async (ctx) => (await ctx.db.get(pendingTxId))!);
+    expect(attempt).toMatchObject({ transactionId: "0xpayout2", status: TransactionStatus.CONFIRMED });
+  });
+
+  test("a failed attempt does not reopen a policy the chain already settled", async () => {
+    const pendingTxId = await broadcastAttempt("0xours");
+    await t.mutation(internal.settlementJobs.finalizeSettlementPayout, {
+      policyId,
+      transactionId: "0xbatch",
+      token: "STX",
+      amountPaid: 100_000_000,
+      recipient: "ST1BUYER",
+    });
+    await t.mutation(internal.settlementJobs.recordSettlementAttemptFailed, { pendingTxId, error: "policy not active" });
+    expect((await getPolicy()).settlementStatus).toBe(SettlementStatus.COMPLETED);
+  });
+});
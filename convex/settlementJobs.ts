@@ -1,7 +1,26 @@
-import { internalAction, internalQuery, internalMutation } from "./_generated/server";
+import { internalAction, internalQuery, internalMutation, ActionCtx, MutationCtx } from "./_generated/server";
 import { Doc, Id } from "./_generated/dataModel";
 import { v } from "convex/values";
 import { internal } from "./_generated/api";
+import { PolicyStatus, PolicyType, TransactionStatus } from "./policyRegistry/types";
+import { calculateSettlementAmount } from "./policyRegistry/settlementServices";
+import { AllocationStatus, TransactionType, TransactionStatus as PoolTransactionStatus } from "./liquidityPool/types";
+import { buildProcessPolicyExpirationTransaction } from "./blockchain/policyRegistry/writer";
+import { TokenType } from "./blockchain/liquidityPool/types";
+import { baseUnitsToToken } from "./blockchain/common/utils";
+import {
+  signTransaction,
+  broadcastSignedTransaction,
+  checkTransactionStatus,
+  getBackendAddress,
+  serializeTransactionHex,
+} from "./blockchain/common/transaction";
+import { createNonceManager } from "./signerNonces";
+import { FEE_OPERATION } from "./blockchain/common/fees";
+import { TransactionStatus as ChainTransactionStatus } from "./blockchain/common/types";
+import { getNetworkEnvironment } from "./blockchain/common/network";
+import { getOraclePriceAtHeight } from "./blockchain/oracle/priceReader";
+import { recordedOraclePriceLookup } from "./oracleSubmissions";
 
 /**
  * Enum for settlement status
@@ -9,8 +28,10 @@ import { internal } from "./_generated/api";
 export enum SettlementStatus {
   REQUESTED = "Requested",
   PROCESSING = "Processing",
+  SUBMITTED = "Submitted", // Payout broadcast, waiting for confirmation
   COMPLETED = "Completed",
-  FAILED = "Failed",
+  FAILED = "Failed", // Last attempt failed; retried on the next run
+  ESCALATED = "Escalated", // Needs manual intervention; never retried automatically
 }
 
 /**
@@ -19,68 +40,108 @@ export enum SettlementStatus {
 export enum SettlementEventType {
   SETTLEMENT_REQUESTED = "SettlementRequested",
   SETTLEMENT_PROCESSING = "SettlementProcessing",
+  SETTLEMENT_SUBMITTED = "SettlementSubmitted",
   SETTLEMENT_COMPLETED = "SettlementCompleted",
   SETTLEMENT_FAILED = "SettlementFailed",
+  SETTLEMENT_ESCALATED = "SettlementEscalated",
 }
 
-/**
- * Mock function to simulate settlement processing with a blockchain.
- * This would eventually be replaced with real blockchain integration.
- * 
- * @param settlementId The ID of the settlement to process
- * @param amount The amount to settle
- * @returns Object with settlement status information
- */
-export const mockProcessSettlement = async (
-  settlementId: string,
-  amount: number
-): Promise<{
-  success: boolean;
-  transactionId?: string;
-  error?: string;
-}> => {
-  console.log(`Processing settlement ${settlementId} for amount ${amount}`);
-  
-  // Simulate processing delay
-  await new Promise(resolve => setTimeout(resolve, 800));
-  
-  // 90% success rate for testing
-  if (Math.random() < 0.9) {
-    return {
-      success: true,
-      transactionId: `tx-${Math.random().toString(36).substring(2, 10)}`
-    };
-  } else {
-    return {
-      success: false,
-      error: "Mock settlement processing failed"
-    };
-  }
-};
+// pendingPolicyTransactions.actionType for settlement payouts; one record per attempt
+export const SETTLEMENT_PAYOUT_ACTION_TYPE = "SettlementPayout";
+
+// Failed attempts allowed before a settlement is escalated
+export const MAX_SETTLEMENT_ATTEMPTS = 3;
+
+// An attempt still Pending after this long may or may not have been broadcast, so it is escalated
+// instead of retried to avoid paying twice
+const SETTLEMENT_ATTEMPT_LEASE_MS = 15 * 60 * 1000;
+
+const EXERCISED_STATUSES = [PolicyStatus.EXERCISED, "Exercised"]; // "Exercised" is the legacy casing
 
 /**
  * Helper query to find policies that need settlement processing.
- * Returns policies that have been exercised but not yet settled.
+ * Returns exercised policies that are not settled, not waiting on a broadcast payout and not escalated.
  */
 export const getPoliciesForSettlement = internalQuery({
   handler: async (ctx): Promise<Doc<"policies">[]> => {
-    // Query for exercised policies that need settlement
-    return await ctx.db
-      .query("policies")
-      .filter(q => 
-        q.and(
-          q.eq(q.field("status"), "Exercised"),
-          // Only include policies where settlementProcessed is false or missing
-          q.or(
-            q.eq(q.field("settlementProcessed"), false),
-            q.eq(q.field("settlementProcessed"), undefined)
+    const policies: Doc<"policies">[] = [];
+    for (const status of EXERCISED_STATUSES) {
+      const exercised = await ctx.db
+        .query("policies")
+        .withIndex("by_status", q => q.eq("status", status))
+        .filter(q =>
+          q.and(
+            q.neq(q.field("settlementProcessed"), true),
+            q.neq(q.field("settlementStatus"), SettlementStatus.SUBMITTED),
+            q.neq(q.field("settlementStatus"), SettlementStatus.ESCALATED)
           )
         )
-      )
-      .take(100); // Limit number of policies to process
+        .take(100); // Limit number of policies to process
+      policies.push(...exercised);
+    }
+    return policies;
+  }
+});
+
+/**
+ * Helper query to find settlement payouts that have been broadcast but not yet confirmed.
+ */
+export const getSubmittedSettlementPayouts = internalQuery({
+  handler: async (ctx): Promise<Doc<"pendingPolicyTransactions">[]> => {
+    return await ctx.db
+      .query("pendingPolicyTransactions")
+      .withIndex("by_status_and_actionType", q =>
+        q.eq("status", TransactionStatus.SUBMITTED).eq("actionType", SETTLEMENT_PAYOUT_ACTION_TYPE))
+      .take(100);
   }
 });
 
+const SETTLEMENT_EVENT_TYPES: Record<string, SettlementEventType> = {
+  [SettlementStatus.REQUESTED]: SettlementEventType.SETTLEMENT_REQUESTED,
+  [SettlementStatus.PROCESSING]: SettlementEventType.SETTLEMENT_PROCESSING,
+  [SettlementStatus.SUBMITTED]: SettlementEventType.SETTLEMENT_SUBMITTED,
+  [SettlementStatus.COMPLETED]: SettlementEventType.SETTLEMENT_COMPLETED,
+  [SettlementStatus.FAILED]: SettlementEventType.SETTLEMENT_FAILED,
+  [SettlementStatus.ESCALATED]: SettlementEventType.SETTLEMENT_ESCALATED,
+};
+
+/**
+ * Sets a policy's settlement status and records a settlement policy event.
+ */
+async function setSettlementStatus(
+  ctx: MutationCtx,
+  policyId: Id<"policies">,
+  settlementStatus: SettlementStatus,
+  details: { transactionId?: string; error?: string; pendingTxId?: Id<"pendingPolicyTransactions">; attempt?: number } = {}
+): Promise<void> {
+  const now = Date.now();
+  const updateData: Partial<Doc<"policies">> = {
+    settlementStatus,
+    updatedAt: now,
+  };
+  if (settlementStatus === SettlementStatus.COMPLETED) {
+    updateData.settlementProcessed = true;
+    updateData.settlementCompletedAt = now;
+  }
+  if (details.transactionId) {
+    updateData.settlementTransactionId = details.transactionId;
+  }
+  if (details.error) {
+    updateData.settlementError = details.error;
+  }
+  await ctx.db.patch(policyId, updateData);
+
+  await ctx.db.insert("policyEvents", {
+    policyConvexId: policyId,
+    eventType: SETTLEMENT_EVENT_TYPES[settlementStatus] ?? SettlementEventType.SETTLEMENT_REQUESTED,
+    data: {
+      settlementStatus,
+      ...details,
+    },
+    timestamp: now,
+  });
+}
+
 /**
  * Updates the settlement status for a policy.
  */
@@ -97,136 +158,508 @@ export const updateSettlementStatus = internalMutation({
       throw new Error(`Policy not found with ID: ${args.policyId}`);
     }
     
-    const updateData: any = {
-      settlementStatus: args.settlementStatus,
-      updatedAt: Date.now(),
-    };
+    await setSettlementStatus(ctx, args.policyId, args.settlementStatus as SettlementStatus, {
+      transactionId: args.transactionId,
+      error: args.error,
+    });
     
-    if (args.settlementStatus === SettlementStatus.COMPLETED) {
-      updateData.settlementProcessed = true;
-      updateData.settlementCompletedAt = Date.now();
+    return await ctx.db.get(args.policyId);
+  }
+});
+
+/**
+ * Starts a settlement attempt for a policy, recording it as a Pending pendingPolicyTransactions row.
+ * Refuses to start when a payout is already in flight or confirmed, and escalates when the attempt
+ * budget is spent or an earlier attempt stopped between signing and recording its broadcast.
+ */
+export const beginSettlementAttempt = internalMutation({
+  args: {
+    policyId: v.id("policies"),
+  },
+  handler: async (ctx, args): Promise<
+    | { started: true; pendingTxId: Id<"pendingPolicyTransactions">; attempt: number }
+    | { started: false; reason: string }
+  > => {
+    const policy = await ctx.db.get(args.policyId);
+    if (!policy) {
+      return { started: false, reason: "Policy not found" };
     }
-    
-    if (args.transactionId) {
-      updateData.settlementTransactionId = args.transactionId;
+    if (!EXERCISED_STATUSES.includes(policy.status) || policy.settlementProcessed) {
+      return { started: false, reason: `Policy is ${policy.status}, settlementProcessed=${policy.settlementProcessed}` };
     }
-    
-    if (args.error) {
-      updateData.settlementError = args.error;
+
+    const attempts = (await ctx.db
+      .query("pendingPolicyTransactions")
+      .withIndex("by_policyConvexId", q => q.eq("policyConvexId", args.policyId))
+      .collect())
+      .filter(tx => tx.actionType === SETTLEMENT_PAYOUT_ACTION_TYPE);
+
+    const inFlight = attempts.find(tx =>
+      tx.status === TransactionStatus.SUBMITTED || tx.status === TransactionStatus.CONFIRMED);
+    if (inFlight) {
+      return { started: false, reason: `Payout ${inFlight.transactionId} is already ${inFlight.status}` };
     }
-    
-    await ctx.db.patch(args.policyId, updateData);
-    
-    // Create a settlement event
-    let eventType;
-    switch (args.settlementStatus) {
-      case SettlementStatus.REQUESTED:
-        eventType = SettlementEventType.SETTLEMENT_REQUESTED;
-        break;
-      case SettlementStatus.PROCESSING:
-        eventType = SettlementEventType.SETTLEMENT_PROCESSING;
-        break;
-      case SettlementStatus.COMPLETED:
-        eventType = SettlementEventType.SETTLEMENT_COMPLETED;
-        break;
-      case SettlementStatus.FAILED:
-        eventType = SettlementEventType.SETTLEMENT_FAILED;
-        break;
-      default:
-        eventType = SettlementEventType.SETTLEMENT_REQUESTED;
+
+    const now = Date.now();
+    const unfinished = attempts.find(tx => tx.status === TransactionStatus.PENDING);
+    if (unfinished) {
+      if (now - (unfinished.lastAttemptedAt ?? unfinished.createdAt) < SETTLEMENT_ATTEMPT_LEASE_MS) {
+        return { started: false, reason: "Another settlement attempt is in progress" };
+      }
+      const error = "Settlement attempt stopped before its broadcast was recorded; check the chain before retrying";
+      await ctx.db.patch(unfinished._id, { status: TransactionStatus.FAILED, error, updatedAt: now });
+      await setSettlementStatus(ctx, args.policyId, SettlementStatus.ESCALATED, { error, pendingTxId: unfinished._id });
+      return { started: false, reason: error };
     }
-    
-    await ctx.db.insert("policyEvents", {
+
+    const failedAttempts = attempts.filter(tx => tx.status === TransactionStatus.FAILED).length;
+    if (failedAttempts >= MAX_SETTLEMENT_ATTEMPTS) {
+      const error = `Settlement failed ${failedAttempts} times`;
+      await setSettlementStatus(ctx, args.policyId, SettlementStatus.ESCALATED, { error });
+      return { started: false, reason: error };
+    }
+
+    const attempt = failedAttempts + 1;
+    const pendingTxId = await ctx.db.insert("pendingPolicyTransactions", {
+      actionType: SETTLEMENT_PAYOUT_ACTION_TYPE,
+      status: TransactionStatus.PENDING,
+      payload: { policyId: args.policyId, attempt },
+      createdAt: now,
+      updatedAt: now,
+      lastAttemptedAt: now,
+      retryCount: failedAttempts,
       policyConvexId: args.policyId,
-      eventType,
-      data: {
-        settlementStatus: args.settlementStatus,
-        transactionId: args.transactionId,
-        error: args.error,
+      userId: policy.owner,
+    });
+    await setSettlementStatus(ctx, args.policyId, SettlementStatus.PROCESSING, { pendingTxId, attempt });
+    return { started: true, pendingTxId, attempt };
+  }
+});
+
+/**
+ * Records that a settlement payout was broadcast.
+ */
+export const recordSettlementBroadcast = internalMutation({
+  args: {
+    pendingTxId: v.id("pendingPolicyTransactions"),
+    transactionId: v.string(),
+    settlementPrice: v.number(), // Expected expiration price; the registry reads its own from the oracle
+    settlementAmount: v.number(), // Expected payout in USD
+    token: v.string(),
+    recipient: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const pendingTx = await ctx.db.get(args.pendingTxId);
+    if (!pendingTx || !pendingTx.policyConvexId) {
+      throw new Error(`Settlement attempt not found with ID: ${args.pendingTxId}`);
+    }
+    const now = Date.now();
+    await ctx.db.patch(args.pendingTxId, {
+      status: TransactionStatus.SUBMITTED,
+      transactionId: args.transactionId,
+      payload: {
+        ...pendingTx.payload,
+        settlementPrice: args.settlementPrice,
+        settlementAmount: args.settlementAmount,
+        token: args.token,
+        recipient: args.recipient,
       },
-      timestamp: Date.now(),
+      updatedAt: now,
+    });
+    await ctx.db.patch(pendingTx.policyConvexId, {
+      settlementPrice: args.settlementPrice,
+      settlementAmount: args.settlementAmount,
+    });
+    await setSettlementStatus(ctx, pendingTx.policyConvexId, SettlementStatus.SUBMITTED, {
+      transactionId: args.transactionId,
+      pendingTxId: args.pendingTxId,
+    });
+  }
+});
+
+/**
+ * Marks a settlement attempt as failed. The policy is escalated once MAX_SETTLEMENT_ATTEMPTS is reached
+ * or when `escalate` is set (failures that retrying cannot fix).
+ */
+export const recordSettlementAttemptFailed = internalMutation({
+  args: {
+    pendingTxId: v.id("pendingPolicyTransactions"),
+    error: v.string(),
+    escalate: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const pendingTx = await ctx.db.get(args.pendingTxId);
+    if (!pendingTx || !pendingTx.policyConvexId) {
+      throw new Error(`Settlement attempt not found with ID: ${args.pendingTxId}`);
+    }
+    if (pendingTx.status === TransactionStatus.FAILED || pendingTx.status === TransactionStatus.CONFIRMED) {
+      return;
+    }
+    await ctx.db.patch(args.pendingTxId, {
+      status: TransactionStatus.FAILED,
+      error: args.error,
+      updatedAt: Date.now(),
+    });
+
+    // The policy was settled by another transaction (e.g. a registry expiration batch)
+    const policy = await ctx.db.get(pendingTx.policyConvexId);
+    if (policy?.settlementProcessed) {
+      return;
+    }
+
+    const attempt = pendingTx.retryCount + 1;
+    const escalate = args.escalate || attempt >= MAX_SETTLEMENT_ATTEMPTS;
+    await setSettlementStatus(ctx, pendingTx.policyConvexId, escalate ? SettlementStatus.ESCALATED : SettlementStatus.FAILED, {
+      transactionId: pendingTx.transactionId,
+      error: args.error,
+      pendingTxId: args.pendingTxId,
+      attempt,
     });
-    
-    return await ctx.db.get(args.policyId);
   }
 });
 
+/**
+ * Points a submitted payout at the fee-bumped transaction that replaced its broadcast one, so
+ * the vault event from the replacement matches the attempt. Exported for signerNonces' replace-by-fee.
+ */
+export async function recordSettlementPayoutReplaced(ctx: MutationCtx, previousTxId: string, txId: string) {
+  const pendingTx = await ctx.db
+    .query("pendingPolicyTransactions")
+    .withIndex("by_transactionId", q => q.eq("transactionId", previousTxId))
+    .first();
+  if (!pendingTx || pendingTx.actionType !== SETTLEMENT_PAYOUT_ACTION_TYPE || pendingTx.status !== TransactionStatus.SUBMITTED) {
+    return;
+  }
+  const now = Date.now();
+  await ctx.db.patch(pendingTx._id, { transactionId: txId, updatedAt: now });
+  const policy = pendingTx.policyConvexId ? await ctx.db.get(pendingTx.policyConvexId) : null;
+  if (policy && policy.settlementTransactionId === previousTxId) {
+    await ctx.db.patch(policy._id, { settlementTransactionId: txId, updatedAt: now });
+  }
+}
+
+/**
+ * Finalizes a settlement the liquidity pool vault paid (its policy-settlement-processed event) in one
+ * transaction: marks the attempt and policy settled, logs the pool payout and charges the paid amount
+ * to the providers backing the policy pro rata to their allocations. Works for payouts this job
+ * broadcast and for expirations processed on-chain by anyone else. A settled policy is left alone,
+ * so this is safe to repeat.
+ * Exported for the chain event indexer, which calls it from its event handler.
+ */
+export async function finalizeSettlementFromChain(
+  ctx: MutationCtx,
+  policyId: Id<"policies">,
+  payout: {
+    transactionId: string;
+    blockHeight?: number;
+    token: string; // Vault token id, e.g. "STX"
+    amountPaid: number; // Base units the vault transferred to the policy owner
+    recipient: string;
+  }
+): Promise<{ finalized: boolean; tokens: string[] }> {
+  const policy = await ctx.db.get(policyId);
+  if (!policy || policy.settlementProcessed) {
+    return { finalized: false, tokens: [] };
+  }
+
+  const now = Date.now();
+  const settlementAmount = baseUnitsToToken(payout.token, payout.amountPaid);
+  const attempts = (await ctx.db
+    .query("pendingPolicyTransactions")
+    .withIndex("by_policyConvexId", q => q.eq("policyConvexId", policyId))
+    .collect())
+    .filter(tx => tx.actionType === SETTLEMENT_PAYOUT_ACTION_TYPE);
+  const attempt = attempts.find(tx => tx.transactionId === payout.transactionId);
+  if (attempt) {
+    await ctx.db.patch(attempt._id, {
+      status: TransactionStatus.CONFIRMED,
+      confirmedAt: now,
+      blockHeight: payout.blockHeight,
+      payload: { ...attempt.payload, amountPaid: payout.amountPaid, amountPaidInToken: settlementAmount },
+      updatedAt: now,
+    });
+  }
+
+  await ctx.db.patch(policyId, {
+    status: PolicyStatus.SETTLED,
+    settlementBlockHeight: payout.blockHeight,
+  });
+  await setSettlementStatus(ctx, policyId, SettlementStatus.COMPLETED, {
+    transactionId: payout.transactionId,
+    pendingTxId: attempt?._id,
+  });
+
+  const allocations = await ctx.db
+    .query("policy_allocations")
+    .withIndex("by_policy_status", q => q.eq("policy_id", policyId).eq("status", AllocationStatus.ACTIVE))
+    .collect();
+  const totalAllocated = allocations.reduce((sum, allocation) => sum + allocation.allocated_amount, 0);
+  const providerContributions = allocations.map(allocation => ({
+    provider: allocation.provider,
+    token: allocation.token,
+    tier: allocation.risk_tier,
+    amountSettledFromProvider: totalAllocated > 0 ? settlementAmount * (allocation.allocated_amount / totalAllocated) : 0,
+  }));
+  if (allocations.length === 0) {
+    console.error(`No active allocations found for settled policy ${policyId}; provider capital was not adjusted.`);
+  }
+
+  for (const contribution of providerContributions) {
+    await ctx.runMutation(internal.liquidityPool.settlementProcessing.adjustProviderCapitalForSettlement, {
+      provider: contribution.provider,
+      token: contribution.token,
+      amountSettled: contribution.amountSettledFromProvider,
+      tier: contribution.tier,
+      policyId,
+    });
+  }
+
+  await ctx.runMutation(internal.liquidityPool.transactionManager.logGenericPoolTransaction, {
+    tx_id: `settlement-${policyId}-${payout.transactionId}`,
+    tx_type: TransactionType.SETTLEMENT,
+    amount: settlementAmount,
+    token: payout.token,
+    status: PoolTransactionStatus.CONFIRMED,
+    chain_tx_id: payout.transactionId,
+    policy_id: policyId,
+    description: `Settlement paid for policy ${policyId} to ${payout.recipient}. Amount: ${settlementAmount} ${payout.token}.`,
+    provider: "SYSTEM_SETTLEMENT",
+    timestamp: now,
+    metadata: {
+      recipientAddress: payout.recipient,
+      blockHeight: payout.blockHeight,
+      amountPaidBaseUnits: payout.amountPaid,
+      settlementPrice: policy.settlementPrice,
+      providerContributions,
+    },
+  });
+
+  const tokens = [...new Set(providerContributions.map(contribution => contribution.token))];
+  await ctx.scheduler.runAfter(0, internal.liquidityPool.policyLifecycle.releaseCollateral, {
+    policyId,
+    reason: AllocationStatus.EXERCISED,
+  });
+  for (const token of tokens) {
+    await ctx.scheduler.runAfter(0, internal.liquidityPool.poolState.updatePoolMetrics, { token });
+  }
+  return { finalized: true, tokens };
+}
+
+export const finalizeSettlementPayout = internalMutation({
+  args: {
+    policyId: v.id("policies"),
+    transactionId: v.string(),
+    blockHeight: v.optional(v.number()),
+    token: v.string(),
+    amountPaid: v.number(),
+    recipient: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ finalized: boolean; tokens: string[] }> => {
+    const { policyId, ...payout } = args;
+    return await finalizeSettlementFromChain(ctx, policyId, payout);
+  }
+});
+
+/**
+ * Price of the underlying at the policy's expiration: the price recorded when the chain processed
+ * the expiration if we have it, otherwise the oracle's price at the expiration height.
+ */
+async function getSettlementPrice(ctx: ActionCtx, policy: Doc<"policies">): Promise<number> {
+  if (policy.settlementPrice !== undefined && policy.settlementPrice > 0) {
+    return policy.settlementPrice;
+  }
+  const price = await getOraclePriceAtHeight(policy.expirationHeight, {
+    lookupRecordedPrice: recordedOraclePriceLookup(ctx),
+  });
+  if (!price.success || !price.priceInUSD) {
+    throw new Error(`No oracle price at expiration height ${policy.expirationHeight}: ${price.error}`);
+  }
+  return price.priceInUSD;
+}
+
+/**
+ * Broadcasts the registry's expiration processing for a started settlement attempt. The registry
+ * computes the payout on-chain and has the vault pay it; the expected amount is only recorded here.
+ * @returns The settlement outcome for job stats
+ */
+async function submitSettlementPayout(
+  ctx: ActionCtx,
+  policy: Doc<"policies">,
+  pendingTxId: Id<"pendingPolicyTransactions">
+): Promise<"submitted" | "failed"> {
+  let settlementPrice: number;
+  let settlementAmount: number;
+  try {
+    settlementPrice = await getSettlementPrice(ctx, policy);
+    settlementAmount = calculateSettlementAmount(
+      policy.policyType as PolicyType,
+      policy.protectedValue,
+      policy.protectionAmount,
+      settlementPrice
+    );
+  } catch (error: any) {
+    await ctx.runMutation(internal.settlementJobs.recordSettlementAttemptFailed, {
+      pendingTxId,
+      error: error.message || "Failed to determine settlement price",
+    });
+    return "failed";
+  }
+
+  if (!policy.onChainPolicyId || settlementAmount <= 0) {
+    // Nothing can be paid; retrying will not change that
+    await ctx.runMutation(internal.settlementJobs.recordSettlementAttemptFailed, {
+      pendingTxId,
+      error: !policy.onChainPolicyId
+        ? "Policy has no on-chain ID"
+        : `Settlement amount is ${settlementAmount} at expiration price ${settlementPrice}`,
+      escalate: true,
+    });
+    return "failed";
+  }
+
+  const networkEnv = getNetworkEnvironment();
+  const token = policy.collateralToken.toUpperCase() === TokenType.SBTC ? TokenType.SBTC : TokenType.STX;
+  const nonceManager = createNonceManager(ctx, FEE_OPERATION.SETTLEMENT_PAYOUT);
+  let lease;
+  try {
+    lease = await nonceManager.acquire(getBackendAddress(networkEnv));
+  } catch (error: any) {
+    await ctx.runMutation(internal.settlementJobs.recordSettlementAttemptFailed, {
+      pendingTxId,
+      error: `Failed to lease signer nonce: ${error.message}`,
+    });
+    return "failed";
+  }
+
+  const txResult = await buildProcessPolicyExpirationTransaction({
+    policyId: policy.onChainPolicyId,
+    collateralToken: token,
+    network: networkEnv,
+    options: { nonce: lease.nonce },
+  });
+  if (!txResult.success || !txResult.data) {
+    await nonceManager.release(lease, "Failed to build expiration processing transaction");
+    await ctx.runMutation(internal.settlementJobs.recordSettlementAttemptFailed, {
+      pendingTxId,
+      error: String(txResult.error),
+    });
+    return "failed";
+  }
+
+  let broadcastResult;
+  try {
+    const serializedTx = await signTransaction(txResult.data);
+    broadcastResult = await broadcastSignedTransaction(serializedTx, networkEnv, txResult.data);
+  } catch (error: any) {
+    broadcastResult = { success: false, error: error.message };
+  }
+  if (!broadcastResult.success || !broadcastResult.txId) {
+    await nonceManager.release(lease, broadcastResult.error || "Broadcast returned no transaction ID");
+    await ctx.runMutation(internal.settlementJobs.recordSettlementAttemptFailed, {
+      pendingTxId,
+      error: broadcastResult.error || "Broadcast returned no transaction ID",
+    });
+    return "failed";
+  }
+
+  await nonceManager.markBroadcast(lease, {
+    txId: broadcastResult.txId,
+    rawTx: serializeTransactionHex(txResult.data.__signedTransaction),
+    fee: Number(txResult.data.fee),
+  });
+
+  await ctx.runMutation(internal.settlementJobs.recordSettlementBroadcast, {
+    pendingTxId,
+    transactionId: broadcastResult.txId,
+    settlementPrice,
+    settlementAmount,
+    token,
+    recipient: policy.owner,
+  });
+  return "submitted";
+}
+
 /**
  * Scheduled job to process settlements for exercised policies.
  * Implements CV-PR-214 from the implementation roadmap.
  * 
  * This job:
- * 1. Queries exercised policies that need settlement
- * 2. Processes each settlement via mock blockchain integration
- * 3. Updates policy and settlement status
+ * 1. Checks broadcast payouts and records failed ones; confirmed ones are finalized by the chain
+ *    event indexer from the vault's policy-settlement-processed event
+ * 2. Queries exercised policies that need settlement
+ * 3. Settles each one through the registry's process-single-policy-at-expiration, retrying
+ *    failures up to MAX_SETTLEMENT_ATTEMPTS before escalating
  * 
  * @returns Summary of processed settlements
  */
 export const processSettlementsJob = internalAction({
   handler: async (ctx): Promise<{
     policiesProcessed: number;
-    settlementSuccesses: number;
+    settlementsSubmitted: number;
+    settlementsConfirmed: number;
     settlementFailures: number;
+    settlementsSkipped: number;
   }> => {
     console.log("Running scheduled job: processSettlementsJob");
     
     // Track stats for reporting
     const stats = {
       policiesProcessed: 0,
-      settlementSuccesses: 0,
+      settlementsSubmitted: 0,
+      settlementsConfirmed: 0,
       settlementFailures: 0,
+      settlementsSkipped: 0,
     };
+    const networkEnv = getNetworkEnvironment();
     
     try {
-      // 1. Query exercised policies that need settlement
+      // 1. Follow up on payouts that were already broadcast
+      const submittedPayouts = await ctx.runQuery(internal.settlementJobs.getSubmittedSettlementPayouts, {});
+      for (const payout of submittedPayouts) {
+        try {
+          const txStatus = await checkTransactionStatus(payout.transactionId!, networkEnv);
+          if (txStatus.status === ChainTransactionStatus.CONFIRMED) {
+            // Awaiting the vault's settlement event from the indexer
+            stats.settlementsConfirmed++;
+          } else if (txStatus.status === ChainTransactionStatus.FAILED) {
+            // REPLACED stays pending: the nonce monitor repoints the attempt at the fee-bumped replacement
+            await ctx.runMutation(internal.settlementJobs.recordSettlementAttemptFailed, {
+              pendingTxId: payout._id,
+              error: txStatus.error || `Payout transaction ${txStatus.status}`,
+            });
+            stats.settlementFailures++;
+          }
+        } catch (error: any) {
+          console.error(`Error checking settlement payout ${payout._id}:`, error);
+        }
+      }
+
+      // 2. Query exercised policies that need settlement
       const policiesToSettle = await ctx.runQuery(internal.settlementJobs.getPoliciesForSettlement, {});
       
       stats.policiesProcessed = policiesToSettle.length;
       console.log(`Found ${policiesToSettle.length} policies for settlement processing`);
       
-      // 2. Process each settlement
+      // 3. Process each settlement
       for (const policy of policiesToSettle) {
         try {
-          // Update status to Processing
-          await ctx.runMutation(internal.settlementJobs.updateSettlementStatus, {
+          const attempt = await ctx.runMutation(internal.settlementJobs.beginSettlementAttempt, {
             policyId: policy._id,
-            settlementStatus: SettlementStatus.PROCESSING,
           });
-          
-          // Process the settlement (mock for now)
-          const settlementResult = await mockProcessSettlement(
-            policy._id,
-            (policy as any).settlementAmount || 0 // Using any casting since field might not exist in type
-          );
-          
-          if (settlementResult.success) {
-            // Settlement successful
-            await ctx.runMutation(internal.settlementJobs.updateSettlementStatus, {
-              policyId: policy._id,
-              settlementStatus: SettlementStatus.COMPLETED,
-              transactionId: settlementResult.transactionId,
-            });
-            stats.settlementSuccesses++;
+          if (!attempt.started) {
+            console.log(`Skipping settlement for policy ${policy._id}: ${attempt.reason}`);
+            stats.settlementsSkipped++;
+            continue;
+          }
+
+          const outcome = await submitSettlementPayout(ctx, policy, attempt.pendingTxId);
+          if (outcome === "submitted") {
+            stats.settlementsSubmitted++;
           } else {
-            // Settlement failed
-            await ctx.runMutation(internal.settlementJobs.updateSettlementStatus, {
-              policyId: policy._id,
-              settlementStatus: SettlementStatus.FAILED,
-              error: settlementResult.error,
-            });
             stats.settlementFailures++;
           }
-          
         } catch (error: any) {
           console.error(`Error processing settlement for policy ${policy._id}:`, error);
-          
-          // Update settlement status to Failed
-          await ctx.runMutation(internal.settlementJobs.updateSettlementStatus, {
-            policyId: policy._id,
-            settlementStatus: SettlementStatus.FAILED,
-            error: error.message || "Unknown error during settlement processing",
-          });
-          
           stats.settlementFailures++;
         }
       }
@@ -239,4 +672,4 @@ export const processSettlementsJob = internalAction({
       return stats;
     }
   }
-}); 
\ No newline at end of file
+});
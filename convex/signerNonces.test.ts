@@ -0,0 +1,153 @@
+import { convexTest, TestConvex } from "convex-test";
+import { expect, test, describe, beforeEach, afterEach, vi } from "vitest";
+import schema from "./schema";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { NONCE_LEASE_STATUS } from "./signerNonces";
+import { FEE_OPERATION, getFeePolicy } from "./blockchain/common/fees";
+
+const SIGNER = "ST1SIGNER";
+
+describe("signer nonce leases", () => {
+  let t: TestConvex<typeof schema>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    t = convexTest(schema);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const lease = (purpose: string = FEE_OPERATION.ORACLE_SUBMISSION, chainNonce?: number) =>
+    t.mutation(internal.signerNonces.leaseNonce, { signerAddress: SIGNER, purpose, chainNonce });
+
+  async function leaseOrFail(purpose?: string, chainNonce?: number): Promise<{ leaseId: Id<"nonceLeases">; nonce: number }> {
+    const result = await lease(purpose, chainNonce);
+    if (!result) throw new Error("No lease");
+    return result;
+  }
+
+  const broadcast = (leaseId: Id<"nonceLeases">, txId: string) =>
+    t.mutation(internal.signerNonces.markNonceBroadcast, { leaseId, txId, rawTx: "00", fee: 10_000 });
+
+  const getLease = (leaseId: Id<"nonceLeases">) => t.run(async (ctx) => (await ctx.db.get(leaseId))!);
+
+  test("needs the chain nonce before the signer's first lease", async () => {
+    expect(await lease()).toBeNull();
+    expect((await leaseOrFail(undefined, 12)).nonce).toBe(12);
+  });
+
+  test("concurrent leases get distinct consecutive nonces", async () => {
+    await leaseOrFail(undefined, 5);
+    const leases = await Promise.all([lease(), lease(), lease()]);
+    expect(leases.map((l) => l!.nonce).sort()).toEqual([6, 7, 8]);
+  });
+
+  test("a released nonce is reused before any new one", async () => {
+    const first = await leaseOrFail(undefined, 0);
+    const second = await leaseOrFail();
+    await t.mutation(internal.signerNonces.releaseNonce, { leaseId: first.leaseId, error: "build failed" });
+
+    const reused = await leaseOrFail(FEE_OPERATION.SETTLEMENT_PAYOUT);
+    expect(reused).toEqual(first);
+    expect((await getLease(reused.leaseId)).purpose).toBe(FEE_OPERATION.SETTLEMENT_PAYOUT);
+    expect((await leaseOrFail()).nonce).toBe(second.nonce + 1);
+  });
+
+  test("releasing a broadcast lease does not hand its nonce out again", async () => {
+    const first = await leaseOrFail(undefined, 0);
+    await broadcast(first.leaseId, "0xa");
+    await t.mutation(internal.signerNonces.releaseNonce, { leaseId: first.leaseId, error: "late failure" });
+    expect((await leaseOrFail()).nonce).toBe(1);
+  });
+
+  test("reclaims a lease whose holder never reported back", async () => {
+    const first = await leaseOrFail(undefined, 0);
+    vi.advanceTimersByTime(3 * 60 * 1000);
+    expect((await leaseOrFail()).nonce).toBe(first.nonce);
+  });
+
+  describe("syncSignerNonces", () => {
+    test("confirms executed broadcasts, queues gaps and reports dropped transactions", async () => {
+      const leases = [await leaseOrFail(undefined, 0), await leaseOrFail(), await leaseOrFail()];
+      await broadcast(leases[0].leaseId, "0xa");
+      await broadcast(leases[2].leaseId, "0xc");
+
+      const sync = await t.mutation(internal.signerNonces.syncSignerNonces, {
+        signerAddress: SIGNER,
+        lastExecutedNonce: 0,
+        possibleNextNonce: 5,
+        missingNonces: [1, 2, 3, 4],
+      });
+      expect(sync).toEqual({ confirmed: 1, gapsQueued: [3, 4], dropped: [leases[2].leaseId] });
+      expect((await getLease(leases[0].leaseId)).status).toBe(NONCE_LEASE_STATUS.CONFIRMED);
+      expect((await getLease(leases[1].leaseId)).status).toBe(NONCE_LEASE_STATUS.LEASED);
+
+      // Queued gaps are leased before the node's next nonce
+      expect((await leaseOrFail()).nonce).toBe(3);
+      expect((await leaseOrFail()).nonce).toBe(4);
+      expect((await leaseOrFail()).nonce).toBe(5);
+    });
+
+    test("never reuses a nonce at or below the last executed one", async () => {
+      const first = await leaseOrFail(undefined, 0);
+      await leaseOrFail();
+      await t.mutation(internal.signerNonces.releaseNonce, { leaseId: first.leaseId, error: "build failed" });
+      await t.mutation(internal.signerNonces.syncSignerNonces, {
+        signerAddress: SIGNER,
+        lastExecutedNonce: 0,
+        possibleNextNonce: 2,
+        missingNonces: [],
+      });
+      expect((await leaseOrFail()).nonce).toBe(2);
+    });
+  });
+
+  test("a broadcast lease is stuck once its operation's fee-bump deadline passes", async () => {
+    const oracle = await leaseOrFail(FEE_OPERATION.ORACLE_SUBMISSION, 0);
+    const premium = await leaseOrFail(FEE_OPERATION.PREMIUM_DISTRIBUTION);
+    await broadcast(oracle.leaseId, "0xa");
+    await broadcast(premium.leaseId, "0xb");
+
+    const stuckAt = (now: number) =>
+      t.query(internal.signerNonces.getStuckNonceLeases, { signerAddress: SIGNER, now }).then((leases) => leases.map((l) => l.nonce));
+    const broadcastAt = Date.now();
+    const oracleDeadline = broadcastAt + getFeePolicy(FEE_OPERATION.ORACLE_SUBMISSION).bumpAfterMs;
+    expect(await stuckAt(oracleDeadline)).toEqual([]);
+    expect(await stuckAt(oracleDeadline + 1)).toEqual([0]);
+
+    vi.advanceTimersByTime(getFeePolicy(FEE_OPERATION.ORACLE_SUBMISSION).bumpAfterMs);
+    await t.mutation(internal.signerNonces.recordNonceRebroadcast, {
+      leaseId: oracle.leaseId,
+      outcome: "replaced",
+      txId: "0xa2",
+      rawTx: "01",
+      fee: 15_000,
+    });
+    expect(await stuckAt(oracleDeadline + 1)).toEqual([]);
+    expect((await getLease(oracle.leaseId)).previousTxIds).toEqual(["0xa"]);
+
+    const premiumDeadline = broadcastAt + getFeePolicy(FEE_OPERATION.PREMIUM_DISTRIBUTION).bumpAfterMs;
+    expect(await stuckAt(premiumDeadline + 1)).toEqual([0, 1]);
+  });
+
+  test("failed rebroadcasts count toward abandoning the lease", async () => {
+    const stuck = await leaseOrFail(undefined, 0);
+    await broadcast(stuck.leaseId, "0xa");
+    for (let attempt = 0; attempt < 2; attempt++) {
+      await t.mutation(internal.signerNonces.recordNonceRebroadcast, {
+        leaseId: stuck.leaseId,
+        outcome: "failed",
+        error: "Unconfirmed at fee cap 10000",
+      });
+    }
+    expect(await getLease(stuck.leaseId)).toMatchObject({
+      status: NONCE_LEASE_STATUS.BROADCAST,
+      rebroadcastCount: 2,
+      txId: "0xa",
+      error: "Unconfirmed at fee cap 10000",
+    });
+  });
+});
@@ -0,0 +1,574 @@
+/**
+ * Signer Nonce Allocator
+ *
+ * Oracle submissions, premium distributions, batch expirations and settlement payouts all sign
+ * with the backend key. Fetching the account nonce per transaction lets concurrent actions sign
+ * with the same nonce, so nonces are leased from the database instead. A lease is marked broadcast
+ * or released (and then handed out again before any new nonce). A cron syncs with the node to
+ * confirm mined nonces, queue gaps for reuse by the next lease, and replace-by-fee transactions
+ * that were dropped or sit past their operation's fee-bump deadline (see blockchain/common/fees.ts).
+ */
+
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery, query, ActionCtx, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getNetworkEnvironment, fetchAccountNonceInfo, AccountNonceInfo } from "./blockchain/common/network";
+import {
+  NonceLease,
+  NonceManager,
+  checkTransactionStatus,
+  getBackendAddress,
+  rebroadcastWithFee,
+} from "./blockchain/common/transaction";
+import { getFeePolicy, estimateReplacementFee } from "./blockchain/common/fees";
+import { recordOracleSubmissionReplaced } from "./oracleSubmissions";
+import { recordReinvestmentReplaced } from "./premiumReinvestmentJobs";
+import { recordSettlementPayoutReplaced } from "./settlementJobs";
+import { resolveSignerKey } from "./oracleSigners";
+import { NetworkEnvironment, TransactionStatus } from "./blockchain/common/types";
+
+export const NONCE_LEASE_STATUS = {
+  LEASED: "leased",
+  BROADCAST: "broadcast",
+  CONFIRMED: "confirmed",
+  RELEASED: "released", // Never reached the mempool; reused before any new nonce
+  ABANDONED: "abandoned", // Rebroadcast budget spent; needs manual attention
+} as const;
+
+const NONCE_LEASE_TTL_MS = 2 * 60 * 1000; // A lease not broadcast by then is reclaimed
+const MAX_REBROADCASTS = 5; // Rebroadcast attempts, failed ones included, before a lease is abandoned
+const GAP_PURPOSE = "gap";
+
+async function getState(ctx: { db: MutationCtx["db"] }, signerAddress: string): Promise<Doc<"signerNonceState"> | null> {
+  return await ctx.db
+    .query("signerNonceState")
+    .withIndex("by_signerAddress", q => q.eq("signerAddress", signerAddress))
+    .unique();
+}
+
+async function getLeaseByNonce(ctx: { db: MutationCtx["db"] }, signerAddress: string, nonce: number): Promise<Doc<"nonceLeases"> | null> {
+  return await ctx.db
+    .query("nonceLeases")
+    .withIndex("by_signer_nonce", q => q.eq("signerAddress", signerAddress).eq("nonce", nonce))
+    .first();
+}
+
+/**
+ * Leases the lowest reusable nonce for a signer, or the next new one. Returns null when the signer
+ * has no state yet and no chain nonce was passed; the caller then reads the node and calls again.
+ */
+export const leaseNonce = internalMutation({
+  args: {
+    signerAddress: v.string(),
+    purpose: v.string(),
+    chainNonce: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<{ leaseId: Id<"nonceLeases">; nonce: number } | null> => {
+    const now = Date.now();
+    let state = await getState(ctx, args.signerAddress);
+    if (!state) {
+      if (args.chainNonce === undefined) {
+        return null;
+      }
+      const stateId = await ctx.db.insert("signerNonceState", {
+        signerAddress: args.signerAddress,
+        nextNonce: args.chainNonce,
+        updatedAt: now,
+      });
+      state = (await ctx.db.get(stateId))!;
+    } else if (args.chainNonce !== undefined && args.chainNonce > state.nextNonce) {
+      await ctx.db.patch(state._id, { nextNonce: args.chainNonce, updatedAt: now });
+      state = { ...state, nextNonce: args.chainNonce };
+    }
+
+    // Reclaim leases whose holder never reported back
+    const leased = await ctx.db
+      .query("nonceLeases")
+      .withIndex("by_signer_status", q => q.eq("signerAddress", args.signerAddress).eq("status", NONCE_LEASE_STATUS.LEASED))
+      .collect();
+    for (const lease of leased) {
+      if (lease.leaseExpiresAt < now) {
+        await ctx.db.patch(lease._id, { status: NONCE_LEASE_STATUS.RELEASED, error: "Lease expired" });
+      }
+    }
+
+    const minUsableNonce = state.lastExecutedNonce !== undefined ? state.lastExecutedNonce + 1 : 0;
+    const reusable = (await ctx.db
+      .query("nonceLeases")
+      .withIndex("by_signer_status", q => q.eq("signerAddress", args.signerAddress).eq("status", NONCE_LEASE_STATUS.RELEASED))
+      .collect())
+      .filter(lease => lease.nonce >= minUsableNonce && lease.nonce < state!.nextNonce)
+      .sort((a, b) => a.nonce - b.nonce)[0];
+
+    if (reusable) {
+      await ctx.db.patch(reusable._id, {
+        status: NONCE_LEASE_STATUS.LEASED,
+        purpose: args.purpose,
+        leasedAt: now,
+        leaseExpiresAt: now + NONCE_LEASE_TTL_MS,
+        error: undefined,
+      });
+      return { leaseId: reusable._id, nonce: reusable.nonce };
+    }
+
+    const nonce = state.nextNonce;
+    const leaseId = await ctx.db.insert("nonceLeases", {
+      signerAddress: args.signerAddress,
+      nonce,
+      status: NONCE_LEASE_STATUS.LEASED,
+      purpose: args.purpose,
+      leasedAt: now,
+      leaseExpiresAt: now + NONCE_LEASE_TTL_MS,
+      rebroadcastCount: 0,
+    });
+    await ctx.db.patch(state._id, { nextNonce: nonce + 1, updatedAt: now });
+    return { leaseId, nonce };
+  },
+});
+
+/**
+ * Records that the transaction holding a lease reached the mempool.
+ */
+export const markNonceBroadcast = internalMutation({
+  args: {
+    leaseId: v.id("nonceLeases"),
+    txId: v.string(),
+    rawTx: v.string(),
+    fee: v.number(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.leaseId, {
+      status: NONCE_LEASE_STATUS.BROADCAST,
+      txId: args.txId,
+      rawTx: args.rawTx,
+      fee: args.fee,
+      broadcastAt: Date.now(),
+      error: undefined,
+    });
+  },
+});
+
+/**
+ * Returns a lease whose transaction never reached the mempool so its nonce is reused.
+ */
+export const releaseNonce = internalMutation({
+  args: {
+    leaseId: v.id("nonceLeases"),
+    error: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const lease = await ctx.db.get(args.leaseId);
+    if (!lease || lease.status !== NONCE_LEASE_STATUS.LEASED) {
+      return;
+    }
+    await ctx.db.patch(args.leaseId, { status: NONCE_LEASE_STATUS.RELEASED, error: args.error });
+  },
+});
+
+/**
+ * Reconciles a signer's leases with the node's view of its nonces.
+ * - broadcast leases at or below the last executed nonce are confirmed
+ * - missing nonces with no live lease become released "gap" leases so the next lease fills them.
+ *   Nothing is broadcast into a gap here, so the signer's later transactions stay stuck in the
+ *   mempool until its next transaction takes the gap's nonce.
+ * @returns The gaps queued for reuse, and broadcast leases the node reports as missing (dropped from the mempool)
+ */
+export const syncSignerNonces = internalMutation({
+  args: {
+    signerAddress: v.string(),
+    lastExecutedNonce: v.optional(v.number()),
+    possibleNextNonce: v.number(),
+    missingNonces: v.array(v.number()),
+  },
+  handler: async (ctx, args): Promise<{ confirmed: number; gapsQueued: number[]; dropped: Id<"nonceLeases">[] }> => {
+    const now = Date.now();
+    let state = await getState(ctx, args.signerAddress);
+    if (!state) {
+      const stateId = await ctx.db.insert("signerNonceState", {
+        signerAddress: args.signerAddress,
+        nextNonce: args.possibleNextNonce,
+        updatedAt: now,
+      });
+      state = (await ctx.db.get(stateId))!;
+    }
+    await ctx.db.patch(state._id, {
+      nextNonce: Math.max(state.nextNonce, args.possibleNextNonce),
+      lastExecutedNonce: args.lastExecutedNonce,
+      lastSyncedAt: now,
+      updatedAt: now,
+    });
+
+    let confirmed = 0;
+    if (args.lastExecutedNonce !== undefined) {
+      const broadcast = await ctx.db
+        .query("nonceLeases")
+        .withIndex("by_signer_status", q => q.eq("signerAddress", args.signerAddress).eq("status", NONCE_LEASE_STATUS.BROADCAST))
+        .collect();
+      for (const lease of broadcast) {
+        if (lease.nonce <= args.lastExecutedNonce) {
+          await ctx.db.patch(lease._id, { status: NONCE_LEASE_STATUS.CONFIRMED, settledAt: now });
+          confirmed++;
+        }
+      }
+    }
+
+    const gapsQueued: number[] = [];
+    const dropped: Id<"nonceLeases">[] = [];
+    for (const nonce of args.missingNonces) {
+      const lease = await getLeaseByNonce(ctx, args.signerAddress, nonce);
+      if (lease?.status === NONCE_LEASE_STATUS.BROADCAST) {
+        dropped.push(lease._id);
+      } else if (!lease) {
+        await ctx.db.insert("nonceLeases", {
+          signerAddress: args.signerAddress,
+          nonce,
+          status: NONCE_LEASE_STATUS.RELEASED,
+          purpose: GAP_PURPOSE,
+          leasedAt: now,
+          leaseExpiresAt: now,
+          rebroadcastCount: 0,
+        });
+        gapsQueued.push(nonce);
+      }
+      // Leased (in flight) and released (already queued for reuse) nonces need nothing here
+    }
+
+    return { confirmed, gapsQueued, dropped };
+  },
+});
+
+/**
+ * Broadcast leases unconfirmed past the fee-bump deadline of their operation's fee policy.
+ */
+export const getStuckNonceLeases = internalQuery({
+  args: {
+    signerAddress: v.string(),
+    now: v.number(),
+  },
+  handler: async (ctx, args): Promise<Doc<"nonceLeases">[]> => {
+    const broadcast = await ctx.db
+      .query("nonceLeases")
+      .withIndex("by_signer_status", q => q.eq("signerAddress", args.signerAddress).eq("status", NONCE_LEASE_STATUS.BROADCAST))
+      .collect();
+    return broadcast.filter(lease =>
+      (lease.lastRebroadcastAt ?? lease.broadcastAt ?? lease.leasedAt) + getFeePolicy(lease.purpose).bumpAfterMs < args.now
+    );
+  },
+});
+
+/**
+ * Points every record that tracks a broadcast transaction (oracle submissions, settlement payouts,
+ * reinvestments) at the fee-bumped replacement, so they follow whichever version is mined.
+ */
+async function recordTransactionReplaced(ctx: MutationCtx, previousTxId: string, txId: string) {
+  await recordOracleSubmissionReplaced(ctx, previousTxId, txId);
+  await recordSettlementPayoutReplaced(ctx, previousTxId, txId);
+  await recordReinvestmentReplaced(ctx, previousTxId, txId);
+}
+
+/**
+ * Records the outcome of checking or fee-bumping a stuck lease.
+ */
+export const recordNonceRebroadcast = internalMutation({
+  args: {
+    leaseId: v.id("nonceLeases"),
+    outcome: v.string(), // "replaced", "confirmed", "abandoned" or "failed"
+    txId: v.optional(v.string()),
+    rawTx: v.optional(v.string()),
+    fee: v.optional(v.number()),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const lease = await ctx.db.get(args.leaseId);
+    if (!lease) {
+      return;
+    }
+    const now = Date.now();
+    switch (args.outcome) {
+      case "replaced":
+        if (lease.txId && args.txId) {
+          await recordTransactionReplaced(ctx, lease.txId, args.txId);
+        }
+        await ctx.db.patch(args.leaseId, {
+          txId: args.txId,
+          rawTx: args.rawTx,
+          fee: args.fee,
+          previousTxIds: [...(lease.previousTxIds ?? []), ...(lease.txId ? [lease.txId] : [])],
+          rebroadcastCount: lease.rebroadcastCount + 1,
+          lastRebroadcastAt: now,
+          error: undefined,
+        });
+        break;
+      case "confirmed":
+        await ctx.db.patch(args.leaseId, { status: NONCE_LEASE_STATUS.CONFIRMED, settledAt: now, error: args.error });
+        break;
+      case "abandoned":
+        await ctx.db.patch(args.leaseId, { status: NONCE_LEASE_STATUS.ABANDONED, settledAt: now, error: args.error });
+        break;
+      default:
+        await ctx.db.patch(args.leaseId, {
+          rebroadcastCount: lease.rebroadcastCount + 1,
+          lastRebroadcastAt: now,
+          error: args.error,
+        });
+    }
+  },
+});
+
+async function syncWithNode(ctx: ActionCtx, signerAddress: string): Promise<{
+  info: AccountNonceInfo;
+  sync: { confirmed: number; gapsQueued: number[]; dropped: Id<"nonceLeases">[] };
+}> {
+  const info = await fetchAccountNonceInfo(signerAddress);
+  const sync = await ctx.runMutation(internal.signerNonces.syncSignerNonces, {
+    signerAddress,
+    lastExecutedNonce: info.lastExecutedNonce ?? undefined,
+    possibleNextNonce: info.possibleNextNonce,
+    missingNonces: info.missingNonces,
+  });
+  return { info, sync };
+}
+
+/**
+ * NonceManager backed by the nonceLeases table, for passing to buildSignAndBroadcastTransaction.
+ * @param ctx Action context of the caller
+ * @param purpose Recorded on each lease, e.g. "oracle-submission"
+ */
+export function createNonceManager(ctx: ActionCtx, purpose: string): NonceManager {
+  return {
+    async acquire(senderAddress: string): Promise<NonceLease> {
+      let lease = await ctx.runMutation(internal.signerNonces.leaseNonce, { signerAddress: senderAddress, purpose });
+      if (!lease) {
+        const info = await fetchAccountNonceInfo(senderAddress);
+        lease = await ctx.runMutation(internal.signerNonces.leaseNonce, {
+          signerAddress: senderAddress,
+          purpose,
+          chainNonce: info.possibleNextNonce,
+        });
+      }
+      return { leaseId: lease!.leaseId, nonce: lease!.nonce };
+    },
+    async markBroadcast(lease, broadcast) {
+      await ctx.runMutation(internal.signerNonces.markNonceBroadcast, {
+        leaseId: lease.leaseId as Id<"nonceLeases">,
+        ...broadcast,
+      });
+    },
+    async release(lease, error) {
+      await ctx.runMutation(internal.signerNonces.releaseNonce, { leaseId: lease.leaseId as Id<"nonceLeases">, error });
+    },
+    async resync(senderAddress: string) {
+      await syncWithNode(ctx, senderAddress);
+    },
+  };
+}
+
+type MonitorStats = { confirmed: number; gapsQueued: number; rebroadcast: number; abandoned: number };
+
+/**
+ * Key to re-sign a signer's transactions with: undefined for the backend signer (its default key),
+ * the registered oracle signer's key otherwise.
+ * @returns null when no key for the signer can be resolved
+ */
+async function resolveRebroadcastKey(
+  ctx: ActionCtx,
+  signerAddress: string,
+  networkEnv: NetworkEnvironment
+): Promise<string | undefined | null> {
+  try {
+    if (signerAddress === getBackendAddress(networkEnv)) {
+      return undefined;
+    }
+  } catch {
+    // Backend signer not configured; the address can still be an oracle signer
+  }
+  const signer = await ctx.runQuery(internal.oracleSigners.getOracleSignerByAddress, { address: signerAddress });
+  if (!signer) {
+    console.warn(`No key known for signer ${signerAddress}; its stuck transactions are not rebroadcast`);
+    return null;
+  }
+  try {
+    return resolveSignerKey(signer.keyEnvVar, signer.address, networkEnv);
+  } catch (error: any) {
+    console.warn(`Cannot rebroadcast for oracle signer ${signerAddress}: ${error.message}`);
+    return null;
+  }
+}
+
+/**
+ * Sync one signer's nonces with the node and fee-bump its stuck or dropped transactions.
+ */
+async function monitorSigner(ctx: ActionCtx, signerAddress: string, networkEnv: NetworkEnvironment, stats: MonitorStats) {
+  try {
+    const { sync } = await syncWithNode(ctx, signerAddress);
+    stats.confirmed += sync.confirmed;
+    stats.gapsQueued += sync.gapsQueued.length;
+    if (sync.gapsQueued.length > 0) {
+      console.warn(`Nonce gaps ${sync.gapsQueued.join(", ")} for ${signerAddress} are queued for the next leases; later transactions stall until then`);
+    }
+
+    const stuck: Doc<"nonceLeases">[] = await ctx.runQuery(internal.signerNonces.getStuckNonceLeases, {
+      signerAddress,
+      now: Date.now(),
+    });
+    const droppedIds = new Set<string>(sync.dropped);
+    const candidates = stuck.filter(lease => !droppedIds.has(lease._id));
+    for (const leaseId of sync.dropped) {
+      const lease: Doc<"nonceLeases"> | null = await ctx.runQuery(internal.signerNonces.getNonceLease, { leaseId });
+      if (lease) {
+        candidates.push(lease);
+      }
+    }
+
+    let senderKey: string | undefined | null = null;
+    let keyResolved = false;
+    for (const lease of candidates) {
+      const isDropped = droppedIds.has(lease._id);
+      if (!isDropped && lease.txId) {
+        const txStatus = await checkTransactionStatus(lease.txId, networkEnv);
+        if (txStatus.status === TransactionStatus.CONFIRMED || txStatus.status === TransactionStatus.FAILED) {
+          // A transaction that aborted in a block still consumed its nonce
+          await ctx.runMutation(internal.signerNonces.recordNonceRebroadcast, {
+            leaseId: lease._id,
+            outcome: "confirmed",
+            error: txStatus.error,
+          });
+          stats.confirmed++;
+          continue;
+        }
+      }
+
+      if (!lease.rawTx || lease.rebroadcastCount >= MAX_REBROADCASTS) {
+        await ctx.runMutation(internal.signerNonces.recordNonceRebroadcast, {
+          leaseId: lease._id,
+          outcome: "abandoned",
+          error: !lease.rawTx ? "No signed transaction stored to rebroadcast" : `Still unconfirmed after ${lease.rebroadcastCount} rebroadcast attempts`,
+        });
+        console.error(`Nonce ${lease.nonce} for ${signerAddress} abandoned (tx ${lease.txId}); later transactions may stall until it is filled.`);
+        stats.abandoned++;
+        continue;
+      }
+
+      if (!keyResolved) {
+        senderKey = await resolveRebroadcastKey(ctx, signerAddress, networkEnv);
+        keyResolved = true;
+      }
+      if (senderKey === null) {
+        continue;
+      }
+
+      const currentFee = lease.fee ?? getFeePolicy(lease.purpose).minFee;
+      let fee = await estimateReplacementFee(lease.rawTx, currentFee, lease.purpose, networkEnv);
+      if (fee === null) {
+        if (!isDropped) {
+          // Already paying the policy cap; a higher fee would need a policy change
+          console.warn(`Nonce ${lease.nonce} (${lease.purpose}) is stuck at the fee cap of ${currentFee}`);
+          await ctx.runMutation(internal.signerNonces.recordNonceRebroadcast, {
+            leaseId: lease._id,
+            outcome: "failed",
+            error: `Unconfirmed at fee cap ${currentFee}`,
+          });
+          continue;
+        }
+        // A dropped transaction can go back in at the same fee
+        fee = currentFee;
+      }
+      const result = await rebroadcastWithFee(lease.rawTx, fee, networkEnv, senderKey);
+      if (result.success && result.txId) {
+        await ctx.runMutation(internal.signerNonces.recordNonceRebroadcast, {
+          leaseId: lease._id,
+          outcome: "replaced",
+          txId: result.txId,
+          rawTx: result.data.rawTx,
+          fee,
+        });
+        console.log(`Rebroadcast nonce ${lease.nonce} (${isDropped ? "dropped" : "stuck"}) with fee ${fee}: ${lease.txId} -> ${result.txId}`);
+        stats.rebroadcast++;
+      } else {
+        await ctx.runMutation(internal.signerNonces.recordNonceRebroadcast, {
+          leaseId: lease._id,
+          outcome: "failed",
+          error: result.error,
+        });
+      }
+    }
+  } catch (error: any) {
+    console.error(`Error monitoring nonces for ${signerAddress}:`, error);
+  }
+}
+
+/**
+ * Every signer that has leased a nonce (the backend key and any oracle signers).
+ */
+export const listSignerAddresses = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<string[]> => {
+    const states = await ctx.db.query("signerNonceState").collect();
+    return states.map(state => state.signerAddress);
+  },
+});
+
+/**
+ * Scheduled job: sync each backend signer's nonces with the node and fee-bump stuck or dropped transactions.
+ */
+export const monitorSignerNonces = internalAction({
+  handler: async (ctx): Promise<MonitorStats> => {
+    const stats: MonitorStats = { confirmed: 0, gapsQueued: 0, rebroadcast: 0, abandoned: 0 };
+    const networkEnv = getNetworkEnvironment();
+
+    const signerAddresses = new Set<string>(await ctx.runQuery(internal.signerNonces.listSignerAddresses, {}));
+    try {
+      signerAddresses.add(getBackendAddress(networkEnv));
+    } catch (error: any) {
+      console.warn(`Backend signer not configured, monitoring ${signerAddresses.size} known signers only: ${error.message}`);
+    }
+
+    for (const signerAddress of signerAddresses) {
+      await monitorSigner(ctx, signerAddress, networkEnv, stats);
+    }
+
+    return stats;
+  },
+});
+
+/**
+ * Single lease lookup for the monitor.
+ */
+export const getNonceLease = internalQuery({
+  args: { leaseId: v.id("nonceLeases") },
+  handler: async (ctx, args): Promise<Doc<"nonceLeases"> | null> => {
+    return await ctx.db.get(args.leaseId);
+  },
+});
+
+/**
+ * Allocator state and live leases per signer, for operations dashboards.
+ */
+export const getSignerNonceStatus = query({
+  args: {},
+  handler: async (ctx) => {
+    const states = await ctx.db.query("signerNonceState").collect();
+    return await Promise.all(states.map(async (state) => {
+      const leases = (await ctx.db
+        .query("nonceLeases")
+        .withIndex("by_signer_nonce", q => q.eq("signerAddress", state.signerAddress).gt("nonce", state.lastExecutedNonce ?? -1))
+        .collect())
+        .filter(lease => lease.status !== NONCE_LEASE_STATUS.CONFIRMED);
+      return {
+        signerAddress: state.signerAddress,
+        nextNonce: state.nextNonce,
+        lastExecutedNonce: state.lastExecutedNonce,
+        lastSyncedAt: state.lastSyncedAt,
+        leases: leases.map(lease => ({
+          nonce: lease.nonce,
+          status: lease.status,
+          purpose: lease.purpose,
+          txId: lease.txId,
+          rebroadcastCount: lease.rebroadcastCount,
+          error: lease.error,
+        })),
+      };
+    }));
+  },
+});
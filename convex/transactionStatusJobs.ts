@@ -2,6 +2,10 @@ import { internalAction, internalQuery, internalMutation } from "./_generated/se
 import { Doc, Id } from "./_generated/dataModel";
 import { v } from "convex/values";
 import { internal } from "./_generated/api";
+import { getOraclePriceAtHeight } from "./blockchain/oracle/priceReader";
+import { recordedOraclePriceLookup } from "./oracleSubmissions";
+import { calculateSettlementAmount } from "./policyRegistry/settlementServices";
+import { PolicyStatus, PolicyType } from "./policyRegistry/types";
 
 // Import necessary enums from policyRegistry but avoid circular imports
 export enum TransactionStatus {
@@ -230,26 +234,39 @@ export const getExpiredActivePolicies = internalQuery({
     // Query for active policies that have passed their expiration height
     const expiredPolicies = await ctx.db
       .query("policies")
-      .filter(q => 
-        q.and(
-          q.eq(q.field("status"), "Active"),
-          q.lt(q.field("expirationHeight"), currentBlockHeight)
-        )
-      )
+      .withIndex("by_status", q => q.eq("status", PolicyStatus.ACTIVE))
+      .filter(q => q.lt(q.field("expirationHeight"), currentBlockHeight))
       .collect();
     
     return expiredPolicies;
   }
 });
 
+/**
+ * Store the oracle price at a policy's expiration height; settlement pays against it.
+ */
+export const recordExpirationPrice = internalMutation({
+  args: {
+    policyId: v.id("policies"),
+    expirationPrice: v.number(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.policyId, {
+      settlementPrice: args.expirationPrice,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
 /**
  * Scheduled job to check for expired policies and mark them as expired.
  * Implements CV-PR-213 from the implementation roadmap.
  * 
  * This job:
  * 1. Queries active policies that have passed their expiration height
- * 2. Creates pending transactions for policy expiration
- * 3. Updates policy status to Expired
+ * 2. Resolves the oracle price at each expiration height (skipping policies with no fresh enough price)
+ * 3. Creates pending transactions for policy expiration
+ * 4. Updates policy status to Exercised (in the money at expiration) or Expired
  * 
  * @returns Summary of processed policies
  */
@@ -257,6 +274,8 @@ export const checkExpiredPoliciesJob = internalAction({
   handler: async (ctx): Promise<{
     expiredPoliciesCount: number;
     pendingTransactionsCreated: number;
+    exercisedCount: number;
+    awaitingPriceCount: number;
     errors: number;
   }> => {
     console.log("Running scheduled job: checkExpiredPoliciesJob");
@@ -265,8 +284,11 @@ export const checkExpiredPoliciesJob = internalAction({
     const stats = {
       expiredPoliciesCount: 0,
       pendingTransactionsCreated: 0,
+      exercisedCount: 0,
+      awaitingPriceCount: 0,
       errors: 0
     };
+    const lookupRecordedPrice = recordedOraclePriceLookup(ctx);
     
     try {
       // 1. Query active policies that have passed their expiration height
@@ -278,6 +300,24 @@ export const checkExpiredPoliciesJob = internalAction({
       // 2. Process each expired policy
       for (const policy of expiredPolicies) {
         try {
+          // The outcome depends on the price at expiration, not the price now
+          const expirationPrice = await getOraclePriceAtHeight(policy.expirationHeight, { lookupRecordedPrice });
+          if (!expirationPrice.success || expirationPrice.priceInUSD === undefined) {
+            console.warn(`Policy ${policy._id} left active until an oracle price for height ${policy.expirationHeight} is available: ${expirationPrice.error}`);
+            stats.awaitingPriceCount++;
+            continue;
+          }
+          const isInTheMoney = calculateSettlementAmount(
+            policy.policyType as PolicyType,
+            policy.protectedValue,
+            policy.protectionAmount,
+            expirationPrice.priceInUSD
+          ) > 0;
+          await ctx.runMutation(internal.transactionStatusJobs.recordExpirationPrice, {
+            policyId: policy._id,
+            expirationPrice: expirationPrice.priceInUSD,
+          });
+
           // Create a pending transaction for expiration
           // For on-chain integration, this would prepare a transaction to call the
           // policy registry contract's "expire-policy" function
@@ -296,16 +336,24 @@ export const checkExpiredPoliciesJob = internalAction({
             userId: policy.owner,
           });
           
-          // Update policy status to Expired
+          // In-the-money policies go to settlement; the rest simply expire
           await ctx.runMutation(internal.policyRegistry.updatePolicyStatus, {
             policyId: policy._id,
-            newStatus: "Expired",
-            reason: "Policy reached expiration height",
+            newStatus: isInTheMoney ? PolicyStatus.EXERCISED : PolicyStatus.EXPIRED,
+            reason: isInTheMoney
+              ? `Policy in the money at expiration (price ${expirationPrice.priceInUSD} at height ${expirationPrice.priceHeight})`
+              : "Policy reached expiration height",
             data: {
               currentBlockHeight: await mockGetLatestBlockHeight(),
               pendingTxId: pendingTxId,
+              expirationPrice: expirationPrice.priceInUSD,
+              expirationPriceHeight: expirationPrice.priceHeight,
+              expirationPriceSource: expirationPrice.source,
             }
           });
+          if (isInTheMoney) {
+            stats.exercisedCount++;
+          }
           
           // Create policy event for expiration
           await ctx.runMutation(internal.policyRegistry.createPolicyEvent, {
@@ -31,11 +31,25 @@ export interface RiskParameters {
 }
 
 // Premium Calculation Types
+
+// Position Greeks for the buyer's (long) option, already scaled by protectionAmount.
+// Vega and rho are per 1 percentage point move; theta is per calendar day.
+export interface PremiumGreeks {
+  delta: number;
+  gamma: number;
+  vega: number;
+  theta: number;
+  rho: number;
+}
+
 export interface PremiumComponents {
   premium: number;
   intrinsicValue: number;
   timeValue: number;
   volatilityImpact: number;
+  volatilityUsed?: number; // Sigma actually priced with (tenor-matched when a term structure was supplied)
+  volatilityEstimator?: string; // historicalVolatility.calculationMethod the sigma came from
+  greeks?: PremiumGreeks;
 }
 
 export interface PriceScenario {
@@ -44,6 +58,31 @@ export interface PriceScenario {
   netValue: number;
 }
 
+// Scenario engine types (services/oracle/scenarioEngine.ts)
+export interface ScenarioPathPoint {
+  day: number;
+  price: number;
+  protectionValue: number; // Payoff if the policy expired on this day
+  netValue: number; // protectionValue minus premium
+}
+
+export interface ScenarioPercentileBand {
+  percentile: number; // e.g. 5, 50, 95
+  terminal: ScenarioPathPoint;
+  path: number[]; // Price at each day's percentile, index = day
+}
+
+export interface ScenarioOutcome {
+  kind: string; // "shock", "historical" or "monte_carlo"
+  label: string;
+  horizonDays: number;
+  path: ScenarioPathPoint[]; // Median path for monte_carlo
+  terminal: ScenarioPathPoint;
+  percentiles?: ScenarioPercentileBand[]; // monte_carlo only
+  payoutProbability?: number; // monte_carlo only, share of paths that finish in the money
+  window?: { id?: string; startTimestamp: number; endTimestamp: number; dataPoints: number }; // historical only
+}
+
 export interface BuyerCalculationInputs {
   protectedValuePercentage: number;
   protectionAmount: number;
@@ -56,6 +95,8 @@ export interface MarketDataSnapshot {
   btcPrice: number;
   volatility: number;
   timestamp: string;
+  volatilityEstimator?: string; // e.g. "garch_1_1", "ewma", "log_returns_std_dev_annualized"
+  volatilityTenorDays?: number; // Tenor the volatility was matched to
 }
 
 export interface BuyerPremiumQuoteResult {
@@ -69,9 +110,11 @@ export interface BuyerPremiumQuoteResult {
     timeValue: number;
     volatilityImpact: number;
   };
+  greeks?: PremiumGreeks;
   scenarios: PriceScenario[];
   marketDataSnapshot: MarketDataSnapshot;
   riskParamsSnapshot: RiskParameters;
+  pricingEngineVersion?: string; // PRICING_ENGINE_VERSION of the engine that priced this quote
 }
 
 // Provider Yield Types
@@ -116,6 +159,7 @@ export type ProviderYieldQuoteResult = {
   visualizationData: {
     yieldScenarios?: any[]; // Placeholder for future use
   };
+  pricingEngineVersion?: string; // PRICING_ENGINE_VERSION of the engine that priced this quote
 };
 
 // Blockchain Types
@@ -22,7 +22,7 @@ import {
   Badge,
 } from "@chakra-ui/react";
 import { IoInformationCircle } from "react-icons/io5";
-import { useBuyerContext } from "@/contexts/BuyerContext";
+import { useBuyerContext, BuyerPolicyType } from "@/contexts/BuyerContext";
 import { useBitcoinPrice } from "@/hooks/useBitcoinPrice";
 import { formatUSD, formatBTC, formatPercent } from "@/utils/formatters";
 import { estimateBuyerPremium } from "@/utils/clientEstimation";
@@ -41,7 +41,8 @@ const BuyerParametersUI = () => {
     accurateQuote,
     setAccurateQuote
   } = useBuyerContext();
-  const { protectedValuePercentage, protectionAmount, protectionPeriod } = inputs;
+  const { policyType, protectedValuePercentage, protectionAmount, protectionPeriod } = inputs;
+  const isCall = policyType === "CALL";
   
   // Add debugging logs
   console.log("BuyerParametersUI: Current inputs:", inputs);
@@ -131,7 +132,7 @@ const BuyerParametersUI = () => {
         protectedValuePercentage: debouncedInputs.protectedValuePercentage,
         protectionAmount: debouncedInputs.protectionAmount,
         expirationDays: debouncedInputs.protectionPeriod,
-        policyType: "PUT", // Assuming PUT is the default type
+        policyType: debouncedInputs.policyType,
         includeScenarios: true // Optional: Include scenarios for visualization
       });
     }
@@ -174,6 +175,10 @@ const BuyerParametersUI = () => {
     updateBuyerInputs({ protectedValuePercentage: value });
   };
 
+  const handlePolicyTypeSelect = (type: BuyerPolicyType) => {
+    updateBuyerInputs({ policyType: type });
+  };
+
   const handlePeriodSelect = (period: number) => {
     updateBuyerInputs({ protectionPeriod: period });
   };
@@ -254,6 +259,59 @@ const BuyerParametersUI = () => {
         </Flex>
       </Box>
 
+      {/* Protection Type Section */}
+      <Box mb={8}>
+        <Flex align="center" mb={4}>
+          <Heading as="h3" fontSize="lg" fontWeight="bold" mr={1} color="gray.800">
+            Protection Type
+          </Heading>
+          <Tooltip hasArrow label="Protect the value of Bitcoin you hold, or lock in the price of Bitcoin you plan to buy">
+            <Box display="inline">
+              <Icon as={IoInformationCircle} color="blue.500" />
+            </Box>
+          </Tooltip>
+        </Flex>
+
+        <Grid templateColumns={{ base: "1fr", md: "repeat(2, 1fr)" }} gap={4}>
+          {([
+            { type: "PUT", title: "Protect Against Price Drops", description: "Pays out if BTC falls below your protected value" },
+            { type: "CALL", title: "Lock In Purchase Price", description: "Pays out if BTC rises above your locked-in price" },
+          ] as Array<{ type: BuyerPolicyType; title: string; description: string }>).map((option) => {
+            const isSelected = policyType === option.type;
+            return (
+              <GridItem key={option.type}>
+                <Box
+                  p={4}
+                  borderRadius={neumorphicBorderRadius}
+                  bg={isSelected ? 'blue.600' : neumorphicBg}
+                  boxShadow={isSelected ? 'md' : neumorphicBoxShadow}
+                  borderWidth="2px"
+                  borderColor={isSelected ? 'blue.700' : 'transparent'}
+                  color={isSelected ? 'white' : 'gray.800'}
+                  cursor="pointer"
+                  onClick={() => handlePolicyTypeSelect(option.type)}
+                  transition="all 0.2s ease-in-out"
+                  _hover={{
+                    boxShadow: isSelected ? 'md' : `${neumorphicShadowLight.replace("10px", "12px").replace("20px", "24px")}, ${neumorphicShadowDark.replace("10px", "12px").replace("20px", "24px")}`,
+                    transform: isSelected ? 'none' : 'translateY(-2px)',
+                  }}
+                  _active={{
+                    boxShadow: isSelected ? 'md' : neumorphicInnerBoxShadow
+                  }}
+                >
+                  <VStack spacing={1} align="center">
+                    <Text fontSize="lg" fontWeight="bold">{option.title}</Text>
+                    <Text fontSize="sm" color={isSelected ? 'blue.100' : 'gray.500'}>
+                      {option.description}
+                    </Text>
+                  </VStack>
+                </Box>
+              </GridItem>
+            );
+          })}
+        </Grid>
+      </Box>
+
       {/* Existing Flex container for Protected Value and Protection Amount */}
       <Flex 
         direction={{ base: "column", md: "row" }} 
@@ -264,9 +322,11 @@ const BuyerParametersUI = () => {
         <Box flex="1" ref={protectedValueRef} minH="270px">
             <Flex align="center" mb={2}>
               <Heading as="h3" fontSize="lg" fontWeight="bold" mr={1} color="gray.800">
-                Protected Value
+                {isCall ? "Locked-in Price" : "Protected Value"}
               </Heading>
-              <Tooltip hasArrow label="The percentage of your Bitcoin's current value that will be protected">
+              <Tooltip hasArrow label={isCall
+                ? "The purchase price, as a percentage of the current price, you want to lock in"
+                : "The percentage of your Bitcoin's current value that will be protected"}>
                 <Box display="inline">
                   <Icon as={IoInformationCircle} color="blue.500" />
                 </Box>
@@ -354,7 +414,9 @@ const BuyerParametersUI = () => {
               <Flex gap={2}>
                 <Icon as={IoInformationCircle} color="blue.500" mt={0.5} />
                 <Text fontSize="sm" color="blue.800">
-                  Lower strike prices reduce premium costs but provide less protection.
+                  {isCall
+                    ? "Higher locked-in prices reduce premium costs but provide less protection."
+                    : "Lower strike prices reduce premium costs but provide less protection."}
                 </Text>
               </Flex>
             </Box>
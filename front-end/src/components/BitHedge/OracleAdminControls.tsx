@@ -10,8 +10,15 @@ import {
   FormLabel,
   NumberInput,
   NumberInputField,
+  SimpleGrid,
+  Stat,
+  StatHelpText,
+  StatLabel,
+  StatNumber,
   useToast
 } from "@chakra-ui/react";
+import { useQuery } from "convex/react";
+import { api } from "../../../../convex/_generated/api";
 import HiroWalletContext from "../HiroWalletProvider";
 import { useDevnetWallet } from "@/lib/devnet-wallet-context";
 import {
@@ -22,6 +29,14 @@ import useTransactionExecuter from "@/hooks/useTransactionExecuter";
 import { getSetAggregatedPriceTx } from "@/lib/oracle-utils";
 import { getStacksNetworkString } from "@/lib/stacks-api";
 
+// Format a millisecond duration as the largest sensible unit
+function formatDuration(ms: number | null): string {
+  if (ms === null) return "—";
+  if (ms < 60 * 1000) return `${Math.round(ms / 1000)}s`;
+  if (ms < 60 * 60 * 1000) return `${Math.round(ms / (60 * 1000))}m`;
+  return `${(ms / (60 * 60 * 1000)).toFixed(1)}h`;
+}
+
 interface OracleAdminControlsProps {
   isAuthorizedSubmitter: boolean;
   onPriceUpdate: () => void;
@@ -42,6 +57,8 @@ export default function OracleAdminControls({
   const executeTx = useTransactionExecuter();
   const toast = useToast();
 
+  const oracleHealth = useQuery(api.oracleSubmissions.getOracleHealth, {});
+
   const [price, setPrice] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -117,6 +134,39 @@ export default function OracleAdminControls({
             <Box mb="2">
               As an authorized submitter, you can update the Bitcoin price data on-chain.
             </Box>
+
+            {oracleHealth && (
+              <SimpleGrid columns={{ base: 2, md: 4 }} spacing={3} mb="3">
+                <Stat>
+                  <StatLabel>Last confirmed price</StatLabel>
+                  <StatNumber fontSize="md">{formatDuration(oracleHealth.lastConfirmedPriceAgeMs)} ago</StatNumber>
+                  <StatHelpText>
+                    {oracleHealth.lastConfirmedPriceSatoshis !== null
+                      ? `$${(oracleHealth.lastConfirmedPriceSatoshis / 100000000).toLocaleString()}`
+                      : "No confirmed price"}
+                  </StatHelpText>
+                </Stat>
+                <Stat>
+                  <StatLabel>Failure rate (24h)</StatLabel>
+                  <StatNumber fontSize="md">
+                    {oracleHealth.failureRate !== null ? `${(oracleHealth.failureRate * 100).toFixed(1)}%` : "—"}
+                  </StatNumber>
+                  <StatHelpText>
+                    {oracleHealth.failedCount} failed, {oracleHealth.retryCount} retries
+                  </StatHelpText>
+                </Stat>
+                <Stat>
+                  <StatLabel>Avg. confirmation</StatLabel>
+                  <StatNumber fontSize="md">{formatDuration(oracleHealth.averageConfirmationLatencyMs)}</StatNumber>
+                  <StatHelpText>{oracleHealth.confirmedCount} confirmed</StatHelpText>
+                </Stat>
+                <Stat>
+                  <StatLabel>Pending</StatLabel>
+                  <StatNumber fontSize="md">{oracleHealth.pendingCount}</StatNumber>
+                  <StatHelpText>{oracleHealth.submittedCount} submitted (24h)</StatHelpText>
+                </Stat>
+              </SimpleGrid>
+            )}
             
             <FormControl>
               <FormLabel>Current BTC Price (USD)</FormLabel>
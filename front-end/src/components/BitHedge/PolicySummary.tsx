@@ -19,6 +19,7 @@ import {
   VStack,
   useToast,
   Collapse,
+  Select,
 } from "@chakra-ui/react";
 import {
   IoLockClosed,
@@ -37,6 +38,7 @@ import { useState, useContext } from "react";
 import { ValidationError } from "@/components/common/ValidationError";
 import CalculationLoader from "@/components/common/CalculationLoader";
 import { useBuyerQuote } from "@/hooks/useBuyerQuote";
+import { useProtectionScenario, ScenarioSelection, DEFAULT_SCENARIO_SELECTIONS } from "@/hooks/useProtectionScenario";
 import type { BuyerPremiumQuoteResult } from "@/../../convex/types";
 
 // --- Wallet and Stacks Imports (BF-103) ---
@@ -72,6 +74,23 @@ const formatPercentage = (value: number | null | undefined, placeholder: string
   return `${(value * 100).toFixed(2)}%`;
 };
 
+const VOLATILITY_ESTIMATOR_LABELS: Record<string, string> = {
+  garch_1_1: 'GARCH(1,1)',
+  ewma: 'EWMA',
+  log_returns_std_dev_annualized: 'close-to-close',
+  parkinson: 'Parkinson',
+  garman_klass: 'Garman-Klass',
+  rogers_satchell: 'Rogers-Satchell',
+  yang_zhang: 'Yang-Zhang',
+};
+
+const formatVolatilityEstimator = (estimator: string | undefined) => {
+  if (!estimator) {
+    return 'default estimate';
+  }
+  return VOLATILITY_ESTIMATOR_LABELS[estimator] ?? estimator;
+};
+
 export default function BuyerPolicySummary() {
   const { accurateQuote: buyerQuoteResult } = useBuyerContext();
   const { isLoading: isBuyerLoading, error: buyerError } = useBuyerQuote();
@@ -80,6 +99,7 @@ export default function BuyerPolicySummary() {
   const [isSaving, setIsSaving] = useState(false);
   const [savedQuoteId, setSavedQuoteId] = useState<string | null>(null);
   const [saveError, setSaveError] = useState<string | null>(null);
+  const [stressSelection, setStressSelection] = useState<ScenarioSelection>(DEFAULT_SCENARIO_SELECTIONS[1].selection);
 
   // --- Use TransactionContext ---
   const {
@@ -117,9 +137,13 @@ export default function BuyerPolicySummary() {
   const protectedValueUSD = buyerQuoteData?.inputs?.protectedValueUSD;
   const protectionPeriod = buyerQuoteData?.inputs?.expirationDays;
   const protectionPercentage = buyerQuoteData?.inputs?.protectedValuePercentage;
+  const isCallPolicy = buyerQuoteData?.inputs?.policyType === "CALL";
   const btcAmount = protectionAmountBTC;
   const breakEvenPrice = buyerQuoteData?.breakEvenPrice;
   const marketPriceAtQuote = buyerQuoteData?.marketDataSnapshot?.btcPrice;
+  const quoteVolatility = buyerQuoteData?.marketDataSnapshot?.volatility;
+  const volatilityEstimatorLabel = formatVolatilityEstimator(buyerQuoteData?.marketDataSnapshot?.volatilityEstimator);
+  const { outcome: stressOutcome } = useProtectionScenario(buyerQuoteData, stressSelection);
 
   const currentDate = new Date();
   const expiryDate = protectionPeriod ? new Date(currentDate.getTime() + protectionPeriod * 24 * 60 * 60 * 1000) : undefined;
@@ -520,15 +544,27 @@ export default function BuyerPolicySummary() {
               <ListItem>
                 <Flex>
                   <ListIcon as={IoCheckmarkCircle} color="green.500" mt={1} />
-                   <Text fontSize="sm">Protection activates if BTC price drops below {formatCurrency(protectedValueUSD)}.</Text>
+                   <Text fontSize="sm">
+                     {isCallPolicy
+                       ? `Protection activates if BTC price rises above ${formatCurrency(protectedValueUSD)}, locking in your purchase price.`
+                       : `Protection activates if BTC price drops below ${formatCurrency(protectedValueUSD)}.`}
+                   </Text>
                 </Flex>
               </ListItem>
                <ListItem>
                  <Flex>
                    <ListIcon as={IoInformationCircleOutline} color="blue.500" mt={1} />
-                    <Text fontSize="sm">Break-even price: {formatCurrency(breakEvenPrice)} (strike price minus premium).</Text>
+                    <Text fontSize="sm">Break-even price: {formatCurrency(breakEvenPrice)} (strike price {isCallPolicy ? "plus" : "minus"} premium).</Text>
                  </Flex>
                </ListItem>
+               {quoteVolatility !== undefined && (
+                 <ListItem>
+                   <Flex>
+                     <ListIcon as={IoInformationCircleOutline} color="blue.500" mt={1} />
+                     <Text fontSize="sm">Priced with {(quoteVolatility * 100).toFixed(1)}% annualized volatility ({volatilityEstimatorLabel}, matched to a {protectionPeriod ?? "N/A"}-day term).</Text>
+                   </Flex>
+                 </ListItem>
+               )}
                <ListItem>
                  <Flex>
                    <ListIcon as={IoAlertCircleOutline} color="orange.500" mt={1} />
@@ -536,6 +572,40 @@ export default function BuyerPolicySummary() {
                  </Flex>
                </ListItem>
             </List>
+
+            <Box mt={6} p={4} borderRadius={neumorphicBorderRadius} boxShadow="inner" borderWidth="1px" borderColor="rgba(0,0,0,0.05)">
+              <Flex justify="space-between" align="center" mb={2} gap={3}>
+                <Text color="gray.600" fontSize="sm">Stress Test</Text>
+                <Select
+                  size="sm"
+                  maxW="220px"
+                  bg="white"
+                  value={stressSelection.kind}
+                  onChange={(e) => {
+                    const option = DEFAULT_SCENARIO_SELECTIONS.find(({ selection }) => selection.kind === e.target.value);
+                    if (option) setStressSelection(option.selection);
+                  }}
+                >
+                  {DEFAULT_SCENARIO_SELECTIONS.filter(({ selection }) => selection.kind !== "payoff").map(({ label, selection }) => (
+                    <option key={selection.kind} value={selection.kind}>{label}</option>
+                  ))}
+                </Select>
+              </Flex>
+              {stressOutcome ? (
+                <Text fontSize="sm" color="gray.700">
+                  {stressOutcome.label}: BTC at {formatCurrency(stressOutcome.terminal.price)} by expiry, protection pays {formatCurrency(stressOutcome.terminal.protectionValue)} ({formatCurrency(stressOutcome.terminal.netValue)} net of premium)
+                  {stressOutcome.payoutProbability !== undefined ? `; pays out in ${(stressOutcome.payoutProbability * 100).toFixed(1)}% of simulated paths.` : "."}
+                </Text>
+              ) : (
+                <Text fontSize="sm" color="gray.500">
+                  {!buyerQuoteData?.marketDataSnapshot
+                    ? "Scenarios are available once a protection quote has been priced."
+                    : stressOutcome === undefined
+                    ? "Running scenario..."
+                    : "No price history available for this scenario."}
+                </Text>
+              )}
+            </Box>
           </GridItem>
 
           <GridItem>
@@ -8,8 +8,15 @@ import {
   Badge,
   Icon,
   SimpleGrid,
+  Button,
+  ButtonGroup,
+  HStack,
+  Select,
+  NumberInput,
+  NumberInputField,
   useTheme,
 } from "@chakra-ui/react";
+import { useState } from "react";
 import {
   IoStatsChart,
   IoInformationCircle,
@@ -34,6 +41,7 @@ import { useBuyerQuote } from '@/hooks/useBuyerQuote';
 // Import chart utility (will need update later - UI-312)
 import { generateChartData, ChartDataPoint } from './utils/chartUtils';
 import type { BuyerPremiumQuoteResult } from "@/../../convex/types";
+import { useProtectionScenario, ScenarioSelection, DEFAULT_SCENARIO_SELECTIONS } from '@/hooks/useProtectionScenario';
 
 // Helper function to format currency (keep or move to shared utils)
 const formatCurrency = (value: number | null | undefined, placeholder: string = '$--.--') => {
@@ -51,6 +59,7 @@ export default function BuyerProtectionVisualization() {
   const { accurateQuote: buyerQuoteResult } = useBuyerContext();
   // Get loading/error states if needed for visual feedback here
   const { isLoading, error } = useBuyerQuote(); 
+  const [scenarioSelection, setScenarioSelection] = useState<ScenarioSelection>({ kind: "payoff" });
 
   // Neumorphic styles (keep)
   const neumorphicBg = "#E8EAE9";
@@ -82,6 +91,20 @@ export default function BuyerProtectionVisualization() {
     commitmentAmountBtc: 0,
   }) : []; // Empty array if no quote data
 
+  // --- Scenario Engine Paths ---
+  const { outcome: scenarioOutcome, historicalWindows } = useProtectionScenario(buyerQuoteData, scenarioSelection);
+  const isPathScenario = scenarioSelection.kind !== "payoff";
+  const lowerBand = scenarioOutcome?.percentiles?.[0];
+  const upperBand = scenarioOutcome?.percentiles?.[scenarioOutcome.percentiles.length - 1];
+  // Portfolio value along the path: BTC held plus what the policy would pay if it expired that day, less premium
+  const scenarioChartData = (scenarioOutcome?.path ?? []).map((point) => ({
+    day: point.day,
+    unprotectedValue: point.price * (btcAmount ?? 0),
+    protectedValue: point.price * (btcAmount ?? 0) + point.netValue,
+    lowerBandValue: lowerBand ? lowerBand.path[point.day] * (btcAmount ?? 0) : undefined,
+    upperBandValue: upperBand ? upperBand.path[point.day] * (btcAmount ?? 0) : undefined,
+  }));
+
   // Custom Tooltip Props (remains mostly the same)
   type CustomTooltipProps = {
     active?: boolean;
@@ -158,7 +181,115 @@ export default function BuyerProtectionVisualization() {
         </Badge>
       </Flex>
 
+      {/* --- Scenario Picker --- */}
+      <Flex wrap="wrap" gap={3} align="center" mb={4}>
+        <ButtonGroup size="sm" isAttached variant="outline" colorScheme="blue">
+          {DEFAULT_SCENARIO_SELECTIONS.map(({ label, selection }) => (
+            <Button
+              key={selection.kind}
+              variant={scenarioSelection.kind === selection.kind ? "solid" : "outline"}
+              onClick={() => setScenarioSelection(selection)}
+            >
+              {label}
+            </Button>
+          ))}
+        </ButtonGroup>
+        {scenarioSelection.kind === "shock" && (
+          <HStack spacing={2}>
+            <NumberInput
+              size="sm"
+              maxW="90px"
+              value={scenarioSelection.percentChange}
+              onChange={(_, value) => !isNaN(value) && setScenarioSelection({ ...scenarioSelection, percentChange: value })}
+            >
+              <NumberInputField bg="white" />
+            </NumberInput>
+            <Text fontSize="sm" color="gray.700">% over</Text>
+            <NumberInput
+              size="sm"
+              maxW="80px"
+              min={1}
+              value={scenarioSelection.days}
+              onChange={(_, value) => !isNaN(value) && value >= 1 && setScenarioSelection({ ...scenarioSelection, days: value })}
+            >
+              <NumberInputField bg="white" />
+            </NumberInput>
+            <Text fontSize="sm" color="gray.700">days</Text>
+          </HStack>
+        )}
+        {scenarioSelection.kind === "historical" && (
+          <Select
+            size="sm"
+            maxW="260px"
+            bg="white"
+            value={scenarioSelection.windowId}
+            onChange={(e) => setScenarioSelection({ kind: "historical", windowId: e.target.value })}
+          >
+            {(historicalWindows ?? []).map((window) => (
+              <option key={window.id} value={window.id} disabled={!window.hasData}>
+                {window.label}{window.hasData ? "" : " (no data)"}
+              </option>
+            ))}
+          </Select>
+        )}
+      </Flex>
+
+      {/* --- Scenario Path Chart --- */}
+      {isPathScenario && (
+        <Box height="300px" mb={8} borderRadius="md" p={2} bg="rgba(255, 255, 255, 0.4)" boxShadow="inner">
+          {scenarioOutcome === undefined ? (
+            <Flex h="100%" align="center" justify="center" color="gray.500">Running scenario...</Flex>
+          ) : scenarioOutcome === null ? (
+            <Flex h="100%" align="center" justify="center" color="gray.500">No price history available for this window.</Flex>
+          ) : (
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={scenarioChartData} margin={{ top: 5, right: 20, left: 30, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={theme.colors.gray[300]} />
+                <XAxis
+                  dataKey="day"
+                  type="number"
+                  domain={[0, 'dataMax']}
+                  stroke={theme.colors.gray[500]}
+                  tick={{ fontSize: '11px', fill: theme.colors.gray[700] }}
+                  label={{ value: 'Days from Today', position: 'insideBottom', offset: -5, dy: 10, fontSize: '12px', fill: theme.colors.gray[700] }}
+                />
+                <YAxis
+                  tickFormatter={(value) => `$${Math.round(value / 1000)}k`}
+                  stroke={theme.colors.gray[500]}
+                  tick={{ fontSize: '11px', fill: theme.colors.gray[700] }}
+                  width={80}
+                  domain={['auto', 'auto']}
+                />
+                <Tooltip formatter={(value: number) => formatCurrency(value)} labelFormatter={(day) => `Day ${day}`} />
+                <Legend verticalAlign="top" height={36} wrapperStyle={{ fontSize: '12px', color: theme.colors.gray[700] }} />
+                <Line type="monotone" dataKey="unprotectedValue" name="Unprotected Value" stroke={theme.colors.orange[500]} strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="protectedValue" name="Protected Value" stroke={theme.colors.blue[600]} strokeWidth={2} dot={false} />
+                {lowerBand && (
+                  <Line type="monotone" dataKey="lowerBandValue" name={`P${lowerBand.percentile} Unprotected`} stroke={theme.colors.gray[500]} strokeDasharray="4 4" dot={false} />
+                )}
+                {upperBand && (
+                  <Line type="monotone" dataKey="upperBandValue" name={`P${upperBand.percentile} Unprotected`} stroke={theme.colors.gray[500]} strokeDasharray="4 4" dot={false} />
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+        </Box>
+      )}
+      {isPathScenario && scenarioOutcome && (
+        <Box mb={8} px={2}>
+          <Text fontSize="sm" color="gray.700">
+            {scenarioOutcome.label}: BTC ends at {formatCurrency(scenarioOutcome.terminal.price)} after {scenarioOutcome.horizonDays} days; protection pays {formatCurrency(scenarioOutcome.terminal.protectionValue)} ({formatCurrency(scenarioOutcome.terminal.netValue)} net of premium).
+          </Text>
+          {scenarioOutcome.payoutProbability !== undefined && (
+            <Text fontSize="sm" color="gray.700" mt={1}>
+              Pays out in {(scenarioOutcome.payoutProbability * 100).toFixed(1)}% of simulated paths.
+            </Text>
+          )}
+        </Box>
+      )}
+
       {/* --- Buyer Chart --- */} 
+      {!isPathScenario && (
       <Box height="300px" mb={8} borderRadius="md" p={2} bg="rgba(255, 255, 255, 0.4)" boxShadow="inner">
         <ResponsiveContainer width="100%" height="100%">
           <LineChart
@@ -229,6 +360,7 @@ export default function BuyerProtectionVisualization() {
           </LineChart>
         </ResponsiveContainer>
       </Box>
+      )}
 
       {/* --- Buyer Key Metrics --- */} 
       <SimpleGrid columns={{ base: 1, md: 3 }} spacing={6} mb={8}>
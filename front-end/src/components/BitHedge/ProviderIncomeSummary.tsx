@@ -36,6 +36,7 @@ import { api } from "../../../../convex/_generated/api";
 import { useState } from "react";
 import { ValidationError } from "@/components/common/ValidationError";
 import { useProviderQuote } from "@/hooks/useProviderQuote";
+import { useProviderReturns } from "@/hooks/useProviderReturns";
 import type { ProviderYieldQuoteResult } from "@/../../convex/types";
 
 // Reusing formatters (could be moved to a shared utils file)
@@ -102,6 +103,15 @@ export default function ProviderIncomeSummary() {
   const breakEvenAcquisitionPrice = providerQuoteData?.calculated?.breakEvenPriceUSD; // Use the calculated break-even price
   const marketPriceAtQuote = providerQuoteData?.marketData?.price;
 
+  // Realized returns on the provider's existing position replace the quote's yield estimate once there is history
+  const { returns: realizedReturns } = useProviderReturns();
+  const realizedSummary = realizedReturns?.summary;
+  const isTwrAnnualized = realizedSummary?.annualizedTimeWeightedReturn != null;
+  const realizedTwr = realizedSummary
+    ? realizedSummary.annualizedTimeWeightedReturn ?? realizedSummary.timeWeightedReturn
+    : undefined;
+  const realizedIrr = realizedSummary?.moneyWeightedReturn;
+
   // Neumorphic Styles
   const neumorphicBg = "#E8EAE9";
   const neumorphicShadowLight = "-10px -10px 20px rgba(255, 255, 255, 0.8)";
@@ -347,12 +357,31 @@ export default function ProviderIncomeSummary() {
                     </Text>
                   </Flex>
 
-                  <SimpleGrid columns={2} spacing={4} fontSize="xs">
-                    <Box textAlign="center">
-                      <Text color="green.200" fontSize="2xs" textTransform="uppercase">Est. APY</Text>
-                      <Text fontWeight="bold" fontSize="sm">{formatPercentage(potentialYield)}</Text>
-                      <Text color="green.200">(Annualized)</Text>
-                    </Box>
+                  <SimpleGrid columns={realizedSummary ? 3 : 2} spacing={4} fontSize="xs">
+                    {realizedSummary ? (
+                      <>
+                        <Box textAlign="center">
+                          <Text color="green.200" fontSize="2xs" textTransform="uppercase">Your TWR</Text>
+                          <Text fontWeight="bold" fontSize="sm">{formatPercentage(realizedTwr)}</Text>
+                          <Tooltip label="Time-weighted return on your position, unaffected by when you deposited or withdrew">
+                            <Text color="green.200" cursor="help">({isTwrAnnualized ? "Annualized" : "To date"})</Text>
+                          </Tooltip>
+                        </Box>
+                        <Box textAlign="center">
+                          <Text color="green.200" fontSize="2xs" textTransform="uppercase">Your IRR</Text>
+                          <Text fontWeight="bold" fontSize="sm">{formatPercentage(realizedIrr)}</Text>
+                          <Tooltip label="Money-weighted (internal) rate of return, which reflects the timing and size of your deposits and withdrawals">
+                            <Text color="green.200" cursor="help">(Money-weighted)</Text>
+                          </Tooltip>
+                        </Box>
+                      </>
+                    ) : (
+                      <Box textAlign="center">
+                        <Text color="green.200" fontSize="2xs" textTransform="uppercase">Est. APY</Text>
+                        <Text fontWeight="bold" fontSize="sm">{formatPercentage(potentialYield)}</Text>
+                        <Text color="green.200">(Annualized)</Text>
+                      </Box>
+                    )}
                      <Box textAlign="center">
                       <Text color="green.200" fontSize="2xs" textTransform="uppercase">Capital Efficiency</Text>
                       <Text fontWeight="bold" fontSize="sm">{formatPercentage(capitalEfficiency)}</Text>
@@ -32,6 +32,7 @@ import {
 // Import Provider specific context and hooks
 import { useProviderContext } from '@/contexts/ProviderContext';
 import { useProviderQuote } from '@/hooks/useProviderQuote';
+import { useProviderReturns, type ProviderReturns } from '@/hooks/useProviderReturns';
 // Import chart utility (will need update later - UI-312)
 import { 
   generateChartData, 
@@ -63,6 +64,7 @@ export default function ProviderIncomeVisualization() {
   // --- Consume Provider Context & Hook --- 
   const { accurateQuote: providerQuoteResult } = useProviderContext();
   const { isLoading, error } = useProviderQuote();
+  const { returns: realizedReturns } = useProviderReturns();
 
   // Neumorphic styles (keep)
   const neumorphicBg = "#E8EAE9";
@@ -104,6 +106,17 @@ export default function ProviderIncomeVisualization() {
     btcAmount: 0,
   }) : [];
 
+  // Realized return history (percentages) for the provider's existing position
+  const realizedSummary = realizedReturns?.summary;
+  const returnHistory = (realizedReturns?.series ?? []).map((point: ProviderReturns["series"][number]) => ({
+    day: point.day,
+    twr: point.timeWeightedReturn * 100,
+    irr: point.moneyWeightedReturn !== null ? point.moneyWeightedReturn * 100 : null,
+  }));
+  const realizedTwr = realizedSummary
+    ? realizedSummary.annualizedTimeWeightedReturn ?? realizedSummary.timeWeightedReturn
+    : undefined;
+
   // Custom Tooltip Props
   type CustomTooltipProps = {
     active?: boolean;
@@ -245,17 +258,68 @@ export default function ProviderIncomeVisualization() {
         </ResponsiveContainer>
       </Box>
 
+      {/* --- Realized Return History --- */}
+      {returnHistory.length > 1 && (
+        <Box mb={8}>
+          <Flex align="center" mb={2}>
+            <Icon as={IoTrendingUpOutline} color="green.500" mr={2} />
+            <Text fontWeight="bold" color="gray.800">Your Return History</Text>
+          </Flex>
+          <Box height="220px" borderRadius="md" p={2} bg="rgba(255, 255, 255, 0.4)" boxShadow="inner">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={returnHistory} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={theme.colors.gray[300]} />
+                <XAxis
+                  dataKey="day"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={(value) => new Date(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                  stroke={theme.colors.gray[500]}
+                  tick={{ fontSize: '11px', fill: theme.colors.gray[700] }}
+                />
+                <YAxis
+                  tickFormatter={(value) => `${value.toFixed(1)}%`}
+                  stroke={theme.colors.gray[500]}
+                  tick={{ fontSize: '11px', fill: theme.colors.gray[700] }}
+                  width={60}
+                />
+                <RechartsTooltip
+                  labelFormatter={(value) => new Date(value as number).toLocaleDateString()}
+                  formatter={(value) => `${Number(value).toFixed(2)}%`}
+                />
+                <Legend verticalAlign="top" height={36} wrapperStyle={{ fontSize: '12px', color: theme.colors.gray[700] }} />
+                <Line type="monotone" dataKey="twr" name="Time-weighted (cumulative)" stroke={theme.colors.green[600]} strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="irr" name="Money-weighted (IRR, annualized)" stroke={theme.colors.blue[500]} strokeWidth={2} dot={false} connectNulls />
+                <ReferenceLine y={0} stroke={theme.colors.gray[500]} strokeWidth={1} />
+              </LineChart>
+            </ResponsiveContainer>
+          </Box>
+        </Box>
+      )}
+
       {/* --- Provider Key Metrics --- */} 
       <SimpleGrid columns={{ base: 1, md: 3 }} spacing={6} mb={8}>
-        {/* Provider Metric Box 1: Max Potential Yield */}
+        {/* Provider Metric Box 1: Realized return once there is history, otherwise the quote's max potential yield */}
         <Box p={5} borderRadius="lg" bgGradient="linear(to-br, green.400, teal.500)" color="white" shadow="md">
           <Flex align="center" mb={2}>
             <Icon as={IoTrendingUpOutline} mr={2} boxSize={5}/>
-            <Text fontWeight="bold" fontSize="md">Max Potential Yield (APY)</Text>
+            <Text fontWeight="bold" fontSize="md">
+              {realizedSummary ? "Your Time-Weighted Return" : "Max Potential Yield (APY)"}
+            </Text>
           </Flex>
-          {/* Use data from context */}
-          <Text fontSize="3xl" fontWeight="bold">{formatPercentage(potentialYield)}</Text>
-          <Text fontSize="xs" opacity={0.8}>Estimated annual yield if price stays above strike.</Text>
+          {realizedSummary ? (
+            <>
+              <Text fontSize="3xl" fontWeight="bold">{formatPercentage(realizedTwr)}</Text>
+              <Text fontSize="xs" opacity={0.8}>
+                {realizedSummary.annualizedTimeWeightedReturn !== null ? "Annualized" : "To date"}; money-weighted (IRR): {formatPercentage(realizedSummary.moneyWeightedReturn)}.
+              </Text>
+            </>
+          ) : (
+            <>
+              <Text fontSize="3xl" fontWeight="bold">{formatPercentage(potentialYield)}</Text>
+              <Text fontSize="xs" opacity={0.8}>Estimated annual yield if price stays above strike.</Text>
+            </>
+          )}
         </Box>
 
         {/* Provider Metric Box 2: Strike Price Provided */}
@@ -6,7 +6,11 @@ import { BuyerPremiumQuoteResult } from "@convex/types";
 // --- Define State Structure ---
 
 // Inputs for the Buyer
+// "PUT" protects against price drops, "CALL" locks in a purchase price against price rises
+export type BuyerPolicyType = "PUT" | "CALL";
+
 export interface BuyerInputs {
+  policyType: BuyerPolicyType;
   protectedValuePercentage: number; // Percentage of current BTC price
   protectionAmount: number; // Amount of Bitcoin to protect
   protectionPeriod: number; // Days of protection
@@ -89,6 +93,7 @@ interface BuyerContextProps {
 
 // Default values for inputs
 const DEFAULT_INPUTS: BuyerInputs = {
+  policyType: "PUT", // Downside protection by default
   protectedValuePercentage: 100, // 100% of current price by default
   protectionAmount: 0.1, // Start with a small amount of BTC
   protectionPeriod: 90, // 90 days by default
@@ -110,6 +115,7 @@ export const BuyerProvider: React.FC<BuyerProviderProps> = ({
 }) => {
   // State for inputs and validation
   const [inputs, setInputs] = useState<BuyerInputs>({
+    policyType: "PUT", // Default to downside protection
     protectedValuePercentage: 100, // Default to 100% of current price
     protectionAmount: 0.1, // Default to 0.1 BTC
     protectionPeriod: 90, // Default to 90 days
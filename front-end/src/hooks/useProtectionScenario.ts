@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import { useAction, useQuery } from "convex/react";
+import { api } from "@convex/_generated/api";
+import { BuyerPremiumQuoteResult, ScenarioOutcome } from "@convex/types";
+
+// Mirrors SCENARIO_KIND in convex/services/oracle/scenarioEngine.ts, plus the plain expiry payoff curve
+export type ScenarioSelection =
+  | { kind: "payoff" }
+  | { kind: "shock"; percentChange: number; days: number }
+  | { kind: "historical"; windowId: string }
+  | { kind: "monte_carlo"; paths?: number };
+
+export const DEFAULT_SCENARIO_SELECTIONS: Array<{ label: string; selection: ScenarioSelection }> = [
+  { label: "Payoff at expiry", selection: { kind: "payoff" } },
+  { label: "Price shock", selection: { kind: "shock", percentChange: -30, days: 7 } },
+  { label: "Historical replay", selection: { kind: "historical", windowId: "covid_crash_2020" } },
+  { label: "Monte Carlo", selection: { kind: "monte_carlo", paths: 1000 } },
+];
+
+interface UseProtectionScenarioResult {
+  outcome: ScenarioOutcome | null | undefined; // undefined while loading, null when there is nothing to show
+  historicalWindows: Array<{ id: string; label: string; hasData: boolean }> | undefined;
+}
+
+/**
+ * Runs the backend scenario engine for the given buyer quote. The "payoff" selection skips the
+ * backend because the expiry payoff curve is drawn from the quote itself. Monte Carlo runs as an
+ * action, re-run whenever its inputs change.
+ */
+export const useProtectionScenario = (
+  quote: BuyerPremiumQuoteResult | null,
+  selection: ScenarioSelection
+): UseProtectionScenarioResult => {
+  const currentPrice = quote?.marketDataSnapshot?.btcPrice;
+  const canRun = !!quote && currentPrice !== undefined && selection.kind !== "payoff";
+  const terms = canRun
+    ? {
+        currentPrice: currentPrice!,
+        strikePrice: quote!.inputs.protectedValueUSD,
+        protectionAmount: quote!.inputs.protectionAmount,
+        premium: quote!.premium,
+        policyType: quote!.inputs.policyType,
+        expirationDays: quote!.inputs.expirationDays,
+      }
+    : null;
+
+  const queryOutcome = useQuery(
+    api.services.oracle.scenarioEngine.getProtectionScenario,
+    terms && (selection.kind === "shock" || selection.kind === "historical")
+      ? {
+          ...terms,
+          scenario:
+            selection.kind === "shock"
+              ? { kind: "shock", shocks: [{ percentChange: selection.percentChange, days: selection.days }] }
+              : { kind: "historical", windowId: selection.windowId },
+        }
+      : "skip"
+  );
+
+  const runMonteCarloScenario = useAction(api.services.oracle.scenarioEngine.runMonteCarloScenario);
+  const [monteCarlo, setMonteCarlo] = useState<{ key: string; outcome: ScenarioOutcome | null } | null>(null);
+  const monteCarloKey =
+    terms && selection.kind === "monte_carlo"
+      ? JSON.stringify({ ...terms, volatility: quote!.marketDataSnapshot.volatility, paths: selection.paths })
+      : null;
+
+  useEffect(() => {
+    if (!monteCarloKey) {
+      return;
+    }
+    let cancelled = false;
+    runMonteCarloScenario(JSON.parse(monteCarloKey))
+      .then((outcome) => {
+        if (!cancelled) setMonteCarlo({ key: monteCarloKey, outcome });
+      })
+      .catch((error) => {
+        console.error("Monte Carlo scenario failed:", error);
+        if (!cancelled) setMonteCarlo({ key: monteCarloKey, outcome: null });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [monteCarloKey, runMonteCarloScenario]);
+
+  const outcome = monteCarloKey
+    ? monteCarlo?.key === monteCarloKey
+      ? monteCarlo.outcome
+      : undefined
+    : queryOutcome;
+
+  const historicalWindows = useQuery(
+    api.services.oracle.scenarioEngine.getHistoricalReplayWindows,
+    selection.kind === "historical" ? {} : "skip"
+  );
+
+  return {
+    outcome: canRun ? outcome : null,
+    historicalWindows,
+  };
+};
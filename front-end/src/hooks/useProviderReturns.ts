@@ -0,0 +1,29 @@
+"use client";
+
+import { useConvexAuth, useQuery } from "convex/react";
+import { api } from "@convex/_generated/api";
+import type { FunctionReturnType } from "convex/server";
+
+export type ProviderReturns = NonNullable<FunctionReturnType<typeof api.liquidityPool.getProviderReturnSeries>>;
+
+interface UseProviderReturnsResult {
+  returns: ProviderReturns | null; // Null until the provider has a position in the token
+  isLoading: boolean;
+}
+
+/**
+ * The signed-in provider's realized time- and money-weighted returns for a token, with the daily series
+ */
+export const useProviderReturns = (token: string = "STX", days: number = 90): UseProviderReturnsResult => {
+  const { isAuthenticated, isLoading: isAuthLoading } = useConvexAuth();
+
+  const returns = useQuery(
+    api.liquidityPool.getProviderReturnSeries,
+    isAuthenticated ? { token, days } : "skip"
+  );
+
+  return {
+    returns: returns ?? null,
+    isLoading: isAuthLoading || (isAuthenticated && returns === undefined),
+  };
+};